@@ -16,6 +16,8 @@ import DiscountStrategyDemo from '@/pages/DiscountStrategyDemo'
 import SeasonalRateManagementPage from '@/components/seasonal-rate-management/SeasonalRateManagementPage'
 import DiscountStrategies from '@/pages/DiscountStrategies'
 import LodgifyPayloadGeneratorPage from '@/pages/LodgifyPayloadGenerator'
+import ScenariosPage from '@/pages/Scenarios'
+import SyncHistoryPage from '@/pages/SyncHistory'
 
 function App() {
   return (
@@ -34,6 +36,9 @@ function App() {
                   <Route path="seasonal-rates" element={<SeasonalRateManagementPage />} />
                   <Route path="discount-strategies" element={<DiscountStrategies />} />
                   <Route path="lodgify-payload-generator" element={<LodgifyPayloadGeneratorPage />} />
+                  <Route path="scenarios" element={<ScenariosPage />} />
+                  <Route path="sync-history" element={<SyncHistoryPage />} />
+                  <Route path="sync-history/:operationId" element={<SyncHistoryPage />} />
                   <Route path="settings" element={<Settings />} />
                   <Route path="test" element={<TestPricing />} />
                   <Route path="property-selection-demo" element={<PropertySelectionDemo />} />
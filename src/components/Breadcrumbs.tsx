@@ -38,6 +38,15 @@ export function Breadcrumbs() {
         breadcrumbs.push({ label: 'Settings', current: true })
         break
         
+      case 'sync-history':
+        if (pathSegments.length > 1) {
+          breadcrumbs.push({ label: 'Sync History', path: '/sync-history' })
+          breadcrumbs.push({ label: 'Run', current: true })
+        } else {
+          breadcrumbs.push({ label: 'Sync History', current: true })
+        }
+        break
+        
       default:
         // For unknown routes, just show the path segment capitalized
         breadcrumbs.push({ 
@@ -6,10 +6,12 @@
 import React, { useState, useRef, useEffect } from 'react'
 import type { CalculateFinalPriceReturn } from '@/types/helpers'
 import { PricingFormatters } from '@/types/pricing'
+import { DEFAULT_CURRENCY } from '@/utils/currency'
 
 interface CalendarCellProps {
   date: Date
   priceData: CalculateFinalPriceReturn | null
+  currency?: string  // ISO 4217 code of the property
   isCurrentMonth: boolean
   isToday: boolean
   isEditable: boolean
@@ -25,6 +27,7 @@ interface CalendarCellProps {
 const CalendarCell: React.FC<CalendarCellProps> = React.memo(({
   date,
   priceData,
+  currency = DEFAULT_CURRENCY,
   isCurrentMonth,
   isToday,
   isEditable,
@@ -148,6 +151,7 @@ const CalendarCell: React.FC<CalendarCellProps> = React.memo(({
     if (highlightDiscount) classes.push('has-discount')
     if (showSeasonalAdjustment) classes.push('has-seasonal')
     if (priceData?.min_price_enforced) classes.push('min-price-enforced')
+    if (priceData?.has_gap_discount) classes.push('gap-night')
     
     return classes.join(' ')
   }
@@ -178,6 +182,19 @@ const CalendarCell: React.FC<CalendarCellProps> = React.memo(({
       )
     }
     
+    if (priceData?.has_gap_discount) {
+      badges.push(
+        <span
+          key="gap"
+          className="badge position-absolute bottom-0 start-0 m-1"
+          style={{ fontSize: '0.6rem', backgroundColor: '#fd7e14' }}
+          title={`${priceData.gap_nights}-night gap between bookings`}
+        >
+          GAP
+        </span>
+      )
+    }
+    
     if (priceData?.min_price_enforced) {
       badges.push(
         <span key="min-price" className="badge bg-warning position-absolute bottom-0 end-0 m-1" style={{ fontSize: '0.6rem' }}>
@@ -230,11 +247,11 @@ const CalendarCell: React.FC<CalendarCellProps> = React.memo(({
           ) : (
             <div className="price-display">
               <div className="price fw-semibold">
-                {PricingFormatters.currency(priceData.final_price_per_night)}
+                {PricingFormatters.currency(priceData.final_price_per_night, currency)}
               </div>
               {priceData.base_price !== priceData.final_price_per_night && (
                 <div className="base-price text-muted text-decoration-line-through" style={{ fontSize: '0.75rem' }}>
-                  {PricingFormatters.currency(priceData.base_price)}
+                  {PricingFormatters.currency(priceData.base_price, currency)}
                 </div>
               )}
             </div>
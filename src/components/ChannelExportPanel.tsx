@@ -0,0 +1,133 @@
+import React, { useState, useCallback } from 'react'
+import { ChannelExportService } from '@/services/channel-export.service'
+import { getChannelExporters } from '@/services/channels/channelRegistry'
+import { getDefaultStayLengthCategories } from '@/utils/dateRangeGenerator'
+import { downloadFile } from '@/utils/payloadExporter'
+import type { GenerationProgress } from '@/types/lodgify'
+
+interface ChannelExportPanelProps {
+  className?: string
+}
+
+const MONTH_OPTIONS = [6, 12, 24]
+
+/**
+ * Exports pricing and availability for other channels (rates CSV, iCal) from
+ * the same nightly prices the Lodgify payload is built from
+ */
+const ChannelExportPanel: React.FC<ChannelExportPanelProps> = ({ className = '' }) => {
+  const exporters = getChannelExporters()
+  const [channelId, setChannelId] = useState(exporters[0]?.id ?? '')
+  const [months, setMonths] = useState(12)
+  const [exporting, setExporting] = useState(false)
+  const [progress, setProgress] = useState<GenerationProgress | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = exporters.find(exporter => exporter.id === channelId)
+
+  const handleExport = useCallback(async () => {
+    setExporting(true)
+    setError(null)
+    setMessage(null)
+    setProgress(null)
+
+    try {
+      const startDate = new Date()
+      const endDate = new Date(startDate.getFullYear(), startDate.getMonth() + months, startDate.getDate())
+
+      const files = await ChannelExportService.export(
+        channelId,
+        {
+          properties: [], // All properties
+          startDate,
+          endDate,
+          stayLengthCategories: getDefaultStayLengthCategories(),
+          includeDefaultRate: true,
+          optimizeRanges: true,
+          includeOverrides: true
+        },
+        setProgress
+      )
+
+      files.forEach(file => downloadFile(file.content, file.filename, file.mimeType))
+      setMessage(`Downloaded ${files.length} file${files.length === 1 ? '' : 's'}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(false)
+      setProgress(null)
+    }
+  }, [channelId, months])
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`} data-testid="channel-export-panel">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Export for Other Channels</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Rates and availability for every property, from the same prices as the Lodgify payload.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="text-sm text-gray-700">
+          Format
+          <select
+            value={channelId}
+            onChange={(e) => setChannelId(e.target.value)}
+            disabled={exporting}
+            className="block mt-1 border border-gray-300 rounded px-2 py-1"
+            data-testid="channel-select"
+          >
+            {exporters.map(exporter => (
+              <option key={exporter.id} value={exporter.id}>{exporter.name}</option>
+            ))}
+          </select>
+        </label>
+        {selected?.requires.includes('pricing') && (
+          <label className="text-sm text-gray-700">
+            Period
+            <select
+              value={months}
+              onChange={(e) => setMonths(Number(e.target.value))}
+              disabled={exporting}
+              className="block mt-1 border border-gray-300 rounded px-2 py-1"
+            >
+              {MONTH_OPTIONS.map(option => (
+                <option key={option} value={option}>{option} months</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={exporting || !selected}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          data-testid="channel-export-button"
+        >
+          {exporting ? 'Exporting...' : 'Export'}
+        </button>
+      </div>
+
+      {selected && <p className="text-xs text-gray-500 mb-3">{selected.description}</p>}
+
+      {progress && (
+        <p className="text-sm text-gray-600 mb-3">
+          {progress.phase} — {progress.currentProperty} of {progress.totalProperties} properties ({Math.round(progress.percentage)}%)
+        </p>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-3">
+          <p className="text-green-800 text-sm">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ChannelExportPanel
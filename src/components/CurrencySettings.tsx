@@ -0,0 +1,370 @@
+/**
+ * CurrencySettings - Reporting currency, exchange rates and portfolio total
+ * Rates are entered by hand; each booking is converted at the rate in force on
+ * its arrival date, so the total does not move when a newer rate is added
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { format, startOfYear, endOfYear } from 'date-fns'
+import { CurrencyService } from '@/services/currency.service'
+import type { ExchangeRateInput, PortfolioTotal } from '@/services/currency.service'
+import type { ExchangeRate } from '@/types/database'
+import { SUPPORTED_CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/utils/currency'
+
+/**
+ * New rate form values shown to the user
+ */
+interface RateFormValues {
+  base_currency: string
+  quote_currency: string
+  rate: string
+  effective_date: string
+  notes: string
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd')
+
+const emptyRateForm = (): RateFormValues => ({
+  base_currency: DEFAULT_CURRENCY,
+  quote_currency: 'GBP',
+  rate: '',
+  effective_date: today(),
+  notes: ''
+})
+
+const fromRateForm = (values: RateFormValues): ExchangeRateInput => ({
+  base_currency: values.base_currency,
+  quote_currency: values.quote_currency,
+  rate: Number(values.rate),
+  effective_date: values.effective_date,
+  notes: values.notes
+})
+
+export default function CurrencySettings() {
+  const [reportingCurrency, setReportingCurrency] = useState<string>('')
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [rateForm, setRateForm] = useState<RateFormValues>(emptyRateForm)
+  const [period, setPeriod] = useState(() => ({
+    start: format(startOfYear(new Date()), 'yyyy-MM-dd'),
+    end: format(endOfYear(new Date()), 'yyyy-MM-dd')
+  }))
+  const [portfolioTotal, setPortfolioTotal] = useState<PortfolioTotal | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    Promise.all([CurrencyService.getReportingCurrency(), CurrencyService.getExchangeRates()])
+      .then(([currency, storedRates]) => {
+        setReportingCurrency(currency ?? '')
+        setRates(storedRates)
+      })
+      .catch(err => {
+        console.error('Failed to load currency settings:', err)
+        setError('Failed to load currency settings')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleReportingCurrencyChange = useCallback(async (currency: string) => {
+    setSaving(true)
+    setError(null)
+    setPortfolioTotal(null)
+
+    try {
+      const saved = await CurrencyService.setReportingCurrency(currency || null)
+      setReportingCurrency(saved ?? '')
+    } catch (err) {
+      console.error('Failed to save reporting currency:', err)
+      setError('Failed to save reporting currency. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [])
+
+  const handleAddRate = useCallback(async () => {
+    const input = fromRateForm(rateForm)
+    const validationError = CurrencyService.validateExchangeRate(input)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      await CurrencyService.saveExchangeRate(input)
+      setRates(await CurrencyService.getExchangeRates())
+      setRateForm(prev => ({ ...prev, rate: '', notes: '' }))
+      setPortfolioTotal(null)
+    } catch (err) {
+      console.error('Failed to save exchange rate:', err)
+      setError('Failed to save exchange rate. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [rateForm])
+
+  const handleDeleteRate = useCallback(async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.base_currency}/${rate.quote_currency} rate of ${rate.effective_date}?`)) {
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      await CurrencyService.deleteExchangeRate(rate.rate_id)
+      setRates(prev => prev.filter(r => r.rate_id !== rate.rate_id))
+      setPortfolioTotal(null)
+    } catch (err) {
+      console.error('Failed to delete exchange rate:', err)
+      setError('Failed to delete exchange rate. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [])
+
+  const handleCalculateTotal = useCallback(async () => {
+    if (!reportingCurrency) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      setPortfolioTotal(await CurrencyService.getPortfolioTotal(reportingCurrency, period.start, period.end))
+    } catch (err) {
+      console.error('Failed to calculate portfolio total:', err)
+      setError('Failed to calculate portfolio total. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [reportingCurrency, period])
+
+  const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+  const currencyOptions = SUPPORTED_CURRENCIES.map(({ code, label }) => (
+    <option key={code} value={code}>{code} – {label}</option>
+  ))
+
+  return (
+    <div className="bg-white shadow rounded-lg" data-testid="currency-settings">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Currencies &amp; Reporting</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Each property is priced in its own currency. Pick a reporting currency and enter
+          exchange rates to see the whole portfolio in one currency.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading currency settings...</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label htmlFor="reporting-currency" className="block text-sm font-medium text-gray-700 mb-1">
+                Reporting Currency
+              </label>
+              <select
+                id="reporting-currency"
+                className={inputClassName}
+                value={reportingCurrency}
+                onChange={(e) => handleReportingCurrencyChange(e.target.value)}
+                disabled={saving}
+              >
+                <option value="">None (each property in its own currency)</option>
+                {currencyOptions}
+              </select>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Exchange Rates</h3>
+              {rates.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-3">No exchange rates entered yet.</p>
+              ) : (
+                <table className="min-w-full text-sm mb-3" data-testid="exchange-rate-table">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 pr-4 font-medium">From</th>
+                      <th className="py-1 pr-4 font-medium">Rate</th>
+                      <th className="py-1 pr-4 font-medium">Notes</th>
+                      <th className="py-1" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rates.map(rate => (
+                      <tr key={rate.rate_id} className="border-t border-gray-100">
+                        <td className="py-1 pr-4">{rate.effective_date}</td>
+                        <td className="py-1 pr-4">1 {rate.base_currency} = {rate.rate} {rate.quote_currency}</td>
+                        <td className="py-1 pr-4 text-gray-500">{rate.notes}</td>
+                        <td className="py-1 text-right">
+                          <button
+                            type="button"
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            onClick={() => handleDeleteRate(rate)}
+                            disabled={saving}
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-6 items-end">
+                <div>
+                  <label htmlFor="rate-base" className="block text-xs font-medium text-gray-700 mb-1">1 ×</label>
+                  <select
+                    id="rate-base"
+                    className={inputClassName}
+                    value={rateForm.base_currency}
+                    onChange={(e) => setRateForm({ ...rateForm, base_currency: e.target.value })}
+                    disabled={saving}
+                  >
+                    {currencyOptions}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="rate-value" className="block text-xs font-medium text-gray-700 mb-1">Rate</label>
+                  <input
+                    id="rate-value"
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    className={inputClassName}
+                    value={rateForm.rate}
+                    onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="rate-quote" className="block text-xs font-medium text-gray-700 mb-1">In</label>
+                  <select
+                    id="rate-quote"
+                    className={inputClassName}
+                    value={rateForm.quote_currency}
+                    onChange={(e) => setRateForm({ ...rateForm, quote_currency: e.target.value })}
+                    disabled={saving}
+                  >
+                    {currencyOptions}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="rate-date" className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    id="rate-date"
+                    type="date"
+                    className={inputClassName}
+                    value={rateForm.effective_date}
+                    onChange={(e) => setRateForm({ ...rateForm, effective_date: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="rate-notes" className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                  <input
+                    id="rate-notes"
+                    type="text"
+                    className={inputClassName}
+                    value={rateForm.notes}
+                    onChange={(e) => setRateForm({ ...rateForm, notes: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                  onClick={handleAddRate}
+                  disabled={saving}
+                >
+                  Add Rate
+                </button>
+              </div>
+            </div>
+
+            {reportingCurrency && (
+              <div data-testid="portfolio-total">
+                <h3 className="text-sm font-medium text-gray-900 mb-2">
+                  Portfolio Booking Revenue in {reportingCurrency}
+                </h3>
+                <div className="flex flex-wrap items-end gap-3 mb-3">
+                  <div>
+                    <label htmlFor="portfolio-start" className="block text-xs font-medium text-gray-700 mb-1">Arrivals from</label>
+                    <input
+                      id="portfolio-start"
+                      type="date"
+                      className={inputClassName}
+                      value={period.start}
+                      onChange={(e) => setPeriod({ ...period, start: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="portfolio-end" className="block text-xs font-medium text-gray-700 mb-1">to</label>
+                    <input
+                      id="portfolio-end"
+                      type="date"
+                      className={inputClassName}
+                      value={period.end}
+                      onChange={(e) => setPeriod({ ...period, end: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                    onClick={handleCalculateTotal}
+                    disabled={saving}
+                  >
+                    Calculate Total
+                  </button>
+                </div>
+
+                {portfolioTotal && (
+                  <table className="min-w-full text-sm">
+                    <tbody>
+                      {portfolioTotal.properties.map(property => (
+                        <tr key={property.propertyId} className="border-t border-gray-100">
+                          <td className="py-1 pr-4">{property.propertyName}</td>
+                          <td className="py-1 pr-4 text-right text-gray-500">
+                            {formatMoney(property.amount, property.currency)}
+                          </td>
+                          <td className="py-1 text-right">
+                            {property.convertedAmount === null
+                              ? <span className="text-amber-600">no {property.currency} rate</span>
+                              : formatMoney(property.convertedAmount, portfolioTotal.reportingCurrency)}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="border-t border-gray-300 font-medium">
+                        <td className="py-1 pr-4">Total</td>
+                        <td />
+                        <td className="py-1 text-right">
+                          {formatMoney(portfolioTotal.total, portfolioTotal.reportingCurrency)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                )}
+
+                {portfolioTotal && portfolioTotal.missingRates.length > 0 && (
+                  <p className="mt-2 text-sm text-amber-600">
+                    Properties priced in {portfolioTotal.missingRates.join(', ')} are left out of the
+                    total until a rate into {portfolioTotal.reportingCurrency} is entered for their booking dates.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
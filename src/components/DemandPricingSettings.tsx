@@ -0,0 +1,214 @@
+/**
+ * DemandPricingSettings - Portfolio-wide occupancy-driven pricing configuration
+ * Prices move up when bookings for a week are ahead of last year's pace and down
+ * when behind, within the configured bounds and never below the minimum price
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  DemandPricingService,
+  DEFAULT_DEMAND_PRICING_SETTINGS
+} from '@/services/demand-pricing.service'
+import type { DemandPricingSettingsInput } from '@/services/demand-pricing.service'
+import type { OccupancyBasis } from '@/types/database'
+
+/**
+ * Percent-based form values shown to the user
+ */
+interface DemandPricingFormValues {
+  is_enabled: boolean
+  occupancy_basis: OccupancyBasis
+  sensitivity: string
+  max_increase_percent: string
+  max_decrease_percent: string
+}
+
+const toFormValues = (settings: DemandPricingSettingsInput): DemandPricingFormValues => ({
+  is_enabled: settings.is_enabled,
+  occupancy_basis: settings.occupancy_basis,
+  sensitivity: String(settings.sensitivity),
+  max_increase_percent: String(Math.round(settings.max_increase * 1000) / 10),
+  max_decrease_percent: String(Math.round(settings.max_decrease * 1000) / 10)
+})
+
+const fromFormValues = (values: DemandPricingFormValues): DemandPricingSettingsInput => ({
+  is_enabled: values.is_enabled,
+  occupancy_basis: values.occupancy_basis,
+  sensitivity: Number(values.sensitivity),
+  max_increase: Number(values.max_increase_percent) / 100,
+  max_decrease: Number(values.max_decrease_percent) / 100
+})
+
+export default function DemandPricingSettings() {
+  const [values, setValues] = useState<DemandPricingFormValues>(toFormValues(DEFAULT_DEMAND_PRICING_SETTINGS))
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+
+  useEffect(() => {
+    DemandPricingService.getSettings(null)
+      .then(settings => {
+        if (settings) setValues(toFormValues(settings))
+      })
+      .catch(err => {
+        console.error('Failed to load demand pricing settings:', err)
+        setError('Failed to load demand pricing settings')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const updateValue = useCallback(<K extends keyof DemandPricingFormValues>(
+    key: K,
+    value: DemandPricingFormValues[K]
+  ) => {
+    setValues(prev => ({ ...prev, [key]: value }))
+    setSavedAt(null)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    const settings = fromFormValues(values)
+    const validationError = DemandPricingService.validateSettings(settings)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const saved = await DemandPricingService.saveSettings(settings, null)
+      setValues(toFormValues(saved))
+      setSavedAt(new Date())
+    } catch (err) {
+      console.error('Failed to save demand pricing settings:', err)
+      setError('Failed to save demand pricing settings. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [values])
+
+  const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+  return (
+    <div className="bg-white shadow rounded-lg" data-testid="demand-pricing-settings">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Demand Pricing</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Adjust prices by how booked a week is compared with the same lead time last year.
+          Adjustments stay within the bounds below and never go under a property's minimum price.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading demand pricing settings...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center">
+              <input
+                id="demand-pricing-enabled"
+                type="checkbox"
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                checked={values.is_enabled}
+                onChange={(e) => updateValue('is_enabled', e.target.checked)}
+                disabled={saving}
+              />
+              <label htmlFor="demand-pricing-enabled" className="ml-2 block text-sm text-gray-900">
+                Enable demand pricing for all properties
+              </label>
+            </div>
+
+            <div>
+              <label htmlFor="demand-pricing-basis" className="block text-sm font-medium text-gray-700 mb-1">
+                Occupancy Basis
+              </label>
+              <select
+                id="demand-pricing-basis"
+                className={inputClassName}
+                value={values.occupancy_basis}
+                onChange={(e) => updateValue('occupancy_basis', e.target.value as OccupancyBasis)}
+                disabled={saving}
+              >
+                <option value="property">Each property's own bookings</option>
+                <option value="portfolio">Whole portfolio</option>
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="demand-pricing-sensitivity" className="block text-sm font-medium text-gray-700 mb-1">
+                  Sensitivity
+                </label>
+                <input
+                  id="demand-pricing-sensitivity"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  className={inputClassName}
+                  value={values.sensitivity}
+                  onChange={(e) => updateValue('sensitivity', e.target.value)}
+                  disabled={saving}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  0.5 means 10 points ahead of last year raises prices 5%
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="demand-pricing-max-increase" className="block text-sm font-medium text-gray-700 mb-1">
+                  Maximum Increase (%)
+                </label>
+                <input
+                  id="demand-pricing-max-increase"
+                  type="number"
+                  step="1"
+                  min="0"
+                  className={inputClassName}
+                  value={values.max_increase_percent}
+                  onChange={(e) => updateValue('max_increase_percent', e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="demand-pricing-max-decrease" className="block text-sm font-medium text-gray-700 mb-1">
+                  Maximum Decrease (%)
+                </label>
+                <input
+                  id="demand-pricing-max-decrease"
+                  type="number"
+                  step="1"
+                  min="0"
+                  className={inputClassName}
+                  value={values.max_decrease_percent}
+                  onChange={(e) => updateValue('max_decrease_percent', e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                onClick={handleSave}
+                disabled={saving}
+              >
+                {saving ? 'Saving...' : 'Save Demand Pricing'}
+              </button>
+              {savedAt && (
+                <span className="text-sm text-green-600">Saved</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
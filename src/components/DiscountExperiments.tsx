@@ -0,0 +1,555 @@
+/**
+ * DiscountExperiments - A/B tests between two last-minute strategies
+ * Assigns the strategies to comparable properties or alternating weeks for a
+ * fixed period, then compares the bookings each arm won
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { format, addDays } from 'date-fns'
+import { useProperties } from '@/hooks/useProperties'
+import { DiscountExperimentService } from '@/services/discount-experiment.service'
+import type { DiscountExperimentInput, ExperimentResults } from '@/services/discount-experiment.service'
+import type { ExperimentMetric } from '@/utils/experimentStats'
+import type { DiscountExperiment, ExperimentArm, ExperimentAssignmentMode } from '@/types/database'
+
+const METRIC_LABELS: Record<ExperimentMetric, string> = {
+  adr: 'ADR (revenue per booked night)',
+  lead_time: 'Mean lead time (days)',
+  booking_rate: 'Bookings per 100 property-nights',
+  revenue_per_available_night: 'Revenue per property-night'
+}
+
+const STATUS_CLASSES: Record<DiscountExperiment['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  running: 'bg-green-100 text-green-800',
+  stopped: 'bg-yellow-100 text-yellow-800'
+}
+
+const formatNumber = (value: number | null, digits = 2) =>
+  value === null ? '–' : value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits })
+
+const formatChange = (value: number | null) =>
+  value === null ? '–' : `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`
+
+/**
+ * Form values shown to the user
+ */
+interface ExperimentFormValues {
+  experiment_name: string
+  strategy_a_id: string
+  strategy_b_id: string
+  assignment_mode: ExperimentAssignmentMode
+  start_date: string
+  end_date: string
+  notes: string
+  arms: Record<string, ExperimentArm | 'none'>  // property_internal_id -> arm; 'none' = not enrolled
+}
+
+const emptyForm = (): ExperimentFormValues => ({
+  experiment_name: '',
+  strategy_a_id: '',
+  strategy_b_id: '',
+  assignment_mode: 'property',
+  start_date: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+  end_date: format(addDays(new Date(), 57), 'yyyy-MM-dd'),
+  notes: '',
+  arms: {}
+})
+
+export default function DiscountExperiments() {
+  const { properties } = useProperties()
+  const [experiments, setExperiments] = useState<DiscountExperiment[]>([])
+  const [strategies, setStrategies] = useState<{ strategy_id: string; strategy_name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [values, setValues] = useState<ExperimentFormValues>(emptyForm)
+  const [results, setResults] = useState<ExperimentResults | null>(null)
+  const [resultsLoading, setResultsLoading] = useState<string | null>(null)
+
+  const strategyNames = useMemo(
+    () => new Map(strategies.map(strategy => [strategy.strategy_id, strategy.strategy_name])),
+    [strategies]
+  )
+
+  const loadExperiments = useCallback(async () => {
+    try {
+      const [experimentRows, strategyRows] = await Promise.all([
+        DiscountExperimentService.getExperiments(),
+        DiscountExperimentService.getLastMinuteStrategies()
+      ])
+      setExperiments(experimentRows)
+      setStrategies(strategyRows)
+    } catch (err) {
+      console.error('Failed to load experiments:', err)
+      setError('Failed to load experiments')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadExperiments()
+  }, [loadExperiments])
+
+  const updateValue = useCallback(<K extends keyof ExperimentFormValues>(
+    key: K,
+    value: ExperimentFormValues[K]
+  ) => {
+    setValues(prev => ({ ...prev, [key]: value }))
+  }, [])
+
+  const setPropertyArm = useCallback((propertyId: string, arm: ExperimentArm | 'none') => {
+    setValues(prev => ({ ...prev, arms: { ...prev.arms, [propertyId]: arm } }))
+  }, [])
+
+  // Split the enrolled properties (or all, when none are yet) into arms of similar base prices
+  const handleBalanceArms = useCallback(() => {
+    setValues(prev => {
+      const enrolled = properties.filter(property => (prev.arms[property.id] ?? 'none') !== 'none')
+      const balanced = DiscountExperimentService.balanceArms(enrolled.length > 0 ? enrolled : properties)
+      return {
+        ...prev,
+        arms: Object.fromEntries(balanced.map(entry => [entry.property_internal_id, entry.arm ?? 'none']))
+      }
+    })
+  }, [properties])
+
+  const handleCreate = useCallback(async () => {
+    const input: DiscountExperimentInput = {
+      experiment_name: values.experiment_name,
+      strategy_a_id: values.strategy_a_id,
+      strategy_b_id: values.strategy_b_id,
+      assignment_mode: values.assignment_mode,
+      start_date: values.start_date,
+      end_date: values.end_date,
+      notes: values.notes.trim() || null,
+      properties: Object.entries(values.arms)
+        .filter(([, arm]) => arm !== 'none')
+        .map(([propertyId, arm]) => ({
+          property_internal_id: propertyId,
+          arm: values.assignment_mode === 'property' ? arm as ExperimentArm : null
+        }))
+    }
+
+    const validationError = DiscountExperimentService.validateExperiment(input)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      await DiscountExperimentService.createExperiment(input)
+      setShowForm(false)
+      setValues(emptyForm())
+      await loadExperiments()
+    } catch (err) {
+      console.error('Failed to create experiment:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create experiment. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [values, loadExperiments])
+
+  const handleStatusChange = useCallback(async (experiment: DiscountExperiment, action: 'start' | 'stop') => {
+    if (action === 'stop' && !window.confirm(`Stop "${experiment.experiment_name}"? Its properties go back to their own strategies.`)) {
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      if (action === 'start') {
+        await DiscountExperimentService.startExperiment(experiment.experiment_id)
+      } else {
+        await DiscountExperimentService.stopExperiment(experiment.experiment_id)
+      }
+      await loadExperiments()
+    } catch (err) {
+      console.error(`Failed to ${action} experiment:`, err)
+      setError(err instanceof Error ? err.message : `Failed to ${action} experiment`)
+    } finally {
+      setSaving(false)
+    }
+  }, [loadExperiments])
+
+  const handleShowResults = useCallback(async (experimentId: string) => {
+    if (results?.experiment.experiment_id === experimentId) {
+      setResults(null)
+      return
+    }
+
+    setResultsLoading(experimentId)
+    setError(null)
+
+    try {
+      setResults(await DiscountExperimentService.analyzeExperiment(experimentId))
+    } catch (err) {
+      console.error('Failed to analyse experiment:', err)
+      setError('Failed to load experiment results')
+    } finally {
+      setResultsLoading(null)
+    }
+  }, [results])
+
+  const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+  return (
+    <div className="bg-white shadow rounded-lg mt-6" data-testid="discount-experiments">
+      <div className="p-6 border-b border-gray-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Strategy Experiments</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Price comparable properties, or alternating weeks, with two last-minute strategies
+            and compare the bookings each one wins. Each arm uses a copy of its strategy, so
+            editing the original does not disturb a running experiment.
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 whitespace-nowrap"
+            onClick={() => setShowForm(true)}
+          >
+            New Experiment
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        {showForm && (
+          <div className="border border-gray-200 rounded-md p-4 space-y-4" data-testid="discount-experiment-form">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="experiment-name" className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  id="experiment-name"
+                  className={inputClassName}
+                  value={values.experiment_name}
+                  onChange={(e) => updateValue('experiment_name', e.target.value)}
+                  placeholder="e.g. Aggressive vs moderate, spring"
+                  disabled={saving}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="experiment-mode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Assignment
+                </label>
+                <select
+                  id="experiment-mode"
+                  className={inputClassName}
+                  value={values.assignment_mode}
+                  onChange={(e) => updateValue('assignment_mode', e.target.value as ExperimentAssignmentMode)}
+                  disabled={saving}
+                >
+                  <option value="property">By property (each property has one arm)</option>
+                  <option value="alternating_weeks">Alternating weeks (A, then B, then A...)</option>
+                </select>
+              </div>
+
+              {(['a', 'b'] as const).map(arm => {
+                const key = arm === 'a' ? 'strategy_a_id' : 'strategy_b_id'
+                return (
+                  <div key={arm}>
+                    <label htmlFor={`experiment-strategy-${arm}`} className="block text-sm font-medium text-gray-700 mb-1">
+                      Strategy {arm.toUpperCase()}
+                    </label>
+                    <select
+                      id={`experiment-strategy-${arm}`}
+                      className={inputClassName}
+                      value={values[key]}
+                      onChange={(e) => updateValue(key, e.target.value)}
+                      disabled={saving}
+                    >
+                      <option value="">Choose a last-minute strategy...</option>
+                      {strategies.map(strategy => (
+                        <option key={strategy.strategy_id} value={strategy.strategy_id}>
+                          {strategy.strategy_name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )
+              })}
+
+              <div>
+                <label htmlFor="experiment-start" className="block text-sm font-medium text-gray-700 mb-1">
+                  First Night
+                </label>
+                <input
+                  id="experiment-start"
+                  type="date"
+                  className={inputClassName}
+                  value={values.start_date}
+                  onChange={(e) => updateValue('start_date', e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="experiment-end" className="block text-sm font-medium text-gray-700 mb-1">
+                  Last Night
+                </label>
+                <input
+                  id="experiment-end"
+                  type="date"
+                  className={inputClassName}
+                  value={values.end_date}
+                  onChange={(e) => updateValue('end_date', e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <fieldset>
+              <div className="flex items-center justify-between mb-2">
+                <legend className="block text-sm font-medium text-gray-700">Properties</legend>
+                {values.assignment_mode === 'property' && (
+                  <button
+                    type="button"
+                    className="text-sm text-indigo-600 hover:text-indigo-800"
+                    onClick={handleBalanceArms}
+                    disabled={saving || properties.length === 0}
+                  >
+                    Balance arms by base price
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {properties.map(property => {
+                  const arm = values.arms[property.id] ?? 'none'
+                  return (
+                    <div key={property.id} className="flex items-center justify-between gap-2 text-sm text-gray-900">
+                      <span>
+                        {property.property_name}
+                        <span className="text-gray-500"> · {property.base_price_per_day}/night</span>
+                      </span>
+                      {values.assignment_mode === 'property' ? (
+                        <select
+                          className="border-gray-300 rounded-md text-sm"
+                          value={arm}
+                          onChange={(e) => setPropertyArm(property.id, e.target.value as ExperimentArm | 'none')}
+                          disabled={saving}
+                          aria-label={`Arm for ${property.property_name}`}
+                        >
+                          <option value="none">Not enrolled</option>
+                          <option value="a">Arm A</option>
+                          <option value="b">Arm B</option>
+                        </select>
+                      ) : (
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                          checked={arm !== 'none'}
+                          onChange={(e) => setPropertyArm(property.id, e.target.checked ? 'a' : 'none')}
+                          disabled={saving}
+                          aria-label={`Enrol ${property.property_name}`}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </fieldset>
+
+            <div>
+              <label htmlFor="experiment-notes" className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                id="experiment-notes"
+                rows={2}
+                className={inputClassName}
+                value={values.notes}
+                onChange={(e) => updateValue('notes', e.target.value)}
+                disabled={saving}
+              />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                onClick={handleCreate}
+                disabled={saving}
+              >
+                {saving ? 'Creating...' : 'Create Experiment'}
+              </button>
+              <button
+                type="button"
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+                onClick={() => {
+                  setShowForm(false)
+                  setError(null)
+                }}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <span className="text-xs text-gray-500">
+                Created as a draft; prices only change once it is started.
+              </span>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading experiments...</p>
+        ) : experiments.length === 0 ? (
+          <p className="text-sm text-gray-500">No experiments yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Experiment</th>
+                <th className="py-2 pr-4 font-medium">Arms</th>
+                <th className="py-2 pr-4 font-medium">Nights</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {experiments.map(experiment => (
+                <tr key={experiment.experiment_id}>
+                  <td className="py-2 pr-4 text-gray-900">
+                    {experiment.experiment_name}
+                    <div className="text-xs text-gray-500">
+                      {experiment.assignment_mode === 'alternating_weeks' ? 'Alternating weeks' : 'By property'}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">
+                    <div>A: {strategyNames.get(experiment.strategy_a_id) ?? experiment.strategy_a_id}</div>
+                    <div>B: {strategyNames.get(experiment.strategy_b_id) ?? experiment.strategy_b_id}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">
+                    {experiment.start_date} – {experiment.end_date}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded text-xs ${STATUS_CLASSES[experiment.status]}`}>
+                      {experiment.status}
+                    </span>
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap space-x-2">
+                    {experiment.status === 'draft' && (
+                      <button
+                        type="button"
+                        className="text-indigo-600 hover:text-indigo-800"
+                        onClick={() => handleStatusChange(experiment, 'start')}
+                        disabled={saving}
+                      >
+                        Start
+                      </button>
+                    )}
+                    {experiment.status === 'running' && (
+                      <button
+                        type="button"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => handleStatusChange(experiment, 'stop')}
+                        disabled={saving}
+                      >
+                        Stop
+                      </button>
+                    )}
+                    {experiment.status !== 'draft' && (
+                      <button
+                        type="button"
+                        className="text-indigo-600 hover:text-indigo-800"
+                        onClick={() => handleShowResults(experiment.experiment_id)}
+                        disabled={resultsLoading !== null}
+                      >
+                        {resultsLoading === experiment.experiment_id
+                          ? 'Loading...'
+                          : results?.experiment.experiment_id === experiment.experiment_id ? 'Hide Results' : 'Results'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {results && (
+          <div className="border border-gray-200 rounded-md p-4 space-y-4" data-testid="discount-experiment-results">
+            <div>
+              <h3 className="text-base font-medium text-gray-900">{results.experiment.experiment_name}</h3>
+              <p className="text-xs text-gray-500">
+                Bookings made from {results.periodStart} with arrivals up to {results.periodEnd},
+                by the arm that priced the arrival night
+              </p>
+            </div>
+
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-4 font-medium"></th>
+                  <th className="py-1 pr-4 font-medium text-right">Arm A</th>
+                  <th className="py-1 font-medium text-right">Arm B</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900">
+                {([
+                  ['Bookings', arm => formatNumber(arm.bookings, 0)],
+                  ['Booked nights', arm => formatNumber(arm.nights, 0)],
+                  ['Revenue', arm => formatNumber(arm.revenue)],
+                  ['Property-nights priced', arm => formatNumber(arm.exposureNights, 0)]
+                ] as [string, (arm: ExperimentResults['arms'][number]) => string][]).map(([label, value]) => (
+                  <tr key={label}>
+                    <td className="py-1 pr-4 text-gray-600">{label}</td>
+                    <td className="py-1 pr-4 text-right">{value(results.arms[0])}</td>
+                    <td className="py-1 text-right">{value(results.arms[1])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-4 font-medium">Metric</th>
+                  <th className="py-1 pr-4 font-medium text-right">A</th>
+                  <th className="py-1 pr-4 font-medium text-right">B</th>
+                  <th className="py-1 pr-4 font-medium text-right">B vs A</th>
+                  <th className="py-1 font-medium text-right">Effect size</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900">
+                {results.effects.map(effect => (
+                  <tr key={effect.metric}>
+                    <td className="py-1 pr-4 text-gray-600">{METRIC_LABELS[effect.metric]}</td>
+                    <td className="py-1 pr-4 text-right">{formatNumber(effect.a)}</td>
+                    <td className="py-1 pr-4 text-right">{formatNumber(effect.b)}</td>
+                    <td className="py-1 pr-4 text-right">{formatChange(effect.relativeDifference)}</td>
+                    <td className="py-1 text-right">
+                      {effect.cohensD === null ? '–' : `d = ${effect.cohensD.toFixed(2)} (${effect.effectSize})`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {results.warnings.length > 0 && (
+              <ul className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3 space-y-1" role="status">
+                {results.warnings.map(warning => (
+                  <li key={`${warning.code}-${warning.message}`}>{warning.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+/**
+ * DiscountStackingSettings - Portfolio-wide discount stacking policy
+ * Decides which discounts combine, how their percentages stack, the total cap,
+ * and where discounts sit relative to seasonal adjustments and the minimum price
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  DiscountStackingService,
+  DEFAULT_DISCOUNT_STACKING_POLICY,
+  DISCOUNT_KINDS,
+  DISCOUNT_KIND_LABELS
+} from '@/services/discount-stacking.service'
+import type { DiscountStackingPolicyInput } from '@/services/discount-stacking.service'
+import type { DiscountKind, DiscountStackingMode, DiscountOrder, MinPriceStage } from '@/types/database'
+
+/**
+ * Form values shown to the user
+ */
+interface DiscountStackingFormValues {
+  stacking_mode: DiscountStackingMode
+  exclusive_discounts: DiscountKind[]
+  max_total_percent: string  // Empty = no cap
+  discount_order: DiscountOrder
+  min_price_stage: MinPriceStage
+}
+
+const toFormValues = (policy: DiscountStackingPolicyInput): DiscountStackingFormValues => ({
+  stacking_mode: policy.stacking_mode,
+  exclusive_discounts: policy.exclusive_discounts,
+  max_total_percent: policy.max_total_discount === null ? '' : String(Math.round(policy.max_total_discount * 1000) / 10),
+  discount_order: policy.discount_order,
+  min_price_stage: policy.min_price_stage
+})
+
+const fromFormValues = (values: DiscountStackingFormValues): DiscountStackingPolicyInput => ({
+  stacking_mode: values.stacking_mode,
+  exclusive_discounts: values.exclusive_discounts,
+  max_total_discount: values.max_total_percent.trim() === '' ? null : Number(values.max_total_percent) / 100,
+  discount_order: values.discount_order,
+  min_price_stage: values.min_price_stage
+})
+
+export default function DiscountStackingSettings() {
+  const [values, setValues] = useState<DiscountStackingFormValues>(toFormValues(DEFAULT_DISCOUNT_STACKING_POLICY))
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+
+  useEffect(() => {
+    DiscountStackingService.getPolicy(null)
+      .then(policy => {
+        if (policy) setValues(toFormValues(policy))
+      })
+      .catch(err => {
+        console.error('Failed to load discount stacking policy:', err)
+        setError('Failed to load discount stacking policy')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const updateValue = useCallback(<K extends keyof DiscountStackingFormValues>(
+    key: K,
+    value: DiscountStackingFormValues[K]
+  ) => {
+    setValues(prev => ({ ...prev, [key]: value }))
+    setSavedAt(null)
+  }, [])
+
+  const toggleExclusive = useCallback((kind: DiscountKind, exclusive: boolean) => {
+    setValues(prev => ({
+      ...prev,
+      // Keep the set in application order
+      exclusive_discounts: DISCOUNT_KINDS.filter(k =>
+        k === kind ? exclusive : prev.exclusive_discounts.includes(k)
+      )
+    }))
+    setSavedAt(null)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    const policy = fromFormValues(values)
+    const validationError = DiscountStackingService.validatePolicy(policy)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const saved = await DiscountStackingService.savePolicy(policy, null)
+      setValues(toFormValues(saved))
+      setSavedAt(new Date())
+    } catch (err) {
+      console.error('Failed to save discount stacking policy:', err)
+      setError('Failed to save discount stacking policy. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [values])
+
+  const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+  return (
+    <div className="bg-white shadow rounded-lg" data-testid="discount-stacking-settings">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Discount Stacking</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Decide what happens when several discounts apply to the same night. The price
+          breakdown of any night shows the result step by step.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading discount stacking policy...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="stacking-mode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Combining Discounts
+                </label>
+                <select
+                  id="stacking-mode"
+                  className={inputClassName}
+                  value={values.stacking_mode}
+                  onChange={(e) => updateValue('stacking_mode', e.target.value as DiscountStackingMode)}
+                  disabled={saving}
+                >
+                  <option value="compound">Compound (10% then 10% = 19% off)</option>
+                  <option value="additive">Add up (10% + 10% = 20% off)</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="stacking-max-total" className="block text-sm font-medium text-gray-700 mb-1">
+                  Maximum Total Discount (%)
+                </label>
+                <input
+                  id="stacking-max-total"
+                  type="number"
+                  step="1"
+                  min="0"
+                  max="100"
+                  className={inputClassName}
+                  value={values.max_total_percent}
+                  onChange={(e) => updateValue('max_total_percent', e.target.value)}
+                  placeholder="No cap"
+                  disabled={saving}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="stacking-order" className="block text-sm font-medium text-gray-700 mb-1">
+                  Discounts and Seasonal Rates
+                </label>
+                <select
+                  id="stacking-order"
+                  className={inputClassName}
+                  value={values.discount_order}
+                  onChange={(e) => updateValue('discount_order', e.target.value as DiscountOrder)}
+                  disabled={saving}
+                >
+                  <option value="after_adjustments">Discount the seasonally adjusted price</option>
+                  <option value="before_adjustments">Discount the base price only</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Also covers weekday and demand adjustments
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="stacking-min-stage" className="block text-sm font-medium text-gray-700 mb-1">
+                  Minimum Price
+                </label>
+                <select
+                  id="stacking-min-stage"
+                  className={inputClassName}
+                  value={values.min_price_stage}
+                  onChange={(e) => updateValue('min_price_stage', e.target.value as MinPriceStage)}
+                  disabled={saving}
+                >
+                  <option value="final">Applies to the final price</option>
+                  <option value="before_discounts">Applies before discounts (discounts may go below it)</option>
+                </select>
+              </div>
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">
+                Exclusive Discounts
+              </legend>
+              <p className="text-xs text-gray-500 mb-2">
+                When several ticked discounts apply to a night, only the largest is kept.
+                Last-minute and early-bird discounts never combine with each other.
+              </p>
+              <div className="flex flex-wrap gap-4">
+                {DISCOUNT_KINDS.map(kind => (
+                  <label key={kind} className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      checked={values.exclusive_discounts.includes(kind)}
+                      onChange={(e) => toggleExclusive(kind, e.target.checked)}
+                      disabled={saving}
+                    />
+                    <span className="ml-2">{DISCOUNT_KIND_LABELS[kind]}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                onClick={handleSave}
+                disabled={saving}
+              >
+                {saving ? 'Saving...' : 'Save Stacking Policy'}
+              </button>
+              {savedAt && (
+                <span className="text-sm text-green-600">Saved</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@
 
 import React, { useState } from 'react'
 import { useDiscountStrategies } from '@/hooks/useDiscountStrategies'
+import { formatApplicableDays } from '@/utils/discountRuleEligibility'
 import type { DiscountStrategy, DiscountRule } from '@/types/database-aliases'
 import type { 
   NewDiscountStrategy, 
@@ -288,6 +289,7 @@ const RuleList: React.FC<RuleListProps> = ({ strategyId, rules, onAddRule, onDel
               <th>Days Before</th>
               <th>Discount</th>
               <th>Nights</th>
+              <th>Days</th>
               <th></th>
             </tr>
           </thead>
@@ -305,6 +307,7 @@ const RuleList: React.FC<RuleListProps> = ({ strategyId, rules, onAddRule, onDel
                     'Any'
                   )}
                 </td>
+                <td>{formatApplicableDays(rule.applicable_days)}</td>
                 <td>
                   <button 
                     className="btn btn-sm btn-outline-danger"
@@ -318,6 +321,12 @@ const RuleList: React.FC<RuleListProps> = ({ strategyId, rules, onAddRule, onDel
           </tbody>
         </table>
       )}
+      {rules.length > 0 && (
+        <p className="text-muted small mb-0">
+          A rule only discounts nights on its days, in stays of at least its minimum nights.
+          A night's price breakdown shows why each rule did or didn't apply.
+        </p>
+      )}
     </div>
   )
 }
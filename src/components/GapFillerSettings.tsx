@@ -0,0 +1,175 @@
+/**
+ * GapFillerSettings - Portfolio-wide gap-night filler configuration
+ * Short free runs between bookings get a discount and a minimum stay equal to
+ * the gap length, so they can be sold on their own
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  GapFillerService,
+  DEFAULT_GAP_FILLER_SETTINGS
+} from '@/services/gap-filler.service'
+import type { GapFillerSettingsInput } from '@/services/gap-filler.service'
+
+/**
+ * Form values shown to the user
+ */
+interface GapFillerFormValues {
+  is_enabled: boolean
+  max_gap_nights: string
+  discount_percent: string
+}
+
+const toFormValues = (settings: GapFillerSettingsInput): GapFillerFormValues => ({
+  is_enabled: settings.is_enabled,
+  max_gap_nights: String(settings.max_gap_nights),
+  discount_percent: String(Math.round(settings.discount_rate * 1000) / 10)
+})
+
+const fromFormValues = (values: GapFillerFormValues): GapFillerSettingsInput => ({
+  is_enabled: values.is_enabled,
+  max_gap_nights: Number(values.max_gap_nights),
+  discount_rate: Number(values.discount_percent) / 100
+})
+
+export default function GapFillerSettings() {
+  const [values, setValues] = useState<GapFillerFormValues>(toFormValues(DEFAULT_GAP_FILLER_SETTINGS))
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+
+  useEffect(() => {
+    GapFillerService.getSettings(null)
+      .then(settings => {
+        if (settings) setValues(toFormValues(settings))
+      })
+      .catch(err => {
+        console.error('Failed to load gap filler settings:', err)
+        setError('Failed to load gap filler settings')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const updateValue = useCallback(<K extends keyof GapFillerFormValues>(
+    key: K,
+    value: GapFillerFormValues[K]
+  ) => {
+    setValues(prev => ({ ...prev, [key]: value }))
+    setSavedAt(null)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    const settings = fromFormValues(values)
+    const validationError = GapFillerService.validateSettings(settings)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const saved = await GapFillerService.saveSettings(settings, null)
+      setValues(toFormValues(saved))
+      setSavedAt(new Date())
+    } catch (err) {
+      console.error('Failed to save gap filler settings:', err)
+      setError('Failed to save gap filler settings. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [values])
+
+  const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+  return (
+    <div className="bg-white shadow rounded-lg" data-testid="gap-filler-settings">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Gap-Night Filler</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Discount short holes between bookings and let guests book exactly the free nights,
+          even when that is shorter than the usual minimum stay.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading gap filler settings...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center">
+              <input
+                id="gap-filler-enabled"
+                type="checkbox"
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                checked={values.is_enabled}
+                onChange={(e) => updateValue('is_enabled', e.target.checked)}
+                disabled={saving}
+              />
+              <label htmlFor="gap-filler-enabled" className="ml-2 block text-sm text-gray-900">
+                Enable gap-night filler pricing for all properties
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="gap-filler-max-nights" className="block text-sm font-medium text-gray-700 mb-1">
+                  Maximum Gap (nights)
+                </label>
+                <input
+                  id="gap-filler-max-nights"
+                  type="number"
+                  step="1"
+                  min="1"
+                  className={inputClassName}
+                  value={values.max_gap_nights}
+                  onChange={(e) => updateValue('max_gap_nights', e.target.value)}
+                  disabled={saving}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Gaps of this many nights or fewer count as filler gaps
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="gap-filler-discount" className="block text-sm font-medium text-gray-700 mb-1">
+                  Filler Discount (%)
+                </label>
+                <input
+                  id="gap-filler-discount"
+                  type="number"
+                  step="1"
+                  min="0"
+                  className={inputClassName}
+                  value={values.discount_percent}
+                  onChange={(e) => updateValue('discount_percent', e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                onClick={handleSave}
+                disabled={saving}
+              >
+                {saving ? 'Saving...' : 'Save Gap Filler'}
+              </button>
+              {savedAt && (
+                <span className="text-sm text-green-600">Saved</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
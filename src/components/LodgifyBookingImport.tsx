@@ -0,0 +1,109 @@
+import React, { useState, useCallback } from 'react'
+import { useProperties } from '@/hooks/useProperties'
+import { lodgifyApi } from '@/services/api'
+import type { BookingImportResult } from '@/services/lodgify/lodgifyTypes'
+
+interface LodgifyBookingImportProps {
+  className?: string
+}
+
+/**
+ * Pulls reservations from Lodgify into bookings for every property
+ * Only reservations updated since the last import are fetched unless a full
+ * import is requested
+ */
+const LodgifyBookingImport: React.FC<LodgifyBookingImportProps> = ({ className = '' }) => {
+  const { properties, loading: propertiesLoading } = useProperties()
+  const [importing, setImporting] = useState(false)
+  const [fullImport, setFullImport] = useState(false)
+  const [results, setResults] = useState<BookingImportResult[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const propertyName = (propertyId: string) =>
+    properties.find(p => p.id === propertyId)?.property_name ?? propertyId
+
+  const handleImport = useCallback(async () => {
+    setImporting(true)
+    setError(null)
+    setResults(null)
+
+    try {
+      const importResults = await lodgifyApi.importBookingsForProperties(
+        properties.map(p => p.id),
+        { fullImport }
+      )
+      setResults(importResults)
+
+      const failed = importResults.filter(r => !r.success).length
+      if (failed > 0) {
+        setError(`Booking import failed for ${failed} of ${importResults.length} properties. See details below.`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Booking import failed')
+    } finally {
+      setImporting(false)
+    }
+  }, [properties, fullImport])
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`} data-testid="lodgify-booking-import">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Import Bookings from Lodgify</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Fetches reservations for every property and updates bookings, including cancellations.
+        Occupancy, gap pricing and availability read these bookings.
+      </p>
+
+      <div className="mb-4">
+        <button
+          onClick={handleImport}
+          disabled={importing || propertiesLoading || properties.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          data-testid="import-bookings-button"
+        >
+          {importing ? 'Importing...' : 'Import Bookings'}
+        </button>
+        <label className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={fullImport}
+            onChange={(e) => setFullImport(e.target.checked)}
+            disabled={importing}
+          />
+          Re-import all reservations (by default only those changed since the last import)
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {results && (
+        <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-lg p-3" data-testid="booking-import-results">
+          {results.map(result => (
+            <div
+              key={result.propertyId}
+              className={`mb-2 p-2 rounded ${result.success ? 'bg-green-50' : 'bg-red-50'}`}
+            >
+              <div className="flex justify-between items-start">
+                <span className={`font-medium ${result.success ? 'text-green-800' : 'text-red-800'}`}>
+                  {propertyName(result.propertyId)}
+                </span>
+                <span className="text-xs text-gray-500">{result.duration}ms</span>
+              </div>
+              <p className="text-sm text-gray-700 mt-1">{result.summary}</p>
+              {result.failures.map(failure => (
+                <p key={failure.bookingId} className="text-sm text-red-600 mt-1">
+                  Booking {failure.bookingId}: {failure.message}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LodgifyBookingImport
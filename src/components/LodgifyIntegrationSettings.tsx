@@ -0,0 +1,358 @@
+/**
+ * LodgifyIntegrationSettings - Per-property Lodgify connection editor
+ * The stored API key is never shown; entering a new one replaces it, and a
+ * connection test pushes the property's default rate to Lodgify
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useProperties } from '@/hooks/useProperties'
+import { LodgifyIntegrationService } from '@/services/lodgify-integration.service'
+import type {
+  LodgifyIntegrationInput,
+  LodgifyIntegrationSummary
+} from '@/services/lodgify-integration.service'
+import type { LodgifySyncResult } from '@/services/lodgify/lodgifyTypes'
+import type { Property } from '@/types/database'
+
+/**
+ * Form values shown to the user
+ */
+interface IntegrationFormValues {
+  lodgify_property_id: string
+  lodgify_room_type_id: string
+  is_active: boolean
+  sync_enabled: boolean
+  api_key: string
+}
+
+const toFormValues = (property: Property, integration?: LodgifyIntegrationSummary): IntegrationFormValues => ({
+  lodgify_property_id: String(integration?.lodgify_property_id ?? property.lodgify_property_id ?? ''),
+  lodgify_room_type_id: String(integration?.lodgify_room_type_id ?? property.lodgify_room_type_id ?? ''),
+  is_active: integration?.is_active ?? true,
+  sync_enabled: integration?.sync_enabled ?? true,
+  api_key: ''
+})
+
+const fromFormValues = (values: IntegrationFormValues): LodgifyIntegrationInput => ({
+  lodgify_property_id: Number(values.lodgify_property_id),
+  lodgify_room_type_id: Number(values.lodgify_room_type_id),
+  is_active: values.is_active,
+  sync_enabled: values.sync_enabled
+})
+
+export default function LodgifyIntegrationSettings() {
+  const { properties, loading: propertiesLoading } = useProperties()
+  const [integrations, setIntegrations] = useState<Map<string, LodgifyIntegrationSummary>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [values, setValues] = useState<IntegrationFormValues | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const [testResult, setTestResult] = useState<LodgifySyncResult | null>(null)
+
+  useEffect(() => {
+    LodgifyIntegrationService.getIntegrations()
+      .then(setIntegrations)
+      .catch(err => {
+        console.error('Failed to load Lodgify integrations:', err)
+        setError('Failed to load Lodgify integrations')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleEdit = useCallback((property: Property) => {
+    setEditingId(property.id)
+    setValues(toFormValues(property, integrations.get(property.id)))
+    setError(null)
+    setSavedAt(null)
+    setTestResult(null)
+  }, [integrations])
+
+  const handleClose = useCallback(() => {
+    setEditingId(null)
+    setValues(null)
+    setError(null)
+    setTestResult(null)
+  }, [])
+
+  const updateValue = useCallback(<K extends keyof IntegrationFormValues>(
+    key: K,
+    value: IntegrationFormValues[K]
+  ) => {
+    setValues(prev => prev && { ...prev, [key]: value })
+    setSavedAt(null)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    if (!editingId || !values) return
+
+    const input = fromFormValues(values)
+    const apiKey = values.api_key.trim() || null
+    const validationError = LodgifyIntegrationService.validateInput(input, apiKey, !integrations.has(editingId))
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    setTestResult(null)
+
+    try {
+      const saved = await LodgifyIntegrationService.saveIntegration(editingId, input, apiKey)
+      setIntegrations(prev => new Map(prev).set(editingId, saved))
+      setValues(prev => prev && { ...prev, api_key: '' })
+      setSavedAt(new Date())
+    } catch (err) {
+      console.error('Failed to save Lodgify integration:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save Lodgify integration. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [editingId, values, integrations])
+
+  const handleTest = useCallback(async () => {
+    if (!editingId) return
+
+    setTesting(true)
+    setError(null)
+    setTestResult(null)
+
+    try {
+      setTestResult(await LodgifyIntegrationService.testConnection(editingId))
+    } catch (err) {
+      console.error('Lodgify connection test failed:', err)
+      setError(err instanceof Error ? err.message : 'Connection test failed')
+    } finally {
+      setTesting(false)
+    }
+  }, [editingId])
+
+  const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+  const editingProperty = properties.find(property => property.id === editingId)
+  const editingIntegration = editingId ? integrations.get(editingId) : undefined
+  const idsDifferFromProperty = editingProperty && values && (
+    values.lodgify_property_id !== editingProperty.lodgify_property_id ||
+    values.lodgify_room_type_id !== String(editingProperty.lodgify_room_type_id ?? '')
+  )
+
+  return (
+    <div className="bg-white shadow rounded-lg" data-testid="lodgify-integration-settings">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Lodgify Integration</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Connect each property to Lodgify. API keys are stored encrypted and never shown again;
+          enter a new key to rotate it.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {loading || propertiesLoading ? (
+          <p className="text-sm text-gray-500">Loading Lodgify integrations...</p>
+        ) : (
+          <div className="space-y-4">
+            {error && !editingId && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Property</th>
+                  <th className="py-2 pr-4 font-medium">Lodgify IDs</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Last Sync</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {properties.map(property => {
+                  const integration = integrations.get(property.id)
+                  return (
+                    <tr key={property.id} data-testid={`integration-row-${property.id}`}>
+                      <td className="py-2 pr-4 text-gray-900">{property.property_name}</td>
+                      <td className="py-2 pr-4 text-gray-700">
+                        {integration
+                          ? `${integration.lodgify_property_id} / ${integration.lodgify_room_type_id}`
+                          : '—'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {!integration ? (
+                          <span className="text-gray-500">Not connected</span>
+                        ) : (
+                          <span className={integration.is_active ? 'text-green-700' : 'text-gray-500'}>
+                            {integration.is_active ? 'Active' : 'Inactive'}
+                            {integration.is_active && !integration.sync_enabled && ' (automatic sync off)'}
+                            {integration.sync_status === 'error' && <span className="text-red-600"> · sync error</span>}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">
+                        {integration?.last_sync ? new Date(integration.last_sync).toLocaleString() : '—'}
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          type="button"
+                          className="text-indigo-600 hover:text-indigo-800"
+                          onClick={() => handleEdit(property)}
+                          disabled={saving || testing}
+                        >
+                          {integration ? 'Edit' : 'Connect'}
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+
+            {editingProperty && values && (
+              <div className="border border-gray-200 rounded-md p-4 space-y-4" data-testid="integration-editor">
+                <h3 className="text-sm font-medium text-gray-900">{editingProperty.property_name}</h3>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <label htmlFor="lodgify-property-id" className="block text-sm font-medium text-gray-700 mb-1">
+                      Lodgify Property ID
+                    </label>
+                    <input
+                      id="lodgify-property-id"
+                      type="number"
+                      step="1"
+                      min="1"
+                      className={inputClassName}
+                      value={values.lodgify_property_id}
+                      onChange={(e) => updateValue('lodgify_property_id', e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="lodgify-room-type-id" className="block text-sm font-medium text-gray-700 mb-1">
+                      Room Type ID
+                    </label>
+                    <input
+                      id="lodgify-room-type-id"
+                      type="number"
+                      step="1"
+                      min="1"
+                      className={inputClassName}
+                      value={values.lodgify_room_type_id}
+                      onChange={(e) => updateValue('lodgify_room_type_id', e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+
+                {idsDifferFromProperty && (
+                  <p className="text-xs text-amber-700">
+                    These differ from the property's own Lodgify IDs ({editingProperty.lodgify_property_id} / {editingProperty.lodgify_room_type_id ?? '—'}),
+                    which rate payloads are built with.
+                  </p>
+                )}
+
+                <div>
+                  <label htmlFor="lodgify-api-key" className="block text-sm font-medium text-gray-700 mb-1">
+                    {editingIntegration ? 'New API Key' : 'API Key'}
+                  </label>
+                  <input
+                    id="lodgify-api-key"
+                    type="password"
+                    autoComplete="new-password"
+                    className={inputClassName}
+                    value={values.api_key}
+                    onChange={(e) => updateValue('api_key', e.target.value)}
+                    placeholder={editingIntegration ? 'Stored — leave empty to keep the current key' : 'Lodgify API key'}
+                    disabled={saving}
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-6">
+                  <div className="flex items-center">
+                    <input
+                      id="lodgify-is-active"
+                      type="checkbox"
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      checked={values.is_active}
+                      onChange={(e) => updateValue('is_active', e.target.checked)}
+                      disabled={saving}
+                    />
+                    <label htmlFor="lodgify-is-active" className="ml-2 block text-sm text-gray-900">
+                      Integration active
+                    </label>
+                  </div>
+
+                  <div className="flex items-center">
+                    <input
+                      id="lodgify-sync-enabled"
+                      type="checkbox"
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      checked={values.sync_enabled}
+                      onChange={(e) => updateValue('sync_enabled', e.target.checked)}
+                      disabled={saving}
+                    />
+                    <label htmlFor="lodgify-sync-enabled" className="ml-2 block text-sm text-gray-900">
+                      Include in automatic hourly sync
+                    </label>
+                  </div>
+                </div>
+
+                {error && (
+                  <p className="text-sm text-red-600" role="alert">{error}</p>
+                )}
+
+                {testResult && (
+                  <div
+                    className={`rounded p-3 text-sm ${testResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+                    data-testid="connection-test-result"
+                  >
+                    <p className="font-medium">
+                      {testResult.success ? 'Connection OK' : 'Connection failed'}
+                      {testResult.statusCode !== undefined && ` (HTTP ${testResult.statusCode})`}
+                      {` in ${testResult.duration} ms`}
+                    </p>
+                    <p>{testResult.error?.details ?? testResult.message}</p>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                    onClick={handleSave}
+                    disabled={saving || testing}
+                  >
+                    {saving ? 'Saving...' : 'Save Integration'}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded hover:bg-gray-50 disabled:opacity-50"
+                    onClick={handleTest}
+                    disabled={!editingIntegration || saving || testing}
+                    title={editingIntegration ? 'Pushes the default rate to Lodgify' : 'Save the integration first'}
+                    data-testid="test-connection-button"
+                  >
+                    {testing ? 'Testing...' : 'Test Connection'}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                    onClick={handleClose}
+                    disabled={saving || testing}
+                  >
+                    Close
+                  </button>
+                  {savedAt && (
+                    <span className="text-sm text-green-600">Saved</span>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
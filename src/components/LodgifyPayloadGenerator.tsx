@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect } from 'react'
 import { useProperties } from '@/hooks/useProperties'
 import { lodgifyPayloadService } from '@/services/lodgifyPayloadService'
+import { getStoredCheckpoint, type PayloadCheckpoint } from '@/services/payloadCheckpoint'
 import { validateCompletePayload } from '@/utils/lodgifyValidator'
 import { 
   exportPayloadAsJSON, 
@@ -11,11 +12,16 @@ import {
 } from '@/utils/payloadExporter'
 import { getDefaultStayLengthCategories } from '@/utils/dateRangeGenerator'
 import { lodgifyApi } from '@/services/api'
+import { getPushedRatesForProperties } from '@/services/lodgify/lodgifyRateSnapshot'
+import { generateSyncPreview, formatSyncPreviewSummary, type SyncPreview } from '@/utils/syncPreview'
+import { formatMoney } from '@/utils/currency'
 import type { 
   LodgifyPayload, 
   PayloadGenerationOptions,
+  RangeOptimizationOptions,
   GenerationProgress,
   GenerationStatistics,
+  PropertyGenerationResult,
   StayLengthCategory
 } from '@/types/lodgify'
 import type { BatchSyncResult } from '@/services/lodgify/lodgifyTypes'
@@ -25,7 +31,17 @@ interface LodgifyPayloadGeneratorProps {
 }
 
 type GenerationState = 'idle' | 'generating' | 'completed' | 'error'
-type SyncState = 'idle' | 'syncing' | 'completed' | 'error'
+type SyncState = 'idle' | 'previewing' | 'syncing' | 'completed' | 'error'
+
+const CHANGE_LABELS = {
+  price: 'Price',
+  stay: 'Min/max stay',
+  added: 'New range',
+  removed: 'Range removed'
+} as const
+
+// Rows shown per property in the dry run; the totals cover all of them
+const MAX_PREVIEW_ROWS = 200
 
 const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({ 
   className = '' 
@@ -40,6 +56,9 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
   const [stayLengthCategories] = useState<StayLengthCategory[]>(getDefaultStayLengthCategories())
   const [includeDefaultRate, setIncludeDefaultRate] = useState(true)
   const [optimizeRanges, setOptimizeRanges] = useState(true)
+  const [priceTolerance, setPriceTolerance] = useState('')
+  const [toleranceType, setToleranceType] = useState<'absolute' | 'percent'>('absolute')
+  const [maxRatesPerPayload, setMaxRatesPerPayload] = useState('')
   const [includeOverrides, setIncludeOverrides] = useState(true)
   
   // Results state
@@ -48,11 +67,17 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
   const [progress, setProgress] = useState<GenerationProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [validationResults, setValidationResults] = useState<any>(null)
+  const [failedProperties, setFailedProperties] = useState<Omit<PropertyGenerationResult, 'payload'>[]>([])
+  const [checkpoint, setCheckpoint] = useState<PayloadCheckpoint | null>(() => getStoredCheckpoint())
+  const [streamExportMessage, setStreamExportMessage] = useState<string | null>(null)
   
   // Sync state
   const [syncResults, setSyncResults] = useState<BatchSyncResult | null>(null)
   const [syncError, setSyncError] = useState<string | null>(null)
   const [syncProgress, setSyncProgress] = useState<number>(0)
+  const [forceFullSync, setForceFullSync] = useState(false)
+  const [syncPreview, setSyncPreview] = useState<SyncPreview | null>(null)
+  const [expandedPreview, setExpandedPreview] = useState<number | null>(null)
 
   // Load properties
   const { properties, loading: propertiesLoading, error: propertiesError } = useProperties()
@@ -97,8 +122,34 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
     return { startDate, endDate }
   }, [dateRangeOption, customStartDate, customEndDate])
 
-  // Generate payload
-  const handleGenerate = useCallback(async () => {
+  // Build generation options from the form
+  const buildOptions = useCallback((): PayloadGenerationOptions => {
+    const { startDate, endDate } = getDateRange()
+    
+    // Lossy optimization only when a tolerance or rate budget is set
+    const tolerance = parseFloat(priceTolerance)
+    const rateBudget = parseInt(maxRatesPerPayload)
+    const rangeOptimization: RangeOptimizationOptions | undefined = tolerance > 0 || rateBudget > 0
+      ? {
+          ...(tolerance > 0 && { priceTolerance: tolerance, toleranceType }),
+          ...(rateBudget > 0 && { maxRatesPerPayload: rateBudget })
+        }
+      : undefined
+    
+    return {
+      properties: selectedProperties,
+      startDate,
+      endDate,
+      stayLengthCategories,
+      includeDefaultRate,
+      optimizeRanges,
+      rangeOptimization,
+      includeOverrides
+    }
+  }, [selectedProperties, getDateRange, stayLengthCategories, includeDefaultRate, optimizeRanges, priceTolerance, toleranceType, maxRatesPerPayload, includeOverrides])
+
+  // Generate payload (resume continues a stopped run with the same options)
+  const handleGenerate = useCallback(async (resume: boolean = false) => {
     if (selectedProperties.length === 0) {
       setError('Please select at least one property')
       return
@@ -111,26 +162,18 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
       setPayloads([])
       setStatistics(null)
       setValidationResults(null)
-      
-      const { startDate, endDate } = getDateRange()
-      
-      const options: PayloadGenerationOptions = {
-        properties: selectedProperties,
-        startDate,
-        endDate,
-        stayLengthCategories,
-        includeDefaultRate,
-        optimizeRanges,
-        includeOverrides
-      }
+      setFailedProperties([])
+      setStreamExportMessage(null)
       
       const result = await lodgifyPayloadService.generatePayload(
-        options,
-        (progressUpdate) => setProgress(progressUpdate)
+        buildOptions(),
+        (progressUpdate) => setProgress(progressUpdate),
+        { resume }
       )
       
       setPayloads(result.payloads)
       setStatistics(result.statistics)
+      setFailedProperties(result.results.filter(propertyResult => propertyResult.status === 'failed'))
       
       // Validate generated payloads
       const validation = validateCompletePayload(result.payloads)
@@ -142,8 +185,54 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
       const message = err instanceof Error ? err.message : 'Unknown error occurred'
       setError(message)
       setState('error')
+    } finally {
+      setCheckpoint(getStoredCheckpoint())
+    }
+  }, [selectedProperties, buildOptions])
+
+  // Generate and write chunk files as properties complete, without keeping the payloads
+  const handleStreamExport = useCallback(async () => {
+    if (selectedProperties.length === 0) {
+      setError('Please select at least one property')
+      return
+    }
+    
+    try {
+      setState('generating')
+      setError(null)
+      setProgress(null)
+      setPayloads([])
+      setStatistics(null)
+      setValidationResults(null)
+      setFailedProperties([])
+      setStreamExportMessage(null)
+      
+      const { filesWritten, completion } = await exportPayloadInChunks(
+        lodgifyPayloadService.generatePayloadStream(buildOptions(), {
+          onProgress: (progressUpdate) => setProgress(progressUpdate),
+          resume: true
+        }),
+        undefined,
+        2 // 2 properties per chunk
+      )
+      
+      const results = completion?.results ?? []
+      const failed = results.filter(propertyResult => propertyResult.status === 'failed')
+      const exported = results.length - failed.length
+      setFailedProperties(failed)
+      setStreamExportMessage(completion?.cancelled
+        ? `Cancelled after writing ${filesWritten} file${filesWritten === 1 ? '' : 's'}; resume to continue`
+        : `Wrote ${filesWritten} file${filesWritten === 1 ? '' : 's'} for ${exported} propert${exported === 1 ? 'y' : 'ies'}`)
+      setState('idle')
+      
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error occurred'
+      setError(message)
+      setState('error')
+    } finally {
+      setCheckpoint(getStoredCheckpoint())
     }
-  }, [selectedProperties, getDateRange, stayLengthCategories, includeDefaultRate, optimizeRanges, includeOverrides])
+  }, [selectedProperties, buildOptions])
 
   // Cancel generation
   const handleCancel = useCallback(() => {
@@ -158,9 +247,12 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
     
     exportPayloadAsJSON(payloads, statistics, {
       format: 'pretty-json',
-      includeStatistics: true
+      includeStatistics: true,
+      currencies: Object.fromEntries(
+        properties.map(p => [Number(p.lodgify_property_id), p.currency])
+      )
     })
-  }, [payloads, statistics])
+  }, [payloads, statistics, properties])
 
   const handleExportChunks = useCallback(() => {
     if (payloads.length === 0 || !statistics) return
@@ -173,7 +265,50 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
     exportStatistics(statistics)
   }, [statistics])
 
-  // Sync to Lodgify API
+  // A dry run only describes the payloads it was built from
+  useEffect(() => {
+    setSyncPreview(null)
+    setExpandedPreview(null)
+  }, [payloads])
+
+  // Dry run: validate and compare with what Lodgify last accepted, without pushing
+  const handleDryRun = useCallback(async () => {
+    if (payloads.length === 0) {
+      setSyncError('No payloads to sync. Please generate payloads first.')
+      return
+    }
+
+    setSyncState('previewing')
+    setSyncError(null)
+    setSyncResults(null)
+    setSyncPreview(null)
+
+    try {
+      const validation = validateCompletePayload(payloads)
+      setValidationResults(validation)
+      if (!validation.valid) {
+        throw new Error(`Payload validation failed: ${validation.errors.join('; ')}`)
+      }
+
+      const propertyIds = payloads
+        .map(payload => properties.find(p => parseInt(p.lodgify_property_id) === payload.property_id)?.id)
+        .filter((id): id is string => Boolean(id))
+      const pushedRates = await getPushedRatesForProperties(propertyIds)
+
+      setSyncPreview(generateSyncPreview(
+        payloads,
+        // A forced full sync ignores what was pushed before
+        forceFullSync ? new Map() : pushedRates,
+        Object.fromEntries(properties.map(p => [Number(p.lodgify_property_id), p.currency]))
+      ))
+      setSyncState('idle')
+    } catch (err) {
+      setSyncError(err instanceof Error ? err.message : 'Dry run failed')
+      setSyncState('error')
+    }
+  }, [payloads, properties, forceFullSync])
+
+  // Sync to Lodgify API (only from a confirmed dry run)
   const handleSyncToLodgify = useCallback(async () => {
     if (payloads.length === 0) {
       setSyncError('No payloads to sync. Please generate payloads first.')
@@ -214,13 +349,15 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
         {
           validatePayload: true,
           maxRetries: 3,
-          timeout: 30000
+          timeout: 30000,
+          fullSync: forceFullSync
         }
       )
 
       clearInterval(progressInterval)
       setSyncProgress(100)
       setSyncResults(result)
+      setSyncPreview(null)
       setSyncState('completed')
 
       // Show summary
@@ -233,7 +370,7 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
       setSyncError(message)
       setSyncState('error')
     }
-  }, [payloads, properties])
+  }, [payloads, properties, forceFullSync])
 
   // Test connection for selected properties
   const handleTestConnection = useCallback(async () => {
@@ -432,6 +569,50 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
                 />
                 <span className="text-sm">Optimize consecutive days into ranges (reduces payload size)</span>
               </label>
+              {optimizeRanges && (
+                <div className="ml-6 flex flex-wrap items-end gap-3" data-testid="range-tolerance-options">
+                  <label className="text-sm text-gray-700">
+                    Price tolerance
+                    <div className="flex mt-1">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={priceTolerance}
+                        onChange={(e) => setPriceTolerance(e.target.value)}
+                        placeholder="0"
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-l"
+                        data-testid="price-tolerance-input"
+                      />
+                      <select
+                        value={toleranceType}
+                        onChange={(e) => setToleranceType(e.target.value as 'absolute' | 'percent')}
+                        className="px-2 py-1 border border-l-0 border-gray-300 rounded-r"
+                      >
+                        <option value="absolute">€</option>
+                        <option value="percent">%</option>
+                      </select>
+                    </div>
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Max rates per payload
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={maxRatesPerPayload}
+                      onChange={(e) => setMaxRatesPerPayload(e.target.value)}
+                      placeholder="No limit"
+                      className="block mt-1 w-28 px-2 py-1 border border-gray-300 rounded"
+                      data-testid="max-rates-input"
+                    />
+                  </label>
+                  <p className="text-xs text-gray-500 w-full">
+                    Nights within the tolerance share one range price; a rate budget merges the closest ranges further.
+                    Both change the prices guests see — check the maximum deviation in the statistics.
+                  </p>
+                </div>
+              )}
               <label className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -462,7 +643,7 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
           {/* Generate Button */}
           <div className="flex gap-3">
             <button
-              onClick={handleGenerate}
+              onClick={() => handleGenerate()}
               disabled={state === 'generating' || selectedProperties.length === 0}
               className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
               data-testid="generate-payload-button"
@@ -470,6 +651,26 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
               {state === 'generating' ? 'Generating...' : 'Generate Payload'}
             </button>
             
+            {checkpoint && state !== 'generating' && (
+              <button
+                onClick={() => handleGenerate(true)}
+                disabled={selectedProperties.length === 0}
+                className="px-6 py-3 bg-white text-blue-700 border border-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                data-testid="resume-generation-button"
+              >
+                Resume Previous Run
+              </button>
+            )}
+            
+            <button
+              onClick={handleStreamExport}
+              disabled={state === 'generating' || selectedProperties.length === 0}
+              className="px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              data-testid="stream-export-button"
+            >
+              Generate &amp; Export in Chunks
+            </button>
+            
             {state === 'generating' && (
               <button
                 onClick={handleCancel}
@@ -479,6 +680,13 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
               </button>
             )}
           </div>
+          
+          {checkpoint && state !== 'generating' && (
+            <p className="mt-3 text-sm text-gray-600" data-testid="generation-checkpoint">
+              A previous run stopped after {checkpoint.chunks.length} completed chunk{checkpoint.chunks.length === 1 ? '' : 's'}
+              {' '}(last saved {new Date(checkpoint.updatedAt).toLocaleString()}). Resuming with the same options skips them.
+            </p>
+          )}
         </div>
 
         {/* Progress Display */}
@@ -490,7 +698,7 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
               <div className="flex justify-between text-sm text-gray-600 mb-1">
                 <span>
                   {progress.phase === 'loading' && 'Loading properties...'}
-                  {progress.phase === 'calculating' && `Calculating prices for ${progress.propertyId}...`}
+                  {progress.phase === 'calculating' && `Calculating prices for ${progress.propertyId}${progress.currentDate ? ` from ${progress.currentDate}` : ''}...`}
                   {progress.phase === 'optimizing' && 'Optimizing date ranges...'}
                   {progress.phase === 'validating' && 'Validating payloads...'}
                 </span>
@@ -523,6 +731,28 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
           </div>
         )}
 
+        {streamExportMessage && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4" data-testid="stream-export-result">
+            <p className="text-green-800">{streamExportMessage}</p>
+          </div>
+        )}
+
+        {failedProperties.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4" data-testid="failed-properties">
+            <h3 className="text-amber-800 font-semibold mb-2">
+              {failedProperties.length} propert{failedProperties.length === 1 ? 'y' : 'ies'} failed
+            </h3>
+            <ul className="text-sm text-amber-700 space-y-1">
+              {failedProperties.map(result => (
+                <li key={result.propertyId}>
+                  {result.propertyId}: {result.error} ({result.chunksCompleted} of {result.totalChunks} chunks completed)
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-amber-700 mt-2">Completed chunks are kept; resume to retry the rest.</p>
+          </div>
+        )}
+
         {/* Results Display */}
         {state === 'completed' && payloads.length > 0 && statistics && (
           <>
@@ -580,6 +810,17 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
                     {statistics.optimizationReduction.toFixed(1)}% reduction 
                     ({statistics.entriesBeforeOptimization} → {statistics.entriesAfterOptimization} entries)
                   </p>
+                  {statistics.maxPriceDeviation !== undefined && statistics.maxPriceDeviation > 0 && (
+                    <p className="text-sm text-blue-800" data-testid="max-price-deviation">
+                      Max price deviation: €{statistics.maxPriceDeviation.toFixed(2)}
+                      {' '}({statistics.maxPriceDeviationPercent?.toFixed(2)}%)
+                    </p>
+                  )}
+                  {statistics.propertiesOverRateBudget && statistics.propertiesOverRateBudget.length > 0 && (
+                    <p className="text-sm text-amber-700">
+                      Rate budget not reached for {statistics.propertiesOverRateBudget.join(', ')} (restrictions or stay lengths differ between ranges)
+                    </p>
+                  )}
                 </div>
               )}
               
@@ -696,23 +937,144 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
                 </span>
               </div>
 
-              {/* Sync Button */}
+              {/* Sync Button: runs a dry run; the push happens from its confirmation */}
               <div className="mb-4">
                 <button
-                  onClick={handleSyncToLodgify}
-                  disabled={syncState === 'syncing' || payloads.length === 0 || !validationResults?.valid}
+                  onClick={handleDryRun}
+                  disabled={syncState === 'syncing' || syncState === 'previewing' || payloads.length === 0 || !validationResults?.valid}
                   className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed font-semibold"
                   data-testid="sync-to-lodgify-button"
                 >
-                  {syncState === 'syncing' ? 'Syncing...' : 'Sync to Lodgify API'}
+                  {syncState === 'previewing' ? 'Comparing with Lodgify...' : syncState === 'syncing' ? 'Syncing...' : 'Preview Sync (Dry Run)'}
                 </button>
                 {!validationResults?.valid && payloads.length > 0 && (
                   <span className="ml-3 text-sm text-red-600">
                     Fix validation errors before syncing
                   </span>
                 )}
+                <label className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={forceFullSync}
+                    onChange={(e) => {
+                      setForceFullSync(e.target.checked)
+                      setSyncPreview(null)
+                    }}
+                    disabled={syncState === 'syncing'}
+                    data-testid="full-sync-checkbox"
+                  />
+                  Send the full payload (by default only ranges changed since the last sync are sent)
+                </label>
               </div>
 
+              {/* Dry Run Preview and Confirmation */}
+              {syncPreview && (
+                <div className="mb-4 border border-gray-200 rounded-lg p-4" data-testid="sync-preview">
+                  <h4 className="font-semibold text-gray-900 mb-1">Pre-flight Check</h4>
+                  <p className="text-sm text-gray-700 mb-3">{formatSyncPreviewSummary(syncPreview)}</p>
+
+                  {syncPreview.warnings.length > 0 && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-3">
+                      <ul className="text-sm text-yellow-800 list-disc list-inside">
+                        {syncPreview.warnings.map((warning, index) => (
+                          <li key={index}>{warning}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div className="space-y-2 mb-4">
+                    {syncPreview.properties.map(property => {
+                      const name = properties.find(p => parseInt(p.lodgify_property_id) === property.propertyId)?.property_name
+                        ?? `Property ${property.propertyId}`
+                      const expanded = expandedPreview === property.propertyId
+                      const money = (value: number | null) => value === null ? 'Default' : formatMoney(value, property.currency)
+
+                      return (
+                        <div key={property.propertyId} className="border border-gray-100 rounded p-2">
+                          <div className="flex justify-between items-center">
+                            <div>
+                              <span className="font-medium text-gray-900">{name}</span>
+                              <span className="ml-2 text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">{property.mode}</span>
+                              <p className="text-sm text-gray-600">
+                                {property.summary}
+                                {property.hasBaseline && property.totals.changedNights > 0 && (
+                                  <> · {property.totals.priceChanges} price, {property.totals.stayChanges} stay, {property.totals.addedNights} added, {property.totals.removedNights} removed</>
+                                )}
+                              </p>
+                            </div>
+                            {property.changes.length > 0 && (
+                              <button
+                                onClick={() => setExpandedPreview(expanded ? null : property.propertyId)}
+                                className="text-sm text-blue-600 hover:underline"
+                              >
+                                {expanded ? 'Hide nights' : 'Show nights'}
+                              </button>
+                            )}
+                          </div>
+
+                          {expanded && (
+                            <div className="mt-2 max-h-64 overflow-y-auto">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="text-left text-gray-500">
+                                    <th className="py-1">Date</th>
+                                    <th className="py-1">Change</th>
+                                    <th className="py-1">Stay</th>
+                                    <th className="py-1 text-right">Lodgify now</th>
+                                    <th className="py-1 text-right">After sync</th>
+                                    <th className="py-1 text-right">Change</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {property.changes.slice(0, MAX_PREVIEW_ROWS).map((change, index) => (
+                                    <tr key={`${change.date}-${index}`} className="border-t border-gray-100">
+                                      <td className="py-1">{change.date}</td>
+                                      <td className="py-1">{CHANGE_LABELS[change.type]}</td>
+                                      <td className="py-1">
+                                        {change.oldStay === change.newStay ? change.newStay : `${change.oldStay ?? '—'} → ${change.newStay ?? '—'}`}
+                                      </td>
+                                      <td className="py-1 text-right">{money(change.oldPrice)}</td>
+                                      <td className="py-1 text-right">{money(change.newPrice)}</td>
+                                      <td className={`py-1 text-right ${(change.percentChange ?? 0) >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                                        {change.percentChange === null ? '—' : `${change.percentChange >= 0 ? '+' : ''}${change.percentChange.toFixed(1)}%`}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                              {property.changes.length > MAX_PREVIEW_ROWS && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  Showing {MAX_PREVIEW_ROWS} of {property.changes.length} changes
+                                </p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+
+                  <div className="flex gap-3">
+                    <button
+                      onClick={handleSyncToLodgify}
+                      disabled={syncState === 'syncing' || syncPreview.propertiesWithChanges === 0}
+                      className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                      data-testid="confirm-sync-button"
+                    >
+                      Confirm and push {syncPreview.propertiesWithChanges} {syncPreview.propertiesWithChanges === 1 ? 'property' : 'properties'}
+                    </button>
+                    <button
+                      onClick={() => setSyncPreview(null)}
+                      disabled={syncState === 'syncing'}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Sync Progress */}
               {syncState === 'syncing' && (
                 <div className="mb-4">
@@ -771,6 +1133,12 @@ const LodgifyPayloadGenerator: React.FC<LodgifyPayloadGeneratorProps> = ({
                                 Property {index + 1}
                               </span>
                               <p className="text-sm text-gray-600 mt-1">{result.message}</p>
+                              {result.changes && (
+                                <p className="text-sm text-gray-700 mt-1" data-testid="sync-change-summary">
+                                  {result.changes.summary}
+                                  {result.changes.mode === 'delta' && ` · ${result.changes.rates_sent} of ${result.changes.total_rates} rates sent`}
+                                </p>
+                              )}
                               {result.error && (
                                 <p className="text-sm text-red-600 mt-1">
                                   Error: {result.error.details}
@@ -49,6 +49,19 @@ export function Navigation() {
               >
                 Discount Strategies
               </NavLink>
+              <NavLink
+                to="/scenarios"
+                data-testid="nav-scenarios"
+                className={({ isActive }) =>
+                  `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                    isActive
+                      ? 'border-indigo-500 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                  }`
+                }
+              >
+                Scenarios
+              </NavLink>
               <NavLink
                 to="/lodgify-payload-generator"
                 data-testid="nav-lodgify-export"
@@ -62,6 +75,19 @@ export function Navigation() {
               >
                 Lodgify Export
               </NavLink>
+              <NavLink
+                to="/sync-history"
+                data-testid="nav-sync-history"
+                className={({ isActive }) =>
+                  `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                    isActive
+                      ? 'border-indigo-500 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                  }`
+                }
+              >
+                Sync History
+              </NavLink>
               <NavLink
                 to="/settings"
                 end
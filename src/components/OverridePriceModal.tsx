@@ -19,6 +19,7 @@ import { format } from 'date-fns'
 import PriceInput from './forms/PriceInput'
 import { useOverridePricing } from '@/hooks/useOverridePricing'
 import { priceOverrideSchema } from '@/lib/validation'
+import { formatMoney, DEFAULT_CURRENCY } from '@/utils/currency'
 import type { 
   OverridePriceModalProps, 
   OverridePriceFormData 
@@ -32,6 +33,7 @@ const OverridePriceModal: React.FC<OverridePriceModalProps> = ({
   isOpen,
   onClose,
   propertyId,
+  currency = DEFAULT_CURRENCY,
   date,
   currentPrice,
   existingOverride = null,
@@ -183,15 +185,15 @@ const OverridePriceModal: React.FC<OverridePriceModalProps> = ({
                     <div className="card-body text-center">
                       <h6 className="card-subtitle mb-2 text-muted">Current Calculated Price</h6>
                       <h4 className="card-title mb-0" data-testid="calculated-price">
-                        €{calculatedPrice.toFixed(2)}
+                        {formatMoney(calculatedPrice, currency)}
                       </h4>
                       <small className="text-muted">
-                        Base: €{currentPrice.base_price_per_night || 0} 
+                        Base: {formatMoney(currentPrice.base_price_per_night || 0, currency)} 
                         {currentPrice.seasonal_adjustment !== 0 && (
-                          <span> • Seasonal: {currentPrice.seasonal_adjustment > 0 ? '+' : ''}€{currentPrice.seasonal_adjustment}</span>
+                          <span> • Seasonal: {currentPrice.seasonal_adjustment > 0 ? '+' : ''}{formatMoney(currentPrice.seasonal_adjustment, currency)}</span>
                         )}
                         {currentPrice.last_minute_discount > 0 && (
-                          <span> • Discount: -€{currentPrice.last_minute_discount}</span>
+                          <span> • Discount: -{formatMoney(currentPrice.last_minute_discount, currency)}</span>
                         )}
                       </small>
                     </div>
@@ -204,11 +206,11 @@ const OverridePriceModal: React.FC<OverridePriceModalProps> = ({
                         {existingOverride ? 'Current Override' : 'New Override Price'}
                       </h6>
                       <h4 className="card-title mb-0 text-primary" data-testid="override-input">
-                        €{overridePrice.toFixed(2)}
+                        {formatMoney(overridePrice, currency)}
                       </h4>
                       {overridePrice > 0 && calculatedPrice > 0 && (
                         <small className={`text-${priceDifference >= 0 ? 'success' : 'danger'}`}>
-                          {priceDifference >= 0 ? '+' : ''}€{priceDifference.toFixed(2)} 
+                          {priceDifference >= 0 ? '+' : ''}{formatMoney(priceDifference, currency)} 
                           ({percentChange >= 0 ? '+' : ''}{percentChange.toFixed(1)}%)
                         </small>
                       )}
@@ -228,7 +230,7 @@ const OverridePriceModal: React.FC<OverridePriceModalProps> = ({
                         name="overridePrice"
                         control={form.control}
                         label="Override Price"
-                        currency="€"
+                        currency={currency}
                         placeholder="Enter override price"
                         required
                         min={0.01}
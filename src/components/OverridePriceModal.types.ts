@@ -28,6 +28,7 @@ export interface OverridePriceModalProps {
   isOpen: boolean
   onClose: () => void
   propertyId: string
+  currency?: string  // ISO 4217 code of the property
   date: Date
   currentPrice: CalculateFinalPriceReturn
   existingOverride?: PriceOverride | null
@@ -0,0 +1,134 @@
+/**
+ * PriceChangeHistory - Changes to the pricing inputs behind a night's price
+ * Reads the append-only pricing change log; shows either the changes covering
+ * one night or every change affecting the property
+ */
+
+import React, { useEffect, useState } from 'react'
+import { ChangeLogService } from '@/services/change-log.service'
+import type { PricingChangeLogEntry } from '@/types/database.types'
+import { formatMoney, DEFAULT_CURRENCY } from '@/utils/currency'
+
+interface PriceChangeHistoryProps {
+  propertyId: string  // lodgify_property_id
+  date: string        // YYYY-MM-DD
+  currency?: string
+}
+
+const MONEY_FIELDS = new Set(['base_price_per_day', 'min_price_per_day', 'override_price', 'extra_guest_fee'])
+const RATE_FIELDS = new Set([
+  'discount_rate', 'adjustment_rate', 'min_discount', 'max_discount', 'discount_percentage',
+  'sensitivity', 'max_increase', 'max_decrease'
+])
+
+const ACTION_LABELS: Record<PricingChangeLogEntry['action'], string> = {
+  insert: 'Added',
+  update: 'Changed',
+  delete: 'Removed'
+}
+
+const PriceChangeHistory: React.FC<PriceChangeHistoryProps> = ({
+  propertyId,
+  date,
+  currency = DEFAULT_CURRENCY
+}) => {
+  const [entries, setEntries] = useState<PricingChangeLogEntry[]>([])
+  const [onlyThisNight, setOnlyThisNight] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    ChangeLogService.getHistoryByLodgifyId(propertyId, { date: onlyThisNight ? date : undefined })
+      .then(result => {
+        if (!cancelled) setEntries(result)
+      })
+      .catch(err => {
+        console.error('Failed to load change history:', err)
+        if (!cancelled) setError('Failed to load change history')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [propertyId, date, onlyThisNight])
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined) return '—'
+    if (MONEY_FIELDS.has(field) && typeof value === 'number') return formatMoney(value, currency)
+    if (RATE_FIELDS.has(field) && typeof value === 'number') return `${Math.round(value * 1000) / 10}%`
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+    if (Array.isArray(value)) return value.join(', ')
+    if (typeof value === 'object') return JSON.stringify(value)
+    return String(value)
+  }
+
+  return (
+    <div className="price-change-history" data-testid="price-change-history">
+      <div className="form-check form-switch mb-3">
+        <input
+          id="history-only-this-night"
+          type="checkbox"
+          className="form-check-input"
+          checked={onlyThisNight}
+          onChange={(e) => setOnlyThisNight(e.target.checked)}
+        />
+        <label htmlFor="history-only-this-night" className="form-check-label small">
+          Only changes affecting this night
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-muted small mb-0">Loading change history...</p>
+      ) : error ? (
+        <div className="alert alert-danger mb-0">{error}</div>
+      ) : entries.length === 0 ? (
+        <p className="text-muted small mb-0">No recorded changes.</p>
+      ) : (
+        <ul className="list-unstyled mb-0">
+          {entries.map(entry => (
+            <li key={entry.change_id} className="border-bottom py-2">
+              <div className="d-flex justify-content-between">
+                <strong className="small">
+                  {ACTION_LABELS[entry.action]} {ChangeLogService.describeSource(entry)}
+                  {entry.scope_type !== 'property' && (
+                    <span className="badge bg-secondary ms-2">{entry.scope_type === 'global' ? 'All properties' : 'Group'}</span>
+                  )}
+                </strong>
+                <small className="text-muted">{new Date(entry.changed_at).toLocaleString()}</small>
+              </div>
+              <ul className="list-unstyled small mb-1">
+                {ChangeLogService.getFieldChanges(entry).map(change => (
+                  <li key={change.field}>
+                    {change.label}:{' '}
+                    {entry.action === 'update' ? (
+                      <>
+                        <span className="text-decoration-line-through text-muted">{formatValue(change.field, change.oldValue)}</span>
+                        {' → '}
+                        {formatValue(change.field, change.newValue)}
+                      </>
+                    ) : (
+                      formatValue(change.field, entry.action === 'delete' ? change.oldValue : change.newValue)
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <small className="text-muted">
+                by {entry.changed_by}
+                {entry.reason && <> · “{entry.reason}”</>}
+              </small>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default PriceChangeHistory
@@ -1,15 +1,25 @@
 /**
  * PriceDetailModal - Detailed price breakdown modal
- * Shows comprehensive pricing information for a specific date
+ * Shows comprehensive pricing information for a specific date, the quoted
+ * total for a chosen number of guests, why each discount rule did or didn't
+ * apply, and the change history behind the price
  */
 
-import React, { useEffect } from 'react'
+import React, { useEffect, useState } from 'react'
+import { format } from 'date-fns'
 import { PricingFormatters } from '@/types/pricing'
+import { DEFAULT_CURRENCY } from '@/utils/currency'
 import { usePricingContext } from '@/context/PricingContext'
-import type { CalculateFinalPriceReturn } from '@/types/helpers'
+import { GuestFeeService } from '@/services/guest-fee.service'
+import { discountService } from '@/services/discount.service'
+import { buildPriceBreakdown, describeStackingPolicy } from '@/utils/priceBreakdown'
+import PriceChangeHistory from './PriceChangeHistory'
+import type { GuestSettings } from '@/services/guest-fee.service'
+import type { CalculateFinalPriceReturn, LeadTimeRuleExplanation } from '@/types/helpers'
 
 interface PriceDetailModalProps {
   propertyId: string
+  currency?: string  // ISO 4217 code of the property
   checkDate: Date
   nights: number
   isOpen: boolean
@@ -25,6 +35,7 @@ interface PriceDetailModalProps {
 interface PriceBreakdownRowProps {
   label: string
   value: number
+  currency?: string
   isSubtotal?: boolean
   isTotal?: boolean
   isDiscount?: boolean
@@ -35,6 +46,7 @@ interface PriceBreakdownRowProps {
 const PriceBreakdownRow: React.FC<PriceBreakdownRowProps> = ({
   label,
   value,
+  currency = DEFAULT_CURRENCY,
   isSubtotal = false,
   isTotal = false,
   isDiscount = false,
@@ -42,7 +54,7 @@ const PriceBreakdownRow: React.FC<PriceBreakdownRowProps> = ({
   showCurrency = true
 }) => {
   const formattedValue = showCurrency 
-    ? PricingFormatters.currency(Math.abs(value))
+    ? PricingFormatters.currency(Math.abs(value), currency)
     : PricingFormatters.percentage(Math.abs(value))
   
   const getValueClass = () => {
@@ -70,6 +82,7 @@ const PriceBreakdownRow: React.FC<PriceBreakdownRowProps> = ({
  */
 const PriceDetailModal: React.FC<PriceDetailModalProps> = ({
   propertyId,
+  currency = DEFAULT_CURRENCY,
   checkDate,
   nights,
   isOpen,
@@ -80,6 +93,59 @@ const PriceDetailModal: React.FC<PriceDetailModalProps> = ({
 }) => {
   // Get toggle states from context (FR-8)
   const { toggles } = usePricingContext()
+  const [guestFees, setGuestFees] = useState<{ settings: GuestSettings; nightlyFees: number[] } | null>(null)
+  const [guests, setGuests] = useState(1)
+  const [activeTab, setActiveTab] = useState<'breakdown' | 'history'>('breakdown')
+  const [loadedRules, setLoadedRules] = useState<LeadTimeRuleExplanation[] | null>(null)
+  const checkDateKey = format(checkDate, 'yyyy-MM-dd')
+  const pricedDate = priceData?.check_date ?? checkDateKey
+  const hasRuleExplanations = priceData?.lead_time_rules !== undefined
+  
+  // Load capacity and nightly extra guest fees for the stay
+  useEffect(() => {
+    if (!isOpen) return
+    
+    let cancelled = false
+    GuestFeeService.getStayFeesByLodgifyId(propertyId, checkDateKey, nights)
+      .then(result => {
+        if (cancelled) return
+        setGuestFees(result)
+        setGuests(result.settings.base_occupancy)
+      })
+      .catch(err => {
+        console.error('Failed to load extra guest fees:', err)
+        if (!cancelled) setGuestFees(null)
+      })
+    
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, propertyId, checkDateKey, nights])
+  
+  // Explain the discount rules when the price came without the explanation
+  useEffect(() => {
+    if (!isOpen || hasRuleExplanations) return
+    
+    let cancelled = false
+    setLoadedRules(null)
+    discountService.explainLeadTimeRules(propertyId, pricedDate, nights)
+      .then(result => {
+        if (!cancelled) setLoadedRules(result)
+      })
+      .catch(err => {
+        console.error('Failed to explain discount rules:', err)
+      })
+    
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, hasRuleExplanations, propertyId, pricedDate, nights])
+  
+  // Open on the breakdown each time
+  useEffect(() => {
+    if (isOpen) setActiveTab('breakdown')
+  }, [isOpen, checkDateKey])
+  
   // Close on escape key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -108,17 +174,30 @@ const PriceDetailModal: React.FC<PriceDetailModalProps> = ({
   
   // FR-8: Price detail modal reflects current toggle settings
   const hasSeasonalAdjustment = toggles.seasonalRatesEnabled && priceData.seasonal_adjustment !== 0
-  const hasDiscount = toggles.discountStrategiesEnabled && priceData.last_minute_discount > 0
+  const hasWeekdayAdjustment = toggles.weekdayMultipliersEnabled && priceData.weekday_adjustment !== 0
+  const hasDiscount = toggles.discountStrategiesEnabled && (
+    priceData.last_minute_discount > 0 ||
+    (priceData.early_bird_discount ?? 0) > 0 ||
+    priceData.gap_discount > 0 ||
+    priceData.los_discount > 0
+  )
   const isMinPriceEnforced = priceData.min_price_enforced
   
-  // Calculate percentage changes
-  const seasonalPercentage = hasSeasonalAdjustment
-    ? priceData.seasonal_adjustment / priceData.base_price
-    : 0
-    
-  const discountPercentage = hasDiscount
-    ? priceData.last_minute_discount / priceData.base_price
-    : 0
+  // Components in the order the stacking policy applied them
+  const breakdownSteps = buildPriceBreakdown(priceData, {
+    nights,
+    weekdayName: checkDate.toLocaleDateString('en-US', { weekday: 'long' }),
+    includeSeasonalRates: toggles.seasonalRatesEnabled,
+    includeWeekdayMultipliers: toggles.weekdayMultipliersEnabled,
+    includeDiscountStrategies: toggles.discountStrategiesEnabled
+  })
+  const stackingPolicyLines = priceData.stacking_mode ? describeStackingPolicy(priceData) : []
+  const leadTimeRules = (priceData.lead_time_rules ?? loadedRules ?? []).filter(strategy => strategy.rules.length > 0)
+  
+  const stayTotal = nights > 1 ? priceData.total_price : priceData.final_price_per_night
+  const guestQuote = guestFees
+    ? GuestFeeService.quoteExtraGuests(guestFees.settings, guests, guestFees.nightlyFees)
+    : null
   
   return (
     <>
@@ -147,104 +226,204 @@ const PriceDetailModal: React.FC<PriceDetailModalProps> = ({
               />
             </div>
             
+            <ul className="nav nav-tabs px-3 pt-2" role="tablist">
+              <li className="nav-item" role="presentation">
+                <button
+                  type="button"
+                  role="tab"
+                  className={`nav-link ${activeTab === 'breakdown' ? 'active' : ''}`}
+                  aria-selected={activeTab === 'breakdown'}
+                  onClick={() => setActiveTab('breakdown')}
+                >
+                  Breakdown
+                </button>
+              </li>
+              <li className="nav-item" role="presentation">
+                <button
+                  type="button"
+                  role="tab"
+                  className={`nav-link ${activeTab === 'history' ? 'active' : ''}`}
+                  aria-selected={activeTab === 'history'}
+                  onClick={() => setActiveTab('history')}
+                  data-testid="price-detail-history-tab"
+                >
+                  History
+                </button>
+              </li>
+            </ul>
+            
             <div className="modal-body">
-              <div className="mb-3">
-                <h6 className="text-muted">Date</h6>
-                <p className="mb-0">{dateString}</p>
-              </div>
-              
-              <div className="mb-3">
-                <h6 className="text-muted">Stay Details</h6>
-                <p className="mb-0">{nights} night{nights !== 1 ? 's' : ''}</p>
-              </div>
+              {activeTab === 'history' ? (
+                <PriceChangeHistory
+                  propertyId={propertyId}
+                  date={checkDateKey}
+                  currency={currency}
+                />
+              ) : (
+                <>
+                  <div className="mb-3">
+                    <h6 className="text-muted">Date</h6>
+                    <p className="mb-0">{dateString}</p>
+                  </div>
               
-              <div className="pricing-breakdown">
-                <h6 className="text-muted mb-3">Pricing Calculation</h6>
-                
-                <table className="table table-sm">
-                  <tbody>
-                    <PriceBreakdownRow 
-                      label="Base price per night"
-                      value={priceData.base_price}
-                    />
-                    
-                    {hasSeasonalAdjustment && (
-                      <>
-                        <PriceBreakdownRow
-                          label={`Seasonal adjustment (${Math.abs(seasonalPercentage * 100).toFixed(0)}%)`}
-                          value={priceData.seasonal_adjustment}
-                          isAdjustment={true}
-                        />
-                        <PriceBreakdownRow
-                          label="Price after seasonal adjustment"
-                          value={priceData.base_price + priceData.seasonal_adjustment}
-                          isSubtotal={true}
+                  <div className="mb-3">
+                    <h6 className="text-muted">Stay Details</h6>
+                    <p className="mb-0">{nights} night{nights !== 1 ? 's' : ''}</p>
+                    {guestFees && (
+                      <div className="d-flex align-items-center gap-2 mt-2">
+                        <label htmlFor="price-detail-guests" className="small mb-0">Guests</label>
+                        <input
+                          id="price-detail-guests"
+                          type="number"
+                          className="form-control form-control-sm"
+                          style={{ width: '5rem' }}
+                          value={guests}
+                          min={1}
+                          max={guestFees.settings.max_guests}
+                          step={1}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10)
+                            if (!Number.isNaN(value)) {
+                              setGuests(Math.min(Math.max(value, 1), guestFees.settings.max_guests))
+                            }
+                          }}
+                          data-testid="price-detail-guests-input"
                         />
-                      </>
+                        <small className="text-muted">
+                          {guestFees.settings.base_occupancy} included, sleeps {guestFees.settings.max_guests}
+                        </small>
+                      </div>
                     )}
+                  </div>
+              
+                  <div className="pricing-breakdown">
+                    <h6 className="text-muted mb-3">Pricing Calculation</h6>
+                
+                    <table className="table table-sm">
+                      <tbody>
+                        {breakdownSteps.map(step => step.kind === 'excluded' ? (
+                          <tr key={step.key} className="text-muted">
+                            <td colSpan={2}><small>{step.label}</small></td>
+                          </tr>
+                        ) : (
+                          <PriceBreakdownRow
+                            key={step.key}
+                            label={step.label}
+                            value={step.amount}
+                            currency={currency}
+                            isAdjustment={step.kind !== 'base'}
+                          />
+                        ))}
                     
-                    {hasDiscount && (
-                      <>
-                        <PriceBreakdownRow
-                          label={`Last-minute discount (${Math.abs(discountPercentage * 100).toFixed(0)}%)`}
-                          value={priceData.last_minute_discount}
-                          isDiscount={true}
-                        />
                         <PriceBreakdownRow
-                          label="Price after discount"
+                          label="Final price per night"
                           value={priceData.final_price_per_night}
-                          isSubtotal={true}
+                          currency={currency}
+                          isTotal={!nights || nights === 1}
                         />
-                      </>
-                    )}
                     
-                    <PriceBreakdownRow
-                      label="Final price per night"
-                      value={priceData.final_price_per_night}
-                      isTotal={!nights || nights === 1}
-                    />
+                        {nights > 1 && (
+                          <>
+                            <PriceBreakdownRow
+                              label={`× ${nights} nights`}
+                              value={priceData.final_price_per_night * nights}
+                              currency={currency}
+                              isSubtotal={true}
+                            />
+                            <PriceBreakdownRow
+                              label="Total price"
+                              value={priceData.total_price}
+                              currency={currency}
+                              isTotal={true}
+                            />
+                          </>
+                        )}
                     
-                    {nights > 1 && (
-                      <>
-                        <PriceBreakdownRow
-                          label={`× ${nights} nights`}
-                          value={priceData.final_price_per_night * nights}
-                          isSubtotal={true}
-                        />
-                        <PriceBreakdownRow
-                          label="Total price"
-                          value={priceData.total_price}
-                          isTotal={true}
-                        />
-                      </>
+                        {guestQuote && guestQuote.extraGuests > 0 && (
+                          <>
+                            <PriceBreakdownRow
+                              label={`Extra guests (${guestQuote.extraGuests} × ${nights} night${nights !== 1 ? 's' : ''})`}
+                              value={guestQuote.extraGuestTotal}
+                              currency={currency}
+                              isAdjustment={true}
+                            />
+                            <PriceBreakdownRow
+                              label={`Quoted total for ${guestQuote.guests} guests`}
+                              value={stayTotal + guestQuote.extraGuestTotal}
+                              currency={currency}
+                              isTotal={true}
+                            />
+                          </>
+                        )}
+                      </tbody>
+                    </table>
+                
+                    {stackingPolicyLines.length > 0 && (
+                      <div className="mb-3 text-muted small" data-testid="price-detail-stacking-policy">
+                        <strong>How discounts combine</strong>
+                        <ul className="mb-0 ps-3">
+                          {stackingPolicyLines.map(line => (
+                            <li key={line}>{line}</li>
+                          ))}
+                        </ul>
+                      </div>
                     )}
-                  </tbody>
-                </table>
                 
-                {isMinPriceEnforced && (
-                  <div className="alert alert-warning mb-0">
-                    <small>
-                      <strong>Note:</strong> Minimum price enforced. The calculated price was adjusted to meet the property's minimum price requirement.
-                    </small>
+                    {toggles.discountStrategiesEnabled && leadTimeRules.length > 0 && (
+                      <div className="mb-3 small" data-testid="price-detail-discount-rules">
+                        <strong className="text-muted">Discount rules for this night</strong>
+                        {leadTimeRules.map(strategy => (
+                          <div key={strategy.strategy_id} className="mt-1">
+                            <div className="text-muted">
+                              {strategy.strategy_name} ({strategy.strategy_type === 'early_bird' ? 'early-bird' : 'last-minute'})
+                            </div>
+                            <ul className="mb-0 ps-3">
+                              {strategy.rules.map(rule => (
+                                <li
+                                  key={rule.rule_id}
+                                  className={rule.status === 'applied'
+                                    ? 'text-success'
+                                    : rule.status === 'ineligible' ? 'text-danger' : 'text-muted'}
+                                >
+                                  {rule.explanation}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                
+                    {isMinPriceEnforced && (
+                      <div className="alert alert-warning mb-0">
+                        <small>
+                          <strong>Note:</strong> Minimum price enforced. The calculated price was adjusted to meet the property's minimum price requirement.
+                        </small>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
               
-              {/* Additional information */}
-              <div className="mt-3 text-muted small">
-                <p className="mb-1">
-                  <strong>Property ID:</strong> {propertyId}
-                </p>
-                {/* Show toggle states */}
-                <p className="mb-1">
-                  <strong>Seasonal Rates:</strong> {toggles.seasonalRatesEnabled ? 'Enabled' : 'Disabled'}
-                  {hasSeasonalAdjustment && ' (Active)'}
-                </p>
-                <p className="mb-1">
-                  <strong>Discount Strategies:</strong> {toggles.discountStrategiesEnabled ? 'Enabled' : 'Disabled'}
-                  {hasDiscount && ' (Active)'}
-                </p>
-              </div>
+                  {/* Additional information */}
+                  <div className="mt-3 text-muted small">
+                    <p className="mb-1">
+                      <strong>Property ID:</strong> {propertyId}
+                    </p>
+                    {/* Show toggle states */}
+                    <p className="mb-1">
+                      <strong>Seasonal Rates:</strong> {toggles.seasonalRatesEnabled ? 'Enabled' : 'Disabled'}
+                      {hasSeasonalAdjustment && ' (Active)'}
+                    </p>
+                    <p className="mb-1">
+                      <strong>Weekday Multipliers:</strong> {toggles.weekdayMultipliersEnabled ? 'Enabled' : 'Disabled'}
+                      {hasWeekdayAdjustment && ' (Active)'}
+                    </p>
+                    <p className="mb-1">
+                      <strong>Discount Strategies:</strong> {toggles.discountStrategiesEnabled ? 'Enabled' : 'Disabled'}
+                      {hasDiscount && ' (Active)'}
+                    </p>
+                  </div>
+                </>
+              )}
             </div>
             
             <div className="modal-footer">
@@ -5,10 +5,15 @@
  * Inline editing removed as per PRP-11 - now handled through modal
  */
 
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import Calendar from 'react-calendar'
+import { format } from 'date-fns'
 import { handleSupabaseError } from '@/lib/supabase'
 import { pricingService, type OverrideAwarePricingOptions } from '@/services/pricing.service'
+import { LengthOfStayDiscountService, type LengthOfStayTier } from '@/services/length-of-stay-discount.service'
+import { ScenarioService } from '@/services/scenario.service'
+import { generateScenarioComparison, formatScenarioSummary } from '@/utils/scenarioComparison'
+import type { PricingScenario } from '@/types/database.types'
 import { usePricingContext } from '@/context/PricingContext'
 import { useDebounce } from '@/hooks/useDebounce'
 import PricingTile from './PricingTile'
@@ -27,6 +32,22 @@ import './PricingCalendarGrid.css'
 // CalendarControlsComponent removed - property selection now handled by parent component
 // Stay length selector is integrated directly into the grid
 
+/**
+ * First and last date shown for the month of a calendar value, including neighbouring days
+ */
+const getVisibleRange = (value: CalendarValue): { start: Date; end: Date } => {
+  const currentDate = value instanceof Date ? value : new Date()
+  const firstDay = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)
+  const lastDay = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0)
+
+  const start = new Date(firstDay)
+  start.setDate(start.getDate() - firstDay.getDay())
+
+  const end = new Date(lastDay)
+  end.setDate(end.getDate() + (6 - lastDay.getDay()))
+
+  return { start, end }
+}
 
 /**
  * Main PricingCalendarGrid component using react-calendar
@@ -34,6 +55,7 @@ import './PricingCalendarGrid.css'
  */
 const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
   propertyId: initialPropertyId,
+  currency,
   selectedStayLength: initialStayLength = 3,
   onStayLengthChange,
   onDateClick,
@@ -51,12 +73,17 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
   })
   const [pricingData, setPricingData] = useState<Map<string, OverrideAwarePricingResult>>(new Map())
+  const [losTiers, setLosTiers] = useState<LengthOfStayTier[]>([])
   const [loadingState, setLoadingState] = useState<CalendarLoadingState>({
     isLoadingPrices: false,
     isLoadingProperty: false,
     isChangingStayLength: false,
     error: null
   })
+  const [scenarios, setScenarios] = useState<PricingScenario[]>([])
+  const [compareScenarioId, setCompareScenarioId] = useState<string>('')
+  const [scenarioPrices, setScenarioPrices] = useState<Map<string, number>>(new Map())
+  const [scenarioError, setScenarioError] = useState<string | null>(null)
   
   // Get toggle state and refresh trigger from context (FR-3, FR-4)
   const { toggles, lastRefresh } = usePricingContext()
@@ -73,6 +100,74 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
     setLoadingState(prev => ({ ...prev, isLoadingPrices: true, error: null }))
   }, [propertyId])
   
+  // Load length-of-stay tiers for the stay length selector badges
+  useEffect(() => {
+    if (!propertyId) return
+    
+    let cancelled = false
+    LengthOfStayDiscountService.getTiersByLodgifyId(propertyId)
+      .then(tiers => {
+        if (!cancelled) setLosTiers(tiers)
+      })
+      .catch(error => {
+        console.warn('Failed to load length-of-stay discounts:', error)
+        if (!cancelled) setLosTiers([])
+      })
+    
+    return () => {
+      cancelled = true
+    }
+  }, [propertyId, lastRefresh])
+  
+  // Draft scenarios that can be compared with live prices
+  useEffect(() => {
+    ScenarioService.listScenarios()
+      .then(list => setScenarios(list.filter(s => s.status === 'draft')))
+      .catch(error => console.warn('Failed to load pricing scenarios:', error))
+  }, [lastRefresh])
+  
+  // Load scenario prices for the visible month when comparing
+  useEffect(() => {
+    setScenarioPrices(new Map())
+    setScenarioError(null)
+    if (!propertyId || !compareScenarioId) return
+    
+    let cancelled = false
+    const { start, end } = getVisibleRange(calendarValue)
+    ScenarioService.previewCalendar(
+      compareScenarioId,
+      propertyId,
+      format(start, 'yyyy-MM-dd'),
+      format(end, 'yyyy-MM-dd'),
+      selectedStayLength,
+      {
+        includeSeasonalRates: debouncedToggles.seasonalRatesEnabled,
+        includeWeekdayMultipliers: debouncedToggles.weekdayMultipliersEnabled,
+        includeDiscountStrategies: debouncedToggles.discountStrategiesEnabled
+      }
+    )
+      .then(rows => {
+        if (!cancelled) {
+          setScenarioPrices(new Map(Array.from(rows, ([date, row]) => [date, row.final_price_per_night])))
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load scenario prices:', error)
+        if (!cancelled) setScenarioError(error instanceof Error ? error.message : 'Failed to load scenario prices')
+      })
+    
+    return () => {
+      cancelled = true
+    }
+  }, [propertyId, compareScenarioId, calendarValue, selectedStayLength, debouncedToggles, lastRefresh])
+  
+  const scenarioComparison = useMemo(() => {
+    if (!compareScenarioId || scenarioPrices.size === 0) return null
+    
+    const livePrices = new Map(Array.from(pricingData, ([date, data]) => [date, data.final_price_per_night]))
+    return generateScenarioComparison(livePrices, scenarioPrices)
+  }, [compareScenarioId, pricingData, scenarioPrices])
+  
   /**
    * Load pricing data using pricing service with override support
    * Implements bulk loading as specified in PRP-10 with proper service layer
@@ -83,7 +178,7 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
     startDate: Date,
     endDate: Date,
     stayLength: number,
-    toggleStates = { seasonalRatesEnabled: true, discountStrategiesEnabled: true }
+    toggleStates = { seasonalRatesEnabled: true, weekdayMultipliersEnabled: true, discountStrategiesEnabled: true }
   ) => {
     if (!propId) return
     
@@ -95,6 +190,7 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
       const dateRange = { start: startDate, end: endDate }
       const options: OverrideAwarePricingOptions = {
         includeSeasonalRates: toggleStates.seasonalRatesEnabled,
+        includeWeekdayMultipliers: toggleStates.weekdayMultipliersEnabled,
         includeDiscountStrategies: toggleStates.discountStrategiesEnabled,
         includeOverrides: true, // Always include overrides for calendar display
         fallbackOnOverrideError: true // Gracefully degrade if override loading fails
@@ -111,10 +207,18 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
       const newPricingData = new Map<string, OverrideAwarePricingResult>()
       
       result.forEach(dayData => {
+        // Amounts as calculate_final_price applied them under the property's stacking policy
         newPricingData.set(dayData.check_date, {
           base_price: dayData.base_price,
-          seasonal_adjustment: dayData.seasonal_adjustment_percent * dayData.base_price / 100,
-          last_minute_discount: dayData.last_minute_discount_percent * dayData.base_price / 100,
+          seasonal_adjustment: dayData.seasonal_adjustment,
+          weekday_adjustment: dayData.weekday_adjustment,
+          demand_adjustment: dayData.demand_adjustment,
+          last_minute_discount: dayData.last_minute_discount,
+          early_bird_discount: dayData.early_bird_discount,
+          gap_discount: dayData.gap_discount,
+          gap_nights: dayData.gap_nights,
+          los_discount: dayData.los_discount,
+          discount_cap_reduction: dayData.discount_cap_reduction,
           final_price_per_night: dayData.final_price_per_night,
           total_price: dayData.total_price,
           min_price_enforced: dayData.min_price_enforced,
@@ -224,6 +328,8 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
         isMinPriceEnforced={priceData ? priceData.min_price_enforced : false}
         isOverride={priceData ? priceData.is_overridden : false}
         propertyId={propertyId}
+        currency={currency}
+        scenarioPrice={scenarioPrices.get(dateKey)}
         onOverrideModalOpen={onOverrideModalOpen}
         onShowPriceBreakdown={onShowPriceBreakdown}
         isOverrideModalAvailable={!!onOverrideModalOpen}
@@ -233,6 +339,8 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
     pricingData, 
     selectedStayLength,
     propertyId,
+    currency,
+    scenarioPrices,
     onOverrideModalOpen,
     onShowPriceBreakdown
   ])
@@ -273,7 +381,32 @@ const PricingCalendarGrid: React.FC<PricingCalendarGridProps> = ({
           selectedLength={selectedStayLength}
           onLengthChange={handleStayLengthChange}
           availableLengths={[1, 2, 3, 4, 5, 6, 7, 14, 21, 30]}
+          lengthOfStayTiers={losTiers}
         />
+        
+        {/* Scenario comparison - scenario prices are computed with every pricing component on */}
+        {scenarios.length > 0 && (
+          <div className="scenario-compare" data-testid="scenario-compare">
+            <label htmlFor="compare-scenario" className="form-label small mb-0">Compare with scenario</label>
+            <select
+              id="compare-scenario"
+              className="form-select form-select-sm"
+              value={compareScenarioId}
+              onChange={(e) => setCompareScenarioId(e.target.value)}
+            >
+              <option value="">None</option>
+              {scenarios.map(s => (
+                <option key={s.scenario_id} value={s.scenario_id}>{s.scenario_name}</option>
+              ))}
+            </select>
+            {scenarioComparison && (
+              <span className="small text-muted" data-testid="scenario-summary">
+                {formatScenarioSummary(scenarioComparison, currency)}
+              </span>
+            )}
+            {scenarioError && <span className="small text-danger">{scenarioError}</span>}
+          </div>
+        )}
       </div>
       
       {/* Error Display */}
@@ -117,6 +117,7 @@ const PricingDashboardInner: React.FC = () => {
     selectedProperty, 
     selectedDateRange: _selectedDateRange, 
     defaultNights,
+    toggles,
     loading,
     refreshCalendarData
   } = usePricingContext()
@@ -146,38 +147,30 @@ const PricingDashboardInner: React.FC = () => {
   }, [selectedProperty, refreshCalendarData])
   
   /**
-   * Handle date click from calendar (for backward compatibility)
+   * Handle date click from calendar
+   * The breakdown is calculate_final_price with the calendar's toggles, so its
+   * steps are the ones the stacking policy applied and add up to the price shown
    */
-  const handleDateClick = (date: Date, priceData: CalculateFinalPriceResult | null) => {
-    if (priceData && selectedProperty) {
+  const handleDateClick = async (date: Date, priceData: CalculateFinalPriceResult | null) => {
+    if (!priceData || !selectedProperty) return
+    
+    try {
+      const detail = await pricingService.calculateConditionalPrice(
+        selectedProperty.lodgify_property_id,
+        date,
+        defaultNights,
+        {
+          includeSeasonalRates: toggles.seasonalRatesEnabled,
+          includeWeekdayMultipliers: toggles.weekdayMultipliersEnabled,
+          includeDiscountStrategies: toggles.discountStrategiesEnabled
+        }
+      )
+      
       setSelectedDate(date)
-      // Convert to the expected format for PriceDetailModal
-      const convertedData: CalculateFinalPriceReturn = {
-        property_id: selectedProperty.lodgify_property_id,
-        property_name: selectedProperty.property_name,
-        check_date: date.toISOString().split('T')[0],
-        nights: defaultNights,
-        base_price_per_night: priceData.base_price,
-        seasonal_adjustment: priceData.seasonal_adjustment,
-        seasonal_rate: 0, // Not available in CalculateFinalPriceResult
-        adjusted_price_per_night: priceData.base_price + priceData.seasonal_adjustment,
-        last_minute_discount: priceData.last_minute_discount,
-        discounted_price_per_night: priceData.base_price + priceData.seasonal_adjustment - priceData.last_minute_discount,
-        final_price_per_night: priceData.final_price_per_night,
-        total_price: priceData.total_price,
-        min_price_per_night: priceData.base_price, // Assuming base price is minimum
-        savings_amount: priceData.last_minute_discount,
-        savings_percentage: priceData.base_price > 0 ? (priceData.last_minute_discount / priceData.base_price) * 100 : 0,
-        has_seasonal_rate: Math.abs(priceData.seasonal_adjustment) > 0.01,
-        has_last_minute_discount: priceData.last_minute_discount > 0.01,
-        at_minimum_price: priceData.min_price_enforced,
-        is_overridden: priceData.is_override || false,
-        // Add required compatibility fields
-        base_price: priceData.base_price,
-        min_price_enforced: priceData.min_price_enforced
-      }
-      setPriceDetailData(convertedData)
+      setPriceDetailData(detail)
       setShowPriceDetail(true)
+    } catch (error) {
+      console.error('Failed to load price breakdown:', error)
     }
   }
   
@@ -205,18 +198,35 @@ const PricingDashboardInner: React.FC = () => {
           base_price_per_night: actualPriceData.base_price,
           seasonal_adjustment: actualPriceData.seasonal_adjustment,
           seasonal_rate: 0, // Not available in database function
-          adjusted_price_per_night: actualPriceData.base_price + actualPriceData.seasonal_adjustment,
+          weekday_adjustment: actualPriceData.weekday_adjustment,
+          weekday_rate: actualPriceData.weekday_rate,
+          demand_adjustment: actualPriceData.demand_adjustment,
+          demand_rate: actualPriceData.demand_rate,
+          adjusted_price_per_night: actualPriceData.adjusted_price_per_night,
           last_minute_discount: actualPriceData.last_minute_discount,
-          discounted_price_per_night: actualPriceData.base_price + actualPriceData.seasonal_adjustment - actualPriceData.last_minute_discount,
+          early_bird_discount: actualPriceData.early_bird_discount,
+          early_bird_rate: actualPriceData.early_bird_rate,
+          gap_discount: actualPriceData.gap_discount,
+          gap_rate: actualPriceData.gap_rate,
+          gap_nights: actualPriceData.gap_nights,
+          los_discount: actualPriceData.los_discount,
+          los_rate: actualPriceData.los_rate,
+          discounted_price_per_night: actualPriceData.discounted_price_per_night,
           final_price_per_night: actualPriceData.final_price_per_night,
           total_price: actualPriceData.total_price,
           min_price_per_night: actualPriceData.base_price, // Assuming base price is minimum
           savings_amount: actualPriceData.last_minute_discount,
           savings_percentage: actualPriceData.base_price > 0 ? (actualPriceData.last_minute_discount / actualPriceData.base_price) * 100 : 0,
           has_seasonal_rate: Math.abs(actualPriceData.seasonal_adjustment) > 0.01,
+          has_weekday_adjustment: actualPriceData.has_weekday_adjustment,
+          has_demand_adjustment: actualPriceData.has_demand_adjustment,
           has_last_minute_discount: actualPriceData.last_minute_discount > 0.01,
+          has_early_bird_discount: actualPriceData.has_early_bird_discount,
+          has_gap_discount: actualPriceData.has_gap_discount,
+          has_los_discount: actualPriceData.has_los_discount,
           at_minimum_price: actualPriceData.min_price_enforced,
           is_overridden: actualPriceData.is_overridden,
+          lead_time_rules: actualPriceData.lead_time_rules,
           // Add required compatibility fields
           base_price: actualPriceData.base_price,
           min_price_enforced: actualPriceData.min_price_enforced
@@ -234,8 +244,17 @@ const PricingDashboardInner: React.FC = () => {
           base_price_per_night: 0,
           seasonal_adjustment: 0,
           seasonal_rate: 0,
+          weekday_adjustment: 0,
+          weekday_rate: 0,
+          demand_adjustment: 0,
+          demand_rate: 0,
           adjusted_price_per_night: 0,
           last_minute_discount: 0,
+          gap_discount: 0,
+          gap_rate: 0,
+          gap_nights: null,
+          los_discount: 0,
+          los_rate: 0,
           discounted_price_per_night: 0,
           final_price_per_night: 0,
           total_price: 0,
@@ -243,7 +262,11 @@ const PricingDashboardInner: React.FC = () => {
           savings_amount: 0,
           savings_percentage: 0,
           has_seasonal_rate: false,
+          has_weekday_adjustment: false,
+          has_demand_adjustment: false,
           has_last_minute_discount: false,
+          has_gap_discount: false,
+          has_los_discount: false,
           at_minimum_price: false,
           is_overridden: false,
           base_price: 0,
@@ -387,6 +410,7 @@ const PricingDashboardInner: React.FC = () => {
                 {/* Calendar View Only - Simplified Interface */}
                 <PricingCalendarGrid
                   propertyId={selectedProperty.lodgify_property_id}
+                  currency={selectedProperty.currency}
                   selectedStayLength={defaultNights}
                   onDateClick={handleDateClick}
                   onOverrideModalOpen={handleOverrideModalOpenDirect}
@@ -411,6 +435,7 @@ const PricingDashboardInner: React.FC = () => {
       {selectedDate && priceDetailData && (
         <PriceDetailModal
           propertyId={selectedProperty.lodgify_property_id}
+          currency={selectedProperty.currency}
           checkDate={selectedDate}
           nights={defaultNights}
           isOpen={showPriceDetail}
@@ -426,6 +451,7 @@ const PricingDashboardInner: React.FC = () => {
           isOpen={showOverrideModal}
           onClose={handleCloseOverrideModal}
           propertyId={selectedProperty.lodgify_property_id}
+          currency={selectedProperty.currency}
           date={selectedDate}
           currentPrice={priceDetailData}
           existingOverride={existingOverride}
@@ -9,7 +9,10 @@ import type { PricingLegendProps } from '@/types/pricing-calendar.types'
 
 const PricingLegend: React.FC<PricingLegendProps> = ({
   showSeasonalIndicator = true,
+  showWeekdayIndicator = true,
+  showDemandIndicator = true,
   showDiscountIndicator = true,
+  showGapIndicator = true,
   showMinPriceIndicator = true,
   className = ''
 }) => {
@@ -27,6 +30,21 @@ const PricingLegend: React.FC<PricingLegendProps> = ({
           </div>
         )}
         
+        {showWeekdayIndicator && (
+          <div className="legend-item d-flex align-items-center gap-1">
+            <span className="indicator-symbol weekday" style={{ color: '#6f42c1' }}>W</span>
+            <span>Weekday adjustment</span>
+          </div>
+        )}
+        
+        {showDemandIndicator && (
+          <div className="legend-item d-flex align-items-center gap-1">
+            <span className="indicator-symbol demand up" style={{ color: '#dc3545', fontSize: '0.6rem' }}>▲</span>
+            <span className="indicator-symbol demand down" style={{ color: '#0d6efd', fontSize: '0.6rem' }}>▼</span>
+            <span>Demand adjustment</span>
+          </div>
+        )}
+        
         {showDiscountIndicator && (
           <div className="legend-item d-flex align-items-center gap-1">
             <span className="indicator-symbol discount" style={{ color: '#28a745' }}>%</span>
@@ -34,6 +52,13 @@ const PricingLegend: React.FC<PricingLegendProps> = ({
           </div>
         )}
         
+        {showGapIndicator && (
+          <div className="legend-item d-flex align-items-center gap-1">
+            <span className="indicator-symbol gap" style={{ color: '#fd7e14', fontSize: '0.6rem', fontWeight: 'bold' }}>GAP</span>
+            <span>Gap-night filler</span>
+          </div>
+        )}
+        
         {showMinPriceIndicator && (
           <div className="legend-item d-flex align-items-center gap-1">
             <span className="indicator-text min-price" style={{ 
@@ -8,6 +8,7 @@
 import React, { useCallback, useRef, useEffect, useState } from 'react'
 import { Tooltip } from './contextual-help'
 import { useClickHandlerState } from '@/hooks/useClickHandlerState'
+import { formatMoney, DEFAULT_CURRENCY } from '@/utils/currency'
 import type { PricingTileProps } from '@/types/pricing-calendar.types'
 
 const PricingTile: React.FC<PricingTileProps> = ({
@@ -17,6 +18,8 @@ const PricingTile: React.FC<PricingTileProps> = ({
   stayLength,
   isOverride = false,
   propertyId,
+  currency = DEFAULT_CURRENCY,
+  scenarioPrice,
   onOverrideModalOpen,
   onShowPriceBreakdown,
   isOverrideModalAvailable = false
@@ -31,8 +34,14 @@ const PricingTile: React.FC<PricingTileProps> = ({
   const [showBreakdown, setShowBreakdown] = useState(false)
   const tileRef = useRef<HTMLDivElement>(null)
 
+  // Whole amounts in the property currency
+  const money = useCallback(
+    (value: number) => formatMoney(value, currency, { decimals: 0 }),
+    [currency]
+  )
+
   // Enhanced override detection logic
-  const detectOverrideState = (data: typeof priceData): boolean => {
+  const detectOverrideState = useCallback((data: typeof priceData): boolean => {
     if (!data) return false
     
     try {
@@ -50,19 +59,19 @@ const PricingTile: React.FC<PricingTileProps> = ({
       console.warn('Override detection failed:', error)
       return false
     }
-  }
+  }, [isOverride])
 
   // Format enhanced tooltip content for overrides
   const formatOverrideTooltip = useCallback((): string => {
     if (!priceData || !detectOverrideState(priceData)) {
-      return "Shows final calculated price including all adjustments (base + seasonal + discounts)"
+      return "Shows final calculated price including all adjustments (base + seasonal + weekday + demand + discounts)"
     }
     
-    const overridePrice = Math.round(priceData.final_price_per_night)
-    const calculatedPrice = Math.round(priceData.calculated_price || priceData.base_price)
+    const overridePrice = money(priceData.final_price_per_night)
+    const calculatedPrice = money(priceData.calculated_price || priceData.base_price)
     
-    return `Manual override: €${overridePrice} (replaces calculated €${calculatedPrice})`
-  }, [priceData, detectOverrideState])
+    return `Manual override: ${overridePrice} (replaces calculated ${calculatedPrice})`
+  }, [priceData, detectOverrideState, money])
   
   /**
    * Handle single click - show price breakdown
@@ -212,7 +221,12 @@ const PricingTile: React.FC<PricingTileProps> = ({
 
   // Calculate indicators based on price data
   const hasSeasonalRate = Math.abs(priceData.seasonal_adjustment) > 0.01
+  const weekdayAdjustment = priceData.weekday_adjustment ?? 0
+  const hasWeekdayAdjustment = Math.abs(weekdayAdjustment) > 0.01
+  const demandAdjustment = priceData.demand_adjustment ?? 0
+  const hasDemandAdjustment = Math.abs(demandAdjustment) > 0.01
   const hasLastMinuteDiscount = priceData.last_minute_discount > 0.01
+  const isGapNight = (priceData.gap_discount ?? 0) > 0.01
   const isAtMinPrice = priceData.min_price_enforced
 
   // Get test ID for current date (today vs other dates)
@@ -233,7 +247,7 @@ const PricingTile: React.FC<PricingTileProps> = ({
       data-is-override={isOverridden}
       role="button"
       tabIndex={0}
-      aria-label={`Price for ${date.toLocaleDateString()}: €${Math.round(priceData.final_price_per_night)}${isOverridden ? ' (manually overridden)' : ''}. Press Enter for details, Shift+Enter to set override.`}
+      aria-label={`Price for ${date.toLocaleDateString()}: ${money(priceData.final_price_per_night)}${isOverridden ? ' (manually overridden)' : ''}. Press Enter for details, Shift+Enter to set override.`}
       aria-describedby={isOverridden ? 'override-description' : undefined}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
@@ -249,12 +263,30 @@ const PricingTile: React.FC<PricingTileProps> = ({
               {showBreakdown && priceData && (
                 <div className="mt-2 pt-2 border-top">
                   <div className="small">
-                    <div>Base: €{Math.round(priceData.base_price)}</div>
+                    <div>Base: {money(priceData.base_price)}</div>
                     {priceData.seasonal_adjustment !== 0 && (
-                      <div>Seasonal: {priceData.seasonal_adjustment > 0 ? '+' : ''}€{Math.round(priceData.seasonal_adjustment)}</div>
+                      <div>Seasonal: {priceData.seasonal_adjustment > 0 ? '+' : ''}{money(priceData.seasonal_adjustment)}</div>
+                    )}
+                    {hasWeekdayAdjustment && (
+                      <div>Weekday: {weekdayAdjustment > 0 ? '+' : '-'}{money(Math.abs(weekdayAdjustment))}</div>
+                    )}
+                    {hasDemandAdjustment && (
+                      <div>Demand: {demandAdjustment > 0 ? '+' : '-'}{money(Math.abs(demandAdjustment))}</div>
                     )}
                     {priceData.last_minute_discount > 0 && (
-                      <div>Discount: -€{Math.round(priceData.last_minute_discount)}</div>
+                      <div>Discount: -{money(priceData.last_minute_discount)}</div>
+                    )}
+                    {(priceData.early_bird_discount ?? 0) > 0.01 && (
+                      <div>Early bird: -{money(priceData.early_bird_discount ?? 0)}</div>
+                    )}
+                    {isGapNight && (
+                      <div>Gap filler ({priceData.gap_nights}-night gap): -{money(priceData.gap_discount ?? 0)}</div>
+                    )}
+                    {(priceData.los_discount ?? 0) > 0.01 && (
+                      <div>Long stay: -{money(priceData.los_discount ?? 0)}</div>
+                    )}
+                    {(priceData.discount_cap_reduction ?? 0) > 0.01 && (
+                      <div>Discount cap: +{money(priceData.discount_cap_reduction ?? 0)}</div>
                     )}
                     {priceData.min_price_enforced && (
                       <div>Min price enforced</div>
@@ -286,14 +318,25 @@ const PricingTile: React.FC<PricingTileProps> = ({
             className="price-amount"
             data-testid="calendar-price-cell"
           >
-            €{Math.round(priceData.final_price_per_night)}
+            {money(priceData.final_price_per_night)}
           </div>
         </Tooltip>
         
         {/* Total price for multi-night stays */}
         {stayLength > 1 && (
           <div className="total-price small text-muted">
-            €{Math.round(priceData.total_price)} total
+            {money(priceData.total_price)} total
+          </div>
+        )}
+
+        {/* Scenario price when comparing against a pricing scenario */}
+        {scenarioPrice !== undefined && Math.abs(scenarioPrice - priceData.final_price_per_night) > 0.01 && (
+          <div
+            className={`scenario-price ${scenarioPrice > priceData.final_price_per_night ? 'scenario-higher' : 'scenario-lower'}`}
+            data-testid="scenario-price"
+            title={`Scenario: ${money(scenarioPrice)} (${scenarioPrice > priceData.final_price_per_night ? '+' : '-'}${money(Math.abs(scenarioPrice - priceData.final_price_per_night))})`}
+          >
+            {money(scenarioPrice)}
           </div>
         )}
       </div>
@@ -303,7 +346,7 @@ const PricingTile: React.FC<PricingTileProps> = ({
         <div 
           className="override-indicator"
           role="status"
-          aria-label={`Manual override: €${Math.round(priceData.final_price_per_night)}, replaces calculated €${Math.round(priceData.calculated_price || priceData.base_price)}`}
+          aria-label={`Manual override: ${money(priceData.final_price_per_night)}, replaces calculated ${money(priceData.calculated_price || priceData.base_price)}`}
           title="Price manually overridden"
         >
           <span className="indicator-badge override">OVERRIDE</span>
@@ -315,21 +358,50 @@ const PricingTile: React.FC<PricingTileProps> = ({
           {hasSeasonalRate && (
             <div 
               className="seasonal-indicator"
-              title={`Seasonal adjustment: ${priceData.seasonal_adjustment > 0 ? '+' : ''}€${Math.round(priceData.seasonal_adjustment)}`}
+              title={`Seasonal adjustment: ${priceData.seasonal_adjustment > 0 ? '+' : ''}${money(priceData.seasonal_adjustment)}`}
             >
               <span className="indicator-dot seasonal">●</span>
             </div>
           )}
           
+          {hasWeekdayAdjustment && (
+            <div 
+              className="weekday-indicator"
+              title={`Weekday adjustment: ${weekdayAdjustment > 0 ? '+' : '-'}${money(Math.abs(weekdayAdjustment))}`}
+            >
+              <span className="indicator-symbol weekday">W</span>
+            </div>
+          )}
+          
+          {hasDemandAdjustment && (
+            <div 
+              className="demand-indicator"
+              title={`Demand adjustment: ${demandAdjustment > 0 ? '+' : '-'}${money(Math.abs(demandAdjustment))}`}
+            >
+              <span className={`indicator-symbol demand ${demandAdjustment > 0 ? 'up' : 'down'}`}>
+                {demandAdjustment > 0 ? '▲' : '▼'}
+              </span>
+            </div>
+          )}
+          
           {hasLastMinuteDiscount && (
             <div 
               className="discount-indicator"
-              title={`Last minute discount: €${Math.round(priceData.last_minute_discount)} off`}
+              title={`Last minute discount: ${money(priceData.last_minute_discount)} off`}
             >
               <span className="indicator-symbol discount">%</span>
             </div>
           )}
           
+          {isGapNight && (
+            <div 
+              className="gap-indicator"
+              title={`Gap filler: ${priceData.gap_nights}-night gap between bookings, ${money(priceData.gap_discount ?? 0)} off`}
+            >
+              <span className="indicator-symbol gap">GAP</span>
+            </div>
+          )}
+          
           {isAtMinPrice && (
             <div 
               className="min-price-indicator"
@@ -1,7 +1,7 @@
 /**
  * PricingToggles - Toggle switches for pricing calculation components
  * Implements FR-1 through FR-4 of pricing-toggles-prp
- * Provides toggle controls for seasonal rates and discount strategies
+ * Provides toggle controls for seasonal rates, weekday multipliers and discount strategies
  */
 
 import React, { useCallback, memo } from 'react'
@@ -37,6 +37,11 @@ const PricingToggles: React.FC<PricingTogglesProps> = memo(({
     updateToggle('seasonal', enabled)
   }, [updateToggle])
 
+  const handleWeekdayToggle = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const enabled = e.target.checked
+    updateToggle('weekday', enabled)
+  }, [updateToggle])
+
   const handleDiscountToggle = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const enabled = e.target.checked
     updateToggle('discount', enabled)
@@ -82,6 +87,44 @@ const PricingToggles: React.FC<PricingTogglesProps> = memo(({
         </div>
       </Tooltip>
 
+      {/* Weekday Multipliers Toggle */}
+      <Tooltip
+        content="Enable/disable day-of-week multipliers (e.g. weekend premiums) in calendar pricing calculations"
+        placement="top"
+        delay={200}
+      >
+        <div className="form-check form-switch" data-testid="pricing-toggle-weekday">
+          <input
+            className="form-check-input"
+            type="checkbox"
+            role="switch"
+            id="weekday-multipliers-toggle"
+            data-testid="weekday-multipliers-toggle"
+            checked={toggles.weekdayMultipliersEnabled}
+            onChange={handleWeekdayToggle}
+            disabled={disabled}
+            aria-checked={toggles.weekdayMultipliersEnabled}
+            aria-label="Toggle weekday multipliers"
+          />
+          <label 
+            className="form-check-label" 
+            htmlFor="weekday-multipliers-toggle"
+          >
+            <span className="d-flex align-items-center gap-1">
+              <span>Weekday Multipliers</span>
+              {!toggles.weekdayMultipliersEnabled && (
+                <span 
+                  className="badge bg-secondary"
+                  data-testid="weekday-multipliers-indicator"
+                >
+                  Off
+                </span>
+              )}
+            </span>
+          </label>
+        </div>
+      </Tooltip>
+
       {/* Discount Strategies Toggle */}
       <Tooltip
         content="Enable/disable last-minute discounts in final price calculations"
@@ -120,8 +163,8 @@ const PricingToggles: React.FC<PricingTogglesProps> = memo(({
         </div>
       </Tooltip>
 
-      {/* Visual indicator when both are disabled */}
-      {!toggles.seasonalRatesEnabled && !toggles.discountStrategiesEnabled && (
+      {/* Visual indicator when all are disabled */}
+      {!toggles.seasonalRatesEnabled && !toggles.weekdayMultipliersEnabled && !toggles.discountStrategiesEnabled && (
         <div className="text-muted small d-flex align-items-center">
           <span className="badge bg-warning text-dark">Base pricing only</span>
         </div>
@@ -0,0 +1,600 @@
+/**
+ * ScenarioManager - Draft, edit and promote what-if pricing scenarios
+ * A scenario starts as a copy of the live configuration; nothing here touches
+ * live rows until the scenario is promoted
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { ScenarioService } from '@/services/scenario.service'
+import type { ScenarioConfiguration } from '@/services/scenario.service'
+import { useProperties } from '@/hooks/useProperties'
+import type { PricingScenario, ScenarioDateRange, ScenarioDiscountStrategy } from '@/types/database.types'
+import { formatMoney } from '@/utils/currency'
+
+/**
+ * New seasonal rate form values shown to the user
+ */
+interface RateFormValues {
+  rate_name: string
+  start_date: string
+  end_date: string
+  adjustment_percent: string
+  property_internal_id: string  // '' = all properties
+}
+
+const emptyRateForm: RateFormValues = {
+  rate_name: '',
+  start_date: '',
+  end_date: '',
+  adjustment_percent: '',
+  property_internal_id: ''
+}
+
+export default function ScenarioManager() {
+  const { properties } = useProperties()
+  const [scenarios, setScenarios] = useState<PricingScenario[]>([])
+  const [selectedId, setSelectedId] = useState<string>('')
+  const [config, setConfig] = useState<ScenarioConfiguration | null>(null)
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, { base: string; min: string }>>({})
+  const [newScenario, setNewScenario] = useState({ name: '', description: '' })
+  const [rateForm, setRateForm] = useState<RateFormValues>(emptyRateForm)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const selected = scenarios.find(s => s.scenario_id === selectedId) ?? null
+  const readOnly = saving || selected?.status === 'promoted'
+  const propertiesById = useMemo(() => new Map(properties.map(p => [p.id, p])), [properties])
+
+  const loadScenarios = useCallback(async () => {
+    const list = await ScenarioService.listScenarios()
+    setScenarios(list)
+    return list
+  }, [])
+
+  useEffect(() => {
+    loadScenarios()
+      .then(list => setSelectedId(prev => prev || list[0]?.scenario_id || ''))
+      .catch(err => {
+        console.error('Failed to load scenarios:', err)
+        setError('Failed to load scenarios')
+      })
+      .finally(() => setLoading(false))
+  }, [loadScenarios])
+
+  const loadConfig = useCallback(async (scenarioId: string) => {
+    const loaded = await ScenarioService.getConfiguration(scenarioId)
+    setConfig(loaded)
+    setPriceDrafts(Object.fromEntries(loaded.propertyPrices.map(p => [
+      p.property_internal_id,
+      { base: String(p.base_price_per_day), min: String(p.min_price_per_day) }
+    ])))
+  }, [])
+
+  useEffect(() => {
+    setConfig(null)
+    if (!selectedId) return
+
+    loadConfig(selectedId).catch(err => {
+      console.error('Failed to load scenario:', err)
+      setError('Failed to load scenario')
+    })
+  }, [selectedId, loadConfig])
+
+  // Runs a change against the selected scenario and reloads it
+  const runChange = useCallback(async (change: () => Promise<void>, failure: string) => {
+    if (!selectedId) return
+
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      await change()
+      await loadConfig(selectedId)
+    } catch (err) {
+      console.error(`${failure}:`, err)
+      setError(err instanceof Error ? err.message : failure)
+    } finally {
+      setSaving(false)
+    }
+  }, [selectedId, loadConfig])
+
+  const handleCreate = useCallback(async () => {
+    const validationError = ScenarioService.validateScenarioName(newScenario.name)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const scenarioId = await ScenarioService.createScenario(newScenario.name, newScenario.description)
+      await loadScenarios()
+      setSelectedId(scenarioId)
+      setNewScenario({ name: '', description: '' })
+    } catch (err) {
+      console.error('Failed to create scenario:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create scenario')
+    } finally {
+      setSaving(false)
+    }
+  }, [newScenario, loadScenarios])
+
+  const handleDelete = useCallback(async () => {
+    if (!selected || !confirm(`Delete scenario "${selected.scenario_name}"?`)) return
+
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      await ScenarioService.deleteScenario(selected.scenario_id)
+      const list = await loadScenarios()
+      setSelectedId(list[0]?.scenario_id || '')
+    } catch (err) {
+      console.error('Failed to delete scenario:', err)
+      setError('Failed to delete scenario. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [selected, loadScenarios])
+
+  const handlePromote = useCallback(async () => {
+    if (!selected) return
+    if (!confirm(
+      `Make "${selected.scenario_name}" live? Base prices, seasonal rates and discount strategies ` +
+      'will be replaced. The current configuration is saved as a new scenario first.'
+    )) return
+
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const backupId = await ScenarioService.promoteScenario(selected.scenario_id)
+      const list = await loadScenarios()
+      const backup = list.find(s => s.scenario_id === backupId)
+      setNotice(`"${selected.scenario_name}" is now live. The previous configuration was saved as "${backup?.scenario_name ?? backupId}".`)
+    } catch (err) {
+      console.error('Failed to promote scenario:', err)
+      setError(err instanceof Error ? err.message : 'Failed to promote scenario')
+    } finally {
+      setSaving(false)
+    }
+  }, [selected, loadScenarios])
+
+  const handleSavePrice = useCallback((propertyId: string) => {
+    const draft = priceDrafts[propertyId]
+    if (!draft) return
+
+    runChange(
+      () => ScenarioService.updatePropertyPrice(selectedId, propertyId, {
+        base_price_per_day: Number(draft.base),
+        min_price_per_day: Number(draft.min)
+      }),
+      'Failed to save scenario price'
+    )
+  }, [priceDrafts, selectedId, runChange])
+
+  const handleAddRate = useCallback(() => {
+    const input = {
+      scenario_id: selectedId,
+      rate_name: rateForm.rate_name,
+      start_date: rateForm.start_date,
+      end_date: rateForm.end_date,
+      discount_rate: Number(rateForm.adjustment_percent) / 100,
+      scope_type: rateForm.property_internal_id ? 'property' as const : 'global' as const,
+      property_internal_id: rateForm.property_internal_id || null,
+      property_group_id: null,
+      min_stay: null,
+      max_stay: null,
+      arrival_days: null,
+      departure_days: null,
+      extra_guest_fee: null
+    }
+    const validationError = rateForm.adjustment_percent.trim() === ''
+      ? 'Adjustment is required'
+      : ScenarioService.validateDateRange(input)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    runChange(async () => {
+      await ScenarioService.saveDateRange(input)
+      setRateForm(emptyRateForm)
+    }, 'Failed to add scenario seasonal rate')
+  }, [rateForm, selectedId, runChange])
+
+  const handleDeleteRate = useCallback((rate: ScenarioDateRange) => {
+    runChange(
+      () => ScenarioService.deleteDateRange(selectedId, rate.rate_id),
+      'Failed to delete scenario seasonal rate'
+    )
+  }, [selectedId, runChange])
+
+  const handleStrategyChange = useCallback((
+    strategy: ScenarioDiscountStrategy,
+    updates: Parameters<typeof ScenarioService.updateDiscountStrategy>[2]
+  ) => {
+    runChange(
+      () => ScenarioService.updateDiscountStrategy(selectedId, strategy.strategy_id, updates),
+      'Failed to update scenario strategy'
+    )
+  }, [selectedId, runChange])
+
+  const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+  const scopeLabel = (rate: ScenarioDateRange) => {
+    if (rate.scope_type === 'property') {
+      return propertiesById.get(rate.property_internal_id ?? '')?.property_name ?? 'Property'
+    }
+    return rate.scope_type === 'group' ? 'Group' : 'All properties'
+  }
+
+  return (
+    <div className="space-y-6" data-testid="scenario-manager">
+      <div className="bg-white shadow rounded-lg">
+        <div className="p-6 border-b border-gray-200">
+          <h1 className="text-lg font-medium text-gray-900">Pricing Scenarios</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Draft a different set of base prices, seasonal rates and discount strategies without touching
+            live pricing. Compare a scenario with live prices in the calendar, then promote it when it is ready.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700" role="alert">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded text-sm text-green-700" role="status">
+              {notice}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading scenarios...</p>
+          ) : (
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="min-w-[16rem]">
+                <label htmlFor="scenario-select" className="block text-xs font-medium text-gray-700 mb-1">Scenario</label>
+                <select
+                  id="scenario-select"
+                  className={inputClassName}
+                  value={selectedId}
+                  onChange={(e) => setSelectedId(e.target.value)}
+                  disabled={saving}
+                >
+                  {scenarios.length === 0 && <option value="">No scenarios yet</option>}
+                  {scenarios.map(s => (
+                    <option key={s.scenario_id} value={s.scenario_id}>
+                      {s.scenario_name}{s.status === 'promoted' ? ' (promoted)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {selected && (
+                <>
+                  <button
+                    type="button"
+                    className="px-4 py-2 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                    onClick={handlePromote}
+                    disabled={saving}
+                    data-testid="promote-scenario"
+                  >
+                    Promote to Live
+                  </button>
+                  <button
+                    type="button"
+                    className="px-4 py-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    onClick={handleDelete}
+                    disabled={saving}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end border-t border-gray-100 pt-4">
+            <div>
+              <label htmlFor="scenario-name" className="block text-xs font-medium text-gray-700 mb-1">New scenario name</label>
+              <input
+                id="scenario-name"
+                type="text"
+                className={inputClassName}
+                value={newScenario.name}
+                onChange={(e) => setNewScenario({ ...newScenario, name: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label htmlFor="scenario-description" className="block text-xs font-medium text-gray-700 mb-1">Description</label>
+              <input
+                id="scenario-description"
+                type="text"
+                className={inputClassName}
+                value={newScenario.description}
+                onChange={(e) => setNewScenario({ ...newScenario, description: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <button
+              type="button"
+              className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+              onClick={handleCreate}
+              disabled={saving}
+            >
+              Copy Live Pricing
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {selected && config && (
+        <>
+          {selected.status === 'promoted' && (
+            <p className="text-sm text-gray-600">
+              This scenario was promoted{selected.promoted_at ? ` on ${new Date(selected.promoted_at).toLocaleString()}` : ''} and
+              can no longer be edited. Copy live pricing into a new scenario to keep planning.
+            </p>
+          )}
+          {selected.description && <p className="text-sm text-gray-600">{selected.description}</p>}
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-sm font-medium text-gray-900 mb-2">Base Prices</h2>
+            <table className="min-w-full text-sm" data-testid="scenario-prices">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-4 font-medium">Property</th>
+                  <th className="py-1 pr-4 font-medium">Live base / min</th>
+                  <th className="py-1 pr-4 font-medium">Scenario base</th>
+                  <th className="py-1 pr-4 font-medium">Scenario min</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {config.propertyPrices.map(price => {
+                  const property = propertiesById.get(price.property_internal_id)
+                  const draft = priceDrafts[price.property_internal_id] ?? { base: '', min: '' }
+                  return (
+                    <tr key={price.property_internal_id} className="border-t border-gray-100">
+                      <td className="py-1 pr-4">{property?.property_name ?? price.property_internal_id}</td>
+                      <td className="py-1 pr-4 text-gray-500">
+                        {property
+                          ? `${formatMoney(property.base_price_per_day, property.currency)} / ${formatMoney(property.min_price_per_day, property.currency)}`
+                          : '—'}
+                      </td>
+                      <td className="py-1 pr-4">
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          aria-label="Scenario base price"
+                          className={inputClassName}
+                          value={draft.base}
+                          onChange={(e) => setPriceDrafts({ ...priceDrafts, [price.property_internal_id]: { ...draft, base: e.target.value } })}
+                          disabled={readOnly}
+                        />
+                      </td>
+                      <td className="py-1 pr-4">
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          aria-label="Scenario minimum price"
+                          className={inputClassName}
+                          value={draft.min}
+                          onChange={(e) => setPriceDrafts({ ...priceDrafts, [price.property_internal_id]: { ...draft, min: e.target.value } })}
+                          disabled={readOnly}
+                        />
+                      </td>
+                      <td className="py-1 text-right">
+                        <button
+                          type="button"
+                          className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                          onClick={() => handleSavePrice(price.property_internal_id)}
+                          disabled={readOnly}
+                        >
+                          Save
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-sm font-medium text-gray-900 mb-2">Seasonal Rates</h2>
+            {config.dateRanges.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-3">No seasonal rates in this scenario.</p>
+            ) : (
+              <table className="min-w-full text-sm mb-3" data-testid="scenario-rates">
+                <tbody>
+                  {config.dateRanges.map(rate => (
+                    <tr key={rate.rate_id} className="border-t border-gray-100">
+                      <td className="py-1 pr-4">{rate.rate_name}</td>
+                      <td className="py-1 pr-4">{rate.start_date} – {rate.end_date}</td>
+                      <td className="py-1 pr-4">{rate.discount_rate >= 0 ? '+' : ''}{Math.round(rate.discount_rate * 1000) / 10}%</td>
+                      <td className="py-1 pr-4 text-gray-500">{scopeLabel(rate)}</td>
+                      <td className="py-1 text-right">
+                        <button
+                          type="button"
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          onClick={() => handleDeleteRate(rate)}
+                          disabled={readOnly}
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {selected.status !== 'promoted' && (
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-6 items-end">
+                <div>
+                  <label htmlFor="scenario-rate-name" className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    id="scenario-rate-name"
+                    type="text"
+                    className={inputClassName}
+                    value={rateForm.rate_name}
+                    onChange={(e) => setRateForm({ ...rateForm, rate_name: e.target.value })}
+                    disabled={readOnly}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="scenario-rate-start" className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    id="scenario-rate-start"
+                    type="date"
+                    className={inputClassName}
+                    value={rateForm.start_date}
+                    onChange={(e) => setRateForm({ ...rateForm, start_date: e.target.value })}
+                    disabled={readOnly}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="scenario-rate-end" className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    id="scenario-rate-end"
+                    type="date"
+                    className={inputClassName}
+                    value={rateForm.end_date}
+                    onChange={(e) => setRateForm({ ...rateForm, end_date: e.target.value })}
+                    disabled={readOnly}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="scenario-rate-adjustment" className="block text-xs font-medium text-gray-700 mb-1">Adjustment %</label>
+                  <input
+                    id="scenario-rate-adjustment"
+                    type="number"
+                    step="1"
+                    className={inputClassName}
+                    value={rateForm.adjustment_percent}
+                    onChange={(e) => setRateForm({ ...rateForm, adjustment_percent: e.target.value })}
+                    disabled={readOnly}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="scenario-rate-scope" className="block text-xs font-medium text-gray-700 mb-1">Applies to</label>
+                  <select
+                    id="scenario-rate-scope"
+                    className={inputClassName}
+                    value={rateForm.property_internal_id}
+                    onChange={(e) => setRateForm({ ...rateForm, property_internal_id: e.target.value })}
+                    disabled={readOnly}
+                  >
+                    <option value="">All properties</option>
+                    {properties.map(p => (
+                      <option key={p.id} value={p.id}>{p.property_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  type="button"
+                  className="px-4 py-2 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700 disabled:opacity-50"
+                  onClick={handleAddRate}
+                  disabled={readOnly}
+                >
+                  Add Rate
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-sm font-medium text-gray-900 mb-2">Discount Strategies</h2>
+            {config.discountStrategies.length === 0 ? (
+              <p className="text-sm text-gray-500">No discount strategies in this scenario.</p>
+            ) : (
+              <table className="min-w-full text-sm" data-testid="scenario-strategies">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-4 font-medium">Active</th>
+                    <th className="py-1 pr-4 font-medium">Strategy</th>
+                    <th className="py-1 pr-4 font-medium">Window (days)</th>
+                    <th className="py-1 pr-4 font-medium">Min %</th>
+                    <th className="py-1 pr-4 font-medium">Max %</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {config.discountStrategies.map(strategy => (
+                    <tr key={strategy.strategy_id} className="border-t border-gray-100">
+                      <td className="py-1 pr-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Activate ${strategy.strategy_name}`}
+                          checked={strategy.is_active}
+                          onChange={(e) => handleStrategyChange(strategy, { is_active: e.target.checked })}
+                          disabled={readOnly}
+                        />
+                      </td>
+                      <td className="py-1 pr-4">{strategy.strategy_name}</td>
+                      <td className="py-1 pr-4">
+                        <input
+                          key={`window-${strategy.activation_window}`}
+                          type="number"
+                          min="1"
+                          aria-label="Activation window"
+                          className={inputClassName}
+                          defaultValue={strategy.activation_window}
+                          onBlur={(e) => Number(e.target.value) !== strategy.activation_window &&
+                            handleStrategyChange(strategy, { activation_window: Number(e.target.value) })}
+                          disabled={readOnly}
+                        />
+                      </td>
+                      <td className="py-1 pr-4">
+                        <input
+                          key={`min-${strategy.min_discount}`}
+                          type="number"
+                          min="0"
+                          max="100"
+                          aria-label="Minimum discount"
+                          className={inputClassName}
+                          defaultValue={Math.round(strategy.min_discount * 100)}
+                          onBlur={(e) => Number(e.target.value) / 100 !== strategy.min_discount &&
+                            handleStrategyChange(strategy, { min_discount: Number(e.target.value) / 100, max_discount: strategy.max_discount })}
+                          disabled={readOnly}
+                        />
+                      </td>
+                      <td className="py-1 pr-4">
+                        <input
+                          key={`max-${strategy.max_discount}`}
+                          type="number"
+                          min="0"
+                          max="100"
+                          aria-label="Maximum discount"
+                          className={inputClassName}
+                          defaultValue={Math.round(strategy.max_discount * 100)}
+                          onBlur={(e) => Number(e.target.value) / 100 !== strategy.max_discount &&
+                            handleStrategyChange(strategy, { min_discount: strategy.min_discount, max_discount: Number(e.target.value) / 100 })}
+                          disabled={readOnly}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -6,11 +6,18 @@
 
 import React from 'react'
 import type { StayLengthSelectorProps } from '@/types/pricing-calendar.types'
+import { LengthOfStayDiscountService } from '@/services/length-of-stay-discount.service'
+
+/**
+ * Format a tier rate as a discount label (0.1 -> "-10%")
+ */
+const formatTierDiscount = (rate: number): string => `-${Math.round(rate * 1000) / 10}%`
 
 const StayLengthSelector: React.FC<StayLengthSelectorProps> = ({
   selectedLength,
   onLengthChange,
   availableLengths = [1, 2, 3, 4, 5, 6, 7, 14, 21, 30],
+  lengthOfStayTiers = [],
   className = ''
 }) => {
   // Standard stay lengths with labels
@@ -27,6 +34,8 @@ const StayLengthSelector: React.FC<StayLengthSelectorProps> = ({
     { nights: 30, label: '1 month' }
   ]
 
+  const selectedTier = LengthOfStayDiscountService.findApplicableTier(lengthOfStayTiers, selectedLength)
+
   // Filter options based on available lengths
   const filteredOptions = stayLengthOptions.filter(option => 
     availableLengths.includes(option.nights)
@@ -40,22 +49,30 @@ const StayLengthSelector: React.FC<StayLengthSelectorProps> = ({
       
       {/* Button group for common stay lengths */}
       <div className="btn-group d-flex flex-wrap gap-1" role="group" aria-label="Stay length selector">
-        {filteredOptions.slice(0, 7).map(({ nights, label }) => (
-          <button
-            key={nights}
-            type="button"
-            className={`btn ${
-              selectedLength === nights 
-                ? 'btn-primary' 
-                : 'btn-outline-primary'
-            } btn-sm`}
-            data-testid={`stay-length-${nights}`}
-            onClick={() => onLengthChange(nights)}
-            aria-pressed={selectedLength === nights}
-          >
-            {label}
-          </button>
-        ))}
+        {filteredOptions.slice(0, 7).map(({ nights, label }) => {
+          const tier = LengthOfStayDiscountService.findApplicableTier(lengthOfStayTiers, nights)
+          return (
+            <button
+              key={nights}
+              type="button"
+              className={`btn ${
+                selectedLength === nights 
+                  ? 'btn-primary' 
+                  : 'btn-outline-primary'
+              } btn-sm`}
+              data-testid={`stay-length-${nights}`}
+              onClick={() => onLengthChange(nights)}
+              aria-pressed={selectedLength === nights}
+            >
+              {label}
+              {tier && (
+                <span className="badge bg-success ms-1" data-testid={`stay-length-discount-${nights}`}>
+                  {formatTierDiscount(tier.discountRate)}
+                </span>
+              )}
+            </button>
+          )
+        })}
       </div>
 
       {/* Dropdown for longer stay options if available */}
@@ -72,11 +89,14 @@ const StayLengthSelector: React.FC<StayLengthSelectorProps> = ({
             }}
           >
             <option value="">Extended stays...</option>
-            {filteredOptions.filter(option => option.nights > 7).map(({ nights, label }) => (
-              <option key={nights} value={nights}>
-                {label}
-              </option>
-            ))}
+            {filteredOptions.filter(option => option.nights > 7).map(({ nights, label }) => {
+              const tier = LengthOfStayDiscountService.findApplicableTier(lengthOfStayTiers, nights)
+              return (
+                <option key={nights} value={nights}>
+                  {label}{tier ? ` (${formatTierDiscount(tier.discountRate)})` : ''}
+                </option>
+              )
+            })}
           </select>
         </div>
       )}
@@ -84,6 +104,11 @@ const StayLengthSelector: React.FC<StayLengthSelectorProps> = ({
       {/* Display current selection */}
       <div className="mt-2 small text-muted">
         Currently showing prices for {selectedLength} night{selectedLength !== 1 ? 's' : ''} stay
+        {selectedTier && (
+          <span className="text-success" data-testid="stay-length-discount-summary">
+            {' '}including {formatTierDiscount(selectedTier.discountRate)} for {selectedTier.minNights}+ nights
+          </span>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useProperties } from '@/hooks/useProperties'
+import {
+  SyncHistoryService,
+  SYNC_HISTORY_LIMITS,
+  type SyncHistoryFilters,
+  type SyncRun,
+  type SyncRerunResult
+} from '@/services/sync-history.service'
+
+interface SyncHistoryProps {
+  selectedRunId?: string
+}
+
+const STATUSES = ['pending', 'processing', 'completed', 'failed', 'dead_letter', 'cancelled']
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  processing: 'bg-blue-100 text-blue-800',
+  pending: 'bg-gray-100 text-gray-800',
+  failed: 'bg-yellow-100 text-yellow-800',
+  dead_letter: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+}
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : '—'
+
+const formatDuration = (ms: number | null) =>
+  ms === null ? '—' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+
+const changeSummaryText = (run: SyncRun) => {
+  const summary = run.change_summary as { summary?: string } | null
+  return summary?.summary ?? null
+}
+
+/**
+ * JSON block with a copy button; long blocks scroll
+ */
+const JsonBlock: React.FC<{ label: string; value: unknown; testId: string }> = ({ label, value, testId }) => {
+  const text = JSON.stringify(value, null, 2)
+
+  return (
+    <div className="mt-4" data-testid={testId}>
+      <div className="flex justify-between items-center mb-1">
+        <h4 className="text-sm font-semibold text-gray-700">{label}</h4>
+        {value !== null && value !== undefined && (
+          <button
+            onClick={() => navigator.clipboard?.writeText(text)}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Copy
+          </button>
+        )}
+      </div>
+      {value === null || value === undefined ? (
+        <p className="text-sm text-gray-500">None recorded</p>
+      ) : (
+        <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs overflow-auto max-h-80">{text}</pre>
+      )}
+    </div>
+  )
+}
+
+/**
+ * History of sync runs (rate pushes and booking imports) with filters and a
+ * detail panel showing what was sent, what Lodgify answered and why a run failed
+ */
+const SyncHistory: React.FC<SyncHistoryProps> = ({ selectedRunId }) => {
+  const navigate = useNavigate()
+  const { properties } = useProperties()
+  const [filters, setFilters] = useState<SyncHistoryFilters>({})
+  const [page, setPage] = useState(0)
+  const [runs, setRuns] = useState<SyncRun[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [triggerSources, setTriggerSources] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [selectedRun, setSelectedRun] = useState<SyncRun | null>(null)
+  const [detailLoading, setDetailLoading] = useState(false)
+  const [rerunning, setRerunning] = useState(false)
+  const [rerunResult, setRerunResult] = useState<SyncRerunResult | null>(null)
+
+  const pageSize = SYNC_HISTORY_LIMITS.DEFAULT_PAGE_SIZE
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await SyncHistoryService.getRuns(filters, { limit: pageSize, offset: page * pageSize })
+      setRuns(result.runs)
+      setTotalCount(result.totalCount)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync history')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page, pageSize])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns])
+
+  useEffect(() => {
+    SyncHistoryService.getTriggerSources()
+      .then(setTriggerSources)
+      .catch(err => console.error('Error loading trigger sources:', err))
+  }, [])
+
+  useEffect(() => {
+    if (!selectedRunId) {
+      setSelectedRun(null)
+      return
+    }
+
+    setDetailLoading(true)
+    setRerunResult(null)
+    SyncHistoryService.getRun(selectedRunId)
+      .then(setSelectedRun)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load sync run'))
+      .finally(() => setDetailLoading(false))
+  }, [selectedRunId])
+
+  const updateFilter = (key: keyof SyncHistoryFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }))
+    setPage(0)
+  }
+
+  const handleRerun = useCallback(async () => {
+    if (!selectedRun) return
+
+    setRerunning(true)
+    setRerunResult(null)
+    try {
+      const result = await SyncHistoryService.rerun(selectedRun.id)
+      setRerunResult(result)
+      await loadRuns()
+    } catch (err) {
+      setRerunResult({ success: false, message: err instanceof Error ? err.message : 'Re-run failed' })
+    } finally {
+      setRerunning(false)
+    }
+  }, [selectedRun, loadRuns])
+
+  const propertyLabel = (run: SyncRun) =>
+    run.properties?.property_name ?? (run.property_id ? run.property_id : 'All properties')
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize))
+
+  return (
+    <div className="max-w-7xl mx-auto" data-testid="sync-history">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Sync History</h2>
+      <p className="text-gray-600 mb-6">
+        Every Lodgify rate sync and booking import, with what was sent and what Lodgify answered.
+      </p>
+
+      <div className="bg-white rounded-lg border border-gray-200 p-4 mb-4 grid grid-cols-1 md:grid-cols-5 gap-3" data-testid="sync-history-filters">
+        <select
+          value={filters.propertyId ?? ''}
+          onChange={(e) => updateFilter('propertyId', e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+          data-testid="filter-property"
+        >
+          <option value="">All properties</option>
+          {properties.map(property => (
+            <option key={property.id} value={property.id}>{property.property_name}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status ?? ''}
+          onChange={(e) => updateFilter('status', e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+          data-testid="filter-status"
+        >
+          <option value="">All statuses</option>
+          {STATUSES.map(status => (
+            <option key={status} value={status}>{status.replace('_', ' ')}</option>
+          ))}
+        </select>
+        <select
+          value={filters.triggerSource ?? ''}
+          onChange={(e) => updateFilter('triggerSource', e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+          data-testid="filter-trigger"
+        >
+          <option value="">All triggers</option>
+          {triggerSources.map(source => (
+            <option key={source} value={source}>{source}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.startDate ?? ''}
+          onChange={(e) => updateFilter('startDate', e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+          aria-label="From date"
+          data-testid="filter-start-date"
+        />
+        <input
+          type="date"
+          value={filters.endDate ?? ''}
+          onChange={(e) => updateFilter('endDate', e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+          aria-label="To date"
+          data-testid="filter-end-date"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          {loading ? (
+            <p className="p-4 text-sm text-gray-500">Loading sync runs...</p>
+          ) : runs.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500" data-testid="sync-history-empty">No sync runs match these filters.</p>
+          ) : (
+            <table className="min-w-full text-sm" data-testid="sync-history-table">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-3 py-2">Started</th>
+                  <th className="px-3 py-2">Property</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr
+                    key={run.id}
+                    onClick={() => navigate(`/sync-history/${run.id}`)}
+                    className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${run.id === selectedRunId ? 'bg-blue-50' : ''}`}
+                    data-testid="sync-run-row"
+                  >
+                    <td className="px-3 py-2 whitespace-nowrap">{formatTime(run.started_at)}</td>
+                    <td className="px-3 py-2">
+                      {propertyLabel(run)}
+                      {changeSummaryText(run) && (
+                        <div className="text-xs text-gray-500">{changeSummaryText(run)}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {run.operation_type}
+                      {run.trigger_source && <div className="text-xs text-gray-500">{run.trigger_source}</div>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[run.status] ?? 'bg-gray-100 text-gray-800'}`}>
+                        {run.status.replace('_', ' ')}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">{formatDuration(run.duration_ms)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex justify-between items-center px-3 py-2 border-t border-gray-200 text-sm text-gray-600">
+            <span>{totalCount.toLocaleString('en-US')} runs</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 0 || loading}
+                className="px-2 py-1 rounded border border-gray-300 disabled:text-gray-300"
+              >
+                Previous
+              </button>
+              <span>Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={page + 1 >= pageCount || loading}
+                className="px-2 py-1 rounded border border-gray-300 disabled:text-gray-300"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-4" data-testid="sync-run-detail">
+          {!selectedRunId ? (
+            <p className="text-sm text-gray-500">Select a run to see its details.</p>
+          ) : detailLoading || !selectedRun ? (
+            <p className="text-sm text-gray-500">Loading run...</p>
+          ) : (
+            <>
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{propertyLabel(selectedRun)}</h3>
+                  <p className="text-xs text-gray-500">{selectedRun.id}</p>
+                </div>
+                <button
+                  onClick={handleRerun}
+                  disabled={rerunning || !SyncHistoryService.canRerun(selectedRun)}
+                  title={SyncHistoryService.canRerun(selectedRun) ? undefined : 'Runs covering all properties or still processing cannot be re-run'}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  data-testid="rerun-sync-button"
+                >
+                  {rerunning ? 'Re-running...' : 'Re-run this sync'}
+                </button>
+              </div>
+
+              {rerunResult && (
+                <div className={`mt-3 p-3 rounded ${rerunResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                  <p className="text-sm">{rerunResult.message}</p>
+                  {rerunResult.syncOperationId && (
+                    <button
+                      onClick={() => navigate(`/sync-history/${rerunResult.syncOperationId}`)}
+                      className="text-xs underline mt-1"
+                    >
+                      View the new run
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 mt-4 text-sm">
+                <dt className="text-gray-500">Status</dt>
+                <dd>{selectedRun.status.replace('_', ' ')}</dd>
+                <dt className="text-gray-500">Type / trigger</dt>
+                <dd>{selectedRun.operation_type} / {selectedRun.trigger_source ?? '—'}</dd>
+                <dt className="text-gray-500">Started</dt>
+                <dd>{formatTime(selectedRun.started_at)}</dd>
+                <dt className="text-gray-500">Completed</dt>
+                <dd>{formatTime(selectedRun.completed_at)}</dd>
+                <dt className="text-gray-500">Duration</dt>
+                <dd>{formatDuration(selectedRun.duration_ms)}</dd>
+                <dt className="text-gray-500">Payload size</dt>
+                <dd>{selectedRun.payload_size_kb !== null ? `${selectedRun.payload_size_kb} KB` : '—'}</dd>
+                <dt className="text-gray-500">API status</dt>
+                <dd data-testid="run-api-status">
+                  {selectedRun.api_status_code ?? '—'}
+                  {selectedRun.api_method && selectedRun.api_endpoint && (
+                    <span className="block text-xs text-gray-500 break-all">
+                      {selectedRun.api_method} {selectedRun.api_endpoint}
+                    </span>
+                  )}
+                </dd>
+                <dt className="text-gray-500">Sync mode</dt>
+                <dd>{selectedRun.sync_mode ?? '—'}</dd>
+                <dt className="text-gray-500">Attempts</dt>
+                <dd>
+                  {selectedRun.retry_count} of {selectedRun.max_retries}
+                  {selectedRun.next_retry_at && (
+                    <span className="block text-xs text-gray-500">Next retry {formatTime(selectedRun.next_retry_at)}</span>
+                  )}
+                </dd>
+              </dl>
+
+              {selectedRun.error_message && (
+                <div className="mt-4 bg-red-50 border border-red-200 rounded p-3">
+                  <p className="text-sm text-red-800">{selectedRun.error_message}</p>
+                </div>
+              )}
+
+              <JsonBlock label="Change summary" value={selectedRun.change_summary} testId="run-change-summary" />
+              <JsonBlock label="Error details" value={selectedRun.error_details} testId="run-error-details" />
+              <JsonBlock label="Payload sent" value={selectedRun.request_payload} testId="run-request-payload" />
+              <JsonBlock label="API response" value={selectedRun.api_response} testId="run-api-response" />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SyncHistory
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { SyncQueueService, type SyncJob } from '@/services/sync-queue.service'
+
+interface SyncJobQueueProps {
+  className?: string
+}
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : '—'
+
+/**
+ * Lodgify property syncs that failed: those waiting for an automatic retry and
+ * those that used up their retries (dead letter), each with a "Retry now" action
+ */
+const SyncJobQueue: React.FC<SyncJobQueueProps> = ({ className = '' }) => {
+  const [scheduled, setScheduled] = useState<SyncJob[]>([])
+  const [deadLetter, setDeadLetter] = useState<SyncJob[]>([])
+  const [loading, setLoading] = useState(true)
+  const [retrying, setRetrying] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const jobs = await SyncQueueService.getJobs()
+      setScheduled(jobs.scheduled)
+      setDeadLetter(jobs.deadLetter)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync jobs')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs])
+
+  const handleRetry = useCallback(async (operationId: string) => {
+    setRetrying(operationId)
+    setError(null)
+
+    try {
+      await SyncQueueService.retryNow(operationId)
+      await loadJobs()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Retry failed')
+    } finally {
+      setRetrying(null)
+    }
+  }, [loadJobs])
+
+  const renderJob = (job: SyncJob, deadLettered: boolean) => (
+    <div
+      key={job.id}
+      className={`mb-2 p-3 rounded ${deadLettered ? 'bg-red-50' : 'bg-yellow-50'}`}
+      data-testid="sync-job"
+    >
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <span className={`font-medium ${deadLettered ? 'text-red-800' : 'text-yellow-800'}`}>
+            {job.properties?.property_name ?? job.property_id}
+          </span>
+          <p className="text-sm text-gray-700 mt-1">{job.error_message ?? 'Unknown error'}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Attempts: {job.retry_count} of {job.max_retries} ·{' '}
+            {deadLettered
+              ? `Gave up ${formatTime(job.completed_at)}`
+              : `Next retry ${formatTime(job.next_retry_at)}`}
+          </p>
+        </div>
+        <button
+          onClick={() => handleRetry(job.id)}
+          disabled={retrying !== null}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed whitespace-nowrap"
+          data-testid="retry-now-button"
+        >
+          {retrying === job.id ? 'Retrying...' : 'Retry now'}
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`} data-testid="sync-job-queue">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">Sync Queue</h3>
+        <button
+          onClick={loadJobs}
+          disabled={loading}
+          className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Failed property syncs are retried automatically with increasing delays. Syncs that keep
+        failing stop retrying and wait here until retried by hand.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading sync jobs...</p>
+      ) : scheduled.length === 0 && deadLetter.length === 0 ? (
+        <p className="text-sm text-gray-500" data-testid="sync-queue-empty">No failed syncs.</p>
+      ) : (
+        <>
+          {deadLetter.length > 0 && (
+            <div className="mb-4" data-testid="dead-letter-jobs">
+              <h4 className="text-sm font-semibold text-red-800 mb-2">
+                Retries exhausted ({deadLetter.length})
+              </h4>
+              {deadLetter.map(job => renderJob(job, true))}
+            </div>
+          )}
+          {scheduled.length > 0 && (
+            <div data-testid="scheduled-jobs">
+              <h4 className="text-sm font-semibold text-yellow-800 mb-2">
+                Retry scheduled ({scheduled.length})
+              </h4>
+              {scheduled.map(job => renderJob(job, false))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default SyncJobQueue
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import DiscountCurveChart from './DiscountCurveChart';
+import { DiscountCurveTemplateService } from '../../services/discount-curve-template.service';
+import { parseCurvePoints, sampleCurve, sampleEarlyBirdCurve } from '../../utils/ruleTemplates';
+import type { CurvePoint, CurveInterpolation } from '../../types/database';
+import type { DiscountCurveTemplate } from '../../types/database.types';
+import './CurveEditor.css';
+
+interface CurveEditorProps {
+  points: CurvePoint[];
+  interpolation: CurveInterpolation;
+  onPointsChange: (points: CurvePoint[]) => void;
+  onInterpolationChange: (interpolation: CurveInterpolation) => void;
+  activationWindow: number;
+  isEarlyBird?: boolean;
+  error?: string;
+}
+
+const CurveEditor: React.FC<CurveEditorProps> = ({
+  points,
+  interpolation,
+  onPointsChange,
+  onInterpolationChange,
+  activationWindow,
+  isEarlyBird = false,
+  error
+}) => {
+  const [templates, setTemplates] = useState<DiscountCurveTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await DiscountCurveTemplateService.getTemplates());
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : 'Failed to load curve templates');
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  // Early-bird thresholds run out from the minimum lead time
+  const maxDays = isEarlyBird
+    ? Math.max(365, ...points.map(point => point.days))
+    : activationWindow;
+  const series = isEarlyBird
+    ? sampleEarlyBirdCurve(points, maxDays)
+    : sampleCurve({
+      curveType: 'custom',
+      activationWindow,
+      minDiscount: 0,
+      maxDiscount: 0,
+      points,
+      interpolation
+    });
+
+  const handlePointChange = (index: number, field: keyof CurvePoint, value: number) => {
+    onPointsChange(points.map((point, i) => (i === index ? { ...point, [field]: value } : point)));
+  };
+
+  const handleAddPoint = () => {
+    const lastDay = points.reduce((max, point) => Math.max(max, point.days), 0);
+    const days = isEarlyBird ? lastDay + 30 : Math.min(lastDay + 1, activationWindow);
+    if (points.some(point => point.days === days)) return;
+    onPointsChange([...points, { days, discount: 0.1 }]);
+  };
+
+  const handleLoadTemplate = () => {
+    const template = templates.find(t => t.template_id === selectedTemplateId);
+    if (!template) return;
+
+    onPointsChange(parseCurvePoints(template.curve_points));
+    onInterpolationChange(template.curve_interpolation as CurveInterpolation);
+    setTemplateName(template.template_name);
+  };
+
+  const handleSaveTemplate = async () => {
+    setSavingTemplate(true);
+    setTemplateError(null);
+    try {
+      const saved = await DiscountCurveTemplateService.saveTemplate(templateName, points, interpolation);
+      await loadTemplates();
+      setSelectedTemplateId(saved.template_id);
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : 'Failed to save curve template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    const template = templates.find(t => t.template_id === selectedTemplateId);
+    if (!template || !window.confirm(`Delete the "${template.template_name}" curve template?`)) return;
+
+    setTemplateError(null);
+    try {
+      await DiscountCurveTemplateService.deleteTemplate(template.template_id);
+      setSelectedTemplateId('');
+      await loadTemplates();
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : 'Failed to delete curve template');
+    }
+  };
+
+  return (
+    <div className="curve-editor">
+      <div className="curve-editor-header">
+        <h4>Custom Curve</h4>
+        {!isEarlyBird && (
+          <select
+            value={interpolation}
+            onChange={(e) => onInterpolationChange(e.target.value as CurveInterpolation)}
+            className="template-select"
+          >
+            <option value="linear">Linear (straight lines between points)</option>
+            <option value="stepped">Stepped (hold each point's discount)</option>
+          </select>
+        )}
+      </div>
+
+      <DiscountCurveChart
+        series={series}
+        maxDays={maxDays}
+        points={points}
+        editable
+        onPointsChange={onPointsChange}
+      />
+      <p className="curve-editor-hint">
+        Click the chart to add a point, drag a point to move it, double-click a point to remove it.
+        Prices follow the rules below, so generate them from the curve once it is drawn.
+        {isEarlyBird && ' Each point is a lead time threshold, as early-bird rules are.'}
+      </p>
+
+      <div className="curve-points">
+        {points.map((point, index) => (
+          <div key={index} className="curve-point-row">
+            <label>
+              Days
+              <input
+                type="number"
+                min="0"
+                max="365"
+                value={point.days}
+                onChange={(e) => handlePointChange(index, 'days', parseInt(e.target.value) || 0)}
+                className="steps-input"
+              />
+            </label>
+            <label>
+              Discount
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.01"
+                value={point.discount}
+                onChange={(e) => handlePointChange(index, 'discount', parseFloat(e.target.value) || 0)}
+                className="steps-input"
+              />
+              <span className="percentage-display">{(point.discount * 100).toFixed(1)}%</span>
+            </label>
+            <button
+              type="button"
+              onClick={() => onPointsChange(points.filter((_, i) => i !== index))}
+              className="rule-action-button rule-action-remove"
+              title="Remove point"
+              disabled={points.length <= 2}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button type="button" onClick={handleAddPoint} className="btn btn-secondary">
+          + Add Point
+        </button>
+      </div>
+
+      {error && <div className="rules-error">{error}</div>}
+
+      <div className="curve-templates">
+        <select
+          value={selectedTemplateId}
+          onChange={(e) => setSelectedTemplateId(e.target.value)}
+          className="template-select"
+        >
+          <option value="">Saved curves...</option>
+          {templates.map(template => (
+            <option key={template.template_id} value={template.template_id}>
+              {template.template_name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleLoadTemplate}
+          className="btn btn-secondary"
+          disabled={!selectedTemplateId}
+        >
+          Load
+        </button>
+        <button
+          type="button"
+          onClick={handleDeleteTemplate}
+          className="btn btn-danger"
+          disabled={!selectedTemplateId}
+        >
+          Delete
+        </button>
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder="Template name"
+          className="curve-template-name"
+        />
+        <button
+          type="button"
+          onClick={handleSaveTemplate}
+          className="btn btn-primary"
+          disabled={savingTemplate || !templateName.trim() || points.length < 2}
+        >
+          {savingTemplate ? 'Saving...' : 'Save as Template'}
+        </button>
+      </div>
+      {templateError && <div className="rules-error">{templateError}</div>}
+    </div>
+  );
+};
+
+export default CurveEditor;
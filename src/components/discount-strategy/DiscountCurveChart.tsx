@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import type { CurvePoint } from '../../types/database';
+import type { RuleTemplate } from '../../utils/ruleTemplates';
+import './DiscountCurveChart.css';
+
+interface DiscountCurveChartProps {
+  // The curve as drawn, ascending by days
+  series: RuleTemplate[];
+  maxDays: number;
+  // Control points of a custom curve, drawn as handles
+  points?: CurvePoint[];
+  editable?: boolean;
+  onPointsChange?: (points: CurvePoint[]) => void;
+  // Lead time to highlight, e.g. the previewed check-in date
+  markerDays?: number | null;
+  height?: number;
+}
+
+const WIDTH = 400;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 40 };
+
+const DiscountCurveChart: React.FC<DiscountCurveChartProps> = ({
+  series,
+  maxDays,
+  points = [],
+  editable = false,
+  onPointsChange,
+  markerDays = null,
+  height = 200
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const dayRange = Math.max(maxDays, 1);
+  // Round the top of the axis up to the next 10%
+  const peak = Math.max(0.1, ...series.map(s => s.discount), ...points.map(p => p.discount));
+  const discountRange = Math.min(1, Math.ceil(peak * 10) / 10);
+
+  // Days run right to left so check-in sits at the right edge
+  const toX = (days: number) => PADDING.left + plotWidth * (1 - Math.min(days, dayRange) / dayRange);
+  const toY = (discount: number) => PADDING.top + plotHeight * (1 - discount / discountRange);
+
+  const fromEvent = (event: React.PointerEvent | React.MouseEvent): CurvePoint | null => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+
+    const rect = svg.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const y = ((event.clientY - rect.top) / rect.height) * height;
+    const days = Math.round((1 - (x - PADDING.left) / plotWidth) * dayRange);
+    const discount = Math.round((1 - (y - PADDING.top) / plotHeight) * discountRange * 200) / 200;
+
+    return {
+      days: Math.max(0, Math.min(dayRange, days)),
+      discount: Math.max(0, Math.min(1, discount))
+    };
+  };
+
+  const handlePlotClick = (event: React.MouseEvent) => {
+    if (!editable || !onPointsChange) return;
+    const point = fromEvent(event);
+    if (!point || points.some(p => p.days === point.days)) return;
+
+    onPointsChange([...points, point].sort((a, b) => a.days - b.days));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragIndex === null || !onPointsChange) return;
+    const point = fromEvent(event);
+    // Two points can't share a day
+    if (!point || points.some((p, i) => i !== dragIndex && p.days === point.days)) return;
+
+    onPointsChange(points.map((p, i) => (i === dragIndex ? point : p)));
+  };
+
+  const handlePointerUp = () => {
+    if (dragIndex === null || !onPointsChange) return;
+    setDragIndex(null);
+    onPointsChange([...points].sort((a, b) => a.days - b.days));
+  };
+
+  const handleRemovePoint = (index: number) => {
+    if (!onPointsChange || points.length <= 2) return;
+    onPointsChange(points.filter((_, i) => i !== index));
+  };
+
+  const path = series
+    .map((s, i) => `${i === 0 ? 'M' : 'L'} ${toX(s.days).toFixed(1)} ${toY(s.discount).toFixed(1)}`)
+    .join(' ');
+  const yTicks = [0, discountRange / 2, discountRange];
+  const xTicks = [dayRange, Math.round(dayRange / 2), 0];
+
+  return (
+    <svg
+      ref={svgRef}
+      className={`discount-curve-chart ${editable ? 'discount-curve-chart-editable' : ''}`}
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+      role="img"
+      aria-label="Discount by days before check-in"
+    >
+      <rect
+        className="curve-plot-area"
+        x={PADDING.left}
+        y={PADDING.top}
+        width={plotWidth}
+        height={plotHeight}
+        onClick={handlePlotClick}
+      />
+
+      {yTicks.map(tick => (
+        <g key={`y-${tick}`}>
+          <line className="curve-grid-line" x1={PADDING.left} x2={WIDTH - PADDING.right} y1={toY(tick)} y2={toY(tick)} />
+          <text className="curve-axis-label" x={PADDING.left - 6} y={toY(tick) + 4} textAnchor="end">
+            {Math.round(tick * 100)}%
+          </text>
+        </g>
+      ))}
+      {xTicks.map(tick => (
+        <text key={`x-${tick}`} className="curve-axis-label" x={toX(tick)} y={height - 8} textAnchor="middle">
+          {tick}d
+        </text>
+      ))}
+
+      {path && <path className="curve-line" d={path} />}
+
+      {markerDays !== null && markerDays >= 0 && markerDays <= dayRange && (
+        <line
+          className="curve-marker"
+          x1={toX(markerDays)}
+          x2={toX(markerDays)}
+          y1={PADDING.top}
+          y2={PADDING.top + plotHeight}
+        />
+      )}
+
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          className={`curve-point ${dragIndex === index ? 'curve-point-active' : ''}`}
+          cx={toX(point.days)}
+          cy={toY(point.discount)}
+          r={editable ? 6 : 4}
+          onPointerDown={(e) => {
+            if (!editable) return;
+            e.preventDefault();
+            setDragIndex(index);
+          }}
+          onDoubleClick={() => editable && handleRemovePoint(index)}
+        >
+          <title>{point.days} days: {(point.discount * 100).toFixed(1)}%</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default DiscountCurveChart;
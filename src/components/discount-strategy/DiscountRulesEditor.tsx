@@ -1,14 +1,17 @@
 import React, { useState } from 'react';
-import { useFieldArray, Control, FieldErrors, UseFormWatch } from 'react-hook-form';
+import { useFieldArray, Controller, Control, FieldErrors, UseFormWatch } from 'react-hook-form';
 import { DiscountStrategyFormData } from '../../schemas/discountStrategySchema';
 import RuleItem from './RuleItem';
+import CurveEditor from './CurveEditor';
 import { 
   generateRulesByCurveType, 
   generateLinearDiscountRules,
   generateExponentialDiscountRules,
+  generateEarlyBirdRules,
   mergeRules,
   CurveType 
 } from '../../utils/ruleTemplates';
+import type { CurvePoint, CurveInterpolation } from '../../types/database';
 import './DiscountRulesEditor.css';
 
 interface DiscountRulesEditorProps {
@@ -38,10 +41,17 @@ const DiscountRulesEditor: React.FC<DiscountRulesEditorProps> = ({
   const minDiscount = watch('min_discount') || 0.05;
   const maxDiscount = watch('max_discount') || 0.30;
   const curveType = watch('curve_type') || 'moderate';
+  const isEarlyBird = watch('strategy_type') === 'early_bird';
+  const curvePoints = (watch('curve_points') ?? []) as CurvePoint[];
+  const curveInterpolation = (watch('curve_interpolation') ?? 'linear') as CurveInterpolation;
+  const isCustomCurve = curveType === 'custom';
 
   const handleAddRule = () => {
     const newRule = {
-      days_before_checkin: Math.min(fields.length + 1, activationWindow),
+      // Early-bird rules are thresholds from the minimum lead time outwards
+      days_before_checkin: isEarlyBird
+        ? activationWindow + fields.length * 30
+        : Math.min(fields.length + 1, activationWindow),
       discount_percentage: Math.min(maxDiscount, Math.max(minDiscount, 0.10)),
       min_nights: null,
       applicable_days: null
@@ -77,14 +87,18 @@ const DiscountRulesEditor: React.FC<DiscountRulesEditorProps> = ({
   const handleGenerateFromTemplate = () => {
     let newRules;
     
-    switch (templateType) {
+    // Early-bird strategies only have the curve template
+    switch (isEarlyBird ? 'curve' : templateType) {
       case 'curve':
-        newRules = generateRulesByCurveType(
-          curveType as CurveType,
-          activationWindow,
-          minDiscount,
-          maxDiscount
-        );
+        newRules = isEarlyBird
+          ? generateEarlyBirdRules(curveType as CurveType, activationWindow, minDiscount, maxDiscount, 4, 30, curvePoints)
+          : generateRulesByCurveType(
+            curveType as CurveType,
+            activationWindow,
+            minDiscount,
+            maxDiscount,
+            { points: curvePoints, interpolation: curveInterpolation }
+          );
         break;
       case 'linear':
         newRules = generateLinearDiscountRules(
@@ -155,16 +169,16 @@ const DiscountRulesEditor: React.FC<DiscountRulesEditorProps> = ({
           
           <div className="template-generator">
             <select
-              value={templateType}
+              value={isEarlyBird ? 'curve' : templateType}
               onChange={(e) => setTemplateType(e.target.value as any)}
               className="template-select"
             >
               <option value="curve">Curve Template ({curveType})</option>
-              <option value="linear">Linear Progression</option>
-              <option value="exponential">Exponential Curve</option>
+              {!isEarlyBird && <option value="linear">Linear Progression</option>}
+              {!isEarlyBird && <option value="exponential">Exponential Curve</option>}
             </select>
             
-            {(templateType === 'linear' || templateType === 'exponential') && (
+            {!isEarlyBird && (templateType === 'linear' || templateType === 'exponential') && (
               <input
                 type="number"
                 min="2"
@@ -180,7 +194,7 @@ const DiscountRulesEditor: React.FC<DiscountRulesEditorProps> = ({
               type="button"
               onClick={handleGenerateFromTemplate}
               className="btn btn-secondary"
-              disabled={activationWindow <= 0}
+              disabled={activationWindow <= 0 || (isCustomCurve && curvePoints.length < 2)}
             >
               Generate from Template
             </button>
@@ -198,12 +212,37 @@ const DiscountRulesEditor: React.FC<DiscountRulesEditorProps> = ({
         </div>
       </div>
       
+      {isCustomCurve && (
+        <Controller
+          name="curve_points"
+          control={control}
+          render={({ field: pointsField, fieldState }) => (
+            <Controller
+              name="curve_interpolation"
+              control={control}
+              render={({ field: interpolationField }) => (
+                <CurveEditor
+                  points={(pointsField.value ?? []) as CurvePoint[]}
+                  interpolation={(interpolationField.value ?? 'linear') as CurveInterpolation}
+                  onPointsChange={pointsField.onChange}
+                  onInterpolationChange={interpolationField.onChange}
+                  activationWindow={activationWindow}
+                  isEarlyBird={isEarlyBird}
+                  error={fieldState.error?.message}
+                />
+              )}
+            />
+          )}
+        />
+      )}
+      
       {fields.length === 0 ? (
         <div className="rules-empty-state">
           <p>No discount rules defined yet.</p>
           <p className="rules-empty-hint">
-            Add rules individually or generate them from a template to define 
-            how discounts change based on days before check-in.
+            {isEarlyBird
+              ? 'Add rules individually or generate them from a template. Each rule gives its discount to bookings made at least that many days before check-in.'
+              : 'Add rules individually or generate them from a template to define how discounts change based on days before check-in.'}
           </p>
         </div>
       ) : (
@@ -218,6 +257,7 @@ const DiscountRulesEditor: React.FC<DiscountRulesEditorProps> = ({
               onMoveDown={handleMoveDown}
               error={errors.discount_rules?.[index] as any}
               activationWindow={activationWindow}
+              isEarlyBird={isEarlyBird}
               isFirst={index === 0}
               isLast={index === fields.length - 1}
             />
@@ -236,11 +276,16 @@ const DiscountRulesEditor: React.FC<DiscountRulesEditorProps> = ({
           <p className="rules-count">
             {fields.length} rule{fields.length !== 1 ? 's' : ''} defined
           </p>
-          {activationWindow && fields.some(f => f.days_before_checkin > activationWindow) && (
+          {activationWindow && !isEarlyBird && fields.some(f => f.days_before_checkin > activationWindow) && (
             <p className="rules-warning">
               Warning: Some rules exceed the activation window of {activationWindow} days
             </p>
           )}
+          {activationWindow && isEarlyBird && fields.some(f => f.days_before_checkin < activationWindow) && (
+            <p className="rules-warning">
+              Warning: Some rules are below the minimum lead time of {activationWindow} days
+            </p>
+          )}
         </div>
       )}
     </div>
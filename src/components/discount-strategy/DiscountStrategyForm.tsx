@@ -10,6 +10,8 @@ import PropertySelection from '../PropertySelection/PropertySelection';
 import DiscountRulesEditor from './DiscountRulesEditor';
 import PricingPreview from './PricingPreview';
 import type { DiscountStrategy, DiscountRule, Property } from '../../types/database.types';
+import type { DiscountStrategyType, CurvePoint, CurveInterpolation } from '../../types/database';
+import type { CurveType } from '../../utils/ruleTemplates';
 import './DiscountStrategyForm.css';
 
 interface DiscountStrategyFormProps {
@@ -44,10 +46,13 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
     defaultValues: existingStrategy ? {
       strategy_name: existingStrategy.strategy_name,
       property_internal_id: existingStrategy.property_internal_id,
+      strategy_type: existingStrategy.strategy_type as DiscountStrategyType,
       activation_window: existingStrategy.activation_window,
       min_discount: existingStrategy.min_discount,
       max_discount: existingStrategy.max_discount,
-      curve_type: existingStrategy.curve_type as 'aggressive' | 'moderate' | 'gentle',
+      curve_type: existingStrategy.curve_type as CurveType,
+      curve_points: (existingStrategy.curve_points as CurvePoint[] | null) ?? null,
+      curve_interpolation: (existingStrategy.curve_interpolation as CurveInterpolation | null) ?? 'linear',
       is_active: existingStrategy.is_active,
       valid_from: existingStrategy.valid_from,
       valid_until: existingStrategy.valid_until,
@@ -55,10 +60,13 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
     } : {
       strategy_name: '',
       property_internal_id: selectedProperty?.id || null,
+      strategy_type: 'last_minute',
       activation_window: 14,
       min_discount: 0.05,
       max_discount: 0.30,
       curve_type: 'moderate',
+      curve_points: null,
+      curve_interpolation: 'linear',
       is_active: true,
       valid_from: null,
       valid_until: null,
@@ -77,6 +85,14 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
 
   const watchedPropertyId = watch('property_internal_id');
   const watchedRules = watch('discount_rules');
+  const watchedStrategyType = watch('strategy_type');
+  const isEarlyBird = watchedStrategyType === 'early_bird';
+  const watchedActivationWindow = watch('activation_window');
+  const watchedMinDiscount = watch('min_discount');
+  const watchedMaxDiscount = watch('max_discount');
+  const watchedCurveType = watch('curve_type');
+  const watchedCurvePoints = watch('curve_points');
+  const watchedCurveInterpolation = watch('curve_interpolation');
 
   // Update preview when form changes
   useEffect(() => {
@@ -97,10 +113,10 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
       // Use lodgify_property_id for the database function
       const targetPropertyId = properties.find(p => p.id === propertyId)?.lodgify_property_id;
       if (targetPropertyId) {
-        calculatePreview(targetPropertyId, previewDate, previewNights, mappedRules);
+        calculatePreview(targetPropertyId, previewDate, previewNights, mappedRules, watchedStrategyType);
       }
     }
-  }, [watchedPropertyId, watchedRules, previewDate, previewNights, properties, selectedProperty]);
+  }, [watchedPropertyId, watchedRules, watchedStrategyType, previewDate, previewNights, properties, selectedProperty]);
 
   const onSubmit = async (data: DiscountStrategyFormData) => {
     try {
@@ -125,10 +141,13 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
       reset({
         strategy_name: existingStrategy.strategy_name,
         property_internal_id: existingStrategy.property_internal_id,
+        strategy_type: existingStrategy.strategy_type as DiscountStrategyType,
         activation_window: existingStrategy.activation_window,
         min_discount: existingStrategy.min_discount,
         max_discount: existingStrategy.max_discount,
-        curve_type: existingStrategy.curve_type as 'aggressive' | 'moderate' | 'gentle',
+        curve_type: existingStrategy.curve_type as CurveType,
+        curve_points: (existingStrategy.curve_points as CurvePoint[] | null) ?? null,
+        curve_interpolation: (existingStrategy.curve_interpolation as CurveInterpolation | null) ?? 'linear',
         is_active: existingStrategy.is_active,
         valid_from: existingStrategy.valid_from,
         valid_until: existingStrategy.valid_until,
@@ -168,10 +187,10 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
       
       const targetPropertyId = properties.find(p => p.id === propertyId)?.lodgify_property_id;
       if (targetPropertyId) {
-        calculatePreview(targetPropertyId, previewDate, previewNights, mappedRules);
+        calculatePreview(targetPropertyId, previewDate, previewNights, mappedRules, watchedStrategyType);
       }
     }
-  }, [watchedPropertyId, watchedRules, previewDate, previewNights, properties, selectedProperty, calculatePreview]);
+  }, [watchedPropertyId, watchedRules, watchedStrategyType, previewDate, previewNights, properties, selectedProperty, calculatePreview]);
 
   const isLoading = externalLoading || strategyLoading || propertiesLoading;
   const errorMessage = externalError || strategyError;
@@ -232,19 +251,47 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
                     <PropertySelection
                       value={field.value ?? null}
                       onChange={(propertyId) => field.onChange(propertyId)}
-                      placeholder="Select property or create global template..."
+                      placeholder={isEarlyBird ? 'Select property...' : 'Select property or create global template...'}
                       disabled={propertiesLoading}
                       error={errors.property_internal_id?.message}
                       variant="enhanced"
-                      showGlobalTemplate={true}
+                      showGlobalTemplate={!isEarlyBird}
                     />
                   )}
                 />
               </div>
 
+              <div className="form-group">
+                <label htmlFor="strategy_type">Strategy Type *</label>
+                <Controller
+                  name="strategy_type"
+                  control={control}
+                  render={({ field, fieldState }) => (
+                    <>
+                      <select
+                        {...field}
+                        className={`form-input ${fieldState.error ? 'form-input-error' : ''}`}
+                      >
+                        <option value="last_minute">Last minute (close to check-in)</option>
+                        <option value="early_bird">Early bird (booked well ahead)</option>
+                      </select>
+                      {fieldState.error && (
+                        <span className="form-error">{fieldState.error.message}</span>
+                      )}
+                      <span className="form-hint">
+                        Last-minute and early-bird discounts never combine: when both apply to a night,
+                        only the larger one is given
+                      </span>
+                    </>
+                  )}
+                />
+              </div>
+
               <div className="form-row">
                 <div className="form-group">
-                  <label htmlFor="activation_window">Activation Window (days) *</label>
+                  <label htmlFor="activation_window">
+                    {isEarlyBird ? 'Minimum Lead Time (days) *' : 'Activation Window (days) *'}
+                  </label>
                   <Controller
                     name="activation_window"
                     control={control}
@@ -256,13 +303,15 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
                           min="1"
                           max="365"
                           className={`form-input ${fieldState.error ? 'form-input-error' : ''}`}
-                          placeholder="e.g., 14"
+                          placeholder={isEarlyBird ? 'e.g., 120' : 'e.g., 14'}
                         />
                         {fieldState.error && (
                           <span className="form-error">{fieldState.error.message}</span>
                         )}
                         <span className="form-hint">
-                          Discounts apply within {field.value || 0} days of check-in
+                          {isEarlyBird
+                            ? `Discounts apply to bookings made ${field.value || 0} or more days before check-in`
+                            : `Discounts apply within ${field.value || 0} days of check-in`}
                         </span>
                       </>
                     )}
@@ -283,6 +332,7 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
                           <option value="aggressive">Aggressive (Steeper discounts)</option>
                           <option value="moderate">Moderate (Balanced)</option>
                           <option value="gentle">Gentle (Conservative)</option>
+                          <option value="custom">Custom (Draw your own)</option>
                         </select>
                         {fieldState.error && (
                           <span className="form-error">{fieldState.error.message}</span>
@@ -399,6 +449,16 @@ const DiscountStrategyForm: React.FC<DiscountStrategyFormProps> = ({
               onNightsChange={handlePreviewNightsChange}
               initialDate={previewDate}
               initialNights={previewNights}
+              strategyType={watchedStrategyType as DiscountStrategyType}
+              curve={{
+                curveType: (watchedCurveType || 'moderate') as CurveType,
+                activationWindow: watchedActivationWindow || 0,
+                minDiscount: watchedMinDiscount || 0,
+                maxDiscount: watchedMaxDiscount || 0,
+                points: watchedCurvePoints as CurvePoint[] | null | undefined,
+                interpolation: (watchedCurveInterpolation as CurveInterpolation | null | undefined) ?? 'linear'
+              }}
+              rules={watchedRules}
             />
           </div>
         </div>
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import DatePicker from 'react-datepicker';
 import "react-datepicker/dist/react-datepicker.css";
 import { PricePreview } from '../../hooks/usePricingPreview';
+import DiscountCurveChart from './DiscountCurveChart';
+import { sampleCurve, sampleEarlyBirdCurve, CurveDefinition } from '../../utils/ruleTemplates';
+import type { DiscountStrategyType } from '../../types/database';
 import './PricingPreview.css';
 
 interface PricingPreviewProps {
@@ -12,6 +15,9 @@ interface PricingPreviewProps {
   onNightsChange: (nights: number) => void;
   initialDate?: Date;
   initialNights?: number;
+  strategyType?: DiscountStrategyType;
+  curve?: CurveDefinition;
+  rules?: { days_before_checkin: number; discount_percentage: number }[];
 }
 
 const PricingPreview: React.FC<PricingPreviewProps> = ({
@@ -21,7 +27,10 @@ const PricingPreview: React.FC<PricingPreviewProps> = ({
   onDateChange,
   onNightsChange,
   initialDate = new Date(),
-  initialNights = 3
+  initialNights = 3,
+  strategyType = 'last_minute',
+  curve,
+  rules = []
 }) => {
   const [checkDate, setCheckDate] = useState(initialDate);
   const [nights, setNights] = useState(initialNights);
@@ -47,6 +56,16 @@ const PricingPreview: React.FC<PricingPreviewProps> = ({
     return `${(value * 100).toFixed(1)}%`;
   };
 
+  // The curve as designed, with the rules that actually price drawn as points
+  const rulePoints = rules.map(rule => ({ days: rule.days_before_checkin, discount: rule.discount_percentage }));
+  const isEarlyBird = strategyType === 'early_bird';
+  const chartMaxDays = isEarlyBird
+    ? Math.max(365, ...rulePoints.map(point => point.days))
+    : curve?.activationWindow ?? 0;
+  const chartSeries = isEarlyBird
+    ? sampleEarlyBirdCurve(rulePoints, chartMaxDays)
+    : curve && curve.activationWindow > 0 ? sampleCurve(curve) : [];
+
   return (
     <div className="pricing-preview">
       <div className="preview-header">
@@ -76,6 +95,18 @@ const PricingPreview: React.FC<PricingPreviewProps> = ({
         </div>
       </div>
 
+      {(chartSeries.length > 0 || rulePoints.length > 0) && chartMaxDays > 0 && (
+        <div className="preview-curve">
+          <DiscountCurveChart
+            series={chartSeries}
+            maxDays={chartMaxDays}
+            points={rulePoints}
+            markerDays={previewData?.daysBeforeCheckin ?? null}
+            height={160}
+          />
+        </div>
+      )}
+
       <div className="preview-content">
         {loading && (
           <div className="preview-loading">
@@ -147,6 +178,24 @@ const PricingPreview: React.FC<PricingPreviewProps> = ({
               </div>
             </div>
 
+            {previewData.ruleEvaluations.length > 0 && (
+              <div className="preview-rules">
+                <p className="preview-rules-title">
+                  Rules for {previewData.calculationDate.toLocaleDateString('en-GB', { weekday: 'long' })}, {nights} night{nights !== 1 ? 's' : ''}
+                </p>
+                <ul>
+                  {previewData.ruleEvaluations.map(evaluation => (
+                    <li
+                      key={`${evaluation.rule.days_before_checkin}-${evaluation.rule.discount_percentage}`}
+                      className={`preview-rule preview-rule-${evaluation.status}`}
+                    >
+                      {evaluation.explanation}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {previewData.discountAmount > 0 && (
               <div className="preview-savings">
                 <div className="savings-icon">💰</div>
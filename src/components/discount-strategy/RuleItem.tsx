@@ -1,8 +1,19 @@
 import React from 'react';
 import { Controller, Control, FieldError } from 'react-hook-form';
 import { DiscountStrategyFormData } from '../../schemas/discountStrategySchema';
+import { parseApplicableDays } from '../../utils/discountRuleEligibility';
 import './RuleItem.css';
 
+const WEEKDAY_OPTIONS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' }
+];
+
 interface RuleItemProps {
   index: number;
   control: Control<DiscountStrategyFormData>;
@@ -11,6 +22,7 @@ interface RuleItemProps {
   onMoveDown?: (index: number) => void;
   error?: FieldError;
   activationWindow: number;
+  isEarlyBird?: boolean;
   isFirst: boolean;
   isLast: boolean;
 }
@@ -23,6 +35,7 @@ const RuleItem: React.FC<RuleItemProps> = ({
   onMoveDown,
   error,
   activationWindow,
+  isEarlyBird = false,
   isFirst,
   isLast
 }) => {
@@ -75,8 +88,8 @@ const RuleItem: React.FC<RuleItemProps> = ({
                 <input
                   {...field}
                   type="number"
-                  min="0"
-                  max={activationWindow}
+                  min={isEarlyBird ? activationWindow : 0}
+                  max={isEarlyBird ? undefined : activationWindow}
                   className={`rule-input ${fieldState.error ? 'rule-input-error' : ''}`}
                   placeholder="e.g., 7"
                 />
@@ -151,6 +164,41 @@ const RuleItem: React.FC<RuleItemProps> = ({
             )}
           />
         </div>
+
+        <div className="rule-field rule-field-days">
+          <span className="rule-field-label">Discounted Weekdays (Optional)</span>
+          <Controller
+            control={control}
+            name={`discount_rules.${index}.applicable_days`}
+            render={({ field }) => {
+              const selectedDays = parseApplicableDays(field.value) ?? [];
+              return (
+                <>
+                  <div className="rule-days">
+                    {WEEKDAY_OPTIONS.map(({ day, label }) => (
+                      <label key={day} className="rule-day">
+                        <input
+                          type="checkbox"
+                          checked={selectedDays.includes(day)}
+                          onChange={(e) => {
+                            const days = e.target.checked
+                              ? [...selectedDays, day].sort((a, b) => a - b)
+                              : selectedDays.filter(d => d !== day);
+                            field.onChange(days.length > 0 ? days : null);
+                          }}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <span className="rule-field-hint">
+                    {selectedDays.length > 0 ? 'Only nights on the ticked days are discounted' : 'Every night'}
+                  </span>
+                </>
+              );
+            }}
+          />
+        </div>
       </div>
       
       {error && (
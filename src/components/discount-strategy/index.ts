@@ -2,4 +2,6 @@ export { default as DiscountStrategyForm } from './DiscountStrategyForm';
 export { default as DiscountRulesEditor } from './DiscountRulesEditor';
 // DiscountPropertySelector removed - consolidated into PropertySelection component
 export { default as PricingPreview } from './PricingPreview';
-export { default as RuleItem } from './RuleItem';
\ No newline at end of file
+export { default as RuleItem } from './RuleItem';
+export { default as CurveEditor } from './CurveEditor';
+export { default as DiscountCurveChart } from './DiscountCurveChart';
\ No newline at end of file
@@ -13,13 +13,14 @@ import React, { useState, useCallback, useEffect } from 'react'
 import { Controller, Control, FieldError } from 'react-hook-form'
 import { priceSchema, priceStringSchema, formatValidationError } from '../../lib/validation'
 import { normalizePriceString, formatPriceForDisplay, debounce } from '../../utils/validationHelpers'
+import { currencySymbol, DEFAULT_CURRENCY } from '../../utils/currency'
 
 interface PriceInputProps {
   name: string
   control: Control<any>
   label?: string
   placeholder?: string
-  currency?: string
+  currency?: string  // ISO 4217 code of the property, e.g. "EUR"
   disabled?: boolean
   className?: string
   required?: boolean
@@ -47,7 +48,7 @@ export const PriceInput: React.FC<PriceInputProps> = ({
   control,
   label,
   placeholder = "0.00",
-  currency = "$",
+  currency = DEFAULT_CURRENCY,
   disabled = false,
   className = "",
   required = false,
@@ -228,7 +229,7 @@ export const PriceInput: React.FC<PriceInputProps> = ({
               {/* Currency symbol */}
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <span className={`text-sm ${error ? 'text-red-500' : 'text-gray-500'}`}>
-                  {currency}
+                  {currencySymbol(currency)}
                 </span>
               </div>
               
@@ -1,6 +1,7 @@
 /**
  * SeasonalRateCalendar - Visual calendar representation of seasonal periods
  * Shows seasonal rates as colored blocks with overlap detection
+ * With a property selected, rates overridden by a more specific scope are shown as shadowed
  */
 
 import { useState, useMemo } from 'react'
@@ -10,11 +11,14 @@ import {
   isWithinInterval
 } from 'date-fns'
 import type { SeasonalRate, CalendarPeriod } from './types/SeasonalRate'
+import { SCOPE_LABELS, resolveEffectiveRate } from './utils/seasonalRateScope'
 import 'react-calendar/dist/Calendar.css'
 import './SeasonalRateCalendar.css'
 
 interface SeasonalRateCalendarProps {
   rates: SeasonalRate[]
+  propertyId?: string | null
+  propertyGroupIds?: string[]
   onDateSelect?: (date: Date) => void
   onRateSelect?: (rate: SeasonalRate) => void
 }
@@ -33,6 +37,8 @@ const COLOR_PALETTE = [
 
 export default function SeasonalRateCalendar({
   rates,
+  propertyId,
+  propertyGroupIds = [],
   onDateSelect,
   onRateSelect
 }: SeasonalRateCalendarProps) {
@@ -48,19 +54,28 @@ export default function SeasonalRateCalendar({
       startDate: new Date(rate.start_date),
       endDate: new Date(rate.end_date),
       rateAdjustment: rate.discount_rate,
+      scopeType: rate.scope_type,
       color: COLOR_PALETTE[index % COLOR_PALETTE.length],
       isOverlapping: rate.isOverlapping || false
     }))
   }, [rates])
 
-  // Get periods for a specific date
+  // Get periods for a specific date, flagging those a more specific scope overrides
   const getPeriodsForDate = (date: Date): CalendarPeriod[] => {
-    return calendarPeriods.filter(period =>
+    const periods = calendarPeriods.filter(period =>
       isWithinInterval(date, {
         start: period.startDate,
         end: period.endDate
       })
     )
+
+    if (!propertyId || periods.length < 2) return periods
+
+    const effectiveRate = resolveEffectiveRate(rates, format(date, 'yyyy-MM-dd'), propertyId, propertyGroupIds)
+    return periods.map(period => ({
+      ...period,
+      isShadowed: effectiveRate !== null && period.id !== effectiveRate.rate_id
+    }))
   }
 
   // Tile content renderer for calendar
@@ -75,15 +90,15 @@ export default function SeasonalRateCalendar({
         {periods.map((period) => (
           <div
             key={period.id}
-            className={`period-indicator ${hoveredRate === period.id ? 'period-indicator--hovered' : ''}`}
+            className={`period-indicator ${hoveredRate === period.id ? 'period-indicator--hovered' : ''} ${period.isShadowed ? 'period-indicator--shadowed' : ''}`}
             style={{
               backgroundColor: period.color,
-              opacity: hoveredRate && hoveredRate !== period.id ? 0.3 : 1
+              opacity: (hoveredRate && hoveredRate !== period.id) || period.isShadowed ? 0.3 : 1
             }}
-            title={`${period.name} (${period.rateAdjustment > 0 ? '+' : ''}${(period.rateAdjustment * 100).toFixed(0)}%)`}
+            title={`${period.name} (${period.rateAdjustment > 0 ? '+' : ''}${(period.rateAdjustment * 100).toFixed(0)}%, ${SCOPE_LABELS[period.scopeType]})${period.isShadowed ? ' - overridden by a more specific rate' : ''}`}
           />
         ))}
-        {periods.length > 1 && (
+        {periods.length > 1 && !propertyId && (
           <span className="overlap-badge" title="Multiple periods on this date">
             {periods.length}
           </span>
@@ -103,7 +118,9 @@ export default function SeasonalRateCalendar({
       classes.push('has-period')
     }
     
-    if (periods.length > 1) {
+    // Overlaps between different scopes are resolved by precedence, so only flag
+    // them when no property is selected to resolve against
+    if (periods.length > 1 && !propertyId) {
       classes.push('has-overlap')
     }
 
@@ -136,6 +153,7 @@ export default function SeasonalRateCalendar({
               <span className="legend-rate">
                 {period.rateAdjustment > 0 ? '+' : ''}{(period.rateAdjustment * 100).toFixed(0)}%
               </span>
+              <span className="legend-scope">{SCOPE_LABELS[period.scopeType]}</span>
             </span>
             {period.isOverlapping && (
               <span className="overlap-warning" title="This period overlaps with another">
@@ -213,6 +231,10 @@ export default function SeasonalRateCalendar({
                       <span>End:</span>
                       <span>{format(new Date(rate.end_date), 'MMM dd, yyyy')}</span>
                     </p>
+                    <p className="detail-row">
+                      <span>Applies to:</span>
+                      <span>{SCOPE_LABELS[rate.scope_type]}</span>
+                    </p>
                     <p className="detail-row">
                       <span>Adjustment:</span>
                       <span className={rate.discount_rate > 0 ? 'text-success' : 'text-danger'}>
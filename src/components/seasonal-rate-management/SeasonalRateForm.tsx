@@ -7,6 +7,9 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useSeasonalRateForm } from './hooks/useSeasonalRateForm'
 import { useSeasonalRates } from './hooks/useSeasonalRates'
 import { usePricingPreview } from './hooks/usePricingPreview'
+import { useProperties } from '@/hooks/useProperties'
+import { SCOPE_LABELS } from './utils/seasonalRateScope'
+import { WEEKDAY_LABELS } from '@/services/weekday-multiplier.service'
 import type { SeasonalRate } from './types/SeasonalRate'
 import type { SeasonalRateFormData } from './types/ValidationSchemas'
 import './SeasonalRateForm.css'
@@ -26,7 +29,8 @@ export default function SeasonalRateForm({
   onSuccess,
   propertyId
 }: SeasonalRateFormProps) {
-  const { createSeasonalRate, updateSeasonalRate } = useSeasonalRates()
+  const { createSeasonalRate, updateSeasonalRate, propertyGroups } = useSeasonalRates()
+  const { properties } = useProperties()
   const { pricingPreview, previewLoading, generatePreview } = usePricingPreview(propertyId)
   const [showPreview, setShowPreview] = useState(false)
   
@@ -36,10 +40,25 @@ export default function SeasonalRateForm({
     formState: { errors, isSubmitting, isDirty },
     watch,
     reset,
-    setError
-  } = useSeasonalRateForm(editingRate)
+    setError,
+    setValue
+  } = useSeasonalRateForm(editingRate, propertyId)
 
   const watchedValues = watch()
+  const scopeType = watchedValues.scopeType
+  const arrivalDays = watchedValues.arrivalDays ?? []
+  const departureDays = watchedValues.departureDays ?? []
+
+  const toggleWeekday = useCallback((
+    field: 'arrivalDays' | 'departureDays',
+    selected: number[],
+    day: number
+  ) => {
+    const next = selected.includes(day)
+      ? selected.filter(d => d !== day)
+      : [...selected, day].sort((a, b) => a - b)
+    setValue(field, next, { shouldDirty: true, shouldValidate: true })
+  }, [setValue])
   
   // Memoize the values we want to watch to prevent object reference changes
   const watchedValuesKey = useMemo(() => {
@@ -73,20 +92,37 @@ export default function SeasonalRateForm({
   }, [watchedValuesKey, showPreview, generatePreview, propertyId])
 
   const onSubmit = async (data: SeasonalRateFormData) => {
+    const scope = {
+      scopeType: data.scopeType,
+      targetId: data.scopeType === 'global' ? null : data.scopeTargetId
+    }
+    const restrictions = {
+      minStay: data.minStay,
+      maxStay: data.maxStay,
+      arrivalDays: data.arrivalDays,
+      departureDays: data.departureDays
+    }
+
     try {
       if (editingRate) {
         await updateSeasonalRate(editingRate.rate_id, {
           name: data.name,
           startDate: data.startDate,
           endDate: data.endDate,
-          rateAdjustment: data.rateAdjustment
+          rateAdjustment: data.rateAdjustment,
+          scope,
+          restrictions,
+          extraGuestFee: data.extraGuestFee
         })
       } else {
         await createSeasonalRate({
           name: data.name,
           startDate: data.startDate,
           endDate: data.endDate,
-          rateAdjustment: data.rateAdjustment
+          rateAdjustment: data.rateAdjustment,
+          scope,
+          restrictions,
+          extraGuestFee: data.extraGuestFee
         })
       }
       
@@ -150,6 +186,60 @@ export default function SeasonalRateForm({
             )}
           </div>
 
+          {/* Scope fields */}
+          <div className="form-group-row">
+            <div className="form-group">
+              <label htmlFor="scopeType" className="form-label">
+                Applies To *
+              </label>
+              <select
+                {...register('scopeType')}
+                id="scopeType"
+                className="form-input"
+                aria-describedby="scope-type-help"
+              >
+                <option value="global">{SCOPE_LABELS.global}</option>
+                <option value="group">{SCOPE_LABELS.group}</option>
+                <option value="property">Single property</option>
+              </select>
+              <small id="scope-type-help" className="form-help">
+                Property rates override group rates, which override rates for all properties
+              </small>
+            </div>
+
+            {scopeType !== 'global' && (
+              <div className="form-group">
+                <label htmlFor="scopeTargetId" className="form-label">
+                  {scopeType === 'group' ? 'Property Group *' : 'Property *'}
+                </label>
+                <select
+                  {...register('scopeTargetId')}
+                  id="scopeTargetId"
+                  className={`form-input ${errors.scopeTargetId ? 'form-input--error' : ''}`}
+                  aria-describedby={errors.scopeTargetId ? 'scope-target-error' : undefined}
+                >
+                  <option value="">Select...</option>
+                  {scopeType === 'group'
+                    ? propertyGroups.map(group => (
+                        <option key={group.group_id} value={group.group_id}>
+                          {group.group_name}
+                        </option>
+                      ))
+                    : properties.map(property => (
+                        <option key={property.id} value={property.id}>
+                          {property.property_name}
+                        </option>
+                      ))}
+                </select>
+                {errors.scopeTargetId && (
+                  <span id="scope-target-error" className="form-error">
+                    {errors.scopeTargetId.message}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Date range fields */}
           <div className="form-group-row">
             <div className="form-group">
@@ -215,6 +305,109 @@ export default function SeasonalRateForm({
             )}
           </div>
 
+          {/* Seasonal extra guest fee */}
+          <div className="form-group">
+            <label htmlFor="extraGuestFee" className="form-label">
+              Extra Guest Fee (€ per guest per night)
+            </label>
+            <input
+              {...register('extraGuestFee', { valueAsNumber: true })}
+              type="number"
+              id="extraGuestFee"
+              step="0.01"
+              min="0"
+              max="1000"
+              className={`form-input ${errors.extraGuestFee ? 'form-input--error' : ''}`}
+              placeholder="Property fee"
+              aria-describedby="extra-guest-fee-help"
+            />
+            <small id="extra-guest-fee-help" className="form-help">
+              Leave empty to use each property's own extra guest fee
+            </small>
+            {errors.extraGuestFee && (
+              <span className="form-error">
+                {errors.extraGuestFee.message}
+              </span>
+            )}
+          </div>
+
+          {/* Stay restriction fields */}
+          <fieldset className="form-fieldset">
+            <legend className="form-label">Stay Restrictions</legend>
+            <small className="form-help">
+              Apply to stays arriving in this period. Leave empty for no restriction.
+            </small>
+
+            <div className="form-group-row">
+              <div className="form-group">
+                <label htmlFor="minStay" className="form-label">
+                  Minimum Stay (nights)
+                </label>
+                <input
+                  {...register('minStay', { valueAsNumber: true })}
+                  type="number"
+                  id="minStay"
+                  step="1"
+                  min="1"
+                  max="365"
+                  className={`form-input ${errors.minStay ? 'form-input--error' : ''}`}
+                  placeholder="Any"
+                />
+                {errors.minStay && (
+                  <span className="form-error">
+                    {errors.minStay.message}
+                  </span>
+                )}
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="maxStay" className="form-label">
+                  Maximum Stay (nights)
+                </label>
+                <input
+                  {...register('maxStay', { valueAsNumber: true })}
+                  type="number"
+                  id="maxStay"
+                  step="1"
+                  min="1"
+                  max="365"
+                  className={`form-input ${errors.maxStay ? 'form-input--error' : ''}`}
+                  placeholder="Any"
+                />
+                {errors.maxStay && (
+                  <span className="form-error">
+                    {errors.maxStay.message}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {([
+              ['arrivalDays', 'Arrival Days', arrivalDays],
+              ['departureDays', 'Departure Days', departureDays]
+            ] as const).map(([field, label, selected]) => (
+              <div key={field} className="form-group">
+                <span className="form-label">{label}</span>
+                <div className="form-weekday-options" role="group" aria-label={label}>
+                  {WEEKDAY_LABELS.map((dayLabel, day) => (
+                    <label key={dayLabel} className="form-checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(day)}
+                        onChange={() => toggleWeekday(field, selected, day)}
+                        className="form-checkbox"
+                      />
+                      {dayLabel}
+                    </label>
+                  ))}
+                </div>
+                <small className="form-help">
+                  {selected.length === 0 || selected.length === 7 ? 'Any day' : 'Only the checked days'}
+                </small>
+              </div>
+            ))}
+          </fieldset>
+
           {/* Pricing preview toggle */}
           <div className="form-group">
             <label className="form-checkbox-label">
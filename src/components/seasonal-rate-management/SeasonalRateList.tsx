@@ -6,6 +6,8 @@
 import { useState, useMemo } from 'react'
 import { format } from 'date-fns'
 import type { SeasonalRate, FilterOptions, SortConfig } from './types/SeasonalRate'
+import { SCOPE_LABELS } from './utils/seasonalRateScope'
+import { StayRestrictionService } from '@/services/stay-restriction.service'
 import './SeasonalRateList.css'
 
 interface SeasonalRateListProps {
@@ -219,13 +221,24 @@ export default function SeasonalRateList({
                   </span>
                 )}
               </th>
+              <th 
+                onClick={() => handleSort('scope_type')}
+                className="sortable"
+              >
+                Applies To
+                {sortConfig.field === 'scope_type' && (
+                  <span className="sort-indicator">
+                    {sortConfig.direction === 'asc' ? '▲' : '▼'}
+                  </span>
+                )}
+              </th>
               <th className="actions-column">Actions</th>
             </tr>
           </thead>
           <tbody>
             {processedRates.length === 0 ? (
               <tr>
-                <td colSpan={6} className="empty-message">
+                <td colSpan={7} className="empty-message">
                   {searchTerm || Object.keys(filters).length > 0
                     ? 'No seasonal rates match your filters'
                     : 'No seasonal rates defined yet'}
@@ -252,10 +265,16 @@ export default function SeasonalRateList({
                         ⚠️
                       </span>
                     )}
+                    {StayRestrictionService.hasRestrictions(StayRestrictionService.fromRow(rate)) && (
+                      <small className="restriction-summary">
+                        {StayRestrictionService.describe(StayRestrictionService.fromRow(rate))}
+                      </small>
+                    )}
                   </td>
                   <td>{format(new Date(rate.start_date), 'MMM dd, yyyy')}</td>
                   <td>{format(new Date(rate.end_date), 'MMM dd, yyyy')}</td>
                   <td>{formatRateAdjustment(rate.discount_rate)}</td>
+                  <td>{SCOPE_LABELS[rate.scope_type]}</td>
                   <td className="actions-column">
                     <button
                       onClick={() => onEdit(rate)}
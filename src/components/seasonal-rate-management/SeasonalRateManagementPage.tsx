@@ -22,22 +22,23 @@ type ViewMode = 'list' | 'calendar'
 export default function SeasonalRateManagementPage() {
   const location = useLocation()
   const { properties } = useProperties()
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null)
+  const [_selectedProperty, setSelectedProperty] = useState<Property | null>(null)
   const {
     seasonalRates,
+    propertyGroupIds,
     isLoading,
     error,
     refetch,
     deleteSeasonalRate,
     bulkDeleteSeasonalRates
-  } = useSeasonalRates()
+  } = useSeasonalRates(selectedPropertyId)
 
   const [viewMode, setViewMode] = useState<ViewMode>('list')
   const [isFormOpen, setIsFormOpen] = useState(false)
   const [editingRate, setEditingRate] = useState<SeasonalRate | undefined>()
   const [showBulkOperations, setShowBulkOperations] = useState(false)
   const [showImportExport, setShowImportExport] = useState(false)
-  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null)
-  const [_selectedProperty, setSelectedProperty] = useState<Property | null>(null)
 
   // Handle incoming property context from navigation state (FR-3)
   useEffect(() => {
@@ -115,10 +116,14 @@ export default function SeasonalRateManagementPage() {
   }
 
   // Handle property selection change
+  // Selecting the global template (null) shows every rate regardless of scope
   const handlePropertyChange = (propertyId: string | null, property?: Property) => {
     if (propertyId && property) {
       setSelectedPropertyId(propertyId)
       setSelectedProperty(property)
+    } else if (propertyId === null) {
+      setSelectedPropertyId(null)
+      setSelectedProperty(null)
     }
   }
 
@@ -212,6 +217,8 @@ export default function SeasonalRateManagementPage() {
         ) : (
           <SeasonalRateCalendar
             rates={seasonalRates}
+            propertyId={selectedPropertyId}
+            propertyGroupIds={propertyGroupIds}
             onRateSelect={handleEdit}
           />
         )}
@@ -224,6 +231,7 @@ export default function SeasonalRateManagementPage() {
           onClose={() => setIsFormOpen(false)}
           editingRate={editingRate}
           onSuccess={handleFormSuccess}
+          propertyId={selectedPropertyId || undefined}
         />
       )}
 
@@ -260,7 +268,7 @@ export default function SeasonalRateManagementPage() {
           </div>
           <div className="help-item">
             <h4>⚠️ Overlap Detection</h4>
-            <p>The system prevents overlapping date ranges to ensure consistent pricing calculations.</p>
+            <p>Rates with the same scope cannot overlap. Where scopes overlap, a property rate beats a group rate, which beats an all-properties rate.</p>
           </div>
           <div className="help-item">
             <h4>🔄 Bulk Operations</h4>
@@ -1,6 +1,7 @@
 /**
  * useSeasonalRateForm - Form validation and management with React Hook Form
- * Handles validation, overlap detection, and form state management
+ * Handles validation, overlap detection, booking checks for stay restrictions,
+ * and form state management
  */
 
 import { useEffect, useCallback, useRef } from 'react'
@@ -8,10 +9,36 @@ import { useForm } from 'react-hook-form'
 import { yupResolver } from '@hookform/resolvers/yup'
 import { supabase } from '@/lib/supabase'
 import { seasonalRateValidationSchema } from '../types/ValidationSchemas'
-import type { SeasonalRate } from '../types/SeasonalRate'
+import type { SeasonalRate, SeasonalRateScopeTarget } from '../types/SeasonalRate'
 import type { SeasonalRateFormData } from '../types/ValidationSchemas'
+import { sharesScopeTarget, getScopeTargetId } from '../utils/seasonalRateScope'
+import { StayRestrictionService } from '@/services/stay-restriction.service'
 
-export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
+// Number of conflicting bookings listed in the confirmation prompt
+const MAX_LISTED_CONFLICTS = 5
+
+/**
+ * Default scope for a new rate: the selected property if there is one, otherwise all properties
+ */
+const defaultScopeFor = (propertyId?: string | null): Pick<SeasonalRateFormData, 'scopeType' | 'scopeTargetId'> =>
+  propertyId
+    ? { scopeType: 'property', scopeTargetId: propertyId }
+    : { scopeType: 'global', scopeTargetId: null }
+
+/**
+ * Stay restriction and extra guest fee fields for a rate (none for a new rate)
+ */
+const restrictionDefaultsFor = (
+  rate?: SeasonalRate
+): Pick<SeasonalRateFormData, 'minStay' | 'maxStay' | 'arrivalDays' | 'departureDays' | 'extraGuestFee'> => ({
+  minStay: rate?.min_stay ?? null,
+  maxStay: rate?.max_stay ?? null,
+  arrivalDays: rate?.arrival_days ?? [],
+  departureDays: rate?.departure_days ?? [],
+  extraGuestFee: rate?.extra_guest_fee ?? null
+})
+
+export const useSeasonalRateForm = (editingRate?: SeasonalRate, propertyId?: string | null) => {
   const {
     register,
     handleSubmit,
@@ -27,25 +54,38 @@ export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
       name: editingRate.rate_name || '',
       startDate: new Date(editingRate.start_date),
       endDate: new Date(editingRate.end_date),
-      rateAdjustment: editingRate.discount_rate
+      rateAdjustment: editingRate.discount_rate,
+      scopeType: editingRate.scope_type,
+      scopeTargetId: getScopeTargetId(editingRate),
+      ...restrictionDefaultsFor(editingRate)
     } : {
       name: '',
       startDate: new Date(),
       endDate: new Date(),
-      rateAdjustment: 1.0
+      rateAdjustment: 1.0,
+      ...defaultScopeFor(propertyId),
+      ...restrictionDefaultsFor()
     }
   })
 
   const startDate = watch('startDate')
   const endDate = watch('endDate')
+  const scopeType = watch('scopeType')
+  const scopeTargetId = watch('scopeTargetId')
 
   // Custom async validation for date range overlaps (using local validation for now)
-  const validateDateRangeOverlap = useCallback(async (startDate: Date, endDate: Date): Promise<string | true> => {
+  // Only rates with the same scope target may not overlap
+  const validateDateRangeOverlap = useCallback(async (
+    startDate: Date,
+    endDate: Date,
+    scope: SeasonalRateScopeTarget
+  ): Promise<string | true> => {
     try {
       // For now, we'll fetch existing rates and check locally
       const { data: existingRates } = await supabase
         .from('date_ranges')
         .select('*')
+        .eq('scope_type', scope.scopeType)
       
       if (!existingRates) return true
       
@@ -54,6 +94,7 @@ export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
       
       const overlapping = existingRates.find(rate => 
         rate.rate_id !== editingRate?.rate_id &&
+        sharesScopeTarget(rate, scope) &&
         (rate.start_date <= endDateStr && rate.end_date >= startDateStr)
       )
       
@@ -68,6 +109,36 @@ export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
     }
   }, [editingRate?.rate_id])
 
+  // Existing bookings are kept, but the user confirms saving rules they break
+  const confirmBookingConflicts = useCallback(async (data: SeasonalRateFormData): Promise<boolean> => {
+    const conflicts = await StayRestrictionService.findConflictingBookings(
+      {
+        minStay: data.minStay,
+        maxStay: data.maxStay,
+        arrivalDays: data.arrivalDays,
+        departureDays: data.departureDays
+      },
+      { scopeType: data.scopeType, targetId: data.scopeTargetId },
+      data.startDate.toISOString().split('T')[0],
+      data.endDate.toISOString().split('T')[0]
+    )
+
+    if (conflicts.length === 0) return true
+
+    const listed = conflicts.slice(0, MAX_LISTED_CONFLICTS).map(conflict =>
+      `• ${conflict.guestName} (${conflict.arrivalDate} to ${conflict.departureDate}): ${conflict.violations.join('; ')}`
+    )
+    if (conflicts.length > MAX_LISTED_CONFLICTS) {
+      listed.push(`• ...and ${conflicts.length - MAX_LISTED_CONFLICTS} more`)
+    }
+
+    return confirm(
+      `${conflicts.length} existing booking${conflicts.length === 1 ? '' : 's'} in this period ` +
+      `do not meet the stay restrictions:\n\n${listed.join('\n')}\n\n` +
+      'Existing bookings are not changed. Save anyway?'
+    )
+  }, [])
+
   // Use ref for timeout to avoid state updates
   const overlapValidationTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   
@@ -83,7 +154,10 @@ export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
 
       // Set new timeout for validation
       overlapValidationTimeoutRef.current = setTimeout(async () => {
-        const validationResult = await validateDateRangeOverlap(startDate, endDate)
+        const validationResult = await validateDateRangeOverlap(startDate, endDate, {
+          scopeType,
+          targetId: scopeTargetId
+        })
         if (validationResult !== true) {
           setError('endDate', {
             type: 'overlap',
@@ -99,13 +173,16 @@ export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
         overlapValidationTimeoutRef.current = null
       }
     }
-  }, [startDate, endDate, clearErrors, setError, validateDateRangeOverlap])
+  }, [startDate, endDate, scopeType, scopeTargetId, clearErrors, setError, validateDateRangeOverlap])
 
   // Form submission handler with additional validation
   const onSubmit = async (data: SeasonalRateFormData, onSuccess: (data: SeasonalRateFormData) => void) => {
     try {
       // Final validation before submission
-      const overlapValidation = await validateDateRangeOverlap(data.startDate, data.endDate)
+      const overlapValidation = await validateDateRangeOverlap(data.startDate, data.endDate, {
+        scopeType: data.scopeType,
+        targetId: data.scopeTargetId
+      })
       if (overlapValidation !== true) {
         setError('endDate', {
           type: 'overlap',
@@ -114,6 +191,15 @@ export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
         return
       }
 
+      const confirmed = await confirmBookingConflicts(data)
+      if (!confirmed) {
+        setError('root', {
+          type: 'restrictions',
+          message: 'Stay restrictions conflict with existing bookings'
+        })
+        return
+      }
+
       // Call success handler
       onSuccess(data)
     } catch (error) {
@@ -133,14 +219,19 @@ export const useSeasonalRateForm = (editingRate?: SeasonalRate) => {
         name: editingRate.rate_name || '',
         startDate: new Date(editingRate.start_date),
         endDate: new Date(editingRate.end_date),
-        rateAdjustment: editingRate.discount_rate
+        rateAdjustment: editingRate.discount_rate,
+        scopeType: editingRate.scope_type,
+        scopeTargetId: getScopeTargetId(editingRate),
+        ...restrictionDefaultsFor(editingRate)
       })
     } else {
       reset({
         name: '',
         startDate: new Date(),
         endDate: new Date(),
-        rateAdjustment: 1.0
+        rateAdjustment: 1.0,
+        ...defaultScopeFor(propertyId),
+        ...restrictionDefaultsFor()
       })
     }
   }
@@ -1,32 +1,111 @@
 /**
  * useSeasonalRates - Enhanced hook for managing seasonal rate adjustments
  * Handles CRUD operations for date_ranges table with improved validation and real-time updates
+ * When a property is given, only rates that can apply to it (global, its groups, its own) are loaded
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
+import type { PropertyGroup } from '@/types/database'
 import type { 
   SeasonalRate, 
   CreateSeasonalRateData, 
   UpdateSeasonalRateData,
   FilterOptions,
   SortConfig,
-  BulkOperationResult 
+  BulkOperationResult,
+  SeasonalRateScopeTarget
 } from '../types/SeasonalRate'
+import { sharesScopeTarget } from '../utils/seasonalRateScope'
+import { StayRestrictionService } from '@/services/stay-restriction.service'
+import type { StayRestrictions } from '@/services/stay-restriction.service'
 
-export const useSeasonalRates = () => {
+// Map a scope target to the date_ranges scope columns
+const toScopeColumns = (scope: SeasonalRateScopeTarget) => ({
+  scope_type: scope.scopeType,
+  property_internal_id: scope.scopeType === 'property' ? scope.targetId ?? null : null,
+  property_group_id: scope.scopeType === 'group' ? scope.targetId ?? null : null
+})
+
+// Map stay restrictions to the date_ranges restriction columns
+const toRestrictionColumns = (restrictions: StayRestrictions) => {
+  const { minStay, maxStay, arrivalDays, departureDays } = StayRestrictionService.normalize(restrictions)
+  return {
+    min_stay: minStay,
+    max_stay: maxStay,
+    arrival_days: arrivalDays,
+    departure_days: departureDays
+  }
+}
+
+const GLOBAL_SCOPE: SeasonalRateScopeTarget = { scopeType: 'global', targetId: null }
+
+export const useSeasonalRates = (propertyId?: string | null) => {
   const [seasonalRates, setSeasonalRates] = useState<SeasonalRate[]>([])
+  const [propertyGroups, setPropertyGroups] = useState<PropertyGroup[]>([])
+  const [propertyGroupIds, setPropertyGroupIds] = useState<string[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  // Keep the latest property in a ref so the realtime subscription does not need re-creating
+  const propertyIdRef = useRef(propertyId)
+  propertyIdRef.current = propertyId
+
+  // Fetch all property groups plus the groups the selected property belongs to
+  const fetchPropertyGroups = useCallback(async (): Promise<string[]> => {
+    const { data: groups, error: groupsError } = await supabase
+      .from('property_groups')
+      .select('*')
+      .order('group_name')
+
+    if (groupsError) throw groupsError
+    setPropertyGroups(groups || [])
+
+    const currentPropertyId = propertyIdRef.current
+    if (!currentPropertyId) {
+      setPropertyGroupIds([])
+      return []
+    }
+
+    const { data: memberships, error: membershipError } = await supabase
+      .from('property_group_members')
+      .select('group_id')
+      .eq('property_internal_id', currentPropertyId)
+
+    if (membershipError) throw membershipError
+
+    const groupIds = (memberships || []).map(member => member.group_id)
+    setPropertyGroupIds(groupIds)
+    return groupIds
+  }, [])
+
   // Fetch all seasonal rates with sorting and filtering
   const fetchSeasonalRates = useCallback(async (filters?: FilterOptions, sort?: SortConfig) => {
     setIsLoading(true)
     try {
+      const groupIds = await fetchPropertyGroups()
+      const currentPropertyId = propertyIdRef.current
+
       let query = supabase
         .from('date_ranges')
         .select('*')
 
+      // Restrict to rates that can apply to the selected property
+      if (currentPropertyId) {
+        const scopeFilters = [
+          'scope_type.eq.global',
+          `property_internal_id.eq.${currentPropertyId}`
+        ]
+        if (groupIds.length > 0) {
+          scopeFilters.push(`property_group_id.in.(${groupIds.join(',')})`)
+        }
+        query = query.or(scopeFilters.join(','))
+      }
+
+      if (filters?.scopeType) {
+        query = query.eq('scope_type', filters.scopeType)
+      }
+
       // Apply filters if provided
       if (filters?.dateRange) {
         query = query
@@ -68,17 +147,28 @@ export const useSeasonalRates = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [fetchPropertyGroups])
 
   // Create new seasonal rate with validation
   const createSeasonalRate = async (data: CreateSeasonalRateData): Promise<SeasonalRate> => {
     try {
+      const scope = data.scope ?? GLOBAL_SCOPE
+      if (scope.scopeType !== 'global' && !scope.targetId) {
+        throw new Error(`A ${scope.scopeType} must be selected for this seasonal rate`)
+      }
+
+      const restrictionError = data.restrictions && StayRestrictionService.validateRestrictions(data.restrictions)
+      if (restrictionError) {
+        throw new Error(restrictionError)
+      }
+
       // Check for overlaps locally (database function not available yet)
       const startDateStr = data.startDate.toISOString().split('T')[0]
       const endDateStr = data.endDate.toISOString().split('T')[0]
       
-      // Check against existing rates
+      // Only rates with the same scope target compete; narrower scopes override wider ones
       const overlapping = seasonalRates.find(rate => 
+        sharesScopeTarget(rate, scope) &&
         (rate.start_date <= endDateStr && rate.end_date >= startDateStr)
       )
       
@@ -93,6 +183,9 @@ export const useSeasonalRates = () => {
           start_date: data.startDate.toISOString().split('T')[0],
           end_date: data.endDate.toISOString().split('T')[0],
           discount_rate: data.rateAdjustment,
+          ...toScopeColumns(scope),
+          ...(data.restrictions && toRestrictionColumns(data.restrictions)),
+          extra_guest_fee: data.extraGuestFee ?? null,
           created_at: new Date().toISOString()
         })
         .select()
@@ -124,6 +217,21 @@ export const useSeasonalRates = () => {
   // Update existing seasonal rate
   const updateSeasonalRate = async (id: string, data: UpdateSeasonalRateData): Promise<SeasonalRate> => {
     try {
+      const currentRate = seasonalRates.find(rate => rate.rate_id === id)
+      const scope: SeasonalRateScopeTarget = data.scope ?? (currentRate ? {
+        scopeType: currentRate.scope_type,
+        targetId: currentRate.property_internal_id ?? currentRate.property_group_id
+      } : GLOBAL_SCOPE)
+
+      if (scope.scopeType !== 'global' && !scope.targetId) {
+        throw new Error(`A ${scope.scopeType} must be selected for this seasonal rate`)
+      }
+
+      const restrictionError = data.restrictions && StayRestrictionService.validateRestrictions(data.restrictions)
+      if (restrictionError) {
+        throw new Error(restrictionError)
+      }
+
       // Check for overlaps locally excluding current record
       if (data.startDate && data.endDate) {
         const startDateStr = data.startDate.toISOString().split('T')[0]
@@ -131,6 +239,7 @@ export const useSeasonalRates = () => {
         
         const overlapping = seasonalRates.find(rate => 
           rate.rate_id !== id &&
+          sharesScopeTarget(rate, scope) &&
           (rate.start_date <= endDateStr && rate.end_date >= startDateStr)
         )
         
@@ -144,6 +253,9 @@ export const useSeasonalRates = () => {
       if (data.startDate) updateData.start_date = data.startDate.toISOString().split('T')[0]
       if (data.endDate) updateData.end_date = data.endDate.toISOString().split('T')[0]
       if (data.rateAdjustment !== undefined) updateData.discount_rate = data.rateAdjustment
+      if (data.scope) Object.assign(updateData, toScopeColumns(data.scope))
+      if (data.restrictions) Object.assign(updateData, toRestrictionColumns(data.restrictions))
+      if (data.extraGuestFee !== undefined) updateData.extra_guest_fee = data.extraGuestFee
 
       const { data: updatedRate, error } = await supabase
         .from('date_ranges')
@@ -212,11 +324,13 @@ export const useSeasonalRates = () => {
     return results
   }
 
-  // Set up real-time subscriptions
+  // Reload when the selected property changes
   useEffect(() => {
-    // Initial fetch
     fetchSeasonalRates()
+  }, [propertyId, fetchSeasonalRates])
 
+  // Set up real-time subscriptions
+  useEffect(() => {
     // Set up subscription
     const subscription = supabase
       .channel('date_ranges_changes')
@@ -238,6 +352,8 @@ export const useSeasonalRates = () => {
 
   return {
     seasonalRates,
+    propertyGroups,
+    propertyGroupIds,
     isLoading,
     error,
     refetch: fetchSeasonalRates,
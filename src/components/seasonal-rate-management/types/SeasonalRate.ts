@@ -4,6 +4,8 @@
  */
 
 import type { SeasonalRate as DBSeasonalRate } from '@/types/database-aliases'
+import type { SeasonalRateScope } from '@/types/database'
+import type { StayRestrictions } from '@/services/stay-restriction.service'
 
 // Enhanced seasonal rate interface extending database type
 export interface SeasonalRate extends DBSeasonalRate {
@@ -12,12 +14,21 @@ export interface SeasonalRate extends DBSeasonalRate {
   conflictsWith?: string[]
 }
 
+// Scope target of a seasonal rate (targetId is the property or group UUID)
+export interface SeasonalRateScopeTarget {
+  scopeType: SeasonalRateScope
+  targetId?: string | null
+}
+
 // Create seasonal rate data
 export interface CreateSeasonalRateData {
   name: string
   startDate: Date
   endDate: Date
   rateAdjustment: number
+  scope?: SeasonalRateScopeTarget  // Defaults to global
+  restrictions?: StayRestrictions  // Defaults to no restrictions
+  extraGuestFee?: number | null    // Seasonal extra guest fee per night, null = property fee
 }
 
 // Update seasonal rate data
@@ -26,6 +37,9 @@ export interface UpdateSeasonalRateData {
   startDate?: Date
   endDate?: Date
   rateAdjustment?: number
+  scope?: SeasonalRateScopeTarget
+  restrictions?: StayRestrictions
+  extraGuestFee?: number | null
 }
 
 // Filter options for seasonal rates
@@ -40,6 +54,7 @@ export interface FilterOptions {
   }
   searchTerm?: string
   activeOnly?: boolean
+  scopeType?: SeasonalRateScope
 }
 
 // Sort configuration
@@ -131,8 +146,10 @@ export interface CalendarPeriod {
   startDate: Date
   endDate: Date
   rateAdjustment: number
+  scopeType: SeasonalRateScope
   color?: string
   isOverlapping?: boolean
+  isShadowed?: boolean  // A more specific rate takes precedence for the selected property
 }
 
 // Form state management
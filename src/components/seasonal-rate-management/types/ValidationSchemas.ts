@@ -19,8 +19,31 @@ const validationMessages = {
   rateAdjustmentZero: 'Rate adjustment cannot be zero (no change)',
   dateRangeMinDuration: 'Date range must be at least 1 day',
   dateRangeMaxDuration: 'Date range cannot exceed 365 days',
+  scopeTargetRequired: 'Select the property or group this rate applies to',
+  stayWholeNights: 'Stay length must be a whole number of nights',
+  stayMin: 'Stay length must be at least 1 night',
+  stayMax: 'Stay length cannot exceed 365 nights',
+  maxStayBelowMin: 'Maximum stay cannot be shorter than minimum stay',
+  extraGuestFeeMin: 'Extra guest fee cannot be negative',
+  extraGuestFeeMax: 'Extra guest fee cannot exceed €1000 per night',
 }
 
+// Empty number inputs arrive as NaN; treat them as "no rule"
+const optionalNights = () => yup
+  .number()
+  .transform((value) => (Number.isNaN(value) ? null : value))
+  .nullable()
+  .defined()
+  .integer(validationMessages.stayWholeNights)
+  .min(1, validationMessages.stayMin)
+  .max(365, validationMessages.stayMax)
+
+// Weekday list (0 = Sunday); an empty list means any day
+const weekdayList = () => yup
+  .array()
+  .of(yup.number().integer().min(0).max(6).required())
+  .defined()
+
 // Seasonal rate form validation schema
 export const seasonalRateValidationSchema = yup.object().shape({
   name: yup
@@ -65,7 +88,40 @@ export const seasonalRateValidationSchema = yup.object().shape({
     .required(validationMessages.required)
     .min(-1, validationMessages.rateAdjustmentMin)
     .max(10, validationMessages.rateAdjustmentMax)
-    .test('not-zero', validationMessages.rateAdjustmentZero, (value) => value !== 0)
+    .test('not-zero', validationMessages.rateAdjustmentZero, (value) => value !== 0),
+
+  scopeType: yup
+    .mixed<'global' | 'group' | 'property'>()
+    .oneOf(['global', 'group', 'property'])
+    .required(validationMessages.required),
+
+  scopeTargetId: yup
+    .string()
+    .nullable()
+    .defined()
+    .test('scope-target', validationMessages.scopeTargetRequired, function (value) {
+      return this.parent.scopeType === 'global' || !!value
+    }),
+
+  minStay: optionalNights(),
+
+  maxStay: optionalNights()
+    .test('max-after-min', validationMessages.maxStayBelowMin, function (value) {
+      const { minStay } = this.parent
+      return value === null || minStay === null || minStay === undefined || value >= minStay
+    }),
+
+  arrivalDays: weekdayList(),
+
+  departureDays: weekdayList(),
+
+  extraGuestFee: yup
+    .number()
+    .transform((value) => (Number.isNaN(value) ? null : value))
+    .nullable()
+    .defined()
+    .min(0, validationMessages.extraGuestFeeMin)
+    .max(1000, validationMessages.extraGuestFeeMax)
 })
 
 // Bulk import validation schema
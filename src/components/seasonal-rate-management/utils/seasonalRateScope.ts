@@ -0,0 +1,89 @@
+/**
+ * Seasonal Rate Scope
+ * Client-side mirror of resolve_seasonal_rate() precedence rules
+ */
+
+import type { SeasonalRateScope } from '@/types/database'
+import type { SeasonalRate, SeasonalRateScopeTarget } from '../types/SeasonalRate'
+
+// Lower number wins when several rates cover the same night
+export const SCOPE_PRECEDENCE: Record<SeasonalRateScope, number> = {
+  property: 1,
+  group: 2,
+  global: 3
+}
+
+export const SCOPE_LABELS: Record<SeasonalRateScope, string> = {
+  property: 'This property',
+  group: 'Property group',
+  global: 'All properties'
+}
+
+/**
+ * Target id stored for a rate (property UUID, group UUID or null for global)
+ */
+export const getScopeTargetId = (rate: Pick<SeasonalRate, 'scope_type' | 'property_internal_id' | 'property_group_id'>): string | null => {
+  if (rate.scope_type === 'property') return rate.property_internal_id
+  if (rate.scope_type === 'group') return rate.property_group_id
+  return null
+}
+
+/**
+ * Whether two rates compete for the same scope slot (and therefore may not overlap)
+ */
+export const sharesScopeTarget = (
+  rate: Pick<SeasonalRate, 'scope_type' | 'property_internal_id' | 'property_group_id'>,
+  target: SeasonalRateScopeTarget
+): boolean => {
+  return rate.scope_type === target.scopeType && getScopeTargetId(rate) === (target.targetId ?? null)
+}
+
+/**
+ * Whether a rate can affect the given property
+ * With no property selected every rate is considered applicable
+ */
+export const appliesToProperty = (
+  rate: SeasonalRate,
+  propertyId: string | null | undefined,
+  propertyGroupIds: string[] = []
+): boolean => {
+  if (!propertyId) return true
+  if (rate.scope_type === 'global') return true
+  if (rate.scope_type === 'property') return rate.property_internal_id === propertyId
+  return rate.property_group_id !== null && propertyGroupIds.includes(rate.property_group_id)
+}
+
+const rateLengthInDays = (rate: SeasonalRate): number =>
+  (new Date(rate.end_date).getTime() - new Date(rate.start_date).getTime()) / (1000 * 60 * 60 * 24)
+
+/**
+ * Order rates by precedence: scope first, then narrowest range, then most recently updated
+ */
+export const compareRatePrecedence = (a: SeasonalRate, b: SeasonalRate): number => {
+  const scopeDiff = SCOPE_PRECEDENCE[a.scope_type] - SCOPE_PRECEDENCE[b.scope_type]
+  if (scopeDiff !== 0) return scopeDiff
+
+  const lengthDiff = rateLengthInDays(a) - rateLengthInDays(b)
+  if (lengthDiff !== 0) return lengthDiff
+
+  return (b.updated_at || '').localeCompare(a.updated_at || '')
+}
+
+/**
+ * Resolve the rate that applies to a property on a date, or null when none does
+ */
+export const resolveEffectiveRate = (
+  rates: SeasonalRate[],
+  date: string,
+  propertyId: string | null | undefined,
+  propertyGroupIds: string[] = []
+): SeasonalRate | null => {
+  const candidates = rates.filter(rate =>
+    rate.start_date <= date &&
+    rate.end_date >= date &&
+    appliesToProperty(rate, propertyId, propertyGroupIds)
+  )
+
+  if (candidates.length === 0) return null
+  return [...candidates].sort(compareRatePrecedence)[0]
+}
@@ -0,0 +1,262 @@
+/**
+ * LengthOfStayEditor - Stay-length discount tiers for the selected property
+ * Lists the tiers (e.g. 7+ nights -10%) and edits the whole list in one save
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { LengthOfStayDiscountService } from '@/services/length-of-stay-discount.service'
+import type { LengthOfStayTier } from '@/services/length-of-stay-discount.service'
+import { usePricingContext } from '@/context/PricingContext'
+import { useUnifiedControlsContext } from './UnifiedPropertyControls'
+import { Tooltip } from '../contextual-help'
+import type { LengthOfStayEditorProps } from './types'
+
+/**
+ * Editable tier row; values are kept as strings while typing
+ */
+interface TierDraft {
+  minNights: string
+  discountPercent: string
+}
+
+const toDrafts = (tiers: LengthOfStayTier[]): TierDraft[] =>
+  tiers.map(tier => ({
+    minNights: String(tier.minNights),
+    discountPercent: String(Math.round(tier.discountRate * 1000) / 10)
+  }))
+
+/**
+ * LengthOfStayEditor component for the unified property controls
+ */
+const LengthOfStayEditor: React.FC<LengthOfStayEditorProps> = ({
+  property,
+  disabled = false
+}) => {
+  const { disabled: controlsDisabled } = useUnifiedControlsContext()
+  const { refreshCalendarData } = usePricingContext()
+  const [tiers, setTiers] = useState<LengthOfStayTier[]>([])
+  const [draft, setDraft] = useState<TierDraft[]>([])
+  const [isEditing, setIsEditing] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isDisabled = disabled || controlsDisabled
+
+  // Load tiers whenever the property changes
+  useEffect(() => {
+    if (!property) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    setIsEditing(false)
+
+    LengthOfStayDiscountService.getTiers(property.id)
+      .then(result => {
+        if (!cancelled) setTiers(result)
+      })
+      .catch(err => {
+        console.error('Failed to load length-of-stay discounts:', err)
+        if (!cancelled) {
+          setTiers([])
+          setError('Failed to load length-of-stay discounts')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [property])
+
+  const handleStartEditing = useCallback(() => {
+    if (isDisabled || saving) return
+    setDraft(toDrafts(tiers))
+    setError(null)
+    setIsEditing(true)
+  }, [tiers, isDisabled, saving])
+
+  const handleDraftChange = useCallback((index: number, field: keyof TierDraft, value: string) => {
+    setDraft(prev => prev.map((entry, i) => (i === index ? { ...entry, [field]: value } : entry)))
+  }, [])
+
+  const handleAddTier = useCallback(() => {
+    setDraft(prev => [...prev, { minNights: '', discountPercent: '' }])
+  }, [])
+
+  const handleRemoveTier = useCallback((index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index))
+  }, [])
+
+  /**
+   * Save the tier list and refresh calendar pricing
+   */
+  const handleSave = useCallback(async () => {
+    if (!property) return
+
+    const parsed: LengthOfStayTier[] = draft.map(entry => ({
+      minNights: Number(entry.minNights),
+      discountRate: Number(entry.discountPercent) / 100
+    }))
+    const validationError = LengthOfStayDiscountService.validateTiers(parsed)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const saved = await LengthOfStayDiscountService.saveTiers(property.id, parsed)
+      setTiers(saved)
+      setIsEditing(false)
+
+      // Tiers change calculated prices, so reload the calendar
+      await refreshCalendarData()
+    } catch (err) {
+      console.error('Failed to save length-of-stay discounts:', err)
+      setError('Failed to save length-of-stay discounts. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [property, draft, refreshCalendarData])
+
+  if (!property) {
+    return (
+      <div className="length-of-stay-editor text-muted" data-testid="length-of-stay-editor">
+        <small>Select a property to edit length-of-stay discounts</small>
+      </div>
+    )
+  }
+
+  return (
+    <div className="length-of-stay-editor" data-testid="length-of-stay-editor">
+      <div className="d-flex align-items-center justify-content-between mb-1">
+        <Tooltip
+          content="Discount the nightly rate for longer stays (e.g. 7+ nights -10%, 28+ nights -25%). Only the highest qualifying tier applies."
+          placement="top"
+          delay={200}
+        >
+          <label className="text-muted small mb-0">Length-of-Stay Discounts</label>
+        </Tooltip>
+        {!isEditing && (
+          <button
+            type="button"
+            className="btn btn-link btn-sm p-0"
+            onClick={handleStartEditing}
+            disabled={isDisabled || loading}
+            data-testid="length-of-stay-edit-button"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="length-of-stay-tiers">
+          {draft.map((entry, index) => (
+            <div key={index} className="length-of-stay-tier d-flex align-items-center gap-1 mb-1">
+              <input
+                type="number"
+                className="form-control form-control-sm length-of-stay-input"
+                value={entry.minNights}
+                onChange={(e) => handleDraftChange(index, 'minNights', e.target.value)}
+                min="2"
+                step="1"
+                disabled={saving}
+                aria-label="Minimum nights"
+                data-testid={`length-of-stay-nights-input-${index}`}
+              />
+              <span className="small text-muted">+ nights</span>
+              <input
+                type="number"
+                className="form-control form-control-sm length-of-stay-input"
+                value={entry.discountPercent}
+                onChange={(e) => handleDraftChange(index, 'discountPercent', e.target.value)}
+                min="0"
+                step="1"
+                disabled={saving}
+                aria-label="Discount percent"
+                data-testid={`length-of-stay-discount-input-${index}`}
+              />
+              <span className="small text-muted">% off</span>
+              <button
+                type="button"
+                className="btn btn-link btn-sm text-danger p-0 ms-1"
+                onClick={() => handleRemoveTier(index)}
+                disabled={saving}
+                aria-label="Remove tier"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="btn btn-link btn-sm p-0"
+            onClick={handleAddTier}
+            disabled={saving}
+            data-testid="length-of-stay-add-tier-button"
+          >
+            + Add tier
+          </button>
+        </div>
+      ) : (
+        <div className="length-of-stay-tiers small">
+          {loading ? (
+            <span>…</span>
+          ) : tiers.length === 0 ? (
+            <span className="text-muted">No discounts</span>
+          ) : (
+            tiers.map(tier => (
+              <span
+                key={tier.minNights}
+                className="badge bg-light text-success border me-1"
+                data-testid={`length-of-stay-tier-${tier.minNights}`}
+              >
+                {tier.minNights}+ nights -{Math.round(tier.discountRate * 1000) / 10}%
+              </span>
+            ))
+          )}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="d-flex gap-2 mt-2">
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={handleSave}
+            disabled={saving}
+            data-testid="length-of-stay-save-button"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            type="button"
+            className="btn btn-outline-secondary btn-sm"
+            onClick={() => {
+              setIsEditing(false)
+              setError(null)
+            }}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="alert alert-danger py-1 px-2 mt-2 mb-0 small" role="alert" data-testid="length-of-stay-error">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LengthOfStayEditor
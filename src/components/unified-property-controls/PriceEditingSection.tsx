@@ -2,20 +2,40 @@
  * PriceEditingSection - Inline price editing for base and minimum prices
  * Implements FR-3: Inline Price Editing Integration
  * Implements PRP-49: Minimum Rate Editing with Constraint Validation
- * Provides click-to-edit functionality with validation
+ * Provides click-to-edit functionality with validation, plus guest capacity
+ * and the extra guest fee
  */
 
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useEffect } from 'react'
 import { BasePriceService } from '@/services/base-price.service'
 import { MinPriceService } from '@/services/min-price.service'
+import { GuestFeeService } from '@/services/guest-fee.service'
+import type { GuestSettings } from '@/services/guest-fee.service'
+import { CurrencyService } from '@/services/currency.service'
 import { usePricingContext } from '@/context/PricingContext'
 import { useUnifiedControlsContext } from './UnifiedPropertyControls'
 import InlinePriceEditor from '../InlinePriceEditor'
 import MinimumRateEditor from '../MinimumRateEditor'
 import { Tooltip } from '../contextual-help'
 import { HelpContentUtils } from '../contextual-help'
+import { formatMoney, currencySymbol, SUPPORTED_CURRENCIES } from '@/utils/currency'
 import type { PriceEditingSectionProps } from './types'
 
+/**
+ * Guest settings draft; values are kept as strings while typing
+ */
+interface GuestSettingsDraft {
+  base_occupancy: string
+  max_guests: string
+  extra_guest_fee: string
+}
+
+const toGuestDraft = (settings: GuestSettings): GuestSettingsDraft => ({
+  base_occupancy: String(settings.base_occupancy),
+  max_guests: String(settings.max_guests),
+  extra_guest_fee: String(settings.extra_guest_fee)
+})
+
 /**
  * PriceEditingSection component for inline price editing
  * Displays base and minimum prices with click-to-edit functionality
@@ -25,10 +45,34 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
   disabled = false,
   onPriceUpdate
 }) => {
-  const { editingPrice, setEditingPrice, onPriceChange } = useUnifiedControlsContext()
+  const { editingPrice, setEditingPrice, onPriceChange, onPropertyChange } = useUnifiedControlsContext()
   const { refreshCalendarData } = usePricingContext()
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [changeReason, setChangeReason] = useState('')  // Recorded in the change log with the next price change
+  const [guestSettings, setGuestSettings] = useState<GuestSettings | null>(null)
+  const [guestDraft, setGuestDraft] = useState<GuestSettingsDraft | null>(null)
+
+  // Load guest capacity and fee whenever the property changes
+  useEffect(() => {
+    if (!property) return
+
+    let cancelled = false
+    setGuestDraft(null)
+
+    GuestFeeService.getSettings(property.id)
+      .then(settings => {
+        if (!cancelled) setGuestSettings(settings)
+      })
+      .catch(err => {
+        console.error('Failed to load guest settings:', err)
+        if (!cancelled) setGuestSettings(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [property])
 
   /**
    * Handle base price save with database persistence using BasePriceService
@@ -40,7 +84,7 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
     
     // Validate min_price constraint
     if (newPrice < property.min_price_per_day) {
-      setError(`Base price must be at least €${property.min_price_per_day.toFixed(2)}`)
+      setError(`Base price must be at least ${formatMoney(property.min_price_per_day, property.currency)}`)
       return
     }
 
@@ -52,7 +96,8 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
       const updateResult = await BasePriceService.updateBasePrice(
         property.id,
         newPrice,
-        { maxAttempts: 3, baseDelay: 1000, maxDelay: 8000 }
+        { maxAttempts: 3, baseDelay: 1000, maxDelay: 8000 },
+        changeReason
       )
 
       if (!updateResult.success) {
@@ -71,13 +116,14 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
       await refreshCalendarData()
 
       // Close editor
+      setChangeReason('')
       setEditingPrice(null)
     } catch (err: any) {
       console.error('Failed to update base price:', err)
       
       // Handle specific error cases with user-friendly messages
       if (err.code === 'CONSTRAINT_VIOLATION') {
-        setError(`Price violates minimum price constraint of €${property.min_price_per_day.toFixed(2)}`)
+        setError(`Price violates minimum price constraint of ${formatMoney(property.min_price_per_day, property.currency)}`)
       } else if (err.code === 'NETWORK_ERROR') {
         setError('Network error. Please check your connection and try again.')
       } else {
@@ -88,7 +134,7 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
     } finally {
       setSaving(false)
     }
-  }, [property, onPriceUpdate, onPriceChange, setEditingPrice, refreshCalendarData])
+  }, [property, changeReason, onPriceUpdate, onPriceChange, setEditingPrice, refreshCalendarData])
 
   /**
    * Handle minimum price save with database persistence using MinPriceService
@@ -100,7 +146,7 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
 
     // Pre-validate base_price constraint (FR-3)
     if (newPrice > property.base_price_per_day) {
-      setError(`Minimum price cannot exceed base price of €${property.base_price_per_day.toFixed(2)}`)
+      setError(`Minimum price cannot exceed base price of ${formatMoney(property.base_price_per_day, property.currency)}`)
       return
     }
 
@@ -112,7 +158,8 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
       const updateResult = await MinPriceService.updateMinPrice(
         property.id,
         newPrice,
-        { maxAttempts: 3, baseDelay: 1000, maxDelay: 8000 }
+        { maxAttempts: 3, baseDelay: 1000, maxDelay: 8000 },
+        changeReason
       )
 
       if (!updateResult.success) {
@@ -131,13 +178,14 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
       await refreshCalendarData()
 
       // Close editor
+      setChangeReason('')
       setEditingPrice(null)
     } catch (err: any) {
       console.error('Failed to update minimum price:', err)
       
       // Handle specific error cases with user-friendly messages
       if (err.code === 'PRICE_EXCEEDS_BASE') {
-        setError(`Minimum price cannot exceed base price of €${property.base_price_per_day.toFixed(2)}`)
+        setError(`Minimum price cannot exceed base price of ${formatMoney(property.base_price_per_day, property.currency)}`)
       } else if (err.code === 'CONSTRAINT_VIOLATION') {
         setError(`Minimum price violates base price constraint. Please check current base price.`)
       } else if (err.code === 'NETWORK_ERROR') {
@@ -150,19 +198,67 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
     } finally {
       setSaving(false)
     }
-  }, [property, onPriceUpdate, onPriceChange, setEditingPrice, refreshCalendarData])
+  }, [property, changeReason, onPriceUpdate, onPriceChange, setEditingPrice, refreshCalendarData])
+
+  /**
+   * Save guest capacity and the extra guest fee
+   * The fee does not change nightly prices, so the calendar is not refreshed
+   */
+  const handleGuestSettingsSave = useCallback(async () => {
+    if (!property || !guestDraft) return
+
+    const settings: GuestSettings = {
+      base_occupancy: Number(guestDraft.base_occupancy),
+      max_guests: Number(guestDraft.max_guests),
+      extra_guest_fee: Number(guestDraft.extra_guest_fee)
+    }
+    const validationError = GuestFeeService.validateSettings(settings)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const saved = await GuestFeeService.saveSettings(property.id, settings)
+      setGuestSettings(saved)
+      setGuestDraft(null)
+    } catch (err) {
+      console.error('Failed to update guest settings:', err)
+      setError('Failed to save guest settings. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [property, guestDraft])
+
+  /**
+   * Change the currency the property is priced in
+   * Amounts are not converted; the selected property is replaced so the
+   * calendar and modals pick up the new currency
+   */
+  const handleCurrencyChange = useCallback(async (currency: string) => {
+    if (!property || currency === property.currency) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const saved = await CurrencyService.updatePropertyCurrency(property.id, currency)
+      onPropertyChange({ ...property, currency: saved })
+    } catch (err) {
+      console.error('Failed to update property currency:', err)
+      setError('Failed to save currency. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [property, onPropertyChange])
 
   /**
    * Format price for display
    */
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-EU', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price)
-  }
+  const formatPrice = (price: number) => formatMoney(price, property?.currency)
 
   if (!property) {
     return (
@@ -193,8 +289,8 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
           ) : (
             <Tooltip
               content={HelpContentUtils.formatContent(
-                'Click to edit base rate (minimum €{minPrice} enforced)',
-                { minPrice: property.min_price_per_day.toFixed(2) }
+                'Click to edit base rate (minimum {minPrice} enforced)',
+                { minPrice: formatPrice(property.min_price_per_day) }
               )}
               placement="top"
               delay={200}
@@ -267,6 +363,147 @@ const PriceEditingSection: React.FC<PriceEditingSectionProps> = ({
           )}
         </div>
 
+        {/* Reason saved with the next base or minimum price change */}
+        <div className="price-item">
+          <label htmlFor="price-change-reason" className="text-muted small mb-1">Reason for price change</label>
+          <input
+            id="price-change-reason"
+            type="text"
+            className="form-control form-control-sm"
+            placeholder="Optional, shown in price history"
+            value={changeReason}
+            maxLength={500}
+            onChange={(e) => setChangeReason(e.target.value)}
+            disabled={disabled || saving}
+            data-testid="price-change-reason-input"
+          />
+        </div>
+
+        {/* Guest Capacity and Extra Guest Fee */}
+        <div className="price-item" data-testid="guest-settings">
+          <label className="text-muted small mb-1">Guests &amp; Extra Guest Fee</label>
+          {guestDraft ? (
+            <div className="guest-settings-editor">
+              <div className="d-flex align-items-center gap-1 mb-1">
+                <input
+                  type="number"
+                  className="form-control form-control-sm guest-settings-input"
+                  value={guestDraft.base_occupancy}
+                  onChange={(e) => setGuestDraft({ ...guestDraft, base_occupancy: e.target.value })}
+                  min="1"
+                  step="1"
+                  disabled={saving}
+                  aria-label="Guests included in price"
+                  data-testid="base-occupancy-input"
+                />
+                <span className="small text-muted">incl., sleeps</span>
+                <input
+                  type="number"
+                  className="form-control form-control-sm guest-settings-input"
+                  value={guestDraft.max_guests}
+                  onChange={(e) => setGuestDraft({ ...guestDraft, max_guests: e.target.value })}
+                  min="1"
+                  step="1"
+                  disabled={saving}
+                  aria-label="Maximum guests"
+                  data-testid="max-guests-input"
+                />
+              </div>
+              <div className="d-flex align-items-center gap-1 mb-1">
+                <span className="small text-muted">{currencySymbol(property.currency)}</span>
+                <input
+                  type="number"
+                  className="form-control form-control-sm guest-settings-input"
+                  value={guestDraft.extra_guest_fee}
+                  onChange={(e) => setGuestDraft({ ...guestDraft, extra_guest_fee: e.target.value })}
+                  min="0"
+                  step="0.01"
+                  disabled={saving}
+                  aria-label="Fee per extra guest per night"
+                  data-testid="extra-guest-fee-input"
+                />
+                <span className="small text-muted">per extra guest/night</span>
+              </div>
+              <div className="d-flex gap-2">
+                <button
+                  type="button"
+                  className="btn btn-primary btn-sm"
+                  onClick={handleGuestSettingsSave}
+                  disabled={saving}
+                  data-testid="guest-settings-save-button"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-outline-secondary btn-sm"
+                  onClick={() => {
+                    setGuestDraft(null)
+                    setError(null)
+                  }}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <Tooltip
+              content="Click to edit how many guests the nightly price includes, the maximum guests and the fee per extra guest per night. Seasonal rates can override the fee."
+              placement="top"
+              delay={200}
+            >
+              <div
+                className="price-display clickable"
+                onClick={() => !disabled && !saving && guestSettings && setGuestDraft(toGuestDraft(guestSettings))}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault()
+                    !disabled && !saving && guestSettings && setGuestDraft(toGuestDraft(guestSettings))
+                  }
+                }}
+                data-testid="guest-settings-edit-button"
+                style={{ cursor: disabled || saving || !guestSettings ? 'not-allowed' : 'pointer' }}
+              >
+                {guestSettings ? (
+                  <span className="small">
+                    <span className="fw-bold">{guestSettings.base_occupancy}</span> incl.
+                    {' · '}sleeps <span className="fw-bold">{guestSettings.max_guests}</span>
+                    {' · '}<span className="fw-bold">{formatPrice(guestSettings.extra_guest_fee)}</span>/extra guest
+                  </span>
+                ) : (
+                  <span className="small text-muted">…</span>
+                )}
+                {!disabled && !saving && guestSettings && (
+                  <span className="ms-1 text-muted small">✏️</span>
+                )}
+              </div>
+            </Tooltip>
+          )}
+        </div>
+
+        {/* Currency the property is priced in */}
+        <div className="price-item">
+          <label htmlFor="property-currency-select" className="text-muted small mb-1 d-block">Currency</label>
+          <select
+            id="property-currency-select"
+            className="form-select form-select-sm property-currency-select"
+            value={property.currency}
+            onChange={(e) => handleCurrencyChange(e.target.value)}
+            disabled={disabled || saving}
+            data-testid="property-currency-select"
+          >
+            {SUPPORTED_CURRENCIES.map(({ code, label }) => (
+              <option key={code} value={code}>{code} – {label}</option>
+            ))}
+            {!SUPPORTED_CURRENCIES.some(({ code }) => code === property.currency) && (
+              <option value={property.currency}>{property.currency}</option>
+            )}
+          </select>
+        </div>
+
         {/* Error Display */}
         {error && (
           <div className="alert alert-danger py-1 px-2 mb-0 small" role="alert" data-testid="validation-error">
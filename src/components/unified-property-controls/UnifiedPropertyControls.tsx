@@ -17,6 +17,8 @@ import PropertyControlsMain from './PropertyControlsMain'
 import PropertySelector from './PropertySelector'
 import PriceEditingSection from './PriceEditingSection'
 import PricingTogglesIntegrated from './PricingTogglesIntegrated'
+import WeekdayMultiplierEditor from './WeekdayMultiplierEditor'
+import LengthOfStayEditor from './LengthOfStayEditor'
 import QuickActionButtons from './QuickActionButtons'
 
 /**
@@ -45,6 +47,8 @@ const UnifiedPropertyControls: React.FC<UnifiedPropertyControlsProps> & {
   PropertySelector: typeof PropertySelector
   PriceEditor: typeof PriceEditingSection
   Toggles: typeof PricingTogglesIntegrated
+  WeekdayMultipliers: typeof WeekdayMultiplierEditor
+  LengthOfStay: typeof LengthOfStayEditor
   QuickActions: typeof QuickActionButtons
 } = ({ 
   className = '',
@@ -113,6 +117,14 @@ const UnifiedPropertyControls: React.FC<UnifiedPropertyControlsProps> & {
                 <QuickActionButtons property={selectedProperty} />
               </div>
             </div>
+            <div className="row g-3 mt-1">
+              <div className="col-lg-8 col-md-12">
+                <WeekdayMultiplierEditor property={selectedProperty} />
+              </div>
+              <div className="col-lg-4 col-md-12">
+                <LengthOfStayEditor property={selectedProperty} />
+              </div>
+            </div>
           </PropertyControlsMain>
         )}
       </div>
@@ -125,6 +137,8 @@ UnifiedPropertyControls.Main = PropertyControlsMain
 UnifiedPropertyControls.PropertySelector = PropertySelector
 UnifiedPropertyControls.PriceEditor = PriceEditingSection
 UnifiedPropertyControls.Toggles = PricingTogglesIntegrated
+UnifiedPropertyControls.WeekdayMultipliers = WeekdayMultiplierEditor
+UnifiedPropertyControls.LengthOfStay = LengthOfStayEditor
 UnifiedPropertyControls.QuickActions = QuickActionButtons
 
 export default UnifiedPropertyControls
\ No newline at end of file
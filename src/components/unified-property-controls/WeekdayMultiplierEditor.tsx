@@ -0,0 +1,211 @@
+/**
+ * WeekdayMultiplierEditor - Day-of-week price adjustments for the selected property
+ * Shows the current adjustment per weekday and edits all seven in one save
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  WeekdayMultiplierService,
+  WEEKDAY_LABELS,
+  EMPTY_WEEKDAY_ADJUSTMENTS
+} from '@/services/weekday-multiplier.service'
+import type { WeekdayAdjustments } from '@/services/weekday-multiplier.service'
+import { usePricingContext } from '@/context/PricingContext'
+import { useUnifiedControlsContext } from './UnifiedPropertyControls'
+import { Tooltip } from '../contextual-help'
+import type { WeekdayMultiplierEditorProps } from './types'
+
+/**
+ * Format an adjustment rate as a signed percentage (0.15 -> "+15%")
+ */
+const formatAdjustment = (rate: number): string => {
+  if (rate === 0) return '0%'
+  const percent = Math.round(rate * 1000) / 10
+  return `${percent > 0 ? '+' : ''}${percent}%`
+}
+
+const toPercentInputs = (adjustments: WeekdayAdjustments): string[] =>
+  adjustments.map(rate => String(Math.round(rate * 1000) / 10))
+
+/**
+ * WeekdayMultiplierEditor component for the unified property controls
+ */
+const WeekdayMultiplierEditor: React.FC<WeekdayMultiplierEditorProps> = ({
+  property,
+  disabled = false
+}) => {
+  const { disabled: controlsDisabled } = useUnifiedControlsContext()
+  const { refreshCalendarData } = usePricingContext()
+  const [adjustments, setAdjustments] = useState<WeekdayAdjustments>(EMPTY_WEEKDAY_ADJUSTMENTS)
+  const [draft, setDraft] = useState<string[]>(toPercentInputs(EMPTY_WEEKDAY_ADJUSTMENTS))
+  const [isEditing, setIsEditing] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isDisabled = disabled || controlsDisabled
+
+  // Load adjustments whenever the property changes
+  useEffect(() => {
+    if (!property) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    setIsEditing(false)
+
+    WeekdayMultiplierService.getAdjustments(property.id)
+      .then(result => {
+        if (!cancelled) setAdjustments(result)
+      })
+      .catch(err => {
+        console.error('Failed to load weekday multipliers:', err)
+        if (!cancelled) {
+          setAdjustments(EMPTY_WEEKDAY_ADJUSTMENTS)
+          setError('Failed to load weekday multipliers')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [property])
+
+  const handleStartEditing = useCallback(() => {
+    if (isDisabled || saving) return
+    setDraft(toPercentInputs(adjustments))
+    setError(null)
+    setIsEditing(true)
+  }, [adjustments, isDisabled, saving])
+
+  const handleDraftChange = useCallback((day: number, value: string) => {
+    setDraft(prev => prev.map((entry, index) => (index === day ? value : entry)))
+  }, [])
+
+  /**
+   * Save all weekday adjustments and refresh calendar pricing
+   */
+  const handleSave = useCallback(async () => {
+    if (!property) return
+
+    const parsed = draft.map(value => (value.trim() === '' ? 0 : Number(value) / 100)) as WeekdayAdjustments
+    const validationError = WeekdayMultiplierService.validateAdjustments(parsed)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const saved = await WeekdayMultiplierService.saveAdjustments(property.id, parsed)
+      setAdjustments(saved)
+      setIsEditing(false)
+
+      // Weekday multipliers change calculated prices, so reload the calendar
+      await refreshCalendarData()
+    } catch (err) {
+      console.error('Failed to save weekday multipliers:', err)
+      setError('Failed to save weekday multipliers. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [property, draft, refreshCalendarData])
+
+  if (!property) {
+    return (
+      <div className="weekday-multiplier-editor text-muted" data-testid="weekday-multiplier-editor">
+        <small>Select a property to edit weekday multipliers</small>
+      </div>
+    )
+  }
+
+  return (
+    <div className="weekday-multiplier-editor" data-testid="weekday-multiplier-editor">
+      <div className="d-flex align-items-center justify-content-between mb-1">
+        <Tooltip
+          content="Adjust prices by day of week, applied after seasonal rates (e.g. +15% on Friday and Saturday)"
+          placement="top"
+          delay={200}
+        >
+          <label className="text-muted small mb-0">Weekday Multipliers</label>
+        </Tooltip>
+        {!isEditing && (
+          <button
+            type="button"
+            className="btn btn-link btn-sm p-0"
+            onClick={handleStartEditing}
+            disabled={isDisabled || loading}
+            data-testid="weekday-multipliers-edit-button"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      <div className="weekday-multiplier-grid">
+        {WEEKDAY_LABELS.map((label, day) => (
+          <div key={label} className="weekday-multiplier-day">
+            <span className="weekday-multiplier-label small text-muted">{label}</span>
+            {isEditing ? (
+              <input
+                type="number"
+                className="form-control form-control-sm weekday-multiplier-input"
+                value={draft[day]}
+                onChange={(e) => handleDraftChange(day, e.target.value)}
+                step="1"
+                disabled={saving}
+                aria-label={`${label} adjustment percent`}
+                data-testid={`weekday-multiplier-input-${day}`}
+              />
+            ) : (
+              <span
+                className={`weekday-multiplier-value small ${adjustments[day] > 0 ? 'text-danger' : adjustments[day] < 0 ? 'text-success' : ''}`}
+                data-testid={`weekday-multiplier-value-${day}`}
+              >
+                {loading ? '…' : formatAdjustment(adjustments[day])}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isEditing && (
+        <div className="d-flex gap-2 mt-2">
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={handleSave}
+            disabled={saving}
+            data-testid="weekday-multipliers-save-button"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            type="button"
+            className="btn btn-outline-secondary btn-sm"
+            onClick={() => {
+              setIsEditing(false)
+              setError(null)
+            }}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="alert alert-danger py-1 px-2 mt-2 mb-0 small" role="alert" data-testid="weekday-multiplier-error">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default WeekdayMultiplierEditor
@@ -9,6 +9,8 @@ export { default as PropertyControlsMain } from './PropertyControlsMain'
 export { default as PropertySelector } from './PropertySelector'
 export { default as PriceEditingSection } from './PriceEditingSection'
 export { default as PricingTogglesIntegrated } from './PricingTogglesIntegrated'
+export { default as WeekdayMultiplierEditor } from './WeekdayMultiplierEditor'
+export { default as LengthOfStayEditor } from './LengthOfStayEditor'
 export { default as QuickActionButtons } from './QuickActionButtons'
 
 // Export types
@@ -17,6 +19,8 @@ export type {
   PropertySelectorProps,
   InlinePriceEditorIntegratedProps,
   PriceEditingSectionProps,
+  WeekdayMultiplierEditorProps,
+  LengthOfStayEditorProps,
   QuickActionButtonsProps,
   UnifiedControlsContextValue,
   PropertyControlsMainProps
@@ -47,6 +47,22 @@ export interface PriceEditingSectionProps {
   onPriceUpdate?: (type: 'base' | 'min', value: number) => void
 }
 
+/**
+ * Weekday multiplier editor props
+ */
+export interface WeekdayMultiplierEditorProps {
+  property: Property | null
+  disabled?: boolean
+}
+
+/**
+ * Length-of-stay discount editor props
+ */
+export interface LengthOfStayEditorProps {
+  property: Property | null
+  disabled?: boolean
+}
+
 /**
  * Quick action buttons props
  */
@@ -26,9 +26,12 @@ export interface PricingData extends CalculateFinalPriceReturn {
  */
 export interface PricingToggles {
   seasonalRatesEnabled: boolean
+  weekdayMultipliersEnabled: boolean
   discountStrategiesEnabled: boolean
 }
 
+export type PricingToggleType = 'seasonal' | 'weekday' | 'discount'
+
 /**
  * Global pricing context state and actions
  */
@@ -59,7 +62,7 @@ export interface PricingContextValue {
   refreshSeasonalRates: () => Promise<void>
   refreshDiscountStrategies: () => Promise<void>
   updateCalendarCell: (date: string, data: PricingData) => void
-  updateToggle: (type: 'seasonal' | 'discount', enabled: boolean) => void
+  updateToggle: (type: PricingToggleType, enabled: boolean) => void
   clearError: () => void
   clearCache: () => void
 }
@@ -89,9 +92,10 @@ export function PricingProvider({ children }: PricingProviderProps) {
   const [seasonalRates, setSeasonalRates] = useState<SeasonalRate[]>([])
   const [discountStrategies, setDiscountStrategies] = useState<DiscountStrategy[]>([])
   
-  // Toggle state - FR-2: Both toggles default to enabled
+  // Toggle state - FR-2: All toggles default to enabled
   const [toggles, setToggles] = useState<PricingToggles>({
     seasonalRatesEnabled: true,
+    weekdayMultipliersEnabled: true,
     discountStrategiesEnabled: true
   })
   
@@ -223,10 +227,11 @@ export function PricingProvider({ children }: PricingProviderProps) {
   /**
    * Update toggle state - FR-7: Toggle states persist during property changes
    */
-  const updateToggle = useCallback((type: 'seasonal' | 'discount', enabled: boolean) => {
+  const updateToggle = useCallback((type: PricingToggleType, enabled: boolean) => {
     setToggles(prev => ({
       ...prev,
       seasonalRatesEnabled: type === 'seasonal' ? enabled : prev.seasonalRatesEnabled,
+      weekdayMultipliersEnabled: type === 'weekday' ? enabled : prev.weekdayMultipliersEnabled,
       discountStrategiesEnabled: type === 'discount' ? enabled : prev.discountStrategiesEnabled
     }))
     
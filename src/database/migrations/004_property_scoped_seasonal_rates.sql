@@ -0,0 +1,317 @@
+-- Migration: Scope seasonal rates to a property, a property group, or all properties
+-- Purpose: Allow different properties to peak in different weeks instead of sharing
+--          one global set of date_ranges
+--
+-- Precedence when several scoped rates cover the same night (most specific wins):
+--   1. property  - rate attached to the property itself
+--   2. group     - rate attached to a property group the property belongs to
+--   3. global    - rate that applies to every property (the previous behaviour)
+-- Within the group tier the narrowest date range wins, then the most recently updated.
+
+-- Step 1: Property groups
+CREATE TABLE IF NOT EXISTS property_groups (
+  group_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_name TEXT NOT NULL UNIQUE CHECK (length(trim(group_name)) > 0),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS property_group_members (
+  group_id UUID NOT NULL REFERENCES property_groups(group_id) ON DELETE CASCADE,
+  property_internal_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (group_id, property_internal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_group_members_property
+ON property_group_members (property_internal_id);
+
+ALTER TABLE property_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON property_groups
+  FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable all operations for authenticated users" ON property_group_members
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 2: Scope columns on date_ranges (existing rows become global)
+ALTER TABLE date_ranges
+  ADD COLUMN IF NOT EXISTS scope_type TEXT NOT NULL DEFAULT 'global',
+  ADD COLUMN IF NOT EXISTS property_internal_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS property_group_id UUID REFERENCES property_groups(group_id) ON DELETE CASCADE;
+
+ALTER TABLE date_ranges
+  ADD CONSTRAINT date_ranges_scope_type_check
+  CHECK (scope_type IN ('global', 'group', 'property'));
+
+-- Exactly the target column matching the scope must be set
+ALTER TABLE date_ranges
+  ADD CONSTRAINT date_ranges_scope_target_check
+  CHECK (
+    (scope_type = 'global' AND property_internal_id IS NULL AND property_group_id IS NULL) OR
+    (scope_type = 'group' AND property_group_id IS NOT NULL AND property_internal_id IS NULL) OR
+    (scope_type = 'property' AND property_internal_id IS NOT NULL AND property_group_id IS NULL)
+  );
+
+-- Step 3: Replace the global no-overlap exclusion constraint with a per-scope one.
+-- A property rate may overlap a global rate (that is the point), but two rates with
+-- the same scope target still may not overlap.
+DO $$
+DECLARE
+  v_constraint_name TEXT;
+BEGIN
+  FOR v_constraint_name IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'date_ranges'::regclass AND contype = 'x'
+  LOOP
+    EXECUTE format('ALTER TABLE date_ranges DROP CONSTRAINT %I', v_constraint_name);
+  END LOOP;
+END $$;
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE date_ranges
+  ADD CONSTRAINT date_ranges_no_overlap_per_scope
+  EXCLUDE USING gist (
+    scope_type WITH =,
+    (COALESCE(property_internal_id, property_group_id, '00000000-0000-0000-0000-000000000000'::UUID)) WITH =,
+    daterange(start_date::DATE, end_date::DATE, '[]') WITH &&
+  );
+
+CREATE INDEX IF NOT EXISTS idx_date_ranges_property_scope
+ON date_ranges (property_internal_id)
+WHERE scope_type = 'property';
+
+CREATE INDEX IF NOT EXISTS idx_date_ranges_group_scope
+ON date_ranges (property_group_id)
+WHERE scope_type = 'group';
+
+-- Step 4: Resolve the single seasonal rate that applies to a property on a date
+CREATE OR REPLACE FUNCTION resolve_seasonal_rate(
+  p_property_internal_id UUID,
+  p_date DATE
+) RETURNS TABLE(
+  rate_id UUID,
+  rate_name TEXT,
+  discount_rate NUMERIC,
+  scope_type TEXT
+) LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT dr.rate_id, dr.rate_name, dr.discount_rate, dr.scope_type
+  FROM date_ranges dr
+  WHERE p_date BETWEEN dr.start_date::DATE AND dr.end_date::DATE
+    AND (
+      dr.scope_type = 'global'
+      OR (dr.scope_type = 'property' AND dr.property_internal_id = p_property_internal_id)
+      OR (dr.scope_type = 'group' AND dr.property_group_id IN (
+        SELECT pgm.group_id FROM property_group_members pgm
+        WHERE pgm.property_internal_id = p_property_internal_id
+      ))
+    )
+  ORDER BY
+    CASE dr.scope_type WHEN 'property' THEN 1 WHEN 'group' THEN 2 ELSE 3 END,
+    (dr.end_date::DATE - dr.start_date::DATE),
+    dr.updated_at DESC NULLS LAST
+  LIMIT 1;
+$$;
+
+-- Step 5: Rebuild calculate_final_price on top of resolve_seasonal_rate.
+-- Return columns are unchanged apart from the seasonal rate name/scope, which the
+-- UI uses to explain which rate won.
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_rate RECORD;
+  v_seasonal_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_seasonal_rate := v_rate.discount_rate;
+  END IF;
+
+  v_adjusted := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  v_discount_pct := COALESCE(
+    get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+  v_discounted := ROUND(v_adjusted * (1 - v_discount_pct), 2);
+  v_final := GREATEST(v_discounted, v_property.min_price_per_day);
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_adjusted - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate.rate_name,
+    v_rate.scope_type,
+    v_adjusted,
+    v_adjusted - v_discounted,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_discount_pct > 0,
+    v_override_price IS NULL AND v_discounted < v_property.min_price_per_day,
+    v_override_price IS NOT NULL;
+END;
+$$;
+
+-- Step 6: Rebuild preview_pricing_calendar so every day goes through the same
+-- scope-aware calculation
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(p_property_id, v_date, p_nights);
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      GREATEST(v_price.discounted_price_per_night, v_price.min_price_per_night),
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+-- Step 7: Scope-aware overlap check used by the seasonal rate form
+DROP FUNCTION IF EXISTS check_date_range_overlap(DATE, DATE, UUID);
+
+CREATE OR REPLACE FUNCTION check_date_range_overlap(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_exclude_id UUID DEFAULT NULL,
+  p_scope_type TEXT DEFAULT 'global',
+  p_scope_target_id UUID DEFAULT NULL
+) RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  start_date DATE,
+  end_date DATE,
+  rate_adjustment NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dr.rate_id as id,
+    dr.rate_name as name,
+    dr.start_date::DATE,
+    dr.end_date::DATE,
+    dr.discount_rate as rate_adjustment
+  FROM date_ranges dr
+  WHERE daterange(dr.start_date::DATE, dr.end_date::DATE, '[]') && daterange(p_start_date, p_end_date, '[]')
+    AND dr.scope_type = p_scope_type
+    AND COALESCE(dr.property_internal_id, dr.property_group_id) IS NOT DISTINCT FROM p_scope_target_id
+    AND (p_exclude_id IS NULL OR dr.rate_id != p_exclude_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION resolve_seasonal_rate(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_date_range_overlap(DATE, DATE, UUID, TEXT, UUID) TO authenticated;
+
+COMMENT ON TABLE property_groups IS 'Named groups of properties that can share seasonal rates (e.g. sea-view flats)';
+COMMENT ON COLUMN date_ranges.scope_type IS 'global = all properties, group = property_group_id, property = property_internal_id';
+COMMENT ON FUNCTION resolve_seasonal_rate(UUID, DATE) IS 'Returns the seasonal rate that applies to a property on a date: property beats group beats global';
+COMMENT ON FUNCTION check_date_range_overlap(DATE, DATE, UUID, TEXT, UUID) IS 'Checks if a date range overlaps with existing seasonal rates of the same scope target, optionally excluding a specific rate by ID';
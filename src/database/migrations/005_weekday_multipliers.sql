@@ -0,0 +1,216 @@
+-- Migration: Day-of-week pricing multipliers
+-- Purpose: Let each property price weekend nights differently from weekdays
+--          (e.g. +15% on Fri/Sat, -5% Sun-Thu)
+--
+-- Price flow after this migration:
+--   base -> seasonal adjustment -> weekday multiplier -> last-minute discount -> minimum clamp
+
+-- Step 1: Weekday multipliers per property
+-- day_of_week follows EXTRACT(DOW): 0 = Sunday ... 6 = Saturday
+-- adjustment_rate uses the same convention as date_ranges.discount_rate (0.15 = +15%)
+CREATE TABLE IF NOT EXISTS property_weekday_multipliers (
+  property_internal_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  adjustment_rate NUMERIC(5,4) NOT NULL DEFAULT 0 CHECK (adjustment_rate BETWEEN -0.5 AND 1),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (property_internal_id, day_of_week)
+);
+
+ALTER TABLE property_weekday_multipliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON property_weekday_multipliers
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 2: Look up the multiplier for a property on a date (0 when none is set)
+CREATE OR REPLACE FUNCTION get_weekday_adjustment(
+  p_property_internal_id UUID,
+  p_date DATE
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE((
+    SELECT pwm.adjustment_rate
+    FROM property_weekday_multipliers pwm
+    WHERE pwm.property_internal_id = p_property_internal_id
+      AND pwm.day_of_week = EXTRACT(DOW FROM p_date)::SMALLINT
+  ), 0);
+$$;
+
+-- Step 3: Rebuild calculate_final_price with the weekday step.
+-- adjusted_price_per_night now includes both the seasonal and the weekday adjustment.
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_rate RECORD;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_seasonal_rate := v_rate.discount_rate;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  v_discount_pct := COALESCE(
+    get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+  v_discounted := ROUND(v_adjusted * (1 - v_discount_pct), 2);
+  v_final := GREATEST(v_discounted, v_property.min_price_per_day);
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate.rate_name,
+    v_rate.scope_type,
+    v_adjusted - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted,
+    v_adjusted - v_discounted,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_discount_pct > 0,
+    v_override_price IS NULL AND v_discounted < v_property.min_price_per_day,
+    v_override_price IS NOT NULL;
+END;
+$$;
+
+-- Step 4: Rebuild preview_pricing_calendar with the weekday percentage.
+-- Percentages are relative to the base price so the client can strip components
+-- when pricing toggles are switched off.
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(p_property_id, v_date, p_nights);
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      GREATEST(v_price.discounted_price_per_night, v_price.min_price_per_night),
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_weekday_adjustment(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE property_weekday_multipliers IS 'Per-property price adjustment by day of week (0 = Sunday), applied after the seasonal rate';
+COMMENT ON FUNCTION get_weekday_adjustment(UUID, DATE) IS 'Returns the weekday adjustment rate for a property on a date, or 0 when none is configured';
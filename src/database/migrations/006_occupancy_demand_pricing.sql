@@ -0,0 +1,347 @@
+-- Migration: Occupancy-driven demand pricing
+-- Purpose: Move prices up or down depending on how booked a property (or the whole
+--          portfolio) is for the target week, compared with the same lead time last year
+--
+-- Price flow after this migration:
+--   base -> seasonal -> weekday -> demand -> last-minute discount -> minimum clamp
+--
+-- Pace is measured per calendar week (Monday to Sunday). Last year's week is the one
+-- 364 days earlier so weekdays line up, and only bookings that already existed at the
+-- same lead time are counted.
+
+-- Step 1: Demand pricing settings
+-- A row with property_internal_id NULL is the portfolio default; a property row overrides it.
+-- sensitivity converts the occupancy difference into a rate: with 0.5, being 10 points
+-- ahead of last year raises prices by 5%.
+CREATE TABLE IF NOT EXISTS demand_pricing_settings (
+  settings_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_internal_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  occupancy_basis TEXT NOT NULL DEFAULT 'property' CHECK (occupancy_basis IN ('property', 'portfolio')),
+  sensitivity NUMERIC(5,4) NOT NULL DEFAULT 0.5 CHECK (sensitivity BETWEEN 0 AND 5),
+  max_increase NUMERIC(5,4) NOT NULL DEFAULT 0.2 CHECK (max_increase BETWEEN 0 AND 1),
+  max_decrease NUMERIC(5,4) NOT NULL DEFAULT 0.1 CHECK (max_decrease BETWEEN 0 AND 0.5),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_demand_pricing_settings_property
+ON demand_pricing_settings (property_internal_id)
+WHERE property_internal_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_demand_pricing_settings_portfolio
+ON demand_pricing_settings ((property_internal_id IS NULL))
+WHERE property_internal_id IS NULL;
+
+ALTER TABLE demand_pricing_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON demand_pricing_settings
+  FOR ALL USING (auth.role() = 'authenticated');
+
+INSERT INTO demand_pricing_settings (property_internal_id, is_enabled)
+SELECT NULL, false
+WHERE NOT EXISTS (SELECT 1 FROM demand_pricing_settings WHERE property_internal_id IS NULL);
+
+-- Step 2: Index for the pace lookups
+CREATE INDEX IF NOT EXISTS idx_bookings_property_stay
+ON bookings (property_internal_id, arrival_date, departure_date)
+WHERE booking_status <> 'cancelled';
+
+-- Step 3: Occupancy pace for the week containing a date
+CREATE OR REPLACE FUNCTION get_occupancy_pace(
+  p_property_internal_id UUID,
+  p_check_date DATE,
+  p_basis TEXT DEFAULT 'property'
+) RETURNS TABLE(
+  week_start DATE,
+  lead_days INTEGER,
+  current_occupancy NUMERIC,
+  last_year_occupancy NUMERIC,
+  pace_difference NUMERIC
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_week_start DATE := date_trunc('week', p_check_date)::DATE;
+  v_week_end DATE := date_trunc('week', p_check_date)::DATE + 7;  -- exclusive
+  v_lead_days INTEGER := GREATEST(date_trunc('week', p_check_date)::DATE - CURRENT_DATE, 0);
+  v_capacity INTEGER;
+  v_current_nights NUMERIC;
+  v_last_year_nights NUMERIC;
+BEGIN
+  IF p_basis NOT IN ('property', 'portfolio') THEN
+    RAISE EXCEPTION 'Unknown occupancy basis %', p_basis;
+  END IF;
+
+  IF p_basis = 'portfolio' THEN
+    SELECT COUNT(*) * 7 INTO v_capacity FROM properties;
+  ELSE
+    v_capacity := 7;
+  END IF;
+
+  IF v_capacity = 0 THEN
+    RETURN QUERY SELECT v_week_start, v_lead_days, 0::NUMERIC, 0::NUMERIC, 0::NUMERIC;
+    RETURN;
+  END IF;
+
+  -- Nights booked inside the target week as of today
+  SELECT COALESCE(SUM(LEAST(b.departure_date, v_week_end) - GREATEST(b.arrival_date, v_week_start)), 0)
+  INTO v_current_nights
+  FROM bookings b
+  WHERE b.booking_status <> 'cancelled'
+    AND b.arrival_date < v_week_end
+    AND b.departure_date > v_week_start
+    AND (p_basis = 'portfolio' OR b.property_internal_id = p_property_internal_id);
+
+  -- Nights booked inside the same week last year, as of the same lead time
+  SELECT COALESCE(SUM(LEAST(b.departure_date, v_week_end - 364) - GREATEST(b.arrival_date, v_week_start - 364)), 0)
+  INTO v_last_year_nights
+  FROM bookings b
+  WHERE b.booking_status <> 'cancelled'
+    AND b.arrival_date < v_week_end - 364
+    AND b.departure_date > v_week_start - 364
+    AND b.created_at::DATE <= (v_week_start - 364) - v_lead_days
+    AND (p_basis = 'portfolio' OR b.property_internal_id = p_property_internal_id);
+
+  RETURN QUERY SELECT
+    v_week_start,
+    v_lead_days,
+    ROUND(v_current_nights / v_capacity, 4),
+    ROUND(v_last_year_nights / v_capacity, 4),
+    ROUND((v_current_nights - v_last_year_nights) / v_capacity, 4);
+END;
+$$;
+
+-- Step 4: Demand adjustment rate for a property on a date (0 when disabled)
+CREATE OR REPLACE FUNCTION get_demand_adjustment(
+  p_property_internal_id UUID,
+  p_check_date DATE
+) RETURNS NUMERIC LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_settings RECORD;
+  v_pace RECORD;
+BEGIN
+  IF p_check_date < CURRENT_DATE THEN
+    RETURN 0;
+  END IF;
+
+  SELECT dps.* INTO v_settings
+  FROM demand_pricing_settings dps
+  WHERE dps.property_internal_id = p_property_internal_id
+     OR dps.property_internal_id IS NULL
+  ORDER BY dps.property_internal_id NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND OR NOT v_settings.is_enabled THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_pace
+  FROM get_occupancy_pace(p_property_internal_id, p_check_date, v_settings.occupancy_basis);
+
+  RETURN ROUND(
+    LEAST(
+      GREATEST(v_pace.pace_difference * v_settings.sensitivity, -v_settings.max_decrease),
+      v_settings.max_increase
+    ),
+    4
+  );
+END;
+$$;
+
+-- Step 5: Rebuild calculate_final_price with the demand step.
+-- adjusted_price_per_night now includes seasonal, weekday and demand adjustments.
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  demand_adjustment NUMERIC,
+  demand_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_demand_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_rate RECORD;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_weekday_price NUMERIC;
+  v_demand_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_seasonal_rate := v_rate.discount_rate;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  v_weekday_price := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  -- A downward demand move stops at the property minimum
+  v_demand_rate := get_demand_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_weekday_price * (1 + v_demand_rate), 2);
+  IF v_demand_rate < 0 THEN
+    v_adjusted := GREATEST(v_adjusted, LEAST(v_weekday_price, v_property.min_price_per_day));
+  END IF;
+
+  v_discount_pct := COALESCE(
+    get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+  v_discounted := ROUND(v_adjusted * (1 - v_discount_pct), 2);
+  v_final := GREATEST(v_discounted, v_property.min_price_per_day);
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate.rate_name,
+    v_rate.scope_type,
+    v_weekday_price - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted - v_weekday_price,
+    v_demand_rate,
+    v_adjusted,
+    v_adjusted - v_discounted,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_adjusted <> v_weekday_price,
+    v_discount_pct > 0,
+    v_override_price IS NULL AND v_discounted < v_property.min_price_per_day,
+    v_override_price IS NOT NULL;
+END;
+$$;
+
+-- Step 6: Rebuild preview_pricing_calendar with the demand percentage
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(p_property_id, v_date, p_nights);
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.demand_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      GREATEST(v_price.discounted_price_per_night, v_price.min_price_per_night),
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_occupancy_pace(UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_demand_adjustment(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE demand_pricing_settings IS 'Bounds and sensitivity for occupancy-driven pricing; property_internal_id NULL is the portfolio default';
+COMMENT ON FUNCTION get_occupancy_pace(UUID, DATE, TEXT) IS 'Occupancy of the week containing a date versus the same week last year at the same lead time';
+COMMENT ON FUNCTION get_demand_adjustment(UUID, DATE) IS 'Returns the bounded demand adjustment rate for a property on a date, or 0 when demand pricing is disabled';
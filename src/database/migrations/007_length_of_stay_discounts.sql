@@ -0,0 +1,250 @@
+-- Migration: Length-of-stay discount tiers
+-- Purpose: Give long stays a lower nightly rate than short ones
+--          (e.g. 7+ nights -10%, 28+ nights -25%)
+--
+-- Price flow after this migration:
+--   base -> seasonal -> weekday -> demand -> last-minute discount -> length-of-stay discount -> minimum clamp
+--
+-- Only the highest tier the stay qualifies for is applied; tiers do not stack.
+
+-- Step 1: Length-of-stay tiers per property
+-- discount_rate uses the same convention as last-minute discounts (0.10 = 10% off)
+CREATE TABLE IF NOT EXISTS property_length_of_stay_discounts (
+  tier_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_internal_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  min_nights INTEGER NOT NULL CHECK (min_nights BETWEEN 2 AND 365),
+  discount_rate NUMERIC(5,4) NOT NULL CHECK (discount_rate > 0 AND discount_rate <= 0.5),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (property_internal_id, min_nights)
+);
+
+ALTER TABLE property_length_of_stay_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON property_length_of_stay_discounts
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 2: Discount rate for a stay of p_nights (0 when no tier applies)
+CREATE OR REPLACE FUNCTION get_length_of_stay_discount(
+  p_property_internal_id UUID,
+  p_nights INTEGER
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE((
+    SELECT los.discount_rate
+    FROM property_length_of_stay_discounts los
+    WHERE los.property_internal_id = p_property_internal_id
+      AND los.min_nights <= p_nights
+    ORDER BY los.min_nights DESC
+    LIMIT 1
+  ), 0);
+$$;
+
+-- Step 3: Rebuild calculate_final_price with the length-of-stay step.
+-- discounted_price_per_night now includes both the last-minute and the length-of-stay discount.
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  demand_adjustment NUMERIC,
+  demand_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  los_discount NUMERIC,
+  los_rate NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_demand_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  has_los_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_rate RECORD;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_weekday_price NUMERIC;
+  v_demand_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_last_minute_price NUMERIC;
+  v_los_rate NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_seasonal_rate := v_rate.discount_rate;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  v_weekday_price := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  -- A downward demand move stops at the property minimum
+  v_demand_rate := get_demand_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_weekday_price * (1 + v_demand_rate), 2);
+  IF v_demand_rate < 0 THEN
+    v_adjusted := GREATEST(v_adjusted, LEAST(v_weekday_price, v_property.min_price_per_day));
+  END IF;
+
+  v_discount_pct := COALESCE(
+    get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+  v_last_minute_price := ROUND(v_adjusted * (1 - v_discount_pct), 2);
+
+  v_los_rate := get_length_of_stay_discount(v_property.id, p_nights);
+  v_discounted := ROUND(v_last_minute_price * (1 - v_los_rate), 2);
+  v_final := GREATEST(v_discounted, v_property.min_price_per_day);
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate.rate_name,
+    v_rate.scope_type,
+    v_weekday_price - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted - v_weekday_price,
+    v_demand_rate,
+    v_adjusted,
+    v_adjusted - v_last_minute_price,
+    v_last_minute_price - v_discounted,
+    v_los_rate,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_adjusted <> v_weekday_price,
+    v_discount_pct > 0,
+    v_los_rate > 0,
+    v_override_price IS NULL AND v_discounted < v_property.min_price_per_day,
+    v_override_price IS NOT NULL;
+END;
+$$;
+
+-- Step 4: Rebuild preview_pricing_calendar with the length-of-stay percentage
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(p_property_id, v_date, p_nights);
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.demand_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      ROUND(v_price.los_rate * 100, 2),
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      GREATEST(v_price.discounted_price_per_night, v_price.min_price_per_night),
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_length_of_stay_discount(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE property_length_of_stay_discounts IS 'Per-property nightly discount tiers by stay length; the highest qualifying min_nights wins';
+COMMENT ON FUNCTION get_length_of_stay_discount(UUID, INTEGER) IS 'Returns the length-of-stay discount rate for a property and stay length, or 0 when no tier applies';
@@ -0,0 +1,354 @@
+-- Migration: Gap-night filler pricing
+-- Purpose: Discount short unsold holes between bookings (e.g. a 2-night gap below the
+--          usual minimum stay) so they have a chance to sell
+--
+-- Price flow after this migration:
+--   base -> seasonal -> weekday -> demand -> last-minute discount -> gap filler discount
+--        -> length-of-stay discount -> minimum clamp
+--
+-- A gap is a run of free nights that starts on a booking's departure day and ends on the
+-- next booking's arrival day. Bookings count when confirmed or pending, matching
+-- BookingService.getOverlappingBookings.
+
+-- Step 1: Gap filler settings
+-- A row with property_internal_id NULL is the portfolio default; a property row overrides it.
+CREATE TABLE IF NOT EXISTS gap_filler_settings (
+  settings_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_internal_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  max_gap_nights SMALLINT NOT NULL DEFAULT 2 CHECK (max_gap_nights BETWEEN 1 AND 14),
+  discount_rate NUMERIC(5,4) NOT NULL DEFAULT 0.15 CHECK (discount_rate BETWEEN 0 AND 0.5),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gap_filler_settings_property
+ON gap_filler_settings (property_internal_id)
+WHERE property_internal_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gap_filler_settings_portfolio
+ON gap_filler_settings ((property_internal_id IS NULL))
+WHERE property_internal_id IS NULL;
+
+ALTER TABLE gap_filler_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON gap_filler_settings
+  FOR ALL USING (auth.role() = 'authenticated');
+
+INSERT INTO gap_filler_settings (property_internal_id, is_enabled)
+SELECT NULL, false
+WHERE NOT EXISTS (SELECT 1 FROM gap_filler_settings WHERE property_internal_id IS NULL);
+
+-- Step 2: The gap between bookings that contains a date (no row when the date is booked
+-- or is not enclosed by bookings on both sides)
+CREATE OR REPLACE FUNCTION get_booking_gap(
+  p_property_internal_id UUID,
+  p_date DATE
+) RETURNS TABLE(
+  gap_start DATE,
+  gap_end DATE,     -- arrival day of the next booking (exclusive)
+  gap_nights INTEGER
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_previous_departure DATE;
+  v_next_arrival DATE;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.property_internal_id = p_property_internal_id
+      AND b.booking_status IN ('confirmed', 'pending')
+      AND b.arrival_date <= p_date
+      AND b.departure_date > p_date
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT MAX(b.departure_date) INTO v_previous_departure
+  FROM bookings b
+  WHERE b.property_internal_id = p_property_internal_id
+    AND b.booking_status IN ('confirmed', 'pending')
+    AND b.departure_date <= p_date;
+
+  SELECT MIN(b.arrival_date) INTO v_next_arrival
+  FROM bookings b
+  WHERE b.property_internal_id = p_property_internal_id
+    AND b.booking_status IN ('confirmed', 'pending')
+    AND b.arrival_date > p_date;
+
+  IF v_previous_departure IS NULL OR v_next_arrival IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT v_previous_departure, v_next_arrival, (v_next_arrival - v_previous_departure)::INTEGER;
+END;
+$$;
+
+-- Step 3: Filler discount for a date (no row when disabled or the date is not in a short gap)
+CREATE OR REPLACE FUNCTION get_gap_filler_discount(
+  p_property_internal_id UUID,
+  p_date DATE
+) RETURNS TABLE(
+  discount_rate NUMERIC,
+  gap_nights INTEGER
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_settings RECORD;
+  v_gap RECORD;
+BEGIN
+  IF p_date < CURRENT_DATE THEN
+    RETURN;
+  END IF;
+
+  SELECT gfs.* INTO v_settings
+  FROM gap_filler_settings gfs
+  WHERE gfs.property_internal_id = p_property_internal_id
+     OR gfs.property_internal_id IS NULL
+  ORDER BY gfs.property_internal_id NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND OR NOT v_settings.is_enabled THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_gap FROM get_booking_gap(p_property_internal_id, p_date);
+
+  IF NOT FOUND OR v_gap.gap_nights > v_settings.max_gap_nights THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT v_settings.discount_rate, v_gap.gap_nights;
+END;
+$$;
+
+-- Step 4: Rebuild calculate_final_price with the gap filler step.
+-- gap_nights is the length of the gap the night falls in, NULL outside filler gaps.
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  demand_adjustment NUMERIC,
+  demand_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  gap_discount NUMERIC,
+  gap_rate NUMERIC,
+  gap_nights INTEGER,
+  los_discount NUMERIC,
+  los_rate NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_demand_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  has_gap_discount BOOLEAN,
+  has_los_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_rate RECORD;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_weekday_price NUMERIC;
+  v_demand_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_last_minute_price NUMERIC;
+  v_gap RECORD;
+  v_gap_rate NUMERIC := 0;
+  v_gap_price NUMERIC;
+  v_los_rate NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_seasonal_rate := v_rate.discount_rate;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  v_weekday_price := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  -- A downward demand move stops at the property minimum
+  v_demand_rate := get_demand_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_weekday_price * (1 + v_demand_rate), 2);
+  IF v_demand_rate < 0 THEN
+    v_adjusted := GREATEST(v_adjusted, LEAST(v_weekday_price, v_property.min_price_per_day));
+  END IF;
+
+  v_discount_pct := COALESCE(
+    get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+  v_last_minute_price := ROUND(v_adjusted * (1 - v_discount_pct), 2);
+
+  SELECT * INTO v_gap FROM get_gap_filler_discount(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_gap_rate := v_gap.discount_rate;
+  END IF;
+  v_gap_price := ROUND(v_last_minute_price * (1 - v_gap_rate), 2);
+
+  v_los_rate := get_length_of_stay_discount(v_property.id, p_nights);
+  v_discounted := ROUND(v_gap_price * (1 - v_los_rate), 2);
+  v_final := GREATEST(v_discounted, v_property.min_price_per_day);
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate.rate_name,
+    v_rate.scope_type,
+    v_weekday_price - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted - v_weekday_price,
+    v_demand_rate,
+    v_adjusted,
+    v_adjusted - v_last_minute_price,
+    v_last_minute_price - v_gap_price,
+    v_gap_rate,
+    v_gap.gap_nights,
+    v_gap_price - v_discounted,
+    v_los_rate,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_adjusted <> v_weekday_price,
+    v_discount_pct > 0,
+    v_gap_rate > 0,
+    v_los_rate > 0,
+    v_override_price IS NULL AND v_discounted < v_property.min_price_per_day,
+    v_override_price IS NOT NULL;
+END;
+$$;
+
+-- Step 5: Rebuild preview_pricing_calendar with the gap filler percentage and gap length
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(p_property_id, v_date, p_nights);
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.demand_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      ROUND(v_price.gap_rate * 100, 2),
+      v_price.gap_nights,
+      ROUND(v_price.los_rate * 100, 2),
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      GREATEST(v_price.discounted_price_per_night, v_price.min_price_per_night),
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booking_gap(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_gap_filler_discount(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE gap_filler_settings IS 'Discount and maximum length for short gaps between bookings; property_internal_id NULL is the portfolio default';
+COMMENT ON FUNCTION get_booking_gap(UUID, DATE) IS 'Returns the free run between two bookings that contains a date, if any';
+COMMENT ON FUNCTION get_gap_filler_discount(UUID, DATE) IS 'Returns the filler discount rate and gap length when a date falls in a short gap and gap filling is enabled';
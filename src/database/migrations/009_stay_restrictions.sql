@@ -0,0 +1,75 @@
+-- Migration: Stay restrictions per seasonal period
+-- Purpose: Let a seasonal rate carry booking rules for its dates, e.g. "Saturday-to-Saturday
+--          only in August" or "minimum 3 nights over Easter"
+--
+-- Prices are not affected; the rules are emitted in the Lodgify payload and checked
+-- against existing bookings when a rate is saved.
+--
+-- A NULL column means "no rule". Weekdays use EXTRACT(DOW) numbering (0 = Sunday ... 6 = Saturday).
+-- The rules that apply to a stay are those of the period covering its arrival night.
+
+-- Step 1: Restriction columns on date_ranges
+ALTER TABLE date_ranges
+  ADD COLUMN IF NOT EXISTS min_stay SMALLINT CHECK (min_stay BETWEEN 1 AND 365),
+  ADD COLUMN IF NOT EXISTS max_stay SMALLINT CHECK (max_stay BETWEEN 1 AND 365),
+  ADD COLUMN IF NOT EXISTS arrival_days SMALLINT[]
+    CHECK (cardinality(arrival_days) > 0 AND arrival_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  ADD COLUMN IF NOT EXISTS departure_days SMALLINT[]
+    CHECK (cardinality(departure_days) > 0 AND departure_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+ALTER TABLE date_ranges DROP CONSTRAINT IF EXISTS date_ranges_stay_length_check;
+ALTER TABLE date_ranges ADD CONSTRAINT date_ranges_stay_length_check
+  CHECK (min_stay IS NULL OR max_stay IS NULL OR min_stay <= max_stay);
+
+-- Step 2: Restrictions for each night in a range (no row for nights without rules).
+-- Uses the same scope precedence as resolve_seasonal_rate, but only among rates that carry
+-- rules, so a property-specific price tweak does not drop a portfolio-wide booking rule.
+CREATE OR REPLACE FUNCTION get_stay_restrictions(
+  p_property_internal_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+) RETURNS TABLE(
+  stay_date DATE,
+  rate_id UUID,
+  rate_name TEXT,
+  min_stay SMALLINT,
+  max_stay SMALLINT,
+  arrival_days SMALLINT[],
+  departure_days SMALLINT[]
+) LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT d::DATE, r.rate_id, r.rate_name, r.min_stay, r.max_stay, r.arrival_days, r.departure_days
+  FROM generate_series(p_start_date, p_end_date, INTERVAL '1 day') AS d
+  CROSS JOIN LATERAL (
+    SELECT dr.rate_id, dr.rate_name, dr.min_stay, dr.max_stay, dr.arrival_days, dr.departure_days
+    FROM date_ranges dr
+    WHERE d::DATE BETWEEN dr.start_date::DATE AND dr.end_date::DATE
+      AND (
+        dr.min_stay IS NOT NULL
+        OR dr.max_stay IS NOT NULL
+        OR dr.arrival_days IS NOT NULL
+        OR dr.departure_days IS NOT NULL
+      )
+      AND (
+        dr.scope_type = 'global'
+        OR (dr.scope_type = 'property' AND dr.property_internal_id = p_property_internal_id)
+        OR (dr.scope_type = 'group' AND dr.property_group_id IN (
+          SELECT pgm.group_id FROM property_group_members pgm
+          WHERE pgm.property_internal_id = p_property_internal_id
+        ))
+      )
+    ORDER BY
+      CASE dr.scope_type WHEN 'property' THEN 1 WHEN 'group' THEN 2 ELSE 3 END,
+      (dr.end_date::DATE - dr.start_date::DATE),
+      dr.updated_at DESC NULLS LAST
+    LIMIT 1
+  ) r
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stay_restrictions(UUID, DATE, DATE) TO authenticated;
+
+COMMENT ON COLUMN date_ranges.min_stay IS 'Minimum nights for stays arriving in this period; NULL = no rule';
+COMMENT ON COLUMN date_ranges.max_stay IS 'Maximum nights for stays arriving in this period; NULL = no rule';
+COMMENT ON COLUMN date_ranges.arrival_days IS 'Allowed arrival weekdays (0 = Sunday); NULL = any day';
+COMMENT ON COLUMN date_ranges.departure_days IS 'Allowed departure weekdays (0 = Sunday); NULL = any day';
+COMMENT ON FUNCTION get_stay_restrictions(UUID, DATE, DATE) IS 'Returns the stay restrictions that apply to each night of a range for a property';
@@ -0,0 +1,68 @@
+-- Migration: Extra guest fees
+-- Purpose: Per-property capacity (base occupancy, maximum guests) and a nightly fee for
+--          each guest above the base occupancy, optionally overridden by seasonal periods
+--
+-- Nightly prices are not affected; the fee is quoted on top of the stay total and sent to
+-- Lodgify as price_per_additional_guest, charged from guest base_occupancy + 1.
+--
+-- Existing properties start with no extra guest fee until their capacity is set.
+
+-- Step 1: Capacity and fee on properties
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS base_occupancy SMALLINT NOT NULL DEFAULT 2 CHECK (base_occupancy BETWEEN 1 AND 50),
+  ADD COLUMN IF NOT EXISTS max_guests SMALLINT NOT NULL DEFAULT 2 CHECK (max_guests BETWEEN 1 AND 50),
+  ADD COLUMN IF NOT EXISTS extra_guest_fee NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (extra_guest_fee BETWEEN 0 AND 1000);
+
+ALTER TABLE properties DROP CONSTRAINT IF EXISTS properties_guest_capacity_check;
+ALTER TABLE properties ADD CONSTRAINT properties_guest_capacity_check
+  CHECK (max_guests >= base_occupancy);
+
+-- Step 2: Seasonal override of the fee (NULL = use the property fee)
+ALTER TABLE date_ranges
+  ADD COLUMN IF NOT EXISTS extra_guest_fee NUMERIC(10,2) CHECK (extra_guest_fee BETWEEN 0 AND 1000);
+
+-- Step 3: Extra guest fee for each night of a range.
+-- The most specific seasonal period with a fee wins (same precedence as resolve_seasonal_rate),
+-- otherwise the property fee applies.
+CREATE OR REPLACE FUNCTION get_extra_guest_fees(
+  p_property_internal_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+) RETURNS TABLE(
+  stay_date DATE,
+  extra_guest_fee NUMERIC,
+  seasonal_rate_name TEXT   -- NULL when the property fee applies
+) LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT d::DATE, COALESCE(r.extra_guest_fee, p.extra_guest_fee), r.rate_name
+  FROM properties p
+  CROSS JOIN generate_series(p_start_date, p_end_date, INTERVAL '1 day') AS d
+  LEFT JOIN LATERAL (
+    SELECT dr.rate_name, dr.extra_guest_fee
+    FROM date_ranges dr
+    WHERE d::DATE BETWEEN dr.start_date::DATE AND dr.end_date::DATE
+      AND dr.extra_guest_fee IS NOT NULL
+      AND (
+        dr.scope_type = 'global'
+        OR (dr.scope_type = 'property' AND dr.property_internal_id = p_property_internal_id)
+        OR (dr.scope_type = 'group' AND dr.property_group_id IN (
+          SELECT pgm.group_id FROM property_group_members pgm
+          WHERE pgm.property_internal_id = p_property_internal_id
+        ))
+      )
+    ORDER BY
+      CASE dr.scope_type WHEN 'property' THEN 1 WHEN 'group' THEN 2 ELSE 3 END,
+      (dr.end_date::DATE - dr.start_date::DATE),
+      dr.updated_at DESC NULLS LAST
+    LIMIT 1
+  ) r ON true
+  WHERE p.id = p_property_internal_id
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_extra_guest_fees(UUID, DATE, DATE) TO authenticated;
+
+COMMENT ON COLUMN properties.base_occupancy IS 'Guests included in the nightly price';
+COMMENT ON COLUMN properties.max_guests IS 'Maximum number of guests the property sleeps';
+COMMENT ON COLUMN properties.extra_guest_fee IS 'Fee per night for each guest above base_occupancy';
+COMMENT ON COLUMN date_ranges.extra_guest_fee IS 'Seasonal extra guest fee per night; NULL = use the property fee';
+COMMENT ON FUNCTION get_extra_guest_fees(UUID, DATE, DATE) IS 'Returns the extra guest fee that applies to each night of a range for a property';
@@ -0,0 +1,90 @@
+-- Migration: Multi-currency
+-- Purpose: Store the currency each property is priced in, and let owners report a
+--          portfolio in one currency using exchange rates they enter themselves
+--
+-- Prices are never converted for pricing or for Lodgify; a property's prices stay in its
+-- own currency. Conversion only happens for reporting, using the latest stored rate on or
+-- before the date being reported. There is no live rate feed.
+--
+-- Existing properties are priced in EUR, which is what the UI has always assumed.
+
+-- Step 1: Currency on properties (ISO 4217 code)
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'EUR' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Step 2: Manually entered exchange rate snapshots
+-- 1 unit of base_currency = rate units of quote_currency from effective_date onwards.
+-- The reverse direction is derived (1 / rate) when no rate is stored for it.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  rate_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT exchange_rates_distinct_pair CHECK (base_currency <> quote_currency),
+  CONSTRAINT exchange_rates_pair_date_key UNIQUE (base_currency, quote_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+ON exchange_rates (base_currency, quote_currency, effective_date DESC);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON exchange_rates
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 3: Portfolio reporting currency (single row; NULL = report in each property's currency)
+CREATE TABLE IF NOT EXISTS currency_settings (
+  settings_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reporting_currency TEXT CHECK (reporting_currency ~ '^[A-Z]{3}$'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_currency_settings_singleton
+ON currency_settings ((true));
+
+ALTER TABLE currency_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON currency_settings
+  FOR ALL USING (auth.role() = 'authenticated');
+
+INSERT INTO currency_settings (reporting_currency)
+SELECT NULL
+WHERE NOT EXISTS (SELECT 1 FROM currency_settings);
+
+-- Step 4: Rate that converts one currency into another on a date.
+-- Uses the latest stored rate on or before the date, in either direction; NULL when none exists.
+CREATE OR REPLACE FUNCTION get_exchange_rate(
+  p_from_currency TEXT,
+  p_to_currency TEXT,
+  p_on_date DATE DEFAULT CURRENT_DATE
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT CASE
+    WHEN p_from_currency = p_to_currency THEN 1::NUMERIC
+    ELSE (
+      SELECT CASE WHEN er.base_currency = p_from_currency THEN er.rate ELSE 1 / er.rate END
+      FROM exchange_rates er
+      WHERE er.effective_date <= p_on_date
+        AND (
+          (er.base_currency = p_from_currency AND er.quote_currency = p_to_currency)
+          OR (er.base_currency = p_to_currency AND er.quote_currency = p_from_currency)
+        )
+      ORDER BY
+        er.effective_date DESC,
+        (er.base_currency = p_from_currency) DESC   -- a stored rate beats a derived one
+      LIMIT 1
+    )
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_exchange_rate(TEXT, TEXT, DATE) TO authenticated;
+
+COMMENT ON COLUMN properties.currency IS 'ISO 4217 code the property is priced in';
+COMMENT ON TABLE exchange_rates IS 'Manually entered exchange rates: 1 base_currency = rate quote_currency from effective_date';
+COMMENT ON TABLE currency_settings IS 'Single row holding the portfolio reporting currency';
+COMMENT ON COLUMN currency_settings.reporting_currency IS 'Currency portfolio totals are converted into; NULL = no conversion';
+COMMENT ON FUNCTION get_exchange_rate(TEXT, TEXT, DATE) IS 'Returns the rate converting p_from_currency into p_to_currency on a date, or NULL when no rate is stored';
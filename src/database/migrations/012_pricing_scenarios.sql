@@ -0,0 +1,337 @@
+-- Migration: Pricing scenarios
+-- Purpose: Named "what-if" copies of the pricing configuration (base and minimum prices,
+--          seasonal rates, discount strategies and their rules) that can be edited freely,
+--          previewed against live prices and promoted to live in one transaction
+--
+-- A scenario never changes live rows until it is promoted. Previews apply the scenario
+-- inside a subtransaction, run the normal pricing pipeline and roll the subtransaction
+-- back, so scenario prices always match what calculate_final_price would return after
+-- promotion. Price overrides, weekday multipliers, demand, gap filler and length-of-stay
+-- settings are not part of a scenario and stay as they are live.
+
+-- Step 1: Scenarios
+CREATE TABLE IF NOT EXISTS pricing_scenarios (
+  scenario_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scenario_name TEXT NOT NULL UNIQUE CHECK (length(trim(scenario_name)) > 0),
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'promoted')),
+  promoted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Scenario copies of the live configuration
+-- Row identifiers (rate_id, strategy_id, rule_id) are kept from the live rows they were
+-- copied from, so promotion updates rather than recreates what did not change.
+CREATE TABLE IF NOT EXISTS scenario_property_prices (
+  scenario_id UUID NOT NULL REFERENCES pricing_scenarios(scenario_id) ON DELETE CASCADE,
+  property_internal_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  base_price_per_day NUMERIC(10,2) NOT NULL CHECK (base_price_per_day > 0),
+  min_price_per_day NUMERIC(10,2) NOT NULL CHECK (min_price_per_day > 0),
+  active_discount_strategy_id UUID,  -- strategy_id within the same scenario
+  PRIMARY KEY (scenario_id, property_internal_id),
+  CONSTRAINT scenario_property_prices_min_check CHECK (base_price_per_day >= min_price_per_day)
+);
+
+CREATE TABLE IF NOT EXISTS scenario_date_ranges (
+  scenario_id UUID NOT NULL REFERENCES pricing_scenarios(scenario_id) ON DELETE CASCADE,
+  LIKE date_ranges INCLUDING DEFAULTS INCLUDING CONSTRAINTS,
+  PRIMARY KEY (scenario_id, rate_id)
+);
+
+ALTER TABLE scenario_date_ranges DROP CONSTRAINT IF EXISTS scenario_date_ranges_no_overlap_per_scope;
+ALTER TABLE scenario_date_ranges
+  ADD CONSTRAINT scenario_date_ranges_no_overlap_per_scope
+  EXCLUDE USING gist (
+    scenario_id WITH =,
+    scope_type WITH =,
+    (COALESCE(property_internal_id, property_group_id, '00000000-0000-0000-0000-000000000000'::UUID)) WITH =,
+    daterange(start_date::DATE, end_date::DATE, '[]') WITH &&
+  );
+
+CREATE TABLE IF NOT EXISTS scenario_discount_strategies (
+  scenario_id UUID NOT NULL REFERENCES pricing_scenarios(scenario_id) ON DELETE CASCADE,
+  LIKE discount_strategies INCLUDING DEFAULTS INCLUDING CONSTRAINTS,
+  PRIMARY KEY (scenario_id, strategy_id)
+);
+
+CREATE TABLE IF NOT EXISTS scenario_discount_rules (
+  scenario_id UUID NOT NULL,
+  LIKE discount_rules INCLUDING DEFAULTS INCLUDING CONSTRAINTS,
+  PRIMARY KEY (scenario_id, rule_id),
+  FOREIGN KEY (scenario_id, strategy_id)
+    REFERENCES scenario_discount_strategies(scenario_id, strategy_id) ON DELETE CASCADE
+);
+
+ALTER TABLE pricing_scenarios ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scenario_property_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scenario_date_ranges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scenario_discount_strategies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scenario_discount_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON pricing_scenarios
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all operations for authenticated users" ON scenario_property_prices
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all operations for authenticated users" ON scenario_date_ranges
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all operations for authenticated users" ON scenario_discount_strategies
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all operations for authenticated users" ON scenario_discount_rules
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 3: Create a scenario from the current live configuration
+CREATE OR REPLACE FUNCTION create_pricing_scenario(
+  p_scenario_name TEXT,
+  p_description TEXT DEFAULT NULL
+) RETURNS UUID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_scenario_id UUID;
+BEGIN
+  INSERT INTO pricing_scenarios (scenario_name, description)
+  VALUES (trim(p_scenario_name), p_description)
+  RETURNING scenario_id INTO v_scenario_id;
+
+  INSERT INTO scenario_property_prices (
+    scenario_id, property_internal_id, base_price_per_day, min_price_per_day, active_discount_strategy_id
+  )
+  SELECT v_scenario_id, p.id, p.base_price_per_day, p.min_price_per_day, p.active_discount_strategy_id
+  FROM properties p;
+
+  INSERT INTO scenario_date_ranges (
+    scenario_id, rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, dr.rate_id, dr.rate_name, dr.start_date, dr.end_date, dr.discount_rate, dr.scope_type,
+    dr.property_internal_id, dr.property_group_id, dr.min_stay, dr.max_stay, dr.arrival_days, dr.departure_days,
+    dr.extra_guest_fee, dr.created_at, dr.updated_at
+  FROM date_ranges dr;
+
+  INSERT INTO scenario_discount_strategies (
+    scenario_id, strategy_id, strategy_name, property_internal_id, activation_window, min_discount,
+    max_discount, curve_type, is_active, valid_from, valid_until, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, ds.strategy_id, ds.strategy_name, ds.property_internal_id, ds.activation_window, ds.min_discount,
+    ds.max_discount, ds.curve_type, ds.is_active, ds.valid_from, ds.valid_until, ds.created_at, ds.updated_at
+  FROM discount_strategies ds;
+
+  INSERT INTO scenario_discount_rules (
+    scenario_id, rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, r.rule_id, r.strategy_id, r.days_before_checkin, r.discount_percentage, r.min_nights,
+    r.applicable_days, r.created_at, r.updated_at
+  FROM discount_rules r;
+
+  RETURN v_scenario_id;
+END;
+$$;
+
+-- Step 4: Write a scenario over the live configuration (internal; callers own the transaction)
+-- Properties added after the scenario was created keep their live prices and strategy.
+CREATE OR REPLACE FUNCTION apply_pricing_scenario(
+  p_scenario_id UUID
+) RETURNS VOID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pricing_scenarios WHERE scenario_id = p_scenario_id) THEN
+    RAISE EXCEPTION 'Pricing scenario % not found', p_scenario_id;
+  END IF;
+
+  -- Seasonal rates: replace wholesale so the overlap constraint never sees a half-applied set
+  DELETE FROM date_ranges;
+  INSERT INTO date_ranges (
+    rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    s.rate_id, s.rate_name, s.start_date, s.end_date, s.discount_rate, s.scope_type,
+    s.property_internal_id, s.property_group_id, s.min_stay, s.max_stay, s.arrival_days, s.departure_days,
+    s.extra_guest_fee, s.created_at, NOW()
+  FROM scenario_date_ranges s
+  WHERE s.scenario_id = p_scenario_id;
+
+  -- Discount strategies: detach and remove strategies the scenario does not have
+  UPDATE properties p
+  SET active_discount_strategy_id = NULL
+  WHERE p.active_discount_strategy_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM scenario_discount_strategies s
+      WHERE s.scenario_id = p_scenario_id AND s.strategy_id = p.active_discount_strategy_id
+    );
+
+  DELETE FROM discount_rules;
+  DELETE FROM discount_strategies ds
+  WHERE NOT EXISTS (
+    SELECT 1 FROM scenario_discount_strategies s
+    WHERE s.scenario_id = p_scenario_id AND s.strategy_id = ds.strategy_id
+  );
+
+  INSERT INTO discount_strategies (
+    strategy_id, strategy_name, property_internal_id, activation_window, min_discount,
+    max_discount, curve_type, is_active, valid_from, valid_until, created_at, updated_at
+  )
+  SELECT
+    s.strategy_id, s.strategy_name, s.property_internal_id, s.activation_window, s.min_discount,
+    s.max_discount, s.curve_type, s.is_active, s.valid_from, s.valid_until, s.created_at, NOW()
+  FROM scenario_discount_strategies s
+  WHERE s.scenario_id = p_scenario_id
+  ON CONFLICT (strategy_id) DO UPDATE SET
+    strategy_name = EXCLUDED.strategy_name,
+    property_internal_id = EXCLUDED.property_internal_id,
+    activation_window = EXCLUDED.activation_window,
+    min_discount = EXCLUDED.min_discount,
+    max_discount = EXCLUDED.max_discount,
+    curve_type = EXCLUDED.curve_type,
+    is_active = EXCLUDED.is_active,
+    valid_from = EXCLUDED.valid_from,
+    valid_until = EXCLUDED.valid_until,
+    updated_at = NOW();
+
+  INSERT INTO discount_rules (
+    rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    s.rule_id, s.strategy_id, s.days_before_checkin, s.discount_percentage, s.min_nights,
+    s.applicable_days, s.created_at, NOW()
+  FROM scenario_discount_rules s
+  WHERE s.scenario_id = p_scenario_id;
+
+  -- Base and minimum prices, and which strategy each property uses
+  UPDATE properties p
+  SET
+    base_price_per_day = s.base_price_per_day,
+    min_price_per_day = s.min_price_per_day,
+    active_discount_strategy_id = s.active_discount_strategy_id,
+    updated_at = NOW()
+  FROM scenario_property_prices s
+  WHERE s.scenario_id = p_scenario_id
+    AND s.property_internal_id = p.id;
+END;
+$$;
+
+-- Step 5: Scenario prices for a calendar range, with the same columns as preview_pricing_calendar.
+-- The scenario is applied in a subtransaction that is always rolled back; PL/pgSQL variables
+-- survive the rollback, which is how the prices get out.
+CREATE OR REPLACE FUNCTION preview_scenario_calendar(
+  p_scenario_id UUID,
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_rows JSONB;
+BEGIN
+  BEGIN
+    PERFORM apply_pricing_scenario(p_scenario_id);
+
+    SELECT jsonb_agg(to_jsonb(c) ORDER BY c.check_date) INTO v_rows
+    FROM preview_pricing_calendar(p_property_id, p_start_date, p_end_date, p_nights) c;
+
+    RAISE EXCEPTION USING ERRCODE = 'LPSRB', MESSAGE = 'Scenario preview rollback';
+  EXCEPTION WHEN SQLSTATE 'LPSRB' THEN
+    NULL;  -- live configuration is back as it was
+  END;
+
+  RETURN QUERY
+  SELECT x.*
+  FROM jsonb_to_recordset(COALESCE(v_rows, '[]'::JSONB)) AS x(
+    check_date DATE,
+    days_from_today INTEGER,
+    base_price NUMERIC,
+    seasonal_adjustment_percent NUMERIC,
+    weekday_adjustment_percent NUMERIC,
+    demand_adjustment_percent NUMERIC,
+    last_minute_discount_percent NUMERIC,
+    gap_discount_percent NUMERIC,
+    gap_nights INTEGER,
+    los_discount_percent NUMERIC,
+    final_price_per_night NUMERIC,
+    total_price NUMERIC,
+    savings_amount NUMERIC,
+    savings_percent NUMERIC,
+    min_price_enforced BOOLEAN,
+    is_override BOOLEAN,
+    override_price NUMERIC,
+    calculated_price NUMERIC,
+    seasonal_rate_name TEXT,
+    seasonal_rate_scope TEXT
+  );
+END;
+$$;
+
+-- Step 6: Promote a scenario to live in one transaction.
+-- The live configuration is first saved as a new scenario so a promotion can be undone
+-- by promoting that backup.
+CREATE OR REPLACE FUNCTION promote_pricing_scenario(
+  p_scenario_id UUID
+) RETURNS UUID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_scenario pricing_scenarios%ROWTYPE;
+  v_backup_id UUID;
+BEGIN
+  SELECT * INTO v_scenario
+  FROM pricing_scenarios
+  WHERE scenario_id = p_scenario_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pricing scenario % not found', p_scenario_id;
+  END IF;
+
+  v_backup_id := create_pricing_scenario(
+    format('Live before "%s" (%s)', v_scenario.scenario_name, to_char(NOW(), 'YYYY-MM-DD HH24:MI:SS')),
+    format('Configuration that was live when "%s" was promoted', v_scenario.scenario_name)
+  );
+
+  PERFORM apply_pricing_scenario(p_scenario_id);
+
+  UPDATE pricing_scenarios
+  SET status = 'promoted', promoted_at = NOW(), updated_at = NOW()
+  WHERE scenario_id = p_scenario_id;
+
+  RETURN v_backup_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_pricing_scenario(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_pricing_scenario(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION promote_pricing_scenario(UUID) TO authenticated;
+
+COMMENT ON TABLE pricing_scenarios IS 'Named what-if pricing configurations that can be previewed and promoted to live';
+COMMENT ON TABLE scenario_property_prices IS 'Scenario base and minimum price, and active discount strategy, per property';
+COMMENT ON TABLE scenario_date_ranges IS 'Scenario copy of date_ranges (seasonal rates)';
+COMMENT ON TABLE scenario_discount_strategies IS 'Scenario copy of discount_strategies';
+COMMENT ON TABLE scenario_discount_rules IS 'Scenario copy of discount_rules';
+COMMENT ON FUNCTION create_pricing_scenario(TEXT, TEXT) IS 'Creates a scenario holding a copy of the live pricing configuration';
+COMMENT ON FUNCTION apply_pricing_scenario(UUID) IS 'Writes a scenario over the live configuration; internal to preview and promote';
+COMMENT ON FUNCTION preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER) IS 'Returns preview_pricing_calendar rows as they would be with a scenario live, without changing live rows';
+COMMENT ON FUNCTION promote_pricing_scenario(UUID) IS 'Makes a scenario live atomically and returns the scenario holding the previous live configuration';
@@ -0,0 +1,255 @@
+-- Migration: Pricing change log
+-- Purpose: Keep an append-only history of every change to a pricing input, with who made
+--          it, the old and new values and the reason, so the price of any night can be
+--          explained after the fact
+--
+-- Changes are captured by triggers, so every path is logged: the services, the seasonal
+-- rate and discount strategy screens, bulk override functions and scenario promotion.
+-- The app passes a reason in the x-change-reason request header (base64 of UTF-8 text);
+-- SQL callers can set lodgeprice.change_reason / lodgeprice.changed_by for the transaction.
+
+-- Step 1: Change log
+-- property_internal_id has no foreign key so history outlives the property it describes.
+-- affected_start/affected_end cover the nights touched by the old and new values
+-- (NULL = every night, e.g. a base price change).
+CREATE TABLE IF NOT EXISTS pricing_change_log (
+  change_id BIGSERIAL PRIMARY KEY,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  changed_by TEXT NOT NULL,
+  source_table TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  scope_type TEXT NOT NULL CHECK (scope_type IN ('global', 'group', 'property')),
+  property_internal_id UUID,
+  property_group_id UUID,
+  affected_start DATE,
+  affected_end DATE,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  old_values JSONB,
+  new_values JSONB,
+  reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_change_log_property
+ON pricing_change_log (property_internal_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_change_log_scope
+ON pricing_change_log (scope_type, changed_at DESC)
+WHERE scope_type <> 'property';
+
+ALTER TABLE pricing_change_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users" ON pricing_change_log
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Step 2: Append-only - rows can never be changed or removed
+CREATE OR REPLACE FUNCTION prevent_pricing_change_log_edits()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'pricing_change_log is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pricing_change_log_append_only ON pricing_change_log;
+CREATE TRIGGER pricing_change_log_append_only
+  BEFORE UPDATE OR DELETE ON pricing_change_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_pricing_change_log_edits();
+
+DROP TRIGGER IF EXISTS pricing_change_log_no_truncate ON pricing_change_log;
+CREATE TRIGGER pricing_change_log_no_truncate
+  BEFORE TRUNCATE ON pricing_change_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_pricing_change_log_edits();
+
+-- Step 3: Who is making the current change and why
+CREATE OR REPLACE FUNCTION pricing_change_context(OUT changed_by TEXT, OUT reason TEXT)
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_headers JSONB;
+  v_claims JSONB;
+BEGIN
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::JSONB;
+    v_claims := NULLIF(current_setting('request.jwt.claims', true), '')::JSONB;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_headers := NULL;
+    v_claims := NULL;
+  END;
+
+  reason := NULLIF(current_setting('lodgeprice.change_reason', true), '');
+  IF reason IS NULL AND v_headers ? 'x-change-reason' THEN
+    BEGIN
+      reason := NULLIF(convert_from(decode(v_headers->>'x-change-reason', 'base64'), 'UTF8'), '');
+    EXCEPTION WHEN OTHERS THEN
+      reason := NULL;   -- A malformed header must never block a pricing change
+    END;
+  END IF;
+
+  changed_by := COALESCE(
+    NULLIF(current_setting('lodgeprice.changed_by', true), ''),
+    v_claims->>'email',
+    v_claims->>'role',
+    session_user
+  );
+END;
+$$;
+
+-- Step 4: Generic logging trigger
+-- TG_ARGV holds the primary key columns of the audited table.
+CREATE OR REPLACE FUNCTION log_pricing_change()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_fields TEXT[];
+  v_record_id TEXT;
+  v_property_id UUID;
+  v_group_id UUID;
+  v_start DATE;
+  v_end DATE;
+  v_context RECORD;
+  v_reason TEXT;
+BEGIN
+  -- Fields whose value changed; timestamps alone are not a change
+  SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+  INTO v_fields
+  FROM (
+    SELECT key FROM jsonb_object_keys(COALESCE(v_new, v_old)) AS key
+    WHERE key NOT IN ('created_at', 'updated_at')
+      AND (v_old IS NULL OR v_new IS NULL OR v_old->key IS DISTINCT FROM v_new->key)
+  ) changed;
+
+  IF TG_OP = 'UPDATE' AND cardinality(v_fields) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT string_agg(v_row->>key_column, ':' ORDER BY ord)
+  INTO v_record_id
+  FROM unnest(TG_ARGV) WITH ORDINALITY AS k(key_column, ord);
+
+  -- Property, group and nights the change applies to
+  CASE TG_TABLE_NAME
+    WHEN 'properties' THEN
+      v_property_id := (v_row->>'id')::UUID;
+    WHEN 'price_overrides' THEN
+      SELECT p.id INTO v_property_id
+      FROM properties p WHERE p.lodgify_property_id = v_row->>'property_id';
+      v_start := LEAST((v_old->>'override_date')::DATE, (v_new->>'override_date')::DATE);
+      v_end := GREATEST((v_old->>'override_date')::DATE, (v_new->>'override_date')::DATE);
+    WHEN 'date_ranges' THEN
+      v_property_id := (v_row->>'property_internal_id')::UUID;
+      v_group_id := (v_row->>'property_group_id')::UUID;
+      v_start := LEAST((v_old->>'start_date')::DATE, (v_new->>'start_date')::DATE);
+      v_end := GREATEST((v_old->>'end_date')::DATE, (v_new->>'end_date')::DATE);
+    WHEN 'discount_rules' THEN
+      SELECT ds.property_internal_id INTO v_property_id
+      FROM discount_strategies ds WHERE ds.strategy_id = (v_row->>'strategy_id')::UUID;
+    ELSE
+      v_property_id := (v_row->>'property_internal_id')::UUID;
+  END CASE;
+
+  SELECT * INTO v_context FROM pricing_change_context();
+  v_reason := v_context.reason;
+  IF v_reason IS NULL AND TG_TABLE_NAME = 'price_overrides' THEN
+    v_reason := v_new->>'reason';
+  END IF;
+
+  INSERT INTO pricing_change_log (
+    changed_by, source_table, record_id, action, scope_type,
+    property_internal_id, property_group_id, affected_start, affected_end,
+    changed_fields, old_values, new_values, reason
+  ) VALUES (
+    v_context.changed_by, TG_TABLE_NAME, v_record_id, lower(TG_OP),
+    CASE
+      WHEN v_property_id IS NOT NULL THEN 'property'
+      WHEN v_group_id IS NOT NULL THEN 'group'
+      ELSE 'global'
+    END,
+    v_property_id, v_group_id, v_start, v_end,
+    v_fields, v_old, v_new, v_reason
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Step 5: Audit every pricing input
+DROP TRIGGER IF EXISTS log_pricing_change ON properties;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON properties
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON price_overrides;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON price_overrides
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('property_id', 'override_date');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON date_ranges;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON date_ranges
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('rate_id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON discount_strategies;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON discount_strategies
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('strategy_id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON discount_rules;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON discount_rules
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('rule_id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON property_weekday_multipliers;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON property_weekday_multipliers
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('property_internal_id', 'day_of_week');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON property_length_of_stay_discounts;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON property_length_of_stay_discounts
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('tier_id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON demand_pricing_settings;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON demand_pricing_settings
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('settings_id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON gap_filler_settings;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON gap_filler_settings
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('settings_id');
+
+-- Step 6: History of the changes that affect a property, optionally on one night.
+-- Includes global changes and changes to groups the property belongs to now.
+CREATE OR REPLACE FUNCTION get_pricing_change_history(
+  p_property_internal_id UUID,
+  p_date DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+) RETURNS SETOF pricing_change_log LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT l.*
+  FROM pricing_change_log l
+  WHERE (
+      l.property_internal_id = p_property_internal_id
+      OR l.scope_type = 'global'
+      OR (l.scope_type = 'group' AND l.property_group_id IN (
+        SELECT m.group_id FROM property_group_members m
+        WHERE m.property_internal_id = p_property_internal_id
+      ))
+    )
+    AND (
+      p_date IS NULL
+      OR l.affected_start IS NULL
+      OR p_date BETWEEN l.affected_start AND COALESCE(l.affected_end, l.affected_start)
+    )
+  ORDER BY l.changed_at DESC, l.change_id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_pricing_change_history(UUID, DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE pricing_change_log IS 'Append-only history of changes to pricing inputs, written by triggers';
+COMMENT ON COLUMN pricing_change_log.changed_by IS 'lodgeprice.changed_by, JWT email or role, or the database user';
+COMMENT ON COLUMN pricing_change_log.reason IS 'x-change-reason request header or lodgeprice.change_reason; override reason for price_overrides';
+COMMENT ON COLUMN pricing_change_log.affected_start IS 'First night the old or new values apply to; NULL = every night';
+COMMENT ON FUNCTION get_pricing_change_history(UUID, DATE, INTEGER) IS 'Changes affecting a property, newest first, optionally limited to those covering one night';
@@ -0,0 +1,34 @@
+-- Migration: Incremental Lodgify sync
+-- Purpose: Remember the rate set last pushed to Lodgify per property, so a sync only
+--          sends the date ranges that changed, and record what changed on each sync
+--
+-- The snapshot is the complete payload rate set (default rate plus every dated rate),
+-- not just what the last delta sent, and it is only written after Lodgify accepted the
+-- push. Deleting a property's snapshot forces its next sync to send the full payload.
+
+-- Step 1: Last successfully pushed rates per property
+CREATE TABLE IF NOT EXISTS lodgify_pushed_rates (
+  property_id UUID PRIMARY KEY REFERENCES properties(id) ON DELETE CASCADE,
+  lodgify_property_id TEXT NOT NULL,
+  rates JSONB NOT NULL CHECK (jsonb_typeof(rates) = 'array'),
+  rate_count INTEGER GENERATED ALWAYS AS (jsonb_array_length(rates)) STORED,
+  sync_operation_id UUID REFERENCES sync_operations(id) ON DELETE SET NULL,
+  pushed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE lodgify_pushed_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON lodgify_pushed_rates
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 2: What each sync sent
+-- change_summary holds {mode, changed_nights, nights_by_month, rates_sent, total_rates,
+-- default_rate_changed, summary}; summary reads e.g. "3 nights changed in July".
+ALTER TABLE sync_operations
+  ADD COLUMN IF NOT EXISTS sync_mode TEXT CHECK (sync_mode IN ('full', 'delta', 'unchanged')),
+  ADD COLUMN IF NOT EXISTS change_summary JSONB;
+
+COMMENT ON TABLE lodgify_pushed_rates IS 'Complete Lodgify rate set last accepted by Lodgify per property; baseline for incremental syncs';
+COMMENT ON COLUMN lodgify_pushed_rates.rates IS 'LodgifyRate[] of the last successful push, default rate included';
+COMMENT ON COLUMN sync_operations.sync_mode IS 'full = whole payload sent, delta = changed ranges only, unchanged = nothing sent';
+COMMENT ON COLUMN sync_operations.change_summary IS 'Changed nights per month and rates sent, with a readable summary';
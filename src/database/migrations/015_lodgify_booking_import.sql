@@ -0,0 +1,17 @@
+-- Migration: Lodgify booking import
+-- Purpose: Support pulling reservations from Lodgify into bookings
+--
+-- Reservations are upserted into bookings by booking_id (the Lodgify reservation id).
+-- Lodgify statuses map to booking_status: Booked = confirmed, Tentative/Open = pending,
+-- Declined or cancelled/deleted = cancelled. Reservations removed from Lodgify are not
+-- deleted locally.
+--
+-- Each run is a sync_operations row with operation_type 'booking_import'. The next run
+-- only fetches reservations updated since the start of the last completed run.
+
+-- Step 1: Find a property's last completed run of an operation type quickly
+CREATE INDEX IF NOT EXISTS idx_sync_operations_property_type_started
+ON sync_operations (property_id, operation_type, started_at DESC)
+WHERE status = 'completed';
+
+COMMENT ON COLUMN sync_operations.change_summary IS 'What a sync changed with a readable summary: changed nights and rates sent for rate pushes, created/updated/cancelled bookings for booking imports';
@@ -0,0 +1,204 @@
+-- Migration: Sync job queue
+-- Purpose: Retry failed property syncs with backoff instead of waiting for the next hourly
+--          run, and park syncs that keep failing in a dead-letter state for manual retry
+--
+-- A job is a property's sync_operations row (property_id set, operation_type 'scheduled'
+-- or 'retry'). When a push fails, schedule_sync_retry either reschedules it
+-- (status 'failed', next_retry_at set) or moves it to 'dead_letter' once max_retries
+-- attempts are used. process_sync_retry_queue, run every 5 minutes, claims due jobs and
+-- sends them to the lodgify-sync-automation edge function, which updates the same row.
+--
+-- Backoff: 1, 2, 4, 8... minutes, capped at 1 hour, and never sooner than the Retry-After
+-- Lodgify sent with a 429.
+
+-- Step 1: Queue states
+ALTER TABLE sync_operations DROP CONSTRAINT IF EXISTS sync_operations_status_check;
+ALTER TABLE sync_operations
+  ADD CONSTRAINT sync_operations_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled', 'dead_letter'));
+
+ALTER TABLE sync_operations
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_sync_operations_retry_due
+ON sync_operations (next_retry_at)
+WHERE status = 'failed' AND next_retry_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sync_operations_dead_letter
+ON sync_operations (completed_at DESC)
+WHERE status = 'dead_letter';
+
+-- Step 2: Record a failed attempt and schedule the next one
+CREATE OR REPLACE FUNCTION schedule_sync_retry(
+  p_operation_id UUID,
+  p_error_message TEXT,
+  p_retry_after_ms INTEGER DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_op sync_operations%ROWTYPE;
+  v_attempts INTEGER;
+  v_delay_ms BIGINT;
+BEGIN
+  SELECT * INTO v_op FROM sync_operations WHERE id = p_operation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sync operation % not found', p_operation_id;
+  END IF;
+
+  v_attempts := COALESCE(v_op.retry_count, 0) + 1;
+
+  IF v_attempts >= COALESCE(v_op.max_retries, 3) THEN
+    UPDATE sync_operations
+    SET status = 'dead_letter',
+        retry_count = v_attempts,
+        next_retry_at = NULL,
+        error_message = p_error_message,
+        last_attempt_at = NOW(),
+        completed_at = NOW()
+    WHERE id = p_operation_id;
+    RETURN 'dead_letter';
+  END IF;
+
+  v_delay_ms := LEAST(60000 * POWER(2, v_attempts - 1), 3600000)::BIGINT;
+  v_delay_ms := GREATEST(v_delay_ms, COALESCE(p_retry_after_ms, 0));
+
+  UPDATE sync_operations
+  SET status = 'failed',
+      retry_count = v_attempts,
+      next_retry_at = NOW() + make_interval(secs => v_delay_ms / 1000.0),
+      error_message = p_error_message,
+      last_attempt_at = NOW(),
+      completed_at = NOW()
+  WHERE id = p_operation_id;
+  RETURN 'failed';
+END;
+$$;
+
+-- Step 3: Claim due jobs for a worker (skips jobs another worker holds)
+CREATE OR REPLACE FUNCTION claim_due_sync_jobs(p_limit INTEGER DEFAULT 5)
+RETURNS SETOF sync_operations
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  UPDATE sync_operations so
+  SET status = 'processing',
+      next_retry_at = NULL,
+      started_at = NOW(),
+      completed_at = NULL
+  WHERE so.id IN (
+    SELECT id FROM sync_operations
+    WHERE status = 'failed'
+      AND next_retry_at IS NOT NULL
+      AND next_retry_at <= NOW()
+      AND property_id IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM lodgify_integrations li WHERE li.property_id = sync_operations.property_id
+      )
+    ORDER BY next_retry_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING so.*;
+$$;
+
+-- Step 4: Worker; sends due jobs to the edge function
+CREATE OR REPLACE FUNCTION process_sync_retry_queue()
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_jobs JSONB;
+  v_project_url TEXT;
+  v_service_key TEXT;
+  v_http_response JSONB;
+BEGIN
+  -- One worker at a time (the hourly sync holds lock 12345)
+  IF NOT pg_try_advisory_lock(12346) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'CONCURRENT_EXECUTION');
+  END IF;
+
+  BEGIN
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'property_id', p.id,
+        'lodgify_property_id', p.lodgify_property_id,
+        'name', p.property_name,
+        'integration_id', li.integration_id,
+        'retry_operation_id', job.id
+      )
+    )
+    INTO v_jobs
+    FROM claim_due_sync_jobs(5) job
+    JOIN properties p ON p.id = job.property_id
+    JOIN lodgify_integrations li ON li.property_id = p.id;
+
+    IF v_jobs IS NULL THEN
+      PERFORM pg_advisory_unlock(12346);
+      RETURN jsonb_build_object('success', true, 'jobs', 0);
+    END IF;
+
+    SELECT decrypted_secret INTO v_project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+    SELECT decrypted_secret INTO v_service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+    SELECT net.http_post(
+      url := v_project_url || '/functions/v1/lodgify-sync-automation',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || v_service_key
+      ),
+      body := jsonb_build_object(
+        'trigger_source', 'retry',
+        'execution_time', NOW(),
+        'properties', v_jobs
+      )
+    ) INTO v_http_response;
+
+    PERFORM pg_advisory_unlock(12346);
+    RETURN jsonb_build_object(
+      'success', true,
+      'jobs', jsonb_array_length(v_jobs),
+      'edge_function_request_id', v_http_response->>'id'
+    );
+  EXCEPTION WHEN OTHERS THEN
+    PERFORM pg_advisory_unlock(12346);
+    RAISE;
+  END;
+END;
+$$;
+
+-- Step 5: Manual "retry now" for failed and dead-letter jobs
+-- A dead-letter job gets one more attempt; if that fails it returns to dead-letter.
+CREATE OR REPLACE FUNCTION retry_sync_job_now(p_operation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE sync_operations
+  SET status = 'failed',
+      next_retry_at = NOW(),
+      max_retries = GREATEST(COALESCE(max_retries, 3), COALESCE(retry_count, 0) + 1)
+  WHERE id = p_operation_id
+    AND property_id IS NOT NULL
+    AND status IN ('failed', 'dead_letter');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sync job % is not failed or dead-lettered', p_operation_id;
+  END IF;
+END;
+$$;
+
+-- Step 6: Run the worker every 5 minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('lodgify-sync-retry-queue', '*/5 * * * *', 'SELECT public.process_sync_retry_queue()');
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION schedule_sync_retry(UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_due_sync_jobs(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION process_sync_retry_queue() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION retry_sync_job_now(UUID) TO authenticated, service_role;
+
+COMMENT ON COLUMN sync_operations.last_attempt_at IS 'When the latest attempt of this job finished';
+COMMENT ON FUNCTION schedule_sync_retry(UUID, TEXT, INTEGER) IS 'Records a failed attempt; reschedules with backoff (honouring Retry-After) or moves the job to dead_letter';
+COMMENT ON FUNCTION claim_due_sync_jobs(INTEGER) IS 'Marks up to p_limit due retry jobs as processing and returns them';
+COMMENT ON FUNCTION process_sync_retry_queue() IS 'Sends due retry jobs to the lodgify-sync-automation edge function';
+COMMENT ON FUNCTION retry_sync_job_now(UUID) IS 'Makes a failed or dead-lettered job due immediately';
@@ -0,0 +1,20 @@
+-- Migration: Sync operation history
+-- Purpose: Keep the exact payload sent with each sync run and index sync_operations
+--          for the sync history page (filters on property, status, trigger and date)
+
+-- Step 1: Payload sent to Lodgify (the delta for incremental syncs)
+ALTER TABLE sync_operations
+  ADD COLUMN IF NOT EXISTS request_payload JSONB;
+
+-- Step 2: History listing, newest first, optionally filtered
+CREATE INDEX IF NOT EXISTS idx_sync_operations_started
+ON sync_operations (started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sync_operations_status_started
+ON sync_operations (status, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sync_operations_trigger_started
+ON sync_operations (trigger_source, started_at DESC);
+
+COMMENT ON COLUMN sync_operations.request_payload IS 'Exact body sent to Lodgify; NULL when nothing was sent';
+COMMENT ON COLUMN sync_operations.trigger_source IS 'What started the run: scheduled, retry, manual or rerun';
@@ -0,0 +1,28 @@
+-- Migration: Blocked dates
+-- Purpose: Record nights a property is not for sale without a booking (owner stays,
+--          maintenance), so channel exports can publish them as unavailable
+--
+-- end_date is inclusive: a block from 2025-07-01 to 2025-07-03 closes three nights.
+
+-- Step 1: Blocked dates
+CREATE TABLE IF NOT EXISTS blocked_dates (
+  block_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_internal_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT blocked_dates_range_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocked_dates_property_range
+ON blocked_dates (property_internal_id, start_date, end_date);
+
+ALTER TABLE blocked_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON blocked_dates
+  FOR ALL USING (auth.role() = 'authenticated');
+
+COMMENT ON TABLE blocked_dates IS 'Nights closed without a booking; exported as unavailable to channels';
+COMMENT ON COLUMN blocked_dates.end_date IS 'Last blocked night (inclusive)';
@@ -0,0 +1,11 @@
+-- Migration: Lodgify integration sync enablement
+-- Purpose: Let an integration stay active (key kept, manual syncs and connection
+--          tests allowed) while automatic syncs are switched off
+--
+-- execute_hourly_sync already filters on sync_enabled.
+
+-- Step 1: Sync enablement flag
+ALTER TABLE lodgify_integrations
+ADD COLUMN IF NOT EXISTS sync_enabled BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN lodgify_integrations.sync_enabled IS 'Include the property in automatic (scheduled) syncs';
@@ -0,0 +1,576 @@
+-- Migration: Early-bird discount strategies
+-- Purpose: Reward bookings made far in advance (e.g. 10% off when booked 120+ days out)
+--          alongside the existing last-minute strategies
+--
+-- strategy_type decides how a strategy reads its lead time (days from today to check-in):
+--   last_minute: applies within activation_window days of check-in. The rule used is the one
+--                with the smallest days_before_checkin at or above the lead time.
+--   early_bird:  applies from activation_window days out and further. The rule used is the one
+--                with the largest days_before_checkin at or below the lead time, so each rule is
+--                a "booked at least N days ahead" threshold.
+-- A rule is only used when the stay meets its min_nights and the night falls on one of its
+-- applicable_days (day numbers with 0 = Sunday, or lowercase day names; none means every day).
+--
+-- The property's last-minute strategy is still the one set in active_discount_strategy_id.
+-- Early-bird strategies apply to the property they belong to while active and valid; when
+-- several qualify, the largest discount is used.
+--
+-- Stacking: last-minute and early-bird discounts never combine. When both apply to a night,
+-- only the larger one is used (last-minute on a tie). Gap filler and length-of-stay discounts
+-- still apply on top of whichever one it is.
+--
+-- Price flow after this migration:
+--   base -> seasonal -> weekday -> demand -> last-minute OR early-bird discount -> gap filler
+--   -> length-of-stay discount -> minimum clamp -> override
+
+-- Step 1: Strategy type on live and scenario strategies
+ALTER TABLE discount_strategies
+ADD COLUMN IF NOT EXISTS strategy_type TEXT NOT NULL DEFAULT 'last_minute'
+  CHECK (strategy_type IN ('last_minute', 'early_bird'));
+
+ALTER TABLE scenario_discount_strategies
+ADD COLUMN IF NOT EXISTS strategy_type TEXT NOT NULL DEFAULT 'last_minute'
+  CHECK (strategy_type IN ('last_minute', 'early_bird'));
+
+CREATE INDEX IF NOT EXISTS idx_discount_strategies_early_bird
+  ON discount_strategies(property_internal_id)
+  WHERE strategy_type = 'early_bird' AND is_active;
+
+-- Step 2: Whether a rule's minimum stay and weekdays allow it for a night
+CREATE OR REPLACE FUNCTION discount_rule_applies(
+  p_min_nights INTEGER,
+  p_applicable_days JSONB,
+  p_nights INTEGER,
+  p_check_date DATE
+) RETURNS BOOLEAN LANGUAGE sql STABLE AS $$
+  SELECT (p_min_nights IS NULL OR p_nights >= p_min_nights)
+    AND (
+      p_applicable_days IS NULL
+      OR jsonb_typeof(p_applicable_days) <> 'array'
+      OR jsonb_array_length(p_applicable_days) = 0
+      OR p_applicable_days @> to_jsonb(EXTRACT(DOW FROM p_check_date)::INTEGER)
+      OR p_applicable_days @> to_jsonb(to_char(p_check_date, 'FMday'))
+    );
+$$;
+
+-- Step 3: Last-minute discount, now limited to last-minute strategies
+CREATE OR REPLACE FUNCTION get_last_minute_discount(
+  p_property_id TEXT,
+  p_days_before_checkin INTEGER,
+  p_nights INTEGER DEFAULT 1,
+  p_check_date DATE DEFAULT CURRENT_DATE
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE((
+    SELECT r.discount_percentage
+    FROM properties p
+    JOIN discount_strategies ds ON ds.strategy_id = p.active_discount_strategy_id
+    JOIN discount_rules r ON r.strategy_id = ds.strategy_id
+    WHERE p.lodgify_property_id = p_property_id
+      AND ds.strategy_type = 'last_minute'
+      AND ds.is_active
+      AND (ds.valid_from IS NULL OR ds.valid_from::DATE <= p_check_date)
+      AND (ds.valid_until IS NULL OR ds.valid_until::DATE >= p_check_date)
+      AND p_days_before_checkin BETWEEN 0 AND ds.activation_window
+      AND r.days_before_checkin >= p_days_before_checkin
+      AND discount_rule_applies(r.min_nights, r.applicable_days::JSONB, p_nights, p_check_date)
+    ORDER BY r.days_before_checkin
+    LIMIT 1
+  ), 0);
+$$;
+
+-- Step 4: Early-bird discount for a night booked p_days_before_checkin days ahead (0 when none applies)
+CREATE OR REPLACE FUNCTION get_early_bird_discount(
+  p_property_id TEXT,
+  p_days_before_checkin INTEGER,
+  p_nights INTEGER DEFAULT 1,
+  p_check_date DATE DEFAULT CURRENT_DATE
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE(MAX(reached.discount_percentage), 0)
+  FROM (
+    SELECT DISTINCT ON (ds.strategy_id) r.discount_percentage
+    FROM properties p
+    JOIN discount_strategies ds ON ds.property_internal_id = p.id
+    JOIN discount_rules r ON r.strategy_id = ds.strategy_id
+    WHERE p.lodgify_property_id = p_property_id
+      AND ds.strategy_type = 'early_bird'
+      AND ds.is_active
+      AND (ds.valid_from IS NULL OR ds.valid_from::DATE <= p_check_date)
+      AND (ds.valid_until IS NULL OR ds.valid_until::DATE >= p_check_date)
+      AND p_days_before_checkin >= ds.activation_window
+      AND r.days_before_checkin <= p_days_before_checkin
+      AND discount_rule_applies(r.min_nights, r.applicable_days::JSONB, p_nights, p_check_date)
+    ORDER BY ds.strategy_id, r.days_before_checkin DESC
+  ) reached;
+$$;
+
+-- Step 5: Rebuild calculate_final_price with the early-bird step.
+-- early_bird_rate is the rate used for the night; it is 0 whenever the last-minute discount wins.
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  demand_adjustment NUMERIC,
+  demand_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  early_bird_discount NUMERIC,
+  early_bird_rate NUMERIC,
+  gap_discount NUMERIC,
+  gap_rate NUMERIC,
+  gap_nights INTEGER,
+  los_discount NUMERIC,
+  los_rate NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_demand_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  has_early_bird_discount BOOLEAN,
+  has_gap_discount BOOLEAN,
+  has_los_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_rate RECORD;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_weekday_price NUMERIC;
+  v_demand_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_last_minute_price NUMERIC;
+  v_early_bird_rate NUMERIC := 0;
+  v_lead_time_price NUMERIC;
+  v_gap RECORD;
+  v_gap_rate NUMERIC := 0;
+  v_gap_price NUMERIC;
+  v_los_rate NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_seasonal_rate := v_rate.discount_rate;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  v_weekday_price := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  -- A downward demand move stops at the property minimum
+  v_demand_rate := get_demand_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_weekday_price * (1 + v_demand_rate), 2);
+  IF v_demand_rate < 0 THEN
+    v_adjusted := GREATEST(v_adjusted, LEAST(v_weekday_price, v_property.min_price_per_day));
+  END IF;
+
+  v_discount_pct := COALESCE(
+    get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+  v_early_bird_rate := COALESCE(
+    get_early_bird_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+
+  -- Last-minute and early-bird discounts never stack: the larger one applies
+  IF v_early_bird_rate > v_discount_pct THEN
+    v_discount_pct := 0;
+  ELSE
+    v_early_bird_rate := 0;
+  END IF;
+
+  v_last_minute_price := ROUND(v_adjusted * (1 - v_discount_pct), 2);
+  v_lead_time_price := ROUND(v_last_minute_price * (1 - v_early_bird_rate), 2);
+
+  SELECT * INTO v_gap FROM get_gap_filler_discount(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_gap_rate := v_gap.discount_rate;
+  END IF;
+  v_gap_price := ROUND(v_lead_time_price * (1 - v_gap_rate), 2);
+
+  v_los_rate := get_length_of_stay_discount(v_property.id, p_nights);
+  v_discounted := ROUND(v_gap_price * (1 - v_los_rate), 2);
+  v_final := GREATEST(v_discounted, v_property.min_price_per_day);
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate.rate_name,
+    v_rate.scope_type,
+    v_weekday_price - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted - v_weekday_price,
+    v_demand_rate,
+    v_adjusted,
+    v_adjusted - v_last_minute_price,
+    v_last_minute_price - v_lead_time_price,
+    v_early_bird_rate,
+    v_lead_time_price - v_gap_price,
+    v_gap_rate,
+    v_gap.gap_nights,
+    v_gap_price - v_discounted,
+    v_los_rate,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_adjusted <> v_weekday_price,
+    v_discount_pct > 0,
+    v_early_bird_rate > 0,
+    v_gap_rate > 0,
+    v_los_rate > 0,
+    v_override_price IS NULL AND v_discounted < v_property.min_price_per_day,
+    v_override_price IS NOT NULL;
+END;
+$$;
+
+-- Step 6: Rebuild preview_pricing_calendar with the early-bird percentage
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  early_bird_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(p_property_id, v_date, p_nights);
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.demand_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      ROUND(v_price.early_bird_rate * 100, 2),
+      ROUND(v_price.gap_rate * 100, 2),
+      v_price.gap_nights,
+      ROUND(v_price.los_rate * 100, 2),
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      GREATEST(v_price.discounted_price_per_night, v_price.min_price_per_night),
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+-- Step 7: Copy strategy_type into and out of scenarios, and preview scenarios with the new column
+CREATE OR REPLACE FUNCTION create_pricing_scenario(
+  p_scenario_name TEXT,
+  p_description TEXT DEFAULT NULL
+) RETURNS UUID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_scenario_id UUID;
+BEGIN
+  INSERT INTO pricing_scenarios (scenario_name, description)
+  VALUES (trim(p_scenario_name), p_description)
+  RETURNING scenario_id INTO v_scenario_id;
+
+  INSERT INTO scenario_property_prices (
+    scenario_id, property_internal_id, base_price_per_day, min_price_per_day, active_discount_strategy_id
+  )
+  SELECT v_scenario_id, p.id, p.base_price_per_day, p.min_price_per_day, p.active_discount_strategy_id
+  FROM properties p;
+
+  INSERT INTO scenario_date_ranges (
+    scenario_id, rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, dr.rate_id, dr.rate_name, dr.start_date, dr.end_date, dr.discount_rate, dr.scope_type,
+    dr.property_internal_id, dr.property_group_id, dr.min_stay, dr.max_stay, dr.arrival_days, dr.departure_days,
+    dr.extra_guest_fee, dr.created_at, dr.updated_at
+  FROM date_ranges dr;
+
+  INSERT INTO scenario_discount_strategies (
+    scenario_id, strategy_id, strategy_name, property_internal_id, strategy_type, activation_window, min_discount,
+    max_discount, curve_type, is_active, valid_from, valid_until, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, ds.strategy_id, ds.strategy_name, ds.property_internal_id, ds.strategy_type, ds.activation_window,
+    ds.min_discount,
+    ds.max_discount, ds.curve_type, ds.is_active, ds.valid_from, ds.valid_until, ds.created_at, ds.updated_at
+  FROM discount_strategies ds;
+
+  INSERT INTO scenario_discount_rules (
+    scenario_id, rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, r.rule_id, r.strategy_id, r.days_before_checkin, r.discount_percentage, r.min_nights,
+    r.applicable_days, r.created_at, r.updated_at
+  FROM discount_rules r;
+
+  RETURN v_scenario_id;
+END;
+$$;
+
+-- Writes a scenario over the live configuration (internal; callers own the transaction)
+-- Properties added after the scenario was created keep their live prices and strategy.
+CREATE OR REPLACE FUNCTION apply_pricing_scenario(
+  p_scenario_id UUID
+) RETURNS VOID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pricing_scenarios WHERE scenario_id = p_scenario_id) THEN
+    RAISE EXCEPTION 'Pricing scenario % not found', p_scenario_id;
+  END IF;
+
+  -- Seasonal rates: replace wholesale so the overlap constraint never sees a half-applied set
+  DELETE FROM date_ranges;
+  INSERT INTO date_ranges (
+    rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    s.rate_id, s.rate_name, s.start_date, s.end_date, s.discount_rate, s.scope_type,
+    s.property_internal_id, s.property_group_id, s.min_stay, s.max_stay, s.arrival_days, s.departure_days,
+    s.extra_guest_fee, s.created_at, NOW()
+  FROM scenario_date_ranges s
+  WHERE s.scenario_id = p_scenario_id;
+
+  -- Discount strategies: detach and remove strategies the scenario does not have
+  UPDATE properties p
+  SET active_discount_strategy_id = NULL
+  WHERE p.active_discount_strategy_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM scenario_discount_strategies s
+      WHERE s.scenario_id = p_scenario_id AND s.strategy_id = p.active_discount_strategy_id
+    );
+
+  DELETE FROM discount_rules;
+  DELETE FROM discount_strategies ds
+  WHERE NOT EXISTS (
+    SELECT 1 FROM scenario_discount_strategies s
+    WHERE s.scenario_id = p_scenario_id AND s.strategy_id = ds.strategy_id
+  );
+
+  INSERT INTO discount_strategies (
+    strategy_id, strategy_name, property_internal_id, strategy_type, activation_window, min_discount,
+    max_discount, curve_type, is_active, valid_from, valid_until, created_at, updated_at
+  )
+  SELECT
+    s.strategy_id, s.strategy_name, s.property_internal_id, s.strategy_type, s.activation_window, s.min_discount,
+    s.max_discount, s.curve_type, s.is_active, s.valid_from, s.valid_until, s.created_at, NOW()
+  FROM scenario_discount_strategies s
+  WHERE s.scenario_id = p_scenario_id
+  ON CONFLICT (strategy_id) DO UPDATE SET
+    strategy_name = EXCLUDED.strategy_name,
+    property_internal_id = EXCLUDED.property_internal_id,
+    strategy_type = EXCLUDED.strategy_type,
+    activation_window = EXCLUDED.activation_window,
+    min_discount = EXCLUDED.min_discount,
+    max_discount = EXCLUDED.max_discount,
+    curve_type = EXCLUDED.curve_type,
+    is_active = EXCLUDED.is_active,
+    valid_from = EXCLUDED.valid_from,
+    valid_until = EXCLUDED.valid_until,
+    updated_at = NOW();
+
+  INSERT INTO discount_rules (
+    rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    s.rule_id, s.strategy_id, s.days_before_checkin, s.discount_percentage, s.min_nights,
+    s.applicable_days, s.created_at, NOW()
+  FROM scenario_discount_rules s
+  WHERE s.scenario_id = p_scenario_id;
+
+  -- Base and minimum prices, and which strategy each property uses
+  UPDATE properties p
+  SET
+    base_price_per_day = s.base_price_per_day,
+    min_price_per_day = s.min_price_per_day,
+    active_discount_strategy_id = s.active_discount_strategy_id,
+    updated_at = NOW()
+  FROM scenario_property_prices s
+  WHERE s.scenario_id = p_scenario_id
+    AND s.property_internal_id = p.id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_scenario_calendar(
+  p_scenario_id UUID,
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  early_bird_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_rows JSONB;
+BEGIN
+  BEGIN
+    PERFORM apply_pricing_scenario(p_scenario_id);
+
+    SELECT jsonb_agg(to_jsonb(c) ORDER BY c.check_date) INTO v_rows
+    FROM preview_pricing_calendar(p_property_id, p_start_date, p_end_date, p_nights) c;
+
+    RAISE EXCEPTION USING ERRCODE = 'LPSRB', MESSAGE = 'Scenario preview rollback';
+  EXCEPTION WHEN SQLSTATE 'LPSRB' THEN
+    NULL;  -- live configuration is back as it was
+  END;
+
+  RETURN QUERY
+  SELECT x.*
+  FROM jsonb_to_recordset(COALESCE(v_rows, '[]'::JSONB)) AS x(
+    check_date DATE,
+    days_from_today INTEGER,
+    base_price NUMERIC,
+    seasonal_adjustment_percent NUMERIC,
+    weekday_adjustment_percent NUMERIC,
+    demand_adjustment_percent NUMERIC,
+    last_minute_discount_percent NUMERIC,
+    early_bird_discount_percent NUMERIC,
+    gap_discount_percent NUMERIC,
+    gap_nights INTEGER,
+    los_discount_percent NUMERIC,
+    final_price_per_night NUMERIC,
+    total_price NUMERIC,
+    savings_amount NUMERIC,
+    savings_percent NUMERIC,
+    min_price_enforced BOOLEAN,
+    is_override BOOLEAN,
+    override_price NUMERIC,
+    calculated_price NUMERIC,
+    seasonal_rate_name TEXT,
+    seasonal_rate_scope TEXT
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION discount_rule_applies(INTEGER, JSONB, INTEGER, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_last_minute_discount(TEXT, INTEGER, INTEGER, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_early_bird_discount(TEXT, INTEGER, INTEGER, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION apply_pricing_scenario(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_pricing_scenario(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER) TO authenticated;
+
+COMMENT ON COLUMN discount_strategies.strategy_type IS 'last_minute applies within activation_window days of check-in; early_bird applies from activation_window days out';
+COMMENT ON FUNCTION discount_rule_applies(INTEGER, JSONB, INTEGER, DATE) IS 'Whether a discount rule''s min_nights and applicable_days allow it for a night and stay length';
+COMMENT ON FUNCTION get_last_minute_discount(TEXT, INTEGER, INTEGER, DATE) IS 'Returns the last-minute discount rate from the property''s active last-minute strategy, or 0';
+COMMENT ON FUNCTION get_early_bird_discount(TEXT, INTEGER, INTEGER, DATE) IS 'Returns the largest early-bird discount rate the lead time reaches among the property''s active early-bird strategies, or 0';
+COMMENT ON FUNCTION preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER) IS 'Returns preview_pricing_calendar rows as they would be with a scenario live, without changing live rows';
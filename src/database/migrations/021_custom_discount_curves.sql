@@ -0,0 +1,208 @@
+-- Migration: Custom discount curves
+-- Purpose: Let a strategy use its own discount curve, defined as control points of
+--          (days before check-in, discount), besides the aggressive/moderate/gentle presets,
+--          and keep curves as named templates for reuse
+--
+-- curve_points is a JSON array of {"days": INTEGER, "discount": NUMERIC (0-1)} objects.
+-- curve_interpolation says how the discount runs between points: 'linear' draws a straight
+-- line, 'stepped' keeps each point's discount for every lead time up to its day (the same
+-- reading as discount rules). Pricing still uses discount_rules; the curve is what the rules
+-- are generated from and what previews draw.
+
+-- Step 1: Custom curves on live and scenario strategies
+ALTER TABLE discount_strategies DROP CONSTRAINT IF EXISTS discount_strategies_curve_type_check;
+ALTER TABLE discount_strategies
+  ADD CONSTRAINT discount_strategies_curve_type_check
+  CHECK (curve_type IN ('aggressive', 'moderate', 'gentle', 'custom'));
+
+ALTER TABLE discount_strategies
+ADD COLUMN IF NOT EXISTS curve_points JSONB,
+ADD COLUMN IF NOT EXISTS curve_interpolation TEXT
+  CHECK (curve_interpolation IN ('linear', 'stepped'));
+
+ALTER TABLE discount_strategies DROP CONSTRAINT IF EXISTS discount_strategies_custom_curve_check;
+ALTER TABLE discount_strategies
+  ADD CONSTRAINT discount_strategies_custom_curve_check
+  CHECK (
+    curve_type <> 'custom'
+    OR (jsonb_typeof(curve_points) = 'array' AND jsonb_array_length(curve_points) >= 2
+        AND curve_interpolation IS NOT NULL)
+  );
+
+ALTER TABLE scenario_discount_strategies DROP CONSTRAINT IF EXISTS discount_strategies_curve_type_check;
+ALTER TABLE scenario_discount_strategies DROP CONSTRAINT IF EXISTS scenario_discount_strategies_curve_type_check;
+ALTER TABLE scenario_discount_strategies
+  ADD CONSTRAINT scenario_discount_strategies_curve_type_check
+  CHECK (curve_type IN ('aggressive', 'moderate', 'gentle', 'custom'));
+
+ALTER TABLE scenario_discount_strategies
+ADD COLUMN IF NOT EXISTS curve_points JSONB,
+ADD COLUMN IF NOT EXISTS curve_interpolation TEXT
+  CHECK (curve_interpolation IN ('linear', 'stepped'));
+
+-- Step 2: Named curve templates
+CREATE TABLE IF NOT EXISTS discount_curve_templates (
+  template_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_name TEXT NOT NULL UNIQUE CHECK (length(trim(template_name)) > 0),
+  curve_points JSONB NOT NULL
+    CHECK (jsonb_typeof(curve_points) = 'array' AND jsonb_array_length(curve_points) >= 2),
+  curve_interpolation TEXT NOT NULL DEFAULT 'linear'
+    CHECK (curve_interpolation IN ('linear', 'stepped')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE discount_curve_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON discount_curve_templates
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 3: Copy custom curves into and out of scenarios
+CREATE OR REPLACE FUNCTION create_pricing_scenario(
+  p_scenario_name TEXT,
+  p_description TEXT DEFAULT NULL
+) RETURNS UUID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_scenario_id UUID;
+BEGIN
+  INSERT INTO pricing_scenarios (scenario_name, description)
+  VALUES (trim(p_scenario_name), p_description)
+  RETURNING scenario_id INTO v_scenario_id;
+
+  INSERT INTO scenario_property_prices (
+    scenario_id, property_internal_id, base_price_per_day, min_price_per_day, active_discount_strategy_id
+  )
+  SELECT v_scenario_id, p.id, p.base_price_per_day, p.min_price_per_day, p.active_discount_strategy_id
+  FROM properties p;
+
+  INSERT INTO scenario_date_ranges (
+    scenario_id, rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, dr.rate_id, dr.rate_name, dr.start_date, dr.end_date, dr.discount_rate, dr.scope_type,
+    dr.property_internal_id, dr.property_group_id, dr.min_stay, dr.max_stay, dr.arrival_days, dr.departure_days,
+    dr.extra_guest_fee, dr.created_at, dr.updated_at
+  FROM date_ranges dr;
+
+  INSERT INTO scenario_discount_strategies (
+    scenario_id, strategy_id, strategy_name, property_internal_id, strategy_type, activation_window, min_discount,
+    max_discount, curve_type, curve_points, curve_interpolation, is_active, valid_from, valid_until, created_at,
+    updated_at
+  )
+  SELECT
+    v_scenario_id, ds.strategy_id, ds.strategy_name, ds.property_internal_id, ds.strategy_type, ds.activation_window,
+    ds.min_discount,
+    ds.max_discount, ds.curve_type, ds.curve_points, ds.curve_interpolation, ds.is_active, ds.valid_from, ds.valid_until,
+    ds.created_at, ds.updated_at
+  FROM discount_strategies ds;
+
+  INSERT INTO scenario_discount_rules (
+    scenario_id, rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, r.rule_id, r.strategy_id, r.days_before_checkin, r.discount_percentage, r.min_nights,
+    r.applicable_days, r.created_at, r.updated_at
+  FROM discount_rules r;
+
+  RETURN v_scenario_id;
+END;
+$$;
+
+-- Writes a scenario over the live configuration (internal; callers own the transaction)
+-- Properties added after the scenario was created keep their live prices and strategy.
+CREATE OR REPLACE FUNCTION apply_pricing_scenario(
+  p_scenario_id UUID
+) RETURNS VOID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pricing_scenarios WHERE scenario_id = p_scenario_id) THEN
+    RAISE EXCEPTION 'Pricing scenario % not found', p_scenario_id;
+  END IF;
+
+  -- Seasonal rates: replace wholesale so the overlap constraint never sees a half-applied set
+  DELETE FROM date_ranges;
+  INSERT INTO date_ranges (
+    rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    s.rate_id, s.rate_name, s.start_date, s.end_date, s.discount_rate, s.scope_type,
+    s.property_internal_id, s.property_group_id, s.min_stay, s.max_stay, s.arrival_days, s.departure_days,
+    s.extra_guest_fee, s.created_at, NOW()
+  FROM scenario_date_ranges s
+  WHERE s.scenario_id = p_scenario_id;
+
+  -- Discount strategies: detach and remove strategies the scenario does not have
+  UPDATE properties p
+  SET active_discount_strategy_id = NULL
+  WHERE p.active_discount_strategy_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM scenario_discount_strategies s
+      WHERE s.scenario_id = p_scenario_id AND s.strategy_id = p.active_discount_strategy_id
+    );
+
+  DELETE FROM discount_rules;
+  DELETE FROM discount_strategies ds
+  WHERE NOT EXISTS (
+    SELECT 1 FROM scenario_discount_strategies s
+    WHERE s.scenario_id = p_scenario_id AND s.strategy_id = ds.strategy_id
+  );
+
+  INSERT INTO discount_strategies (
+    strategy_id, strategy_name, property_internal_id, strategy_type, activation_window, min_discount,
+    max_discount, curve_type, curve_points, curve_interpolation, is_active, valid_from, valid_until, created_at,
+    updated_at
+  )
+  SELECT
+    s.strategy_id, s.strategy_name, s.property_internal_id, s.strategy_type, s.activation_window, s.min_discount,
+    s.max_discount, s.curve_type, s.curve_points, s.curve_interpolation, s.is_active, s.valid_from, s.valid_until,
+    s.created_at, NOW()
+  FROM scenario_discount_strategies s
+  WHERE s.scenario_id = p_scenario_id
+  ON CONFLICT (strategy_id) DO UPDATE SET
+    strategy_name = EXCLUDED.strategy_name,
+    property_internal_id = EXCLUDED.property_internal_id,
+    strategy_type = EXCLUDED.strategy_type,
+    activation_window = EXCLUDED.activation_window,
+    min_discount = EXCLUDED.min_discount,
+    max_discount = EXCLUDED.max_discount,
+    curve_type = EXCLUDED.curve_type,
+    curve_points = EXCLUDED.curve_points,
+    curve_interpolation = EXCLUDED.curve_interpolation,
+    is_active = EXCLUDED.is_active,
+    valid_from = EXCLUDED.valid_from,
+    valid_until = EXCLUDED.valid_until,
+    updated_at = NOW();
+
+  INSERT INTO discount_rules (
+    rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    s.rule_id, s.strategy_id, s.days_before_checkin, s.discount_percentage, s.min_nights,
+    s.applicable_days, s.created_at, NOW()
+  FROM scenario_discount_rules s
+  WHERE s.scenario_id = p_scenario_id;
+
+  -- Base and minimum prices, and which strategy each property uses
+  UPDATE properties p
+  SET
+    base_price_per_day = s.base_price_per_day,
+    min_price_per_day = s.min_price_per_day,
+    active_discount_strategy_id = s.active_discount_strategy_id,
+    updated_at = NOW()
+  FROM scenario_property_prices s
+  WHERE s.scenario_id = p_scenario_id
+    AND s.property_internal_id = p.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_pricing_scenario(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_pricing_scenario(TEXT, TEXT) TO authenticated;
+
+COMMENT ON COLUMN discount_strategies.curve_points IS 'Control points [{days, discount}] of a custom curve; NULL for the preset curves';
+COMMENT ON COLUMN discount_strategies.curve_interpolation IS 'How a custom curve runs between points: linear or stepped';
+COMMENT ON TABLE discount_curve_templates IS 'Named custom discount curves that strategies can start from';
@@ -0,0 +1,413 @@
+-- Migration: Discount stacking policy
+-- Purpose: Make explicit how the discounts on a night combine, instead of leaving it
+--          implicit in calculate_final_price
+--
+-- A policy decides:
+--   stacking_mode       'compound': each discount comes off what the previous ones left
+--                       'additive': the discount percentages are added up
+--   exclusive_discounts Discounts that never combine with each other: when several of them
+--                       apply, only the largest is kept (ties go to the earlier step).
+--                       Kinds: 'lead_time' (last-minute or early-bird), 'gap', 'length_of_stay'.
+--                       Last-minute and early-bird are always exclusive with each other.
+--   max_total_discount  Cap on all discounts together, as a share of the price they come off
+--   discount_order      'after_adjustments': discounts come off the price after seasonal,
+--                       weekday and demand adjustments
+--                       'before_adjustments': discounts are worked out on the base price, so
+--                       the adjustments don't change their amount
+--   min_price_stage     'final': the property minimum clamps the final price
+--                       'before_discounts': the minimum only floors the price before
+--                       discounts, which may then take the night below it
+--
+-- Price flow after this migration (defaults match the previous behaviour):
+--   base -> seasonal -> weekday -> demand -> [minimum, before_discounts]
+--        -> last-minute or early-bird -> gap filler -> length-of-stay -> cap
+--        -> [minimum, final] -> override
+
+-- Step 1: Stacking policies
+-- A row with property_internal_id NULL is the portfolio default; a property row overrides it.
+CREATE TABLE IF NOT EXISTS discount_stacking_policies (
+  policy_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_internal_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  stacking_mode TEXT NOT NULL DEFAULT 'compound'
+    CHECK (stacking_mode IN ('compound', 'additive')),
+  exclusive_discounts TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (exclusive_discounts <@ ARRAY['lead_time', 'gap', 'length_of_stay']),
+  max_total_discount NUMERIC(5,4) CHECK (max_total_discount BETWEEN 0 AND 1),
+  discount_order TEXT NOT NULL DEFAULT 'after_adjustments'
+    CHECK (discount_order IN ('after_adjustments', 'before_adjustments')),
+  min_price_stage TEXT NOT NULL DEFAULT 'final'
+    CHECK (min_price_stage IN ('final', 'before_discounts')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_stacking_policies_property
+ON discount_stacking_policies (property_internal_id)
+WHERE property_internal_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_stacking_policies_portfolio
+ON discount_stacking_policies ((property_internal_id IS NULL))
+WHERE property_internal_id IS NULL;
+
+ALTER TABLE discount_stacking_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON discount_stacking_policies
+  FOR ALL USING (auth.role() = 'authenticated');
+
+INSERT INTO discount_stacking_policies (property_internal_id)
+SELECT NULL
+WHERE NOT EXISTS (SELECT 1 FROM discount_stacking_policies WHERE property_internal_id IS NULL);
+
+-- Step 2: The policy that applies to a property (its own row, else the portfolio default,
+-- else the defaults)
+CREATE OR REPLACE FUNCTION get_discount_stacking_policy(
+  p_property_internal_id UUID
+) RETURNS TABLE(
+  stacking_mode TEXT,
+  exclusive_discounts TEXT[],
+  max_total_discount NUMERIC,
+  discount_order TEXT,
+  min_price_stage TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT dsp.stacking_mode, dsp.exclusive_discounts, dsp.max_total_discount::NUMERIC,
+    dsp.discount_order, dsp.min_price_stage
+  FROM discount_stacking_policies dsp
+  WHERE dsp.property_internal_id = p_property_internal_id
+     OR dsp.property_internal_id IS NULL
+  ORDER BY dsp.property_internal_id NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'compound'::TEXT, '{}'::TEXT[], NULL::NUMERIC, 'after_adjustments'::TEXT, 'final'::TEXT;
+  END IF;
+END;
+$$;
+
+-- Step 3: Rebuild calculate_final_price around the policy.
+-- Discount amounts are what was actually taken off; discount_cap_reduction is given back
+-- by the cap, and min_price_adjustment is added by the minimum at whichever stage applies.
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  demand_adjustment NUMERIC,
+  demand_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  early_bird_discount NUMERIC,
+  early_bird_rate NUMERIC,
+  gap_discount NUMERIC,
+  gap_rate NUMERIC,
+  gap_nights INTEGER,
+  los_discount NUMERIC,
+  los_rate NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_demand_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  has_early_bird_discount BOOLEAN,
+  has_gap_discount BOOLEAN,
+  has_los_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN,
+  stacking_mode TEXT,
+  discount_order TEXT,
+  min_price_stage TEXT,
+  max_total_discount NUMERIC,
+  excluded_discounts TEXT[],
+  discount_cap_reduction NUMERIC,
+  min_price_adjustment NUMERIC,
+  calculated_price_per_night NUMERIC
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_policy RECORD;
+  v_rate RECORD;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_weekday_price NUMERIC;
+  v_demand_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_early_bird_rate NUMERIC := 0;
+  v_lead_rate NUMERIC;
+  v_gap RECORD;
+  v_gap_rate NUMERIC := 0;
+  v_los_rate NUMERIC := 0;
+  v_winner TEXT;
+  v_excluded TEXT[] := '{}';
+  v_pre_discount NUMERIC;
+  v_discount_base NUMERIC;
+  v_remaining NUMERIC;
+  v_lead_amount NUMERIC;
+  v_gap_amount NUMERIC;
+  v_los_amount NUMERIC;
+  v_cap_reduction NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_policy FROM get_discount_stacking_policy(v_property.id);
+
+  SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_seasonal_rate := v_rate.discount_rate;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  v_weekday_price := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  -- A downward demand move stops at the property minimum
+  v_demand_rate := get_demand_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_weekday_price * (1 + v_demand_rate), 2);
+  IF v_demand_rate < 0 THEN
+    v_adjusted := GREATEST(v_adjusted, LEAST(v_weekday_price, v_property.min_price_per_day));
+  END IF;
+
+  v_discount_pct := COALESCE(
+    get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+  v_early_bird_rate := COALESCE(
+    get_early_bird_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+    0
+  );
+
+  -- Last-minute and early-bird discounts never stack: the larger one applies
+  IF v_early_bird_rate > v_discount_pct THEN
+    v_discount_pct := 0;
+  ELSE
+    v_early_bird_rate := 0;
+  END IF;
+  v_lead_rate := v_discount_pct + v_early_bird_rate;
+
+  SELECT * INTO v_gap FROM get_gap_filler_discount(v_property.id, p_check_date);
+  IF FOUND THEN
+    v_gap_rate := v_gap.discount_rate;
+  END IF;
+
+  v_los_rate := get_length_of_stay_discount(v_property.id, p_nights);
+
+  -- Exclusive discounts: keep only the largest that applies
+  SELECT k.kind INTO v_winner
+  FROM (VALUES ('lead_time', v_lead_rate, 1), ('gap', v_gap_rate, 2), ('length_of_stay', v_los_rate, 3))
+    AS k(kind, rate, step)
+  WHERE k.kind = ANY(v_policy.exclusive_discounts) AND k.rate > 0
+  ORDER BY k.rate DESC, k.step
+  LIMIT 1;
+
+  IF v_winner IS NOT NULL THEN
+    IF 'lead_time' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'lead_time' AND v_lead_rate > 0 THEN
+      v_excluded := v_excluded || 'lead_time'::TEXT;
+      v_discount_pct := 0;
+      v_early_bird_rate := 0;
+      v_lead_rate := 0;
+    END IF;
+    IF 'gap' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'gap' AND v_gap_rate > 0 THEN
+      v_excluded := v_excluded || 'gap'::TEXT;
+      v_gap_rate := 0;
+    END IF;
+    IF 'length_of_stay' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'length_of_stay' AND v_los_rate > 0 THEN
+      v_excluded := v_excluded || 'length_of_stay'::TEXT;
+      v_los_rate := 0;
+    END IF;
+  END IF;
+
+  v_pre_discount := CASE WHEN v_policy.min_price_stage = 'before_discounts'
+    THEN GREATEST(v_adjusted, v_property.min_price_per_day)
+    ELSE v_adjusted END;
+  v_discount_base := CASE WHEN v_policy.discount_order = 'before_adjustments'
+    THEN v_property.base_price_per_day
+    ELSE v_pre_discount END;
+
+  v_lead_amount := ROUND(v_discount_base * v_lead_rate, 2);
+  v_remaining := CASE WHEN v_policy.stacking_mode = 'compound' THEN v_discount_base - v_lead_amount ELSE v_discount_base END;
+  v_gap_amount := ROUND(v_remaining * v_gap_rate, 2);
+  v_remaining := CASE WHEN v_policy.stacking_mode = 'compound' THEN v_remaining - v_gap_amount ELSE v_discount_base END;
+  v_los_amount := ROUND(v_remaining * v_los_rate, 2);
+
+  IF v_policy.max_total_discount IS NOT NULL THEN
+    v_cap_reduction := GREATEST(
+      v_lead_amount + v_gap_amount + v_los_amount - ROUND(v_discount_base * v_policy.max_total_discount, 2),
+      0
+    );
+  END IF;
+
+  v_discounted := GREATEST(v_pre_discount - (v_lead_amount + v_gap_amount + v_los_amount - v_cap_reduction), 0);
+  v_final := CASE WHEN v_policy.min_price_stage = 'final'
+    THEN GREATEST(v_discounted, v_property.min_price_per_day)
+    ELSE v_discounted END;
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate.rate_name,
+    v_rate.scope_type,
+    v_weekday_price - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted - v_weekday_price,
+    v_demand_rate,
+    v_adjusted,
+    CASE WHEN v_discount_pct > 0 THEN v_lead_amount ELSE 0 END,
+    CASE WHEN v_early_bird_rate > 0 THEN v_lead_amount ELSE 0 END,
+    v_early_bird_rate,
+    v_gap_amount,
+    v_gap_rate,
+    v_gap.gap_nights,
+    v_los_amount,
+    v_los_rate,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_adjusted <> v_weekday_price,
+    v_discount_pct > 0,
+    v_early_bird_rate > 0,
+    v_gap_rate > 0,
+    v_los_rate > 0,
+    v_override_price IS NULL AND (v_pre_discount > v_adjusted OR v_final > v_discounted),
+    v_override_price IS NOT NULL,
+    v_policy.stacking_mode,
+    v_policy.discount_order,
+    v_policy.min_price_stage,
+    v_policy.max_total_discount,
+    v_excluded,
+    v_cap_reduction,
+    (v_pre_discount - v_adjusted) + (v_final - v_discounted),
+    v_final;
+END;
+$$;
+
+-- Step 4: Calendar preview reports the calculated price, wherever the minimum applied
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  early_bird_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(p_property_id, v_date, p_nights);
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.demand_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      ROUND(v_price.early_bird_rate * 100, 2),
+      ROUND(v_price.gap_rate * 100, 2),
+      v_price.gap_nights,
+      ROUND(v_price.los_rate * 100, 2),
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      v_price.calculated_price_per_night,
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_discount_stacking_policy(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE discount_stacking_policies IS 'How the discounts on a night combine; the NULL-property row is the portfolio default';
+COMMENT ON COLUMN discount_stacking_policies.exclusive_discounts IS 'Discount kinds (lead_time, gap, length_of_stay) of which only the largest applying one is kept';
+COMMENT ON COLUMN discount_stacking_policies.max_total_discount IS 'Cap on all discounts together as a share of the price they come off; NULL = no cap';
+COMMENT ON FUNCTION get_discount_stacking_policy(UUID) IS 'Returns the stacking policy for a property: its own row, else the portfolio default';
+COMMENT ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER) IS 'Nightly price breakdown; discounts combine as the property''s discount stacking policy says';
@@ -0,0 +1,114 @@
+-- Migration: Discount strategy A/B experiments
+-- Purpose: Price comparable properties, or alternating weeks, with two last-minute
+--          strategies for a fixed period so their booking outcomes can be compared
+--
+-- An experiment has two arms, A and B, each a copy of a last-minute strategy taken when
+-- the experiment is created, so later edits to the originals don't change a running test.
+--   assignment_mode 'property':          each enrolled property is priced with its arm's
+--                                        strategy for the whole period
+--   assignment_mode 'alternating_weeks': every enrolled property is priced with A in the
+--                                        first week from start_date, B in the second, and so on
+--
+-- While an experiment is running, get_last_minute_discount reads the arm's strategy for the
+-- enrolled properties' nights between start_date and end_date instead of the property's
+-- active_discount_strategy_id. Early-bird strategies are not part of experiments.
+
+-- Step 1: Experiments
+CREATE TABLE IF NOT EXISTS discount_experiments (
+  experiment_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  experiment_name TEXT NOT NULL UNIQUE,
+  strategy_a_id UUID NOT NULL REFERENCES discount_strategies(strategy_id),
+  strategy_b_id UUID NOT NULL REFERENCES discount_strategies(strategy_id),
+  assignment_mode TEXT NOT NULL
+    CHECK (assignment_mode IN ('property', 'alternating_weeks')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'running', 'stopped')),
+  stopped_at TIMESTAMPTZ,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (strategy_a_id <> strategy_b_id),
+  CHECK (end_date > start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_experiments_running
+ON discount_experiments (start_date, end_date)
+WHERE status = 'running';
+
+ALTER TABLE discount_experiments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON discount_experiments
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 2: Enrolled properties; arm is NULL when weeks alternate, as the property is in both arms
+CREATE TABLE IF NOT EXISTS discount_experiment_properties (
+  experiment_id UUID NOT NULL REFERENCES discount_experiments(experiment_id) ON DELETE CASCADE,
+  property_internal_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  arm TEXT CHECK (arm IN ('a', 'b')),
+  PRIMARY KEY (experiment_id, property_internal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_experiment_properties_property
+ON discount_experiment_properties (property_internal_id);
+
+ALTER TABLE discount_experiment_properties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all operations for authenticated users" ON discount_experiment_properties
+  FOR ALL USING (auth.role() = 'authenticated');
+
+-- Step 3: The strategy a running experiment prices a property's night with, or NULL
+CREATE OR REPLACE FUNCTION get_experiment_strategy(
+  p_property_internal_id UUID,
+  p_check_date DATE
+) RETURNS UUID LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT CASE
+    WHEN e.assignment_mode = 'alternating_weeks' THEN
+      CASE WHEN ((p_check_date - e.start_date) / 7) % 2 = 0 THEN e.strategy_a_id ELSE e.strategy_b_id END
+    WHEN ep.arm = 'a' THEN e.strategy_a_id
+    ELSE e.strategy_b_id
+  END
+  FROM discount_experiments e
+  JOIN discount_experiment_properties ep ON ep.experiment_id = e.experiment_id
+  WHERE ep.property_internal_id = p_property_internal_id
+    AND e.status = 'running'
+    AND p_check_date BETWEEN e.start_date AND e.end_date
+  ORDER BY e.start_date
+  LIMIT 1;
+$$;
+
+-- Step 4: Last-minute discount from the experiment arm when one covers the night
+CREATE OR REPLACE FUNCTION get_last_minute_discount(
+  p_property_id TEXT,
+  p_days_before_checkin INTEGER,
+  p_nights INTEGER DEFAULT 1,
+  p_check_date DATE DEFAULT CURRENT_DATE
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE((
+    SELECT r.discount_percentage
+    FROM properties p
+    JOIN discount_strategies ds
+      ON ds.strategy_id = COALESCE(get_experiment_strategy(p.id, p_check_date), p.active_discount_strategy_id)
+    JOIN discount_rules r ON r.strategy_id = ds.strategy_id
+    WHERE p.lodgify_property_id = p_property_id
+      AND ds.strategy_type = 'last_minute'
+      AND ds.is_active
+      AND (ds.valid_from IS NULL OR ds.valid_from::DATE <= p_check_date)
+      AND (ds.valid_until IS NULL OR ds.valid_until::DATE >= p_check_date)
+      AND p_days_before_checkin BETWEEN 0 AND ds.activation_window
+      AND r.days_before_checkin >= p_days_before_checkin
+      AND discount_rule_applies(r.min_nights, r.applicable_days::JSONB, p_nights, p_check_date)
+    ORDER BY r.days_before_checkin
+    LIMIT 1
+  ), 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_experiment_strategy(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_last_minute_discount(TEXT, INTEGER, INTEGER, DATE) TO authenticated;
+
+COMMENT ON TABLE discount_experiments IS 'A/B tests of two last-minute strategies (copies taken at creation) over a fixed period';
+COMMENT ON COLUMN discount_experiments.assignment_mode IS 'property: each enrolled property has an arm; alternating_weeks: arms alternate weekly from start_date';
+COMMENT ON COLUMN discount_experiment_properties.arm IS 'a or b with assignment_mode property; NULL when weeks alternate';
+COMMENT ON FUNCTION get_experiment_strategy(UUID, DATE) IS 'Returns the strategy a running experiment prices a property''s night with, or NULL';
+COMMENT ON FUNCTION get_last_minute_discount(TEXT, INTEGER, INTEGER, DATE) IS 'Returns the last-minute discount rate from the running experiment arm or the property''s active last-minute strategy, or 0';
@@ -0,0 +1,353 @@
+-- Migration: Pricing component toggles
+-- Purpose: Let calculate_final_price and preview_pricing_calendar leave out seasonal rates,
+--          weekday multipliers or discount strategies, so the calendar toggles are priced by
+--          the database instead of re-derived in the client
+--
+-- A component that is switched off is left out of the calculation altogether, not subtracted
+-- afterwards: later steps (discounts worked out on the adjusted price, the stacking policy's
+-- cap and exclusivity, the property minimum) see the price without it. Demand adjustments and
+-- price overrides are not switchable. With every switch on (the defaults) the result is the
+-- same as before.
+
+-- Step 1: calculate_final_price with switches
+DROP FUNCTION IF EXISTS calculate_final_price(TEXT, DATE, INTEGER);
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER,
+  p_include_seasonal BOOLEAN DEFAULT TRUE,
+  p_include_weekday BOOLEAN DEFAULT TRUE,
+  p_include_discounts BOOLEAN DEFAULT TRUE
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  demand_adjustment NUMERIC,
+  demand_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  early_bird_discount NUMERIC,
+  early_bird_rate NUMERIC,
+  gap_discount NUMERIC,
+  gap_rate NUMERIC,
+  gap_nights INTEGER,
+  los_discount NUMERIC,
+  los_rate NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_demand_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  has_early_bird_discount BOOLEAN,
+  has_gap_discount BOOLEAN,
+  has_los_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN,
+  stacking_mode TEXT,
+  discount_order TEXT,
+  min_price_stage TEXT,
+  max_total_discount NUMERIC,
+  excluded_discounts TEXT[],
+  discount_cap_reduction NUMERIC,
+  min_price_adjustment NUMERIC,
+  calculated_price_per_night NUMERIC
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_policy RECORD;
+  v_rate RECORD;
+  v_rate_name TEXT;
+  v_rate_scope TEXT;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_weekday_price NUMERIC;
+  v_demand_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_early_bird_rate NUMERIC := 0;
+  v_lead_rate NUMERIC := 0;
+  v_gap RECORD;
+  v_gap_rate NUMERIC := 0;
+  v_gap_nights INTEGER;
+  v_los_rate NUMERIC := 0;
+  v_winner TEXT;
+  v_excluded TEXT[] := '{}';
+  v_pre_discount NUMERIC;
+  v_discount_base NUMERIC;
+  v_remaining NUMERIC;
+  v_lead_amount NUMERIC;
+  v_gap_amount NUMERIC;
+  v_los_amount NUMERIC;
+  v_cap_reduction NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM properties p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_policy FROM get_discount_stacking_policy(v_property.id);
+
+  IF p_include_seasonal THEN
+    SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+    IF FOUND THEN
+      v_seasonal_rate := v_rate.discount_rate;
+      v_rate_name := v_rate.rate_name;
+      v_rate_scope := v_rate.scope_type;
+    END IF;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  IF p_include_weekday THEN
+    v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  END IF;
+  v_weekday_price := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  -- A downward demand move stops at the property minimum
+  v_demand_rate := get_demand_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_weekday_price * (1 + v_demand_rate), 2);
+  IF v_demand_rate < 0 THEN
+    v_adjusted := GREATEST(v_adjusted, LEAST(v_weekday_price, v_property.min_price_per_day));
+  END IF;
+
+  -- Discount strategies off: no lead-time, gap filler or length-of-stay discount
+  IF p_include_discounts THEN
+    v_discount_pct := COALESCE(
+      get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+      0
+    );
+    v_early_bird_rate := COALESCE(
+      get_early_bird_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+      0
+    );
+
+    -- Last-minute and early-bird discounts never stack: the larger one applies
+    IF v_early_bird_rate > v_discount_pct THEN
+      v_discount_pct := 0;
+    ELSE
+      v_early_bird_rate := 0;
+    END IF;
+    v_lead_rate := v_discount_pct + v_early_bird_rate;
+
+    SELECT * INTO v_gap FROM get_gap_filler_discount(v_property.id, p_check_date);
+    IF FOUND THEN
+      v_gap_rate := v_gap.discount_rate;
+      v_gap_nights := v_gap.gap_nights;
+    END IF;
+
+    v_los_rate := get_length_of_stay_discount(v_property.id, p_nights);
+  END IF;
+
+  -- Exclusive discounts: keep only the largest that applies
+  SELECT k.kind INTO v_winner
+  FROM (VALUES ('lead_time', v_lead_rate, 1), ('gap', v_gap_rate, 2), ('length_of_stay', v_los_rate, 3))
+    AS k(kind, rate, step)
+  WHERE k.kind = ANY(v_policy.exclusive_discounts) AND k.rate > 0
+  ORDER BY k.rate DESC, k.step
+  LIMIT 1;
+
+  IF v_winner IS NOT NULL THEN
+    IF 'lead_time' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'lead_time' AND v_lead_rate > 0 THEN
+      v_excluded := v_excluded || 'lead_time'::TEXT;
+      v_discount_pct := 0;
+      v_early_bird_rate := 0;
+      v_lead_rate := 0;
+    END IF;
+    IF 'gap' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'gap' AND v_gap_rate > 0 THEN
+      v_excluded := v_excluded || 'gap'::TEXT;
+      v_gap_rate := 0;
+    END IF;
+    IF 'length_of_stay' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'length_of_stay' AND v_los_rate > 0 THEN
+      v_excluded := v_excluded || 'length_of_stay'::TEXT;
+      v_los_rate := 0;
+    END IF;
+  END IF;
+
+  v_pre_discount := CASE WHEN v_policy.min_price_stage = 'before_discounts'
+    THEN GREATEST(v_adjusted, v_property.min_price_per_day)
+    ELSE v_adjusted END;
+  v_discount_base := CASE WHEN v_policy.discount_order = 'before_adjustments'
+    THEN v_property.base_price_per_day
+    ELSE v_pre_discount END;
+
+  v_lead_amount := ROUND(v_discount_base * v_lead_rate, 2);
+  v_remaining := CASE WHEN v_policy.stacking_mode = 'compound' THEN v_discount_base - v_lead_amount ELSE v_discount_base END;
+  v_gap_amount := ROUND(v_remaining * v_gap_rate, 2);
+  v_remaining := CASE WHEN v_policy.stacking_mode = 'compound' THEN v_remaining - v_gap_amount ELSE v_discount_base END;
+  v_los_amount := ROUND(v_remaining * v_los_rate, 2);
+
+  IF v_policy.max_total_discount IS NOT NULL THEN
+    v_cap_reduction := GREATEST(
+      v_lead_amount + v_gap_amount + v_los_amount - ROUND(v_discount_base * v_policy.max_total_discount, 2),
+      0
+    );
+  END IF;
+
+  v_discounted := GREATEST(v_pre_discount - (v_lead_amount + v_gap_amount + v_los_amount - v_cap_reduction), 0);
+  v_final := CASE WHEN v_policy.min_price_stage = 'final'
+    THEN GREATEST(v_discounted, v_property.min_price_per_day)
+    ELSE v_discounted END;
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate_name,
+    v_rate_scope,
+    v_weekday_price - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted - v_weekday_price,
+    v_demand_rate,
+    v_adjusted,
+    CASE WHEN v_discount_pct > 0 THEN v_lead_amount ELSE 0 END,
+    CASE WHEN v_early_bird_rate > 0 THEN v_lead_amount ELSE 0 END,
+    v_early_bird_rate,
+    v_gap_amount,
+    v_gap_rate,
+    v_gap_nights,
+    v_los_amount,
+    v_los_rate,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_adjusted <> v_weekday_price,
+    v_discount_pct > 0,
+    v_early_bird_rate > 0,
+    v_gap_rate > 0,
+    v_los_rate > 0,
+    v_override_price IS NULL AND (v_pre_discount > v_adjusted OR v_final > v_discounted),
+    v_override_price IS NOT NULL,
+    v_policy.stacking_mode,
+    v_policy.discount_order,
+    v_policy.min_price_stage,
+    v_policy.max_total_discount,
+    v_excluded,
+    v_cap_reduction,
+    (v_pre_discount - v_adjusted) + (v_final - v_discounted),
+    v_final;
+END;
+$$;
+
+-- Step 2: Calendar preview with the same switches
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER,
+  p_include_seasonal BOOLEAN DEFAULT TRUE,
+  p_include_weekday BOOLEAN DEFAULT TRUE,
+  p_include_discounts BOOLEAN DEFAULT TRUE
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  early_bird_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(
+      p_property_id, v_date, p_nights, p_include_seasonal, p_include_weekday, p_include_discounts
+    );
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.demand_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      ROUND(v_price.early_bird_rate * 100, 2),
+      ROUND(v_price.gap_rate * 100, 2),
+      v_price.gap_nights,
+      ROUND(v_price.los_rate * 100, 2),
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      v_price.calculated_price_per_night,
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) IS 'Nightly price breakdown; discounts combine as the property''s discount stacking policy says. Seasonal rates, weekday multipliers and discount strategies can be left out.';
+COMMENT ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) IS 'calculate_final_price for each night of a range, with the same component switches';
@@ -0,0 +1,61 @@
+-- Migration: Pricing change log actor and later pricing inputs
+-- Purpose: Record who made a change when the app writes through the service role client,
+--          and audit the pricing inputs added after the change log
+--
+-- Base price, minimum price and override writes go through the service role client, whose
+-- JWT only says 'service_role'. The app sends the signed-in user in the x-changed-by request
+-- header with those requests; it is only trusted from the service role, as any other caller
+-- is identified by its own JWT.
+
+-- Step 1: Who is making the current change and why
+CREATE OR REPLACE FUNCTION pricing_change_context(OUT changed_by TEXT, OUT reason TEXT)
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_headers JSONB;
+  v_claims JSONB;
+BEGIN
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::JSONB;
+    v_claims := NULLIF(current_setting('request.jwt.claims', true), '')::JSONB;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_headers := NULL;
+    v_claims := NULL;
+  END;
+
+  reason := NULLIF(current_setting('lodgeprice.change_reason', true), '');
+  IF reason IS NULL AND v_headers ? 'x-change-reason' THEN
+    BEGIN
+      reason := NULLIF(convert_from(decode(v_headers->>'x-change-reason', 'base64'), 'UTF8'), '');
+    EXCEPTION WHEN OTHERS THEN
+      reason := NULL;   -- A malformed header must never block a pricing change
+    END;
+  END IF;
+
+  changed_by := COALESCE(
+    NULLIF(current_setting('lodgeprice.changed_by', true), ''),
+    v_claims->>'email',
+    CASE WHEN v_claims->>'role' = 'authenticated' THEN v_claims->>'sub' END,
+    CASE WHEN v_claims->>'role' = 'service_role' THEN NULLIF(v_headers->>'x-changed-by', '') END,
+    v_claims->>'role',
+    session_user
+  );
+END;
+$$;
+
+-- Step 2: Audit the discount stacking policies and experiment assignments
+DROP TRIGGER IF EXISTS log_pricing_change ON discount_stacking_policies;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON discount_stacking_policies
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('policy_id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON discount_experiments;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON discount_experiments
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('experiment_id');
+
+DROP TRIGGER IF EXISTS log_pricing_change ON discount_experiment_properties;
+CREATE TRIGGER log_pricing_change
+  AFTER INSERT OR UPDATE OR DELETE ON discount_experiment_properties
+  FOR EACH ROW EXECUTE FUNCTION log_pricing_change('experiment_id', 'property_internal_id');
+
+COMMENT ON COLUMN pricing_change_log.changed_by IS 'lodgeprice.changed_by, JWT email or user id, x-changed-by from the service role, or the JWT role or database user';
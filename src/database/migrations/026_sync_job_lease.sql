@@ -0,0 +1,74 @@
+-- Migration: Sync job lease
+-- Purpose: Stop sync jobs from staying 'processing' forever when the edge function
+--          dies mid-sync, and stop retrying properties whose automatic sync is off
+--
+-- claim_due_sync_jobs now leases the jobs it claims (claimed_at, lease_expires_at). A job
+-- still 'processing' after its lease lost its worker: it is recorded as a failed attempt
+-- through schedule_sync_retry, so it is retried with backoff or dead-lettered like any
+-- other failure. Property syncs started by the hourly run have no lease; they count as
+-- lost once they have been running for the lease length.
+--
+-- Jobs of integrations with sync_enabled = false are left in the queue unclaimed and
+-- become due again when the sync is switched back on.
+
+-- Step 1: Lease columns
+ALTER TABLE sync_operations
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_sync_operations_processing
+ON sync_operations (started_at)
+WHERE status = 'processing';
+
+-- Step 2: Reclaim stale jobs, then claim due jobs under a lease
+CREATE OR REPLACE FUNCTION claim_due_sync_jobs(p_limit INTEGER DEFAULT 5)
+RETURNS SETOF sync_operations
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  -- Longer than an edge function can run, so a live sync never loses its job
+  v_lease INTERVAL := INTERVAL '15 minutes';
+  v_stale_id UUID;
+BEGIN
+  FOR v_stale_id IN
+    SELECT id FROM sync_operations
+    WHERE status = 'processing'
+      AND property_id IS NOT NULL
+      AND operation_type IN ('scheduled', 'retry')
+      AND COALESCE(lease_expires_at, started_at + v_lease) <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM schedule_sync_retry(v_stale_id, 'Sync did not finish before its lease expired; the worker was lost');
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE sync_operations so
+  SET status = 'processing',
+      next_retry_at = NULL,
+      started_at = NOW(),
+      completed_at = NULL,
+      claimed_at = NOW(),
+      lease_expires_at = NOW() + v_lease
+  WHERE so.id IN (
+    SELECT id FROM sync_operations
+    WHERE status = 'failed'
+      AND next_retry_at IS NOT NULL
+      AND next_retry_at <= NOW()
+      AND property_id IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM lodgify_integrations li
+        WHERE li.property_id = sync_operations.property_id
+          AND li.sync_enabled
+      )
+    ORDER BY next_retry_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING so.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_due_sync_jobs(INTEGER) TO service_role;
+
+COMMENT ON COLUMN sync_operations.claimed_at IS 'When the retry queue last claimed this job';
+COMMENT ON COLUMN sync_operations.lease_expires_at IS 'A job still processing after this time is treated as a failed attempt';
+COMMENT ON FUNCTION claim_due_sync_jobs(INTEGER) IS 'Fails jobs whose lease expired, then leases up to p_limit due retry jobs of sync-enabled integrations and returns them';
@@ -0,0 +1,110 @@
+-- Migration: Calendar preview amounts
+-- Purpose: Return the per-night amounts calculate_final_price applied from
+--          preview_pricing_calendar, so the calendar shows what the stacking policy did
+--
+-- The preview only returned percentages, and the calendar turned them back into amounts as
+-- if every discount came off the price left by the previous one. Under an additive, capped or
+-- exclusive stacking policy those amounts did not add up to the price. The percentage columns
+-- stay for existing callers; the amount columns are added at the end.
+
+-- Step 1: Replace the preview with one that also returns amounts
+DROP FUNCTION IF EXISTS preview_pricing_calendar(TEXT, DATE, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION preview_pricing_calendar(
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER,
+  p_include_seasonal BOOLEAN DEFAULT TRUE,
+  p_include_weekday BOOLEAN DEFAULT TRUE,
+  p_include_discounts BOOLEAN DEFAULT TRUE
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  early_bird_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  seasonal_adjustment NUMERIC,
+  weekday_adjustment NUMERIC,
+  demand_adjustment NUMERIC,
+  last_minute_discount NUMERIC,
+  early_bird_discount NUMERIC,
+  gap_discount NUMERIC,
+  los_discount NUMERIC,
+  discount_cap_reduction NUMERIC,
+  excluded_discounts TEXT[]
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_date DATE;
+  v_price RECORD;
+BEGIN
+  IF p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  FOR v_date IN SELECT generate_series(p_start_date, p_end_date, '1 day'::interval)::DATE
+  LOOP
+    SELECT * INTO v_price FROM calculate_final_price(
+      p_property_id, v_date, p_nights, p_include_seasonal, p_include_weekday, p_include_discounts
+    );
+
+    RETURN QUERY SELECT
+      v_date,
+      (v_date - CURRENT_DATE)::INTEGER,
+      v_price.base_price_per_night,
+      ROUND(v_price.seasonal_rate * 100, 2),
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.weekday_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.base_price_per_night > 0
+        THEN ROUND(v_price.demand_adjustment / v_price.base_price_per_night * 100, 2)
+        ELSE 0 END,
+      CASE WHEN v_price.adjusted_price_per_night > 0
+        THEN ROUND(v_price.last_minute_discount / v_price.adjusted_price_per_night * 100, 2)
+        ELSE 0 END,
+      ROUND(v_price.early_bird_rate * 100, 2),
+      ROUND(v_price.gap_rate * 100, 2),
+      v_price.gap_nights,
+      ROUND(v_price.los_rate * 100, 2),
+      v_price.final_price_per_night,
+      v_price.total_price,
+      v_price.savings_amount,
+      v_price.savings_percentage,
+      v_price.at_minimum_price,
+      v_price.is_overridden,
+      CASE WHEN v_price.is_overridden THEN v_price.final_price_per_night ELSE NULL END,
+      v_price.calculated_price_per_night,
+      v_price.seasonal_rate_name,
+      v_price.seasonal_rate_scope,
+      v_price.seasonal_adjustment,
+      v_price.weekday_adjustment,
+      v_price.demand_adjustment,
+      v_price.last_minute_discount,
+      v_price.early_bird_discount,
+      v_price.gap_discount,
+      v_price.los_discount,
+      v_price.discount_cap_reduction,
+      v_price.excluded_discounts;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION preview_pricing_calendar(TEXT, DATE, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) IS 'calculate_final_price for each night of a range, with the same component switches and the amounts it applied';
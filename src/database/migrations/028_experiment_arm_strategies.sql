@@ -0,0 +1,298 @@
+-- Migration: Experiment arm strategies
+-- Purpose: Keep the strategy copies discount experiments price with out of the strategy
+--          lists and out of pricing scenarios, and make copy_discount_strategy copy a
+--          strategy completely
+--
+-- An experiment's arms are copies taken when it is created (023). They are now flagged
+-- is_experiment_arm, so strategy lists and get_global_strategies leave them out.
+-- Scenarios neither snapshot nor replace them: applying a scenario used to delete every
+-- strategy it did not have, arms included, which the experiment's references rejected.
+-- Deleting an arm while its experiment exists is refused with an error naming the experiment.
+--
+-- copy_discount_strategy now copies strategy_type (020) and the custom curve (021), so a copy
+-- of an early-bird or custom-curve strategy prices like the original.
+
+-- Step 1: Flag arm strategies
+ALTER TABLE discount_strategies
+ADD COLUMN IF NOT EXISTS is_experiment_arm BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE discount_strategies ds
+SET is_experiment_arm = TRUE
+WHERE EXISTS (
+  SELECT 1 FROM discount_experiments e
+  WHERE ds.strategy_id IN (e.strategy_a_id, e.strategy_b_id)
+);
+
+-- Step 2: Arms cannot be deleted while their experiment exists
+ALTER TABLE discount_experiments DROP CONSTRAINT IF EXISTS discount_experiments_strategy_a_id_fkey;
+ALTER TABLE discount_experiments
+  ADD CONSTRAINT discount_experiments_strategy_a_id_fkey
+  FOREIGN KEY (strategy_a_id) REFERENCES discount_strategies(strategy_id) ON DELETE RESTRICT;
+
+ALTER TABLE discount_experiments DROP CONSTRAINT IF EXISTS discount_experiments_strategy_b_id_fkey;
+ALTER TABLE discount_experiments
+  ADD CONSTRAINT discount_experiments_strategy_b_id_fkey
+  FOREIGN KEY (strategy_b_id) REFERENCES discount_strategies(strategy_id) ON DELETE RESTRICT;
+
+-- The constraint's own error does not say which experiment holds the strategy
+CREATE OR REPLACE FUNCTION prevent_experiment_arm_delete()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_experiment_name TEXT;
+BEGIN
+  SELECT e.experiment_name INTO v_experiment_name
+  FROM discount_experiments e
+  WHERE OLD.strategy_id IN (e.strategy_a_id, e.strategy_b_id)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Strategy "%" is an arm of the discount experiment "%" and cannot be deleted while the experiment exists',
+      OLD.strategy_name, v_experiment_name
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_experiment_arm_delete ON discount_strategies;
+CREATE TRIGGER prevent_experiment_arm_delete
+  BEFORE DELETE ON discount_strategies
+  FOR EACH ROW EXECUTE FUNCTION prevent_experiment_arm_delete();
+
+-- Step 3: Scenarios leave arm strategies out
+CREATE OR REPLACE FUNCTION create_pricing_scenario(
+  p_scenario_name TEXT,
+  p_description TEXT DEFAULT NULL
+) RETURNS UUID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_scenario_id UUID;
+BEGIN
+  INSERT INTO pricing_scenarios (scenario_name, description)
+  VALUES (trim(p_scenario_name), p_description)
+  RETURNING scenario_id INTO v_scenario_id;
+
+  INSERT INTO scenario_property_prices (
+    scenario_id, property_internal_id, base_price_per_day, min_price_per_day, active_discount_strategy_id
+  )
+  SELECT v_scenario_id, p.id, p.base_price_per_day, p.min_price_per_day, p.active_discount_strategy_id
+  FROM properties p;
+
+  INSERT INTO scenario_date_ranges (
+    scenario_id, rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, dr.rate_id, dr.rate_name, dr.start_date, dr.end_date, dr.discount_rate, dr.scope_type,
+    dr.property_internal_id, dr.property_group_id, dr.min_stay, dr.max_stay, dr.arrival_days, dr.departure_days,
+    dr.extra_guest_fee, dr.created_at, dr.updated_at
+  FROM date_ranges dr;
+
+  INSERT INTO scenario_discount_strategies (
+    scenario_id, strategy_id, strategy_name, property_internal_id, strategy_type, activation_window, min_discount,
+    max_discount, curve_type, curve_points, curve_interpolation, is_active, valid_from, valid_until, created_at,
+    updated_at
+  )
+  SELECT
+    v_scenario_id, ds.strategy_id, ds.strategy_name, ds.property_internal_id, ds.strategy_type, ds.activation_window,
+    ds.min_discount,
+    ds.max_discount, ds.curve_type, ds.curve_points, ds.curve_interpolation, ds.is_active, ds.valid_from, ds.valid_until,
+    ds.created_at, ds.updated_at
+  FROM discount_strategies ds
+  WHERE NOT ds.is_experiment_arm;
+
+  INSERT INTO scenario_discount_rules (
+    scenario_id, rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    v_scenario_id, r.rule_id, r.strategy_id, r.days_before_checkin, r.discount_percentage, r.min_nights,
+    r.applicable_days, r.created_at, r.updated_at
+  FROM discount_rules r
+  JOIN discount_strategies ds ON ds.strategy_id = r.strategy_id
+  WHERE NOT ds.is_experiment_arm;
+
+  RETURN v_scenario_id;
+END;
+$$;
+
+-- Writes a scenario over the live configuration (internal; callers own the transaction)
+-- Properties added after the scenario was created keep their live prices and strategy.
+-- Experiment arms stay as they are, also when a scenario taken before this migration has them.
+CREATE OR REPLACE FUNCTION apply_pricing_scenario(
+  p_scenario_id UUID
+) RETURNS VOID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pricing_scenarios WHERE scenario_id = p_scenario_id) THEN
+    RAISE EXCEPTION 'Pricing scenario % not found', p_scenario_id;
+  END IF;
+
+  -- Seasonal rates: replace wholesale so the overlap constraint never sees a half-applied set
+  DELETE FROM date_ranges;
+  INSERT INTO date_ranges (
+    rate_id, rate_name, start_date, end_date, discount_rate, scope_type,
+    property_internal_id, property_group_id, min_stay, max_stay, arrival_days, departure_days,
+    extra_guest_fee, created_at, updated_at
+  )
+  SELECT
+    s.rate_id, s.rate_name, s.start_date, s.end_date, s.discount_rate, s.scope_type,
+    s.property_internal_id, s.property_group_id, s.min_stay, s.max_stay, s.arrival_days, s.departure_days,
+    s.extra_guest_fee, s.created_at, NOW()
+  FROM scenario_date_ranges s
+  WHERE s.scenario_id = p_scenario_id;
+
+  -- Discount strategies: detach and remove strategies the scenario does not have
+  UPDATE properties p
+  SET active_discount_strategy_id = NULL
+  WHERE p.active_discount_strategy_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM scenario_discount_strategies s
+      WHERE s.scenario_id = p_scenario_id AND s.strategy_id = p.active_discount_strategy_id
+    );
+
+  DELETE FROM discount_rules r
+  WHERE NOT EXISTS (
+    SELECT 1 FROM discount_strategies ds
+    WHERE ds.strategy_id = r.strategy_id AND ds.is_experiment_arm
+  );
+  DELETE FROM discount_strategies ds
+  WHERE NOT ds.is_experiment_arm
+    AND NOT EXISTS (
+      SELECT 1 FROM scenario_discount_strategies s
+      WHERE s.scenario_id = p_scenario_id AND s.strategy_id = ds.strategy_id
+    );
+
+  INSERT INTO discount_strategies (
+    strategy_id, strategy_name, property_internal_id, strategy_type, activation_window, min_discount,
+    max_discount, curve_type, curve_points, curve_interpolation, is_active, valid_from, valid_until, created_at,
+    updated_at
+  )
+  SELECT
+    s.strategy_id, s.strategy_name, s.property_internal_id, s.strategy_type, s.activation_window, s.min_discount,
+    s.max_discount, s.curve_type, s.curve_points, s.curve_interpolation, s.is_active, s.valid_from, s.valid_until,
+    s.created_at, NOW()
+  FROM scenario_discount_strategies s
+  WHERE s.scenario_id = p_scenario_id
+    AND NOT EXISTS (
+      SELECT 1 FROM discount_strategies ds
+      WHERE ds.strategy_id = s.strategy_id AND ds.is_experiment_arm
+    )
+  ON CONFLICT (strategy_id) DO UPDATE SET
+    strategy_name = EXCLUDED.strategy_name,
+    property_internal_id = EXCLUDED.property_internal_id,
+    strategy_type = EXCLUDED.strategy_type,
+    activation_window = EXCLUDED.activation_window,
+    min_discount = EXCLUDED.min_discount,
+    max_discount = EXCLUDED.max_discount,
+    curve_type = EXCLUDED.curve_type,
+    curve_points = EXCLUDED.curve_points,
+    curve_interpolation = EXCLUDED.curve_interpolation,
+    is_active = EXCLUDED.is_active,
+    valid_from = EXCLUDED.valid_from,
+    valid_until = EXCLUDED.valid_until,
+    updated_at = NOW();
+
+  INSERT INTO discount_rules (
+    rule_id, strategy_id, days_before_checkin, discount_percentage, min_nights,
+    applicable_days, created_at, updated_at
+  )
+  SELECT
+    s.rule_id, s.strategy_id, s.days_before_checkin, s.discount_percentage, s.min_nights,
+    s.applicable_days, s.created_at, NOW()
+  FROM scenario_discount_rules s
+  WHERE s.scenario_id = p_scenario_id
+    AND NOT EXISTS (
+      SELECT 1 FROM discount_strategies ds
+      WHERE ds.strategy_id = s.strategy_id AND ds.is_experiment_arm
+    );
+
+  -- Base and minimum prices, and which strategy each property uses
+  UPDATE properties p
+  SET
+    base_price_per_day = s.base_price_per_day,
+    min_price_per_day = s.min_price_per_day,
+    active_discount_strategy_id = s.active_discount_strategy_id,
+    updated_at = NOW()
+  FROM scenario_property_prices s
+  WHERE s.scenario_id = p_scenario_id
+    AND s.property_internal_id = p.id;
+END;
+$$;
+
+-- Step 4: Copy every setting of a strategy and its rules; a copy is never an experiment arm
+CREATE OR REPLACE FUNCTION copy_discount_strategy(
+  p_strategy_id UUID,
+  p_new_name TEXT
+) RETURNS UUID LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_strategy_id UUID;
+BEGIN
+  INSERT INTO discount_strategies (
+    strategy_name, property_internal_id, strategy_type, activation_window, min_discount, max_discount,
+    curve_type, curve_points, curve_interpolation, is_active, valid_from, valid_until
+  )
+  SELECT
+    trim(p_new_name), ds.property_internal_id, ds.strategy_type, ds.activation_window, ds.min_discount,
+    ds.max_discount, ds.curve_type, ds.curve_points, ds.curve_interpolation, ds.is_active, ds.valid_from,
+    ds.valid_until
+  FROM discount_strategies ds
+  WHERE ds.strategy_id = p_strategy_id
+  RETURNING strategy_id INTO v_strategy_id;
+
+  IF v_strategy_id IS NULL THEN
+    RAISE EXCEPTION 'Discount strategy % not found', p_strategy_id;
+  END IF;
+
+  INSERT INTO discount_rules (
+    strategy_id, days_before_checkin, discount_percentage, min_nights, applicable_days
+  )
+  SELECT v_strategy_id, r.days_before_checkin, r.discount_percentage, r.min_nights, r.applicable_days
+  FROM discount_rules r
+  WHERE r.strategy_id = p_strategy_id;
+
+  RETURN v_strategy_id;
+END;
+$$;
+
+-- Step 5: Global strategy list without experiment arms
+DROP FUNCTION IF EXISTS get_global_strategies();
+
+CREATE OR REPLACE FUNCTION get_global_strategies()
+RETURNS TABLE(
+  strategy_id UUID,
+  strategy_name TEXT,
+  activation_window INTEGER,
+  min_discount NUMERIC,
+  max_discount NUMERIC,
+  curve_type TEXT,
+  is_active BOOLEAN,
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+  rule_count INTEGER
+) LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT
+    ds.strategy_id,
+    ds.strategy_name::TEXT,
+    ds.activation_window::INTEGER,
+    ds.min_discount::NUMERIC,
+    ds.max_discount::NUMERIC,
+    ds.curve_type::TEXT,
+    ds.is_active,
+    ds.valid_from::TIMESTAMPTZ,
+    ds.valid_until::TIMESTAMPTZ,
+    (SELECT COUNT(*)::INTEGER FROM discount_rules r WHERE r.strategy_id = ds.strategy_id)
+  FROM discount_strategies ds
+  WHERE ds.property_internal_id IS NULL
+    AND NOT ds.is_experiment_arm
+  ORDER BY ds.strategy_name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_pricing_scenario(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_pricing_scenario(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION copy_discount_strategy(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_global_strategies() TO authenticated;
+
+COMMENT ON COLUMN discount_strategies.is_experiment_arm IS 'Copy a discount experiment prices one arm with; hidden from strategy lists and left out of scenarios';
+COMMENT ON FUNCTION copy_discount_strategy(UUID, TEXT) IS 'Copies a strategy with all its settings and rules under a new name and returns the new strategy ID';
+COMMENT ON FUNCTION get_global_strategies() IS 'Returns the strategies for all properties, without experiment arms, with their rule counts';
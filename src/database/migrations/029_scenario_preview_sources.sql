@@ -0,0 +1,517 @@
+-- Migration: Scenario previews without live writes
+-- Purpose: Price a scenario from its own copies of the configuration instead of writing it over
+--          the live tables and rolling back, and return the same columns and component
+--          switches as preview_pricing_calendar
+--
+-- preview_scenario_calendar used to apply the scenario inside a subtransaction. Every preview
+-- deleted and rewrote the live seasonal rates, strategies and property prices, holding their
+-- row locks while it priced the range, and it was left behind on the four-argument calendar.
+-- The pricing functions now read base and minimum prices, seasonal rates and discount
+-- strategies through source functions. These return the live rows, or the scenario's rows
+-- while lodgeprice.preview_scenario_id is set for the transaction. Experiment arm strategies
+-- are never part of a scenario and stay live, as they do on promotion. Without the setting,
+-- prices are unchanged.
+
+-- Step 1: The scenario being previewed in this transaction, or NULL
+CREATE OR REPLACE FUNCTION preview_scenario_id()
+RETURNS UUID LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('lodgeprice.preview_scenario_id', true), '')::UUID;
+$$;
+
+-- Step 2: Pricing sources, live or from the previewed scenario
+-- Properties added after the scenario was created keep their live prices and strategy.
+CREATE OR REPLACE FUNCTION pricing_properties()
+RETURNS TABLE(
+  id UUID,
+  lodgify_property_id TEXT,
+  property_name TEXT,
+  base_price_per_day NUMERIC,
+  min_price_per_day NUMERIC,
+  active_discount_strategy_id UUID
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    p.id,
+    p.lodgify_property_id::TEXT,
+    p.property_name::TEXT,
+    COALESCE(s.base_price_per_day, p.base_price_per_day)::NUMERIC,
+    COALESCE(s.min_price_per_day, p.min_price_per_day)::NUMERIC,
+    CASE WHEN s.property_internal_id IS NOT NULL THEN s.active_discount_strategy_id ELSE p.active_discount_strategy_id END
+  FROM properties p
+  LEFT JOIN scenario_property_prices s
+    ON s.scenario_id = preview_scenario_id() AND s.property_internal_id = p.id;
+$$;
+
+CREATE OR REPLACE FUNCTION pricing_date_ranges()
+RETURNS TABLE(
+  rate_id UUID,
+  rate_name TEXT,
+  start_date DATE,
+  end_date DATE,
+  discount_rate NUMERIC,
+  scope_type TEXT,
+  property_internal_id UUID,
+  property_group_id UUID,
+  updated_at TIMESTAMPTZ
+) LANGUAGE sql STABLE AS $$
+  SELECT dr.rate_id, dr.rate_name::TEXT, dr.start_date::DATE, dr.end_date::DATE, dr.discount_rate::NUMERIC,
+    dr.scope_type::TEXT, dr.property_internal_id, dr.property_group_id, dr.updated_at::TIMESTAMPTZ
+  FROM date_ranges dr
+  WHERE preview_scenario_id() IS NULL
+  UNION ALL
+  SELECT s.rate_id, s.rate_name::TEXT, s.start_date::DATE, s.end_date::DATE, s.discount_rate::NUMERIC,
+    s.scope_type::TEXT, s.property_internal_id, s.property_group_id, s.updated_at::TIMESTAMPTZ
+  FROM scenario_date_ranges s
+  WHERE s.scenario_id = preview_scenario_id();
+$$;
+
+CREATE OR REPLACE FUNCTION pricing_discount_strategies()
+RETURNS TABLE(
+  strategy_id UUID,
+  property_internal_id UUID,
+  strategy_type TEXT,
+  activation_window INTEGER,
+  is_active BOOLEAN,
+  valid_from DATE,
+  valid_until DATE
+) LANGUAGE sql STABLE AS $$
+  SELECT ds.strategy_id, ds.property_internal_id, ds.strategy_type::TEXT, ds.activation_window::INTEGER, ds.is_active,
+    ds.valid_from::DATE, ds.valid_until::DATE
+  FROM discount_strategies ds
+  WHERE preview_scenario_id() IS NULL OR ds.is_experiment_arm
+  UNION ALL
+  SELECT s.strategy_id, s.property_internal_id, s.strategy_type::TEXT, s.activation_window::INTEGER, s.is_active,
+    s.valid_from::DATE, s.valid_until::DATE
+  FROM scenario_discount_strategies s
+  WHERE s.scenario_id = preview_scenario_id();
+$$;
+
+CREATE OR REPLACE FUNCTION pricing_discount_rules()
+RETURNS TABLE(
+  strategy_id UUID,
+  days_before_checkin INTEGER,
+  discount_percentage NUMERIC,
+  min_nights INTEGER,
+  applicable_days JSONB
+) LANGUAGE sql STABLE AS $$
+  SELECT r.strategy_id, r.days_before_checkin::INTEGER, r.discount_percentage::NUMERIC, r.min_nights::INTEGER,
+    r.applicable_days::JSONB
+  FROM discount_rules r
+  WHERE preview_scenario_id() IS NULL
+    OR EXISTS (SELECT 1 FROM discount_strategies ds WHERE ds.strategy_id = r.strategy_id AND ds.is_experiment_arm)
+  UNION ALL
+  SELECT s.strategy_id, s.days_before_checkin::INTEGER, s.discount_percentage::NUMERIC, s.min_nights::INTEGER,
+    s.applicable_days::JSONB
+  FROM scenario_discount_rules s
+  WHERE s.scenario_id = preview_scenario_id();
+$$;
+
+-- Step 3: Seasonal rate and lead-time discounts read the sources
+CREATE OR REPLACE FUNCTION resolve_seasonal_rate(
+  p_property_internal_id UUID,
+  p_date DATE
+) RETURNS TABLE(
+  rate_id UUID,
+  rate_name TEXT,
+  discount_rate NUMERIC,
+  scope_type TEXT
+) LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT dr.rate_id, dr.rate_name, dr.discount_rate, dr.scope_type
+  FROM pricing_date_ranges() dr
+  WHERE p_date BETWEEN dr.start_date AND dr.end_date
+    AND (
+      dr.scope_type = 'global'
+      OR (dr.scope_type = 'property' AND dr.property_internal_id = p_property_internal_id)
+      OR (dr.scope_type = 'group' AND dr.property_group_id IN (
+        SELECT pgm.group_id FROM property_group_members pgm
+        WHERE pgm.property_internal_id = p_property_internal_id
+      ))
+    )
+  ORDER BY
+    CASE dr.scope_type WHEN 'property' THEN 1 WHEN 'group' THEN 2 ELSE 3 END,
+    (dr.end_date - dr.start_date),
+    dr.updated_at DESC NULLS LAST
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION get_last_minute_discount(
+  p_property_id TEXT,
+  p_days_before_checkin INTEGER,
+  p_nights INTEGER DEFAULT 1,
+  p_check_date DATE DEFAULT CURRENT_DATE
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE((
+    SELECT r.discount_percentage
+    FROM pricing_properties() p
+    JOIN pricing_discount_strategies() ds
+      ON ds.strategy_id = COALESCE(get_experiment_strategy(p.id, p_check_date), p.active_discount_strategy_id)
+    JOIN pricing_discount_rules() r ON r.strategy_id = ds.strategy_id
+    WHERE p.lodgify_property_id = p_property_id
+      AND ds.strategy_type = 'last_minute'
+      AND ds.is_active
+      AND (ds.valid_from IS NULL OR ds.valid_from <= p_check_date)
+      AND (ds.valid_until IS NULL OR ds.valid_until >= p_check_date)
+      AND p_days_before_checkin BETWEEN 0 AND ds.activation_window
+      AND r.days_before_checkin >= p_days_before_checkin
+      AND discount_rule_applies(r.min_nights, r.applicable_days, p_nights, p_check_date)
+    ORDER BY r.days_before_checkin
+    LIMIT 1
+  ), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION get_early_bird_discount(
+  p_property_id TEXT,
+  p_days_before_checkin INTEGER,
+  p_nights INTEGER DEFAULT 1,
+  p_check_date DATE DEFAULT CURRENT_DATE
+) RETURNS NUMERIC LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE(MAX(reached.discount_percentage), 0)
+  FROM (
+    SELECT DISTINCT ON (ds.strategy_id) r.discount_percentage
+    FROM pricing_properties() p
+    JOIN pricing_discount_strategies() ds ON ds.property_internal_id = p.id
+    JOIN pricing_discount_rules() r ON r.strategy_id = ds.strategy_id
+    WHERE p.lodgify_property_id = p_property_id
+      AND ds.strategy_type = 'early_bird'
+      AND ds.is_active
+      AND (ds.valid_from IS NULL OR ds.valid_from <= p_check_date)
+      AND (ds.valid_until IS NULL OR ds.valid_until >= p_check_date)
+      AND p_days_before_checkin >= ds.activation_window
+      AND r.days_before_checkin <= p_days_before_checkin
+      AND discount_rule_applies(r.min_nights, r.applicable_days, p_nights, p_check_date)
+    ORDER BY ds.strategy_id, r.days_before_checkin DESC
+  ) reached;
+$$;
+
+-- Step 4: calculate_final_price reads base and minimum prices from the property source
+CREATE OR REPLACE FUNCTION calculate_final_price(
+  p_property_id TEXT,
+  p_check_date DATE,
+  p_nights INTEGER,
+  p_include_seasonal BOOLEAN DEFAULT TRUE,
+  p_include_weekday BOOLEAN DEFAULT TRUE,
+  p_include_discounts BOOLEAN DEFAULT TRUE
+) RETURNS TABLE(
+  property_id UUID,
+  property_name TEXT,
+  check_date DATE,
+  nights INTEGER,
+  base_price_per_night NUMERIC,
+  seasonal_adjustment NUMERIC,
+  seasonal_rate NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  weekday_adjustment NUMERIC,
+  weekday_rate NUMERIC,
+  demand_adjustment NUMERIC,
+  demand_rate NUMERIC,
+  adjusted_price_per_night NUMERIC,
+  last_minute_discount NUMERIC,
+  early_bird_discount NUMERIC,
+  early_bird_rate NUMERIC,
+  gap_discount NUMERIC,
+  gap_rate NUMERIC,
+  gap_nights INTEGER,
+  los_discount NUMERIC,
+  los_rate NUMERIC,
+  discounted_price_per_night NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  min_price_per_night NUMERIC,
+  savings_amount NUMERIC,
+  savings_percentage NUMERIC,
+  has_seasonal_rate BOOLEAN,
+  has_weekday_adjustment BOOLEAN,
+  has_demand_adjustment BOOLEAN,
+  has_last_minute_discount BOOLEAN,
+  has_early_bird_discount BOOLEAN,
+  has_gap_discount BOOLEAN,
+  has_los_discount BOOLEAN,
+  at_minimum_price BOOLEAN,
+  is_overridden BOOLEAN,
+  stacking_mode TEXT,
+  discount_order TEXT,
+  min_price_stage TEXT,
+  max_total_discount NUMERIC,
+  excluded_discounts TEXT[],
+  discount_cap_reduction NUMERIC,
+  min_price_adjustment NUMERIC,
+  calculated_price_per_night NUMERIC
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_property RECORD;
+  v_policy RECORD;
+  v_rate RECORD;
+  v_rate_name TEXT;
+  v_rate_scope TEXT;
+  v_seasonal_rate NUMERIC := 0;
+  v_seasonal_price NUMERIC;
+  v_weekday_rate NUMERIC := 0;
+  v_weekday_price NUMERIC;
+  v_demand_rate NUMERIC := 0;
+  v_adjusted NUMERIC;
+  v_discount_pct NUMERIC := 0;
+  v_early_bird_rate NUMERIC := 0;
+  v_lead_rate NUMERIC := 0;
+  v_gap RECORD;
+  v_gap_rate NUMERIC := 0;
+  v_gap_nights INTEGER;
+  v_los_rate NUMERIC := 0;
+  v_winner TEXT;
+  v_excluded TEXT[] := '{}';
+  v_pre_discount NUMERIC;
+  v_discount_base NUMERIC;
+  v_remaining NUMERIC;
+  v_lead_amount NUMERIC;
+  v_gap_amount NUMERIC;
+  v_los_amount NUMERIC;
+  v_cap_reduction NUMERIC := 0;
+  v_discounted NUMERIC;
+  v_final NUMERIC;
+  v_override_price NUMERIC;
+BEGIN
+  SELECT p.id, p.property_name, p.base_price_per_day, p.min_price_per_day
+  INTO v_property
+  FROM pricing_properties() p
+  WHERE p.lodgify_property_id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % does not exist', p_property_id;
+  END IF;
+
+  SELECT * INTO v_policy FROM get_discount_stacking_policy(v_property.id);
+
+  IF p_include_seasonal THEN
+    SELECT * INTO v_rate FROM resolve_seasonal_rate(v_property.id, p_check_date);
+    IF FOUND THEN
+      v_seasonal_rate := v_rate.discount_rate;
+      v_rate_name := v_rate.rate_name;
+      v_rate_scope := v_rate.scope_type;
+    END IF;
+  END IF;
+
+  v_seasonal_price := ROUND(v_property.base_price_per_day * (1 + v_seasonal_rate), 2);
+
+  IF p_include_weekday THEN
+    v_weekday_rate := get_weekday_adjustment(v_property.id, p_check_date);
+  END IF;
+  v_weekday_price := ROUND(v_seasonal_price * (1 + v_weekday_rate), 2);
+
+  -- A downward demand move stops at the property minimum
+  v_demand_rate := get_demand_adjustment(v_property.id, p_check_date);
+  v_adjusted := ROUND(v_weekday_price * (1 + v_demand_rate), 2);
+  IF v_demand_rate < 0 THEN
+    v_adjusted := GREATEST(v_adjusted, LEAST(v_weekday_price, v_property.min_price_per_day));
+  END IF;
+
+  -- Discount strategies off: no lead-time, gap filler or length-of-stay discount
+  IF p_include_discounts THEN
+    v_discount_pct := COALESCE(
+      get_last_minute_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+      0
+    );
+    v_early_bird_rate := COALESCE(
+      get_early_bird_discount(p_property_id, (p_check_date - CURRENT_DATE), p_nights, p_check_date),
+      0
+    );
+
+    -- Last-minute and early-bird discounts never stack: the larger one applies
+    IF v_early_bird_rate > v_discount_pct THEN
+      v_discount_pct := 0;
+    ELSE
+      v_early_bird_rate := 0;
+    END IF;
+    v_lead_rate := v_discount_pct + v_early_bird_rate;
+
+    SELECT * INTO v_gap FROM get_gap_filler_discount(v_property.id, p_check_date);
+    IF FOUND THEN
+      v_gap_rate := v_gap.discount_rate;
+      v_gap_nights := v_gap.gap_nights;
+    END IF;
+
+    v_los_rate := get_length_of_stay_discount(v_property.id, p_nights);
+  END IF;
+
+  -- Exclusive discounts: keep only the largest that applies
+  SELECT k.kind INTO v_winner
+  FROM (VALUES ('lead_time', v_lead_rate, 1), ('gap', v_gap_rate, 2), ('length_of_stay', v_los_rate, 3))
+    AS k(kind, rate, step)
+  WHERE k.kind = ANY(v_policy.exclusive_discounts) AND k.rate > 0
+  ORDER BY k.rate DESC, k.step
+  LIMIT 1;
+
+  IF v_winner IS NOT NULL THEN
+    IF 'lead_time' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'lead_time' AND v_lead_rate > 0 THEN
+      v_excluded := v_excluded || 'lead_time'::TEXT;
+      v_discount_pct := 0;
+      v_early_bird_rate := 0;
+      v_lead_rate := 0;
+    END IF;
+    IF 'gap' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'gap' AND v_gap_rate > 0 THEN
+      v_excluded := v_excluded || 'gap'::TEXT;
+      v_gap_rate := 0;
+    END IF;
+    IF 'length_of_stay' = ANY(v_policy.exclusive_discounts) AND v_winner <> 'length_of_stay' AND v_los_rate > 0 THEN
+      v_excluded := v_excluded || 'length_of_stay'::TEXT;
+      v_los_rate := 0;
+    END IF;
+  END IF;
+
+  v_pre_discount := CASE WHEN v_policy.min_price_stage = 'before_discounts'
+    THEN GREATEST(v_adjusted, v_property.min_price_per_day)
+    ELSE v_adjusted END;
+  v_discount_base := CASE WHEN v_policy.discount_order = 'before_adjustments'
+    THEN v_property.base_price_per_day
+    ELSE v_pre_discount END;
+
+  v_lead_amount := ROUND(v_discount_base * v_lead_rate, 2);
+  v_remaining := CASE WHEN v_policy.stacking_mode = 'compound' THEN v_discount_base - v_lead_amount ELSE v_discount_base END;
+  v_gap_amount := ROUND(v_remaining * v_gap_rate, 2);
+  v_remaining := CASE WHEN v_policy.stacking_mode = 'compound' THEN v_remaining - v_gap_amount ELSE v_discount_base END;
+  v_los_amount := ROUND(v_remaining * v_los_rate, 2);
+
+  IF v_policy.max_total_discount IS NOT NULL THEN
+    v_cap_reduction := GREATEST(
+      v_lead_amount + v_gap_amount + v_los_amount - ROUND(v_discount_base * v_policy.max_total_discount, 2),
+      0
+    );
+  END IF;
+
+  v_discounted := GREATEST(v_pre_discount - (v_lead_amount + v_gap_amount + v_los_amount - v_cap_reduction), 0);
+  v_final := CASE WHEN v_policy.min_price_stage = 'final'
+    THEN GREATEST(v_discounted, v_property.min_price_per_day)
+    ELSE v_discounted END;
+
+  SELECT po.override_price INTO v_override_price
+  FROM price_overrides po
+  WHERE po.property_id = p_property_id
+    AND po.override_date = p_check_date
+    AND po.is_active = true;
+
+  RETURN QUERY SELECT
+    v_property.id,
+    v_property.property_name,
+    p_check_date,
+    p_nights,
+    v_property.base_price_per_day,
+    v_seasonal_price - v_property.base_price_per_day,
+    v_seasonal_rate,
+    v_rate_name,
+    v_rate_scope,
+    v_weekday_price - v_seasonal_price,
+    v_weekday_rate,
+    v_adjusted - v_weekday_price,
+    v_demand_rate,
+    v_adjusted,
+    CASE WHEN v_discount_pct > 0 THEN v_lead_amount ELSE 0 END,
+    CASE WHEN v_early_bird_rate > 0 THEN v_lead_amount ELSE 0 END,
+    v_early_bird_rate,
+    v_gap_amount,
+    v_gap_rate,
+    v_gap_nights,
+    v_los_amount,
+    v_los_rate,
+    v_discounted,
+    COALESCE(v_override_price, v_final),
+    COALESCE(v_override_price, v_final) * p_nights,
+    v_property.min_price_per_day,
+    GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) * p_nights,
+    CASE WHEN v_adjusted > 0
+      THEN ROUND(GREATEST(v_adjusted - COALESCE(v_override_price, v_final), 0) / v_adjusted * 100, 2)
+      ELSE 0 END,
+    v_seasonal_rate <> 0,
+    v_weekday_rate <> 0,
+    v_adjusted <> v_weekday_price,
+    v_discount_pct > 0,
+    v_early_bird_rate > 0,
+    v_gap_rate > 0,
+    v_los_rate > 0,
+    v_override_price IS NULL AND (v_pre_discount > v_adjusted OR v_final > v_discounted),
+    v_override_price IS NOT NULL,
+    v_policy.stacking_mode,
+    v_policy.discount_order,
+    v_policy.min_price_stage,
+    v_policy.max_total_discount,
+    v_excluded,
+    v_cap_reduction,
+    (v_pre_discount - v_adjusted) + (v_final - v_discounted),
+    v_final;
+END;
+$$;
+
+-- Step 5: Scenario preview on the current calendar, with the scenario set for the transaction only
+DROP FUNCTION IF EXISTS preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION preview_scenario_calendar(
+  p_scenario_id UUID,
+  p_property_id TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_nights INTEGER,
+  p_include_seasonal BOOLEAN DEFAULT TRUE,
+  p_include_weekday BOOLEAN DEFAULT TRUE,
+  p_include_discounts BOOLEAN DEFAULT TRUE
+) RETURNS TABLE(
+  check_date DATE,
+  days_from_today INTEGER,
+  base_price NUMERIC,
+  seasonal_adjustment_percent NUMERIC,
+  weekday_adjustment_percent NUMERIC,
+  demand_adjustment_percent NUMERIC,
+  last_minute_discount_percent NUMERIC,
+  early_bird_discount_percent NUMERIC,
+  gap_discount_percent NUMERIC,
+  gap_nights INTEGER,
+  los_discount_percent NUMERIC,
+  final_price_per_night NUMERIC,
+  total_price NUMERIC,
+  savings_amount NUMERIC,
+  savings_percent NUMERIC,
+  min_price_enforced BOOLEAN,
+  is_override BOOLEAN,
+  override_price NUMERIC,
+  calculated_price NUMERIC,
+  seasonal_rate_name TEXT,
+  seasonal_rate_scope TEXT,
+  seasonal_adjustment NUMERIC,
+  weekday_adjustment NUMERIC,
+  demand_adjustment NUMERIC,
+  last_minute_discount NUMERIC,
+  early_bird_discount NUMERIC,
+  gap_discount NUMERIC,
+  los_discount NUMERIC,
+  discount_cap_reduction NUMERIC,
+  excluded_discounts TEXT[]
+) LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_previous TEXT := current_setting('lodgeprice.preview_scenario_id', true);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pricing_scenarios s WHERE s.scenario_id = p_scenario_id) THEN
+    RAISE EXCEPTION 'Pricing scenario % not found', p_scenario_id;
+  END IF;
+
+  PERFORM set_config('lodgeprice.preview_scenario_id', p_scenario_id::TEXT, true);
+
+  RETURN QUERY
+  SELECT c.*
+  FROM preview_pricing_calendar(
+    p_property_id, p_start_date, p_end_date, p_nights, p_include_seasonal, p_include_weekday, p_include_discounts
+  ) c;
+
+  PERFORM set_config('lodgeprice.preview_scenario_id', COALESCE(v_previous, ''), true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION preview_scenario_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION pricing_properties() TO authenticated;
+GRANT EXECUTE ON FUNCTION pricing_date_ranges() TO authenticated;
+GRANT EXECUTE ON FUNCTION pricing_discount_strategies() TO authenticated;
+GRANT EXECUTE ON FUNCTION pricing_discount_rules() TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_final_price(TEXT, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION preview_scenario_id() IS 'The scenario preview_scenario_calendar is pricing in this transaction, or NULL';
+COMMENT ON FUNCTION pricing_properties() IS 'Properties with the base and minimum prices and strategy pricing uses: live, or the previewed scenario''s';
+COMMENT ON FUNCTION pricing_date_ranges() IS 'Seasonal rates pricing uses: live, or the previewed scenario''s';
+COMMENT ON FUNCTION pricing_discount_strategies() IS 'Discount strategies pricing uses: live, or the previewed scenario''s plus the live experiment arms';
+COMMENT ON FUNCTION pricing_discount_rules() IS 'Discount rules of pricing_discount_strategies()';
+COMMENT ON FUNCTION preview_scenario_calendar(UUID, TEXT, DATE, DATE, INTEGER, BOOLEAN, BOOLEAN, BOOLEAN) IS 'preview_pricing_calendar priced from a scenario''s configuration, without writing live rows';
@@ -0,0 +1,56 @@
+-- Migration: Discount rule weekday values
+-- Purpose: Read a discount rule's applicable_days the same way in the database and in the app
+--
+-- discount_rule_applies only matched JSON day numbers and the exact lowercase name to_char gives,
+-- while the app's parseApplicableDays also took " Monday" or "1". A rule saved by hand or by an
+-- older client was then explained as applying on a day the database never discounted. Both now
+-- read a day as an integer 0-6 (0 = Sunday), a string holding one, or a day name in any case,
+-- ignoring surrounding whitespace. Anything else matches no day; a missing, empty or non-array
+-- list still means every day.
+
+-- Step 1: Weekday of one applicable_days entry, or NULL when it is not a day
+CREATE OR REPLACE FUNCTION discount_rule_day(
+  p_day JSONB
+) RETURNS INTEGER LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE jsonb_typeof(p_day)
+    WHEN 'number' THEN
+      CASE WHEN (p_day #>> '{}')::NUMERIC IN (0, 1, 2, 3, 4, 5, 6)
+        THEN (p_day #>> '{}')::NUMERIC::INTEGER END
+    WHEN 'string' THEN (
+      SELECT CASE
+        WHEN d.name ~ '^[0-6]$' THEN d.name::INTEGER
+        ELSE array_position(
+          ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'],
+          lower(d.name)
+        ) - 1
+      END
+      FROM (SELECT regexp_replace(p_day #>> '{}', '^[ \t\n\r\f\v]+|[ \t\n\r\f\v]+$', '', 'g') AS name) d
+    )
+  END;
+$$;
+
+-- Step 2: Rule conditions on top of it
+CREATE OR REPLACE FUNCTION discount_rule_applies(
+  p_min_nights INTEGER,
+  p_applicable_days JSONB,
+  p_nights INTEGER,
+  p_check_date DATE
+) RETURNS BOOLEAN LANGUAGE sql STABLE AS $$
+  SELECT (p_min_nights IS NULL OR p_nights >= p_min_nights)
+    AND (
+      p_applicable_days IS NULL
+      OR jsonb_typeof(p_applicable_days) <> 'array'
+      OR jsonb_array_length(p_applicable_days) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_applicable_days) AS a(day)
+        WHERE discount_rule_day(a.day) = EXTRACT(DOW FROM p_check_date)::INTEGER
+      )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION discount_rule_day(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION discount_rule_applies(INTEGER, JSONB, INTEGER, DATE) TO authenticated;
+
+COMMENT ON FUNCTION discount_rule_day(JSONB) IS 'Weekday (0 = Sunday) of an applicable_days entry: an integer 0-6, a string holding one, or a day name in any case; NULL otherwise';
+COMMENT ON FUNCTION discount_rule_applies(INTEGER, JSONB, INTEGER, DATE) IS 'Whether a discount rule''s min_nights and applicable_days allow it for a night and stay length';
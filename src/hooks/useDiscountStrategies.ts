@@ -85,6 +85,7 @@ export function useDiscountStrategies(): UseDiscountStrategies {
       const { data: strategiesData, error: strategiesError } = await supabase
         .from('discount_strategies')
         .select('*')
+        .eq('is_experiment_arm', false)
         .order('created_at', { ascending: false })
       
       if (strategiesError) {
@@ -32,10 +32,13 @@ export const useDiscountStrategy = (): UseDiscountStrategyReturn => {
         .insert({
           strategy_name: strategyData.strategy_name,
           property_internal_id: strategyData.property_internal_id || null,
+          strategy_type: strategyData.strategy_type,
           activation_window: strategyData.activation_window,
           min_discount: strategyData.min_discount,
           max_discount: strategyData.max_discount,
           curve_type: strategyData.curve_type,
+          curve_points: strategyData.curve_type === 'custom' ? strategyData.curve_points ?? null : null,
+          curve_interpolation: strategyData.curve_type === 'custom' ? strategyData.curve_interpolation ?? 'linear' : null,
           is_active: strategyData.is_active ?? true,
           valid_from: strategyData.valid_from || null,
           valid_until: strategyData.valid_until || null
@@ -100,10 +103,16 @@ export const useDiscountStrategy = (): UseDiscountStrategyReturn => {
       
       if (strategyData.strategy_name !== undefined) updateData.strategy_name = strategyData.strategy_name;
       if (strategyData.property_internal_id !== undefined) updateData.property_internal_id = strategyData.property_internal_id;
+      if (strategyData.strategy_type !== undefined) updateData.strategy_type = strategyData.strategy_type;
       if (strategyData.activation_window !== undefined) updateData.activation_window = strategyData.activation_window;
       if (strategyData.min_discount !== undefined) updateData.min_discount = strategyData.min_discount;
       if (strategyData.max_discount !== undefined) updateData.max_discount = strategyData.max_discount;
       if (strategyData.curve_type !== undefined) updateData.curve_type = strategyData.curve_type;
+      if (strategyData.curve_type !== undefined) {
+        // Preset curves don't keep custom points
+        updateData.curve_points = strategyData.curve_type === 'custom' ? strategyData.curve_points ?? null : null;
+        updateData.curve_interpolation = strategyData.curve_type === 'custom' ? strategyData.curve_interpolation ?? 'linear' : null;
+      }
       if (strategyData.is_active !== undefined) updateData.is_active = strategyData.is_active;
       if (strategyData.valid_from !== undefined) updateData.valid_from = strategyData.valid_from;
       if (strategyData.valid_until !== undefined) updateData.valid_until = strategyData.valid_until;
@@ -321,6 +330,10 @@ export const useFetchDiscountStrategies = () => {
       setStrategies((data || []).map(strategy => ({
         ...strategy,
         property_internal_id: null, // RPC doesn't return this field
+        strategy_type: 'last_minute', // RPC doesn't return this field
+        curve_points: null, // RPC doesn't return this field
+        curve_interpolation: null, // RPC doesn't return this field
+        is_experiment_arm: false, // The RPC leaves experiment arms out
         created_at: '', // RPC doesn't return this field 
         updated_at: '' // RPC doesn't return this field
       })));
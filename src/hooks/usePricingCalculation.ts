@@ -186,8 +186,19 @@ export function usePricingCalculation(): UsePricingCalculation {
           base_price_per_night: row.base_price,
           seasonal_adjustment: (row.seasonal_adjustment_percent || 0) * row.base_price / 100,
           seasonal_rate: 0,
-          adjusted_price_per_night: row.base_price + (row.seasonal_adjustment_percent || 0) * row.base_price / 100,
+          weekday_adjustment: (row.weekday_adjustment_percent || 0) * row.base_price / 100,
+          weekday_rate: 0,
+          demand_adjustment: (row.demand_adjustment_percent || 0) * row.base_price / 100,
+          demand_rate: 0,
+          adjusted_price_per_night: row.base_price + ((row.seasonal_adjustment_percent || 0) + (row.weekday_adjustment_percent || 0) + (row.demand_adjustment_percent || 0)) * row.base_price / 100,
           last_minute_discount: row.savings_amount || 0,
+          early_bird_discount: 0,
+          early_bird_rate: (row.early_bird_discount_percent || 0) / 100,
+          gap_discount: 0,
+          gap_rate: (row.gap_discount_percent || 0) / 100,
+          gap_nights: row.gap_nights ?? null,
+          los_discount: 0,
+          los_rate: (row.los_discount_percent || 0) / 100,
           discounted_price_per_night: row.final_price_per_night,
           final_price_per_night: row.final_price_per_night,
           total_price: row.total_price,
@@ -195,7 +206,12 @@ export function usePricingCalculation(): UsePricingCalculation {
           savings_amount: row.savings_amount || 0,
           savings_percentage: row.savings_percent || 0,
           has_seasonal_rate: (row.seasonal_adjustment_percent || 0) !== 0,
+          has_weekday_adjustment: (row.weekday_adjustment_percent || 0) !== 0,
+          has_demand_adjustment: (row.demand_adjustment_percent || 0) !== 0,
           has_last_minute_discount: (row.savings_amount || 0) > 0,
+          has_early_bird_discount: (row.early_bird_discount_percent || 0) > 0,
+          has_gap_discount: (row.gap_discount_percent || 0) > 0,
+          has_los_discount: (row.los_discount_percent || 0) > 0,
           at_minimum_price: row.min_price_enforced || false,
           is_overridden: false,
           // Compatibility aliases
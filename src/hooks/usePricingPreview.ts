@@ -1,7 +1,11 @@
 import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import { format } from 'date-fns';
 import { supabase } from '../lib/supabase';
 import { handleDatabaseError } from '../utils/discountErrorHandling';
+import { selectDiscountRule } from '../utils/discountRuleEligibility';
+import type { RuleEvaluation } from '../utils/discountRuleEligibility';
 import type { DiscountRule } from '../types/database.types';
+import type { DiscountStrategyType } from '../types/database';
 
 export interface PricePreview {
   originalPrice: number;
@@ -12,6 +16,7 @@ export interface PricePreview {
   totalPrice: number;
   daysBeforeCheckin: number;
   applicableRule: DiscountRule | null;
+  ruleEvaluations: RuleEvaluation<DiscountRule>[];  // Why each rule did or didn't apply
   calculationDate: Date;
   nightCount: number;
   minPriceEnforced: boolean;
@@ -25,7 +30,8 @@ interface UsePricingPreviewReturn {
     propertyId: string,
     checkDate: Date,
     nights: number,
-    discountRules: DiscountRule[]
+    discountRules: DiscountRule[],
+    strategyType?: DiscountStrategyType
   ) => void;
   clearPreview: () => void;
 }
@@ -63,7 +69,8 @@ export const usePricingPreview = (): UsePricingPreviewReturn => {
     propertyId: string,
     checkDate: Date,
     nights: number,
-    discountRules: DiscountRule[]
+    discountRules: DiscountRule[],
+    strategyType: DiscountStrategyType = 'last_minute'
   ) => {
     // Cancel any ongoing request
     if (abortControllerRef.current) {
@@ -86,8 +93,8 @@ export const usePricingPreview = (): UsePricingPreviewReturn => {
         (checkDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
       );
       
-      // Format date for database function
-      const formattedDate = checkDate.toISOString().split('T')[0];
+      // Format date for database function; the local date, so its weekday matches the picked one
+      const formattedDate = format(checkDate, 'yyyy-MM-dd');
       
       // Get base price calculation using database function
       const { data: baseCalc, error: baseError } = await supabase.rpc(
@@ -107,42 +114,15 @@ export const usePricingPreview = (): UsePricingPreviewReturn => {
         throw new Error('No pricing data returned');
       }
       
-      // Find applicable rule from the provided rules
-      let applicableRule: DiscountRule | null = null;
-      let simulatedDiscount = 0;
-      
-      if (discountRules && discountRules.length > 0) {
-        // Find the rule that applies for the days before checkin
-        const sortedRules = [...discountRules].sort(
-          (a, b) => a.days_before_checkin - b.days_before_checkin
-        );
-        
-        for (const rule of sortedRules) {
-          if (daysBeforeCheckin <= rule.days_before_checkin) {
-            applicableRule = rule;
-            
-            // Check if nights requirement is met
-            if (rule.min_nights && nights < rule.min_nights) {
-              applicableRule = null;
-              continue;
-            }
-            
-            // Check if day of week is applicable (if specified)
-            if (rule.applicable_days && Array.isArray(rule.applicable_days)) {
-              const dayOfWeek = checkDate.getDay();
-              if (!rule.applicable_days.includes(dayOfWeek)) {
-                applicableRule = null;
-                continue;
-              }
-            }
-            
-            if (applicableRule) {
-              simulatedDiscount = baseCalc.base_price * applicableRule.discount_percentage;
-              break;
-            }
-          }
-        }
-      }
+      // Find applicable rule from the provided rules, with the same
+      // weekday and minimum stay checks as calculate_final_price
+      const { rule: applicableRule, evaluations: ruleEvaluations } = selectDiscountRule(
+        discountRules ?? [],
+        { strategyType, daysBeforeCheckin, nights, checkDate: formattedDate }
+      );
+      const simulatedDiscount = applicableRule
+        ? baseCalc.base_price * applicableRule.discount_percentage
+        : 0;
       
       // Calculate final price with simulated discount
       // Note: The database function doesn't return min_price directly, but we know it enforces it
@@ -162,6 +142,7 @@ export const usePricingPreview = (): UsePricingPreviewReturn => {
         totalPrice: finalPriceWithDiscount * nights,
         daysBeforeCheckin,
         applicableRule,
+        ruleEvaluations,
         calculationDate: checkDate,
         nightCount: nights,
         minPriceEnforced
@@ -191,7 +172,8 @@ export const usePricingPreview = (): UsePricingPreviewReturn => {
     propertyId: string,
     checkDate: Date,
     nights: number,
-    discountRules: DiscountRule[]
+    discountRules: DiscountRule[],
+    strategyType?: DiscountStrategyType
   ) => {
     // Validate inputs
     if (!propertyId || !checkDate || nights < 1) {
@@ -200,7 +182,7 @@ export const usePricingPreview = (): UsePricingPreviewReturn => {
     }
     
     // Call debounced function
-    debouncedCalculation(propertyId, checkDate, nights, discountRules);
+    debouncedCalculation(propertyId, checkDate, nights, discountRules, strategyType);
   }, [debouncedCalculation]);
 
   // Cleanup on unmount
@@ -249,7 +231,7 @@ export const usePricingComparison = () => {
           (checkDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
         );
         
-        const formattedDate = checkDate.toISOString().split('T')[0];
+        const formattedDate = format(checkDate, 'yyyy-MM-dd');
         
         const { data: baseCalc, error: baseError } = await supabase.rpc(
           'calculate_final_price',
@@ -270,24 +252,13 @@ export const usePricingComparison = () => {
         }
         
         // Find applicable rule
-        let applicableRule: DiscountRule | null = null;
-        let simulatedDiscount = 0;
-        
-        if (discountRules && discountRules.length > 0) {
-          const sortedRules = [...discountRules].sort(
-            (a, b) => a.days_before_checkin - b.days_before_checkin
-          );
-          
-          for (const rule of sortedRules) {
-            if (daysBeforeCheckin <= rule.days_before_checkin) {
-              if (!rule.min_nights || nights >= rule.min_nights) {
-                applicableRule = rule;
-                simulatedDiscount = baseCalc.base_price * rule.discount_percentage;
-                break;
-              }
-            }
-          }
-        }
+        const { rule: applicableRule, evaluations: ruleEvaluations } = selectDiscountRule(
+          discountRules ?? [],
+          { strategyType: 'last_minute', daysBeforeCheckin, nights, checkDate: formattedDate }
+        );
+        const simulatedDiscount = applicableRule
+          ? baseCalc.base_price * applicableRule.discount_percentage
+          : 0;
         
         const finalPriceWithDiscount = Math.max(
           baseCalc.base_price + baseCalc.seasonal_adjustment - simulatedDiscount,
@@ -303,6 +274,7 @@ export const usePricingComparison = () => {
           totalPrice: finalPriceWithDiscount * nights,
           daysBeforeCheckin,
           applicableRule,
+          ruleEvaluations,
           calculationDate: checkDate,
           nightCount: nights,
           minPriceEnforced: baseCalc.min_price_enforced
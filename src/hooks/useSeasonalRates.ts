@@ -5,17 +5,23 @@
 
 import { useState, useCallback, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
+import { withChangeReason } from '@/services/change-log.service'
 import type { SeasonalRate } from '@/types/database-aliases'
+import type { SeasonalRateScope } from '@/types/database'
 import { usePricingContext } from '@/context/PricingContext'
 
 /**
  * Seasonal rate input for creating new rates
+ * Scope defaults to global (all properties) when omitted
  */
 export interface NewSeasonalRate {
   rate_name: string
   start_date: string
   end_date: string
   discount_rate: number
+  scope_type?: SeasonalRateScope
+  property_internal_id?: string | null
+  property_group_id?: string | null
 }
 
 /**
@@ -33,11 +39,16 @@ export interface SeasonalRateUpdate {
  */
 export interface UseSeasonalRates {
   rates: SeasonalRate[]
-  addRate: (rate: NewSeasonalRate) => Promise<void>
-  updateRate: (id: string, updates: SeasonalRateUpdate) => Promise<void>
-  deleteRate: (id: string) => Promise<void>
+  addRate: (rate: NewSeasonalRate, reason?: string) => Promise<void>
+  updateRate: (id: string, updates: SeasonalRateUpdate, reason?: string) => Promise<void>
+  deleteRate: (id: string, reason?: string) => Promise<void>
   refreshRates: () => Promise<void>
-  validateOverlap: (startDate: string, endDate: string, excludeId?: string) => Promise<boolean>
+  validateOverlap: (
+    startDate: string,
+    endDate: string,
+    excludeId?: string,
+    scope?: Pick<NewSeasonalRate, 'scope_type' | 'property_internal_id' | 'property_group_id'>
+  ) => Promise<boolean>
   loading: boolean
   error: string | null
   clearError: () => void
@@ -80,19 +91,30 @@ export function useSeasonalRates(): UseSeasonalRates {
   }, [])
   
   /**
-   * Validate if a date range overlaps with existing rates
+   * Validate if a date range overlaps with existing rates of the same scope
+   * Rates of different scopes may overlap; the more specific one wins when pricing
    */
   const validateOverlap = useCallback(async (
     startDate: string,
     endDate: string,
-    excludeId?: string
+    excludeId?: string,
+    scope: Pick<NewSeasonalRate, 'scope_type' | 'property_internal_id' | 'property_group_id'> = {}
   ): Promise<boolean> => {
     try {
+      const scopeType = scope.scope_type ?? 'global'
+
       // Build query to check for overlapping date ranges
       let query = supabase
         .from('date_ranges')
-        .select('id')
+        .select('rate_id')
         .or(`and(start_date.lte.${endDate},end_date.gte.${startDate})`)
+        .eq('scope_type', scopeType)
+
+      if (scopeType === 'property') {
+        query = query.eq('property_internal_id', scope.property_internal_id ?? '')
+      } else if (scopeType === 'group') {
+        query = query.eq('property_group_id', scope.property_group_id ?? '')
+      }
       
       // Exclude current rate when updating
       if (excludeId) {
@@ -116,8 +138,9 @@ export function useSeasonalRates(): UseSeasonalRates {
   
   /**
    * Add a new seasonal rate
+   * The optional reason is recorded in the pricing change log
    */
-  const addRate = useCallback(async (rate: NewSeasonalRate) => {
+  const addRate = useCallback(async (rate: NewSeasonalRate, reason?: string) => {
     setLoading(true)
     setError(null)
     
@@ -133,17 +156,20 @@ export function useSeasonalRates(): UseSeasonalRates {
       }
       
       // Check for overlaps
-      const isValid = await validateOverlap(rate.start_date, rate.end_date)
+      const isValid = await validateOverlap(rate.start_date, rate.end_date, undefined, rate)
       if (!isValid) {
         throw new Error('Date range overlaps with existing seasonal rate')
       }
       
       // Insert new rate
-      const { data, error: dbError } = await supabase
-        .from('date_ranges')
-        .insert([rate])
-        .select()
-        .single()
+      const { data, error: dbError } = await withChangeReason(
+        supabase
+          .from('date_ranges')
+          .insert([rate])
+          .select()
+          .single(),
+        reason
+      )
       
       if (dbError) {
         // Handle exclusion constraint violation
@@ -172,7 +198,7 @@ export function useSeasonalRates(): UseSeasonalRates {
   /**
    * Update an existing seasonal rate
    */
-  const updateRate = useCallback(async (id: string, updates: SeasonalRateUpdate) => {
+  const updateRate = useCallback(async (id: string, updates: SeasonalRateUpdate, reason?: string) => {
     setLoading(true)
     setError(null)
     
@@ -196,7 +222,7 @@ export function useSeasonalRates(): UseSeasonalRates {
           const startDate = updates.start_date || currentRate.start_date
           const endDate = updates.end_date || currentRate.end_date
           
-          const isValid = await validateOverlap(startDate, endDate, id)
+          const isValid = await validateOverlap(startDate, endDate, id, currentRate)
           if (!isValid) {
             throw new Error('Updated date range overlaps with existing seasonal rate')
           }
@@ -204,12 +230,15 @@ export function useSeasonalRates(): UseSeasonalRates {
       }
       
       // Update rate in database
-      const { data, error: dbError } = await supabase
-        .from('date_ranges')
-        .update(updates)
-        .eq('rate_id', id)
-        .select()
-        .single()
+      const { data, error: dbError } = await withChangeReason(
+        supabase
+          .from('date_ranges')
+          .update(updates)
+          .eq('rate_id', id)
+          .select()
+          .single(),
+        reason
+      )
       
       if (dbError) {
         if (dbError.code === '23P01') {
@@ -239,15 +268,18 @@ export function useSeasonalRates(): UseSeasonalRates {
   /**
    * Delete a seasonal rate
    */
-  const deleteRate = useCallback(async (id: string) => {
+  const deleteRate = useCallback(async (id: string, reason?: string) => {
     setLoading(true)
     setError(null)
     
     try {
-      const { error: dbError } = await supabase
-        .from('date_ranges')
-        .delete()
-        .eq('rate_id', id)
+      const { error: dbError } = await withChangeReason(
+        supabase
+          .from('date_ranges')
+          .delete()
+          .eq('rate_id', id),
+        reason
+      )
       
       if (dbError) {
         throw new Error(dbError.message)
@@ -343,6 +343,7 @@ export function useDiscountStrategies() {
         const { data, error } = await supabase
           .from('discount_strategies')
           .select('*')
+          .eq('is_experiment_arm', false)
           .order('strategy_name')
 
         if (error) throw error
@@ -96,8 +96,21 @@ export const supabase = wrapSupabaseClient(baseSupabaseClient)
 // For operations that require bypassing RLS (if needed), use service role key
 // This should only be used for specific admin operations
 const supabaseServiceRoleKey = import.meta.env.VITE_SUPABASE_SERVICE_ROLE_KEY
+
+// Requests made with the service role key carry no user, so the signed-in user
+// is sent along for the pricing change log (read by pricing_change_context)
+const fetchAsActingUser: typeof fetch = async (input, init) => {
+  const { data } = await baseSupabaseClient.auth.getSession()
+  const user = data.session?.user
+  if (!user) return fetch(input, init)
+
+  const headers = new Headers(init?.headers)
+  headers.set('x-changed-by', user.email ?? user.id)
+  return fetch(input, { ...init, headers })
+}
+
 const baseAdminClient = supabaseServiceRoleKey ? createClient<Database>(
-  supabaseUrl, 
+  supabaseUrl,
   supabaseServiceRoleKey,
   {
     auth: {
@@ -108,7 +121,8 @@ const baseAdminClient = supabaseServiceRoleKey ? createClient<Database>(
     global: {
       headers: {
         'x-client-info': 'lodgeprice-admin'
-      }
+      },
+      fetch: fetchAsActingUser
     }
   }
 ) : baseSupabaseClient // Fallback to anon client if service role key not provided
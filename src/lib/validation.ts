@@ -222,7 +222,9 @@ export const lodgifyRateSchema = z.object({
     start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
     end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
     price_per_additional_guest: z.number().min(0).max(1000).optional(),
-    additional_guests_starts_from: z.number().min(1).max(20).optional()
+    additional_guests_starts_from: z.number().min(1).max(20).optional(),
+    arrival_days: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+    departure_days: z.array(z.number().int().min(0).max(6)).min(1).optional()
   })).min(1, "At least one rate is required")
 })
 
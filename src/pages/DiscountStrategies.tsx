@@ -7,6 +7,7 @@ import { useState, useEffect } from 'react'
 import { useLocation } from 'react-router-dom'
 import { useProperties } from '@/hooks/useProperties'
 import DiscountStrategyPanel from '@/components/DiscountStrategyPanel'
+import DiscountExperiments from '@/components/DiscountExperiments'
 import PropertySelection from '@/components/PropertySelection/PropertySelection'
 import type { Property } from '@/types/database'
 
@@ -107,6 +108,8 @@ export default function DiscountStrategies() {
           propertyId={selectedPropertyId || undefined}
           onStrategyChange={handleStrategyChange}
         />
+
+        <DiscountExperiments />
       </div>
 
       {/* Help Section */}
@@ -1,6 +1,9 @@
 import React from 'react'
 import { useDocumentTitle } from '@/hooks/useDocumentTitle'
 import LodgifyPayloadGenerator from '@/components/LodgifyPayloadGenerator'
+import LodgifyBookingImport from '@/components/LodgifyBookingImport'
+import SyncJobQueue from '@/components/SyncJobQueue'
+import ChannelExportPanel from '@/components/ChannelExportPanel'
 
 const LodgifyPayloadGeneratorPage: React.FC = () => {
   useDocumentTitle('Lodgify Payload Generator')
@@ -8,6 +11,9 @@ const LodgifyPayloadGeneratorPage: React.FC = () => {
   return (
     <div className="container mx-auto px-4 py-8">
       <LodgifyPayloadGenerator />
+      <SyncJobQueue className="max-w-4xl mx-auto mt-6" />
+      <LodgifyBookingImport className="max-w-4xl mx-auto mt-6" />
+      <ChannelExportPanel className="max-w-4xl mx-auto mt-6" />
     </div>
   )
 }
@@ -0,0 +1,15 @@
+import React from 'react'
+import { useDocumentTitle } from '@/hooks/useDocumentTitle'
+import ScenarioManager from '@/components/ScenarioManager'
+
+const ScenariosPage: React.FC = () => {
+  useDocumentTitle('Pricing Scenarios')
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <ScenarioManager />
+    </div>
+  )
+}
+
+export default ScenariosPage
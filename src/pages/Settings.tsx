@@ -1,4 +1,9 @@
 import { useEffect } from 'react'
+import DemandPricingSettings from '@/components/DemandPricingSettings'
+import GapFillerSettings from '@/components/GapFillerSettings'
+import DiscountStackingSettings from '@/components/DiscountStackingSettings'
+import CurrencySettings from '@/components/CurrencySettings'
+import LodgifyIntegrationSettings from '@/components/LodgifyIntegrationSettings'
 
 function Settings() {
   // Update document title
@@ -51,39 +56,15 @@ function Settings() {
         </div>
       </div>
       
-      <div className="bg-white shadow rounded-lg">
-        <div className="p-6 border-b border-gray-200">
-          <h2 className="text-lg font-medium text-gray-900">Lodgify Integration</h2>
-          <p className="mt-1 text-sm text-gray-600">
-            Configure API settings for syncing pricing data to Lodgify.
-          </p>
-        </div>
-        
-        <div className="p-6">
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Sync Schedule
-              </label>
-              <select className="block w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm">
-                <option>Manual Only</option>
-                <option>Hourly</option>
-                <option>Daily</option>
-              </select>
-            </div>
-            
-            <div className="flex items-center">
-              <input
-                type="checkbox"
-                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-              />
-              <label className="ml-2 block text-sm text-gray-900">
-                Enable automatic sync to Lodgify
-              </label>
-            </div>
-          </div>
-        </div>
-      </div>
+      <DemandPricingSettings />
+      
+      <GapFillerSettings />
+      
+      <DiscountStackingSettings />
+      
+      <CurrencySettings />
+      
+      <LodgifyIntegrationSettings />
       
       <div className="bg-white shadow rounded-lg">
         <div className="p-6">
@@ -96,7 +77,6 @@ function Settings() {
               Additional configuration options will be available here including:
             </p>
             <ul className="text-sm text-gray-500 mt-4 space-y-1">
-              <li>• Lodgify API key management</li>
               <li>• Default pricing preferences</li>
               <li>• Notification settings</li>
               <li>• Data backup options</li>
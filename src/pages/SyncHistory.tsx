@@ -0,0 +1,17 @@
+import React from 'react'
+import { useParams } from 'react-router-dom'
+import { useDocumentTitle } from '@/hooks/useDocumentTitle'
+import SyncHistory from '@/components/SyncHistory'
+
+const SyncHistoryPage: React.FC = () => {
+  useDocumentTitle('Sync History')
+  const { operationId } = useParams<{ operationId?: string }>()
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <SyncHistory selectedRunId={operationId} />
+    </div>
+  )
+}
+
+export default SyncHistoryPage
@@ -8,10 +8,22 @@ export const discountStrategySchema = yup.object().shape({
     .min(1, 'Strategy name cannot be empty')
     .max(100, 'Strategy name must be less than 100 characters'),
     
+  // null means global template; early-bird strategies only apply to their own property
   property_internal_id: yup
     .string()
     .nullable()
-    .optional(), // null means global template
+    .optional()
+    .test('early-bird-property', 'Early-bird strategies need a property', function(value) {
+      return this.parent.strategy_type !== 'early_bird' || !!value;
+    }),
+    
+  // last_minute: activation_window is the last N days before check-in
+  // early_bird: activation_window is the minimum lead time, and rules are lead time thresholds
+  strategy_type: yup
+    .string()
+    .required('Strategy type is required')
+    .oneOf(['last_minute', 'early_bird'], 'Invalid strategy type')
+    .default('last_minute'),
     
   activation_window: yup
     .number()
@@ -39,7 +51,41 @@ export const discountStrategySchema = yup.object().shape({
   curve_type: yup
     .string()
     .required('Curve type is required')
-    .oneOf(['aggressive', 'moderate', 'gentle'], 'Invalid curve type'),
+    .oneOf(['aggressive', 'moderate', 'gentle', 'custom'], 'Invalid curve type'),
+    
+  // Control points of a custom curve; ignored by the preset curve types
+  curve_points: yup
+    .array()
+    .of(
+      yup.object().shape({
+        days: yup
+          .number()
+          .required('Days is required')
+          .integer('Must be a whole number')
+          .min(0, 'Cannot be negative'),
+        discount: yup
+          .number()
+          .required('Discount is required')
+          .min(0, 'Cannot be negative')
+          .max(1, 'Cannot exceed 100%')
+      })
+    )
+    .nullable()
+    .optional()
+    .test('custom-curve-points', 'A custom curve needs at least two points', function(points) {
+      return this.parent.curve_type !== 'custom' || (points?.length ?? 0) >= 2;
+    })
+    .test('unique-curve-days', 'Curve points must have different days', function(points) {
+      if (!points || points.length === 0) return true;
+      const days = points.map(point => point.days);
+      return days.length === new Set(days).size;
+    }),
+    
+  curve_interpolation: yup
+    .string()
+    .nullable()
+    .optional()
+    .oneOf(['linear', 'stepped', null], 'Invalid interpolation'),
     
   is_active: yup
     .boolean()
@@ -89,7 +135,13 @@ export const discountStrategySchema = yup.object().shape({
     if (!rules || rules.length === 0) return true;
     const activationWindow = this.parent.activation_window;
     if (!activationWindow) return true;
+    if (this.parent.strategy_type === 'early_bird') {
+      return rules.every(rule => rule.days_before_checkin >= activationWindow) ||
+        this.createError({ message: 'Early-bird days must be at least the minimum lead time' });
+    }
     return rules.every(rule => rule.days_before_checkin <= activationWindow);
+  }).test('early-bird-rules', 'Early-bird strategies need at least one rule', function(rules) {
+    return this.parent.strategy_type !== 'early_bird' || (rules?.length ?? 0) > 0;
   })
 });
 
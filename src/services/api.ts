@@ -6,6 +6,10 @@ import {
   testLodgifyConnection,
   getPropertySyncStatus 
 } from './lodgify/lodgifyApiClient'
+import {
+  importLodgifyBookings,
+  importLodgifyBookingsForProperties
+} from './lodgify/lodgifyBookingImport'
 import {
   uuidSchema,
   dateSchema,
@@ -385,12 +389,32 @@ export const lodgifyApi = {
    * @param propertyId - UUID of the property
    * @returns Status object with sync information
    */
-  getSyncStatus: getPropertySyncStatus
+  getSyncStatus: getPropertySyncStatus,
+
+  /**
+   * Import a property's Lodgify reservations into bookings
+   * 
+   * @param propertyId - UUID of the property
+   * @param options - Import options
+   * @returns Import result with created/updated/cancelled counts
+   */
+  importBookings: importLodgifyBookings,
+
+  /**
+   * Import Lodgify reservations for multiple properties
+   * 
+   * @param propertyIds - UUIDs of the properties
+   * @param options - Import options
+   * @returns Import result per property
+   */
+  importBookingsForProperties: importLodgifyBookingsForProperties
 }
 
 // Re-export types for convenience
 export type { 
   LodgifySyncResult, 
   BatchSyncResult, 
-  SyncOptions 
+  SyncOptions,
+  BookingImportResult,
+  BookingImportOptions
 } from './lodgify/lodgifyTypes'
\ No newline at end of file
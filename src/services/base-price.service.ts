@@ -6,6 +6,7 @@
  */
 
 import { supabase, supabaseAdmin } from '@/lib/supabase'
+import { withChangeReason } from './change-log.service'
 import type { Database } from '@/types/database.generated'
 
 type PropertiesRow = Database['public']['Tables']['properties']['Row']
@@ -65,13 +66,15 @@ export class BasePriceService {
    * @param propertyId - Property ID (can be UUID or lodgify_property_id string like "327020")
    * @param newBasePrice - New base price per day
    * @param retryConfig - Optional retry configuration
+   * @param reason - Optional reason, recorded in the pricing change log
    * @returns Promise with update result
    * @throws BasePriceError for various failure scenarios
    */
   static async updateBasePrice(
     propertyId: string,
     newBasePrice: number,
-    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+    reason?: string
   ): Promise<BasePriceUpdateResult> {
     // Validate inputs
     if (!propertyId || typeof propertyId !== 'string') {
@@ -134,12 +137,15 @@ export class BasePriceService {
         base_price_per_day: roundedPrice
       }
 
-      const { data: updatedProperty, error: updateError } = await supabaseAdmin
-        .from('properties')
-        .update(updateData)
-        .eq('id', propertyUuid)
-        .select('*')
-        .single()
+      const { data: updatedProperty, error: updateError } = await withChangeReason(
+        supabaseAdmin
+          .from('properties')
+          .update(updateData)
+          .eq('id', propertyUuid)
+          .select('*')
+          .single(),
+        reason
+      )
 
       if (updateError) {
         // Handle specific database constraint errors
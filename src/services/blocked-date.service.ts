@@ -0,0 +1,105 @@
+/**
+ * Blocked Date Service
+ *
+ * Nights a property is closed without a booking (owner stays, maintenance).
+ * Channel exports publish them as unavailable alongside bookings.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { BlockedDate } from '@/types/database.types'
+
+/**
+ * Error type for blocked date operations
+ */
+export class BlockedDateError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'BlockedDateError'
+  }
+}
+
+/**
+ * Blocked Date Service class
+ */
+export class BlockedDateService {
+  /**
+   * Blocks overlapping a date range, earliest first
+   *
+   * @param propertyId - Property UUID (properties.id)
+   * @param startDate - First night (YYYY-MM-DD)
+   * @param endDate - Last night (YYYY-MM-DD)
+   */
+  static async getBlockedDates(propertyId: string, startDate: string, endDate: string): Promise<BlockedDate[]> {
+    if (!propertyId) {
+      throw new BlockedDateError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const { data, error } = await supabase
+      .from('blocked_dates')
+      .select('*')
+      .eq('property_internal_id', propertyId)
+      .lte('start_date', endDate)
+      .gte('end_date', startDate)
+      .order('start_date', { ascending: true })
+
+    if (error) {
+      throw new BlockedDateError(`Failed to fetch blocked dates: ${error.message}`, 'FETCH_ERROR', propertyId)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Close a run of nights
+   *
+   * @param endDate - Last blocked night (inclusive)
+   */
+  static async createBlock(
+    propertyId: string,
+    startDate: string,
+    endDate: string,
+    reason?: string
+  ): Promise<BlockedDate> {
+    if (!propertyId) {
+      throw new BlockedDateError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+    if (endDate < startDate) {
+      throw new BlockedDateError('End date must not be before start date', 'INVALID_RANGE', propertyId)
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('blocked_dates')
+      .insert({
+        property_internal_id: propertyId,
+        start_date: startDate,
+        end_date: endDate,
+        reason: reason?.trim() || null
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new BlockedDateError(`Failed to block dates: ${error?.message}`, 'CREATE_ERROR', propertyId)
+    }
+
+    return data
+  }
+
+  /**
+   * Reopen the nights of a block
+   */
+  static async deleteBlock(blockId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('blocked_dates')
+      .delete()
+      .eq('block_id', blockId)
+
+    if (error) {
+      throw new BlockedDateError(`Failed to remove blocked dates: ${error.message}`, 'DELETE_ERROR')
+    }
+  }
+}
@@ -12,7 +12,7 @@ import {
 import type {
   DateRange,
 } from '@/types/helpers'
-import type { Database } from '@/types/database.generated'
+import type { Database, OccupancyBasis } from '@/types/database.generated'
 import type { BookingFormData } from '@/types/pricing'
 
 type BookingRow = Database['public']['Tables']['bookings']['Row']
@@ -44,6 +44,28 @@ export interface BookingFilters {
   guestName?: string
 }
 
+/**
+ * Booking pace for the week containing a date, as used by demand pricing
+ * Occupancy values are 0-1 shares of available nights
+ */
+export interface OccupancyPace {
+  weekStart: string
+  leadDays: number
+  currentOccupancy: number
+  lastYearOccupancy: number
+  paceDifference: number
+}
+
+/**
+ * Free nights between two bookings
+ * startDate is the previous booking's departure, endDate the next booking's arrival (exclusive)
+ */
+export interface BookingGap {
+  startDate: string
+  endDate: string
+  nights: number
+}
+
 /**
  * Main booking service class
  */
@@ -405,6 +427,98 @@ export class BookingService {
     return availableDates
   }
   
+  /**
+   * Find short gaps between bookings that overlap a date range
+   * Mirrors get_booking_gap: only confirmed and pending bookings enclose a gap
+   * 
+   * @param maxGapNights - Longest gap to return
+   */
+  async getBookingGaps(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    maxGapNights: number
+  ): Promise<BookingGap[]> {
+    // Widen the search so gaps that start or end outside the range still find both bookings
+    const searchStart = new Date(startDate)
+    searchStart.setDate(searchStart.getDate() - maxGapNights)
+    const searchEnd = new Date(endDate)
+    searchEnd.setDate(searchEnd.getDate() + maxGapNights)
+    
+    const bookings = await this.getOverlappingBookings(propertyId, {
+      start: searchStart,
+      end: searchEnd,
+    })
+    
+    const rangeStart = startDate.toISOString().split('T')[0]
+    const rangeEnd = endDate.toISOString().split('T')[0]
+    const gaps: BookingGap[] = []
+    let latestDeparture: string | null = null
+    
+    for (const booking of bookings) {
+      if (latestDeparture && booking.arrival_date > latestDeparture) {
+        const nights = Math.round(
+          (new Date(booking.arrival_date).getTime() - new Date(latestDeparture).getTime()) / (1000 * 60 * 60 * 24)
+        )
+        
+        // The gap's last night is the day before arrival, so it overlaps when arrival > rangeStart
+        if (nights <= maxGapNights && latestDeparture <= rangeEnd && booking.arrival_date > rangeStart) {
+          gaps.push({ startDate: latestDeparture, endDate: booking.arrival_date, nights })
+        }
+      }
+      
+      if (!latestDeparture || booking.departure_date > latestDeparture) {
+        latestDeparture = booking.departure_date
+      }
+    }
+    
+    return gaps
+  }
+  
+  /**
+   * Get booking pace for the week containing a date
+   * Compares current occupancy with the same week last year at the same lead time
+   * Uses get_occupancy_pace database function
+   * 
+   * @param propertyId - Property UUID (properties.id)
+   */
+  async getOccupancyPace(
+    propertyId: string,
+    checkDate: Date,
+    basis: OccupancyBasis = 'property'
+  ): Promise<OccupancyPace> {
+    try {
+      const { data, error } = await supabase.rpc('get_occupancy_pace', {
+        p_property_internal_id: propertyId,
+        p_check_date: checkDate.toISOString().split('T')[0],
+        p_basis: basis,
+      })
+      
+      if (error) {
+        throw new DatabaseError(
+          `Failed to fetch occupancy pace: ${error.message}`,
+          'OCCUPANCY_PACE',
+          error
+        )
+      }
+      
+      const row = Array.isArray(data) ? data[0] : undefined
+      if (!row) {
+        throw new DatabaseError('No occupancy data returned', 'OCCUPANCY_PACE')
+      }
+      
+      return {
+        weekStart: row.week_start,
+        leadDays: row.lead_days,
+        currentOccupancy: Number(row.current_occupancy),
+        lastYearOccupancy: Number(row.last_year_occupancy),
+        paceDifference: Number(row.pace_difference),
+      }
+    } catch (error) {
+      return this.handleBookingError(error, 'get-occupancy-pace')
+    }
+  }
+  
   /**
    * Private helper methods
    */
@@ -0,0 +1,201 @@
+/**
+ * Change Log Service
+ *
+ * Reads the append-only pricing change log. Entries are written by database
+ * triggers on every pricing input table, so nothing here writes to the log;
+ * writers only attach a reason to their request with withChangeReason.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type { PricingChangeLogEntry } from '@/types/database.types'
+
+/**
+ * Request header the change log triggers read the reason from
+ */
+export const CHANGE_REASON_HEADER = 'x-change-reason'
+
+/**
+ * Bounds mirror get_pricing_change_history
+ */
+export const CHANGE_LOG_LIMITS = {
+  DEFAULT_ENTRIES: 100,
+  MAX_ENTRIES: 500,
+  MAX_REASON_LENGTH: 500
+} as const
+
+/**
+ * Error type for change log operations
+ */
+export class ChangeLogError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'ChangeLogError'
+  }
+}
+
+/**
+ * One changed field, ready for display
+ */
+export interface ChangeLogFieldChange {
+  field: string
+  label: string
+  oldValue: unknown
+  newValue: unknown
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  properties: 'Property',
+  price_overrides: 'Price override',
+  date_ranges: 'Seasonal rate',
+  discount_strategies: 'Discount strategy',
+  discount_rules: 'Discount rule',
+  property_weekday_multipliers: 'Weekday multiplier',
+  property_length_of_stay_discounts: 'Length-of-stay discount',
+  demand_pricing_settings: 'Demand pricing',
+  gap_filler_settings: 'Gap filler',
+  discount_stacking_policies: 'Discount stacking policy',
+  discount_experiments: 'Discount experiment',
+  discount_experiment_properties: 'Experiment assignment'
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  base_price_per_day: 'Base price',
+  min_price_per_day: 'Minimum price',
+  override_price: 'Override price',
+  is_active: 'Active',
+  discount_rate: 'Rate',
+  adjustment_rate: 'Adjustment',
+  start_date: 'Start date',
+  end_date: 'End date',
+  rate_name: 'Name',
+  strategy_name: 'Name',
+  min_discount: 'Minimum discount',
+  max_discount: 'Maximum discount',
+  activation_window: 'Activation window',
+  discount_percentage: 'Discount',
+  days_before_checkin: 'Days before check-in',
+  min_nights: 'Minimum nights',
+  min_stay: 'Minimum stay',
+  max_stay: 'Maximum stay',
+  extra_guest_fee: 'Extra guest fee',
+  is_enabled: 'Enabled',
+  stacking_mode: 'Stacking mode',
+  exclusive_discounts: 'Exclusive discounts',
+  max_total_discount: 'Discount cap',
+  discount_order: 'Discount order',
+  min_price_stage: 'Minimum price stage',
+  experiment_name: 'Name',
+  status: 'Status',
+  arm: 'Arm'
+}
+
+// Row identifiers say nothing to the reader of an added or removed row
+const IDENTIFIER_FIELD = /(^|_)id$/
+
+/**
+ * Encode a reason as a header value; headers only carry ASCII, reasons may not
+ */
+const encodeHeaderValue = (value: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+
+/**
+ * Attach a change reason to a write so the change log records it
+ *
+ * @example
+ * await withChangeReason(supabaseAdmin.from('properties').update(data).eq('id', id), reason)
+ */
+export function withChangeReason<Q extends { setHeader(name: string, value: string): unknown }>(
+  query: Q,
+  reason?: string | null
+): Q {
+  const trimmed = reason?.trim().slice(0, CHANGE_LOG_LIMITS.MAX_REASON_LENGTH)
+  if (trimmed) {
+    query.setHeader(CHANGE_REASON_HEADER, encodeHeaderValue(trimmed))
+  }
+  return query
+}
+
+/**
+ * Change Log Service class
+ */
+export class ChangeLogService {
+  /**
+   * Changes affecting a property, newest first: its own changes, changes to
+   * its groups and global changes
+   *
+   * @param propertyId - Property UUID (properties.id)
+   * @param date - Only changes covering this night (YYYY-MM-DD)
+   */
+  static async getHistory(
+    propertyId: string,
+    options: { date?: string; limit?: number } = {}
+  ): Promise<PricingChangeLogEntry[]> {
+    if (!propertyId) {
+      throw new ChangeLogError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const { data, error } = await supabase.rpc('get_pricing_change_history', {
+      p_property_internal_id: propertyId,
+      p_date: options.date,
+      p_limit: Math.min(options.limit ?? CHANGE_LOG_LIMITS.DEFAULT_ENTRIES, CHANGE_LOG_LIMITS.MAX_ENTRIES)
+    })
+
+    if (error) {
+      throw new ChangeLogError(`Failed to fetch change history: ${error.message}`, 'FETCH_ERROR', propertyId)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Same as getHistory, for callers holding the Lodgify property ID (calendar)
+   */
+  static async getHistoryByLodgifyId(
+    lodgifyPropertyId: string,
+    options: { date?: string; limit?: number } = {}
+  ): Promise<PricingChangeLogEntry[]> {
+    const { data, error } = await supabase
+      .from('properties')
+      .select('id')
+      .eq('lodgify_property_id', lodgifyPropertyId)
+      .maybeSingle()
+
+    if (error || !data) {
+      throw new ChangeLogError(`Property not found: ${lodgifyPropertyId}`, 'PROPERTY_NOT_FOUND', lodgifyPropertyId)
+    }
+
+    return this.getHistory(data.id, options)
+  }
+
+  /**
+   * Display name of the input an entry changed
+   */
+  static describeSource(entry: PricingChangeLogEntry): string {
+    const label = SOURCE_LABELS[entry.source_table] ?? entry.source_table
+    const values = (entry.new_values ?? entry.old_values) as Record<string, unknown> | null
+    const name = values?.rate_name ?? values?.strategy_name ?? values?.experiment_name
+
+    return typeof name === 'string' ? `${label} "${name}"` : label
+  }
+
+  /**
+   * Old and new value of every changed field
+   */
+  static getFieldChanges(entry: PricingChangeLogEntry): ChangeLogFieldChange[] {
+    const oldValues = (entry.old_values ?? {}) as Record<string, unknown>
+    const newValues = (entry.new_values ?? {}) as Record<string, unknown>
+
+    return entry.changed_fields
+      .filter(field => entry.action === 'update' || !IDENTIFIER_FIELD.test(field))
+      .map(field => ({
+        field,
+        label: FIELD_LABELS[field] ?? field.replace(/_/g, ' '),
+        oldValue: entry.action === 'insert' ? undefined : oldValues[field],
+        newValue: entry.action === 'delete' ? undefined : newValues[field]
+      }))
+  }
+}
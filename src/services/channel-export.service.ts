@@ -0,0 +1,106 @@
+/**
+ * Channel Export Service
+ *
+ * Loads the data a channel exporter needs (nightly pricing from
+ * LodgifyPayloadService, bookings and blocked dates) and runs the exporter.
+ */
+
+import type { Property } from '@/types/database'
+import type { GenerationProgress, PayloadGenerationOptions } from '@/types/lodgify'
+import { propertyApi } from './api'
+import { lodgifyPayloadService } from './lodgifyPayloadService'
+import { bookingService } from './booking.service'
+import { BlockedDateService } from './blocked-date.service'
+import { getChannelExporter } from './channels/channelRegistry'
+import type { ChannelExportFile, PropertyAvailability } from './channels/channelTypes'
+import { formatDateForAPI } from '@/utils/dateRangeGenerator'
+
+/**
+ * Error type for channel export operations
+ */
+export class ChannelExportError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public channelId?: string
+  ) {
+    super(message)
+    this.name = 'ChannelExportError'
+  }
+}
+
+/**
+ * Channel Export Service class
+ */
+export class ChannelExportService {
+  /**
+   * Produce a channel's files for the properties and dates in options
+   *
+   * @param channelId - ID of a registered channel exporter
+   * @param options - Properties (lodgify_property_ids, empty = all), dates and pricing options
+   */
+  static async export(
+    channelId: string,
+    options: PayloadGenerationOptions,
+    onProgress?: (progress: GenerationProgress) => void
+  ): Promise<ChannelExportFile[]> {
+    const exporter = getChannelExporter(channelId)
+    if (!exporter) {
+      throw new ChannelExportError(`Unknown channel: ${channelId}`, 'UNKNOWN_CHANNEL', channelId)
+    }
+
+    const startDate = formatDateForAPI(options.startDate)
+    const endDate = formatDateForAPI(options.endDate)
+
+    const pricing = exporter.requires.includes('pricing')
+      ? (await lodgifyPayloadService.generatePricingData(options, onProgress)).pricing
+      : []
+
+    let availability: PropertyAvailability[] = []
+    if (exporter.requires.includes('availability')) {
+      const properties = pricing.length > 0
+        ? pricing.map(propertyPricing => propertyPricing.property)
+        : await this.loadProperties(options.properties)
+      availability = await Promise.all(
+        properties.map(property => this.loadAvailability(property, options.startDate, options.endDate))
+      )
+    }
+
+    return exporter.export({
+      options,
+      startDate,
+      endDate,
+      pricing,
+      availability,
+      generatedAt: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Bookings (confirmed and pending) and blocked dates overlapping the range
+   */
+  static async loadAvailability(property: Property, startDate: Date, endDate: Date): Promise<PropertyAvailability> {
+    const [bookings, blockedDates] = await Promise.all([
+      bookingService.getOverlappingBookings(property.lodgify_property_id, { start: startDate, end: endDate }),
+      BlockedDateService.getBlockedDates(property.id, formatDateForAPI(startDate), formatDateForAPI(endDate))
+    ])
+
+    return {
+      property,
+      bookings: bookings.map(booking => ({
+        bookingId: booking.booking_id,
+        arrivalDate: booking.arrival_date,
+        departureDate: booking.departure_date,
+        status: booking.booking_status
+      })),
+      blockedDates
+    }
+  }
+
+  private static async loadProperties(lodgifyPropertyIds: string[]): Promise<Property[]> {
+    const properties = await propertyApi.getAll()
+    return lodgifyPropertyIds.length === 0
+      ? properties
+      : properties.filter(property => lodgifyPropertyIds.includes(property.lodgify_property_id))
+  }
+}
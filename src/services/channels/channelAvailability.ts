@@ -0,0 +1,47 @@
+/**
+ * Availability helpers shared by channel exporters
+ */
+
+import type { PropertyAvailability } from './channelTypes'
+
+/**
+ * The day after a YYYY-MM-DD date
+ */
+export const nextDay = (date: string): string => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * Nights (YYYY-MM-DD) taken by a booking or a block
+ * A booking holds its arrival night up to the night before departure;
+ * a block holds start_date through end_date
+ */
+export function getClosedNights(availability: PropertyAvailability): Set<string> {
+  const nights = new Set<string>()
+
+  for (const booking of availability.bookings) {
+    for (let date = booking.arrivalDate; date < booking.departureDate; date = nextDay(date)) {
+      nights.add(date)
+    }
+  }
+  for (const block of availability.blockedDates) {
+    for (let date = block.start_date; date <= block.end_date; date = nextDay(date)) {
+      nights.add(date)
+    }
+  }
+
+  return nights
+}
+
+/**
+ * Every night from startDate through endDate
+ */
+export function listNights(startDate: string, endDate: string): string[] {
+  const nights: string[] = []
+  for (let date = startDate; date <= endDate; date = nextDay(date)) {
+    nights.push(date)
+  }
+  return nights
+}
@@ -0,0 +1,37 @@
+/**
+ * Channel exporter registry
+ *
+ * Exporters listed here are offered in the channel export panel. Register a
+ * new channel by implementing ChannelExporter and adding it to the list (or
+ * calling registerChannelExporter).
+ */
+
+import type { ChannelExporter } from './channelTypes'
+import { lodgifyChannel } from './lodgifyChannel'
+import { ratesCsvChannel } from './ratesCsvChannel'
+import { icsAvailabilityChannel } from './icsAvailabilityChannel'
+
+const exporters = new Map<string, ChannelExporter>(
+  [lodgifyChannel, ratesCsvChannel, icsAvailabilityChannel].map(exporter => [exporter.id, exporter])
+)
+
+/**
+ * All registered exporters, in registration order
+ */
+export function getChannelExporters(): ChannelExporter[] {
+  return [...exporters.values()]
+}
+
+/**
+ * Exporter by ID, undefined when none is registered
+ */
+export function getChannelExporter(id: string): ChannelExporter | undefined {
+  return exporters.get(id)
+}
+
+/**
+ * Add an exporter; an exporter with the same ID is replaced
+ */
+export function registerChannelExporter(exporter: ChannelExporter): void {
+  exporters.set(exporter.id, exporter)
+}
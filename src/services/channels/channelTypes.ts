@@ -0,0 +1,81 @@
+/**
+ * Types for channel exporters
+ *
+ * A channel exporter turns the nightly pricing that LodgifyPayloadService
+ * computes (DatePriceData per stay length category) and/or a property's
+ * availability into the files a channel accepts.
+ */
+
+import type { Property } from '@/types/database'
+import type { BlockedDate } from '@/types/database.types'
+import type { DatePriceData, PayloadGenerationOptions, StayLengthCategory } from '@/types/lodgify'
+
+/**
+ * Nightly pricing of one stay length category
+ * Gap categories cover only the nights of a gap between bookings
+ */
+export interface CategoryPricingData {
+  category: StayLengthCategory
+  isGap: boolean
+  days: DatePriceData[]
+}
+
+/**
+ * Everything computed for one property before it is shaped for a channel
+ */
+export interface PropertyPricingData {
+  property: Property
+  categories: CategoryPricingData[]
+  overrideCount: number
+}
+
+/**
+ * Occupied nights of one property
+ */
+export interface PropertyAvailability {
+  property: Property
+  bookings: Array<{
+    bookingId: string
+    arrivalDate: string      // First night
+    departureDate: string    // Day of departure (not a night of the stay)
+    status: string
+  }>
+  blockedDates: BlockedDate[]
+}
+
+/**
+ * Inputs an exporter needs loaded
+ */
+export type ChannelDataRequirement = 'pricing' | 'availability'
+
+/**
+ * Data handed to an exporter; only the required parts are loaded
+ */
+export interface ChannelExportInput {
+  options: PayloadGenerationOptions
+  startDate: string          // YYYY-MM-DD, first night
+  endDate: string            // YYYY-MM-DD, last night
+  pricing: PropertyPricingData[]
+  availability: PropertyAvailability[]
+  generatedAt: string
+}
+
+/**
+ * One file produced by an exporter
+ */
+export interface ChannelExportFile {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+/**
+ * A channel's export format
+ */
+export interface ChannelExporter {
+  id: string
+  name: string
+  description: string
+  requires: ChannelDataRequirement[]
+  export(input: ChannelExportInput): ChannelExportFile[]
+}
@@ -0,0 +1,103 @@
+/**
+ * iCal availability exporter
+ *
+ * One calendar per property with an all-day event for every booking and
+ * blocked period, the feed format channels import to close dates. Guest
+ * names and block reasons are not published.
+ */
+
+import type { ChannelExporter, PropertyAvailability } from './channelTypes'
+import { nextDay } from './channelAvailability'
+
+const PRODID = '-//Lodgeprice//Availability//EN'
+
+// 20250701
+const icsDate = (date: string) => date.replace(/-/g, '')
+
+// 20250701T120000Z
+const icsTimestamp = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+/**
+ * Escape TEXT values (RFC 5545 3.3.11)
+ */
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74 // Continuation lines start with a space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * Build the calendar of one property
+ */
+export function buildAvailabilityCalendar(availability: PropertyAvailability, generatedAt: string): string {
+  const stamp = icsTimestamp(generatedAt)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(availability.property.property_name)}`
+  ]
+
+  for (const booking of availability.bookings) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:booking-${booking.bookingId}@lodgeprice`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(booking.arrivalDate)}`,
+      `DTEND;VALUE=DATE:${icsDate(booking.departureDate)}`,
+      'SUMMARY:Reserved',
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    )
+  }
+
+  for (const block of availability.blockedDates) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:block-${block.block_id}@lodgeprice`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(block.start_date)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(block.end_date))}`, // DTEND is exclusive
+      'SUMMARY:Not available',
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export const icsAvailabilityChannel: ChannelExporter = {
+  id: 'ics-availability',
+  name: 'iCal availability',
+  description: 'Bookings and blocked dates as an .ics feed per property',
+  requires: ['availability'],
+  export(input) {
+    return input.availability.map(availability => ({
+      filename: `availability-${availability.property.lodgify_property_id}.ics`,
+      mimeType: 'text/calendar',
+      content: buildAvailabilityCalendar(availability, input.generatedAt)
+    }))
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Lodgify channel exporter
+ *
+ * Shapes nightly pricing into Lodgify rate payloads: a default rate plus dated
+ * rates, consecutive nights with equal rates merged into ranges when
+ * optimizeRanges is set (or nearly equal ones, within rangeOptimization's
+ * price tolerance and rate budget).
+ */
+
+import type { LodgifyPayload, LodgifyRate, OptimizedRange, PayloadGenerationOptions, DatePriceData } from '@/types/lodgify'
+import type { Property } from '@/types/database'
+import { lodgifyGuestTerms } from '../../../supabase/functions/_shared/lodgifyGuestFees.ts'
+import {
+  optimizeConsecutiveDays,
+  validateOptimizationResults,
+  meetsOptimizationThreshold,
+  convertToIndividualEntries,
+  optimizeWithTolerance,
+  calculateOptimizationStats,
+  type OptimizationStats
+} from '@/utils/payloadOptimizer'
+import { isConsecutiveDay } from '@/utils/dateRangeGenerator'
+import type { ChannelExporter, PropertyPricingData } from './channelTypes'
+
+/**
+ * Optimize daily pricing data (if enabled) into ranges
+ */
+function optimizeRanges(
+  pricingData: DatePriceData[],
+  options: PayloadGenerationOptions,
+  property: Property
+): OptimizedRange[] {
+  if (!options.optimizeRanges || pricingData.length === 0) {
+    return convertToIndividualEntries(pricingData)
+  }
+
+  const optimizedRanges = optimizeConsecutiveDays(pricingData)
+
+  // Validate optimization and fallback if needed
+  const validation = validateOptimizationResults(pricingData, optimizedRanges)
+  if (!validation.valid || !meetsOptimizationThreshold(pricingData.length, optimizedRanges.length)) {
+    console.warn(`Optimization failed for ${property.lodgify_property_id}, using individual entries`)
+    return convertToIndividualEntries(pricingData)
+  }
+
+  return optimizedRanges
+}
+
+/**
+ * Optimize all categories of a payload within the price tolerance and rate budget
+ * No minimum reduction applies: the tolerance already states how much precision
+ * may be traded for size.
+ */
+function optimizeRangesWithTolerance(
+  categories: DatePriceData[][],
+  options: PayloadGenerationOptions,
+  property: Property
+): { groups: OptimizedRange[][], maxDeviation: number, maxDeviationPercent: number, withinBudget: boolean } {
+  const rangeOptimization = options.rangeOptimization ?? {}
+  const maxRanges = rangeOptimization.maxRatesPerPayload !== undefined
+    ? Math.max(rangeOptimization.maxRatesPerPayload - (options.includeDefaultRate ? 1 : 0), 0)
+    : undefined
+
+  const result = optimizeWithTolerance(categories, rangeOptimization, maxRanges)
+
+  const invalid = categories.some((pricingData, index) =>
+    !validateOptimizationResults(pricingData, result.groups[index]).valid
+  )
+  if (invalid) {
+    console.warn(`Optimization failed for ${property.lodgify_property_id}, using individual entries`)
+    return {
+      groups: categories.map(pricingData => convertToIndividualEntries(pricingData)),
+      maxDeviation: 0,
+      maxDeviationPercent: 0,
+      withinBudget: maxRanges === undefined || categories.flat().length <= maxRanges
+    }
+  }
+
+  return result
+}
+
+/**
+ * Convert optimized ranges to Lodgify rates
+ */
+function convertToRates(ranges: OptimizedRange[], property: Property): LodgifyRate[] {
+  return ranges.map(range => ({
+    is_default: false,
+    start_date: range.startDate,
+    end_date: range.endDate,
+    price_per_day: parseFloat((range.price).toFixed(2)), // Ensure clean 2 decimal places
+    min_stay: range.minStay,
+    max_stay: range.maxStay,
+    ...lodgifyGuestTerms(property, range.extraGuestFee),
+    ...(range.arrivalDays && { arrival_days: range.arrivalDays }),
+    ...(range.departureDays && { departure_days: range.departureDays })
+  }))
+}
+
+/**
+ * Join dated rates with identical terms where one ends the night before the
+ * next starts, e.g. ranges optimized separately per date window
+ * Rates keep the order of their first night; the default rate is left as is.
+ */
+export function mergeAdjacentRates(rates: LodgifyRate[]): LodgifyRate[] {
+  const merged: LodgifyRate[] = []
+  const openRanges = new Map<string, LodgifyRate>()   // Terms -> latest range with those terms
+
+  for (const rate of rates) {
+    if (rate.is_default || !rate.start_date || !rate.end_date) {
+      merged.push(rate)
+      continue
+    }
+
+    const { start_date: _start, end_date: _end, ...terms } = rate
+    const key = JSON.stringify(terms, Object.keys(terms).sort())
+    const previous = openRanges.get(key)
+
+    if (previous && isConsecutiveDay(previous.end_date!, rate.start_date)) {
+      previous.end_date = rate.end_date
+      continue
+    }
+
+    const range = { ...rate }
+    merged.push(range)
+    openRanges.set(key, range)
+  }
+
+  return merged
+}
+
+/**
+ * Build the Lodgify payload of one property
+ */
+export function buildLodgifyPayload(
+  pricing: PropertyPricingData,
+  options: PayloadGenerationOptions
+): LodgifyPayload {
+  return buildLodgifyPayloadWithStatistics(pricing, options).payload
+}
+
+/**
+ * Build the Lodgify payload of one property along with what the range
+ * optimization did to it (nightly entries before, dated rates after, worst
+ * price error introduced and whether the rate budget was met)
+ */
+export function buildLodgifyPayloadWithStatistics(
+  pricing: PropertyPricingData,
+  options: PayloadGenerationOptions
+): { payload: LodgifyPayload, optimization: OptimizationStats, withinBudget: boolean } {
+  const { property } = pricing
+  const rates: LodgifyRate[] = []
+
+  // Add mandatory default rate
+  if (options.includeDefaultRate) {
+    rates.push({
+      is_default: true,
+      price_per_day: parseFloat((property.base_price_per_day).toFixed(2)), // Ensure clean 2 decimal places
+      min_stay: 2,
+      max_stay: 6,
+      ...lodgifyGuestTerms(property)
+    })
+  }
+
+  const categoryDays = pricing.categories.map(category => category.days)
+  const entriesBefore = categoryDays.reduce((sum, days) => sum + days.length, 0)
+  let maxDeviation = 0
+  let maxDeviationPercent = 0
+  let withinBudget = true
+
+  if (options.optimizeRanges && options.rangeOptimization) {
+    const result = optimizeRangesWithTolerance(categoryDays, options, property)
+    result.groups.forEach(ranges => rates.push(...convertToRates(ranges, property)))
+    maxDeviation = result.maxDeviation
+    maxDeviationPercent = result.maxDeviationPercent
+    withinBudget = result.withinBudget
+  } else {
+    categoryDays.forEach(days => rates.push(...convertToRates(optimizeRanges(days, options, property), property)))
+  }
+
+  const datedRates = rates.filter(rate => !rate.is_default).length
+
+  return {
+    payload: {
+      property_id: parseInt(property.lodgify_property_id),
+      room_type_id: property.lodgify_room_type_id || 0,
+      rates
+    },
+    optimization: calculateOptimizationStats(entriesBefore, datedRates, maxDeviation, maxDeviationPercent),
+    withinBudget
+  }
+}
+
+export const lodgifyChannel: ChannelExporter = {
+  id: 'lodgify',
+  name: 'Lodgify (JSON)',
+  description: 'Rate payloads in the shape the Lodgify rates API accepts',
+  requires: ['pricing'],
+  export(input) {
+    const payloads = input.pricing.map(pricing => buildLodgifyPayload(pricing, input.options))
+
+    return [{
+      filename: `lodgify-payload-${input.generatedAt.slice(0, 10)}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(payloads, null, 2)
+    }]
+  }
+}
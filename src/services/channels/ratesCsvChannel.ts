@@ -0,0 +1,66 @@
+/**
+ * Generic rates CSV exporter
+ *
+ * One file per property, one row per night: date, price, min_stay, closed.
+ * The price is the shortest stay sold that night (the gap rate on gap nights),
+ * which is what channels with a single nightly rate expect. A night is closed
+ * when it is booked or blocked, or when no stay length may start on it.
+ */
+
+import type { DatePriceData } from '@/types/lodgify'
+import type { ChannelExporter, PropertyPricingData } from './channelTypes'
+import { getClosedNights, listNights } from './channelAvailability'
+
+export const RATES_CSV_COLUMNS = ['date', 'price', 'min_stay', 'closed'] as const
+
+/**
+ * The offer a single-rate channel gets for each night
+ */
+function getNightlyOffers(pricing: PropertyPricingData): Map<string, DatePriceData> {
+  const offers = new Map<string, DatePriceData>()
+  const gapNights = new Set<string>()
+
+  for (const { isGap, days } of pricing.categories) {
+    for (const day of days) {
+      const current = offers.get(day.date)
+      if (isGap) {
+        offers.set(day.date, day)
+        gapNights.add(day.date)
+      } else if (!gapNights.has(day.date) && (!current || day.minStay < current.minStay)) {
+        offers.set(day.date, day)
+      }
+    }
+  }
+
+  return offers
+}
+
+export const ratesCsvChannel: ChannelExporter = {
+  id: 'rates-csv',
+  name: 'Rates CSV',
+  description: 'Nightly price, minimum stay and closed flag per property, for channels that accept rate uploads as CSV',
+  requires: ['pricing', 'availability'],
+  export(input) {
+    return input.pricing.map(pricing => {
+      const availability = input.availability.find(a => a.property.id === pricing.property.id)
+      const closed = availability ? getClosedNights(availability) : new Set<string>()
+      const offers = getNightlyOffers(pricing)
+
+      const rows = listNights(input.startDate, input.endDate).map(date => {
+        const offer = offers.get(date)
+        return [
+          date,
+          offer ? offer.price.toFixed(2) : '',
+          offer ? String(offer.minStay) : '',
+          String(!offer || closed.has(date))
+        ].join(',')
+      })
+
+      return {
+        filename: `rates-${pricing.property.lodgify_property_id}-${input.generatedAt.slice(0, 10)}.csv`,
+        mimeType: 'text/csv',
+        content: [RATES_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+      }
+    })
+  }
+}
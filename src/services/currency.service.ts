@@ -0,0 +1,368 @@
+/**
+ * Currency Service
+ *
+ * Service layer for property currencies, manually entered exchange rates and the
+ * portfolio reporting currency. Prices are never converted for pricing or Lodgify;
+ * conversion is only used to report a portfolio in one currency.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Database } from '@/types/database.generated'
+import { isCurrencyCode } from '@/utils/currency'
+
+type ExchangeRateRow = Database['public']['Tables']['exchange_rates']['Row']
+
+/**
+ * Error type for currency operations
+ */
+export class CurrencyError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'CurrencyError'
+  }
+}
+
+/**
+ * Editable exchange rate fields
+ */
+export type ExchangeRateInput = Pick<
+  ExchangeRateRow,
+  'base_currency' | 'quote_currency' | 'rate' | 'effective_date' | 'notes'
+>
+
+/**
+ * Booking revenue of one property, in its own currency and in the reporting currency
+ */
+export interface PortfolioPropertyTotal {
+  propertyId: string
+  propertyName: string
+  currency: string
+  amount: number
+  convertedAmount: number | null  // null when a booking could not be converted
+}
+
+/**
+ * Booking revenue of the whole portfolio in the reporting currency
+ */
+export interface PortfolioTotal {
+  reportingCurrency: string
+  total: number                     // Sum over properties whose bookings could all be converted
+  properties: PortfolioPropertyTotal[]
+  missingRates: string[]            // Currencies with no rate into the reporting currency
+}
+
+/**
+ * Bounds mirror the check constraints on exchange_rates (NUMERIC(18,8))
+ */
+export const EXCHANGE_RATE_LIMITS = {
+  MAX_RATE: 1_000_000_000
+} as const
+
+/**
+ * Currency Service class
+ */
+export class CurrencyService {
+  /**
+   * Change the currency a property is priced in
+   * Prices are kept as they are; only their unit changes
+   *
+   * @param propertyId - Property UUID (properties.id)
+   */
+  static async updatePropertyCurrency(propertyId: string, currency: string): Promise<string> {
+    if (!propertyId) {
+      throw new CurrencyError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+    if (!isCurrencyCode(currency)) {
+      throw new CurrencyError(`Unknown currency code: ${currency}`, 'INVALID_CURRENCY', propertyId)
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('properties')
+      .update({ currency })
+      .eq('id', propertyId)
+      .select('currency')
+      .single()
+
+    if (error || !data) {
+      throw new CurrencyError(
+        `Failed to update property currency: ${error?.message ?? 'no row returned'}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    return data.currency
+  }
+
+  /**
+   * Load every stored exchange rate, newest first
+   */
+  static async getExchangeRates(): Promise<ExchangeRateRow[]> {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .order('effective_date', { ascending: false })
+      .order('base_currency', { ascending: true })
+
+    if (error) {
+      throw new CurrencyError(`Failed to fetch exchange rates: ${error.message}`, 'FETCH_ERROR')
+    }
+
+    return (data || []).map(row => ({ ...row, rate: Number(row.rate) }))
+  }
+
+  /**
+   * Save a rate; a rate for the same pair and date is replaced
+   *
+   * @throws CurrencyError when a value is invalid or the save fails
+   */
+  static async saveExchangeRate(input: ExchangeRateInput): Promise<ExchangeRateRow> {
+    const validationError = this.validateExchangeRate(input)
+    if (validationError) {
+      throw new CurrencyError(validationError, 'INVALID_RATE')
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('exchange_rates')
+      .upsert(
+        { ...input, notes: input.notes?.trim() || null },
+        { onConflict: 'base_currency,quote_currency,effective_date' }
+      )
+      .select('*')
+      .single()
+
+    if (error || !data) {
+      throw new CurrencyError(
+        `Failed to save exchange rate: ${error?.message ?? 'no row returned'}`,
+        'UPDATE_ERROR'
+      )
+    }
+
+    return { ...data, rate: Number(data.rate) }
+  }
+
+  /**
+   * Delete a stored rate
+   */
+  static async deleteExchangeRate(rateId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('exchange_rates')
+      .delete()
+      .eq('rate_id', rateId)
+
+    if (error) {
+      throw new CurrencyError(`Failed to delete exchange rate: ${error.message}`, 'DELETE_ERROR')
+    }
+  }
+
+  /**
+   * Get the portfolio reporting currency
+   *
+   * @returns ISO 4217 code, or null when no reporting currency is set
+   */
+  static async getReportingCurrency(): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('currency_settings')
+      .select('reporting_currency')
+      .limit(1)
+
+    if (error) {
+      throw new CurrencyError(`Failed to fetch reporting currency: ${error.message}`, 'FETCH_ERROR')
+    }
+
+    return data?.[0]?.reporting_currency ?? null
+  }
+
+  /**
+   * Set the portfolio reporting currency; null turns conversion off
+   */
+  static async setReportingCurrency(currency: string | null): Promise<string | null> {
+    if (currency !== null && !isCurrencyCode(currency)) {
+      throw new CurrencyError(`Unknown currency code: ${currency}`, 'INVALID_CURRENCY')
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('currency_settings')
+      .select('settings_id')
+      .limit(1)
+
+    if (fetchError) {
+      throw new CurrencyError(`Failed to fetch reporting currency: ${fetchError.message}`, 'FETCH_ERROR')
+    }
+
+    const { data, error } = existing && existing.length > 0
+      ? await supabaseAdmin
+          .from('currency_settings')
+          .update({ reporting_currency: currency })
+          .eq('settings_id', existing[0].settings_id)
+          .select('reporting_currency')
+          .single()
+      : await supabaseAdmin
+          .from('currency_settings')
+          .insert({ reporting_currency: currency })
+          .select('reporting_currency')
+          .single()
+
+    if (error || !data) {
+      throw new CurrencyError(
+        `Failed to save reporting currency: ${error?.message ?? 'no row returned'}`,
+        'UPDATE_ERROR'
+      )
+    }
+
+    return data.reporting_currency
+  }
+
+  /**
+   * Rate converting one currency into another on a date, mirroring get_exchange_rate:
+   * the latest snapshot on or before the date in either direction, a stored
+   * direction winning over a derived one on the same date
+   *
+   * @param rates - Rows from getExchangeRates
+   * @param onDate - YYYY-MM-DD
+   * @returns Rate, or null when no snapshot exists
+   */
+  static findRate(
+    rates: ExchangeRateRow[],
+    fromCurrency: string,
+    toCurrency: string,
+    onDate: string
+  ): number | null {
+    if (fromCurrency === toCurrency) return 1
+
+    let best: { date: string; rate: number; stored: boolean } | null = null
+    for (const row of rates) {
+      if (row.effective_date > onDate) continue
+
+      const stored = row.base_currency === fromCurrency && row.quote_currency === toCurrency
+      const reverse = row.base_currency === toCurrency && row.quote_currency === fromCurrency
+      if (!stored && !reverse) continue
+
+      if (!best || row.effective_date > best.date || (row.effective_date === best.date && stored && !best.stored)) {
+        best = { date: row.effective_date, rate: stored ? row.rate : 1 / row.rate, stored }
+      }
+    }
+
+    return best ? best.rate : null
+  }
+
+  /**
+   * Convert an amount between currencies on a date
+   *
+   * @returns Converted amount rounded to cents, or null when no rate is stored
+   */
+  static convert(
+    amount: number,
+    fromCurrency: string,
+    toCurrency: string,
+    onDate: string,
+    rates: ExchangeRateRow[]
+  ): number | null {
+    const rate = this.findRate(rates, fromCurrency, toCurrency, onDate)
+    return rate === null ? null : Math.round(amount * rate * 100) / 100
+  }
+
+  /**
+   * Booking revenue of every property in the reporting currency
+   * Confirmed and pending bookings arriving in the range count; each booking is
+   * converted at the rate in force on its arrival date
+   *
+   * @param startDate - First arrival date (YYYY-MM-DD)
+   * @param endDate - Last arrival date (YYYY-MM-DD)
+   */
+  static async getPortfolioTotal(
+    reportingCurrency: string,
+    startDate: string,
+    endDate: string
+  ): Promise<PortfolioTotal> {
+    if (!isCurrencyCode(reportingCurrency)) {
+      throw new CurrencyError(`Unknown currency code: ${reportingCurrency}`, 'INVALID_CURRENCY')
+    }
+
+    const [propertiesResult, bookingsResult, rates] = await Promise.all([
+      supabase
+        .from('properties')
+        .select('id, property_name, currency')
+        .order('property_name', { ascending: true }),
+      supabase
+        .from('bookings')
+        .select('property_internal_id, arrival_date, total_price')
+        .in('booking_status', ['confirmed', 'pending'])
+        .gte('arrival_date', startDate)
+        .lte('arrival_date', endDate),
+      this.getExchangeRates()
+    ])
+
+    if (propertiesResult.error || bookingsResult.error) {
+      const message = propertiesResult.error?.message ?? bookingsResult.error?.message
+      throw new CurrencyError(`Failed to fetch portfolio revenue: ${message}`, 'FETCH_ERROR')
+    }
+
+    const totals = new Map<string, PortfolioPropertyTotal>(
+      (propertiesResult.data || []).map(property => [property.id, {
+        propertyId: property.id,
+        propertyName: property.property_name,
+        currency: property.currency,
+        amount: 0,
+        convertedAmount: 0
+      }])
+    )
+    const missingRates = new Set<string>()
+
+    for (const booking of bookingsResult.data || []) {
+      const entry = totals.get(booking.property_internal_id)
+      if (!entry || !booking.total_price) continue
+
+      const amount = Number(booking.total_price)
+      entry.amount += amount
+
+      const converted = this.convert(amount, entry.currency, reportingCurrency, booking.arrival_date, rates)
+      if (converted === null) {
+        missingRates.add(entry.currency)
+        entry.convertedAmount = null
+      } else if (entry.convertedAmount !== null) {
+        entry.convertedAmount += converted
+      }
+    }
+
+    const properties = Array.from(totals.values())
+
+    return {
+      reportingCurrency,
+      total: Math.round(properties.reduce((sum, p) => sum + (p.convertedAmount ?? 0), 0) * 100) / 100,
+      properties,
+      missingRates: Array.from(missingRates).sort()
+    }
+  }
+
+  /**
+   * Validate a rate against the database bounds
+   *
+   * @returns Error message, or null when the rate is valid
+   */
+  static validateExchangeRate(input: ExchangeRateInput): string | null {
+    const { base_currency, quote_currency, rate, effective_date } = input
+
+    if (!isCurrencyCode(base_currency) || !isCurrencyCode(quote_currency)) {
+      return 'Currencies must be three-letter ISO 4217 codes'
+    }
+
+    if (base_currency === quote_currency) {
+      return 'Base and quote currency must differ'
+    }
+
+    if (!Number.isFinite(rate) || rate <= 0 || rate >= EXCHANGE_RATE_LIMITS.MAX_RATE) {
+      return 'Rate must be a positive number'
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effective_date)) {
+      return 'Effective date must be a valid date'
+    }
+
+    return null
+  }
+}
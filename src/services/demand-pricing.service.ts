@@ -0,0 +1,161 @@
+/**
+ * Demand Pricing Service
+ *
+ * Service layer for occupancy-driven pricing settings. The adjustment itself is
+ * calculated by get_demand_adjustment inside calculate_final_price.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Database } from '@/types/database.generated'
+
+type DemandPricingSettingsRow = Database['public']['Tables']['demand_pricing_settings']['Row']
+type DemandPricingSettingsUpdate = Database['public']['Tables']['demand_pricing_settings']['Update']
+
+/**
+ * Error type for demand pricing operations
+ */
+export class DemandPricingError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string | null
+  ) {
+    super(message)
+    this.name = 'DemandPricingError'
+  }
+}
+
+/**
+ * Editable demand pricing fields
+ */
+export type DemandPricingSettingsInput = Pick<
+  DemandPricingSettingsRow,
+  'is_enabled' | 'occupancy_basis' | 'sensitivity' | 'max_increase' | 'max_decrease'
+>
+
+/**
+ * Bounds mirror the check constraints on demand_pricing_settings
+ */
+export const DEMAND_PRICING_LIMITS = {
+  MAX_SENSITIVITY: 5,
+  MAX_INCREASE: 1,
+  MAX_DECREASE: 0.5
+} as const
+
+export const DEFAULT_DEMAND_PRICING_SETTINGS: DemandPricingSettingsInput = {
+  is_enabled: false,
+  occupancy_basis: 'property',
+  sensitivity: 0.5,
+  max_increase: 0.2,
+  max_decrease: 0.1
+}
+
+/**
+ * Demand Pricing Service class
+ */
+export class DemandPricingService {
+  /**
+   * Get the settings that apply to a property (its own row, else the portfolio default)
+   *
+   * @param propertyId - Property UUID, or null for the portfolio default
+   * @returns Settings row, or null when none has been saved yet
+   */
+  static async getSettings(propertyId: string | null = null): Promise<DemandPricingSettingsRow | null> {
+    let query = supabase
+      .from('demand_pricing_settings')
+      .select('*')
+
+    query = propertyId
+      ? query.or(`property_internal_id.eq.${propertyId},property_internal_id.is.null`)
+      : query.is('property_internal_id', null)
+
+    const { data, error } = await query
+      .order('property_internal_id', { ascending: true, nullsFirst: false })
+      .limit(1)
+
+    if (error) {
+      throw new DemandPricingError(
+        `Failed to fetch demand pricing settings: ${error.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    return data?.[0] ?? null
+  }
+
+  /**
+   * Save settings for a property, or the portfolio default when propertyId is null
+   *
+   * @throws DemandPricingError when a value is out of bounds or the save fails
+   */
+  static async saveSettings(
+    settings: DemandPricingSettingsInput,
+    propertyId: string | null = null
+  ): Promise<DemandPricingSettingsRow> {
+    const validationError = this.validateSettings(settings)
+    if (validationError) {
+      throw new DemandPricingError(validationError, 'INVALID_SETTINGS', propertyId)
+    }
+
+    const { data: existing, error: fetchError } = await (propertyId
+      ? supabase.from('demand_pricing_settings').select('settings_id').eq('property_internal_id', propertyId)
+      : supabase.from('demand_pricing_settings').select('settings_id').is('property_internal_id', null))
+
+    if (fetchError) {
+      throw new DemandPricingError(
+        `Failed to fetch demand pricing settings: ${fetchError.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    const values: DemandPricingSettingsUpdate = { ...settings }
+
+    const { data, error } = existing && existing.length > 0
+      ? await supabaseAdmin
+          .from('demand_pricing_settings')
+          .update(values)
+          .eq('settings_id', existing[0].settings_id)
+          .select('*')
+          .single()
+      : await supabaseAdmin
+          .from('demand_pricing_settings')
+          .insert({ ...settings, property_internal_id: propertyId })
+          .select('*')
+          .single()
+
+    if (error || !data) {
+      throw new DemandPricingError(
+        `Failed to save demand pricing settings: ${error?.message ?? 'no row returned'}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    return data
+  }
+
+  /**
+   * Validate settings against the database bounds
+   *
+   * @returns Error message, or null when the settings are valid
+   */
+  static validateSettings(settings: DemandPricingSettingsInput): string | null {
+    const { sensitivity, max_increase, max_decrease } = settings
+
+    if (!Number.isFinite(sensitivity) || sensitivity < 0 || sensitivity > DEMAND_PRICING_LIMITS.MAX_SENSITIVITY) {
+      return `Sensitivity must be between 0 and ${DEMAND_PRICING_LIMITS.MAX_SENSITIVITY}`
+    }
+
+    if (!Number.isFinite(max_increase) || max_increase < 0 || max_increase > DEMAND_PRICING_LIMITS.MAX_INCREASE) {
+      return `Maximum increase must be between 0% and ${DEMAND_PRICING_LIMITS.MAX_INCREASE * 100}%`
+    }
+
+    if (!Number.isFinite(max_decrease) || max_decrease < 0 || max_decrease > DEMAND_PRICING_LIMITS.MAX_DECREASE) {
+      return `Maximum decrease must be between 0% and ${DEMAND_PRICING_LIMITS.MAX_DECREASE * 100}%`
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Discount Curve Template Service
+ *
+ * Named custom discount curves that can be loaded into any strategy.
+ * A strategy keeps its own copy of the points, so later changes to a
+ * template do not alter strategies already built from it.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type { DiscountCurveTemplate } from '@/types/database.types'
+import type { CurvePoint, CurveInterpolation } from '@/types/database'
+
+/**
+ * Error type for curve template operations
+ */
+export class DiscountCurveTemplateError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public templateId?: string
+  ) {
+    super(message)
+    this.name = 'DiscountCurveTemplateError'
+  }
+}
+
+/**
+ * Discount Curve Template Service class
+ */
+export class DiscountCurveTemplateService {
+  /**
+   * Get all templates, by name
+   */
+  static async getTemplates(): Promise<DiscountCurveTemplate[]> {
+    const { data, error } = await supabase
+      .from('discount_curve_templates')
+      .select('*')
+      .order('template_name')
+
+    if (error) {
+      throw new DiscountCurveTemplateError(
+        `Failed to fetch curve templates: ${error.message}`,
+        'FETCH_ERROR'
+      )
+    }
+
+    return data ?? []
+  }
+
+  /**
+   * Save a curve under a name, replacing any template with that name
+   */
+  static async saveTemplate(
+    name: string,
+    points: CurvePoint[],
+    interpolation: CurveInterpolation
+  ): Promise<DiscountCurveTemplate> {
+    const templateName = name.trim()
+    if (!templateName) {
+      throw new DiscountCurveTemplateError('Template name is required', 'VALIDATION_ERROR')
+    }
+    if (points.length < 2) {
+      throw new DiscountCurveTemplateError('A curve needs at least two points', 'VALIDATION_ERROR')
+    }
+
+    const { data, error } = await supabase
+      .from('discount_curve_templates')
+      .upsert(
+        {
+          template_name: templateName,
+          curve_points: [...points].sort((a, b) => a.days - b.days),
+          curve_interpolation: interpolation,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'template_name' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      throw new DiscountCurveTemplateError(
+        `Failed to save curve template: ${error.message}`,
+        'SAVE_ERROR'
+      )
+    }
+
+    return data
+  }
+
+  /**
+   * Delete a template; strategies built from it keep their curves
+   */
+  static async deleteTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('discount_curve_templates')
+      .delete()
+      .eq('template_id', templateId)
+
+    if (error) {
+      throw new DiscountCurveTemplateError(
+        `Failed to delete curve template: ${error.message}`,
+        'DELETE_ERROR',
+        templateId
+      )
+    }
+  }
+}
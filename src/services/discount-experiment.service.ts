@@ -0,0 +1,511 @@
+/**
+ * Discount Experiment Service
+ *
+ * A/B experiments between two last-minute strategies. Each arm prices with a
+ * copy of its strategy taken at creation (see copyStrategy), so editing the
+ * original does not change a running experiment. get_last_minute_discount
+ * picks the arm for a night; see migration 023.
+ *
+ * Results compare the bookings made while the experiment ran, with arrivals
+ * in its period, attributed to the arm that priced their arrival night.
+ * The booking date is bookings.created_at, which Lodgify imports set when
+ * they first see the reservation.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { discountService } from './discount.service'
+import type { Database } from '@/types/database.generated'
+import type { ExperimentArm, ExperimentAssignmentMode, Property } from '@/types/database'
+import { summarizeArm, compareArms } from '@/utils/experimentStats'
+import type {
+  ArmSummary,
+  ExperimentBookingOutcome,
+  ExperimentEffect,
+  ExperimentWarning
+} from '@/utils/experimentStats'
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+
+type DiscountExperimentRow = Database['public']['Tables']['discount_experiments']['Row']
+type DiscountExperimentPropertyRow = Database['public']['Tables']['discount_experiment_properties']['Row']
+
+/**
+ * Error type for discount experiment operations
+ */
+export class DiscountExperimentError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public experimentId?: string
+  ) {
+    super(message)
+    this.name = 'DiscountExperimentError'
+  }
+}
+
+/**
+ * A new experiment; strategy IDs are the originals, the arms get copies
+ */
+export interface DiscountExperimentInput {
+  experiment_name: string
+  strategy_a_id: string
+  strategy_b_id: string
+  assignment_mode: ExperimentAssignmentMode
+  start_date: string   // yyyy-MM-dd, first night priced by the experiment
+  end_date: string     // yyyy-MM-dd, last night priced by the experiment
+  notes?: string | null
+  properties: Omit<DiscountExperimentPropertyRow, 'experiment_id'>[]  // arm null when weeks alternate
+}
+
+/**
+ * Outcome of an experiment so far
+ */
+export interface ExperimentResults {
+  experiment: DiscountExperimentRow
+  periodStart: string
+  periodEnd: string    // Last night analysed: the end date, or the day it was stopped
+  finished: boolean
+  arms: [ArmSummary, ArmSummary]
+  effects: ExperimentEffect[]
+  warnings: ExperimentWarning[]
+}
+
+// Booking statuses that count as a booking, as in booking.service
+const COUNTED_STATUSES = ['confirmed', 'pending']
+
+/**
+ * Discount Experiment Service class
+ */
+export class DiscountExperimentService {
+  /**
+   * Get all experiments, newest first
+   */
+  static async getExperiments(): Promise<DiscountExperimentRow[]> {
+    const { data, error } = await supabase
+      .from('discount_experiments')
+      .select('*')
+      .order('start_date', { ascending: false })
+
+    if (error) {
+      throw new DiscountExperimentError(
+        `Failed to fetch experiments: ${error.message}`,
+        'FETCH_ERROR'
+      )
+    }
+
+    // The client types the mode and status as plain strings; the checks guarantee the unions
+    return (data ?? []) as DiscountExperimentRow[]
+  }
+
+  /**
+   * Get the properties enrolled in an experiment
+   */
+  static async getExperimentProperties(experimentId: string): Promise<DiscountExperimentPropertyRow[]> {
+    const { data, error } = await supabase
+      .from('discount_experiment_properties')
+      .select('*')
+      .eq('experiment_id', experimentId)
+
+    if (error) {
+      throw new DiscountExperimentError(
+        `Failed to fetch experiment properties: ${error.message}`,
+        'FETCH_ERROR',
+        experimentId
+      )
+    }
+
+    return (data ?? []) as DiscountExperimentPropertyRow[]
+  }
+
+  /**
+   * Last-minute strategies that can be compared, by name
+   */
+  static async getLastMinuteStrategies(): Promise<{ strategy_id: string; strategy_name: string }[]> {
+    const { data, error } = await supabase
+      .from('discount_strategies')
+      .select('strategy_id, strategy_name')
+      .eq('strategy_type', 'last_minute')
+      .eq('is_experiment_arm', false)
+      .order('strategy_name')
+
+    if (error) {
+      throw new DiscountExperimentError(
+        `Failed to fetch strategies: ${error.message}`,
+        'FETCH_ERROR'
+      )
+    }
+
+    return data ?? []
+  }
+
+  /**
+   * Create a draft experiment, copying both strategies for the arms
+   *
+   * @throws DiscountExperimentError when the input is invalid or a step fails
+   */
+  static async createExperiment(input: DiscountExperimentInput): Promise<DiscountExperimentRow> {
+    const validationError = this.validateExperiment(input)
+    if (validationError) {
+      throw new DiscountExperimentError(validationError, 'INVALID_EXPERIMENT')
+    }
+
+    const { data: strategies, error: strategyError } = await supabase
+      .from('discount_strategies')
+      .select('strategy_id, strategy_name, strategy_type')
+      .in('strategy_id', [input.strategy_a_id, input.strategy_b_id])
+
+    if (strategyError) {
+      throw new DiscountExperimentError(
+        `Failed to fetch strategies: ${strategyError.message}`,
+        'FETCH_ERROR'
+      )
+    }
+
+    const strategyA = strategies?.find(strategy => strategy.strategy_id === input.strategy_a_id)
+    const strategyB = strategies?.find(strategy => strategy.strategy_id === input.strategy_b_id)
+    if (!strategyA || !strategyB) {
+      throw new DiscountExperimentError('Both strategies must exist', 'INVALID_STRATEGY')
+    }
+    if ([strategyA, strategyB].some(strategy => strategy.strategy_type !== 'last_minute')) {
+      throw new DiscountExperimentError('Experiments compare last-minute strategies only', 'INVALID_STRATEGY')
+    }
+
+    const name = input.experiment_name.trim()
+    const copyIds: string[] = []
+    let experimentId: string | undefined
+
+    // The steps run as separate requests; if one fails, remove what the
+    // earlier ones made so no hidden arm copies are left behind
+    try {
+      const copyAId = await discountService.copyStrategy(strategyA.strategy_id, `${name} – A: ${strategyA.strategy_name}`)
+      copyIds.push(copyAId)
+      const copyBId = await discountService.copyStrategy(strategyB.strategy_id, `${name} – B: ${strategyB.strategy_name}`)
+      copyIds.push(copyBId)
+
+      // The copies price on their own dates; only the experiment period limits them.
+      // As arms they stay out of the strategy lists and pricing scenarios.
+      const { error: activateError } = await supabase
+        .from('discount_strategies')
+        .update({ is_active: true, is_experiment_arm: true, valid_from: null, valid_until: null })
+        .in('strategy_id', copyIds)
+
+      if (activateError) {
+        throw new DiscountExperimentError(
+          `Failed to prepare experiment strategies: ${activateError.message}`,
+          'UPDATE_ERROR'
+        )
+      }
+
+      const { data: experiment, error } = await supabase
+        .from('discount_experiments')
+        .insert({
+          experiment_name: name,
+          strategy_a_id: copyAId,
+          strategy_b_id: copyBId,
+          assignment_mode: input.assignment_mode,
+          start_date: input.start_date,
+          end_date: input.end_date,
+          notes: input.notes ?? null
+        })
+        .select('*')
+        .single()
+
+      if (error || !experiment) {
+        throw new DiscountExperimentError(
+          `Failed to create experiment: ${error?.message ?? 'no row returned'}`,
+          'CREATE_ERROR'
+        )
+      }
+      experimentId = experiment.experiment_id
+
+      const { error: propertiesError } = await supabase
+        .from('discount_experiment_properties')
+        .insert(input.properties.map(property => ({
+          experiment_id: experiment.experiment_id,
+          property_internal_id: property.property_internal_id,
+          arm: input.assignment_mode === 'property' ? property.arm : null
+        })))
+
+      if (propertiesError) {
+        throw new DiscountExperimentError(
+          `Failed to enrol experiment properties: ${propertiesError.message}`,
+          'CREATE_ERROR',
+          experiment.experiment_id
+        )
+      }
+
+      return experiment as DiscountExperimentRow
+    } catch (error) {
+      await this.discardDraft(copyIds, experimentId)
+      throw error
+    }
+  }
+
+  /**
+   * Remove what a failed createExperiment made. The experiment goes first:
+   * migration 028 blocks deleting a strategy an experiment still uses.
+   * Failures here are ignored so the caller sees the original error.
+   */
+  private static async discardDraft(copyIds: string[], experimentId?: string): Promise<void> {
+    if (experimentId) {
+      await supabase.from('discount_experiments').delete().eq('experiment_id', experimentId)
+    }
+    if (copyIds.length > 0) {
+      await supabase.from('discount_strategies').delete().in('strategy_id', copyIds)
+    }
+  }
+
+  /**
+   * Start pricing with an experiment
+   *
+   * @throws DiscountExperimentError when a property is in another running experiment over the same dates
+   */
+  static async startExperiment(experimentId: string): Promise<void> {
+    const experiment = await this.getExperiment(experimentId)
+    if (experiment.status !== 'draft') {
+      throw new DiscountExperimentError('Only draft experiments can be started', 'INVALID_STATUS', experimentId)
+    }
+
+    const properties = await this.getExperimentProperties(experimentId)
+    const { data: running, error } = await supabase
+      .from('discount_experiments')
+      .select('experiment_id, experiment_name')
+      .eq('status', 'running')
+      .lte('start_date', experiment.end_date)
+      .gte('end_date', experiment.start_date)
+
+    if (error) {
+      throw new DiscountExperimentError(
+        `Failed to check running experiments: ${error.message}`,
+        'FETCH_ERROR',
+        experimentId
+      )
+    }
+
+    if (running && running.length > 0 && properties.length > 0) {
+      const { data: shared, error: sharedError } = await supabase
+        .from('discount_experiment_properties')
+        .select('experiment_id')
+        .in('experiment_id', running.map(other => other.experiment_id))
+        .in('property_internal_id', properties.map(property => property.property_internal_id))
+        .limit(1)
+
+      if (sharedError) {
+        throw new DiscountExperimentError(
+          `Failed to check running experiments: ${sharedError.message}`,
+          'FETCH_ERROR',
+          experimentId
+        )
+      }
+
+      if (shared && shared.length > 0) {
+        const other = running.find(candidate => candidate.experiment_id === shared[0].experiment_id)
+        throw new DiscountExperimentError(
+          `Properties are already in the running experiment "${other?.experiment_name}" on these dates`,
+          'OVERLAPPING_EXPERIMENT',
+          experimentId
+        )
+      }
+    }
+
+    await this.updateStatus(experimentId, { status: 'running' })
+  }
+
+  /**
+   * Stop an experiment; its properties go back to their own strategies
+   */
+  static async stopExperiment(experimentId: string): Promise<void> {
+    await this.updateStatus(experimentId, { status: 'stopped', stopped_at: new Date().toISOString() })
+  }
+
+  /**
+   * Compare the bookings of both arms
+   *
+   * @param today - Reference date for whether the experiment is over
+   */
+  static async analyzeExperiment(experimentId: string, today: Date = new Date()): Promise<ExperimentResults> {
+    const experiment = await this.getExperiment(experimentId)
+    const properties = await this.getExperimentProperties(experimentId)
+
+    const periodStart = experiment.start_date
+    const stoppedOn = experiment.stopped_at ? format(parseISO(experiment.stopped_at), 'yyyy-MM-dd') : null
+    const periodEnd = stoppedOn && stoppedOn < experiment.end_date ? stoppedOn : experiment.end_date
+    const finished = experiment.status === 'stopped' || format(today, 'yyyy-MM-dd') > experiment.end_date
+
+    // Bookings made once the arms stopped pricing were not quoted by the experiment
+    const periodCloses = format(addDays(parseISO(experiment.end_date), 1), 'yyyy-MM-dd')
+    const bookedBefore = experiment.stopped_at && experiment.stopped_at < periodCloses
+      ? experiment.stopped_at
+      : periodCloses
+
+    const { data: bookings, error } = properties.length === 0
+      ? { data: [], error: null }
+      : await supabase
+          .from('bookings')
+          .select('property_internal_id, arrival_date, departure_date, total_price, created_at')
+          .in('property_internal_id', properties.map(property => property.property_internal_id))
+          .in('booking_status', COUNTED_STATUSES)
+          .gte('arrival_date', periodStart)
+          .lte('arrival_date', periodEnd)
+          .gte('created_at', periodStart)
+          .lt('created_at', bookedBefore)
+
+    if (error) {
+      throw new DiscountExperimentError(
+        `Failed to fetch experiment bookings: ${error.message}`,
+        'FETCH_ERROR',
+        experimentId
+      )
+    }
+
+    const propertyArms = new Map(properties.map(property => [property.property_internal_id, property.arm]))
+    const outcomes: Record<ExperimentArm, ExperimentBookingOutcome[]> = { a: [], b: [] }
+
+    for (const booking of bookings ?? []) {
+      const arm = experiment.assignment_mode === 'alternating_weeks'
+        ? this.getWeekArm(periodStart, booking.arrival_date)
+        : propertyArms.get(booking.property_internal_id)
+      if (!arm) continue
+
+      const bookedOn = booking.created_at ? parseISO(booking.created_at) : parseISO(booking.arrival_date)
+      outcomes[arm].push({
+        nights: differenceInCalendarDays(parseISO(booking.departure_date), parseISO(booking.arrival_date)),
+        leadTimeDays: Math.max(differenceInCalendarDays(parseISO(booking.arrival_date), bookedOn), 0),
+        revenue: booking.total_price
+      })
+    }
+
+    const exposure = this.getExposureNights(experiment, properties, periodStart, periodEnd)
+    const armA = summarizeArm('a', outcomes.a, exposure.a)
+    const armB = summarizeArm('b', outcomes.b, exposure.b)
+    const { effects, warnings } = compareArms(
+      { summary: armA, outcomes: outcomes.a },
+      { summary: armB, outcomes: outcomes.b },
+      finished
+    )
+
+    return { experiment, periodStart, periodEnd, finished, arms: [armA, armB], effects, warnings }
+  }
+
+  /**
+   * Split properties into two arms of similar base prices (highest first, A B B A ...)
+   */
+  static balanceArms(
+    properties: Pick<Property, 'id' | 'base_price_per_day'>[]
+  ): Omit<DiscountExperimentPropertyRow, 'experiment_id'>[] {
+    return [...properties]
+      .sort((a, b) => b.base_price_per_day - a.base_price_per_day)
+      .map((property, index) => ({
+        property_internal_id: property.id,
+        arm: index % 4 === 0 || index % 4 === 3 ? 'a' : 'b'
+      }))
+  }
+
+  /**
+   * Arm that prices a night when weeks alternate, as get_experiment_strategy decides
+   */
+  static getWeekArm(startDate: string, checkDate: string): ExperimentArm {
+    const week = Math.floor(differenceInCalendarDays(parseISO(checkDate), parseISO(startDate)) / 7)
+    return week % 2 === 0 ? 'a' : 'b'
+  }
+
+  /**
+   * Validate an experiment before creating it
+   *
+   * @returns Error message, or null when the experiment is valid
+   */
+  static validateExperiment(input: DiscountExperimentInput): string | null {
+    if (!input.experiment_name.trim()) {
+      return 'Experiment name is required'
+    }
+
+    if (!input.strategy_a_id || !input.strategy_b_id) {
+      return 'Choose a strategy for both arms'
+    }
+
+    if (input.strategy_a_id === input.strategy_b_id) {
+      return 'The arms need two different strategies'
+    }
+
+    if (!input.start_date || !input.end_date || input.end_date <= input.start_date) {
+      return 'End date must be after start date'
+    }
+
+    if (input.properties.length === 0) {
+      return 'Enrol at least one property'
+    }
+
+    if (input.assignment_mode === 'property') {
+      if (input.properties.some(property => property.arm !== 'a' && property.arm !== 'b')) {
+        return 'Assign every property to arm A or B'
+      }
+      if (!input.properties.some(property => property.arm === 'a') || !input.properties.some(property => property.arm === 'b')) {
+        return 'Each arm needs at least one property'
+      }
+    }
+
+    return null
+  }
+
+  private static async getExperiment(experimentId: string): Promise<DiscountExperimentRow> {
+    const { data, error } = await supabase
+      .from('discount_experiments')
+      .select('*')
+      .eq('experiment_id', experimentId)
+      .single()
+
+    if (error || !data) {
+      throw new DiscountExperimentError(
+        `Experiment not found: ${error?.message ?? experimentId}`,
+        'NOT_FOUND',
+        experimentId
+      )
+    }
+
+    return data as DiscountExperimentRow
+  }
+
+  private static async updateStatus(
+    experimentId: string,
+    values: Pick<DiscountExperimentRow, 'status'> & Partial<Pick<DiscountExperimentRow, 'stopped_at'>>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('discount_experiments')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('experiment_id', experimentId)
+
+    if (error) {
+      throw new DiscountExperimentError(
+        `Failed to update experiment: ${error.message}`,
+        'UPDATE_ERROR',
+        experimentId
+      )
+    }
+  }
+
+  /**
+   * Property-nights each arm priced between two dates, inclusive
+   */
+  private static getExposureNights(
+    experiment: DiscountExperimentRow,
+    properties: DiscountExperimentPropertyRow[],
+    periodStart: string,
+    periodEnd: string
+  ): Record<ExperimentArm, number> {
+    const nights = differenceInCalendarDays(parseISO(periodEnd), parseISO(periodStart)) + 1
+    if (nights <= 0) return { a: 0, b: 0 }
+
+    if (experiment.assignment_mode === 'property') {
+      return {
+        a: properties.filter(property => property.arm === 'a').length * nights,
+        b: properties.filter(property => property.arm === 'b').length * nights
+      }
+    }
+
+    const exposure = { a: 0, b: 0 }
+    for (let offset = 0; offset < nights; offset++) {
+      const date = format(addDays(parseISO(periodStart), offset), 'yyyy-MM-dd')
+      exposure[this.getWeekArm(experiment.start_date, date)] += properties.length
+    }
+    return exposure
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Discount Stacking Service
+ *
+ * Service layer for discount stacking policies. The policy itself is applied
+ * inside calculate_final_price; see migration 022 for the price flow.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Database } from '@/types/database.generated'
+import type { DiscountKind } from '@/types/database'
+
+type DiscountStackingPolicyRow = Database['public']['Tables']['discount_stacking_policies']['Row']
+type DiscountStackingPolicyUpdate = Database['public']['Tables']['discount_stacking_policies']['Update']
+
+/**
+ * Error type for discount stacking operations
+ */
+export class DiscountStackingError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string | null
+  ) {
+    super(message)
+    this.name = 'DiscountStackingError'
+  }
+}
+
+/**
+ * Editable policy fields
+ */
+export type DiscountStackingPolicyInput = Pick<
+  DiscountStackingPolicyRow,
+  'stacking_mode' | 'exclusive_discounts' | 'max_total_discount' | 'discount_order' | 'min_price_stage'
+>
+
+/**
+ * Discount kinds in the order calculate_final_price applies them
+ */
+export const DISCOUNT_KINDS: DiscountKind[] = ['lead_time', 'gap', 'length_of_stay']
+
+export const DISCOUNT_KIND_LABELS: Record<DiscountKind, string> = {
+  lead_time: 'Last-minute / early-bird',
+  gap: 'Gap filler',
+  length_of_stay: 'Length of stay'
+}
+
+/**
+ * Matches the previous, implicit behaviour of calculate_final_price
+ */
+export const DEFAULT_DISCOUNT_STACKING_POLICY: DiscountStackingPolicyInput = {
+  stacking_mode: 'compound',
+  exclusive_discounts: [],
+  max_total_discount: null,
+  discount_order: 'after_adjustments',
+  min_price_stage: 'final'
+}
+
+/**
+ * Discount Stacking Service class
+ */
+export class DiscountStackingService {
+  /**
+   * Get the policy that applies to a property (its own row, else the portfolio default)
+   *
+   * @param propertyId - Property UUID, or null for the portfolio default
+   * @returns Policy row, or null when none has been saved yet
+   */
+  static async getPolicy(propertyId: string | null = null): Promise<DiscountStackingPolicyRow | null> {
+    let query = supabase
+      .from('discount_stacking_policies')
+      .select('*')
+
+    query = propertyId
+      ? query.or(`property_internal_id.eq.${propertyId},property_internal_id.is.null`)
+      : query.is('property_internal_id', null)
+
+    const { data, error } = await query
+      .order('property_internal_id', { ascending: true, nullsFirst: false })
+      .limit(1)
+
+    if (error) {
+      throw new DiscountStackingError(
+        `Failed to fetch discount stacking policy: ${error.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    // The client types the policy columns as plain strings; the checks guarantee the unions
+    return (data?.[0] ?? null) as DiscountStackingPolicyRow | null
+  }
+
+  /**
+   * Save the policy for a property, or the portfolio default when propertyId is null
+   *
+   * @throws DiscountStackingError when a value is out of bounds or the save fails
+   */
+  static async savePolicy(
+    policy: DiscountStackingPolicyInput,
+    propertyId: string | null = null
+  ): Promise<DiscountStackingPolicyRow> {
+    const validationError = this.validatePolicy(policy)
+    if (validationError) {
+      throw new DiscountStackingError(validationError, 'INVALID_POLICY', propertyId)
+    }
+
+    const { data: existing, error: fetchError } = await (propertyId
+      ? supabase.from('discount_stacking_policies').select('policy_id').eq('property_internal_id', propertyId)
+      : supabase.from('discount_stacking_policies').select('policy_id').is('property_internal_id', null))
+
+    if (fetchError) {
+      throw new DiscountStackingError(
+        `Failed to fetch discount stacking policy: ${fetchError.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    const values: DiscountStackingPolicyUpdate = { ...policy }
+
+    const { data, error } = existing && existing.length > 0
+      ? await supabaseAdmin
+          .from('discount_stacking_policies')
+          .update(values)
+          .eq('policy_id', existing[0].policy_id)
+          .select('*')
+          .single()
+      : await supabaseAdmin
+          .from('discount_stacking_policies')
+          .insert({ ...policy, property_internal_id: propertyId })
+          .select('*')
+          .single()
+
+    if (error || !data) {
+      throw new DiscountStackingError(
+        `Failed to save discount stacking policy: ${error?.message ?? 'no row returned'}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    return data as DiscountStackingPolicyRow
+  }
+
+  /**
+   * Validate a policy against the database constraints
+   *
+   * @returns Error message, or null when the policy is valid
+   */
+  static validatePolicy(policy: DiscountStackingPolicyInput): string | null {
+    if (!['compound', 'additive'].includes(policy.stacking_mode)) {
+      return 'Stacking mode must be compound or additive'
+    }
+
+    if (policy.exclusive_discounts.some(kind => !DISCOUNT_KINDS.includes(kind))) {
+      return 'Unknown discount in the exclusive set'
+    }
+
+    if (policy.max_total_discount !== null &&
+        (!Number.isFinite(policy.max_total_discount) || policy.max_total_discount < 0 || policy.max_total_discount > 1)) {
+      return 'Maximum total discount must be between 0% and 100%'
+    }
+
+    if (!['after_adjustments', 'before_adjustments'].includes(policy.discount_order)) {
+      return 'Discount order must be after_adjustments or before_adjustments'
+    }
+
+    if (!['final', 'before_discounts'].includes(policy.min_price_stage)) {
+      return 'Minimum price stage must be final or before_discounts'
+    }
+
+    return null
+  }
+}
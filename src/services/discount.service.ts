@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/lib/supabase'
+import { withChangeReason } from './change-log.service'
 import {
   DatabaseError,
   ValidationError,
@@ -11,8 +12,14 @@ import {
 } from '@/types/helpers'
 import type {
   GlobalStrategy,
+  LeadTimeRuleExplanation,
 } from '@/types/helpers'
 import type { Database } from '@/types/database.generated'
+import type { DiscountStrategyType } from '@/types/database'
+import { interpolateCurve, parseCurvePoints } from '@/utils/ruleTemplates'
+import { selectDiscountRule, ruleMinNightsBoundaries } from '@/utils/discountRuleEligibility'
+import type { RuleEvaluation } from '@/utils/discountRuleEligibility'
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
 
 type DiscountStrategyRow = Database['public']['Tables']['discount_strategies']['Row']
 type DiscountStrategyInsert = Database['public']['Tables']['discount_strategies']['Insert']
@@ -27,6 +34,16 @@ export interface DiscountPreview {
   discountPercentage: number
   discountAmount: number
   finalPrice: number
+  appliedRule: DiscountRuleRow | null      // null when no rule applied, or priced from the curve
+  ruleEvaluations: RuleEvaluation<DiscountRuleRow>[]
+}
+
+/**
+ * A lead time strategy that prices a property, with its rules
+ */
+export interface LeadTimeStrategy {
+  strategy: DiscountStrategyRow
+  rules: DiscountRuleRow[]
 }
 
 /**
@@ -74,6 +91,7 @@ export class DiscountService {
         .from('discount_strategies')
         .select('*')
         .eq('property_internal_id', property.id)
+        .eq('is_experiment_arm', false)
         .order('created_at', { ascending: false })
       
       if (error) {
@@ -190,10 +208,12 @@ export class DiscountService {
   
   /**
    * Update a discount strategy
+   * The optional reason is recorded in the pricing change log
    */
   async updateStrategy(
     strategyId: string,
-    updates: Partial<DiscountStrategyInsert>
+    updates: Partial<DiscountStrategyInsert>,
+    reason?: string
   ): Promise<DiscountStrategyRow> {
     // Validate updates if discount ranges are being changed
     if (updates.min_discount !== undefined || updates.max_discount !== undefined) {
@@ -212,12 +232,15 @@ export class DiscountService {
     }
     
     try {
-      const { data, error } = await supabase
-        .from('discount_strategies')
-        .update(updates)
-        .eq('strategy_id', strategyId)
-        .select()
-        .single()
+      const { data, error } = await withChangeReason(
+        supabase
+          .from('discount_strategies')
+          .update(updates)
+          .eq('strategy_id', strategyId)
+          .select()
+          .single(),
+        reason
+      )
       
       if (error) {
         throw new DatabaseError(
@@ -282,12 +305,15 @@ export class DiscountService {
   
   /**
    * Generate discount preview for a date range
+   * Rules are only used for stays of `nights` nights on the nights their
+   * min_nights and applicable_days allow, as in calculate_final_price
    */
   async generatePreview(
     propertyId: string,
     strategyId: string,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    nights = 1
   ): Promise<DiscountPreview[]> {
     // Get strategy details
     const { data: strategy } = await supabase
@@ -316,6 +342,10 @@ export class DiscountService {
     const today = new Date()
     today.setHours(0, 0, 0, 0)
     
+    // The database prices from the rules; the curve only stands in for a strategy without any
+    const strategyType = (strategy.strategy_type === 'early_bird' ? 'early_bird' : 'last_minute') as DiscountStrategyType
+    const rules = await this.getStrategyRules(strategyId)
+    
     // Generate preview for each date
     for (
       let date = new Date(startDate);
@@ -329,17 +359,38 @@ export class DiscountService {
       
       // Calculate discount based on curve type
       let discountPercentage = 0
+      let appliedRule: DiscountRuleRow | null = null
+      let ruleEvaluations: RuleEvaluation<DiscountRuleRow>[] = []
       
-      if (daysBeforeCheckin <= strategy.activation_window && daysBeforeCheckin >= 0) {
-        const curveFunction = DISCOUNT_CURVES[strategy.curve_type as keyof typeof DISCOUNT_CURVES]
-        
-        if (curveFunction) {
-          discountPercentage = curveFunction(
-            daysBeforeCheckin,
-            strategy.activation_window,
-            strategy.min_discount,
-            strategy.max_discount
-          ) * 100
+      if (rules.length > 0 || strategyType === 'early_bird') {
+        const selection = selectDiscountRule(rules, {
+          strategyType,
+          daysBeforeCheckin,
+          nights,
+          checkDate: format(currentDate, 'yyyy-MM-dd'),
+          activationWindow: strategy.activation_window
+        })
+        appliedRule = selection.rule
+        ruleEvaluations = selection.evaluations
+        discountPercentage = (appliedRule?.discount_percentage ?? 0) * 100
+      } else if (daysBeforeCheckin <= strategy.activation_window && daysBeforeCheckin >= 0) {
+        if (strategy.curve_type === 'custom') {
+          const points = parseCurvePoints(strategy.curve_points)
+          const interpolation = strategy.curve_interpolation === 'stepped' ? 'stepped' : 'linear'
+          discountPercentage = points.length > 0
+            ? interpolateCurve(points, interpolation, daysBeforeCheckin) * 100
+            : 0
+        } else {
+          const curveFunction = DISCOUNT_CURVES[strategy.curve_type as keyof typeof DISCOUNT_CURVES]
+          
+          if (curveFunction) {
+            discountPercentage = curveFunction(
+              daysBeforeCheckin,
+              strategy.activation_window,
+              strategy.min_discount,
+              strategy.max_discount
+            ) * 100
+          }
         }
       }
       
@@ -352,12 +403,134 @@ export class DiscountService {
         discountPercentage,
         discountAmount,
         finalPrice,
+        appliedRule,
+        ruleEvaluations,
       })
     }
     
     return previews
   }
   
+  /**
+   * Get the active strategies get_last_minute_discount and get_early_bird_discount
+   * read for a property: its active last-minute strategy and its early-bird strategies
+   *
+   * @param propertyId - Lodgify property ID
+   * @param checkDate - Only strategies valid on this yyyy-MM-dd date, when given
+   */
+  async getLeadTimeStrategies(propertyId: string, checkDate?: string): Promise<LeadTimeStrategy[]> {
+    try {
+      const { data: property, error: propertyError } = await supabase
+        .from('properties')
+        .select('id, active_discount_strategy_id')
+        .eq('lodgify_property_id', propertyId)
+        .single()
+      
+      if (propertyError || !property) {
+        throw new ValidationError(`Property not found: ${propertyId}`)
+      }
+      
+      const filters = [`and(property_internal_id.eq.${property.id},strategy_type.eq.early_bird)`]
+      if (property.active_discount_strategy_id) {
+        filters.push(`and(strategy_id.eq.${property.active_discount_strategy_id},strategy_type.eq.last_minute)`)
+      }
+      
+      const { data: strategies, error } = await supabase
+        .from('discount_strategies')
+        .select('*')
+        .eq('is_active', true)
+        .or(filters.join(','))
+      
+      if (error) {
+        throw new DatabaseError(
+          `Failed to fetch lead time strategies: ${error.message}`,
+          'FETCH_LEAD_TIME_STRATEGIES',
+          error
+        )
+      }
+      
+      const validStrategies = ((strategies as DiscountStrategyRow[]) || []).filter(strategy => !checkDate || (
+        (!strategy.valid_from || strategy.valid_from.slice(0, 10) <= checkDate) &&
+        (!strategy.valid_until || strategy.valid_until.slice(0, 10) >= checkDate)
+      ))
+      
+      if (validStrategies.length === 0) {
+        return []
+      }
+      
+      const { data: rules, error: rulesError } = await supabase
+        .from('discount_rules')
+        .select('*')
+        .in('strategy_id', validStrategies.map(strategy => strategy.strategy_id))
+      
+      if (rulesError) {
+        throw new DatabaseError(
+          `Failed to fetch strategy rules: ${rulesError.message}`,
+          'FETCH_RULES',
+          rulesError
+        )
+      }
+      
+      return validStrategies.map(strategy => ({
+        strategy,
+        rules: ((rules as DiscountRuleRow[]) || []).filter(rule => rule.strategy_id === strategy.strategy_id)
+      }))
+    } catch (error) {
+      return this.handleDiscountError(error, 'get-lead-time-strategies')
+    }
+  }
+  
+  /**
+   * Explain, rule by rule, why each lead time discount did or didn't apply to a night
+   *
+   * @param propertyId - Lodgify property ID
+   * @param checkDate - Night as yyyy-MM-dd
+   * @param nights - Length of the stay the night belongs to
+   */
+  async explainLeadTimeRules(
+    propertyId: string,
+    checkDate: string,
+    nights: number
+  ): Promise<LeadTimeRuleExplanation[]> {
+    const strategies = await this.getLeadTimeStrategies(propertyId, checkDate)
+    const daysBeforeCheckin = differenceInCalendarDays(parseISO(checkDate), new Date())
+    
+    return strategies.map(({ strategy, rules }) => {
+      const strategyType = (strategy.strategy_type === 'early_bird' ? 'early_bird' : 'last_minute') as DiscountStrategyType
+      const { rule, evaluations } = selectDiscountRule(rules, {
+        strategyType,
+        daysBeforeCheckin,
+        nights,
+        checkDate,
+        activationWindow: strategy.activation_window
+      })
+      
+      return {
+        strategy_id: strategy.strategy_id,
+        strategy_name: strategy.strategy_name,
+        strategy_type: strategyType,
+        applied_rate: rule?.discount_percentage ?? 0,
+        rules: evaluations.map(evaluation => ({
+          rule_id: evaluation.rule.rule_id,
+          days_before_checkin: evaluation.rule.days_before_checkin,
+          discount_percentage: evaluation.rule.discount_percentage,
+          status: evaluation.status,
+          explanation: evaluation.explanation
+        }))
+      }
+    })
+  }
+  
+  /**
+   * Stay lengths at which a rule's minimum stay starts to apply for a property
+   *
+   * @param propertyId - Lodgify property ID
+   */
+  async getRuleStayBoundaries(propertyId: string): Promise<number[]> {
+    const strategies = await this.getLeadTimeStrategies(propertyId)
+    return ruleMinNightsBoundaries(strategies.flatMap(({ rules }) => rules))
+  }
+  
   /**
    * Activate or deactivate a strategy
    */
@@ -410,11 +583,27 @@ export class DiscountService {
     }
     
     if (strategy.curve_type !== undefined) {
-      if (!['aggressive', 'moderate', 'gentle'].includes(strategy.curve_type)) {
+      if (!['aggressive', 'moderate', 'gentle', 'custom'].includes(strategy.curve_type)) {
         throw new ValidationError('Invalid curve type')
       }
     }
     
+    if (strategy.curve_type === 'custom' && strategy.curve_points !== undefined) {
+      const points = strategy.curve_points ?? []
+      if (points.length < 2) {
+        throw new ValidationError('A custom curve needs at least two points')
+      }
+      if (points.some(point => point.days < 0 || point.discount < 0 || point.discount > 1)) {
+        throw new ValidationError('Curve points need non-negative days and a discount between 0% and 100%')
+      }
+    }
+    
+    if (strategy.strategy_type !== undefined) {
+      if (!['last_minute', 'early_bird'].includes(strategy.strategy_type)) {
+        throw new ValidationError('Invalid strategy type')
+      }
+    }
+    
     if (strategy.valid_from !== undefined && strategy.valid_until !== undefined) {
       if (strategy.valid_from && strategy.valid_until) {
         const from = new Date(strategy.valid_from)
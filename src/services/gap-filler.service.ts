@@ -0,0 +1,155 @@
+/**
+ * Gap Filler Service
+ *
+ * Service layer for gap-night filler settings. The discount itself is applied
+ * by get_gap_filler_discount inside calculate_final_price; the relaxed minimum
+ * stay is applied when the Lodgify payload is generated.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Database } from '@/types/database.generated'
+
+type GapFillerSettingsRow = Database['public']['Tables']['gap_filler_settings']['Row']
+type GapFillerSettingsUpdate = Database['public']['Tables']['gap_filler_settings']['Update']
+
+/**
+ * Error type for gap filler operations
+ */
+export class GapFillerError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string | null
+  ) {
+    super(message)
+    this.name = 'GapFillerError'
+  }
+}
+
+/**
+ * Editable gap filler fields
+ */
+export type GapFillerSettingsInput = Pick<
+  GapFillerSettingsRow,
+  'is_enabled' | 'max_gap_nights' | 'discount_rate'
+>
+
+/**
+ * Bounds mirror the check constraints on gap_filler_settings
+ */
+export const GAP_FILLER_LIMITS = {
+  MAX_GAP_NIGHTS: 14,
+  MAX_DISCOUNT: 0.5
+} as const
+
+export const DEFAULT_GAP_FILLER_SETTINGS: GapFillerSettingsInput = {
+  is_enabled: false,
+  max_gap_nights: 2,
+  discount_rate: 0.15
+}
+
+/**
+ * Gap Filler Service class
+ */
+export class GapFillerService {
+  /**
+   * Get the settings that apply to a property (its own row, else the portfolio default)
+   *
+   * @param propertyId - Property UUID, or null for the portfolio default
+   * @returns Settings row, or null when none has been saved yet
+   */
+  static async getSettings(propertyId: string | null = null): Promise<GapFillerSettingsRow | null> {
+    let query = supabase
+      .from('gap_filler_settings')
+      .select('*')
+
+    query = propertyId
+      ? query.or(`property_internal_id.eq.${propertyId},property_internal_id.is.null`)
+      : query.is('property_internal_id', null)
+
+    const { data, error } = await query
+      .order('property_internal_id', { ascending: true, nullsFirst: false })
+      .limit(1)
+
+    if (error) {
+      throw new GapFillerError(
+        `Failed to fetch gap filler settings: ${error.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    return data?.[0] ?? null
+  }
+
+  /**
+   * Save settings for a property, or the portfolio default when propertyId is null
+   *
+   * @throws GapFillerError when a value is out of bounds or the save fails
+   */
+  static async saveSettings(
+    settings: GapFillerSettingsInput,
+    propertyId: string | null = null
+  ): Promise<GapFillerSettingsRow> {
+    const validationError = this.validateSettings(settings)
+    if (validationError) {
+      throw new GapFillerError(validationError, 'INVALID_SETTINGS', propertyId)
+    }
+
+    const { data: existing, error: fetchError } = await (propertyId
+      ? supabase.from('gap_filler_settings').select('settings_id').eq('property_internal_id', propertyId)
+      : supabase.from('gap_filler_settings').select('settings_id').is('property_internal_id', null))
+
+    if (fetchError) {
+      throw new GapFillerError(
+        `Failed to fetch gap filler settings: ${fetchError.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    const values: GapFillerSettingsUpdate = { ...settings }
+
+    const { data, error } = existing && existing.length > 0
+      ? await supabaseAdmin
+          .from('gap_filler_settings')
+          .update(values)
+          .eq('settings_id', existing[0].settings_id)
+          .select('*')
+          .single()
+      : await supabaseAdmin
+          .from('gap_filler_settings')
+          .insert({ ...settings, property_internal_id: propertyId })
+          .select('*')
+          .single()
+
+    if (error || !data) {
+      throw new GapFillerError(
+        `Failed to save gap filler settings: ${error?.message ?? 'no row returned'}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    return data
+  }
+
+  /**
+   * Validate settings against the database bounds
+   *
+   * @returns Error message, or null when the settings are valid
+   */
+  static validateSettings(settings: GapFillerSettingsInput): string | null {
+    const { max_gap_nights, discount_rate } = settings
+
+    if (!Number.isInteger(max_gap_nights) || max_gap_nights < 1 || max_gap_nights > GAP_FILLER_LIMITS.MAX_GAP_NIGHTS) {
+      return `Maximum gap must be between 1 and ${GAP_FILLER_LIMITS.MAX_GAP_NIGHTS} nights`
+    }
+
+    if (!Number.isFinite(discount_rate) || discount_rate < 0 || discount_rate > GAP_FILLER_LIMITS.MAX_DISCOUNT) {
+      return `Filler discount must be between 0% and ${GAP_FILLER_LIMITS.MAX_DISCOUNT * 100}%`
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Guest Fee Service
+ *
+ * Service layer for per-property guest capacity and extra guest fees.
+ * Nightly prices cover base_occupancy guests; each guest above that pays
+ * extra_guest_fee per night, which seasonal periods may override
+ * (resolved per night by get_extra_guest_fees).
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Property } from '@/types/database'
+import { toExtraGuestFees } from '../../supabase/functions/_shared/lodgifyGuestFees.ts'
+
+/**
+ * Error type for guest fee operations
+ */
+export class GuestFeeError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'GuestFeeError'
+  }
+}
+
+/**
+ * Editable capacity and fee fields of a property
+ */
+export type GuestSettings = Pick<Property, 'base_occupancy' | 'max_guests' | 'extra_guest_fee'>
+
+/**
+ * Extra guest charge for a stay
+ */
+export interface ExtraGuestQuote {
+  guests: number
+  extraGuests: number
+  extraGuestTotal: number
+}
+
+/**
+ * Bounds mirror the check constraints on properties
+ */
+export const GUEST_SETTINGS_LIMITS = {
+  MAX_GUESTS: 50,
+  MAX_FEE: 1000
+} as const
+
+/**
+ * Guest Fee Service class
+ */
+export class GuestFeeService {
+  /**
+   * Load the capacity and fee of a property
+   *
+   * @param propertyId - Property UUID (properties.id)
+   */
+  static async getSettings(propertyId: string): Promise<GuestSettings> {
+    if (!propertyId) {
+      throw new GuestFeeError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const { data, error } = await supabase
+      .from('properties')
+      .select('base_occupancy, max_guests, extra_guest_fee')
+      .eq('id', propertyId)
+      .single()
+
+    if (error || !data) {
+      throw new GuestFeeError(
+        `Failed to fetch guest settings: ${error?.message ?? 'property not found'}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    return {
+      base_occupancy: data.base_occupancy,
+      max_guests: data.max_guests,
+      extra_guest_fee: Number(data.extra_guest_fee)
+    }
+  }
+
+  /**
+   * Save the capacity and fee of a property
+   *
+   * @throws GuestFeeError when a value is out of bounds or the save fails
+   */
+  static async saveSettings(propertyId: string, settings: GuestSettings): Promise<GuestSettings> {
+    if (!propertyId) {
+      throw new GuestFeeError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const validationError = this.validateSettings(settings)
+    if (validationError) {
+      throw new GuestFeeError(validationError, 'INVALID_SETTINGS', propertyId)
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('properties')
+      .update({
+        base_occupancy: settings.base_occupancy,
+        max_guests: settings.max_guests,
+        // Database stores 2 decimal places
+        extra_guest_fee: Math.round(settings.extra_guest_fee * 100) / 100
+      })
+      .eq('id', propertyId)
+      .select('base_occupancy, max_guests, extra_guest_fee')
+      .single()
+
+    if (error || !data) {
+      throw new GuestFeeError(
+        `Failed to save guest settings: ${error?.message ?? 'no row returned'}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    return {
+      base_occupancy: data.base_occupancy,
+      max_guests: data.max_guests,
+      extra_guest_fee: Number(data.extra_guest_fee)
+    }
+  }
+
+  /**
+   * Load the extra guest fee for each night of a range
+   *
+   * @param propertyId - Property UUID (properties.id)
+   * @returns Map keyed by YYYY-MM-DD
+   */
+  static async getFeesByDate(
+    propertyId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Map<string, number>> {
+    const { data, error } = await supabase.rpc('get_extra_guest_fees', {
+      p_property_internal_id: propertyId,
+      p_start_date: startDate,
+      p_end_date: endDate
+    })
+
+    if (error) {
+      throw new GuestFeeError(
+        `Failed to fetch extra guest fees: ${error.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    return toExtraGuestFees(data)
+  }
+
+  /**
+   * Load capacity and nightly fees for a stay by Lodgify property ID
+   *
+   * @param lodgifyPropertyId - TEXT lodgify_property_id, as used by the calendar
+   * @param checkDate - Arrival date (YYYY-MM-DD)
+   */
+  static async getStayFeesByLodgifyId(
+    lodgifyPropertyId: string,
+    checkDate: string,
+    nights: number
+  ): Promise<{ settings: GuestSettings; nightlyFees: number[] }> {
+    const { data, error } = await supabase
+      .from('properties')
+      .select('id, base_occupancy, max_guests, extra_guest_fee')
+      .eq('lodgify_property_id', lodgifyPropertyId)
+      .maybeSingle()
+
+    if (error || !data) {
+      throw new GuestFeeError(
+        `Property not found: ${lodgifyPropertyId}`,
+        'PROPERTY_NOT_FOUND',
+        lodgifyPropertyId
+      )
+    }
+
+    const lastNight = new Date(`${checkDate}T00:00:00Z`)
+    lastNight.setUTCDate(lastNight.getUTCDate() + Math.max(nights, 1) - 1)
+
+    const fees = await this.getFeesByDate(data.id, checkDate, lastNight.toISOString().split('T')[0])
+
+    return {
+      settings: {
+        base_occupancy: data.base_occupancy,
+        max_guests: data.max_guests,
+        extra_guest_fee: Number(data.extra_guest_fee)
+      },
+      nightlyFees: Array.from(fees.values())
+    }
+  }
+
+  /**
+   * Extra guest charge for a stay, given the fee of each night
+   */
+  static quoteExtraGuests(
+    settings: GuestSettings,
+    guests: number,
+    nightlyFees: number[]
+  ): ExtraGuestQuote {
+    const extraGuests = Math.max(0, guests - settings.base_occupancy)
+    const feeTotal = nightlyFees.reduce((sum, fee) => sum + fee, 0)
+
+    return {
+      guests,
+      extraGuests,
+      extraGuestTotal: Math.round(extraGuests * feeTotal * 100) / 100
+    }
+  }
+
+  /**
+   * First guest that pays the extra fee, as sent to Lodgify
+   */
+  static additionalGuestsStartFrom(settings: Pick<GuestSettings, 'base_occupancy'>): number {
+    return settings.base_occupancy + 1
+  }
+
+  /**
+   * Validate capacity and fee against the database bounds
+   *
+   * @returns Error message, or null when the settings are valid
+   */
+  static validateSettings(settings: GuestSettings): string | null {
+    const { base_occupancy, max_guests, extra_guest_fee } = settings
+    const { MAX_GUESTS, MAX_FEE } = GUEST_SETTINGS_LIMITS
+
+    if (!Number.isInteger(base_occupancy) || base_occupancy < 1 || base_occupancy > MAX_GUESTS) {
+      return `Base occupancy must be a whole number between 1 and ${MAX_GUESTS}`
+    }
+
+    if (!Number.isInteger(max_guests) || max_guests < 1 || max_guests > MAX_GUESTS) {
+      return `Maximum guests must be a whole number between 1 and ${MAX_GUESTS}`
+    }
+
+    if (max_guests < base_occupancy) {
+      return 'Maximum guests cannot be lower than base occupancy'
+    }
+
+    if (!Number.isFinite(extra_guest_fee) || extra_guest_fee < 0 || extra_guest_fee > MAX_FEE) {
+      return `Extra guest fee must be between €0 and €${MAX_FEE}`
+    }
+
+    return null
+  }
+}
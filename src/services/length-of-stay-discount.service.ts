@@ -0,0 +1,245 @@
+/**
+ * Length-of-Stay Discount Service
+ *
+ * Service layer for per-property stay-length discount tiers
+ * (e.g. 7+ nights -10%, 28+ nights -25%). The discount itself is applied
+ * by calculate_final_price after the last-minute discount.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Database } from '@/types/database.generated'
+import type { StayLengthCategory } from '@/types/lodgify'
+
+type LengthOfStayDiscountInsert = Database['public']['Tables']['property_length_of_stay_discounts']['Insert']
+
+/**
+ * Error type for length-of-stay discount operations
+ */
+export class LengthOfStayDiscountError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'LengthOfStayDiscountError'
+  }
+}
+
+/**
+ * A single tier: stays of at least minNights get discountRate off each night
+ */
+export interface LengthOfStayTier {
+  minNights: number
+  discountRate: number  // 0.10 = 10% off
+}
+
+/**
+ * Bounds mirror the check constraints on property_length_of_stay_discounts
+ */
+export const LENGTH_OF_STAY_LIMITS = {
+  MIN_NIGHTS: 2,
+  MAX_NIGHTS: 365,
+  MAX_DISCOUNT: 0.5
+} as const
+
+/**
+ * Length-of-Stay Discount Service class
+ */
+export class LengthOfStayDiscountService {
+  /**
+   * Load the discount tiers for a property, ordered by minimum nights
+   *
+   * @param propertyId - Property UUID (properties.id)
+   */
+  static async getTiers(propertyId: string): Promise<LengthOfStayTier[]> {
+    if (!propertyId) {
+      throw new LengthOfStayDiscountError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const { data, error } = await supabase
+      .from('property_length_of_stay_discounts')
+      .select('min_nights, discount_rate')
+      .eq('property_internal_id', propertyId)
+      .order('min_nights', { ascending: true })
+
+    if (error) {
+      throw new LengthOfStayDiscountError(
+        `Failed to fetch length-of-stay discounts: ${error.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    return (data || []).map(row => ({
+      minNights: row.min_nights,
+      discountRate: Number(row.discount_rate)
+    }))
+  }
+
+  /**
+   * Load the discount tiers for a property by its Lodgify property ID
+   *
+   * @param lodgifyPropertyId - TEXT lodgify_property_id, as used by the calendar
+   */
+  static async getTiersByLodgifyId(lodgifyPropertyId: string): Promise<LengthOfStayTier[]> {
+    const { data, error } = await supabase
+      .from('properties')
+      .select('id')
+      .eq('lodgify_property_id', lodgifyPropertyId)
+      .maybeSingle()
+
+    if (error || !data) {
+      throw new LengthOfStayDiscountError(
+        `Property not found: ${lodgifyPropertyId}`,
+        'PROPERTY_NOT_FOUND',
+        lodgifyPropertyId
+      )
+    }
+
+    return this.getTiers(data.id)
+  }
+
+  /**
+   * Replace all discount tiers for a property
+   *
+   * @param propertyId - Property UUID (properties.id)
+   * @param tiers - Complete tier list; an empty list removes all tiers
+   * @throws LengthOfStayDiscountError when a tier is invalid or the save fails
+   */
+  static async saveTiers(
+    propertyId: string,
+    tiers: LengthOfStayTier[]
+  ): Promise<LengthOfStayTier[]> {
+    if (!propertyId) {
+      throw new LengthOfStayDiscountError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const validationError = this.validateTiers(tiers)
+    if (validationError) {
+      throw new LengthOfStayDiscountError(validationError, 'INVALID_TIER', propertyId)
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('property_length_of_stay_discounts')
+      .delete()
+      .eq('property_internal_id', propertyId)
+
+    if (deleteError) {
+      throw new LengthOfStayDiscountError(
+        `Failed to replace length-of-stay discounts: ${deleteError.message}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    const sorted = [...tiers].sort((a, b) => a.minNights - b.minNights)
+    if (sorted.length === 0) {
+      return []
+    }
+
+    const rows: LengthOfStayDiscountInsert[] = sorted.map(tier => ({
+      property_internal_id: propertyId,
+      min_nights: tier.minNights,
+      // Database stores 4 decimal places
+      discount_rate: Math.round(tier.discountRate * 10000) / 10000
+    }))
+
+    const { error } = await supabaseAdmin
+      .from('property_length_of_stay_discounts')
+      .insert(rows)
+
+    if (error) {
+      throw new LengthOfStayDiscountError(
+        `Failed to save length-of-stay discounts: ${error.message}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    return rows.map(row => ({ minNights: row.min_nights, discountRate: row.discount_rate }))
+  }
+
+  /**
+   * Validate tiers against the database bounds
+   *
+   * @returns Error message, or null when all tiers are valid
+   */
+  static validateTiers(tiers: LengthOfStayTier[]): string | null {
+    const seen = new Set<number>()
+
+    for (const tier of tiers) {
+      if (!Number.isInteger(tier.minNights) ||
+          tier.minNights < LENGTH_OF_STAY_LIMITS.MIN_NIGHTS ||
+          tier.minNights > LENGTH_OF_STAY_LIMITS.MAX_NIGHTS) {
+        return `Minimum nights must be a whole number between ${LENGTH_OF_STAY_LIMITS.MIN_NIGHTS} and ${LENGTH_OF_STAY_LIMITS.MAX_NIGHTS}`
+      }
+      if (!Number.isFinite(tier.discountRate) ||
+          tier.discountRate <= 0 ||
+          tier.discountRate > LENGTH_OF_STAY_LIMITS.MAX_DISCOUNT) {
+        return `${tier.minNights}+ nights discount must be above 0% and at most ${LENGTH_OF_STAY_LIMITS.MAX_DISCOUNT * 100}%`
+      }
+      if (seen.has(tier.minNights)) {
+        return `Only one tier can start at ${tier.minNights} nights`
+      }
+      seen.add(tier.minNights)
+    }
+
+    return null
+  }
+
+  /**
+   * Find the tier a stay qualifies for (highest minNights reached), mirroring
+   * get_length_of_stay_discount
+   */
+  static findApplicableTier(tiers: LengthOfStayTier[], nights: number): LengthOfStayTier | null {
+    return tiers
+      .filter(tier => tier.minNights <= nights)
+      .reduce<LengthOfStayTier | null>(
+        (best, tier) => (!best || tier.minNights > best.minNights ? tier : best),
+        null
+      )
+  }
+
+  /**
+   * Split stay length categories at tier boundaries so every category falls
+   * within a single tier. Each part is priced at the category's representative
+   * stay length, clamped into the part's range.
+   */
+  static splitStayCategories(
+    categories: StayLengthCategory[],
+    tiers: LengthOfStayTier[]
+  ): StayLengthCategory[] {
+    return this.splitStayCategoriesAt(categories, tiers.map(tier => tier.minNights))
+  }
+
+  /**
+   * Split stay length categories so that each boundary (a stay length in nights)
+   * starts a new category
+   */
+  static splitStayCategoriesAt(
+    categories: StayLengthCategory[],
+    boundaries: number[]
+  ): StayLengthCategory[] {
+    return categories.flatMap(category => {
+      const cuts = boundaries
+        .filter(nights => nights > category.minStay && nights <= category.maxStay)
+        .sort((a, b) => a - b)
+
+      if (cuts.length === 0) {
+        return [category]
+      }
+
+      const starts = [category.minStay, ...cuts]
+      return starts.map((minStay, index) => {
+        const maxStay = index < cuts.length ? cuts[index] - 1 : category.maxStay
+        return {
+          name: maxStay >= 1000 ? `${minStay}+ nights` : `${minStay}-${maxStay} nights`,
+          minStay,
+          maxStay,
+          stayLength: Math.min(Math.max(category.stayLength, minStay), maxStay)
+        }
+      })
+    })
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Lodgify Integration Service
+ *
+ * Service layer for per-property Lodgify integrations. API keys are written
+ * through store_api_key, which encrypts them; they are never read back here.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { LodgifyIntegration } from '@/types/database.types'
+import { testLodgifyConnection } from './lodgify/lodgifyApiClient'
+import { invalidateCachedKey } from './lodgify/lodgifyAuth'
+import type { LodgifySyncResult } from './lodgify/lodgifyTypes'
+
+/**
+ * Integration row without the encrypted key
+ */
+export type LodgifyIntegrationSummary = Omit<LodgifyIntegration, 'encrypted_api_key'>
+
+/**
+ * Editable integration fields
+ */
+export type LodgifyIntegrationInput = Pick<
+  LodgifyIntegration,
+  'lodgify_property_id' | 'lodgify_room_type_id' | 'is_active' | 'sync_enabled'
+>
+
+const SUMMARY_COLUMNS =
+  'integration_id, property_internal_id, lodgify_property_id, lodgify_room_type_id, is_active, sync_enabled, last_sync, sync_status, created_at, updated_at'
+
+/**
+ * Error type for Lodgify integration operations
+ */
+export class LodgifyIntegrationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'LodgifyIntegrationError'
+  }
+}
+
+/**
+ * Lodgify Integration Service class
+ */
+export class LodgifyIntegrationService {
+  /**
+   * Get all integrations, keyed by property UUID
+   */
+  static async getIntegrations(): Promise<Map<string, LodgifyIntegrationSummary>> {
+    const { data, error } = await supabase
+      .from('lodgify_integrations')
+      .select(SUMMARY_COLUMNS)
+
+    if (error) {
+      throw new LodgifyIntegrationError(
+        `Failed to fetch Lodgify integrations: ${error.message}`,
+        'FETCH_ERROR'
+      )
+    }
+
+    return new Map((data ?? []).map(integration => [integration.property_internal_id, integration]))
+  }
+
+  /**
+   * Validate integration fields
+   *
+   * @returns Error message, or null when valid
+   */
+  static validateInput(input: LodgifyIntegrationInput, apiKey: string | null, isNew: boolean): string | null {
+    if (!Number.isInteger(input.lodgify_property_id) || input.lodgify_property_id <= 0) {
+      return 'Lodgify property ID must be a positive whole number'
+    }
+    if (!Number.isInteger(input.lodgify_room_type_id) || input.lodgify_room_type_id <= 0) {
+      return 'Room type ID must be a positive whole number'
+    }
+    if (isNew && !apiKey) {
+      return 'An API key is required to connect a property'
+    }
+    return null
+  }
+
+  /**
+   * Create or update a property's integration
+   *
+   * @param propertyId - Property UUID
+   * @param input - Integration fields
+   * @param apiKey - New API key, or null to keep the stored one
+   */
+  static async saveIntegration(
+    propertyId: string,
+    input: LodgifyIntegrationInput,
+    apiKey: string | null
+  ): Promise<LodgifyIntegrationSummary> {
+    // store_api_key creates the integration row when the property has none
+    if (apiKey) {
+      await this.rotateApiKey(propertyId, apiKey)
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('lodgify_integrations')
+      .update({
+        lodgify_property_id: input.lodgify_property_id,
+        lodgify_room_type_id: input.lodgify_room_type_id,
+        is_active: input.is_active,
+        sync_enabled: input.sync_enabled,
+        updated_at: new Date().toISOString()
+      })
+      .eq('property_internal_id', propertyId)
+      .select(SUMMARY_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      throw new LodgifyIntegrationError(
+        `Failed to save Lodgify integration: ${error.message}`,
+        'SAVE_ERROR',
+        propertyId
+      )
+    }
+
+    if (!data) {
+      throw new LodgifyIntegrationError(
+        'No Lodgify integration exists for this property; enter an API key to create it',
+        'NOT_FOUND',
+        propertyId
+      )
+    }
+
+    return data
+  }
+
+  /**
+   * Store a new API key for a property, replacing the current one
+   * The cached key is dropped at once so the next sync uses the new key
+   *
+   * @returns integration_id of the property's integration
+   */
+  static async rotateApiKey(propertyId: string, apiKey: string): Promise<string> {
+    const { data, error } = await supabaseAdmin.rpc('store_api_key', {
+      p_property_id: propertyId,
+      p_api_key: apiKey
+    })
+
+    invalidateCachedKey(propertyId)
+
+    if (error) {
+      throw new LodgifyIntegrationError(
+        `Failed to store API key: ${error.message}`,
+        'KEY_STORE_ERROR',
+        propertyId
+      )
+    }
+
+    return data
+  }
+
+  /**
+   * Push the property's default rate to Lodgify to check the key and IDs
+   */
+  static async testConnection(propertyId: string): Promise<LodgifySyncResult> {
+    return testLodgifyConnection(propertyId)
+  }
+}
@@ -12,6 +12,7 @@ import {
   BatchSyncPayload,
   BatchSyncResult,
   LodgifyApiError,
+  LodgifyPayload,
   LODGIFY_API_CONSTANTS,
   isTimeoutError
 } from './lodgifyTypes'
@@ -19,6 +20,10 @@ import { buildAuthHeaders, getIntegrationConfig } from './lodgifyAuth'
 import { validateLodgifyPayload, sanitizeLodgifyPayload } from './lodgifyValidation'
 import { makeRequestWithRetry, createTimeoutSignal } from './lodgifyRetry'
 import { logger } from './lodgifyLogger'
+import { getPushedRates, savePushedRates } from './lodgifyRateSnapshot'
+import { diffLodgifyRates, buildDeltaPayload, toRateChangeSummary } from '@/utils/lodgifyRateDiff'
+import { supabaseAdmin } from '@/lib/supabase'
+import type { Json, TablesUpdate } from '@/types/database.types'
 
 /**
  * Default sync options
@@ -26,11 +31,64 @@ import { logger } from './lodgifyLogger'
 const DEFAULT_SYNC_OPTIONS: SyncOptions = {
   timeout: LODGIFY_API_CONSTANTS.DEFAULT_TIMEOUT,
   maxRetries: LODGIFY_API_CONSTANTS.MAX_RETRIES,
-  validatePayload: true
+  validatePayload: true,
+  fullSync: false
+}
+
+/**
+ * Operation type of syncs started from the app (hourly ones are 'scheduled')
+ */
+export const MANUAL_SYNC_OPERATION = 'manual'
+
+/**
+ * Creates the sync_operations row for a sync
+ * A failure only costs the history entry, never the sync
+ */
+async function startSyncOperation(propertyId: string, options: SyncOptions): Promise<string | undefined> {
+  const { data, error } = await supabaseAdmin
+    .from('sync_operations')
+    .insert({
+      property_id: propertyId,
+      operation_type: MANUAL_SYNC_OPERATION,
+      status: 'processing',
+      trigger_source: options.triggerSource ?? 'manual',
+      trigger_details: options.rerunOf ? { rerun_of: options.rerunOf } : null,
+      max_retries: 0, // Manual syncs are not retried by the job queue
+      started_at: new Date().toISOString()
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Failed to create sync operation record:', error)
+  }
+  return data?.id
+}
+
+/**
+ * Records the outcome of a sync on its sync_operations row
+ */
+async function finishSyncOperation(
+  syncOperationId: string | undefined,
+  record: TablesUpdate<'sync_operations'>
+): Promise<void> {
+  if (!syncOperationId) return
+
+  const { error } = await supabaseAdmin
+    .from('sync_operations')
+    .update({ ...record, completed_at: new Date().toISOString() })
+    .eq('id', syncOperationId)
+
+  if (error) {
+    console.error('Failed to update sync operation record:', error)
+  }
 }
 
 /**
  * Main function to sync pricing data to Lodgify
+ * Only the ranges that changed since the last successful push are sent,
+ * unless fullSync is set or the default rate changed
+ * Every call is recorded in sync_operations, including the payload sent
  * 
  * @param propertyId - UUID of the property in database
  * @param pricingPayload - Payload generated by Task 14a
@@ -45,6 +103,8 @@ export async function syncPricingToLodgify(
   const syncOptions = { ...DEFAULT_SYNC_OPTIONS, ...options }
   const startTime = Date.now()
   let retryCount = 0
+  const syncOperationId = await startSyncOperation(propertyId, syncOptions)
+  const record: TablesUpdate<'sync_operations'> = {}
 
   try {
     // Check if integration is enabled
@@ -83,6 +143,35 @@ export async function syncPricingToLodgify(
       }
     }
 
+    // Compare with the rates Lodgify last accepted
+    const fullPayload = sanitizedPayload as LodgifyPayload
+    const previousRates = syncOptions.fullSync ? null : await getPushedRates(propertyId)
+    const diff = diffLodgifyRates(previousRates, fullPayload)
+    const outgoingPayload = buildDeltaPayload(fullPayload, diff)
+    const changes = toRateChangeSummary(diff, diff.mode === 'unchanged' ? 0 : outgoingPayload.rates.length)
+    record.sync_mode = diff.mode
+    record.change_summary = changes as unknown as Json
+    record.total_records = changes.rates_sent
+
+    if (diff.mode === 'unchanged') {
+      await finishSyncOperation(syncOperationId, {
+        ...record,
+        status: 'completed',
+        duration_ms: Date.now() - startTime
+      })
+
+      return {
+        success: true,
+        propertyId,
+        message: 'No rate changes since the last sync; nothing sent',
+        timestamp: new Date().toISOString(),
+        retryCount,
+        duration: Date.now() - startTime,
+        changes,
+        syncOperationId
+      }
+    }
+
     // Build authentication headers
     const headers = await buildAuthHeaders(propertyId)
 
@@ -90,7 +179,12 @@ export async function syncPricingToLodgify(
     const apiUrl = integrationConfig?.apiEndpoint || LODGIFY_API_CONSTANTS.ENDPOINT
 
     // Log the outgoing request
-    logger.logRequest(propertyId, apiUrl, headers, sanitizedPayload)
+    logger.logRequest(propertyId, apiUrl, headers, outgoingPayload)
+    const body = JSON.stringify(outgoingPayload)
+    record.api_endpoint = apiUrl
+    record.api_method = 'POST'
+    record.request_payload = outgoingPayload as unknown as Json
+    record.payload_size_kb = Math.ceil(body.length / 1024)
 
     // Create timeout signal
     const timeoutSignal = createTimeoutSignal(syncOptions.timeout || LODGIFY_API_CONSTANTS.DEFAULT_TIMEOUT)
@@ -101,7 +195,7 @@ export async function syncPricingToLodgify(
       {
         method: 'POST',
         headers: headers,
-        body: JSON.stringify(sanitizedPayload),
+        body,
         signal: timeoutSignal
       },
       {
@@ -131,6 +225,8 @@ export async function syncPricingToLodgify(
       responseText.length,
       responseData
     )
+    record.api_status_code = response.status
+    record.api_response = responseData
 
     // Check for success
     if (!response.ok) {
@@ -143,15 +239,26 @@ export async function syncPricingToLodgify(
       )
     }
 
+    // Lodgify now holds the full rate set; it is the baseline for the next diff
+    await savePushedRates(propertyId, fullPayload, syncOperationId)
+    await finishSyncOperation(syncOperationId, {
+      ...record,
+      status: 'completed',
+      processed_records: changes.rates_sent,
+      duration_ms: duration
+    })
+
     return {
       success: true,
       propertyId,
       statusCode: response.status,
-      message: responseData?.message || 'Pricing data successfully synced to Lodgify',
+      message: responseData?.message || `Pricing data successfully synced to Lodgify (${diff.summary})`,
       requestId: responseData?.requestId,
       timestamp: new Date().toISOString(),
       retryCount,
-      duration
+      duration,
+      changes,
+      syncOperationId
     }
 
   } catch (error) {
@@ -192,6 +299,19 @@ export async function syncPricingToLodgify(
       errorMessage = String(error)
     }
 
+    await finishSyncOperation(syncOperationId, {
+      ...record,
+      status: 'failed',
+      error_message: errorMessage,
+      error_details: {
+        type: errorType,
+        recoverable,
+        details: error instanceof LodgifyApiError ? (error.details as Json) ?? null : null
+      },
+      api_status_code: record.api_status_code ?? (error instanceof LodgifyApiError ? error.statusCode : null),
+      duration_ms: duration
+    })
+
     return {
       success: false,
       propertyId,
@@ -199,6 +319,7 @@ export async function syncPricingToLodgify(
       timestamp: new Date().toISOString(),
       retryCount,
       duration,
+      syncOperationId,
       error: {
         type: errorType,
         details: errorMessage,
@@ -327,6 +448,7 @@ export async function testLodgifyConnection(propertyId: string): Promise<Lodgify
   console.log('Testing Lodgify connection with minimal payload...')
   return syncPricingToLodgify(propertyId, testPayload, {
     validatePayload: true,
+    fullSync: true, // Never diff the minimal payload against real rates
     maxRetries: 0, // No retries for test
     timeout: 10000 // 10 second timeout for test
   })
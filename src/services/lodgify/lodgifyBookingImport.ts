@@ -0,0 +1,374 @@
+/**
+ * Lodgify Booking Import Module
+ *
+ * Fetches reservations from Lodgify and upserts them into bookings by
+ * booking_id, so occupancy, gap detection and availability see current
+ * bookings. Each run is recorded in sync_operations as a 'booking_import'.
+ *
+ * The lodgify-sync-automation edge function imports bookings the same way
+ * before pushing rates, with the status mapping from supabase/functions/_shared.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Json, TablesInsert } from '@/types/database.types'
+import {
+  BookingImportOptions,
+  BookingImportResult,
+  LodgifyApiError,
+  LodgifyReservation,
+  LodgifyReservationPage,
+  LodgifySyncError,
+  LODGIFY_API_CONSTANTS
+} from './lodgifyTypes'
+import { buildAuthHeaders } from './lodgifyAuth'
+import { makeRequestWithRetry, createTimeoutSignal } from './lodgifyRetry'
+import { logger } from './lodgifyLogger'
+import {
+  mapLodgifyBookingStatus,
+  describeUnknownBookingStatus
+} from '../../../supabase/functions/_shared/lodgifyBookingStatus.ts'
+
+export { mapLodgifyBookingStatus }
+
+type BookingInsert = TablesInsert<'bookings'>
+
+export const BOOKING_IMPORT_OPERATION = 'booking_import'
+
+// Safety stop for paging; 200 pages of 50 is far more than one property holds
+const MAX_PAGES = 200
+const LOOKUP_CHUNK_SIZE = 100
+
+/**
+ * Human summary of an import, e.g. "2 new, 1 cancelled (14 reservations checked)"
+ */
+export function formatBookingImportSummary(
+  result: Pick<BookingImportResult, 'fetched' | 'created' | 'updated' | 'cancelled' | 'failed'>
+): string {
+  const parts: string[] = []
+  if (result.created > 0) parts.push(`${result.created} new`)
+  // Cancellations are updates too; list them on their own
+  const otherUpdates = result.updated - result.cancelled
+  if (otherUpdates > 0) parts.push(`${otherUpdates} updated`)
+  if (result.cancelled > 0) parts.push(`${result.cancelled} cancelled`)
+  if (result.failed > 0) parts.push(`${result.failed} failed`)
+
+  const checked = `${result.fetched} reservation${result.fetched === 1 ? '' : 's'} checked`
+  return parts.length > 0 ? `${parts.join(', ')} (${checked})` : `No booking changes (${checked})`
+}
+
+/**
+ * Start of the previous successful import; reservations updated since then are fetched
+ */
+async function getLastImportTime(propertyId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('sync_operations')
+    .select('started_at')
+    .eq('property_id', propertyId)
+    .eq('operation_type', BOOKING_IMPORT_OPERATION)
+    .eq('status', 'completed')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error reading last booking import:', error)
+    return null
+  }
+
+  return data?.started_at ?? null
+}
+
+/**
+ * Fetches all reservation pages for a property
+ */
+async function fetchReservations(
+  propertyId: string,
+  lodgifyPropertyId: string,
+  updatedSince: string | null,
+  options: BookingImportOptions
+): Promise<LodgifyReservation[]> {
+  const headers = await buildAuthHeaders(propertyId)
+  const reservations: LodgifyReservation[] = []
+  const pageSize = LODGIFY_API_CONSTANTS.RESERVATIONS_PAGE_SIZE
+
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const params = new URLSearchParams({
+      page: String(page),
+      size: String(pageSize),
+      includeCount: 'false',
+      includeExternal: 'true',
+      stayFilter: 'All'
+    })
+    if (updatedSince) {
+      params.set('updatedSince', updatedSince)
+    }
+
+    const url = `${LODGIFY_API_CONSTANTS.RESERVATIONS_ENDPOINT}?${params.toString()}`
+    logger.logRequest(propertyId, url, headers, null)
+
+    const startTime = Date.now()
+    const response = await makeRequestWithRetry(
+      url,
+      {
+        method: 'GET',
+        headers,
+        signal: createTimeoutSignal(options.timeout || LODGIFY_API_CONSTANTS.DEFAULT_TIMEOUT)
+      },
+      {
+        maxRetries: options.maxRetries ?? LODGIFY_API_CONSTANTS.MAX_RETRIES,
+        baseDelay: LODGIFY_API_CONSTANTS.BASE_DELAY,
+        maxDelay: LODGIFY_API_CONSTANTS.MAX_DELAY,
+        retryableStatuses: LODGIFY_API_CONSTANTS.RETRYABLE_STATUSES
+      }
+    )
+
+    const responseText = await response.text()
+    logger.logResponse(propertyId, response.status, Date.now() - startTime, responseText.length, null)
+
+    let body: LodgifyReservationPage
+    try {
+      body = responseText ? JSON.parse(responseText) : { items: [] }
+    } catch (e) {
+      throw new LodgifyApiError('Lodgify returned an unreadable reservations page', 'api', response.status, false)
+    }
+
+    const items = Array.isArray(body.items) ? body.items : []
+    // An account key can see every property on the account; keep this property's reservations
+    reservations.push(...items.filter(item => String(item.property_id) === lodgifyPropertyId))
+
+    if (items.length < pageSize) {
+      break
+    }
+  }
+
+  return reservations
+}
+
+/**
+ * Current bookings rows for the given booking IDs, keyed by booking_id
+ */
+async function getExistingBookings(bookingIds: string[]) {
+  const existing = new Map<string, BookingInsert>()
+
+  for (let i = 0; i < bookingIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('booking_id, property_id, property_internal_id, arrival_date, departure_date, guest_name, total_price, booking_status')
+      .in('booking_id', bookingIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to read existing bookings: ${error.message}`)
+    }
+
+    for (const row of data || []) {
+      existing.set(row.booking_id, row)
+    }
+  }
+
+  return existing
+}
+
+const isSameBooking = (a: BookingInsert, b: BookingInsert): boolean =>
+  a.arrival_date === b.arrival_date &&
+  a.departure_date === b.departure_date &&
+  a.guest_name === b.guest_name &&
+  (a.total_price ?? null) === (b.total_price ?? null) &&
+  a.booking_status === b.booking_status
+
+/**
+ * Imports a property's Lodgify reservations into bookings
+ *
+ * @param propertyId - UUID of the property in database
+ * @param options - Import options (optional)
+ * @returns Import result with counts and a readable summary
+ */
+export async function importLodgifyBookings(
+  propertyId: string,
+  options: BookingImportOptions = {}
+): Promise<BookingImportResult> {
+  const startTime = Date.now()
+  const startedAt = new Date().toISOString()
+  const result: BookingImportResult = {
+    success: false,
+    propertyId,
+    fetched: 0,
+    created: 0,
+    updated: 0,
+    cancelled: 0,
+    unchanged: 0,
+    failed: 0,
+    failures: [],
+    summary: '',
+    timestamp: startedAt,
+    duration: 0
+  }
+
+  const { data: syncOp, error: syncOpError } = await supabaseAdmin
+    .from('sync_operations')
+    .insert({
+      property_id: propertyId,
+      operation_type: BOOKING_IMPORT_OPERATION,
+      status: 'processing',
+      trigger_source: options.triggerSource ?? 'manual',
+      trigger_details: options.rerunOf ? { rerun_of: options.rerunOf } : null,
+      api_endpoint: LODGIFY_API_CONSTANTS.RESERVATIONS_ENDPOINT,
+      api_method: 'GET',
+      started_at: startedAt
+    })
+    .select('id')
+    .single()
+
+  if (syncOpError) {
+    console.error('Failed to create booking import record:', syncOpError)
+  }
+  result.syncOperationId = syncOp?.id
+
+  let updatedSince: string | null = null
+
+  try {
+    const { data: property, error: propertyError } = await supabase
+      .from('properties')
+      .select('id, lodgify_property_id')
+      .eq('id', propertyId)
+      .single()
+
+    if (propertyError || !property) {
+      throw new LodgifyApiError(`Property not found: ${propertyId}`, 'validation', undefined, false)
+    }
+
+    updatedSince = options.fullImport ? null : await getLastImportTime(propertyId)
+    const reservations = await fetchReservations(propertyId, property.lodgify_property_id, updatedSince, options)
+    result.fetched = reservations.length
+
+    const incoming: BookingInsert[] = []
+    for (const reservation of reservations) {
+      if (!reservation.arrival || !reservation.departure) continue
+
+      // A status we cannot map is reported instead of stored
+      const bookingStatus = mapLodgifyBookingStatus(reservation)
+      if (!bookingStatus) {
+        result.failed++
+        result.failures.push({ bookingId: String(reservation.id), message: describeUnknownBookingStatus(reservation) })
+        continue
+      }
+
+      incoming.push({
+        booking_id: String(reservation.id),
+        property_id: property.lodgify_property_id,
+        property_internal_id: property.id,
+        arrival_date: reservation.arrival.slice(0, 10),
+        departure_date: reservation.departure.slice(0, 10),
+        guest_name: reservation.guest?.name?.trim() || 'Lodgify guest',
+        total_price: reservation.total_amount ?? null,
+        booking_status: bookingStatus
+      })
+    }
+
+    const existing = await getExistingBookings(incoming.map(booking => booking.booking_id))
+    const changed = incoming.filter(booking => {
+      const current = existing.get(booking.booking_id)
+      if (current && isSameBooking(current, booking)) {
+        result.unchanged++
+        return false
+      }
+      return true
+    })
+
+    // Write one at a time so one conflicting reservation does not block the rest
+    for (const booking of changed) {
+      const { error } = await supabaseAdmin
+        .from('bookings')
+        .upsert(booking, { onConflict: 'booking_id' })
+
+      if (error) {
+        result.failed++
+        result.failures.push({ bookingId: booking.booking_id, message: error.message })
+        continue
+      }
+
+      const current = existing.get(booking.booking_id)
+      if (!current) {
+        result.created++
+      } else {
+        result.updated++
+        if (booking.booking_status === 'cancelled' && current.booking_status !== 'cancelled') {
+          result.cancelled++
+        }
+      }
+    }
+
+    result.success = true
+  } catch (error) {
+    logger.logError(propertyId, error as Error)
+
+    const message = error instanceof Error ? error.message : String(error)
+    const type: LodgifySyncError['type'] = error instanceof LodgifyApiError ? error.type : 'network'
+    result.error = {
+      type,
+      details: message,
+      recoverable: error instanceof LodgifyApiError ? error.recoverable : true
+    }
+  }
+
+  result.summary = result.success
+    ? formatBookingImportSummary(result)
+    : `Booking import failed: ${result.error?.details}`
+  result.duration = Date.now() - startTime
+  result.timestamp = new Date().toISOString()
+
+  if (result.syncOperationId) {
+    const { error } = await supabaseAdmin
+      .from('sync_operations')
+      .update({
+        status: result.success ? 'completed' : 'failed',
+        total_records: result.fetched,
+        processed_records: result.created + result.updated + result.unchanged,
+        error_message: result.error?.details
+          ?? (result.failed > 0 ? `${result.failed} reservations could not be imported` : null),
+        error_details: result.failures.length > 0 ? (result.failures as unknown as Json) : null,
+        change_summary: {
+          updated_since: updatedSince,
+          fetched: result.fetched,
+          created: result.created,
+          updated: result.updated,
+          cancelled: result.cancelled,
+          unchanged: result.unchanged,
+          failed: result.failed,
+          summary: result.summary
+        },
+        completed_at: result.timestamp,
+        duration_ms: result.duration
+      })
+      .eq('id', result.syncOperationId)
+
+    if (error) {
+      console.error('Failed to update booking import record:', error)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Imports bookings for several properties one after another
+ * Sequential to respect Lodgify rate limits
+ *
+ * @param propertyIds - UUIDs of the properties
+ * @param options - Import options (optional)
+ */
+export async function importLodgifyBookingsForProperties(
+  propertyIds: string[],
+  options: BookingImportOptions = {}
+): Promise<BookingImportResult[]> {
+  const results: BookingImportResult[] = []
+
+  for (let i = 0; i < propertyIds.length; i++) {
+    results.push(await importLodgifyBookings(propertyIds[i], options))
+
+    if (i < propertyIds.length - 1) {
+      await new Promise(resolve => setTimeout(resolve, LODGIFY_API_CONSTANTS.BATCH_DELAY))
+    }
+  }
+
+  return results
+}
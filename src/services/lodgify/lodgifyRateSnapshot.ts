@@ -0,0 +1,105 @@
+/**
+ * Lodgify Rate Snapshot Module
+ *
+ * Reads and stores the rate set last accepted by Lodgify for a property.
+ * The snapshot is the baseline incremental syncs diff against.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Json } from '@/types/database.types'
+import type { LodgifyPayload, LodgifyRate } from './lodgifyTypes'
+
+/**
+ * Gets the rates last pushed for a property
+ *
+ * @param propertyId - UUID of the property
+ * @returns Pushed rates, or null when the property was never pushed (or the
+ *          snapshot cannot be read, which makes the next sync a full one)
+ */
+export async function getPushedRates(propertyId: string): Promise<LodgifyRate[] | null> {
+  const { data, error } = await supabase
+    .from('lodgify_pushed_rates')
+    .select('rates')
+    .eq('property_id', propertyId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error reading pushed Lodgify rates:', error)
+    return null
+  }
+
+  return Array.isArray(data?.rates) ? (data.rates as unknown as LodgifyRate[]) : null
+}
+
+/**
+ * Stores the complete payload as the property's pushed rates
+ * Call only after Lodgify accepted the push
+ *
+ * @param propertyId - UUID of the property
+ * @param payload - Full payload the push was derived from (not the delta sent)
+ * @param syncOperationId - sync_operations row of the push, if any
+ */
+export async function savePushedRates(
+  propertyId: string,
+  payload: LodgifyPayload,
+  syncOperationId?: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('lodgify_pushed_rates')
+    .upsert({
+      property_id: propertyId,
+      lodgify_property_id: String(payload.property_id),
+      rates: payload.rates as unknown as Json,
+      sync_operation_id: syncOperationId ?? null,
+      pushed_at: new Date().toISOString()
+    }, { onConflict: 'property_id' })
+
+  if (error) {
+    // The push itself succeeded; a stale snapshot only means a larger next sync
+    console.error('Error saving pushed Lodgify rates:', error)
+  }
+}
+
+/**
+ * Forgets a property's pushed rates so its next sync sends the full payload
+ *
+ * @param propertyId - UUID of the property
+ */
+export async function clearPushedRates(propertyId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('lodgify_pushed_rates')
+    .delete()
+    .eq('property_id', propertyId)
+
+  if (error) {
+    throw new Error(`Failed to clear pushed Lodgify rates: ${error.message}`)
+  }
+}
+
+/**
+ * Gets the rates last pushed for several properties, for a sync dry run
+ *
+ * @param propertyIds - UUIDs of the properties
+ * @returns Pushed rates by Lodgify property ID; properties never pushed are absent
+ */
+export async function getPushedRatesForProperties(propertyIds: string[]): Promise<Map<number, LodgifyRate[]>> {
+  const pushed = new Map<number, LodgifyRate[]>()
+  if (propertyIds.length === 0) return pushed
+
+  const { data, error } = await supabase
+    .from('lodgify_pushed_rates')
+    .select('lodgify_property_id, rates')
+    .in('property_id', propertyIds)
+
+  if (error) {
+    throw new Error(`Failed to read pushed Lodgify rates: ${error.message}`)
+  }
+
+  for (const row of data || []) {
+    if (Array.isArray(row.rates)) {
+      pushed.set(Number(row.lodgify_property_id), row.rates as unknown as LodgifyRate[])
+    }
+  }
+
+  return pushed
+}
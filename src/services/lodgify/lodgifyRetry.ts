@@ -209,6 +209,10 @@ export async function makeRequestWithRetry(
       
       // Check if this is the last attempt
       if (attempt === config.maxRetries) {
+        // A retryable status on the last attempt already carries its status code
+        if (error instanceof LodgifyApiError) {
+          throw error
+        }
         throw new LodgifyApiError(
           `Request failed after ${attempt + 1} attempts: ${lastError.message}`,
           isTimeoutError(error) ? 'timeout' : 'network',
@@ -6,6 +6,8 @@
  */
 
 import type { LodgifyPayload } from '@/types/lodgify'
+import type { LodgifyReservation } from '../../../supabase/functions/_shared/lodgifyTypes.ts'
+import type { RateChangeSummary } from '@/utils/lodgifyRateDiff'
 
 
 /**
@@ -21,6 +23,8 @@ export interface LodgifySyncResult {
   timestamp: string
   retryCount: number
   duration: number
+  changes?: RateChangeSummary  // What was sent compared with the last successful push
+  syncOperationId?: string     // sync_operations row recording this sync
   error?: LodgifySyncError
 }
 
@@ -41,6 +45,9 @@ export interface SyncOptions {
   timeout?: number         // Request timeout in milliseconds (default 30000)
   maxRetries?: number      // Maximum retry attempts (default 3)
   validatePayload?: boolean // Validate payload before sending (default true)
+  fullSync?: boolean       // Send the whole payload instead of only changed ranges (default false)
+  triggerSource?: string   // Recorded on sync_operations (default 'manual')
+  rerunOf?: string         // sync_operations ID of the run this sync repeats
 }
 
 /**
@@ -109,6 +116,45 @@ export interface BatchSyncResult {
   summary: string
 }
 
+/**
+ * One page of the Lodgify v2 bookings endpoint
+ */
+export interface LodgifyReservationPage {
+  count?: number
+  items: LodgifyReservation[]
+}
+
+/**
+ * Options for importing bookings from Lodgify
+ */
+export interface BookingImportOptions {
+  fullImport?: boolean     // Fetch every reservation instead of those updated since the last import (default false)
+  timeout?: number         // Request timeout in milliseconds per page (default 30000)
+  maxRetries?: number      // Maximum retry attempts per page (default 3)
+  triggerSource?: string   // Recorded on sync_operations (default 'manual')
+  rerunOf?: string         // sync_operations ID of the import this one repeats
+}
+
+/**
+ * Result of importing one property's bookings
+ */
+export interface BookingImportResult {
+  success: boolean
+  propertyId: string
+  syncOperationId?: string
+  fetched: number          // Reservations returned by Lodgify for the property
+  created: number
+  updated: number
+  cancelled: number        // Bookings that became cancelled in this import
+  unchanged: number
+  failed: number           // Reservations not imported: unknown status or a failed write
+  failures: Array<{ bookingId: string; message: string }>
+  summary: string
+  timestamp: string
+  duration: number
+  error?: LodgifySyncError
+}
+
 /**
  * API response from Lodgify
  * Note: Actual response structure may vary - adjust based on API documentation
@@ -175,11 +221,15 @@ export const LODGIFY_API_CONSTANTS = {
   BASE_DELAY: 1000,
   MAX_DELAY: 8000,
   RETRYABLE_STATUSES: [429, 500, 502, 503, 504],
+  RESERVATIONS_ENDPOINT: 'https://api.lodgify.com/v2/reservations/bookings',
+  RESERVATIONS_PAGE_SIZE: 50,
   USER_AGENT: 'Lodgeprice/2.0',
   BATCH_DELAY: 1000 // Delay between batch operations
 }
 
 /**
- * Re-export commonly used types from lodgify.ts
+ * Re-export commonly used types from lodgify.ts, and the reservation shape
+ * shared with the lodgify-sync-automation edge function
  */
-export type { LodgifyRate, LodgifyPayload } from '@/types/lodgify'
\ No newline at end of file
+export type { LodgifyRate, LodgifyPayload } from '@/types/lodgify'
+export type { LodgifyReservation }
@@ -80,6 +80,17 @@ function validateRate(rate: any, index: number): string[] {
     errors.push(`Rate ${index}: min_stay cannot be greater than max_stay`)
   }
 
+  for (const field of ['arrival_days', 'departure_days']) {
+    const days = rate[field]
+    if (days !== undefined && (
+      !Array.isArray(days) ||
+      days.length === 0 ||
+      days.some((day: unknown) => typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6)
+    )) {
+      errors.push(`Rate ${index}: ${field} must be a non-empty list of weekdays from 0 (Sunday) to 6 (Saturday)`)
+    }
+  }
+
   if (rate.price_per_additional_guest !== undefined) {
     if (typeof rate.price_per_additional_guest !== 'number' || rate.price_per_additional_guest < 0) {
       errors.push(`Rate ${index}: price_per_additional_guest must be a non-negative number`)
@@ -1,29 +1,55 @@
 import type { 
   LodgifyPayload, 
-  LodgifyRate, 
   DatePriceData, 
-  OptimizedRange,
   PayloadGenerationOptions,
   GenerationStatistics,
   GenerationProgress,
   PayloadGenerationError,
-  StayLengthCategory
+  StayLengthCategory,
+  PayloadChunk,
+  PayloadStreamEvent,
+  PayloadStreamOptions,
+  PropertyGenerationResult
 } from '@/types/lodgify'
 import type { Property, PriceOverride } from '@/types/database'
 import { pricingApi, propertyApi } from '@/services/api'
 import { PriceOverrideService } from './price-override.service'
+import { LengthOfStayDiscountService } from './length-of-stay-discount.service'
+import { GapFillerService } from './gap-filler.service'
+import { StayRestrictionService, type StayRestrictions } from './stay-restriction.service'
+import { GuestFeeService } from './guest-fee.service'
+import { discountService } from './discount.service'
+import { bookingService, type BookingGap } from './booking.service'
 import { 
   generate24MonthRange, 
   generateCustomDateRange, 
   formatDateForAPI,
   getDefaultStayLengthCategories 
 } from '@/utils/dateRangeGenerator'
-import { 
-  optimizeConsecutiveDays,
-  validateOptimizationResults,
-  meetsOptimizationThreshold,
-  convertToIndividualEntries
-} from '@/utils/payloadOptimizer'
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns'
+import { buildLodgifyPayloadWithStatistics, mergeAdjacentRates } from './channels/lodgifyChannel'
+import { calculateOptimizationStats } from '@/utils/payloadOptimizer'
+import type { PropertyPricingData, CategoryPricingData } from './channels/channelTypes'
+import {
+  getCheckpointFingerprint,
+  loadCheckpoint,
+  saveCheckpointChunk,
+  clearCheckpoint
+} from './payloadCheckpoint'
+
+// Months of nights generated per chunk in streaming generation
+const DEFAULT_CHUNK_MONTHS = 3
+
+/**
+ * Per-property inputs loaded once for the whole date range
+ */
+interface PropertyPricingContext {
+  overrides: Map<string, PriceOverride>
+  stayCategories: StayLengthCategory[]   // Split at length-of-stay tiers and discount rule minimum stays
+  restrictions: Map<string, StayRestrictions>
+  extraGuestFees: Map<string, number>
+  gaps: BookingGap[]                     // Filler gaps the stay restrictions allow
+}
 
 /**
  * Core service for generating Lodgify API payloads
@@ -34,11 +60,337 @@ export class LodgifyPayloadService {
 
   /**
    * Generate complete payload for all specified properties
+   * A property that fails is reported in results; the others are still generated.
+   * Throws when cancelled, or when every property failed.
    */
   async generatePayload(
+    options: PayloadGenerationOptions,
+    onProgress?: (progress: GenerationProgress) => void,
+    streamOptions: Omit<PayloadStreamOptions, 'onProgress'> = {}
+  ): Promise<{ payloads: LodgifyPayload[], statistics: GenerationStatistics, results: PropertyGenerationResult[] }> {
+    const payloads: LodgifyPayload[] = []
+    const results: PropertyGenerationResult[] = []
+    
+    for await (const event of this.generatePayloadStream(options, { ...streamOptions, onProgress })) {
+      if (event.type === 'property') {
+        results.push(event.result)
+        if (event.result.payload) {
+          payloads.push(event.result.payload)
+        }
+      } else if (event.type === 'complete') {
+        if (event.cancelled) {
+          throw new Error('Generation cancelled by user')
+        }
+        
+        const failed = results.filter(result => result.status === 'failed')
+        if (payloads.length === 0 && failed.length > 0) {
+          throw new PayloadGenerationErrorImpl(
+            'database',
+            `Failed to generate payload: ${failed.map(result => `${result.propertyId}: ${result.error}`).join('; ')}`,
+            failed[0].propertyId
+          )
+        }
+        
+        return { payloads, statistics: event.statistics, results }
+      }
+    }
+    
+    throw new Error('Payload generation ended without completing')
+  }
+  
+  /**
+   * Generate payloads property by property, each in date window chunks
+   * 
+   * Yields every chunk as it completes, a result per property (success with the
+   * combined payload, or failure without stopping the run) and finally the
+   * statistics. Completed chunks are checkpointed; with resume set, a run with
+   * the same options skips the chunks a cancelled or crashed run completed.
+   * Nights are optimized into ranges per chunk; ranges with identical terms that
+   * meet at a chunk boundary are joined in the property's payload.
+   */
+  async *generatePayloadStream(
+    options: PayloadGenerationOptions,
+    streamOptions: PayloadStreamOptions = {}
+  ): AsyncGenerator<PayloadStreamEvent> {
+    const startTime = Date.now()
+    const startMemory = this.getMemoryUsage()
+    const chunkMonths = streamOptions.chunkMonths ?? DEFAULT_CHUNK_MONTHS
+    const fingerprint = getCheckpointFingerprint(options, chunkMonths)
+    const checkpoint = streamOptions.resume ? loadCheckpoint(fingerprint) : null
+    
+    this.abortController = new AbortController()
+    this.progressCallback = streamOptions.onProgress
+    
+    try {
+      this.reportProgress({
+        phase: 'loading',
+        currentProperty: 0,
+        totalProperties: options.properties.length,
+        percentage: 0,
+        timeElapsedMs: Date.now() - startTime
+      })
+      
+      const properties = await this.loadProperties(options.properties)
+      
+      const dates = options.startDate && options.endDate
+        ? generateCustomDateRange(options.startDate, options.endDate)
+        : generate24MonthRange()
+      
+      const stayCategories = options.stayLengthCategories.length > 0
+        ? options.stayLengthCategories
+        : getDefaultStayLengthCategories()
+      
+      const windows = this.createMonthlyChunks(dates[0], dates[dates.length - 1], chunkMonths)
+      const totalChunks = properties.length * windows.length
+      let chunksDone = 0
+      let cancelled = false
+      
+      const results: Omit<PropertyGenerationResult, 'payload'>[] = []
+      let totalRatesGenerated = 0
+      let entriesBeforeOptimization = 0
+      let entriesAfterOptimization = 0
+      let maxPriceDeviation = 0
+      let maxPriceDeviationPercent = 0
+      let totalOverrideCount = 0
+      const propertiesWithOverrides: string[] = []
+      const propertiesOverRateBudget: string[] = []
+      
+      for (let propertyIndex = 0; propertyIndex < properties.length && !cancelled; propertyIndex++) {
+        const property = properties[propertyIndex]
+        const propertyId = property.lodgify_property_id
+        const propertyChunks: PayloadChunk[] = []
+        let context: PropertyPricingContext | null = null
+        let error: string | undefined
+        
+        for (let chunkIndex = 0; chunkIndex < windows.length; chunkIndex++) {
+          if (this.abortController?.signal.aborted) {
+            cancelled = true
+            break
+          }
+          
+          const saved = checkpoint?.chunks.find(chunk => chunk.propertyId === propertyId && chunk.chunkIndex === chunkIndex)
+          if (saved) {
+            propertyChunks.push(saved)
+            chunksDone++
+            yield { type: 'chunk', chunk: saved, fromCheckpoint: true }
+            continue
+          }
+          
+          const windowStart = formatDateForAPI(windows[chunkIndex].start)
+          const windowEnd = formatDateForAPI(windows[chunkIndex].end)
+          
+          this.reportProgress({
+            phase: 'calculating',
+            propertyId,
+            currentProperty: propertyIndex + 1,
+            totalProperties: properties.length,
+            currentDate: windowStart,
+            percentage: (chunksDone / totalChunks) * 95,
+            timeElapsedMs: Date.now() - startTime
+          })
+          
+          try {
+            context ??= await this.loadPropertyPricingContext(
+              property,
+              dates[0],
+              dates[dates.length - 1],
+              stayCategories,
+              options
+            )
+            
+            const windowDates = dates.filter(date => {
+              const night = formatDateForAPI(date)
+              return night >= windowStart && night <= windowEnd
+            })
+            const pricing = await this.generatePropertyPricingData(property, windowDates, stayCategories, options, context)
+            const chunk = this.buildPayloadChunk(pricing, options, {
+              chunkIndex,
+              totalChunks: windows.length,
+              startDate: windowStart,
+              endDate: windowEnd,
+              nights: windowDates.length
+            }, dates.length)
+            
+            saveCheckpointChunk(fingerprint, chunk)
+            propertyChunks.push(chunk)
+            chunksDone++
+            yield { type: 'chunk', chunk, fromCheckpoint: false }
+          } catch (chunkError) {
+            if (this.abortController?.signal.aborted) {
+              cancelled = true
+              break
+            }
+            
+            console.error(`Failed to generate payload for property ${propertyId} (${windowStart} to ${windowEnd}):`, chunkError)
+            error = chunkError instanceof Error ? chunkError.message : String(chunkError)
+            chunksDone += windows.length - chunkIndex
+            break
+          }
+        }
+        
+        if (cancelled) break
+        
+        const summary: Omit<PropertyGenerationResult, 'payload'> = {
+          propertyId,
+          status: error ? 'failed' : 'success',
+          ...(error && { error }),
+          chunksCompleted: propertyChunks.length,
+          totalChunks: windows.length
+        }
+        const chunkRates = propertyChunks.flatMap(chunk => chunk.rates)
+        const rates = error ? [] : mergeAdjacentRates(chunkRates)
+        const result: PropertyGenerationResult = error
+          ? summary
+          : {
+              ...summary,
+              payload: {
+                property_id: parseInt(propertyId),
+                room_type_id: property.lodgify_room_type_id || 0,
+                rates
+              }
+            }
+        
+        if (result.payload) {
+          const overrideCount = propertyChunks.reduce((sum, chunk) => sum + chunk.overrideCount, 0)
+          const joinedRanges = chunkRates.length - rates.length
+          const rateBudget = options.rangeOptimization?.maxRatesPerPayload
+          totalRatesGenerated += result.payload.rates.length
+          entriesBeforeOptimization += propertyChunks.reduce((sum, chunk) => sum + chunk.entriesBeforeOptimization, 0)
+          entriesAfterOptimization += propertyChunks.reduce((sum, chunk) => sum + chunk.entriesAfterOptimization, 0) - joinedRanges
+          maxPriceDeviation = Math.max(maxPriceDeviation, ...propertyChunks.map(chunk => chunk.maxPriceDeviation))
+          maxPriceDeviationPercent = Math.max(maxPriceDeviationPercent, ...propertyChunks.map(chunk => chunk.maxPriceDeviationPercent))
+          totalOverrideCount += overrideCount
+          if (overrideCount > 0) propertiesWithOverrides.push(propertyId)
+          // A chunk over its share of the budget only matters if the joined payload is too
+          if (
+            propertyChunks.some(chunk => !chunk.withinRateBudget) &&
+            rateBudget !== undefined && rates.length > rateBudget
+          ) {
+            propertiesOverRateBudget.push(propertyId)
+          }
+        }
+        
+        results.push(summary)
+        yield { type: 'property', result }
+      }
+      
+      const optimization = calculateOptimizationStats(
+        entriesBeforeOptimization,
+        entriesAfterOptimization,
+        maxPriceDeviation,
+        maxPriceDeviationPercent
+      )
+      const endMemory = this.getMemoryUsage()
+      
+      const statistics: GenerationStatistics = {
+        totalProperties: properties.length,
+        totalDates: dates.length,
+        totalRatesGenerated,
+        optimizationApplied: options.optimizeRanges,
+        entriesBeforeOptimization: optimization.entriesBefore,
+        entriesAfterOptimization: optimization.entriesAfter,
+        optimizationReduction: optimization.effectiveReduction,
+        maxPriceDeviation: optimization.maxDeviation,
+        maxPriceDeviationPercent: optimization.maxDeviationPercent,
+        propertiesOverRateBudget,
+        generationTimeMs: Date.now() - startTime,
+        memoryUsedMB: endMemory && startMemory ? (endMemory - startMemory) / (1024 * 1024) : undefined,
+        overrideCount: totalOverrideCount,
+        propertiesWithOverrides,
+        dateRangesAffected: []
+      }
+      
+      // Keep the checkpoint until every property went through, so a rerun retries the rest
+      if (!cancelled && results.every(result => result.status === 'success')) {
+        clearCheckpoint()
+      }
+      
+      if (!cancelled) {
+        this.reportProgress({
+          phase: 'complete',
+          currentProperty: properties.length,
+          totalProperties: properties.length,
+          percentage: 100,
+          timeElapsedMs: statistics.generationTimeMs
+        })
+      }
+      
+      yield { type: 'complete', statistics, results, cancelled }
+      
+    } catch (error) {
+      this.reportProgress({
+        phase: 'error',
+        currentProperty: 0,
+        totalProperties: options.properties.length,
+        percentage: 0,
+        timeElapsedMs: Date.now() - startTime
+      })
+      
+      throw error
+    } finally {
+      this.abortController = null
+      this.progressCallback = undefined
+    }
+  }
+  
+  /**
+   * Shape one date window of a property's pricing into Lodgify rates
+   * The default rate comes with the first chunk; a rate budget is shared out
+   * between chunks in proportion to their nights.
+   */
+  private buildPayloadChunk(
+    pricing: PropertyPricingData,
+    options: PayloadGenerationOptions,
+    window: { chunkIndex: number, totalChunks: number, startDate: string, endDate: string, nights: number },
+    totalNights: number
+  ): PayloadChunk {
+    const { chunkIndex } = window
+    const includeDefaultRate = options.includeDefaultRate && chunkIndex === 0
+    const rateBudget = options.rangeOptimization?.maxRatesPerPayload
+    const datedRateBudget = rateBudget !== undefined
+      ? Math.max(rateBudget - (options.includeDefaultRate ? 1 : 0), 0)
+      : undefined
+    
+    const chunkOptions: PayloadGenerationOptions = {
+      ...options,
+      includeDefaultRate,
+      ...(options.rangeOptimization && {
+        rangeOptimization: {
+          ...options.rangeOptimization,
+          ...(datedRateBudget !== undefined && {
+            maxRatesPerPayload: Math.max(Math.floor(datedRateBudget * window.nights / totalNights), 1) + (includeDefaultRate ? 1 : 0)
+          })
+        }
+      })
+    }
+    
+    const { payload, optimization, withinBudget } = buildLodgifyPayloadWithStatistics(pricing, chunkOptions)
+    
+    return {
+      propertyId: pricing.property.lodgify_property_id,
+      chunkIndex,
+      totalChunks: window.totalChunks,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      rates: payload.rates,
+      entriesBeforeOptimization: optimization.entriesBefore,
+      entriesAfterOptimization: optimization.entriesAfter,
+      maxPriceDeviation: optimization.maxDeviation,
+      maxPriceDeviationPercent: optimization.maxDeviationPercent,
+      withinRateBudget: withinBudget,
+      overrideCount: pricing.overrideCount
+    }
+  }
+  
+  /**
+   * Compute nightly pricing per stay length category for all specified properties,
+   * before it is shaped for a channel (see src/services/channels)
+   * statistics.totalRatesGenerated counts nightly prices
+   */
+  async generatePricingData(
     options: PayloadGenerationOptions,
     onProgress?: (progress: GenerationProgress) => void
-  ): Promise<{ payloads: LodgifyPayload[], statistics: GenerationStatistics }> {
+  ): Promise<{ pricing: PropertyPricingData[], statistics: GenerationStatistics }> {
     const startTime = Date.now()
     const startMemory = this.getMemoryUsage()
     
@@ -67,7 +419,7 @@ export class LodgifyPayloadService {
         ? options.stayLengthCategories
         : getDefaultStayLengthCategories()
       
-      const payloads: LodgifyPayload[] = []
+      const pricing: PropertyPricingData[] = []
       let totalRatesGenerated = 0
       let totalEntriesBeforeOptimization = 0
       let totalEntriesAfterOptimization = 0
@@ -93,7 +445,7 @@ export class LodgifyPayloadService {
         })
         
         try {
-          const propertyPayload = await this.generatePropertyPayload(
+          const propertyPricing = await this.generatePropertyPricingData(
             property,
             dates,
             stayCategories,
@@ -101,15 +453,13 @@ export class LodgifyPayloadService {
           )
           
           // Track override statistics
-          if (propertyPayload.overrideCount && propertyPayload.overrideCount > 0) {
-            totalOverrideCount += propertyPayload.overrideCount
+          if (propertyPricing.overrideCount > 0) {
+            totalOverrideCount += propertyPricing.overrideCount
             propertiesWithOverrides.add(property.lodgify_property_id)
           }
           
-          // Remove the overrideCount from the final payload
-          const { overrideCount, ...cleanPayload } = propertyPayload
-          payloads.push(cleanPayload)
-          totalRatesGenerated += cleanPayload.rates.length
+          pricing.push(propertyPricing)
+          totalRatesGenerated += propertyPricing.categories.reduce((sum, category) => sum + category.days.length, 0)
           
         } catch (error) {
           console.error(`Failed to generate payload for property ${property.lodgify_property_id}:`, error)
@@ -131,8 +481,8 @@ export class LodgifyPayloadService {
           timeElapsedMs: Date.now() - startTime
         })
         
-        // Note: Optimization stats would be calculated during property processing
-        // This is a placeholder for future enhancement
+        // Ranges are merged when the pricing is shaped for a channel;
+        // generatePayload reports the optimization statistics
       }
       
       // Validation phase
@@ -173,7 +523,7 @@ export class LodgifyPayloadService {
         timeElapsedMs: statistics.generationTimeMs
       })
       
-      return { payloads, statistics }
+      return { pricing, statistics }
       
     } catch (error) {
       this.reportProgress({
@@ -192,47 +542,106 @@ export class LodgifyPayloadService {
   }
   
   /**
-   * Generate payload for a single property
+   * Load a property's overrides, length-of-stay tiers, discount rule minimum stays,
+   * stay restrictions, extra guest fees and filler gaps for a date range
    */
-  private async generatePropertyPayload(
+  private async loadPropertyPricingContext(
     property: Property,
-    dates: Date[],
+    startDate: Date,
+    endDate: Date,
     stayCategories: StayLengthCategory[],
     options: PayloadGenerationOptions
-  ): Promise<LodgifyPayload & { overrideCount?: number }> {
-    const rates: LodgifyRate[] = []
-    
-    // Add mandatory default rate
-    if (options.includeDefaultRate) {
-      rates.push({
-        is_default: true,
-        price_per_day: parseFloat((property.base_price_per_day).toFixed(2)), // Ensure clean 2 decimal places
-        min_stay: 2,
-        max_stay: 6,
-        price_per_additional_guest: 5,
-        additional_guests_starts_from: 2
-      })
-    }
-    
+  ): Promise<PropertyPricingContext> {
     // Load price overrides if enabled
-    let propertyOverrides: Map<string, PriceOverride> = new Map()
-    let overrideCount = 0
+    let overrides: Map<string, PriceOverride> = new Map()
     if (options.includeOverrides !== false) {
       try {
-        const overrides = await this.loadPropertyOverrides(
+        const propertyOverrides = await this.loadPropertyOverrides(
           property.lodgify_property_id,
-          dates[0],
-          dates[dates.length - 1]
+          startDate,
+          endDate
         )
-        propertyOverrides = new Map(overrides.map(o => [o.override_date, o]))
+        overrides = new Map(propertyOverrides.map(o => [o.override_date, o]))
       } catch (error) {
         console.warn(`Failed to load overrides for property ${property.lodgify_property_id}:`, error)
         // Continue without overrides if loading fails
       }
     }
     
+    // Split categories at length-of-stay tier boundaries so each rate carries a single tier
+    let propertyStayCategories = stayCategories
+    try {
+      const losTiers = await LengthOfStayDiscountService.getTiers(property.id)
+      propertyStayCategories = LengthOfStayDiscountService.splitStayCategories(stayCategories, losTiers)
+    } catch (error) {
+      console.warn(`Failed to load length-of-stay discounts for property ${property.lodgify_property_id}:`, error)
+      // Continue with the requested categories if loading fails
+    }
+    
+    // Split again where a discount rule's minimum stay starts, so each category is priced
+    // at a stay length that meets the same rules as every other stay in its range
+    try {
+      const ruleBoundaries = await discountService.getRuleStayBoundaries(property.lodgify_property_id)
+      propertyStayCategories = LengthOfStayDiscountService.splitStayCategoriesAt(propertyStayCategories, ruleBoundaries)
+    } catch (error) {
+      console.warn(`Failed to load discount rules for property ${property.lodgify_property_id}:`, error)
+      // Continue without the extra splits if loading fails
+    }
+    
+    // Stay restrictions from seasonal periods narrow min/max stay and arrival/departure days
+    const restrictions = await this.loadStayRestrictions(property, startDate, endDate)
+    
+    // Seasonal periods may override the property's extra guest fee
+    const extraGuestFees = await this.loadExtraGuestFees(property, startDate, endDate)
+    
+    // Short gaps between bookings are sold separately with a minimum stay equal to the gap,
+    // unless the period's stay restrictions rule out a stay of exactly the gap
+    const gaps = (await this.loadFillerGaps(property, startDate, endDate))
+      .filter(gap => StayRestrictionService.getStayViolations(
+        restrictions.get(gap.startDate),
+        gap.startDate,
+        gap.endDate
+      ).length === 0)
+    
+    return { overrides, stayCategories: propertyStayCategories, restrictions, extraGuestFees, gaps }
+  }
+  
+  /**
+   * Compute nightly pricing of a single property
+   * The context may cover a longer range than dates (streaming generation loads it once per property)
+   */
+  private async generatePropertyPricingData(
+    property: Property,
+    dates: Date[],
+    stayCategories: StayLengthCategory[],
+    options: PayloadGenerationOptions,
+    context?: PropertyPricingContext
+  ): Promise<PropertyPricingData> {
+    const categories: CategoryPricingData[] = []
+    let overrideCount = 0
+    
+    const {
+      overrides: propertyOverrides,
+      stayCategories: propertyStayCategories,
+      restrictions,
+      extraGuestFees,
+      gaps
+    } = context ?? await this.loadPropertyPricingContext(
+      property,
+      dates[0],
+      dates[dates.length - 1],
+      stayCategories,
+      options
+    )
+    
+    const firstNight = formatDateForAPI(dates[0])
+    const lastNight = formatDateForAPI(dates[dates.length - 1])
+    const gapDates = new Set(
+      gaps.flatMap(gap => this.getGapNights(gap)).filter(night => night >= firstNight && night <= lastNight)
+    )
+    
     // Generate rates for each stay length category
-    for (const stayCategory of stayCategories) {
+    for (const stayCategory of propertyStayCategories) {
       const pricingData: DatePriceData[] = []
       
       // Use bulk pricing for efficiency - process in monthly chunks
@@ -271,6 +680,7 @@ export class LodgifyPayloadService {
                   basePrice: parseFloat((dayPrice.base_price).toFixed(2)),
                   seasonalAdjustment: dayPrice.seasonal_adjustment_percent || 0,
                   lastMinuteDiscount: dayPrice.last_minute_discount_percent || 0,
+                  losDiscount: dayPrice.los_discount_percent || 0,
                   minPriceEnforced: false, // Override bypasses min price enforcement
                   priceSource: 'override',
                   overrideReason: override.reason || undefined,
@@ -287,6 +697,7 @@ export class LodgifyPayloadService {
                   basePrice: parseFloat((dayPrice.base_price).toFixed(2)),
                   seasonalAdjustment: dayPrice.seasonal_adjustment_percent || 0,
                   lastMinuteDiscount: dayPrice.last_minute_discount_percent || 0,
+                  losDiscount: dayPrice.los_discount_percent || 0,
                   minPriceEnforced: dayPrice.min_price_enforced || false,
                   priceSource: 'calculated'
                 })
@@ -306,44 +717,204 @@ export class LodgifyPayloadService {
         }
       }
       
-      // Optimize or convert to individual entries
-      let optimizedRanges: OptimizedRange[]
+      // Gap nights get their own rates below
+      const categoryPricingData = gapDates.size > 0
+        ? pricingData.filter(day => !gapDates.has(day.date))
+        : pricingData
       
-      if (options.optimizeRanges && pricingData.length > 0) {
-        optimizedRanges = optimizeConsecutiveDays(pricingData)
-        
-        // Validate optimization and fallback if needed
-        const validation = validateOptimizationResults(pricingData, optimizedRanges)
-        if (!validation.valid || !meetsOptimizationThreshold(pricingData.length, optimizedRanges.length)) {
-          console.warn(`Optimization failed for ${property.lodgify_property_id}, using individual entries`)
-          optimizedRanges = convertToIndividualEntries(pricingData)
-        }
-      } else {
-        optimizedRanges = convertToIndividualEntries(pricingData)
+      categories.push({
+        category: stayCategory,
+        isGap: false,
+        days: this.applyExtraGuestFees(this.applyStayRestrictions(categoryPricingData, restrictions), extraGuestFees)
+      })
+    }
+    
+    // Gap nights: priced for a stay of exactly the gap, with min and max stay relaxed to match
+    for (const gap of gaps) {
+      const gapCategory: StayLengthCategory = {
+        name: `${gap.nights}-night gap`,
+        minStay: gap.nights,
+        maxStay: gap.nights,
+        stayLength: gap.nights
       }
+      const gapPricingData: DatePriceData[] = []
+      
+      // Only the gap's nights inside dates
+      const gapFirstNight = gap.startDate > firstNight ? gap.startDate : firstNight
+      const gapLastNight = formatDateForAPI(addDays(parseISO(gap.endDate), -1))
+      if (gapFirstNight > lastNight || gapLastNight < firstNight) continue
+      
+      await this.fallbackToIndividualCalculations(
+        property.lodgify_property_id,
+        parseISO(gapFirstNight),
+        parseISO(gapLastNight < lastNight ? gapLastNight : lastNight),
+        gapCategory,
+        gapPricingData
+      )
       
-      // Convert optimized ranges to Lodgify rates
-      for (const range of optimizedRanges) {
-        const rate: LodgifyRate = {
-          is_default: false,
-          start_date: range.startDate,
-          end_date: range.endDate,
-          price_per_day: parseFloat((range.price).toFixed(2)), // Ensure clean 2 decimal places
-          min_stay: range.minStay,
-          max_stay: range.maxStay,
-          price_per_additional_guest: 5,
-          additional_guests_starts_from: 2
+      for (const day of gapPricingData) {
+        const override = propertyOverrides.get(day.date)
+        if (override && override.is_active) {
+          overrideCount++
+          day.originalCalculatedPrice = day.price
+          day.price = parseFloat((override.override_price).toFixed(2))
+          day.priceSource = 'override'
+          day.overrideReason = override.reason || undefined
         }
-        rates.push(rate)
       }
+      
+      categories.push({
+        category: gapCategory,
+        isGap: true,
+        days: this.applyExtraGuestFees(gapPricingData, extraGuestFees)
+      })
     }
     
-    return {
-      property_id: parseInt(property.lodgify_property_id),
-      room_type_id: property.lodgify_room_type_id || 0,
-      rates,
-      overrideCount
+    return { property, categories, overrideCount }
+  }
+  
+  /**
+   * Load stay restrictions per night (empty when none apply or loading fails)
+   */
+  private async loadStayRestrictions(
+    property: Property,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Map<string, StayRestrictions>> {
+    try {
+      return await StayRestrictionService.getRestrictionsByDate(
+        property.id,
+        formatDateForAPI(startDate),
+        formatDateForAPI(endDate)
+      )
+    } catch (error) {
+      console.warn(`Failed to load stay restrictions for property ${property.lodgify_property_id}:`, error)
+      // Continue without restrictions if loading fails
+      return new Map()
+    }
+  }
+  
+  /**
+   * Load the extra guest fee per night (empty when loading fails, so the property fee applies)
+   */
+  private async loadExtraGuestFees(
+    property: Property,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Map<string, number>> {
+    try {
+      return await GuestFeeService.getFeesByDate(
+        property.id,
+        formatDateForAPI(startDate),
+        formatDateForAPI(endDate)
+      )
+    } catch (error) {
+      console.warn(`Failed to load extra guest fees for property ${property.lodgify_property_id}:`, error)
+      // Continue with the property fee if loading fails
+      return new Map()
+    }
+  }
+  
+  /**
+   * Attach the extra guest fee of each night to daily pricing
+   */
+  private applyExtraGuestFees(
+    pricingData: DatePriceData[],
+    extraGuestFees: Map<string, number>
+  ): DatePriceData[] {
+    if (extraGuestFees.size === 0) {
+      return pricingData
+    }
+    
+    return pricingData.map(day => ({
+      ...day,
+      extraGuestFee: extraGuestFees.get(day.date)
+    }))
+  }
+  
+  /**
+   * Apply stay restrictions to a stay length category's daily pricing.
+   * Nights where the category's stay lengths are not allowed at all are dropped.
+   */
+  private applyStayRestrictions(
+    pricingData: DatePriceData[],
+    restrictions: Map<string, StayRestrictions>
+  ): DatePriceData[] {
+    if (restrictions.size === 0) {
+      return pricingData
+    }
+    
+    return pricingData.flatMap(day => {
+      const rules = restrictions.get(day.date)
+      if (!rules) {
+        return [day]
+      }
+      
+      const stay = StayRestrictionService.clampStayLength(day.minStay, day.maxStay, rules)
+      if (!stay) {
+        return []
+      }
+      
+      return [{
+        ...day,
+        minStay: stay.minStay,
+        maxStay: stay.maxStay,
+        arrivalDays: rules.arrivalDays ?? undefined,
+        departureDays: rules.departureDays ?? undefined
+      }]
+    })
+  }
+  
+  /**
+   * Load upcoming filler gaps for a property (none when gap filling is disabled)
+   */
+  private async loadFillerGaps(
+    property: Property,
+    startDate: Date,
+    endDate: Date
+  ): Promise<BookingGap[]> {
+    try {
+      const settings = await GapFillerService.getSettings(property.id)
+      if (!settings?.is_enabled) {
+        return []
+      }
+      
+      const today = formatDateForAPI(new Date())
+      const gaps = await bookingService.getBookingGaps(
+        property.lodgify_property_id,
+        startDate,
+        endDate,
+        settings.max_gap_nights
+      )
+      
+      // A gap already in progress only has its remaining nights left to sell
+      return gaps
+        .filter(gap => gap.endDate > today)
+        .map(gap => gap.startDate >= today
+          ? gap
+          : {
+              startDate: today,
+              endDate: gap.endDate,
+              nights: differenceInCalendarDays(parseISO(gap.endDate), parseISO(today))
+            })
+    } catch (error) {
+      console.warn(`Failed to load booking gaps for property ${property.lodgify_property_id}:`, error)
+      // Continue without gap handling if loading fails
+      return []
+    }
+  }
+  
+  /**
+   * List the nights (YYYY-MM-DD) inside a gap
+   */
+  private getGapNights(gap: BookingGap): string[] {
+    const nights: string[] = []
+    const current = parseISO(gap.startDate)
+    for (let i = 0; i < gap.nights; i++) {
+      nights.push(formatDateForAPI(current))
+      current.setDate(current.getDate() + 1)
     }
+    return nights
   }
   
   /**
@@ -405,13 +976,13 @@ export class LodgifyPayloadService {
   /**
    * Create monthly chunks for date range processing
    */
-  private createMonthlyChunks(startDate: Date, endDate: Date): Array<{ start: Date; end: Date }> {
+  private createMonthlyChunks(startDate: Date, endDate: Date, months: number = 1): Array<{ start: Date; end: Date }> {
     const chunks: Array<{ start: Date; end: Date }> = []
     let currentStart = new Date(startDate)
     
     while (currentStart <= endDate) {
       const chunkEnd = new Date(currentStart)
-      chunkEnd.setMonth(chunkEnd.getMonth() + 1)
+      chunkEnd.setMonth(chunkEnd.getMonth() + months)
       chunkEnd.setDate(chunkEnd.getDate() - 1)
       
       if (chunkEnd > endDate) {
@@ -423,7 +994,7 @@ export class LodgifyPayloadService {
         end: new Date(chunkEnd)
       })
       
-      currentStart.setMonth(currentStart.getMonth() + 1)
+      currentStart.setMonth(currentStart.getMonth() + months)
     }
     
     return chunks
@@ -461,6 +1032,7 @@ export class LodgifyPayloadService {
             basePrice: Math.round(result.base_price * 100) / 100, // Round to 2 decimal places
             seasonalAdjustment: result.seasonal_adjustment,
             lastMinuteDiscount: result.last_minute_discount,
+            losDiscount: (result.los_rate || 0) * 100,
             minPriceEnforced: result.min_price_enforced
           })
         }
@@ -6,6 +6,7 @@
  */
 
 import { supabase, supabaseAdmin } from '@/lib/supabase'
+import { withChangeReason } from './change-log.service'
 import type { Database } from '@/types/database.generated'
 
 type PropertiesRow = Database['public']['Tables']['properties']['Row']
@@ -66,13 +67,15 @@ export class MinPriceService {
    * @param propertyId - Property ID (can be UUID or lodgify_property_id string like "327020")
    * @param newMinPrice - New minimum price per day
    * @param retryConfig - Optional retry configuration
+   * @param reason - Optional reason, recorded in the pricing change log
    * @returns Promise with update result
    * @throws MinPriceError for various failure scenarios
    */
   static async updateMinPrice(
     propertyId: string,
     newMinPrice: number,
-    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+    reason?: string
   ): Promise<MinPriceUpdateResult> {
     // Validate inputs
     if (!propertyId || typeof propertyId !== 'string') {
@@ -136,12 +139,15 @@ export class MinPriceService {
         min_price_per_day: roundedPrice
       }
 
-      const { data: updatedProperty, error: updateError } = await supabaseAdmin
-        .from('properties')
-        .update(updateData)
-        .eq('id', propertyUuid)
-        .select('*')
-        .single()
+      const { data: updatedProperty, error: updateError } = await withChangeReason(
+        supabaseAdmin
+          .from('properties')
+          .update(updateData)
+          .eq('id', propertyUuid)
+          .select('*')
+          .single(),
+        reason
+      )
 
       if (updateError) {
         // Handle specific database constraint errors
@@ -0,0 +1,108 @@
+/**
+ * Payload Generation Checkpoint
+ *
+ * Keeps the chunks a streaming payload generation has completed in
+ * localStorage, so a cancelled or crashed run can resume where it stopped.
+ * One checkpoint is kept; it only applies to a run with the same options.
+ */
+
+import type { PayloadChunk, PayloadGenerationOptions } from '@/types/lodgify'
+import { formatDateForAPI } from '@/utils/dateRangeGenerator'
+
+const CHECKPOINT_STORAGE_KEY = 'lodgify-payload-checkpoint'
+
+// Prices move; a checkpoint older than this is not resumed
+const CHECKPOINT_TTL_MS = 24 * 60 * 60 * 1000
+
+export interface PayloadCheckpoint {
+  fingerprint: string
+  createdAt: string
+  updatedAt: string
+  chunks: PayloadChunk[]
+}
+
+function readCheckpoint(): PayloadCheckpoint | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = localStorage.getItem(CHECKPOINT_STORAGE_KEY)
+    if (!stored) return null
+
+    const checkpoint = JSON.parse(stored) as PayloadCheckpoint
+    if (Date.now() - new Date(checkpoint.updatedAt).getTime() > CHECKPOINT_TTL_MS) {
+      clearCheckpoint()
+      return null
+    }
+    return checkpoint
+  } catch {
+    return null
+  }
+}
+
+function writeCheckpoint(checkpoint: PayloadCheckpoint): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(CHECKPOINT_STORAGE_KEY, JSON.stringify(checkpoint))
+  } catch (error) {
+    // Generation goes on without a checkpoint (e.g. storage quota exceeded)
+    console.warn('Failed to save payload generation checkpoint:', error)
+  }
+}
+
+/**
+ * Identifies a run: a checkpoint is only resumed by a run with the same fingerprint
+ */
+export function getCheckpointFingerprint(options: PayloadGenerationOptions, chunkMonths: number): string {
+  return JSON.stringify({
+    properties: [...options.properties].sort(),
+    startDate: formatDateForAPI(options.startDate),
+    endDate: formatDateForAPI(options.endDate),
+    stayLengthCategories: options.stayLengthCategories,
+    includeDefaultRate: options.includeDefaultRate,
+    optimizeRanges: options.optimizeRanges,
+    rangeOptimization: options.rangeOptimization ?? null,
+    includeOverrides: options.includeOverrides !== false,
+    chunkMonths
+  })
+}
+
+/**
+ * Gets the checkpoint of a run, or null when there is none (or it is stale)
+ */
+export function loadCheckpoint(fingerprint: string): PayloadCheckpoint | null {
+  const checkpoint = readCheckpoint()
+  return checkpoint?.fingerprint === fingerprint ? checkpoint : null
+}
+
+/**
+ * Gets the stored checkpoint whatever run it belongs to
+ */
+export function getStoredCheckpoint(): PayloadCheckpoint | null {
+  return readCheckpoint()
+}
+
+/**
+ * Records a completed chunk, replacing the checkpoint of any other run
+ */
+export function saveCheckpointChunk(fingerprint: string, chunk: PayloadChunk): void {
+  const now = new Date().toISOString()
+  const checkpoint = loadCheckpoint(fingerprint) ?? { fingerprint, createdAt: now, updatedAt: now, chunks: [] }
+
+  checkpoint.chunks = checkpoint.chunks
+    .filter(saved => saved.propertyId !== chunk.propertyId || saved.chunkIndex !== chunk.chunkIndex)
+    .concat(chunk)
+  checkpoint.updatedAt = now
+
+  writeCheckpoint(checkpoint)
+}
+
+/**
+ * Removes the checkpoint
+ */
+export function clearCheckpoint(): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.removeItem(CHECKPOINT_STORAGE_KEY)
+  } catch {
+    // Ignore errors
+  }
+}
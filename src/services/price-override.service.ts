@@ -8,6 +8,7 @@
 import { supabase, supabaseAdmin } from '@/lib/supabase'
 import type { Database } from '@/types/database.generated'
 import { BulkOverrideService } from './bulk-override.service'
+import { withChangeReason } from './change-log.service'
 import type { 
   BulkOverrideOperation,
   BulkOperationResult 
@@ -278,11 +279,13 @@ export class PriceOverrideService {
    * 
    * @param propertyId - Property ID (UUID or lodgify_property_id)
    * @param date - ISO date string (YYYY-MM-DD)
+   * @param reason - Optional reason, recorded in the pricing change log
    * @returns Promise with remove result including deleted count
    */
   static async removeOverride(
     propertyId: string,
-    date: string
+    date: string,
+    reason?: string
   ): Promise<RemoveOverrideResult> {
     // Step 1: Input validation (FR-1, FR-2)
     if (!propertyId || typeof propertyId !== 'string') {
@@ -309,12 +312,15 @@ export class PriceOverrideService {
       // Step 3: Execute deletion with proper error handling (FR-1, FR-4, FR-6)
       const result = await this.retryOperation(async () => {
         // Perform actual DELETE operation (not soft delete) as per PRP-008
-        const { data, error } = await supabaseAdmin
-          .from('price_overrides')
-          .delete()
-          .eq('property_id', lodgifyPropertyId)
-          .eq('override_date', date)
-          .select()
+        const { data, error } = await withChangeReason(
+          supabaseAdmin
+            .from('price_overrides')
+            .delete()
+            .eq('property_id', lodgifyPropertyId)
+            .eq('override_date', date)
+            .select(),
+          reason
+        )
         
         if (error) {
           // Handle specific PostgreSQL error codes
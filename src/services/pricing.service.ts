@@ -19,6 +19,7 @@ import type {
   BatchOperationResult,
 } from '@/types/helpers'
 import { PriceOverrideService } from './price-override.service'
+import { discountService } from './discount.service'
 import {
   CacheKeys,
 } from '@/types/pricing'
@@ -83,6 +84,7 @@ const cache = new PricingCache()
  */
 export interface ConditionalPricingOptions extends CacheOptions {
   includeSeasonalRates?: boolean
+  includeWeekdayMultipliers?: boolean
   includeDiscountStrategies?: boolean
 }
 
@@ -165,7 +167,11 @@ export class PricingService {
         throw new PricingCalculationError('No pricing data returned')
       }
       
-      const result = this.transformPricingResult(data[0])
+      const result = await this.withLeadTimeRules(
+        this.transformPricingResult(data[0]),
+        lodgifyPropertyId,
+        nights
+      )
       
       // Cache the result
       cache.set(cacheKey, result, options.expirationMinutes)
@@ -178,7 +184,7 @@ export class PricingService {
   
   /**
    * Calculate conditional price with toggle support
-   * Supports excluding seasonal rates and discount strategies (FR-3, FR-4, FR-5)
+   * Supports excluding seasonal rates, weekday multipliers and discount strategies (FR-3, FR-4, FR-5)
    */
   async calculateConditionalPrice(
     propertyId: string,
@@ -188,13 +194,14 @@ export class PricingService {
   ): Promise<CalculateFinalPriceReturn> {
     // Default to including all components
     const includeSeasonalRates = options.includeSeasonalRates ?? true
+    const includeWeekdayMultipliers = options.includeWeekdayMultipliers ?? true
     const includeDiscountStrategies = options.includeDiscountStrategies ?? true
     
     // Validate inputs
     this.validatePricingParams(propertyId, date, nights)
     
     // Create cache key that includes toggle states
-    const cacheKey = `${CacheKeys.pricing(propertyId, date.toISOString().split('T')[0], nights)}-s${includeSeasonalRates ? '1' : '0'}-d${includeDiscountStrategies ? '1' : '0'}`
+    const cacheKey = `${CacheKeys.pricing(propertyId, date.toISOString().split('T')[0], nights)}-s${includeSeasonalRates ? '1' : '0'}-w${includeWeekdayMultipliers ? '1' : '0'}-d${includeDiscountStrategies ? '1' : '0'}`
     
     if (!options.forceRefresh) {
       const cached = cache.get(cacheKey)
@@ -205,18 +212,19 @@ export class PricingService {
       // Get lodgify property ID
       const lodgifyPropertyId = await this.getLodgifyPropertyId(propertyId)
       
-      // If both toggles are enabled, use standard calculation
-      if (includeSeasonalRates && includeDiscountStrategies) {
+      // If all toggles are enabled, use standard calculation
+      if (includeSeasonalRates && includeWeekdayMultipliers && includeDiscountStrategies) {
         const result = await this.calculateDetailedPrice(propertyId, date, nights, options)
         cache.set(cacheKey, result, options.expirationMinutes)
         return result
       }
       
-      // Otherwise, calculate with modifications
+      // Otherwise, price without the switched-off components
       const { data, error } = await supabase.rpc('calculate_final_price', {
         p_property_id: lodgifyPropertyId,
         p_check_date: date.toISOString().split('T')[0],
         p_nights: nights,
+        ...this.toComponentSwitches(options),
       })
       
       if (error) {
@@ -232,43 +240,9 @@ export class PricingService {
       
       let result = this.transformPricingResult(data[0])
       
-      // Modify result based on toggle settings
-      if (!includeSeasonalRates) {
-        // Remove seasonal adjustment (FR-3)
-        result = {
-          ...result,
-          seasonal_adjustment: 0,
-          final_price_per_night: result.base_price - (includeDiscountStrategies ? result.last_minute_discount : 0),
-          total_price: (result.base_price - (includeDiscountStrategies ? result.last_minute_discount : 0)) * nights
-        }
-      }
-      
-      if (!includeDiscountStrategies) {
-        // Remove discount (FR-4)
-        result = {
-          ...result,
-          last_minute_discount: 0,
-          final_price_per_night: result.base_price + (includeSeasonalRates ? result.seasonal_adjustment : 0),
-          total_price: (result.base_price + (includeSeasonalRates ? result.seasonal_adjustment : 0)) * nights
-        }
-      }
-      
-      // FR-5: Both toggles disabled shows only base pricing
-      if (!includeSeasonalRates && !includeDiscountStrategies) {
-        result = {
-          ...result,
-          seasonal_adjustment: 0,
-          last_minute_discount: 0,
-          final_price_per_night: result.base_price,
-          total_price: result.base_price * nights,
-          min_price_enforced: false
-        }
-      }
-      
-      // Ensure minimum price is still enforced if needed
-      if (result.min_price_enforced && result.final_price_per_night < result.base_price) {
-        // This would need property min_price, but we maintain the flag
-        result.min_price_enforced = true
+      // Same rule eligibility as calculate_final_price, for explaining the discount
+      if (includeDiscountStrategies) {
+        result = await this.withLeadTimeRules(result, lodgifyPropertyId, nights)
       }
       
       // Cache the result
@@ -280,6 +254,35 @@ export class PricingService {
     }
   }
   
+  /**
+   * Toggle options as the component switches of calculate_final_price and preview_pricing_calendar
+   */
+  private toComponentSwitches(options: ConditionalPricingOptions) {
+    return {
+      p_include_seasonal: options.includeSeasonalRates ?? true,
+      p_include_weekday: options.includeWeekdayMultipliers ?? true,
+      p_include_discounts: options.includeDiscountStrategies ?? true,
+    }
+  }
+  
+  /**
+   * Attach why each last-minute and early-bird rule did or didn't apply to the night.
+   * The price stands without it, so a failure only loses the explanation.
+   */
+  private async withLeadTimeRules(
+    result: CalculateFinalPriceReturn,
+    lodgifyPropertyId: string,
+    nights: number
+  ): Promise<CalculateFinalPriceReturn> {
+    try {
+      const leadTimeRules = await discountService.explainLeadTimeRules(lodgifyPropertyId, result.check_date, nights)
+      return { ...result, lead_time_rules: leadTimeRules }
+    } catch (error) {
+      console.warn(`Failed to explain discount rules for property ${lodgifyPropertyId}:`, error)
+      return result
+    }
+  }
+  
   /**
    * Load override data for a property within a date range
    * Uses batch loading with composite index for optimal performance
@@ -426,55 +429,20 @@ export class PricingService {
     // Convert UUID to lodgify_property_id for database function
     const lodgifyPropertyId = await this.getLodgifyPropertyId(propertyId)
     
-    // Use bulk function for efficiency
+    // Use bulk function for efficiency; switched-off components are left out by the database
     const { data, error } = await supabase.rpc('preview_pricing_calendar', {
       p_property_id: lodgifyPropertyId,
       p_start_date: dateRange.start.toISOString().split('T')[0],
       p_end_date: dateRange.end.toISOString().split('T')[0],
       p_nights: nights,
+      ...this.toComponentSwitches(options),
     })
     
     if (error) {
       throw new DatabaseError(`Failed to load calendar data: ${error.message}`, 'CALENDAR_LOAD', error)
     }
     
-    let results = data || []
-    
-    // Apply toggle modifications if needed
-    const includeSeasonalRates = options.includeSeasonalRates ?? true
-    const includeDiscountStrategies = options.includeDiscountStrategies ?? true
-    
-    if (!includeSeasonalRates || !includeDiscountStrategies) {
-      results = results.map(day => {
-        let modifiedDay = { ...day }
-        
-        if (!includeSeasonalRates) {
-          // Remove seasonal adjustment
-          modifiedDay.seasonal_adjustment_percent = 0
-          modifiedDay.final_price_per_night = modifiedDay.base_price - 
-            (includeDiscountStrategies ? (modifiedDay.base_price * modifiedDay.last_minute_discount_percent / 100) : 0)
-        }
-        
-        if (!includeDiscountStrategies) {
-          // Remove discount
-          modifiedDay.last_minute_discount_percent = 0
-          modifiedDay.final_price_per_night = modifiedDay.base_price + 
-            (includeSeasonalRates ? (modifiedDay.base_price * modifiedDay.seasonal_adjustment_percent / 100) : 0)
-        }
-        
-        if (!includeSeasonalRates && !includeDiscountStrategies) {
-          // Base price only
-          modifiedDay.seasonal_adjustment_percent = 0
-          modifiedDay.last_minute_discount_percent = 0
-          modifiedDay.final_price_per_night = modifiedDay.base_price
-          modifiedDay.min_price_enforced = false
-        }
-        
-        modifiedDay.total_price = modifiedDay.final_price_per_night * nights
-        
-        return modifiedDay
-      })
-    }
+    const results = data || []
     
     return results.map(result => this.transformPreviewResult(result))
   }
@@ -755,7 +723,7 @@ export class PricingService {
       
       if (priceData) {
         totalPrice += priceData.final_price_per_night
-        if (priceData.last_minute_discount_percent > 0) {
+        if (priceData.last_minute_discount_percent > 0 || (priceData.early_bird_discount_percent || 0) > 0) {
           discountedDays++
         }
       }
@@ -794,14 +762,17 @@ export class PricingService {
   ): CalendarCell {
     const today = new Date()
     today.setHours(0, 0, 0, 0)
+    // Last-minute and early-bird discounts never apply to the same night
+    const leadTimeDiscountPercent =
+      (priceData?.last_minute_discount_percent || 0) + (priceData?.early_bird_discount_percent || 0)
     
     return {
       date,
       price: priceData?.final_price_per_night || 0,
       basePrice: priceData?.base_price || 0,
-      hasDiscount: (priceData?.last_minute_discount_percent || 0) > 0,
+      hasDiscount: leadTimeDiscountPercent > 0,
       discountAmount: priceData ? priceData.base_price - priceData.final_price_per_night : 0,
-      discountPercentage: priceData?.last_minute_discount_percent || 0,
+      discountPercentage: leadTimeDiscountPercent,
       hasSeasonalAdjustment: (priceData?.seasonal_adjustment_percent || 0) !== 0,
       seasonalAdjustmentAmount: priceData ?
         priceData.base_price * (priceData.seasonal_adjustment_percent / 100) : 0,
@@ -0,0 +1,418 @@
+/**
+ * Scenario Service
+ *
+ * Service layer for pricing scenarios: named copies of the base and minimum
+ * prices, seasonal rates and discount strategies that can be edited without
+ * touching live rows. Scenario prices come from preview_scenario_calendar,
+ * which runs the live pricing pipeline on the scenario's copies without writing
+ * live rows; promote_pricing_scenario makes a scenario live in one transaction.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type {
+  Database,
+  PricingScenario,
+  ScenarioPropertyPrice,
+  ScenarioDateRange,
+  ScenarioDiscountStrategy
+} from '@/types/database.types'
+import type { ConditionalPricingOptions } from '@/services/pricing.service'
+
+type ScenarioDateRangeInsert = Database['public']['Tables']['scenario_date_ranges']['Insert']
+type ScenarioCalendarRow = Database['public']['Functions']['preview_scenario_calendar']['Returns'][number]
+
+/**
+ * Error type for scenario operations
+ */
+export class ScenarioError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public scenarioId?: string
+  ) {
+    super(message)
+    this.name = 'ScenarioError'
+  }
+}
+
+/**
+ * Everything a scenario holds
+ */
+export interface ScenarioConfiguration {
+  propertyPrices: ScenarioPropertyPrice[]
+  dateRanges: ScenarioDateRange[]
+  discountStrategies: ScenarioDiscountStrategy[]
+}
+
+/**
+ * Editable fields of a scenario discount strategy
+ */
+export type ScenarioStrategyUpdate = Partial<Pick<
+  ScenarioDiscountStrategy,
+  'is_active' | 'activation_window' | 'min_discount' | 'max_discount'
+>>
+
+/**
+ * Bounds mirror the check constraints on date_ranges and pricing_scenarios
+ */
+export const SCENARIO_LIMITS = {
+  MAX_NAME_LENGTH: 100,
+  MIN_RATE_ADJUSTMENT: -1,
+  MAX_RATE_ADJUSTMENT: 10
+} as const
+
+/**
+ * Scenario Service class
+ */
+export class ScenarioService {
+  /**
+   * List scenarios, newest first
+   */
+  static async listScenarios(): Promise<PricingScenario[]> {
+    const { data, error } = await supabase
+      .from('pricing_scenarios')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new ScenarioError(`Failed to fetch scenarios: ${error.message}`, 'FETCH_ERROR')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Create a scenario holding a copy of the current live configuration
+   *
+   * @returns ID of the new scenario
+   */
+  static async createScenario(name: string, description?: string): Promise<string> {
+    const validationError = this.validateScenarioName(name)
+    if (validationError) {
+      throw new ScenarioError(validationError, 'INVALID_NAME')
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('create_pricing_scenario', {
+      p_scenario_name: name.trim(),
+      p_description: description?.trim() || null
+    })
+
+    if (error || !data) {
+      throw new ScenarioError(
+        error?.code === '23505'
+          ? `A scenario named "${name.trim()}" already exists`
+          : `Failed to create scenario: ${error?.message ?? 'no ID returned'}`,
+        'CREATE_ERROR'
+      )
+    }
+
+    return data
+  }
+
+  /**
+   * Delete a scenario and all its rows
+   */
+  static async deleteScenario(scenarioId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('pricing_scenarios')
+      .delete()
+      .eq('scenario_id', scenarioId)
+
+    if (error) {
+      throw new ScenarioError(`Failed to delete scenario: ${error.message}`, 'DELETE_ERROR', scenarioId)
+    }
+  }
+
+  /**
+   * Load the prices, seasonal rates and discount strategies of a scenario
+   */
+  static async getConfiguration(scenarioId: string): Promise<ScenarioConfiguration> {
+    const [prices, ranges, strategies] = await Promise.all([
+      supabase
+        .from('scenario_property_prices')
+        .select('*')
+        .eq('scenario_id', scenarioId),
+      supabase
+        .from('scenario_date_ranges')
+        .select('*')
+        .eq('scenario_id', scenarioId)
+        .order('start_date', { ascending: true }),
+      supabase
+        .from('scenario_discount_strategies')
+        .select('*')
+        .eq('scenario_id', scenarioId)
+        .order('strategy_name', { ascending: true })
+    ])
+
+    const error = prices.error ?? ranges.error ?? strategies.error
+    if (error) {
+      throw new ScenarioError(`Failed to fetch scenario: ${error.message}`, 'FETCH_ERROR', scenarioId)
+    }
+
+    return {
+      propertyPrices: (prices.data || []).map(row => ({
+        ...row,
+        base_price_per_day: Number(row.base_price_per_day),
+        min_price_per_day: Number(row.min_price_per_day)
+      })),
+      dateRanges: (ranges.data || []).map(row => ({ ...row, discount_rate: Number(row.discount_rate) })),
+      discountStrategies: (strategies.data || []).map(row => ({
+        ...row,
+        min_discount: Number(row.min_discount),
+        max_discount: Number(row.max_discount)
+      }))
+    }
+  }
+
+  /**
+   * Change the base and minimum price of a property in a scenario
+   *
+   * @throws ScenarioError when the prices are invalid or the save fails
+   */
+  static async updatePropertyPrice(
+    scenarioId: string,
+    propertyId: string,
+    prices: Pick<ScenarioPropertyPrice, 'base_price_per_day' | 'min_price_per_day'>
+  ): Promise<void> {
+    const validationError = this.validatePropertyPrice(prices)
+    if (validationError) {
+      throw new ScenarioError(validationError, 'INVALID_PRICE', scenarioId)
+    }
+
+    const { error } = await supabaseAdmin
+      .from('scenario_property_prices')
+      .update({
+        base_price_per_day: Math.round(prices.base_price_per_day * 100) / 100,
+        min_price_per_day: Math.round(prices.min_price_per_day * 100) / 100
+      })
+      .eq('scenario_id', scenarioId)
+      .eq('property_internal_id', propertyId)
+
+    if (error) {
+      throw new ScenarioError(`Failed to update scenario price: ${error.message}`, 'UPDATE_ERROR', scenarioId)
+    }
+
+    await this.touch(scenarioId)
+  }
+
+  /**
+   * Add a seasonal rate to a scenario, or update it when rate_id is given
+   *
+   * @throws ScenarioError when the rate is invalid or overlaps another rate of the same scope
+   */
+  static async saveDateRange(rate: ScenarioDateRangeInsert): Promise<void> {
+    const validationError = this.validateDateRange(rate)
+    if (validationError) {
+      throw new ScenarioError(validationError, 'INVALID_RATE', rate.scenario_id)
+    }
+
+    const { rate_id, scenario_id, ...fields } = { ...rate, rate_name: rate.rate_name.trim() }
+    const { error } = rate_id
+      ? await supabaseAdmin
+          .from('scenario_date_ranges')
+          .update(fields)
+          .eq('scenario_id', scenario_id)
+          .eq('rate_id', rate_id)
+      : await supabaseAdmin
+          .from('scenario_date_ranges')
+          .insert({ ...fields, scenario_id })
+
+    if (error) {
+      throw new ScenarioError(
+        error.code === '23P01'
+          ? 'Date range overlaps with another seasonal rate in this scenario'
+          : `Failed to save scenario seasonal rate: ${error.message}`,
+        'UPDATE_ERROR',
+        rate.scenario_id
+      )
+    }
+
+    await this.touch(rate.scenario_id)
+  }
+
+  /**
+   * Remove a seasonal rate from a scenario
+   */
+  static async deleteDateRange(scenarioId: string, rateId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('scenario_date_ranges')
+      .delete()
+      .eq('scenario_id', scenarioId)
+      .eq('rate_id', rateId)
+
+    if (error) {
+      throw new ScenarioError(`Failed to delete scenario seasonal rate: ${error.message}`, 'DELETE_ERROR', scenarioId)
+    }
+
+    await this.touch(scenarioId)
+  }
+
+  /**
+   * Change a discount strategy in a scenario
+   */
+  static async updateDiscountStrategy(
+    scenarioId: string,
+    strategyId: string,
+    updates: ScenarioStrategyUpdate
+  ): Promise<void> {
+    const min = updates.min_discount
+    const max = updates.max_discount
+    if ((min !== undefined && (min < 0 || min > 1)) || (max !== undefined && (max < 0 || max > 1))) {
+      throw new ScenarioError('Discounts must be between 0% and 100%', 'INVALID_STRATEGY', scenarioId)
+    }
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new ScenarioError('Minimum discount cannot exceed maximum discount', 'INVALID_STRATEGY', scenarioId)
+    }
+
+    const { error } = await supabaseAdmin
+      .from('scenario_discount_strategies')
+      .update(updates)
+      .eq('scenario_id', scenarioId)
+      .eq('strategy_id', strategyId)
+
+    if (error) {
+      throw new ScenarioError(`Failed to update scenario strategy: ${error.message}`, 'UPDATE_ERROR', scenarioId)
+    }
+
+    await this.touch(scenarioId)
+  }
+
+  /**
+   * Calendar prices as they would be with the scenario live
+   *
+   * @param lodgifyPropertyId - TEXT lodgify_property_id, as used by the calendar
+   * @param options - Pricing components to leave out, as for the live calendar
+   * @returns Map keyed by YYYY-MM-DD
+   */
+  static async previewCalendar(
+    scenarioId: string,
+    lodgifyPropertyId: string,
+    startDate: string,
+    endDate: string,
+    nights: number,
+    options: ConditionalPricingOptions = {}
+  ): Promise<Map<string, ScenarioCalendarRow>> {
+    const { data, error } = await supabase.rpc('preview_scenario_calendar', {
+      p_scenario_id: scenarioId,
+      p_property_id: lodgifyPropertyId,
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_nights: nights,
+      p_include_seasonal: options.includeSeasonalRates ?? true,
+      p_include_weekday: options.includeWeekdayMultipliers ?? true,
+      p_include_discounts: options.includeDiscountStrategies ?? true
+    })
+
+    if (error) {
+      throw new ScenarioError(`Failed to preview scenario prices: ${error.message}`, 'PREVIEW_ERROR', scenarioId)
+    }
+
+    return new Map((data || []).map(row => [row.check_date, {
+      ...row,
+      final_price_per_night: Number(row.final_price_per_night),
+      total_price: Number(row.total_price)
+    }]))
+  }
+
+  /**
+   * Make a scenario live in one transaction
+   *
+   * @returns ID of the scenario holding the configuration that was live before,
+   *          which can be promoted to undo
+   */
+  static async promoteScenario(scenarioId: string): Promise<string> {
+    const { data, error } = await supabaseAdmin.rpc('promote_pricing_scenario', {
+      p_scenario_id: scenarioId
+    })
+
+    if (error || !data) {
+      throw new ScenarioError(
+        `Failed to promote scenario: ${error?.message ?? 'no backup scenario returned'}`,
+        'PROMOTE_ERROR',
+        scenarioId
+      )
+    }
+
+    return data
+  }
+
+  /**
+   * Validate a scenario name
+   *
+   * @returns Error message, or null when the name is valid
+   */
+  static validateScenarioName(name: string): string | null {
+    const trimmed = name.trim()
+    if (!trimmed) {
+      return 'Scenario name is required'
+    }
+    if (trimmed.length > SCENARIO_LIMITS.MAX_NAME_LENGTH) {
+      return `Scenario name must be at most ${SCENARIO_LIMITS.MAX_NAME_LENGTH} characters`
+    }
+    return null
+  }
+
+  /**
+   * Validate scenario prices against the database bounds
+   *
+   * @returns Error message, or null when the prices are valid
+   */
+  static validatePropertyPrice(
+    prices: Pick<ScenarioPropertyPrice, 'base_price_per_day' | 'min_price_per_day'>
+  ): string | null {
+    const { base_price_per_day, min_price_per_day } = prices
+
+    if (!Number.isFinite(base_price_per_day) || base_price_per_day <= 0) {
+      return 'Base price must be greater than zero'
+    }
+    if (!Number.isFinite(min_price_per_day) || min_price_per_day <= 0) {
+      return 'Minimum price must be greater than zero'
+    }
+    if (min_price_per_day > base_price_per_day) {
+      return 'Minimum price cannot exceed base price'
+    }
+    return null
+  }
+
+  /**
+   * Validate a scenario seasonal rate against the database bounds
+   *
+   * @returns Error message, or null when the rate is valid
+   */
+  static validateDateRange(
+    rate: Pick<ScenarioDateRangeInsert, 'rate_name' | 'start_date' | 'end_date' | 'discount_rate' | 'scope_type' | 'property_internal_id' | 'property_group_id'>
+  ): string | null {
+    const { MIN_RATE_ADJUSTMENT, MAX_RATE_ADJUSTMENT } = SCENARIO_LIMITS
+
+    if (!rate.rate_name.trim()) {
+      return 'Rate name is required'
+    }
+    if (!rate.start_date || !rate.end_date || rate.start_date > rate.end_date) {
+      return 'End date must be on or after start date'
+    }
+    if (!Number.isFinite(rate.discount_rate) || rate.discount_rate < MIN_RATE_ADJUSTMENT || rate.discount_rate > MAX_RATE_ADJUSTMENT) {
+      return `Adjustment must be between ${MIN_RATE_ADJUSTMENT * 100}% and +${MAX_RATE_ADJUSTMENT * 100}%`
+    }
+    if (rate.scope_type === 'property' && !rate.property_internal_id) {
+      return 'Select a property for a property-scoped rate'
+    }
+    if (rate.scope_type === 'group' && !rate.property_group_id) {
+      return 'Select a property group for a group-scoped rate'
+    }
+    return null
+  }
+
+  /**
+   * Mark a scenario as changed
+   */
+  private static async touch(scenarioId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('pricing_scenarios')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('scenario_id', scenarioId)
+
+    if (error) {
+      console.warn('Failed to update scenario timestamp:', error)
+    }
+  }
+}
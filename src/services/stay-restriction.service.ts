@@ -0,0 +1,313 @@
+/**
+ * Stay Restriction Service
+ *
+ * Service layer for the booking rules a seasonal period can carry: minimum and
+ * maximum stay, allowed arrival weekdays and allowed departure weekdays.
+ * The rules are stored on date_ranges, resolved per night by get_stay_restrictions
+ * and emitted in the Lodgify payload. They never change prices.
+ */
+
+import { parseISO, differenceInCalendarDays } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import type { DateRange, SeasonalRateScope } from '@/types/database'
+import { WEEKDAY_LABELS } from './weekday-multiplier.service'
+
+/**
+ * Error type for stay restriction operations
+ */
+export class StayRestrictionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'StayRestrictionError'
+  }
+}
+
+/**
+ * Rules for stays arriving in a period; null means no rule
+ * Weekdays use Date.getDay() numbering (0 = Sunday ... 6 = Saturday)
+ */
+export interface StayRestrictions {
+  minStay: number | null
+  maxStay: number | null
+  arrivalDays: number[] | null
+  departureDays: number[] | null
+}
+
+/**
+ * An existing booking that breaks the rules of a period
+ */
+export interface StayRestrictionConflict {
+  bookingId: string
+  propertyId: string
+  guestName: string
+  arrivalDate: string
+  departureDate: string
+  violations: string[]
+}
+
+/**
+ * Bounds mirror the check constraints on date_ranges
+ */
+export const STAY_RESTRICTION_LIMITS = {
+  MIN_STAY: 1,
+  MAX_STAY: 365
+} as const
+
+/**
+ * Empty and all-seven weekday lists both mean "any day"
+ */
+const normalizeDays = (days: number[] | null | undefined): number[] | null => {
+  if (!days || days.length === 0) return null
+  const unique = Array.from(new Set(days)).sort((a, b) => a - b)
+  return unique.length === 7 ? null : unique
+}
+
+const formatDays = (days: number[]): string =>
+  days.map(day => WEEKDAY_LABELS[day]).join('/')
+
+/**
+ * Stay Restriction Service class
+ */
+export class StayRestrictionService {
+  /**
+   * Load the restrictions for each night of a range
+   *
+   * @param propertyId - Property UUID (properties.id)
+   * @returns Map keyed by YYYY-MM-DD; nights without rules are absent
+   */
+  static async getRestrictionsByDate(
+    propertyId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Map<string, StayRestrictions>> {
+    if (!propertyId) {
+      throw new StayRestrictionError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const { data, error } = await supabase.rpc('get_stay_restrictions', {
+      p_property_internal_id: propertyId,
+      p_start_date: startDate,
+      p_end_date: endDate
+    })
+
+    if (error) {
+      throw new StayRestrictionError(
+        `Failed to fetch stay restrictions: ${error.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    return new Map((data || []).map(row => [row.stay_date, this.fromRow(row)]))
+  }
+
+  /**
+   * Read the restriction columns of a date_ranges row
+   */
+  static fromRow(
+    row: Pick<DateRange, 'min_stay' | 'max_stay' | 'arrival_days' | 'departure_days'>
+  ): StayRestrictions {
+    return this.normalize({
+      minStay: row.min_stay,
+      maxStay: row.max_stay,
+      arrivalDays: row.arrival_days,
+      departureDays: row.departure_days
+    })
+  }
+
+  /**
+   * Find confirmed and pending bookings arriving in a period that break its rules
+   *
+   * @param scope - Scope of the seasonal rate; targetId is the property or group UUID
+   */
+  static async findConflictingBookings(
+    restrictions: StayRestrictions,
+    scope: { scopeType: SeasonalRateScope; targetId?: string | null },
+    startDate: string,
+    endDate: string
+  ): Promise<StayRestrictionConflict[]> {
+    const rules = this.normalize(restrictions)
+    if (!this.hasRestrictions(rules)) {
+      return []
+    }
+
+    let propertyIds: string[] | null = null
+    if (scope.scopeType === 'property') {
+      propertyIds = scope.targetId ? [scope.targetId] : []
+    } else if (scope.scopeType === 'group') {
+      const { data: members, error: membersError } = await supabase
+        .from('property_group_members')
+        .select('property_internal_id')
+        .eq('group_id', scope.targetId ?? '')
+
+      if (membersError) {
+        throw new StayRestrictionError(
+          `Failed to fetch property group members: ${membersError.message}`,
+          'FETCH_ERROR'
+        )
+      }
+      propertyIds = (members || []).map(member => member.property_internal_id)
+    }
+
+    if (propertyIds && propertyIds.length === 0) {
+      return []
+    }
+
+    let query = supabase
+      .from('bookings')
+      .select('*')
+      .in('booking_status', ['confirmed', 'pending'])
+      .gte('arrival_date', startDate)
+      .lte('arrival_date', endDate)
+      .order('arrival_date', { ascending: true })
+
+    if (propertyIds) {
+      query = query.in('property_internal_id', propertyIds)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new StayRestrictionError(
+        `Failed to fetch bookings: ${error.message}`,
+        'FETCH_ERROR'
+      )
+    }
+
+    return (data || []).flatMap(booking => {
+      const violations = this.getStayViolations(rules, booking.arrival_date, booking.departure_date)
+      return violations.length > 0
+        ? [{
+            bookingId: booking.booking_id,
+            propertyId: booking.property_id,
+            guestName: booking.guest_name,
+            arrivalDate: booking.arrival_date,
+            departureDate: booking.departure_date,
+            violations
+          }]
+        : []
+    })
+  }
+
+  /**
+   * Describe how a stay breaks the rules
+   *
+   * @returns One message per broken rule; empty when the stay is allowed
+   */
+  static getStayViolations(
+    restrictions: StayRestrictions | undefined,
+    arrivalDate: string,
+    departureDate: string
+  ): string[] {
+    if (!restrictions) return []
+
+    const { minStay, maxStay, arrivalDays, departureDays } = restrictions
+    const violations: string[] = []
+    const nights = differenceInCalendarDays(parseISO(departureDate), parseISO(arrivalDate))
+
+    if (minStay !== null && nights < minStay) {
+      violations.push(`${nights}-night stay is shorter than the ${minStay}-night minimum`)
+    }
+    if (maxStay !== null && nights > maxStay) {
+      violations.push(`${nights}-night stay is longer than the ${maxStay}-night maximum`)
+    }
+
+    const arrivalDay = parseISO(arrivalDate).getDay()
+    if (arrivalDays && !arrivalDays.includes(arrivalDay)) {
+      violations.push(`Arrival on ${WEEKDAY_LABELS[arrivalDay]} is not allowed (${formatDays(arrivalDays)} only)`)
+    }
+
+    const departureDay = parseISO(departureDate).getDay()
+    if (departureDays && !departureDays.includes(departureDay)) {
+      violations.push(`Departure on ${WEEKDAY_LABELS[departureDay]} is not allowed (${formatDays(departureDays)} only)`)
+    }
+
+    return violations
+  }
+
+  /**
+   * Narrow a stay length range to the rules
+   *
+   * @returns The allowed range, or null when no stay in the range is allowed
+   */
+  static clampStayLength(
+    minStay: number,
+    maxStay: number,
+    restrictions: StayRestrictions | undefined
+  ): { minStay: number; maxStay: number } | null {
+    const clampedMin = Math.max(minStay, restrictions?.minStay ?? minStay)
+    const clampedMax = Math.min(maxStay, restrictions?.maxStay ?? maxStay)
+    return clampedMin <= clampedMax ? { minStay: clampedMin, maxStay: clampedMax } : null
+  }
+
+  /**
+   * Validate restrictions against the database bounds
+   *
+   * @returns Error message, or null when the restrictions are valid
+   */
+  static validateRestrictions(restrictions: StayRestrictions): string | null {
+    const { minStay, maxStay, arrivalDays, departureDays } = restrictions
+    const { MIN_STAY, MAX_STAY } = STAY_RESTRICTION_LIMITS
+
+    for (const [label, value] of [['Minimum stay', minStay], ['Maximum stay', maxStay]] as const) {
+      if (value !== null && (!Number.isInteger(value) || value < MIN_STAY || value > MAX_STAY)) {
+        return `${label} must be a whole number between ${MIN_STAY} and ${MAX_STAY} nights`
+      }
+    }
+
+    if (minStay !== null && maxStay !== null && minStay > maxStay) {
+      return 'Minimum stay cannot be longer than maximum stay'
+    }
+
+    const days = [...(arrivalDays ?? []), ...(departureDays ?? [])]
+    if (days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Weekdays must be between 0 (Sunday) and 6 (Saturday)'
+    }
+
+    return null
+  }
+
+  /**
+   * Canonical form: sorted weekday lists, with "every day" stored as null
+   */
+  static normalize(restrictions: StayRestrictions): StayRestrictions {
+    return {
+      minStay: restrictions.minStay ?? null,
+      maxStay: restrictions.maxStay ?? null,
+      arrivalDays: normalizeDays(restrictions.arrivalDays),
+      departureDays: normalizeDays(restrictions.departureDays)
+    }
+  }
+
+  /**
+   * Whether any rule is set
+   */
+  static hasRestrictions(restrictions: StayRestrictions | undefined): boolean {
+    if (!restrictions) return false
+    const { minStay, maxStay, arrivalDays, departureDays } = this.normalize(restrictions)
+    return minStay !== null || maxStay !== null || arrivalDays !== null || departureDays !== null
+  }
+
+  /**
+   * Short human-readable summary, e.g. "Min 7 nights · Arrive Sat · Depart Sat"
+   */
+  static describe(restrictions: StayRestrictions): string {
+    const { minStay, maxStay, arrivalDays, departureDays } = this.normalize(restrictions)
+    const parts: string[] = []
+
+    if (minStay !== null && minStay === maxStay) {
+      parts.push(`${minStay} nights exactly`)
+    } else {
+      if (minStay !== null) parts.push(`Min ${minStay} nights`)
+      if (maxStay !== null) parts.push(`Max ${maxStay} nights`)
+    }
+    if (arrivalDays) parts.push(`Arrive ${formatDays(arrivalDays)}`)
+    if (departureDays) parts.push(`Depart ${formatDays(departureDays)}`)
+
+    return parts.join(' · ')
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Sync History Service
+ *
+ * Lists sync runs recorded in sync_operations (hourly, retried and manual rate
+ * syncs, booking imports) and re-runs a property's sync. A re-run generates the
+ * property's current payload; it does not resend the stored one, which may hold
+ * prices that have changed since.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type { SyncOperation } from '@/types/database.types'
+import { lodgifyPayloadService } from './lodgifyPayloadService'
+import { syncPricingToLodgify } from './lodgify/lodgifyApiClient'
+import { importLodgifyBookings, BOOKING_IMPORT_OPERATION } from './lodgify/lodgifyBookingImport'
+import { getDefaultStayLengthCategories } from '@/utils/dateRangeGenerator'
+import { PRICING_CONSTANTS } from '@/types/helpers'
+
+/**
+ * Bounds for history listing
+ */
+export const SYNC_HISTORY_LIMITS = {
+  DEFAULT_PAGE_SIZE: 50,
+  MAX_PAGE_SIZE: 200
+} as const
+
+/**
+ * Error type for sync history operations
+ */
+export class SyncHistoryError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public operationId?: string
+  ) {
+    super(message)
+    this.name = 'SyncHistoryError'
+  }
+}
+
+/**
+ * Filters for the history list; dates are YYYY-MM-DD and inclusive
+ */
+export interface SyncHistoryFilters {
+  propertyId?: string
+  status?: string
+  triggerSource?: string
+  startDate?: string
+  endDate?: string
+}
+
+/**
+ * A sync run with its property
+ */
+export interface SyncRun extends SyncOperation {
+  properties: { property_name: string; lodgify_property_id: string } | null
+}
+
+/**
+ * Outcome of a re-run
+ */
+export interface SyncRerunResult {
+  success: boolean
+  message: string
+  syncOperationId?: string
+}
+
+// The list leaves out request_payload and api_response; a run's detail loads them
+const LIST_COLUMNS = [
+  'id', 'property_id', 'operation_type', 'status', 'trigger_source', 'trigger_details',
+  'total_records', 'processed_records', 'payload_size_kb', 'api_status_code',
+  'error_message', 'retry_count', 'max_retries', 'next_retry_at', 'duration_ms',
+  'sync_mode', 'change_summary', 'started_at', 'completed_at', 'created_at'
+].join(', ')
+
+/**
+ * Sync History Service class
+ */
+export class SyncHistoryService {
+  /**
+   * Sync runs matching the filters, newest first
+   */
+  static async getRuns(
+    filters: SyncHistoryFilters = {},
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ runs: SyncRun[]; totalCount: number }> {
+    const limit = Math.min(options.limit ?? SYNC_HISTORY_LIMITS.DEFAULT_PAGE_SIZE, SYNC_HISTORY_LIMITS.MAX_PAGE_SIZE)
+    const offset = options.offset ?? 0
+
+    let query = supabase
+      .from('sync_operations')
+      .select(`${LIST_COLUMNS}, properties(property_name, lodgify_property_id)`, { count: 'exact' })
+      .order('started_at', { ascending: false, nullsFirst: false })
+      .range(offset, offset + limit - 1)
+
+    if (filters.propertyId) query = query.eq('property_id', filters.propertyId)
+    if (filters.status) query = query.eq('status', filters.status)
+    if (filters.triggerSource) query = query.eq('trigger_source', filters.triggerSource)
+    if (filters.startDate) query = query.gte('started_at', `${filters.startDate}T00:00:00`)
+    if (filters.endDate) query = query.lte('started_at', `${filters.endDate}T23:59:59.999`)
+
+    const { data, error, count } = await query
+
+    if (error) {
+      throw new SyncHistoryError(`Failed to fetch sync history: ${error.message}`, 'FETCH_ERROR')
+    }
+
+    return { runs: (data || []) as unknown as SyncRun[], totalCount: count ?? 0 }
+  }
+
+  /**
+   * One sync run with the payload sent and the API response
+   */
+  static async getRun(operationId: string): Promise<SyncRun> {
+    const { data, error } = await supabase
+      .from('sync_operations')
+      .select('*, properties(property_name, lodgify_property_id)')
+      .eq('id', operationId)
+      .maybeSingle()
+
+    if (error) {
+      throw new SyncHistoryError(`Failed to fetch sync run: ${error.message}`, 'FETCH_ERROR', operationId)
+    }
+    if (!data) {
+      throw new SyncHistoryError(`Sync run not found: ${operationId}`, 'NOT_FOUND', operationId)
+    }
+
+    return data as unknown as SyncRun
+  }
+
+  /**
+   * Trigger sources present in the history, for the filter list
+   */
+  static async getTriggerSources(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('sync_operations')
+      .select('trigger_source')
+      .not('trigger_source', 'is', null)
+      .order('started_at', { ascending: false })
+      .limit(1000)
+
+    if (error) {
+      throw new SyncHistoryError(`Failed to fetch trigger sources: ${error.message}`, 'FETCH_ERROR')
+    }
+
+    return [...new Set((data || []).map(row => row.trigger_source as string))].sort()
+  }
+
+  /**
+   * Whether a run can be re-run from the app; runs covering every property
+   * (the hourly parent run) cannot
+   */
+  static canRerun(run: Pick<SyncOperation, 'property_id' | 'status'>): boolean {
+    return Boolean(run.property_id) && run.status !== 'processing'
+  }
+
+  /**
+   * Run a property's sync again: a booking import imports again, a rate sync
+   * pushes the property's current prices
+   */
+  static async rerun(operationId: string): Promise<SyncRerunResult> {
+    const run = await this.getRun(operationId)
+
+    if (!this.canRerun(run)) {
+      throw new SyncHistoryError('This sync run cannot be re-run', 'NOT_RERUNNABLE', operationId)
+    }
+
+    if (run.operation_type === BOOKING_IMPORT_OPERATION) {
+      const result = await importLodgifyBookings(run.property_id, { triggerSource: 'rerun', rerunOf: operationId })
+      return { success: result.success, message: result.summary, syncOperationId: result.syncOperationId }
+    }
+
+    const lodgifyPropertyId = run.properties?.lodgify_property_id
+    if (!lodgifyPropertyId) {
+      throw new SyncHistoryError(`Property not found for sync run ${operationId}`, 'PROPERTY_NOT_FOUND', operationId)
+    }
+
+    const startDate = new Date()
+    const endDate = new Date(startDate)
+    endDate.setFullYear(endDate.getFullYear() + PRICING_CONSTANTS.LODGIFY_SYNC_YEARS)
+
+    const { payloads } = await lodgifyPayloadService.generatePayload({
+      properties: [lodgifyPropertyId],
+      startDate,
+      endDate,
+      stayLengthCategories: getDefaultStayLengthCategories(),
+      includeDefaultRate: true,
+      optimizeRanges: true,
+      includeOverrides: true
+    })
+
+    if (payloads.length === 0) {
+      throw new SyncHistoryError(`No payload generated for property ${lodgifyPropertyId}`, 'GENERATION_ERROR', operationId)
+    }
+
+    const result = await syncPricingToLodgify(run.property_id, payloads[0], {
+      triggerSource: 'rerun',
+      rerunOf: operationId
+    })
+    return { success: result.success, message: result.message, syncOperationId: result.syncOperationId }
+  }
+}
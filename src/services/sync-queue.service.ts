@@ -0,0 +1,90 @@
+/**
+ * Sync Queue Service
+ *
+ * Reads the Lodgify sync job queue: property syncs waiting for a retry and
+ * syncs that used up their retries (dead letter). Retries are scheduled by the
+ * lodgify-sync-automation edge function and run by process_sync_retry_queue.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type { SyncOperation } from '@/types/database.types'
+
+/**
+ * Queue states of a property sync
+ */
+export const SYNC_JOB_STATUS = {
+  RETRY_SCHEDULED: 'failed',
+  DEAD_LETTER: 'dead_letter'
+} as const
+
+/**
+ * Error type for sync queue operations
+ */
+export class SyncQueueError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public operationId?: string
+  ) {
+    super(message)
+    this.name = 'SyncQueueError'
+  }
+}
+
+/**
+ * A queued sync job with its property
+ */
+export interface SyncJob extends SyncOperation {
+  properties: { property_name: string; lodgify_property_id: string } | null
+}
+
+/**
+ * Sync Queue Service class
+ */
+export class SyncQueueService {
+  /**
+   * Jobs waiting for a retry (soonest first) and dead-lettered jobs (newest first)
+   */
+  static async getJobs(limit: number = 100): Promise<{ scheduled: SyncJob[]; deadLetter: SyncJob[] }> {
+    const { data, error } = await supabase
+      .from('sync_operations')
+      .select('*, properties(property_name, lodgify_property_id)')
+      .in('status', [SYNC_JOB_STATUS.RETRY_SCHEDULED, SYNC_JOB_STATUS.DEAD_LETTER])
+      .not('property_id', 'is', null)
+      .order('completed_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new SyncQueueError(`Failed to fetch sync jobs: ${error.message}`, 'FETCH_ERROR')
+    }
+
+    const jobs = (data || []) as unknown as SyncJob[]
+    return {
+      scheduled: jobs
+        .filter(job => job.status === SYNC_JOB_STATUS.RETRY_SCHEDULED && job.next_retry_at)
+        .sort((a, b) => a.next_retry_at!.localeCompare(b.next_retry_at!)),
+      deadLetter: jobs.filter(job => job.status === SYNC_JOB_STATUS.DEAD_LETTER)
+    }
+  }
+
+  /**
+   * Make a failed or dead-lettered job due now and run the queue
+   * A dead-lettered job gets one more attempt
+   */
+  static async retryNow(operationId: string): Promise<void> {
+    if (!operationId) {
+      throw new SyncQueueError('Invalid sync operation ID provided', 'INVALID_OPERATION_ID')
+    }
+
+    const { error } = await supabase.rpc('retry_sync_job_now', { p_operation_id: operationId })
+    if (error) {
+      throw new SyncQueueError(`Failed to schedule retry: ${error.message}`, 'RETRY_ERROR', operationId)
+    }
+
+    // The job is due either way; if the queue is busy the next run picks it up
+    const { error: processError } = await supabase.rpc('process_sync_retry_queue')
+    if (processError) {
+      console.error('Error running sync retry queue:', processError)
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Weekday Multiplier Service
+ *
+ * Service layer for per-property day-of-week price adjustments
+ * (e.g. +15% on Friday/Saturday nights). The adjustment itself is applied
+ * by calculate_final_price after the seasonal rate.
+ */
+
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import type { Database } from '@/types/database.generated'
+
+type WeekdayMultiplierInsert = Database['public']['Tables']['property_weekday_multipliers']['Insert']
+
+/**
+ * Error type for weekday multiplier operations
+ */
+export class WeekdayMultiplierError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public propertyId?: string
+  ) {
+    super(message)
+    this.name = 'WeekdayMultiplierError'
+  }
+}
+
+/**
+ * Adjustment rates indexed by day of week (0 = Sunday ... 6 = Saturday),
+ * matching Postgres EXTRACT(DOW). 0.15 = +15%
+ */
+export type WeekdayAdjustments = [number, number, number, number, number, number, number]
+
+/**
+ * Bounds mirror the check constraint on property_weekday_multipliers
+ */
+export const WEEKDAY_ADJUSTMENT_LIMITS = {
+  MIN: -0.5,
+  MAX: 1
+} as const
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const
+
+export const EMPTY_WEEKDAY_ADJUSTMENTS: WeekdayAdjustments = [0, 0, 0, 0, 0, 0, 0]
+
+/**
+ * Weekday Multiplier Service class
+ */
+export class WeekdayMultiplierService {
+  /**
+   * Load the weekday adjustments for a property
+   * Days without a stored row default to 0 (no adjustment)
+   *
+   * @param propertyId - Property UUID (properties.id)
+   */
+  static async getAdjustments(propertyId: string): Promise<WeekdayAdjustments> {
+    if (!propertyId) {
+      throw new WeekdayMultiplierError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const { data, error } = await supabase
+      .from('property_weekday_multipliers')
+      .select('day_of_week, adjustment_rate')
+      .eq('property_internal_id', propertyId)
+
+    if (error) {
+      throw new WeekdayMultiplierError(
+        `Failed to fetch weekday multipliers: ${error.message}`,
+        'FETCH_ERROR',
+        propertyId
+      )
+    }
+
+    const adjustments: WeekdayAdjustments = [...EMPTY_WEEKDAY_ADJUSTMENTS]
+    data?.forEach(row => {
+      adjustments[row.day_of_week] = Number(row.adjustment_rate)
+    })
+
+    return adjustments
+  }
+
+  /**
+   * Save all seven weekday adjustments for a property in one upsert
+   *
+   * @param propertyId - Property UUID (properties.id)
+   * @param adjustments - Adjustment rates indexed by day of week
+   * @throws WeekdayMultiplierError when a rate is out of bounds or the save fails
+   */
+  static async saveAdjustments(
+    propertyId: string,
+    adjustments: WeekdayAdjustments
+  ): Promise<WeekdayAdjustments> {
+    if (!propertyId) {
+      throw new WeekdayMultiplierError('Invalid property ID provided', 'INVALID_PROPERTY_ID')
+    }
+
+    const validationError = this.validateAdjustments(adjustments)
+    if (validationError) {
+      throw new WeekdayMultiplierError(validationError, 'INVALID_ADJUSTMENT', propertyId)
+    }
+
+    const rows: WeekdayMultiplierInsert[] = adjustments.map((rate, dayOfWeek) => ({
+      property_internal_id: propertyId,
+      day_of_week: dayOfWeek,
+      // Database stores 4 decimal places
+      adjustment_rate: Math.round(rate * 10000) / 10000
+    }))
+
+    const { error } = await supabaseAdmin
+      .from('property_weekday_multipliers')
+      .upsert(rows, { onConflict: 'property_internal_id,day_of_week' })
+
+    if (error) {
+      throw new WeekdayMultiplierError(
+        `Failed to save weekday multipliers: ${error.message}`,
+        'UPDATE_ERROR',
+        propertyId
+      )
+    }
+
+    return rows.map(row => row.adjustment_rate) as WeekdayAdjustments
+  }
+
+  /**
+   * Validate adjustment rates against the database bounds
+   *
+   * @returns Error message, or null when all rates are valid
+   */
+  static validateAdjustments(adjustments: number[]): string | null {
+    if (adjustments.length !== 7) {
+      return 'Exactly seven weekday adjustments are required'
+    }
+
+    for (let day = 0; day < adjustments.length; day++) {
+      const rate = adjustments[day]
+      if (!Number.isFinite(rate)) {
+        return `${WEEKDAY_LABELS[day]} adjustment must be a number`
+      }
+      if (rate < WEEKDAY_ADJUSTMENT_LIMITS.MIN || rate > WEEKDAY_ADJUSTMENT_LIMITS.MAX) {
+        return `${WEEKDAY_LABELS[day]} adjustment must be between ${WEEKDAY_ADJUSTMENT_LIMITS.MIN * 100}% and +${WEEKDAY_ADJUSTMENT_LIMITS.MAX * 100}%`
+      }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,316 @@
+// Lodgify API simulator
+// Stands in for api.lodgify.com in tests: validates rate pushes with the same
+// rules as validateLodgifyPayload, keeps each property's rate calendar in memory,
+// serves reservations and injects faults (429 with Retry-After, 5xx, timeouts,
+// partial failures).
+//
+// In vitest:      server.use(...simulator.handlers)
+// Edge function:  startLodgifySimulatorServer(simulator) and point the function at
+//                 the returned url with LODGIFY_API_BASE_URL
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { http, HttpResponse, delay } from 'msw'
+import { validateLodgifyPayload } from '@/services/lodgify/lodgifyValidation'
+import type { LodgifyPayload, LodgifyRate, LodgifyReservation } from '@/services/lodgify/lodgifyTypes'
+
+export const LODGIFY_BASE_URL = 'https://api.lodgify.com'
+export const RATES_PATH = '/v1/rates/savewithoutavailability'
+export const RESERVATIONS_PATH = '/v2/reservations/bookings'
+
+/**
+ * Faults the simulator can inject, consumed one per request in order
+ * (optionally only by requests to one endpoint)
+ */
+export type LodgifyFault =
+  | { type: 'rate_limit'; retryAfterSeconds?: number }
+  | { type: 'server_error'; status?: 500 | 502 | 503 | 504 }
+  | { type: 'timeout'; delayMs: number }            // Responds after delayMs; clients time out first
+  | { type: 'partial'; acceptedRates: number }      // Stores the first N dated rates, then fails with 500
+
+/**
+ * Request as seen by the simulator
+ */
+export interface SimulatedRequest {
+  method: string
+  path: string
+  apiKey: string | null
+  body: unknown
+  status: number
+}
+
+/**
+ * Simulated HTTP response, shared by the msw handlers and the HTTP server
+ */
+interface SimulatedResponse {
+  status: number
+  headers?: Record<string, string>
+  body: unknown
+  delayMs?: number
+}
+
+const nextDay = (date: string): string => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+export class LodgifySimulator {
+  // Nightly rates per property: "YYYY-MM-DD|min-max" -> rate
+  private calendars = new Map<number, Map<string, LodgifyRate>>()
+  private defaults = new Map<number, LodgifyRate>()
+  private reservations: LodgifyReservation[] = []
+  private faults: Array<{ fault: LodgifyFault; path?: string }> = []
+  readonly requests: SimulatedRequest[] = []
+
+  constructor(
+    private readonly options: { apiKeys?: string[]; baseUrl?: string } = {}
+  ) {}
+
+  /**
+   * Queue a fault for the next request(s), to any endpoint or only to path
+   */
+  injectFault(
+    fault: LodgifyFault,
+    times: number = 1,
+    path?: typeof RATES_PATH | typeof RESERVATIONS_PATH
+  ): void {
+    for (let i = 0; i < times; i++) {
+      this.faults.push({ fault, path })
+    }
+  }
+
+  /**
+   * Add reservations served by the bookings endpoint
+   */
+  addReservations(...reservations: LodgifyReservation[]): void {
+    this.reservations.push(...reservations)
+  }
+
+  /**
+   * Forget calendars, reservations, queued faults and the request log
+   */
+  reset(): void {
+    this.calendars.clear()
+    this.defaults.clear()
+    this.reservations = []
+    this.faults = []
+    this.requests.length = 0
+  }
+
+  /**
+   * Rate Lodgify would charge for a night and stay length; dated rates win over the default
+   */
+  getNightlyRate(propertyId: number, date: string, stayLength: number): LodgifyRate | null {
+    for (const [key, rate] of this.calendars.get(propertyId) ?? []) {
+      if (key.startsWith(`${date}|`) && stayLength >= rate.min_stay && stayLength <= rate.max_stay) {
+        return rate
+      }
+    }
+    return this.defaults.get(propertyId) ?? null
+  }
+
+  /**
+   * Number of nights holding a dated rate, over all stay categories
+   */
+  getStoredNightCount(propertyId: number): number {
+    return this.calendars.get(propertyId)?.size ?? 0
+  }
+
+  /**
+   * Handle a rate push (POST /v1/rates/savewithoutavailability)
+   */
+  handleRatesPush(apiKey: string | null, body: unknown): SimulatedResponse {
+    const denied = this.checkApiKey(apiKey)
+    if (denied) return denied
+
+    const fault = this.takeFault(RATES_PATH)
+    if (fault && fault.type !== 'partial') {
+      return this.faultResponse(fault)
+    }
+
+    const validation = validateLodgifyPayload(body)
+    if (!validation.valid) {
+      return { status: 400, body: { message: 'Invalid rates payload', errors: validation.errors } }
+    }
+
+    const payload = body as LodgifyPayload
+    const dated = payload.rates.filter(rate => !rate.is_default)
+    const accepted = fault?.type === 'partial' ? dated.slice(0, fault.acceptedRates) : dated
+
+    // Rates are saved as sent: the default replaces the default, dated rates replace
+    // the nights they cover in their stay category, other nights keep their rate
+    const defaultRate = payload.rates.find(rate => rate.is_default)
+    if (defaultRate && fault?.type !== 'partial') {
+      this.defaults.set(payload.property_id, defaultRate)
+    }
+    const calendar = this.calendars.get(payload.property_id) ?? new Map<string, LodgifyRate>()
+    this.calendars.set(payload.property_id, calendar)
+    for (const rate of accepted) {
+      for (let date = rate.start_date!; date <= rate.end_date!; date = nextDay(date)) {
+        calendar.set(`${date}|${rate.min_stay}-${rate.max_stay}`, rate)
+      }
+    }
+
+    if (fault?.type === 'partial') {
+      return {
+        status: 500,
+        body: { message: `Saved ${accepted.length} of ${dated.length} rates before failing` }
+      }
+    }
+
+    return { status: 200, body: { message: 'Rates saved', requestId: `sim-${this.requests.length + 1}` } }
+  }
+
+  /**
+   * Handle a reservations page (GET /v2/reservations/bookings)
+   */
+  handleReservations(apiKey: string | null, params: URLSearchParams): SimulatedResponse {
+    const denied = this.checkApiKey(apiKey)
+    if (denied) return denied
+
+    const fault = this.takeFault(RESERVATIONS_PATH)
+    if (fault) {
+      return this.faultResponse(fault)
+    }
+
+    const page = Math.max(1, Number(params.get('page') ?? 1))
+    const size = Math.max(1, Number(params.get('size') ?? 50))
+    const updatedSince = params.get('updatedSince')
+    const matching = this.reservations.filter(reservation =>
+      !updatedSince || !reservation.updated_at || reservation.updated_at >= updatedSince
+    )
+
+    return {
+      status: 200,
+      body: {
+        count: params.get('includeCount') === 'true' ? matching.length : undefined,
+        items: matching.slice((page - 1) * size, page * size)
+      }
+    }
+  }
+
+  /**
+   * msw handlers for the simulated endpoints
+   */
+  get handlers() {
+    const baseUrl = this.options.baseUrl ?? LODGIFY_BASE_URL
+
+    return [
+      http.post(`${baseUrl}${RATES_PATH}`, async ({ request }) => {
+        const body = await request.json().catch(() => null)
+        const response = this.handleRatesPush(request.headers.get('X-ApiKey'), body)
+        this.record('POST', RATES_PATH, request.headers.get('X-ApiKey'), body, response.status)
+        return this.toMswResponse(response)
+      }),
+      http.get(`${baseUrl}${RESERVATIONS_PATH}`, async ({ request }) => {
+        const url = new URL(request.url)
+        const response = this.handleReservations(request.headers.get('X-ApiKey'), url.searchParams)
+        this.record('GET', RESERVATIONS_PATH, request.headers.get('X-ApiKey'), null, response.status)
+        return this.toMswResponse(response)
+      })
+    ]
+  }
+
+  /**
+   * Route a raw HTTP request; used by startLodgifySimulatorServer
+   */
+  handleHttp(method: string, url: URL, apiKey: string | null, rawBody: string): SimulatedResponse {
+    let response: SimulatedResponse
+    let body: unknown = null
+
+    if (method === 'POST' && url.pathname === RATES_PATH) {
+      try {
+        body = rawBody ? JSON.parse(rawBody) : null
+      } catch {
+        body = null
+      }
+      response = this.handleRatesPush(apiKey, body)
+    } else if (method === 'GET' && url.pathname === RESERVATIONS_PATH) {
+      response = this.handleReservations(apiKey, url.searchParams)
+    } else {
+      response = { status: 404, body: { message: `No simulated endpoint for ${method} ${url.pathname}` } }
+    }
+
+    this.record(method, url.pathname, apiKey, body, response.status)
+    return response
+  }
+
+  private checkApiKey(apiKey: string | null): SimulatedResponse | null {
+    const allowed = this.options.apiKeys
+    if (!apiKey || (allowed && allowed.length > 0 && !allowed.includes(apiKey))) {
+      return { status: 401, body: { message: 'Invalid or missing API key' } }
+    }
+    return null
+  }
+
+  private takeFault(path: string): LodgifyFault | undefined {
+    const index = this.faults.findIndex(queued => !queued.path || queued.path === path)
+    return index === -1 ? undefined : this.faults.splice(index, 1)[0].fault
+  }
+
+  private faultResponse(fault: LodgifyFault): SimulatedResponse {
+    switch (fault.type) {
+      case 'rate_limit':
+        return {
+          status: 429,
+          headers: { 'Retry-After': String(fault.retryAfterSeconds ?? 1) },
+          body: { message: 'Too many requests' }
+        }
+      case 'server_error':
+        return { status: fault.status ?? 500, body: { message: 'Simulated server error' } }
+      case 'timeout':
+        return { status: 504, body: { message: 'Simulated timeout' }, delayMs: fault.delayMs }
+      case 'partial':
+        return { status: 500, body: { message: 'Simulated partial failure' } }
+    }
+  }
+
+  private record(method: string, path: string, apiKey: string | null, body: unknown, status: number): void {
+    this.requests.push({ method, path, apiKey, body, status })
+  }
+
+  private async toMswResponse(response: SimulatedResponse) {
+    if (response.delayMs) {
+      await delay(response.delayMs)
+    }
+    return HttpResponse.json(response.body as Record<string, unknown>, {
+      status: response.status,
+      headers: response.headers
+    })
+  }
+}
+
+/**
+ * Serve a simulator over HTTP, for code that cannot be intercepted by msw
+ * (the Deno edge function)
+ *
+ * @returns Base URL to use as LODGIFY_API_BASE_URL and a close function
+ */
+export async function startLodgifySimulatorServer(
+  simulator: LodgifySimulator,
+  port: number = 0
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = createServer((req, res) => {
+    let rawBody = ''
+    req.on('data', chunk => { rawBody += chunk })
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      const apiKey = (req.headers['x-apikey'] as string | undefined) ?? null
+      const response = simulator.handleHttp(req.method ?? 'GET', url, apiKey, rawBody)
+
+      setTimeout(() => {
+        if (res.destroyed) return
+        res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers })
+        res.end(JSON.stringify(response.body))
+      }, response.delayMs ?? 0)
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve))
+  const { port: boundPort } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())))
+  }
+}
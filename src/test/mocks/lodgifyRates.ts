@@ -0,0 +1,30 @@
+// Lodgify rate fixtures
+// Small builders for rates and payloads in the shape the payload generators emit:
+// a 2-6 night default with a guest fee of 20 from the third guest, and dated rates
+// in the 2-6 night category unless a test gives another.
+import type { LodgifyPayload, LodgifyRate } from '@/types/lodgify'
+
+export const FIXTURE_PROPERTY_ID = 327020
+
+export const guestFee = { price_per_additional_guest: 20, additional_guests_starts_from: 3 }
+
+export const defaultRate = (price: number = 150): LodgifyRate => ({
+  is_default: true, price_per_day: price, min_stay: 2, max_stay: 6, ...guestFee
+})
+
+export const rate = (
+  start: string,
+  end: string,
+  price: number,
+  minStay: number = 2,
+  maxStay: number = 6,
+  extra: Partial<LodgifyRate> = {}
+): LodgifyRate => ({
+  is_default: false, start_date: start, end_date: end, price_per_day: price, min_stay: minStay, max_stay: maxStay, ...guestFee, ...extra
+})
+
+export const propertyPayload = (propertyId: number, ...rates: LodgifyRate[]): LodgifyPayload => ({
+  property_id: propertyId, room_type_id: 1, rates
+})
+
+export const payload = (...rates: LodgifyRate[]): LodgifyPayload => propertyPayload(FIXTURE_PROPERTY_ID, ...rates)
@@ -1,6 +1,10 @@
 // Mock Service Worker server configuration
 import { setupServer } from 'msw/node'
 import { http, HttpResponse } from 'msw'
+import { LodgifySimulator } from './lodgify'
+
+// Shared Lodgify API simulator; call lodgifySimulator.reset() between tests
+export const lodgifySimulator = new LodgifySimulator()
 
 // Define handlers for Supabase API endpoints
 export const handlers = [
@@ -78,6 +82,9 @@ export const handlers = [
     ])
   }),
 
+  // Simulated Lodgify rates and reservations endpoints
+  ...lodgifySimulator.handlers,
+
   // Default handler for unmatched requests
   http.all('*', ({ request }) => {
     console.warn(`Unhandled ${request.method} request to ${request.url}`)
@@ -0,0 +1,241 @@
+// In-memory Supabase client
+// Covers the query builder calls the Lodgify sync code makes (select, insert,
+// update, upsert, delete with eq/neq/in/is/gte/lte/or filters, order, limit,
+// single/maybeSingle) and rpc calls answered by registered handlers.
+//
+// In vitest:      vi.mock('@/lib/supabase', ...) returning a fake as supabase/supabaseAdmin
+// Edge function:  pass the fake where a SupabaseClient is expected
+
+type Row = Record<string, unknown>
+type Filter = (row: Row) => boolean
+
+interface QueryResult {
+  data: unknown
+  error: { message: string; code?: string } | null
+}
+
+/**
+ * Handler for an rpc call; throw to return an error
+ */
+export type RpcHandler = (args: Record<string, unknown>) => unknown
+
+export interface SupabaseFake {
+  tables: Record<string, Row[]>
+  rpcCalls: Array<{ fn: string; args: Record<string, unknown> }>
+  rpcHandlers: Record<string, RpcHandler>
+  from: (table: string) => FakeQuery
+  rpc: (fn: string, args?: Record<string, unknown>) => Promise<QueryResult>
+  reset: (tables?: Record<string, Row[]>) => void
+}
+
+const compare = (a: unknown, b: unknown): number => {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return String(a) < String(b) ? -1 : 1
+}
+
+// "col.eq.value,col.is.null" as used by .or()
+const parseOrFilter = (expression: string): Filter => {
+  const conditions = expression.split(',').map(part => {
+    const [column, operator, ...rest] = part.split('.')
+    const value = rest.join('.')
+    return (row: Row) => operator === 'is' && value === 'null'
+      ? row[column] === null || row[column] === undefined
+      : operator === 'eq' && String(row[column]) === value
+  })
+  return row => conditions.some(condition => condition(row))
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select'
+  private values: Row[] = []
+  private changes: Row = {}
+  private conflictKey = 'id'
+  private returning = false
+  private filters: Filter[] = []
+  private ordering: Array<{ column: string; ascending: boolean }> = []
+  private maxRows: number | null = null
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private readonly rows: Row[]) {}
+
+  select(): this {
+    if (this.operation !== 'select') this.returning = true
+    return this
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  update(changes: Row): this {
+    this.operation = 'update'
+    this.changes = changes
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.operation = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.conflictKey = options.onConflict ?? 'id'
+    return this
+  }
+
+  delete(): this {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where(row => row[column] === value)
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(row => row[column] !== value)
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where(row => values.includes(row[column]))
+  }
+
+  is(column: string, value: null): this {
+    return this.where(row => (row[column] ?? null) === value)
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where(row => compare(row[column], value) >= 0)
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where(row => compare(row[column], value) <= 0)
+  }
+
+  or(expression: string): this {
+    return this.where(parseOrFilter(expression))
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending ?? true })
+    return this
+  }
+
+  limit(count: number): this {
+    this.maxRows = count
+    return this
+  }
+
+  single(): this {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private where(filter: Filter): this {
+    this.filters.push(filter)
+    return this
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter(row => this.filters.every(filter => filter(row)))
+  }
+
+  private execute(): QueryResult {
+    let result: Row[]
+
+    switch (this.operation) {
+      case 'select': {
+        result = [...this.matching()]
+        for (const { column, ascending } of [...this.ordering].reverse()) {
+          result.sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1))
+        }
+        if (this.maxRows !== null) result = result.slice(0, this.maxRows)
+        this.returning = true
+        break
+      }
+      case 'insert':
+        result = this.values.map(value => ({ id: crypto.randomUUID(), ...value }))
+        this.rows.push(...result)
+        break
+      case 'update':
+        result = this.matching()
+        result.forEach(row => Object.assign(row, this.changes))
+        break
+      case 'upsert':
+        result = this.values.map(value => {
+          const existing = this.rows.find(row => row[this.conflictKey] === value[this.conflictKey])
+          if (existing) return Object.assign(existing, value)
+          const inserted = { id: crypto.randomUUID(), ...value }
+          this.rows.push(inserted)
+          return inserted
+        })
+        break
+      case 'delete':
+        result = this.matching()
+        for (const row of result) this.rows.splice(this.rows.indexOf(row), 1)
+        break
+    }
+
+    if (!this.returning) {
+      return { data: null, error: null }
+    }
+    if (this.cardinality === 'many') {
+      return { data: result.map(row => ({ ...row })), error: null }
+    }
+    if (result.length > 1 || (result.length === 0 && this.cardinality === 'single')) {
+      return {
+        data: null,
+        error: { message: `JSON object requested, ${result.length} rows returned`, code: 'PGRST116' }
+      }
+    }
+    return { data: result[0] ? { ...result[0] } : null, error: null }
+  }
+}
+
+/**
+ * Create an in-memory client holding the given table rows
+ */
+export function createSupabaseFake(tables: Record<string, Row[]> = {}): SupabaseFake {
+  const fake: SupabaseFake = {
+    tables: {},
+    rpcCalls: [],
+    rpcHandlers: {},
+    from: table => {
+      fake.tables[table] ??= []
+      return new FakeQuery(fake.tables[table])
+    },
+    rpc: async (fn, args = {}) => {
+      fake.rpcCalls.push({ fn, args })
+      const handler = fake.rpcHandlers[fn]
+      if (!handler) {
+        return { data: null, error: { message: `Could not find the function public.${fn}` } }
+      }
+      try {
+        return { data: await handler(args), error: null }
+      } catch (error) {
+        return { data: null, error: { message: error instanceof Error ? error.message : String(error) } }
+      }
+    },
+    reset: (nextTables = {}) => {
+      fake.tables = structuredClone(nextTables)
+      fake.rpcCalls = []
+      fake.rpcHandlers = {}
+    }
+  }
+
+  fake.reset(tables)
+  return fake
+}
@@ -15,6 +15,91 @@ export interface Database {
         Insert: Omit<import('./database').DateRange, 'created_at' | 'updated_at'>
         Update: Partial<Omit<import('./database').DateRange, 'rate_id' | 'created_at' | 'updated_at'>>
       }
+      property_groups: {
+        Row: import('./database').PropertyGroup
+        Insert: Omit<import('./database').PropertyGroup, 'group_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').PropertyGroup, 'group_id' | 'created_at' | 'updated_at'>>
+      }
+      property_group_members: {
+        Row: import('./database').PropertyGroupMember
+        Insert: Omit<import('./database').PropertyGroupMember, 'created_at'>
+        Update: Partial<Omit<import('./database').PropertyGroupMember, 'created_at'>>
+      }
+      property_weekday_multipliers: {
+        Row: import('./database').PropertyWeekdayMultiplier
+        Insert: Omit<import('./database').PropertyWeekdayMultiplier, 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').PropertyWeekdayMultiplier, 'property_internal_id' | 'day_of_week' | 'created_at' | 'updated_at'>>
+      }
+      property_length_of_stay_discounts: {
+        Row: import('./database').PropertyLengthOfStayDiscount
+        Insert: Omit<import('./database').PropertyLengthOfStayDiscount, 'tier_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').PropertyLengthOfStayDiscount, 'tier_id' | 'property_internal_id' | 'created_at' | 'updated_at'>>
+      }
+      demand_pricing_settings: {
+        Row: import('./database').DemandPricingSettings
+        Insert: Omit<import('./database').DemandPricingSettings, 'settings_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').DemandPricingSettings, 'settings_id' | 'created_at' | 'updated_at'>>
+      }
+      gap_filler_settings: {
+        Row: import('./database').GapFillerSettings
+        Insert: Omit<import('./database').GapFillerSettings, 'settings_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').GapFillerSettings, 'settings_id' | 'created_at' | 'updated_at'>>
+      }
+      discount_stacking_policies: {
+        Row: import('./database').DiscountStackingPolicy
+        Insert: Omit<import('./database').DiscountStackingPolicy, 'policy_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').DiscountStackingPolicy, 'policy_id' | 'created_at' | 'updated_at'>>
+      }
+      discount_experiments: {
+        Row: import('./database').DiscountExperiment
+        Insert: Omit<import('./database').DiscountExperiment, 'experiment_id' | 'status' | 'stopped_at' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').DiscountExperiment, 'experiment_id' | 'created_at'>>
+      }
+      discount_experiment_properties: {
+        Row: import('./database').DiscountExperimentProperty
+        Insert: import('./database').DiscountExperimentProperty
+        Update: Partial<import('./database').DiscountExperimentProperty>
+      }
+      exchange_rates: {
+        Row: import('./database').ExchangeRate
+        Insert: Omit<import('./database').ExchangeRate, 'rate_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').ExchangeRate, 'rate_id' | 'created_at' | 'updated_at'>>
+      }
+      currency_settings: {
+        Row: import('./database').CurrencySettings
+        Insert: Omit<import('./database').CurrencySettings, 'settings_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').CurrencySettings, 'settings_id' | 'created_at' | 'updated_at'>>
+      }
+      pricing_scenarios: {
+        Row: import('./database').PricingScenario
+        Insert: Omit<import('./database').PricingScenario, 'scenario_id' | 'status' | 'promoted_at' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').PricingScenario, 'scenario_id' | 'created_at'>>
+      }
+      scenario_property_prices: {
+        Row: import('./database').ScenarioPropertyPrice
+        Insert: import('./database').ScenarioPropertyPrice
+        Update: Partial<Omit<import('./database').ScenarioPropertyPrice, 'scenario_id' | 'property_internal_id'>>
+      }
+      scenario_date_ranges: {
+        Row: import('./database').ScenarioDateRange
+        Insert: Omit<import('./database').ScenarioDateRange, 'created_at' | 'updated_at'>
+        Update: Partial<Omit<import('./database').ScenarioDateRange, 'scenario_id' | 'rate_id' | 'created_at' | 'updated_at'>>
+      }
+      scenario_discount_strategies: {
+        Row: import('./database').ScenarioDiscountStrategy
+        Insert: import('./database').ScenarioDiscountStrategy
+        Update: Partial<Omit<import('./database').ScenarioDiscountStrategy, 'scenario_id' | 'strategy_id'>>
+      }
+      scenario_discount_rules: {
+        Row: import('./database').ScenarioDiscountRule
+        Insert: import('./database').ScenarioDiscountRule
+        Update: Partial<Omit<import('./database').ScenarioDiscountRule, 'scenario_id' | 'rule_id'>>
+      }
+      pricing_change_log: {
+        Row: import('./database').PricingChangeLogEntry
+        Insert: never  // Written by triggers only
+        Update: never  // Append-only
+      }
       bookings: {
         Row: import('./database').Booking
         Insert: Omit<import('./database').Booking, 'id' | 'created_at' | 'updated_at'>
@@ -9,17 +9,182 @@ export interface Property {
   property_name: string
   base_price_per_day: number
   min_price_per_day: number
+  base_occupancy: number        // Guests included in the nightly price
+  max_guests: number
+  extra_guest_fee: number       // Per night, for each guest above base_occupancy
+  currency: string              // ISO 4217 code the property is priced in
   active_discount_strategy_id: string | null
   created_at: string | null
   updated_at: string | null
 }
 
+/**
+ * Who a seasonal rate applies to. When several rates cover the same night the
+ * most specific scope wins: property, then group, then global.
+ */
+export type SeasonalRateScope = 'global' | 'group' | 'property'
+
 export interface DateRange {
   rate_id: string
   rate_name: string
   start_date: string
   end_date: string
   discount_rate: number  // Adjustment rate (-1 to 10, negative = discount)
+  scope_type: SeasonalRateScope
+  property_internal_id: string | null  // UUID reference to properties.id (scope_type = 'property')
+  property_group_id: string | null     // UUID reference to property_groups.group_id (scope_type = 'group')
+  // Stay restrictions for arrivals in this period (null = no rule, weekdays 0 = Sunday)
+  min_stay: number | null
+  max_stay: number | null
+  arrival_days: number[] | null
+  departure_days: number[] | null
+  extra_guest_fee: number | null  // Seasonal extra guest fee per night (null = property fee)
+  created_at: string | null
+  updated_at: string | null
+}
+
+export interface PropertyGroup {
+  group_id: string
+  group_name: string
+  description: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+export interface PropertyGroupMember {
+  group_id: string
+  property_internal_id: string  // UUID reference to properties.id
+  created_at: string | null
+}
+
+/**
+ * Day-of-week price adjustment for a property.
+ * day_of_week follows Postgres EXTRACT(DOW): 0 = Sunday ... 6 = Saturday
+ */
+export interface PropertyWeekdayMultiplier {
+  property_internal_id: string  // UUID reference to properties.id
+  day_of_week: number
+  adjustment_rate: number  // 0.15 = +15%, -0.05 = -5%
+  created_at: string | null
+  updated_at: string | null
+}
+
+/**
+ * Length-of-stay discount tier for a property.
+ * The highest min_nights the stay reaches wins; tiers do not stack
+ */
+export interface PropertyLengthOfStayDiscount {
+  tier_id: string
+  property_internal_id: string  // UUID reference to properties.id
+  min_nights: number
+  discount_rate: number  // 0.10 = 10% off the nightly rate
+  created_at: string | null
+  updated_at: string | null
+}
+
+export type OccupancyBasis = 'property' | 'portfolio'
+
+/**
+ * Occupancy-driven pricing settings.
+ * property_internal_id null is the portfolio default; a property row overrides it
+ */
+export interface DemandPricingSettings {
+  settings_id: string
+  property_internal_id: string | null
+  is_enabled: boolean
+  occupancy_basis: OccupancyBasis
+  sensitivity: number   // Rate change per unit of occupancy difference (0.5: +10 points = +5%)
+  max_increase: number  // 0.2 = prices rise at most 20%
+  max_decrease: number  // 0.1 = prices fall at most 10%
+  created_at: string | null
+  updated_at: string | null
+}
+
+/**
+ * Gap-night filler settings.
+ * property_internal_id null is the portfolio default; a property row overrides it
+ */
+export interface GapFillerSettings {
+  settings_id: string
+  property_internal_id: string | null
+  is_enabled: boolean
+  max_gap_nights: number  // Gaps of this many nights or fewer get the filler discount
+  discount_rate: number   // 0.15 = 15% off gap nights
+  created_at: string | null
+  updated_at: string | null
+}
+
+export type DiscountStackingMode = 'compound' | 'additive'
+export type DiscountKind = 'lead_time' | 'gap' | 'length_of_stay'  // lead_time = last-minute or early-bird
+export type DiscountOrder = 'after_adjustments' | 'before_adjustments'
+export type MinPriceStage = 'final' | 'before_discounts'
+
+/**
+ * How the discounts on a night combine.
+ * property_internal_id null is the portfolio default; a property row overrides it
+ */
+export interface DiscountStackingPolicy {
+  policy_id: string
+  property_internal_id: string | null
+  stacking_mode: DiscountStackingMode   // compound: each off what the previous left; additive: rates summed
+  exclusive_discounts: DiscountKind[]   // Only the largest of these that applies is kept
+  max_total_discount: number | null     // 0.4 = discounts together take at most 40% off; null = no cap
+  discount_order: DiscountOrder         // before_adjustments: discounts worked out on the base price
+  min_price_stage: MinPriceStage        // before_discounts: discounts may go below the minimum
+  created_at: string | null
+  updated_at: string | null
+}
+
+export type ExperimentAssignmentMode = 'property' | 'alternating_weeks'
+export type ExperimentStatus = 'draft' | 'running' | 'stopped'
+export type ExperimentArm = 'a' | 'b'
+
+/**
+ * A/B test of two last-minute strategies over a fixed period.
+ * The arm strategies are copies taken when the experiment was created
+ */
+export interface DiscountExperiment {
+  experiment_id: string
+  experiment_name: string
+  strategy_a_id: string
+  strategy_b_id: string
+  assignment_mode: ExperimentAssignmentMode  // alternating_weeks: A in the first week from start_date, B in the next...
+  start_date: string
+  end_date: string
+  status: ExperimentStatus                   // Only running experiments change prices
+  stopped_at: string | null
+  notes: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+export interface DiscountExperimentProperty {
+  experiment_id: string
+  property_internal_id: string
+  arm: ExperimentArm | null  // null when weeks alternate
+}
+
+/**
+ * Manually entered exchange rate snapshot: 1 base_currency = rate quote_currency
+ * from effective_date until a later snapshot of the same pair
+ */
+export interface ExchangeRate {
+  rate_id: string
+  base_currency: string
+  quote_currency: string
+  rate: number
+  effective_date: string
+  notes: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+/**
+ * Portfolio reporting currency (single row)
+ */
+export interface CurrencySettings {
+  settings_id: string
+  reporting_currency: string | null  // NULL = report in each property's own currency
   created_at: string | null
   updated_at: string | null
 }
@@ -38,15 +203,31 @@ export interface Booking {
   updated_at?: string
 }
 
+// last_minute applies within activation_window days of check-in; early_bird from activation_window days out
+export type DiscountStrategyType = 'last_minute' | 'early_bird'
+
+// A control point of a custom discount curve
+// (a type alias rather than an interface so it can be stored as Json)
+export type CurvePoint = {
+  days: number      // Days before check-in
+  discount: number  // 0.15 = 15% off
+}
+
+export type CurveInterpolation = 'linear' | 'stepped'
+
 export interface DiscountStrategy {
   strategy_id: string
   strategy_name: string
   property_internal_id?: string  // UUID, null = all properties
+  strategy_type?: DiscountStrategyType  // defaults to last_minute
   activation_window: number
   min_discount: number
   max_discount: number
   curve_type: string
+  curve_points?: CurvePoint[] | null           // Set when curve_type is 'custom'
+  curve_interpolation?: CurveInterpolation | null
   is_active: boolean
+  is_experiment_arm?: boolean                  // Copy a discount experiment prices an arm with
   valid_from?: string
   valid_until?: string
 }
@@ -60,6 +241,62 @@ export interface DiscountRule {
   applicable_days?: string[]  // JSONB array
 }
 
+// What happened to a rule for a night: it priced it, the lead time has not reached it,
+// its min_nights / applicable_days ruled it out, or another rule came first
+export type RuleEvaluationStatus = 'applied' | 'not_reached' | 'ineligible' | 'superseded'
+
+export type PricingScenarioStatus = 'draft' | 'promoted'
+
+/**
+ * Named what-if pricing configuration. Its rows are copies of the live
+ * configuration and only reach live tables when the scenario is promoted
+ */
+export interface PricingScenario {
+  scenario_id: string
+  scenario_name: string
+  description: string | null
+  status: PricingScenarioStatus
+  promoted_at: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+export interface ScenarioPropertyPrice {
+  scenario_id: string
+  property_internal_id: string
+  base_price_per_day: number
+  min_price_per_day: number
+  active_discount_strategy_id: string | null  // strategy_id within the same scenario
+}
+
+// Scenario copies keep the identifiers of the live rows they were copied from
+export type ScenarioDateRange = DateRange & { scenario_id: string }
+export type ScenarioDiscountStrategy = DiscountStrategy & { scenario_id: string }
+export type ScenarioDiscountRule = DiscountRule & { scenario_id: string }
+
+export type PricingChangeAction = 'insert' | 'update' | 'delete'
+
+/**
+ * Append-only record of one change to a pricing input, written by database triggers
+ */
+export interface PricingChangeLogEntry {
+  change_id: number
+  changed_at: string
+  changed_by: string
+  source_table: string   // e.g. 'properties', 'date_ranges', 'price_overrides'
+  record_id: string      // Primary key of the changed row (composite keys joined with ':')
+  action: PricingChangeAction
+  scope_type: SeasonalRateScope
+  property_internal_id: string | null
+  property_group_id: string | null
+  affected_start: string | null  // First night affected (null = every night)
+  affected_end: string | null
+  changed_fields: string[]
+  old_values: Record<string, unknown> | null
+  new_values: Record<string, unknown> | null
+  reason: string | null
+}
+
 export interface PriceOverride {
   id: string
   property_id: string  // References properties.lodgify_property_id
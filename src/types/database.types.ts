@@ -22,6 +22,10 @@ export interface Database {
           property_name: string
           base_price_per_day: number
           min_price_per_day: number
+          base_occupancy: number
+          max_guests: number
+          extra_guest_fee: number
+          currency: string  // ISO 4217 code the property is priced in
           active_discount_strategy_id: string | null  // Reference to active discount strategy
           created_at: string | null
           updated_at: string | null
@@ -34,6 +38,10 @@ export interface Database {
           property_name: string
           base_price_per_day: number
           min_price_per_day: number
+          base_occupancy?: number
+          max_guests?: number
+          extra_guest_fee?: number
+          currency?: string
           active_discount_strategy_id?: string | null
           created_at?: string | null
           updated_at?: string | null
@@ -46,6 +54,10 @@ export interface Database {
           property_name?: string
           base_price_per_day?: number
           min_price_per_day?: number
+          base_occupancy?: number
+          max_guests?: number
+          extra_guest_fee?: number
+          currency?: string
           active_discount_strategy_id?: string | null
           created_at?: string | null
           updated_at?: string | null
@@ -59,29 +71,653 @@ export interface Database {
           start_date: string
           end_date: string
           discount_rate: number
+          scope_type: 'global' | 'group' | 'property'
+          property_internal_id: string | null
+          property_group_id: string | null
+          min_stay: number | null
+          max_stay: number | null
+          arrival_days: number[] | null
+          departure_days: number[] | null
+          extra_guest_fee: number | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          rate_id?: string
+          rate_name: string
+          start_date: string
+          end_date: string
+          discount_rate: number
+          scope_type?: 'global' | 'group' | 'property'
+          property_internal_id?: string | null
+          property_group_id?: string | null
+          min_stay?: number | null
+          max_stay?: number | null
+          arrival_days?: number[] | null
+          departure_days?: number[] | null
+          extra_guest_fee?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          rate_id?: string
+          rate_name?: string
+          start_date?: string
+          end_date?: string
+          discount_rate?: number
+          scope_type?: 'global' | 'group' | 'property'
+          property_internal_id?: string | null
+          property_group_id?: string | null
+          min_stay?: number | null
+          max_stay?: number | null
+          arrival_days?: number[] | null
+          departure_days?: number[] | null
+          extra_guest_fee?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      property_groups: {
+        Row: {
+          group_id: string
+          group_name: string
+          description: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          group_id?: string
+          group_name: string
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          group_id?: string
+          group_name?: string
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      property_group_members: {
+        Row: {
+          group_id: string
+          property_internal_id: string
+          created_at: string | null
+        }
+        Insert: {
+          group_id: string
+          property_internal_id: string
+          created_at?: string | null
+        }
+        Update: {
+          group_id?: string
+          property_internal_id?: string
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      property_weekday_multipliers: {
+        Row: {
+          property_internal_id: string  // UUID reference to properties.id
+          day_of_week: number           // 0 = Sunday ... 6 = Saturday
+          adjustment_rate: number       // 0.15 = +15%
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          property_internal_id: string
+          day_of_week: number
+          adjustment_rate?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          property_internal_id?: string
+          day_of_week?: number
+          adjustment_rate?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      property_length_of_stay_discounts: {
+        Row: {
+          tier_id: string
+          property_internal_id: string  // UUID reference to properties.id
+          min_nights: number
+          discount_rate: number         // 0.10 = 10% off
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          tier_id?: string
+          property_internal_id: string
+          min_nights: number
+          discount_rate: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          tier_id?: string
+          property_internal_id?: string
+          min_nights?: number
+          discount_rate?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      demand_pricing_settings: {
+        Row: {
+          settings_id: string
+          property_internal_id: string | null  // NULL = portfolio default
+          is_enabled: boolean
+          occupancy_basis: 'property' | 'portfolio'
+          sensitivity: number
+          max_increase: number
+          max_decrease: number
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          settings_id?: string
+          property_internal_id?: string | null
+          is_enabled?: boolean
+          occupancy_basis?: 'property' | 'portfolio'
+          sensitivity?: number
+          max_increase?: number
+          max_decrease?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          settings_id?: string
+          property_internal_id?: string | null
+          is_enabled?: boolean
+          occupancy_basis?: 'property' | 'portfolio'
+          sensitivity?: number
+          max_increase?: number
+          max_decrease?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      blocked_dates: {
+        Row: {
+          block_id: string
+          property_internal_id: string
+          start_date: string
+          end_date: string    // Last blocked night (inclusive)
+          reason: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          block_id?: string
+          property_internal_id: string
+          start_date: string
+          end_date: string
+          reason?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          block_id?: string
+          property_internal_id?: string
+          start_date?: string
+          end_date?: string
+          reason?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      gap_filler_settings: {
+        Row: {
+          settings_id: string
+          property_internal_id: string | null  // NULL = portfolio default
+          is_enabled: boolean
+          max_gap_nights: number
+          discount_rate: number
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          settings_id?: string
+          property_internal_id?: string | null
+          is_enabled?: boolean
+          max_gap_nights?: number
+          discount_rate?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          settings_id?: string
+          property_internal_id?: string | null
+          is_enabled?: boolean
+          max_gap_nights?: number
+          discount_rate?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      discount_stacking_policies: {
+        Row: {
+          policy_id: string
+          property_internal_id: string | null  // NULL = portfolio default
+          stacking_mode: string                // 'compound' | 'additive'
+          exclusive_discounts: string[]        // 'lead_time' | 'gap' | 'length_of_stay'
+          max_total_discount: number | null
+          discount_order: string               // 'after_adjustments' | 'before_adjustments'
+          min_price_stage: string              // 'final' | 'before_discounts'
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          policy_id?: string
+          property_internal_id?: string | null
+          stacking_mode?: string
+          exclusive_discounts?: string[]
+          max_total_discount?: number | null
+          discount_order?: string
+          min_price_stage?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          policy_id?: string
+          property_internal_id?: string | null
+          stacking_mode?: string
+          exclusive_discounts?: string[]
+          max_total_discount?: number | null
+          discount_order?: string
+          min_price_stage?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      discount_experiments: {
+        Row: {
+          experiment_id: string
+          experiment_name: string
+          strategy_a_id: string
+          strategy_b_id: string
+          assignment_mode: string              // 'property' | 'alternating_weeks'
+          start_date: string
+          end_date: string
+          status: string                       // 'draft' | 'running' | 'stopped'
+          stopped_at: string | null
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          experiment_id?: string
+          experiment_name: string
+          strategy_a_id: string
+          strategy_b_id: string
+          assignment_mode: string
+          start_date: string
+          end_date: string
+          status?: string
+          stopped_at?: string | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          experiment_id?: string
+          experiment_name?: string
+          strategy_a_id?: string
+          strategy_b_id?: string
+          assignment_mode?: string
+          start_date?: string
+          end_date?: string
+          status?: string
+          stopped_at?: string | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      discount_experiment_properties: {
+        Row: {
+          experiment_id: string
+          property_internal_id: string
+          arm: string | null                   // 'a' | 'b'; NULL when weeks alternate
+        }
+        Insert: {
+          experiment_id: string
+          property_internal_id: string
+          arm?: string | null
+        }
+        Update: {
+          experiment_id?: string
+          property_internal_id?: string
+          arm?: string | null
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          rate_id: string
+          base_currency: string
+          quote_currency: string
+          rate: number            // 1 base_currency = rate quote_currency
+          effective_date: string  // DATE, applies from this day until a later snapshot
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          rate_id?: string
+          base_currency: string
+          quote_currency: string
+          rate: number
+          effective_date?: string
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          rate_id?: string
+          base_currency?: string
+          quote_currency?: string
+          rate?: number
+          effective_date?: string
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      currency_settings: {
+        Row: {
+          settings_id: string
+          reporting_currency: string | null  // NULL = no conversion
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          settings_id?: string
+          reporting_currency?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          settings_id?: string
+          reporting_currency?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      pricing_scenarios: {
+        Row: {
+          scenario_id: string
+          scenario_name: string
+          description: string | null
+          status: 'draft' | 'promoted'
+          promoted_at: string | null  // Set when the scenario was made live
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          scenario_id?: string
+          scenario_name: string
+          description?: string | null
+          status?: 'draft' | 'promoted'
+          promoted_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          scenario_id?: string
+          scenario_name?: string
+          description?: string | null
+          status?: 'draft' | 'promoted'
+          promoted_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      scenario_property_prices: {
+        Row: {
+          scenario_id: string
+          property_internal_id: string
+          base_price_per_day: number
+          min_price_per_day: number
+          active_discount_strategy_id: string | null  // strategy_id within the same scenario
+        }
+        Insert: {
+          scenario_id: string
+          property_internal_id: string
+          base_price_per_day: number
+          min_price_per_day: number
+          active_discount_strategy_id?: string | null
+        }
+        Update: {
+          scenario_id?: string
+          property_internal_id?: string
+          base_price_per_day?: number
+          min_price_per_day?: number
+          active_discount_strategy_id?: string | null
+        }
+        Relationships: []
+      }
+      scenario_date_ranges: {
+        Row: {
+          scenario_id: string
+          rate_id: string
+          rate_name: string
+          start_date: string
+          end_date: string
+          discount_rate: number
+          scope_type: 'global' | 'group' | 'property'
+          property_internal_id: string | null
+          property_group_id: string | null
+          min_stay: number | null
+          max_stay: number | null
+          arrival_days: number[] | null
+          departure_days: number[] | null
+          extra_guest_fee: number | null
           created_at: string | null
           updated_at: string | null
         }
         Insert: {
+          scenario_id: string
           rate_id?: string
           rate_name: string
           start_date: string
           end_date: string
           discount_rate: number
+          scope_type?: 'global' | 'group' | 'property'
+          property_internal_id?: string | null
+          property_group_id?: string | null
+          min_stay?: number | null
+          max_stay?: number | null
+          arrival_days?: number[] | null
+          departure_days?: number[] | null
+          extra_guest_fee?: number | null
           created_at?: string | null
           updated_at?: string | null
         }
         Update: {
+          scenario_id?: string
           rate_id?: string
           rate_name?: string
           start_date?: string
           end_date?: string
           discount_rate?: number
+          scope_type?: 'global' | 'group' | 'property'
+          property_internal_id?: string | null
+          property_group_id?: string | null
+          min_stay?: number | null
+          max_stay?: number | null
+          arrival_days?: number[] | null
+          departure_days?: number[] | null
+          extra_guest_fee?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      scenario_discount_strategies: {
+        Row: {
+          scenario_id: string
+          strategy_id: string
+          strategy_name: string
+          property_internal_id: string | null
+          strategy_type: string
+          activation_window: number
+          min_discount: number
+          max_discount: number
+          curve_type: string
+          curve_points: Json | null
+          curve_interpolation: string | null
+          is_active: boolean
+          valid_from: string | null
+          valid_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          scenario_id: string
+          strategy_id?: string
+          strategy_name: string
+          property_internal_id?: string | null
+          strategy_type?: string
+          activation_window: number
+          min_discount: number
+          max_discount: number
+          curve_type: string
+          curve_points?: Json | null
+          curve_interpolation?: string | null
+          is_active?: boolean
+          valid_from?: string | null
+          valid_until?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          scenario_id?: string
+          strategy_id?: string
+          strategy_name?: string
+          property_internal_id?: string | null
+          strategy_type?: string
+          activation_window?: number
+          min_discount?: number
+          max_discount?: number
+          curve_type?: string
+          curve_points?: Json | null
+          curve_interpolation?: string | null
+          is_active?: boolean
+          valid_from?: string | null
+          valid_until?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      scenario_discount_rules: {
+        Row: {
+          scenario_id: string
+          rule_id: string
+          strategy_id: string
+          days_before_checkin: number
+          discount_percentage: number
+          min_nights: number | null
+          applicable_days: Json | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          scenario_id: string
+          rule_id?: string
+          strategy_id: string
+          days_before_checkin: number
+          discount_percentage: number
+          min_nights?: number | null
+          applicable_days?: Json | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          scenario_id?: string
+          rule_id?: string
+          strategy_id?: string
+          days_before_checkin?: number
+          discount_percentage?: number
+          min_nights?: number | null
+          applicable_days?: Json | null
           created_at?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      pricing_change_log: {
+        Row: {
+          change_id: number
+          changed_at: string
+          changed_by: string
+          source_table: string
+          record_id: string       // Primary key of the changed row (composite keys joined with ':')
+          action: 'insert' | 'update' | 'delete'
+          scope_type: 'global' | 'group' | 'property'
+          property_internal_id: string | null
+          property_group_id: string | null
+          affected_start: string | null  // DATE, NULL = every night
+          affected_end: string | null    // DATE
+          changed_fields: string[]
+          old_values: Json | null
+          new_values: Json | null
+          reason: string | null
+        }
+        Insert: {
+          change_id?: number
+          changed_at?: string
+          changed_by: string
+          source_table: string
+          record_id: string
+          action: 'insert' | 'update' | 'delete'
+          scope_type: 'global' | 'group' | 'property'
+          property_internal_id?: string | null
+          property_group_id?: string | null
+          affected_start?: string | null
+          affected_end?: string | null
+          changed_fields?: string[]
+          old_values?: Json | null
+          new_values?: Json | null
+          reason?: string | null
+        }
+        Update: {
+          change_id?: number
+          changed_at?: string
+          changed_by?: string
+          source_table?: string
+          record_id?: string
+          action?: 'insert' | 'update' | 'delete'
+          scope_type?: 'global' | 'group' | 'property'
+          property_internal_id?: string | null
+          property_group_id?: string | null
+          affected_start?: string | null
+          affected_end?: string | null
+          changed_fields?: string[]
+          old_values?: Json | null
+          new_values?: Json | null
+          reason?: string | null
+        }
+        Relationships: []
+      }
       bookings: {
         Row: {
           id: string
@@ -129,11 +765,15 @@ export interface Database {
           strategy_id: string
           strategy_name: string
           property_internal_id: string | null
+          strategy_type: string
           activation_window: number
           min_discount: number
           max_discount: number
           curve_type: string
+          curve_points: Json | null
+          curve_interpolation: string | null
           is_active: boolean
+          is_experiment_arm: boolean
           valid_from: string | null
           valid_until: string | null
           created_at: string | null
@@ -143,11 +783,15 @@ export interface Database {
           strategy_id?: string
           strategy_name: string
           property_internal_id?: string | null
+          strategy_type?: string
           activation_window: number
           min_discount: number
           max_discount: number
           curve_type: string
+          curve_points?: Json | null
+          curve_interpolation?: string | null
           is_active?: boolean
+          is_experiment_arm?: boolean
           valid_from?: string | null
           valid_until?: string | null
           created_at?: string | null
@@ -157,11 +801,15 @@ export interface Database {
           strategy_id?: string
           strategy_name?: string
           property_internal_id?: string | null
+          strategy_type?: string
           activation_window?: number
           min_discount?: number
           max_discount?: number
           curve_type?: string
+          curve_points?: Json | null
+          curve_interpolation?: string | null
           is_active?: boolean
+          is_experiment_arm?: boolean
           valid_from?: string | null
           valid_until?: string | null
           created_at?: string | null
@@ -169,6 +817,33 @@ export interface Database {
         }
         Relationships: []
       }
+      discount_curve_templates: {
+        Row: {
+          template_id: string
+          template_name: string
+          curve_points: Json          // [{ days, discount }]
+          curve_interpolation: string // 'linear' | 'stepped'
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          template_id?: string
+          template_name: string
+          curve_points: Json
+          curve_interpolation?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          template_id?: string
+          template_name?: string
+          curve_points?: Json
+          curve_interpolation?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       discount_rules: {
         Row: {
           rule_id: string
@@ -202,6 +877,31 @@ export interface Database {
         }
         Relationships: []
       }
+      lodgify_pushed_rates: {
+        Row: {
+          property_id: string
+          lodgify_property_id: string
+          rates: Json
+          rate_count: number
+          sync_operation_id: string | null
+          pushed_at: string
+        }
+        Insert: {
+          property_id: string
+          lodgify_property_id: string
+          rates: Json
+          sync_operation_id?: string | null
+          pushed_at?: string
+        }
+        Update: {
+          property_id?: string
+          lodgify_property_id?: string
+          rates?: Json
+          sync_operation_id?: string | null
+          pushed_at?: string
+        }
+        Relationships: []
+      }
       lodgify_integrations: {
         Row: {
           integration_id: string
@@ -210,6 +910,7 @@ export interface Database {
           lodgify_room_type_id: number
           encrypted_api_key: string
           is_active: boolean
+          sync_enabled: boolean
           last_sync: string | null
           sync_status: string | null
           created_at: string | null
@@ -222,6 +923,7 @@ export interface Database {
           lodgify_room_type_id: number
           encrypted_api_key: string
           is_active?: boolean
+          sync_enabled?: boolean
           last_sync?: string | null
           sync_status?: string | null
           created_at?: string | null
@@ -234,6 +936,7 @@ export interface Database {
           lodgify_room_type_id?: number
           encrypted_api_key?: string
           is_active?: boolean
+          sync_enabled?: boolean
           last_sync?: string | null
           sync_status?: string | null
           created_at?: string | null
@@ -264,6 +967,12 @@ export interface Database {
           max_retries: number
           next_retry_at: string | null
           duration_ms: number | null
+          sync_mode: 'full' | 'delta' | 'unchanged' | null
+          change_summary: Json | null
+          last_attempt_at: string | null
+          claimed_at: string | null
+          lease_expires_at: string | null
+          request_payload: Json | null
           started_at: string | null
           completed_at: string | null
           created_at: string | null
@@ -290,6 +999,12 @@ export interface Database {
           max_retries?: number
           next_retry_at?: string | null
           duration_ms?: number | null
+          sync_mode?: 'full' | 'delta' | 'unchanged' | null
+          change_summary?: Json | null
+          last_attempt_at?: string | null
+          claimed_at?: string | null
+          lease_expires_at?: string | null
+          request_payload?: Json | null
           started_at?: string | null
           completed_at?: string | null
           created_at?: string | null
@@ -316,6 +1031,12 @@ export interface Database {
           max_retries?: number
           next_retry_at?: string | null
           duration_ms?: number | null
+          sync_mode?: 'full' | 'delta' | 'unchanged' | null
+          change_summary?: Json | null
+          last_attempt_at?: string | null
+          claimed_at?: string | null
+          lease_expires_at?: string | null
+          request_payload?: Json | null
           started_at?: string | null
           completed_at?: string | null
           created_at?: string | null
@@ -474,18 +1195,169 @@ export interface Database {
           p_property_id: string  // lodgify_property_id TEXT
           p_check_date: string   // DATE in ISO format (can be date or text)
           p_nights: number       // INTEGER (no default value)
+          p_include_seasonal?: boolean   // BOOLEAN DEFAULT TRUE
+          p_include_weekday?: boolean    // BOOLEAN DEFAULT TRUE
+          p_include_discounts?: boolean  // BOOLEAN DEFAULT TRUE
         }
         Returns: {
           base_price: number
           seasonal_adjustment: number
+          weekday_adjustment: number
+          demand_adjustment: number
           last_minute_discount: number
+          early_bird_discount: number
+          gap_discount: number
+          los_discount: number
           final_price_per_night: number
           total_price: number
           min_price_enforced: boolean
           is_overridden: boolean
           override_price: number | null
           reason: string | null
+          stacking_mode: string
+          discount_order: string
+          min_price_stage: string
+          max_total_discount: number | null
+          excluded_discounts: string[]      // Discounts dropped by the exclusivity rule
+          discount_cap_reduction: number    // Given back by the total discount cap
+          min_price_adjustment: number      // Added by the minimum price
+          calculated_price_per_night: number  // Price before any override
+        }
+
+      }
+      resolve_seasonal_rate: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_date: string                  // DATE in ISO format
+        }
+        Returns: Array<{
+          rate_id: string
+          rate_name: string
+          discount_rate: number
+          scope_type: 'global' | 'group' | 'property'
+        }>
+
+      }
+      get_weekday_adjustment: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_date: string                  // DATE in ISO format
+        }
+        Returns: number  // Adjustment rate, 0 when none is configured
+
+      }
+      get_occupancy_pace: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_check_date: string            // DATE in ISO format
+          p_basis?: 'property' | 'portfolio'
+        }
+        Returns: Array<{
+          week_start: string
+          lead_days: number
+          current_occupancy: number       // 0-1 share of nights booked
+          last_year_occupancy: number     // 0-1, same week last year at the same lead time
+          pace_difference: number
+        }>
+
+      }
+      get_demand_adjustment: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_check_date: string            // DATE in ISO format
+        }
+        Returns: number  // Bounded adjustment rate, 0 when disabled
+
+      }
+      get_booking_gap: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_date: string                  // DATE in ISO format
+        }
+        Returns: Array<{
+          gap_start: string               // Departure day of the previous booking
+          gap_end: string                 // Arrival day of the next booking (exclusive)
+          gap_nights: number
+        }>
+
+      }
+      get_gap_filler_discount: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_date: string                  // DATE in ISO format
+        }
+        Returns: Array<{
+          discount_rate: number
+          gap_nights: number
+        }>  // Empty when disabled or the date is not in a short gap
+
+      }
+      get_discount_stacking_policy: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+        }
+        Returns: Array<{
+          stacking_mode: string
+          exclusive_discounts: string[]
+          max_total_discount: number | null
+          discount_order: string
+          min_price_stage: string
+        }>
+
+      }
+      get_experiment_strategy: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_check_date: string            // DATE of the night
+        }
+        Returns: string | null  // Strategy a running experiment prices the night with, NULL when none
+
+      }
+      get_length_of_stay_discount: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_nights: number                // INTEGER stay length
+        }
+        Returns: number  // Discount rate of the highest qualifying tier, 0 when none
+
+      }
+      get_stay_restrictions: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_start_date: string            // DATE in ISO format
+          p_end_date: string              // DATE in ISO format
         }
+        Returns: Array<{
+          stay_date: string
+          rate_id: string                 // Seasonal rate carrying the rules
+          rate_name: string
+          min_stay: number | null
+          max_stay: number | null
+          arrival_days: number[] | null   // 0 = Sunday, null = any day
+          departure_days: number[] | null
+        }>  // Only nights that have rules
+
+      }
+      get_extra_guest_fees: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_start_date: string            // DATE in ISO format
+          p_end_date: string              // DATE in ISO format
+        }
+        Returns: Array<{
+          stay_date: string
+          extra_guest_fee: number         // Per night, for each guest above base occupancy
+          seasonal_rate_name: string | null  // Null when the property fee applies
+        }>
+
+      }
+      get_exchange_rate: {
+        Args: {
+          p_from_currency: string  // ISO 4217 code
+          p_to_currency: string    // ISO 4217 code
+          p_on_date?: string       // DATE, defaults to CURRENT_DATE
+        }
+        Returns: number | null  // NULL when no rate is stored for the pair
 
       }
       get_last_minute_discount: {
@@ -497,6 +1369,16 @@ export interface Database {
         }
         Returns: number  // Returns NUMERIC discount value
 
+      }
+      get_early_bird_discount: {
+        Args: {
+          p_property_id: string          // TEXT property ID (lodgify_property_id)
+          p_days_before_checkin: number   // INTEGER
+          p_nights: number               // INTEGER, defaults to 1
+          p_check_date: string           // DATE, defaults to CURRENT_DATE
+        }
+        Returns: number  // Early-bird rate (0.10 = 10% off), 0 when none applies
+
       }
       check_booking_conflict: {
         Args: {
@@ -507,6 +1389,42 @@ export interface Database {
         }
         Returns: boolean  // Returns BOOLEAN indicating conflict
 
+      }
+      create_pricing_scenario: {
+        Args: {
+          p_scenario_name: string
+          p_description?: string | null
+        }
+        Returns: string  // UUID of the new scenario
+
+      }
+      get_pricing_change_history: {
+        Args: {
+          p_property_internal_id: string  // UUID of property
+          p_date?: string                 // DATE, only changes covering this night
+          p_limit?: number                // Defaults to 100, at most 500
+        }
+        Returns: Database["public"]["Tables"]["pricing_change_log"]["Row"][]
+
+      }
+      process_sync_retry_queue: {
+        Args: Record<PropertyKey, never>
+        Returns: Json  // { success, jobs, edge_function_request_id? }
+
+      }
+      retry_sync_job_now: {
+        Args: {
+          p_operation_id: string  // UUID of a failed or dead-lettered sync operation
+        }
+        Returns: undefined  // VOID
+
+      }
+      promote_pricing_scenario: {
+        Args: {
+          p_scenario_id: string  // UUID of scenario
+        }
+        Returns: string  // UUID of the scenario holding the previous live configuration
+
       }
       preview_pricing_calendar: {
         Args: {
@@ -514,13 +1432,22 @@ export interface Database {
           p_start_date: string    // DATE in ISO format
           p_end_date: string      // DATE in ISO format
           p_nights: number        // INTEGER stay length
+          p_include_seasonal?: boolean   // BOOLEAN DEFAULT TRUE
+          p_include_weekday?: boolean    // BOOLEAN DEFAULT TRUE
+          p_include_discounts?: boolean  // BOOLEAN DEFAULT TRUE
         }
         Returns: Array<{
           check_date: string
           days_from_today: number
           base_price: number
           seasonal_adjustment_percent: number
+          weekday_adjustment_percent: number
+          demand_adjustment_percent: number
           last_minute_discount_percent: number
+          early_bird_discount_percent: number
+          gap_discount_percent: number
+          gap_nights: number | null
+          los_discount_percent: number
           final_price_per_night: number
           total_price: number
           savings_amount: number
@@ -529,6 +1456,62 @@ export interface Database {
           is_override: boolean           // NEW: renamed from is_overridden
           override_price: number | null   // NEW: the override price when applicable
           calculated_price: number | null // NEW: the calculated price before override
+          seasonal_rate_name: string | null
+          seasonal_rate_scope: 'global' | 'group' | 'property' | null
+          seasonal_adjustment: number      // Per-night amounts applied by calculate_final_price
+          weekday_adjustment: number
+          demand_adjustment: number
+          last_minute_discount: number
+          early_bird_discount: number
+          gap_discount: number
+          los_discount: number
+          discount_cap_reduction: number
+          excluded_discounts: string[] | null
+        }>
+
+      }
+      preview_scenario_calendar: {
+        Args: {
+          p_scenario_id: string   // UUID of scenario
+          p_property_id: string   // lodgify_property_id TEXT
+          p_start_date: string    // DATE in ISO format
+          p_end_date: string      // DATE in ISO format
+          p_nights: number        // INTEGER stay length
+          p_include_seasonal?: boolean   // BOOLEAN DEFAULT TRUE
+          p_include_weekday?: boolean    // BOOLEAN DEFAULT TRUE
+          p_include_discounts?: boolean  // BOOLEAN DEFAULT TRUE
+        }
+        Returns: Array<{
+          check_date: string
+          days_from_today: number
+          base_price: number
+          seasonal_adjustment_percent: number
+          weekday_adjustment_percent: number
+          demand_adjustment_percent: number
+          last_minute_discount_percent: number
+          early_bird_discount_percent: number
+          gap_discount_percent: number
+          gap_nights: number | null
+          los_discount_percent: number
+          final_price_per_night: number
+          total_price: number
+          savings_amount: number
+          savings_percent: number
+          min_price_enforced: boolean
+          is_override: boolean           // NEW: renamed from is_overridden
+          override_price: number | null   // NEW: the override price when applicable
+          calculated_price: number | null // NEW: the calculated price before override
+          seasonal_rate_name: string | null
+          seasonal_rate_scope: 'global' | 'group' | 'property' | null
+          seasonal_adjustment: number      // Per-night amounts applied by calculate_final_price
+          weekday_adjustment: number
+          demand_adjustment: number
+          last_minute_discount: number
+          early_bird_discount: number
+          gap_discount: number
+          los_discount: number
+          discount_cap_reduction: number
+          excluded_discounts: string[] | null
         }>
 
       }
@@ -678,10 +1661,31 @@ export type Enums<
 // Export commonly used types
 export type Property = Tables<"properties">
 export type DateRange = Tables<"date_ranges">
+export type PropertyGroup = Tables<"property_groups">
+export type PropertyGroupMember = Tables<"property_group_members">
+export type PropertyWeekdayMultiplier = Tables<"property_weekday_multipliers">
+export type PropertyLengthOfStayDiscount = Tables<"property_length_of_stay_discounts">
+export type DemandPricingSettings = Tables<"demand_pricing_settings">
+export type GapFillerSettings = Tables<"gap_filler_settings">
+export type DiscountStackingPolicy = Tables<"discount_stacking_policies">
+export type DiscountExperiment = Tables<"discount_experiments">
+export type DiscountExperimentProperty = Tables<"discount_experiment_properties">
+export type ExchangeRate = Tables<"exchange_rates">
+export type CurrencySettings = Tables<"currency_settings">
+export type PricingScenario = Tables<"pricing_scenarios">
+export type ScenarioPropertyPrice = Tables<"scenario_property_prices">
+export type ScenarioDateRange = Tables<"scenario_date_ranges">
+export type ScenarioDiscountStrategy = Tables<"scenario_discount_strategies">
+export type ScenarioDiscountRule = Tables<"scenario_discount_rules">
+export type PricingChangeLogEntry = Tables<"pricing_change_log">
 export type Booking = Tables<"bookings">
 export type DiscountStrategy = Tables<"discount_strategies">
 export type DiscountRule = Tables<"discount_rules">
+export type DiscountCurveTemplate = Tables<"discount_curve_templates">
 export type LodgifyIntegration = Tables<"lodgify_integrations">
+export type LodgifyPushedRates = Tables<"lodgify_pushed_rates">
+export type SyncOperation = Tables<"sync_operations">
+export type BlockedDate = Tables<"blocked_dates">
 export type PriceOverride = Tables<"price_overrides">
 
 // Price Override type variants for CRUD operations
@@ -4,6 +4,15 @@
  */
 
 import type { Database } from './database.generated'
+import type {
+  SeasonalRateScope,
+  DiscountStackingMode,
+  DiscountOrder,
+  MinPriceStage,
+  DiscountKind,
+  DiscountStrategyType,
+  RuleEvaluationStatus
+} from './database'
 
 // Extract the function types for easier usage
 export type DbFunctions = Database['public']['Functions']
@@ -25,8 +34,21 @@ export interface CalculateFinalPriceReturn {
   base_price_per_night: number
   seasonal_adjustment: number
   seasonal_rate: number
+  seasonal_rate_name?: string | null       // Name of the winning seasonal rate, if any
+  seasonal_rate_scope?: SeasonalRateScope | null
+  weekday_adjustment: number               // Per-night amount added by the day-of-week multiplier
+  weekday_rate: number
+  demand_adjustment: number                // Per-night amount from occupancy pace (bounded, never below minimum)
+  demand_rate: number
   adjusted_price_per_night: number
   last_minute_discount: number
+  early_bird_discount?: number             // Per-night early-bird amount; 0 when the last-minute discount applies instead
+  early_bird_rate?: number
+  gap_discount: number                     // Per-night filler discount for short gaps between bookings
+  gap_rate: number
+  gap_nights: number | null                // Length of the filler gap, null outside gaps
+  los_discount: number                     // Per-night amount taken off by the length-of-stay tier
+  los_rate: number
   discounted_price_per_night: number
   final_price_per_night: number
   total_price: number
@@ -34,14 +56,46 @@ export interface CalculateFinalPriceReturn {
   savings_amount: number
   savings_percentage: number
   has_seasonal_rate: boolean
+  has_weekday_adjustment: boolean
+  has_demand_adjustment: boolean
   has_last_minute_discount: boolean
+  has_early_bird_discount?: boolean
+  has_gap_discount: boolean
+  has_los_discount: boolean
   at_minimum_price: boolean
   is_overridden: boolean
+  // Discount stacking policy the night was priced with
+  stacking_mode?: DiscountStackingMode
+  discount_order?: DiscountOrder
+  min_price_stage?: MinPriceStage
+  max_total_discount?: number | null
+  excluded_discounts?: DiscountKind[]      // Applied but dropped by the exclusivity rule
+  discount_cap_reduction?: number          // Per-night amount given back by the total discount cap
+  min_price_adjustment?: number            // Per-night amount added by the minimum price
+  calculated_price_per_night?: number      // Price before any override
+  lead_time_rules?: LeadTimeRuleExplanation[]  // Why each last-minute / early-bird rule did or didn't apply
   // Aliases for component compatibility
   base_price: number
   min_price_enforced: boolean
 }
 
+/**
+ * The rules of one lead time strategy, each with why it did or didn't price a night
+ */
+export interface LeadTimeRuleExplanation {
+  strategy_id: string
+  strategy_name: string
+  strategy_type: DiscountStrategyType
+  applied_rate: number                     // 0 when no rule applied
+  rules: {
+    rule_id: string
+    days_before_checkin: number
+    discount_percentage: number
+    status: RuleEvaluationStatus
+    explanation: string
+  }[]
+}
+
 /**
  * Preview pricing calendar parameters and return types
  */
@@ -58,11 +112,29 @@ export interface PreviewPricingCalendarReturn {
   days_from_today: number
   final_price_per_night: number
   last_minute_discount_percent: number
+  early_bird_discount_percent?: number     // Never set on the same night as last_minute_discount_percent
+  gap_discount_percent: number             // Filler rate, applied after the last-minute discount
+  gap_nights: number | null
+  los_discount_percent: number             // Tier rate, applied after the last-minute discount
   min_price_enforced: boolean
   savings_amount: number
   savings_percent: number
   seasonal_adjustment_percent: number
+  weekday_adjustment_percent: number
+  demand_adjustment_percent: number
+  seasonal_rate_name?: string | null
+  seasonal_rate_scope?: SeasonalRateScope | null
   total_price: number
+  // Per-night amounts calculate_final_price applied, as its stacking policy combined them
+  seasonal_adjustment: number
+  weekday_adjustment: number
+  demand_adjustment: number
+  last_minute_discount: number
+  early_bird_discount: number
+  gap_discount: number
+  los_discount: number
+  discount_cap_reduction: number
+  excluded_discounts: DiscountKind[] | null
   // Aliases for consistency with CalculateFinalPriceReturn
   base_price_per_night: number
   at_minimum_price: boolean
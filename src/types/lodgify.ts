@@ -1,20 +1,8 @@
 // TypeScript interfaces for Lodgify API payload generation
-export interface LodgifyRate {
-  is_default: boolean
-  start_date?: string        // ISO date format (YYYY-MM-DD) - omit for default
-  end_date?: string          // ISO date format (YYYY-MM-DD) - omit for default
-  price_per_day: number      // EUR amount with 2 decimal places
-  min_stay: number           // Minimum nights required
-  max_stay: number           // Maximum nights allowed
-  price_per_additional_guest: number    // Additional guest fee
-  additional_guests_starts_from: number // Guest count threshold
-}
+// Wire format lives with the edge function so both sides send the same payload
+import type { LodgifyRate, LodgifyPayload } from '../../supabase/functions/_shared/lodgifyTypes.ts'
 
-export interface LodgifyPayload {
-  property_id: number        // lodgify_property_id converted to number
-  room_type_id: number       // lodgify_room_type_id
-  rates: LodgifyRate[]       // Array of rate configurations
-}
+export type { LodgifyRate, LodgifyPayload }
 
 // Internal processing types
 export interface DatePriceData {
@@ -26,6 +14,10 @@ export interface DatePriceData {
   basePrice: number
   seasonalAdjustment: number
   lastMinuteDiscount: number
+  losDiscount?: number       // Length-of-stay tier percent applied at this stay length
+  arrivalDays?: number[]     // Stay restriction weekdays (0 = Sunday), unset = any day
+  departureDays?: number[]
+  extraGuestFee?: number     // Per extra guest per night, unset = property fee
   minPriceEnforced: boolean
   // Override tracking
   priceSource?: 'calculated' | 'override'
@@ -40,6 +32,9 @@ export interface OptimizedRange {
   minStay: number
   maxStay: number
   stayLength: number
+  arrivalDays?: number[]
+  departureDays?: number[]
+  extraGuestFee?: number
 }
 
 export interface PayloadGenerationOptions {
@@ -49,9 +44,17 @@ export interface PayloadGenerationOptions {
   stayLengthCategories: StayLengthCategory[]
   includeDefaultRate: boolean
   optimizeRanges: boolean
+  rangeOptimization?: RangeOptimizationOptions  // Unset = merge identical prices only
   includeOverrides?: boolean  // Default: true - include price overrides in export
 }
 
+// Lossy range optimization: trades price precision for fewer rates
+export interface RangeOptimizationOptions {
+  priceTolerance?: number               // Max difference between a night's price and its range price
+  toleranceType?: 'absolute' | 'percent' // EUR (default) or percent of the nightly price
+  maxRatesPerPayload?: number           // Target rate count per payload, default rate included
+}
+
 export interface StayLengthCategory {
   name: string              // "1-7 nights", "8-14 nights", "15+ nights"
   minStay: number
@@ -73,6 +76,9 @@ export interface GenerationStatistics {
   entriesBeforeOptimization: number
   entriesAfterOptimization: number
   optimizationReduction: number  // Percentage
+  maxPriceDeviation?: number     // EUR, worst |rate price - nightly price| introduced by the optimization
+  maxPriceDeviationPercent?: number
+  propertiesOverRateBudget?: string[]  // Payloads that could not be merged down to maxRatesPerPayload
   generationTimeMs: number
   memoryUsedMB?: number
   // Override-specific statistics
@@ -86,6 +92,7 @@ export interface PayloadExportOptions {
   format: 'json' | 'pretty-json'
   includeStatistics: boolean
   chunkSize?: number        // For large payloads
+  currencies?: Record<number, string>  // ISO 4217 code by property_id, written to the export meta
 }
 
 // Error types
@@ -107,4 +114,46 @@ export interface GenerationProgress {
   percentage: number
   timeElapsedMs: number
   estimatedRemainingMs?: number
+}
+
+// Streaming generation: each property is generated in date window chunks
+export interface PayloadChunk {
+  propertyId: string         // lodgify_property_id
+  chunkIndex: number
+  totalChunks: number        // Chunks of this property
+  startDate: string          // YYYY-MM-DD, first night of the window
+  endDate: string            // YYYY-MM-DD, last night of the window
+  rates: LodgifyRate[]       // Rates of this window; the default rate comes with the first chunk
+  entriesBeforeOptimization: number
+  entriesAfterOptimization: number
+  maxPriceDeviation: number
+  maxPriceDeviationPercent: number
+  withinRateBudget: boolean
+  overrideCount: number
+}
+
+export interface PropertyGenerationResult {
+  propertyId: string         // lodgify_property_id
+  status: 'success' | 'failed'
+  payload?: LodgifyPayload   // All chunks combined, on success
+  error?: string
+  chunksCompleted: number
+  totalChunks: number
+}
+
+export interface PayloadStreamCompletion {
+  statistics: GenerationStatistics
+  results: Omit<PropertyGenerationResult, 'payload'>[]
+  cancelled: boolean         // Stopped early; completed chunks stay checkpointed
+}
+
+export type PayloadStreamEvent =
+  | { type: 'chunk'; chunk: PayloadChunk; fromCheckpoint: boolean }
+  | { type: 'property'; result: PropertyGenerationResult }
+  | ({ type: 'complete' } & PayloadStreamCompletion)
+
+export interface PayloadStreamOptions {
+  onProgress?: (progress: GenerationProgress) => void
+  resume?: boolean           // Continue from the checkpoint of a run with the same options
+  chunkMonths?: number       // Date window per chunk (default: 3)
 }
\ No newline at end of file
@@ -3,6 +3,8 @@
  * Specifically for react-calendar integration as per PRP-10
  */
 
+import type { LengthOfStayTier } from '@/services/length-of-stay-discount.service'
+
 // React calendar value types
 export type CalendarValue = Date | null
 
@@ -10,7 +12,14 @@ export type CalendarValue = Date | null
 export interface CalculateFinalPriceResult {
   base_price: number
   seasonal_adjustment: number
+  weekday_adjustment?: number  // Day-of-week multiplier amount per night
+  demand_adjustment?: number   // Occupancy pace amount per night
   last_minute_discount: number
+  early_bird_discount?: number // Early-bird amount per night (never alongside last_minute_discount)
+  gap_discount?: number        // Gap filler amount per night
+  gap_nights?: number | null   // Length of the gap between bookings this night fills
+  los_discount?: number        // Length-of-stay tier amount per night
+  discount_cap_reduction?: number  // Amount per night given back by the total discount cap
   final_price_per_night: number
   total_price: number
   min_price_enforced: boolean
@@ -31,7 +40,13 @@ export interface PreviewPricingCalendarResult {
   days_from_today: number
   base_price: number
   seasonal_adjustment_percent: number
+  weekday_adjustment_percent?: number
+  demand_adjustment_percent?: number
   last_minute_discount_percent: number
+  early_bird_discount_percent?: number
+  gap_discount_percent?: number
+  gap_nights?: number | null
+  los_discount_percent?: number
   final_price_per_night: number
   total_price: number
   savings_amount: number
@@ -51,6 +66,7 @@ export interface OverrideAwarePreviewResult extends PreviewPricingCalendarResult
 // Props for the main PricingCalendarGrid component
 export interface PricingCalendarGridProps {
   propertyId: string
+  currency?: string  // ISO 4217 code of the property; defaults to EUR
   selectedStayLength: number
   // Property selection removed - now handled by parent component
   onStayLengthChange?: (nights: number) => void
@@ -72,6 +88,8 @@ export interface PricingTileProps {
   isMinPriceEnforced?: boolean
   isOverride?: boolean  // Added for override price visual distinction
   propertyId?: string  // Required for override modal context
+  currency?: string  // ISO 4217 code prices are shown in
+  scenarioPrice?: number  // Price per night under the compared scenario, when one is selected
   onOverrideModalOpen?: (date: Date, propertyId: string) => void  // Handler for opening override modal
   onShowPriceBreakdown?: (date: Date) => void  // Handler for showing price breakdown
   isOverrideModalAvailable?: boolean  // Whether override modal is available
@@ -83,6 +101,7 @@ export interface StayLengthSelectorProps {
   selectedLength: number
   onLengthChange: (nights: number) => void
   availableLengths?: number[]
+  lengthOfStayTiers?: LengthOfStayTier[]  // Shown as a discount badge on qualifying stay lengths
   className?: string
 }
 
@@ -92,7 +111,10 @@ export interface StayLengthSelectorProps {
 // Props for pricing legend
 export interface PricingLegendProps {
   showSeasonalIndicator?: boolean
+  showWeekdayIndicator?: boolean
+  showDemandIndicator?: boolean
   showDiscountIndicator?: boolean
+  showGapIndicator?: boolean
   showMinPriceIndicator?: boolean
   className?: string
 }
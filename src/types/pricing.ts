@@ -7,6 +7,7 @@ import type {
   CalculateFinalPriceReturn,
   DateRange,
 } from './helpers'
+import { formatMoney, DEFAULT_CURRENCY } from '@/utils/currency'
 
 /**
  * Database function parameter and return types
@@ -376,11 +377,8 @@ export const PricingValidation = {
  * Format helpers for displaying pricing data
  */
 export const PricingFormatters = {
-  currency: (value: number) => 
-    new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(value),
+  currency: (value: number, currency: string = DEFAULT_CURRENCY) =>
+    formatMoney(value, currency),
   
   percentage: (value: number) =>
     new Intl.NumberFormat('en-US', {
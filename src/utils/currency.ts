@@ -0,0 +1,83 @@
+/**
+ * Currency Helpers
+ *
+ * Single place that turns an amount and an ISO 4217 code into display text.
+ * Every property is priced in its own currency (properties.currency); callers
+ * pass that code instead of hardcoding a symbol.
+ */
+
+/**
+ * Currency used when a property has none, matching the properties.currency default
+ */
+export const DEFAULT_CURRENCY = 'EUR'
+
+/**
+ * Currencies offered in the UI; any valid ISO 4217 code still formats
+ */
+export const SUPPORTED_CURRENCIES = [
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'CHF', label: 'Swiss Franc' },
+  { code: 'SEK', label: 'Swedish Krona' },
+  { code: 'NOK', label: 'Norwegian Krone' },
+  { code: 'DKK', label: 'Danish Krone' }
+] as const
+
+/**
+ * One locale for all amounts so symbols and separators look the same everywhere
+ */
+const DISPLAY_LOCALE = 'en-GB'
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+const getFormatter = (currency: string, decimals: number): Intl.NumberFormat => {
+  const key = `${currency}:${decimals}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(DISPLAY_LOCALE, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    })
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Whether a string is a three-letter currency code Intl can format
+ */
+export function isCurrencyCode(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^[A-Z]{3}$/.test(value)) return false
+  try {
+    getFormatter(value, 0)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Format an amount, e.g. formatMoney(1234.5, 'GBP') -> "£1,234.50"
+ *
+ * @param currency - ISO 4217 code; falls back to DEFAULT_CURRENCY when missing or invalid
+ * @param options.decimals - Fraction digits (default 2)
+ */
+export function formatMoney(
+  amount: number,
+  currency: string | null | undefined = DEFAULT_CURRENCY,
+  options: { decimals?: number } = {}
+): string {
+  const code = isCurrencyCode(currency) ? currency : DEFAULT_CURRENCY
+  return getFormatter(code, options.decimals ?? 2).format(Number.isFinite(amount) ? amount : 0)
+}
+
+/**
+ * Symbol of a currency, e.g. "€" for EUR
+ */
+export function currencySymbol(currency: string | null | undefined = DEFAULT_CURRENCY): string {
+  const code = isCurrencyCode(currency) ? currency : DEFAULT_CURRENCY
+  return getFormatter(code, 0).formatToParts(0).find(part => part.type === 'currency')?.value ?? code
+}
@@ -1,5 +1,7 @@
 // Date utility functions for the pricing calendar
 
+import { formatMoney, DEFAULT_CURRENCY } from './currency'
+
 export function formatDate(date: Date | string): string {
   const d = typeof date === 'string' ? new Date(date) : date
   return d.toISOString().split('T')[0]
@@ -35,13 +37,8 @@ export function isDateInRange(
   return checkDate >= start && checkDate <= end
 }
 
-export function formatCurrency(amount: number, currency: string = 'EUR'): string {
-  return new Intl.NumberFormat('en-EU', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(amount)
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return formatMoney(amount, currency, { decimals: 0 })
 }
 
 export function isValidDateRange(startDate: string, endDate: string): boolean {
@@ -0,0 +1,182 @@
+import type { DiscountStrategyType, RuleEvaluationStatus } from '@/types/database'
+
+/**
+ * The rule fields that decide whether a discount rule prices a night
+ */
+export interface EligibilityRule {
+  days_before_checkin: number
+  discount_percentage: number
+  min_nights?: number | null
+  applicable_days?: unknown
+}
+
+export const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+const SHORT_DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Whitespace the database's discount_rule_day strips from a day string
+const EDGE_WHITESPACE = /^[ \t\n\r\f\v]+|[ \t\n\r\f\v]+$/g
+
+/**
+ * Days of the week (0 = Sunday) a rule is limited to, or null when it applies every day.
+ * Reads each entry as discount_rule_day does: an integer 0-6, a string holding one,
+ * or a day name in any case, with surrounding whitespace ignored.
+ */
+export function parseApplicableDays(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null
+
+  const days = new Set<number>()
+  for (const day of value) {
+    if (typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6) {
+      days.add(day)
+    } else if (typeof day === 'string') {
+      const name = day.replace(EDGE_WHITESPACE, '')
+      if (/^[0-6]$/.test(name)) days.add(Number(name))
+      else if (DAY_NAMES.includes(name.toLowerCase())) days.add(DAY_NAMES.indexOf(name.toLowerCase()))
+    }
+  }
+
+  return [...days].sort((a, b) => a - b)
+}
+
+/**
+ * Short label for a rule's days, e.g. "Mon, Tue" or "Any day"
+ */
+export function formatApplicableDays(value: unknown): string {
+  const days = parseApplicableDays(value)
+  if (!days) return 'Any day'
+  if (days.length === 0) return 'No valid days'
+  return days.map(day => SHORT_DAY_NAMES[day]).join(', ')
+}
+
+/**
+ * Day of the week of a yyyy-MM-dd date, as the database reads it
+ */
+export function dayOfWeek(checkDate: string): number {
+  return new Date(`${checkDate}T00:00:00Z`).getUTCDay()
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(0)}%`
+
+const dayName = (day: number) => DAY_NAMES[day].charAt(0).toUpperCase() + DAY_NAMES[day].slice(1)
+
+/**
+ * Whether a rule's minimum stay and weekday restriction allow it, with the reasons it does not
+ */
+export interface RuleEligibility {
+  eligible: boolean
+  reasons: string[]
+}
+
+/**
+ * Check a rule's conditions for a night; mirrors the discount_rule_applies database function
+ *
+ * @param checkDate - Night as yyyy-MM-dd
+ * @param nights - Length of the stay the night belongs to
+ */
+export function checkRuleEligibility(rule: EligibilityRule, nights: number, checkDate: string): RuleEligibility {
+  const reasons: string[] = []
+
+  if (rule.min_nights && nights < rule.min_nights) {
+    reasons.push(`needs a stay of ${rule.min_nights}+ nights, this stay is ${nights}`)
+  }
+
+  const days = parseApplicableDays(rule.applicable_days)
+  const day = dayOfWeek(checkDate)
+  if (days && !days.includes(day)) {
+    reasons.push(`only applies on ${formatApplicableDays(rule.applicable_days)}, not ${dayName(day)}`)
+  }
+
+  return { eligible: reasons.length === 0, reasons }
+}
+
+/**
+ * What happened to one rule for a night, in words
+ */
+export interface RuleEvaluation<R extends EligibilityRule = EligibilityRule> {
+  rule: R
+  status: RuleEvaluationStatus
+  explanation: string
+}
+
+export interface RuleSelectionContext {
+  strategyType: DiscountStrategyType
+  daysBeforeCheckin: number
+  nights: number
+  checkDate: string             // yyyy-MM-dd
+  activationWindow?: number     // Checked when given, as the database does
+}
+
+/**
+ * Pick the rule that prices a night and explain every other rule.
+ *
+ * Mirrors get_last_minute_discount and get_early_bird_discount: last-minute
+ * takes the nearest rule at or beyond the lead time, early-bird the furthest
+ * threshold the lead time reaches, skipping rules whose conditions fail.
+ */
+export function selectDiscountRule<R extends EligibilityRule>(
+  rules: R[],
+  context: RuleSelectionContext
+): { rule: R | null; evaluations: RuleEvaluation<R>[] } {
+  const { strategyType, daysBeforeCheckin, nights, checkDate, activationWindow } = context
+  const isEarlyBird = strategyType === 'early_bird'
+
+  const sorted = [...rules].sort((a, b) => isEarlyBird
+    ? b.days_before_checkin - a.days_before_checkin
+    : a.days_before_checkin - b.days_before_checkin)
+
+  const outsideWindow = activationWindow !== undefined && (isEarlyBird
+    ? daysBeforeCheckin < activationWindow
+    : daysBeforeCheckin < 0 || daysBeforeCheckin > activationWindow)
+
+  let selected: R | null = null
+  const evaluations = sorted.map<RuleEvaluation<R>>(rule => {
+    const label = `${percent(rule.discount_percentage)} at ${rule.days_before_checkin} days`
+
+    if (outsideWindow) {
+      return {
+        rule,
+        status: 'not_reached',
+        explanation: isEarlyBird
+          ? `${label}: booked ${daysBeforeCheckin} days ahead, under the ${activationWindow}-day minimum lead time`
+          : `${label}: ${daysBeforeCheckin} days out, outside the ${activationWindow}-day activation window`
+      }
+    }
+
+    const reached = isEarlyBird
+      ? daysBeforeCheckin >= rule.days_before_checkin
+      : daysBeforeCheckin <= rule.days_before_checkin
+    if (!reached) {
+      return {
+        rule,
+        status: 'not_reached',
+        explanation: isEarlyBird
+          ? `${label}: needs booking ${rule.days_before_checkin}+ days ahead, this is ${daysBeforeCheckin}`
+          : `${label}: starts ${rule.days_before_checkin} days out, this is ${daysBeforeCheckin}`
+      }
+    }
+
+    const eligibility = checkRuleEligibility(rule, nights, checkDate)
+    if (!eligibility.eligible) {
+      return { rule, status: 'ineligible', explanation: `${label}: ${eligibility.reasons.join('; ')}` }
+    }
+
+    if (selected) {
+      return { rule, status: 'superseded', explanation: `${label}: a ${isEarlyBird ? 'further' : 'nearer'} rule applies first` }
+    }
+
+    selected = rule
+    return { rule, status: 'applied', explanation: `${label}: applied` }
+  })
+
+  return { rule: selected, evaluations }
+}
+
+/**
+ * Distinct minimum stays set on rules, where a stay length category must be split
+ * so each category either meets a rule's minimum stay throughout or not at all
+ */
+export function ruleMinNightsBoundaries(rules: EligibilityRule[]): number[] {
+  return [...new Set(rules.map(rule => rule.min_nights).filter((n): n is number => !!n && n > 1))]
+    .sort((a, b) => a - b)
+}
@@ -0,0 +1,223 @@
+import type { ExperimentArm } from '@/types/database'
+
+/**
+ * A booking made during an experiment, reduced to what the comparison needs
+ */
+export interface ExperimentBookingOutcome {
+  nights: number
+  leadTimeDays: number     // Arrival date minus booking date
+  revenue: number | null   // bookings.total_price; null when the source sent none
+}
+
+/**
+ * Booking outcomes of one arm
+ */
+export interface ArmSummary {
+  arm: ExperimentArm
+  bookings: number
+  nights: number
+  revenue: number                          // Bookings with a price only
+  unpricedBookings: number
+  adr: number | null                       // Revenue per booked night of priced bookings
+  meanLeadTime: number | null
+  exposureNights: number                   // Property-nights the arm priced
+  bookingsPer100Nights: number | null
+  revenuePerAvailableNight: number | null
+}
+
+export type ExperimentMetric = 'adr' | 'lead_time' | 'booking_rate' | 'revenue_per_available_night'
+
+export type EffectSizeLabel = 'negligible' | 'small' | 'medium' | 'large'
+
+/**
+ * Difference between the arms on one metric, B relative to A
+ */
+export interface ExperimentEffect {
+  metric: ExperimentMetric
+  a: number | null
+  b: number | null
+  difference: number | null
+  relativeDifference: number | null        // 0.1 = B is 10% higher
+  cohensD: number | null                   // Per-booking metrics only
+  effectSize: EffectSizeLabel | null
+}
+
+export interface ExperimentWarning {
+  code: 'SMALL_SAMPLE' | 'UNDERPOWERED' | 'UNBALANCED_EXPOSURE' | 'IN_PROGRESS' | 'UNPRICED_BOOKINGS'
+  message: string
+}
+
+// Below this many bookings in an arm, no difference is worth acting on
+export const MIN_BOOKINGS_PER_ARM = 30
+
+// Two-sided 5% significance and 80% power
+const Z_ALPHA = 1.96
+const Z_POWER = 0.8416
+
+const mean = (values: number[]) => values.length > 0
+  ? values.reduce((sum, value) => sum + value, 0) / values.length
+  : null
+
+/**
+ * Sample variance (n - 1)
+ */
+function variance(values: number[]): number | null {
+  const m = mean(values)
+  if (m === null || values.length < 2) return null
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1)
+}
+
+/**
+ * Summarise an arm's bookings against the property-nights it priced
+ */
+export function summarizeArm(
+  arm: ExperimentArm,
+  outcomes: ExperimentBookingOutcome[],
+  exposureNights: number
+): ArmSummary {
+  const priced = outcomes.filter(outcome => outcome.revenue !== null)
+  const revenue = priced.reduce((sum, outcome) => sum + (outcome.revenue ?? 0), 0)
+  const pricedNights = priced.reduce((sum, outcome) => sum + outcome.nights, 0)
+  const nights = outcomes.reduce((sum, outcome) => sum + outcome.nights, 0)
+
+  return {
+    arm,
+    bookings: outcomes.length,
+    nights,
+    revenue,
+    unpricedBookings: outcomes.length - priced.length,
+    adr: pricedNights > 0 ? revenue / pricedNights : null,
+    meanLeadTime: mean(outcomes.map(outcome => outcome.leadTimeDays)),
+    exposureNights,
+    bookingsPer100Nights: exposureNights > 0 ? (outcomes.length / exposureNights) * 100 : null,
+    revenuePerAvailableNight: exposureNights > 0 ? revenue / exposureNights : null
+  }
+}
+
+/**
+ * Cohen's d of b against a with the pooled standard deviation; null without
+ * two values in each group or any spread
+ */
+export function cohensD(a: number[], b: number[]): number | null {
+  const varA = variance(a)
+  const varB = variance(b)
+  const meanA = mean(a)
+  const meanB = mean(b)
+  if (varA === null || varB === null || meanA === null || meanB === null) return null
+
+  const pooled = Math.sqrt(((a.length - 1) * varA + (b.length - 1) * varB) / (a.length + b.length - 2))
+  return pooled > 0 ? (meanB - meanA) / pooled : null
+}
+
+/**
+ * Conventional reading of |d|: 0.2 small, 0.5 medium, 0.8 large
+ */
+export function describeEffectSize(d: number): EffectSizeLabel {
+  const size = Math.abs(d)
+  if (size < 0.2) return 'negligible'
+  if (size < 0.5) return 'small'
+  if (size < 0.8) return 'medium'
+  return 'large'
+}
+
+/**
+ * Bookings needed per arm to detect an effect of size d (5% significance, 80% power)
+ */
+export function requiredSampleSize(d: number): number | null {
+  if (!Number.isFinite(d) || d === 0) return null
+  return Math.ceil((2 * (Z_ALPHA + Z_POWER) ** 2) / (d * d))
+}
+
+function buildEffect(
+  metric: ExperimentMetric,
+  a: number | null,
+  b: number | null,
+  d: number | null = null
+): ExperimentEffect {
+  const difference = a !== null && b !== null ? b - a : null
+  return {
+    metric,
+    a,
+    b,
+    difference,
+    relativeDifference: difference !== null && a ? difference / a : null,
+    cohensD: d,
+    effectSize: d !== null ? describeEffectSize(d) : null
+  }
+}
+
+const ARM_LABELS: Record<ExperimentArm, string> = { a: 'A', b: 'B' }
+
+/**
+ * Compare two arms: per-booking metrics get Cohen's d, rates against the
+ * property-nights each arm priced get a relative difference.
+ *
+ * @param finished - Whether the experiment period is over
+ */
+export function compareArms(
+  a: { summary: ArmSummary; outcomes: ExperimentBookingOutcome[] },
+  b: { summary: ArmSummary; outcomes: ExperimentBookingOutcome[] },
+  finished: boolean
+): { effects: ExperimentEffect[]; warnings: ExperimentWarning[] } {
+  const nightlyRates = (outcomes: ExperimentBookingOutcome[]) => outcomes
+    .filter(outcome => outcome.revenue !== null && outcome.nights > 0)
+    .map(outcome => (outcome.revenue ?? 0) / outcome.nights)
+  const leadTimes = (outcomes: ExperimentBookingOutcome[]) => outcomes.map(outcome => outcome.leadTimeDays)
+
+  const adrD = cohensD(nightlyRates(a.outcomes), nightlyRates(b.outcomes))
+  const leadTimeD = cohensD(leadTimes(a.outcomes), leadTimes(b.outcomes))
+
+  const effects = [
+    buildEffect('adr', a.summary.adr, b.summary.adr, adrD),
+    buildEffect('lead_time', a.summary.meanLeadTime, b.summary.meanLeadTime, leadTimeD),
+    buildEffect('booking_rate', a.summary.bookingsPer100Nights, b.summary.bookingsPer100Nights),
+    buildEffect('revenue_per_available_night', a.summary.revenuePerAvailableNight, b.summary.revenuePerAvailableNight)
+  ]
+
+  const warnings: ExperimentWarning[] = []
+
+  if (!finished) {
+    warnings.push({
+      code: 'IN_PROGRESS',
+      message: 'The experiment is still running; results are provisional'
+    })
+  }
+
+  for (const { summary } of [a, b]) {
+    if (summary.bookings < MIN_BOOKINGS_PER_ARM) {
+      warnings.push({
+        code: 'SMALL_SAMPLE',
+        message: `Arm ${ARM_LABELS[summary.arm]} has ${summary.bookings} booking${summary.bookings === 1 ? '' : 's'}; fewer than ${MIN_BOOKINGS_PER_ARM} per arm is too few to draw conclusions`
+      })
+    }
+  }
+
+  const smallerArm = Math.min(a.summary.bookings, b.summary.bookings)
+  for (const [label, d] of [['ADR', adrD], ['lead time', leadTimeD]] as const) {
+    const needed = d !== null ? requiredSampleSize(d) : null
+    if (needed !== null && smallerArm < needed) {
+      warnings.push({
+        code: 'UNDERPOWERED',
+        message: `A ${label} difference this size (d = ${d?.toFixed(2)}) needs about ${needed} bookings per arm to tell apart from chance`
+      })
+    }
+  }
+
+  const exposures = [a.summary.exposureNights, b.summary.exposureNights]
+  if (Math.min(...exposures) > 0 && Math.max(...exposures) / Math.min(...exposures) > 1.5) {
+    warnings.push({
+      code: 'UNBALANCED_EXPOSURE',
+      message: 'One arm priced over 1.5× the property-nights of the other; compare the per-night rates rather than totals'
+    })
+  }
+
+  const unpriced = a.summary.unpricedBookings + b.summary.unpricedBookings
+  if (unpriced > 0) {
+    warnings.push({
+      code: 'UNPRICED_BOOKINGS',
+      message: `${unpriced} booking${unpriced === 1 ? ' has' : 's have'} no total price and ${unpriced === 1 ? 'is' : 'are'} left out of revenue and ADR`
+    })
+  }
+
+  return { effects, warnings }
+}
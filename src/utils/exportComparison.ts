@@ -6,12 +6,14 @@
  */
 
 import type { LodgifyPayload, GenerationStatistics } from '@/types/lodgify'
+import { formatMoney, DEFAULT_CURRENCY } from './currency'
 
 /**
  * Comparison result for a single property
  */
 export interface PropertyComparison {
   propertyId: number
+  currency: string  // ISO 4217 code the property is priced in
   totalDates: number
   datesWithDifferences: number
   averagePriceDifference: number
@@ -52,7 +54,8 @@ export interface ExportComparison {
  */
 export function generateExportComparison(
   withOverrides: { payloads: LodgifyPayload[], statistics: GenerationStatistics },
-  withoutOverrides: { payloads: LodgifyPayload[], statistics: GenerationStatistics }
+  withoutOverrides: { payloads: LodgifyPayload[], statistics: GenerationStatistics },
+  currencies: Record<number, string> = {}  // Currency by Lodgify property ID; missing = EUR
 ): ExportComparison {
   const propertyComparisons: PropertyComparison[] = []
   let totalAffectedDates = 0
@@ -69,7 +72,11 @@ export function generateExportComparison(
       continue // Skip if property not found in base export
     }
     
-    const comparison = comparePropertyPayloads(overridePayload, basePayload)
+    const comparison = comparePropertyPayloads(
+      overridePayload,
+      basePayload,
+      currencies[overridePayload.property_id] ?? DEFAULT_CURRENCY
+    )
     if (comparison.datesWithDifferences > 0) {
       propertyComparisons.push(comparison)
       totalAffectedDates += comparison.datesWithDifferences
@@ -112,7 +119,8 @@ export function generateExportComparison(
  */
 function comparePropertyPayloads(
   overridePayload: LodgifyPayload,
-  basePayload: LodgifyPayload
+  basePayload: LodgifyPayload,
+  currency: string
 ): PropertyComparison {
   const priceDifferences: PropertyComparison['priceDifferences'] = []
   const overrideDates: string[] = []
@@ -153,6 +161,7 @@ function comparePropertyPayloads(
   
   return {
     propertyId: overridePayload.property_id,
+    currency,
     totalDates: allDates.size,
     datesWithDifferences: priceDifferences.length,
     averagePriceDifference,
@@ -204,11 +213,16 @@ export function formatComparisonSummary(comparison: ExportComparison): string {
   }
   
   const impact = comparison.totalOverrideImpact
+  // Amounts of properties in different currencies cannot be added up meaningfully
+  const currencies = new Set(comparison.propertyComparisons.map(p => p.currency))
+  const formatAmount = (value: number) => currencies.size === 1
+    ? formatMoney(value, comparison.propertyComparisons[0].currency)
+    : `${value.toFixed(2)} (mixed currencies)`
   const summary = [
     `Found differences in ${comparison.propertiesWithDifferences} of ${comparison.totalProperties} properties`,
     `${impact.affectedDates} dates affected by overrides`,
-    `Average price change: €${impact.averagePriceChange.toFixed(2)}`,
-    `Total revenue impact: €${impact.totalRevenueDifference.toFixed(2)}`,
+    `Average price change: ${formatAmount(impact.averagePriceChange)}`,
+    `Total revenue impact: ${formatAmount(impact.totalRevenueDifference)}`,
     `${impact.priceVariancePercentage.toFixed(1)}% of dates have override prices`
   ]
   
@@ -219,13 +233,14 @@ export function formatComparisonSummary(comparison: ExportComparison): string {
  * Export comparison results as CSV
  */
 export function exportComparisonAsCSV(comparison: ExportComparison): string {
-  const headers = ['Property ID', 'Date', 'Original Price', 'Override Price', 'Difference', 'Percent Change']
+  const headers = ['Property ID', 'Currency', 'Date', 'Original Price', 'Override Price', 'Difference', 'Percent Change']
   const rows: string[] = [headers.join(',')]
   
   for (const propComparison of comparison.propertyComparisons) {
     for (const diff of propComparison.priceDifferences) {
       rows.push([
         propComparison.propertyId,
+        propComparison.currency,
         diff.date,
         diff.originalPrice.toFixed(2),
         diff.overridePrice.toFixed(2),
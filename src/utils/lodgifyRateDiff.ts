@@ -0,0 +1,17 @@
+/**
+ * Lodgify Rate Diff Utility
+ *
+ * The diff runs in the lodgify-sync-automation edge function too, so it lives
+ * in supabase/functions/_shared; this module is the app's entry point.
+ */
+
+export {
+  expandNights,
+  formatRateDiffSummary,
+  diffLodgifyRates,
+  buildDeltaPayload,
+  toRateChangeSummary,
+  type RateSyncMode,
+  type LodgifyRateDiff,
+  type RateChangeSummary
+} from '../../supabase/functions/_shared/lodgifyRateDiff.ts'
@@ -57,6 +57,16 @@ const lodgifyPayloadSchema = {
           additional_guests_starts_from: { 
             type: 'number', 
             minimum: 0
+          },
+          arrival_days: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'integer', minimum: 0, maximum: 6 }
+          },
+          departure_days: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'integer', minimum: 0, maximum: 6 }
           }
         },
         // Conditional validation: non-default rates must have dates
@@ -1,9 +1,31 @@
 import type { 
   LodgifyPayload, 
   PayloadExportOptions, 
-  GenerationStatistics 
+  GenerationStatistics,
+  PayloadStreamEvent,
+  PayloadStreamCompletion
 } from '@/types/lodgify'
 
+/**
+ * Offer text content as a file download
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.style.display = 'none'
+  
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  
+  // Clean up object URL
+  setTimeout(() => URL.revokeObjectURL(url), 100)
+}
+
 /**
  * Export generated payload as downloadable JSON file
  */
@@ -21,7 +43,8 @@ export function exportPayloadAsJSON(
         meta: {
           generatedAt: new Date().toISOString(),
           statistics,
-          totalPayloads: payloads.length
+          totalPayloads: payloads.length,
+          ...(options.currencies && { currencies: options.currencies })
         },
         payloads
       }
@@ -36,21 +59,7 @@ export function exportPayloadAsJSON(
     const timestamp = new Date().toISOString().split('T')[0]
     const filename = options.filename || `lodgify-payload-${timestamp}.json`
     
-    // Create blob and download
-    const blob = new Blob([jsonString], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    
-    const link = document.createElement('a')
-    link.href = url
-    link.download = filename
-    link.style.display = 'none'
-    
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    
-    // Clean up object URL
-    setTimeout(() => URL.revokeObjectURL(url), 100)
+    downloadFile(jsonString, filename, 'application/json')
     
   } catch (error) {
     console.error('Failed to export payload:', error)
@@ -60,12 +69,21 @@ export function exportPayloadAsJSON(
 
 /**
  * Export payload in chunks for large datasets
+ * 
+ * Given a generation stream (LodgifyPayloadService.generatePayloadStream), each
+ * file is written as soon as chunkSize properties completed, so the payloads
+ * are never all held in memory. Failed properties are skipped; the stream's
+ * completion (statistics and per-property results) is returned.
  */
-export function exportPayloadInChunks(
-  payloads: LodgifyPayload[],
-  statistics: GenerationStatistics,
+export async function exportPayloadInChunks(
+  payloads: LodgifyPayload[] | AsyncIterable<PayloadStreamEvent>,
+  statistics?: GenerationStatistics,
   chunkSize: number = 2
-): void {
+): Promise<{ filesWritten: number, completion?: PayloadStreamCompletion }> {
+  if (!Array.isArray(payloads)) {
+    return exportPayloadStreamInChunks(payloads, chunkSize)
+  }
+  
   const chunks: LodgifyPayload[][] = []
   
   for (let i = 0; i < payloads.length; i += chunkSize) {
@@ -74,12 +92,51 @@ export function exportPayloadInChunks(
   
   chunks.forEach((chunk, index) => {
     const chunkFilename = `lodgify-payload-chunk-${index + 1}-of-${chunks.length}.json`
-    exportPayloadAsJSON(chunk, statistics, {
+    exportPayloadAsJSON(chunk, statistics!, {
       filename: chunkFilename,
       format: 'pretty-json',
-      includeStatistics: index === 0 // Only include statistics in first chunk
+      includeStatistics: index === 0 && statistics !== undefined // Only include statistics in first chunk
     })
   })
+  
+  return { filesWritten: chunks.length }
+}
+
+/**
+ * Write payloads from a generation stream, chunkSize properties per file
+ * The file count is unknown up front, so files are numbered without a total
+ */
+async function exportPayloadStreamInChunks(
+  stream: AsyncIterable<PayloadStreamEvent>,
+  chunkSize: number
+): Promise<{ filesWritten: number, completion: PayloadStreamCompletion }> {
+  let pending: LodgifyPayload[] = []
+  let filesWritten = 0
+  
+  const writeFile = () => {
+    filesWritten++
+    downloadFile(
+      JSON.stringify(pending, null, 2),
+      `lodgify-payload-chunk-${filesWritten}.json`,
+      'application/json'
+    )
+    pending = []
+  }
+  
+  for await (const event of stream) {
+    if (event.type === 'property' && event.result.payload) {
+      pending.push(event.result.payload)
+      if (pending.length >= chunkSize) writeFile()
+    } else if (event.type === 'complete') {
+      if (pending.length > 0) writeFile()
+      return {
+        filesWritten,
+        completion: { statistics: event.statistics, results: event.results, cancelled: event.cancelled }
+      }
+    }
+  }
+  
+  throw new Error('Export failed: payload stream ended without completing')
 }
 
 /**
@@ -172,6 +229,9 @@ export function generateStatisticsSummary(statistics: GenerationStatistics): str
     statistics.optimizationApplied ? `  Before: ${statistics.entriesBeforeOptimization} entries` : '',
     statistics.optimizationApplied ? `  After: ${statistics.entriesAfterOptimization} entries` : '',
     statistics.optimizationApplied ? `  Reduction: ${statistics.optimizationReduction.toFixed(1)}%` : '',
+    statistics.optimizationApplied && statistics.maxPriceDeviation
+      ? `  Max Price Deviation: €${statistics.maxPriceDeviation.toFixed(2)} (${(statistics.maxPriceDeviationPercent ?? 0).toFixed(2)}%)`
+      : '',
     ``,
     `Performance:`,
     `  Generation Time: ${(statistics.generationTimeMs / 1000).toFixed(1)}s`,
@@ -190,17 +250,5 @@ export function exportStatistics(statistics: GenerationStatistics): void {
   const timestamp = new Date().toISOString().split('T')[0]
   const filename = `lodgify-generation-stats-${timestamp}.txt`
   
-  const blob = new Blob([content], { type: 'text/plain' })
-  const url = URL.createObjectURL(blob)
-  
-  const link = document.createElement('a')
-  link.href = url
-  link.download = filename
-  link.style.display = 'none'
-  
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
-  
-  setTimeout(() => URL.revokeObjectURL(url), 100)
+  downloadFile(content, filename, 'text/plain')
 }
\ No newline at end of file
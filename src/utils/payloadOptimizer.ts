@@ -1,6 +1,27 @@
-import type { DatePriceData, OptimizedRange } from '@/types/lodgify'
+import type { DatePriceData, OptimizedRange, RangeOptimizationOptions } from '@/types/lodgify'
 import { isConsecutiveDay } from './dateRangeGenerator'
 
+/**
+ * Compare optional weekday restriction lists (unset = any day)
+ */
+function sameWeekdays(a?: number[], b?: number[]): boolean {
+  return (a?.join(',') ?? '') === (b?.join(',') ?? '')
+}
+
+type RateTerms = Pick<OptimizedRange, 'minStay' | 'maxStay' | 'stayLength' | 'arrivalDays' | 'departureDays' | 'extraGuestFee'>
+
+/**
+ * Whether two nights/ranges share everything but the price and dates
+ */
+function sameRateTerms(a: RateTerms, b: RateTerms): boolean {
+  return a.minStay === b.minStay &&
+    a.maxStay === b.maxStay &&
+    a.stayLength === b.stayLength &&
+    sameWeekdays(a.arrivalDays, b.arrivalDays) &&
+    sameWeekdays(a.departureDays, b.departureDays) &&
+    a.extraGuestFee === b.extraGuestFee
+}
+
 /**
  * Optimize consecutive days with identical pricing into date ranges
  * Implements interval merging algorithm for 60%+ reduction in entries
@@ -17,9 +38,7 @@ export function optimizeConsecutiveDays(prices: DatePriceData[]): OptimizedRange
   for (const priceData of sortedPrices) {
     if (currentRange && 
         Math.round(currentRange.price * 100) / 100 === Math.round(priceData.price * 100) / 100 &&
-        currentRange.minStay === priceData.minStay &&
-        currentRange.maxStay === priceData.maxStay &&
-        currentRange.stayLength === priceData.stayLength &&
+        sameRateTerms(currentRange, priceData) &&
         isConsecutiveDay(currentRange.endDate, priceData.date)) {
       // Extend current range
       currentRange.endDate = priceData.date
@@ -32,7 +51,10 @@ export function optimizeConsecutiveDays(prices: DatePriceData[]): OptimizedRange
         price: Math.round(priceData.price * 100) / 100, // Round to 2 decimal places
         minStay: priceData.minStay,
         maxStay: priceData.maxStay,
-        stayLength: priceData.stayLength
+        stayLength: priceData.stayLength,
+        arrivalDays: priceData.arrivalDays,
+        departureDays: priceData.departureDays,
+        extraGuestFee: priceData.extraGuestFee
       }
     }
   }
@@ -41,19 +63,199 @@ export function optimizeConsecutiveDays(prices: DatePriceData[]): OptimizedRange
   return ranges
 }
 
+/**
+ * A range under construction with the spread of the nightly prices it covers
+ */
+interface RangeCandidate {
+  range: OptimizedRange
+  minPrice: number
+  maxPrice: number
+}
+
+/**
+ * Price charged for a merged range: the midpoint of its nightly prices
+ */
+function rangePrice(minPrice: number, maxPrice: number): number {
+  return Math.round((minPrice + maxPrice) / 2 * 100) / 100
+}
+
+/**
+ * Worst-case error of charging rangePrice for every night in [minPrice, maxPrice]
+ * Percent is relative to the nightly price (largest for the cheapest night)
+ */
+function rangeDeviation(minPrice: number, maxPrice: number): { amount: number, percent: number } {
+  const price = rangePrice(minPrice, maxPrice)
+  const amount = Math.max(price - minPrice, maxPrice - price)
+  const percent = minPrice > 0 ? Math.max((price - minPrice) / minPrice, (maxPrice - price) / maxPrice) * 100 : 0
+
+  return { amount, percent }
+}
+
+/**
+ * Whether charging one price for [minPrice, maxPrice] stays within the tolerance
+ */
+function withinTolerance(minPrice: number, maxPrice: number, options: RangeOptimizationOptions): boolean {
+  const deviation = rangeDeviation(minPrice, maxPrice)
+  const tolerance = options.priceTolerance ?? 0
+
+  // Compare in cents so float noise does not split a range sitting exactly on the tolerance
+  return options.toleranceType === 'percent'
+    ? Math.round(deviation.percent * 100) <= Math.round(tolerance * 100)
+    : Math.round(deviation.amount * 100) <= Math.round(tolerance * 100)
+}
+
+function mergeCandidates(first: RangeCandidate, second: RangeCandidate): RangeCandidate {
+  const minPrice = Math.min(first.minPrice, second.minPrice)
+  const maxPrice = Math.max(first.maxPrice, second.maxPrice)
+
+  return {
+    range: { ...first.range, endDate: second.range.endDate, price: rangePrice(minPrice, maxPrice) },
+    minPrice,
+    maxPrice
+  }
+}
+
+/**
+ * Merge consecutive days whose prices fit within a tolerance of a shared range price
+ */
+function mergeWithinTolerance(prices: DatePriceData[], options: RangeOptimizationOptions): RangeCandidate[] {
+  const sortedPrices = [...prices].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  const candidates: RangeCandidate[] = []
+
+  let current: RangeCandidate | null = null
+
+  for (const priceData of sortedPrices) {
+    const price = Math.round(priceData.price * 100) / 100
+
+    if (current &&
+        sameRateTerms(current.range, priceData) &&
+        isConsecutiveDay(current.range.endDate, priceData.date) &&
+        withinTolerance(Math.min(current.minPrice, price), Math.max(current.maxPrice, price), options)) {
+      current = mergeCandidates(current, {
+        range: { ...current.range, endDate: priceData.date },
+        minPrice: price,
+        maxPrice: price
+      })
+    } else {
+      if (current) candidates.push(current)
+      current = {
+        range: convertToIndividualEntries([priceData])[0],
+        minPrice: price,
+        maxPrice: price
+      }
+    }
+  }
+
+  if (current) candidates.push(current)
+  return candidates
+}
+
+/**
+ * Merge the adjacent ranges (across all groups) that add the least price error
+ * until at most maxRanges remain or nothing more can be merged
+ */
+function mergeToRateBudget(
+  groups: RangeCandidate[][],
+  maxRanges: number,
+  options: RangeOptimizationOptions
+): boolean {
+  const deviationOf = (minPrice: number, maxPrice: number) => {
+    const deviation = rangeDeviation(minPrice, maxPrice)
+    return options.toleranceType === 'percent' ? deviation.percent : deviation.amount
+  }
+
+  let count = groups.reduce((sum, group) => sum + group.length, 0)
+
+  while (count > maxRanges) {
+    let best: { group: RangeCandidate[], index: number, deviation: number } | null = null
+
+    for (const group of groups) {
+      for (let i = 0; i < group.length - 1; i++) {
+        const a = group[i]
+        const b = group[i + 1]
+        if (!sameRateTerms(a.range, b.range) || !isConsecutiveDay(a.range.endDate, b.range.startDate)) continue
+
+        const deviation = deviationOf(Math.min(a.minPrice, b.minPrice), Math.max(a.maxPrice, b.maxPrice))
+        if (!best || deviation < best.deviation) {
+          best = { group, index: i, deviation }
+        }
+      }
+    }
+
+    if (!best) return false
+
+    best.group.splice(best.index, 2, mergeCandidates(best.group[best.index], best.group[best.index + 1]))
+    count--
+  }
+
+  return true
+}
+
+/**
+ * Optimize several groups of daily pricing (one per stay length category) that
+ * end up in one payload, trading price precision for fewer ranges:
+ * consecutive days are merged while every night stays within the price
+ * tolerance of the range price, then, if maxRanges is set, the closest
+ * adjacent ranges are merged regardless of tolerance until the groups fit.
+ * Reports the worst-case price error introduced.
+ */
+export function optimizeWithTolerance(
+  priceGroups: DatePriceData[][],
+  options: RangeOptimizationOptions,
+  maxRanges?: number
+): {
+  groups: OptimizedRange[][]
+  maxDeviation: number          // EUR
+  maxDeviationPercent: number
+  withinBudget: boolean
+} {
+  const candidateGroups = priceGroups.map(prices => mergeWithinTolerance(prices, options))
+  const withinBudget = maxRanges === undefined || mergeToRateBudget(candidateGroups, maxRanges, options)
+
+  let maxDeviation = 0
+  let maxDeviationPercent = 0
+  for (const candidate of candidateGroups.flat()) {
+    const deviation = rangeDeviation(candidate.minPrice, candidate.maxPrice)
+    maxDeviation = Math.max(maxDeviation, deviation.amount)
+    maxDeviationPercent = Math.max(maxDeviationPercent, deviation.percent)
+  }
+
+  return {
+    groups: candidateGroups.map(group => group.map(candidate => candidate.range)),
+    maxDeviation: Math.round(maxDeviation * 100) / 100,
+    maxDeviationPercent: Math.round(maxDeviationPercent * 100) / 100,
+    withinBudget
+  }
+}
+
+export interface OptimizationStats {
+  entriesBefore: number
+  entriesAfter: number
+  reduction: number
+  effectiveReduction: number    // Percentage
+  maxDeviation: number          // EUR, worst |range price - nightly price|
+  maxDeviationPercent: number
+}
+
 /**
  * Calculate optimization effectiveness
  */
 export function calculateOptimizationStats(
   originalEntries: number, 
-  optimizedEntries: number
-): { reduction: number, effectiveReduction: number } {
+  optimizedEntries: number,
+  maxDeviation: number = 0,
+  maxDeviationPercent: number = 0
+): OptimizationStats {
   const reduction = originalEntries - optimizedEntries
   const effectiveReduction = originalEntries > 0 ? (reduction / originalEntries) * 100 : 0
   
   return {
+    entriesBefore: originalEntries,
+    entriesAfter: optimizedEntries,
     reduction,
-    effectiveReduction: Math.round(effectiveReduction * 100) / 100 // Round to 2 decimal places
+    effectiveReduction: Math.round(effectiveReduction * 100) / 100, // Round to 2 decimal places
+    maxDeviation,
+    maxDeviationPercent
   }
 }
 
@@ -145,6 +347,9 @@ export function convertToIndividualEntries(pricingData: DatePriceData[]): Optimi
     price: Math.round(data.price * 100) / 100, // Round to 2 decimal places
     minStay: data.minStay,
     maxStay: data.maxStay,
-    stayLength: data.stayLength
+    stayLength: data.stayLength,
+    arrivalDays: data.arrivalDays,
+    departureDays: data.departureDays,
+    extraGuestFee: data.extraGuestFee
   }))
 }
\ No newline at end of file
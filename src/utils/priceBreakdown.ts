@@ -0,0 +1,193 @@
+import type { CalculateFinalPriceReturn } from '@/types/helpers'
+import type { DiscountKind } from '@/types/database'
+
+export type PriceBreakdownStepKind = 'base' | 'adjustment' | 'minimum' | 'discount' | 'cap' | 'override' | 'excluded'
+
+/**
+ * One line of a nightly price breakdown, in the order it was applied
+ */
+export interface PriceBreakdownStep {
+  key: string
+  kind: PriceBreakdownStepKind
+  label: string
+  amount: number      // Signed change to the price; 0 for excluded discounts
+  priceAfter: number  // Running price once this step is applied
+}
+
+/**
+ * Which price components are shown (mirrors the pricing toggles)
+ */
+export interface PriceBreakdownOptions {
+  nights: number
+  weekdayName?: string
+  includeSeasonalRates?: boolean
+  includeWeekdayMultipliers?: boolean
+  includeDiscountStrategies?: boolean
+}
+
+const EXCLUDED_LABELS: Record<DiscountKind, string> = {
+  lead_time: 'Last-minute / early-bird discount',
+  gap: 'Gap filler discount',
+  length_of_stay: 'Length-of-stay discount'
+}
+
+const percent = (rate: number) => `${Math.abs(rate * 100).toFixed(0)}%`
+
+/**
+ * Order the components of a calculate_final_price result the way its stacking
+ * policy applied them, with a running price after each step
+ */
+export function buildPriceBreakdown(
+  priceData: CalculateFinalPriceReturn,
+  options: PriceBreakdownOptions
+): PriceBreakdownStep[] {
+  const includeSeasonal = options.includeSeasonalRates ?? true
+  const includeWeekday = options.includeWeekdayMultipliers ?? true
+  const includeDiscounts = options.includeDiscountStrategies ?? true
+  const stage = priceData.min_price_stage ?? 'final'
+  const minimumAdjustment = priceData.min_price_adjustment ?? 0
+
+  const adjustments: Omit<PriceBreakdownStep, 'priceAfter'>[] = []
+  if (includeSeasonal && priceData.seasonal_adjustment !== 0) {
+    adjustments.push({
+      key: 'seasonal',
+      kind: 'adjustment',
+      label: `Seasonal adjustment${priceData.seasonal_rate_name ? ` – ${priceData.seasonal_rate_name}` : ''} (${percent(priceData.seasonal_adjustment / priceData.base_price)})`,
+      amount: priceData.seasonal_adjustment
+    })
+  }
+  if (includeWeekday && priceData.weekday_adjustment !== 0) {
+    adjustments.push({
+      key: 'weekday',
+      kind: 'adjustment',
+      label: `${options.weekdayName ?? 'Weekday'} adjustment (${percent(priceData.weekday_rate)})`,
+      amount: priceData.weekday_adjustment
+    })
+  }
+  if (priceData.demand_adjustment !== 0) {
+    adjustments.push({
+      key: 'demand',
+      kind: 'adjustment',
+      label: `Demand adjustment (${priceData.demand_adjustment > 0 ? 'ahead of' : 'behind'} last year's bookings)`,
+      amount: priceData.demand_adjustment
+    })
+  }
+
+  // The minimum only floors the undiscounted price here; the rest is added at the end
+  const preDiscountMinimum = stage === 'before_discounts' ? minimumAdjustment : 0
+  const finalMinimum = stage === 'final' ? minimumAdjustment : 0
+  const adjustedPrice = priceData.adjusted_price_per_night + preDiscountMinimum
+  const discountBase = priceData.discount_order === 'before_adjustments' ? priceData.base_price : adjustedPrice
+
+  const discounts: Omit<PriceBreakdownStep, 'priceAfter'>[] = []
+  if (includeDiscounts) {
+    const earlyBird = priceData.early_bird_discount ?? 0
+    if (priceData.last_minute_discount > 0) {
+      discounts.push({
+        key: 'last_minute',
+        kind: 'discount',
+        label: `Last-minute discount (${percent(priceData.last_minute_discount / discountBase)})`,
+        amount: -priceData.last_minute_discount
+      })
+    }
+    if (earlyBird > 0) {
+      discounts.push({
+        key: 'early_bird',
+        kind: 'discount',
+        label: `Early-bird discount (${percent(priceData.early_bird_rate ?? earlyBird / discountBase)})`,
+        amount: -earlyBird
+      })
+    }
+    if (priceData.gap_discount > 0) {
+      discounts.push({
+        key: 'gap',
+        kind: 'discount',
+        label: `Gap filler discount (${priceData.gap_nights ?? '?'}-night gap between bookings, ${percent(priceData.gap_rate)})`,
+        amount: -priceData.gap_discount
+      })
+    }
+    if (priceData.los_discount > 0) {
+      discounts.push({
+        key: 'los',
+        kind: 'discount',
+        label: `Length-of-stay discount (${options.nights} nights, ${percent(priceData.los_rate)})`,
+        amount: -priceData.los_discount
+      })
+    }
+    for (const kind of priceData.excluded_discounts ?? []) {
+      discounts.push({
+        key: `excluded_${kind}`,
+        kind: 'excluded',
+        label: `${EXCLUDED_LABELS[kind]} not applied: exclusive with a larger discount`,
+        amount: 0
+      })
+    }
+    if ((priceData.discount_cap_reduction ?? 0) > 0) {
+      discounts.push({
+        key: 'cap',
+        kind: 'cap',
+        label: `Total discount capped at ${percent(priceData.max_total_discount ?? 0)}`,
+        amount: priceData.discount_cap_reduction ?? 0
+      })
+    }
+  }
+
+  const steps: Omit<PriceBreakdownStep, 'priceAfter'>[] = [
+    { key: 'base', kind: 'base', label: 'Base price per night', amount: priceData.base_price }
+  ]
+  const preDiscountMinimumStep: Omit<PriceBreakdownStep, 'priceAfter'>[] = preDiscountMinimum > 0
+    ? [{ key: 'minimum_before_discounts', kind: 'minimum', label: 'Raised to minimum price before discounts', amount: preDiscountMinimum }]
+    : []
+
+  if (priceData.discount_order === 'before_adjustments') {
+    steps.push(...discounts, ...adjustments, ...preDiscountMinimumStep)
+  } else {
+    steps.push(...adjustments, ...preDiscountMinimumStep, ...discounts)
+  }
+
+  if (finalMinimum > 0) {
+    steps.push({ key: 'minimum', kind: 'minimum', label: 'Raised to minimum price', amount: finalMinimum })
+  }
+
+  if (priceData.is_overridden && priceData.calculated_price_per_night !== undefined) {
+    steps.push({
+      key: 'override',
+      kind: 'override',
+      label: 'Manual price override',
+      amount: priceData.final_price_per_night - priceData.calculated_price_per_night
+    })
+  }
+
+  let running = 0
+  return steps.map(step => {
+    running += step.amount
+    return { ...step, priceAfter: running }
+  })
+}
+
+/**
+ * Plain-language summary of the stacking policy a price was calculated with
+ */
+export function describeStackingPolicy(priceData: CalculateFinalPriceReturn): string[] {
+  const lines = [
+    priceData.stacking_mode === 'additive'
+      ? 'Discount percentages are added together'
+      : 'Each discount comes off the price left by the previous one',
+    priceData.discount_order === 'before_adjustments'
+      ? 'Discounts are worked out on the base price, before seasonal, weekday and demand adjustments'
+      : 'Discounts come off the price after seasonal, weekday and demand adjustments',
+    priceData.min_price_stage === 'before_discounts'
+      ? 'The minimum price floors the price before discounts; discounts may go below it'
+      : 'The minimum price applies to the final price'
+  ]
+
+  if (priceData.max_total_discount !== null && priceData.max_total_discount !== undefined) {
+    lines.push(`Discounts together take at most ${percent(priceData.max_total_discount)} off`)
+  }
+
+  if (priceData.excluded_discounts && priceData.excluded_discounts.length > 0) {
+    lines.push('Only the largest of the exclusive discounts applies')
+  }
+
+  return lines
+}
@@ -1,5 +1,20 @@
 // Rule template generation utilities
-export type CurveType = 'aggressive' | 'moderate' | 'gentle';
+import { DISCOUNT_CURVES } from '../types/helpers';
+import type { CurvePoint, CurveInterpolation } from '../types/database';
+import type { Json } from '../types/database.types';
+
+export type PresetCurveType = 'aggressive' | 'moderate' | 'gentle';
+export type CurveType = PresetCurveType | 'custom';
+
+// A strategy's curve, whatever its type
+export interface CurveDefinition {
+  curveType: CurveType;
+  activationWindow: number;
+  minDiscount: number;
+  maxDiscount: number;
+  points?: CurvePoint[] | null;
+  interpolation?: CurveInterpolation | null;
+}
 
 export interface RuleTemplate {
   days: number;
@@ -14,7 +29,7 @@ export interface DiscountRuleData {
 }
 
 // Predefined templates for different curve types
-const curveTemplates: Record<CurveType, RuleTemplate[]> = {
+const curveTemplates: Record<PresetCurveType, RuleTemplate[]> = {
   aggressive: [
     { days: 1, discount: 0.30 },
     { days: 2, discount: 0.28 },
@@ -50,20 +65,168 @@ const curveTemplates: Record<CurveType, RuleTemplate[]> = {
   ]
 };
 
+/**
+ * Read stored curve points, dropping malformed entries
+ * @param value curve_points as stored
+ * @returns Control points, ascending by days
+ */
+export const parseCurvePoints = (value: Json | null | undefined): CurvePoint[] => {
+  if (!Array.isArray(value)) return [];
+  
+  return value
+    .filter((point): point is { days: number; discount: number } =>
+      typeof point === 'object' && point !== null && !Array.isArray(point) &&
+      typeof point.days === 'number' && typeof point.discount === 'number'
+    )
+    .map(point => ({ days: point.days, discount: point.discount }))
+    .sort((a, b) => a.days - b.days);
+};
+
+/**
+ * Discount of a custom curve at a lead time. Past the last control point the curve
+ * has ended and gives no discount.
+ * @param points Control points, in any order
+ * @param interpolation 'linear' joins points with straight lines; 'stepped' uses the
+ *   nearest point at or beyond the lead time, as discount rules do
+ * @param daysOut Days before check-in
+ * @returns Discount (0-1)
+ */
+export const interpolateCurve = (
+  points: CurvePoint[],
+  interpolation: CurveInterpolation,
+  daysOut: number
+): number => {
+  const sorted = [...points].sort((a, b) => a.days - b.days);
+  const next = sorted.findIndex(point => point.days >= daysOut);
+  
+  if (next === -1) return 0;
+  if (interpolation === 'stepped' || next === 0) return sorted[next].discount;
+  
+  const before = sorted[next - 1];
+  const after = sorted[next];
+  const ratio = (daysOut - before.days) / (after.days - before.days);
+  return before.discount + (after.discount - before.discount) * ratio;
+};
+
+/**
+ * Discount of any curve at a lead time, 0 outside the activation window
+ * @param curve The strategy's curve
+ * @param daysOut Days before check-in
+ * @returns Discount (0-1)
+ */
+export const evaluateCurve = (curve: CurveDefinition, daysOut: number): number => {
+  if (daysOut < 0 || daysOut > curve.activationWindow) return 0;
+  
+  if (curve.curveType === 'custom') {
+    return curve.points && curve.points.length > 0
+      ? interpolateCurve(curve.points, curve.interpolation ?? 'linear', daysOut)
+      : 0;
+  }
+  
+  return DISCOUNT_CURVES[curve.curveType](daysOut, curve.activationWindow, curve.minDiscount, curve.maxDiscount);
+};
+
+/**
+ * Sample a curve for drawing, from check-in day out to the activation window
+ * @param curve The strategy's curve
+ * @param maxPoints Upper bound on the number of samples
+ * @returns One { days, discount } per sampled day, ascending
+ */
+export const sampleCurve = (curve: CurveDefinition, maxPoints: number = 120): RuleTemplate[] => {
+  const step = Math.max(1, Math.ceil(curve.activationWindow / maxPoints));
+  const days = new Set<number>([curve.activationWindow]);
+  
+  for (let day = 0; day < curve.activationWindow; day += step) {
+    days.add(day);
+  }
+  // Keep the corners of custom curves sharp
+  (curve.points ?? []).forEach(point => {
+    if (point.days <= curve.activationWindow) days.add(point.days);
+  });
+  
+  return Array.from(days)
+    .sort((a, b) => a - b)
+    .map(day => ({ days: day, discount: evaluateCurve(curve, day) }));
+};
+
+/**
+ * Trace early-bird thresholds for drawing: each discount holds from its lead time
+ * until the next threshold, and the furthest one holds out to maxDays
+ * @param points Lead time thresholds, in any order
+ * @param maxDays Right-hand end of the trace
+ * @returns Corner points, ascending by days
+ */
+export const sampleEarlyBirdCurve = (points: CurvePoint[], maxDays: number): RuleTemplate[] => {
+  const sorted = [...points].sort((a, b) => a.days - b.days);
+  if (sorted.length === 0) return [];
+  
+  const trace: RuleTemplate[] = [{ days: sorted[0].days, discount: 0 }];
+  sorted.forEach((point, index) => {
+    const end = index < sorted.length - 1 ? sorted[index + 1].days : Math.max(maxDays, point.days);
+    trace.push({ days: point.days, discount: point.discount }, { days: end, discount: point.discount });
+  });
+  
+  return trace;
+};
+
+/**
+ * Generate discount rules from a custom curve. Stepped curves give one rule per point;
+ * linear curves are sampled at the points and at regular days in between.
+ * @param points Control points
+ * @param interpolation How the curve runs between points
+ * @param maxDays The maximum days before check-in (activation window)
+ * @param maxRules Upper bound on the number of sampled rules for linear curves
+ * @returns Array of discount rule data
+ */
+export const generateCustomCurveRules = (
+  points: CurvePoint[],
+  interpolation: CurveInterpolation,
+  maxDays: number,
+  maxRules: number = 30
+): DiscountRuleData[] => {
+  const pointDays = points.map(point => point.days).filter(day => day <= maxDays);
+  const days = new Set<number>(pointDays);
+  
+  if (interpolation === 'linear' && pointDays.length > 0) {
+    const lastDay = Math.max(...pointDays);
+    const step = Math.max(1, Math.ceil(lastDay / maxRules));
+    for (let day = Math.max(1, Math.min(...pointDays)); day < lastDay; day += step) {
+      days.add(day);
+    }
+  }
+  
+  return Array.from(days)
+    .sort((a, b) => a - b)
+    .map(day => ({
+      days_before_checkin: day,
+      discount_percentage: Math.round(interpolateCurve(points, interpolation, day) * 10000) / 10000,
+      min_nights: null,
+      applicable_days: null
+    }));
+};
+
 /**
  * Generate discount rules based on curve type and activation window
- * @param curveType The type of discount curve (aggressive, moderate, gentle)
+ * @param curveType The type of discount curve (aggressive, moderate, gentle, custom)
  * @param maxDays The maximum days before check-in (activation window)
  * @param minDiscount Optional minimum discount to enforce
  * @param maxDiscount Optional maximum discount to enforce
+ * @param customCurve Control points and interpolation, used when curveType is 'custom'
  * @returns Array of discount rule data
  */
 export const generateRulesByCurveType = (
   curveType: CurveType,
   maxDays: number,
   minDiscount?: number,
-  maxDiscount?: number
+  maxDiscount?: number,
+  customCurve?: { points: CurvePoint[]; interpolation: CurveInterpolation }
 ): DiscountRuleData[] => {
+  if (curveType === 'custom') {
+    return customCurve
+      ? generateCustomCurveRules(customCurve.points, customCurve.interpolation, maxDays)
+      : [];
+  }
+  
   const templates = curveTemplates[curveType];
   
   return templates
@@ -160,6 +323,61 @@ export const generateExponentialDiscountRules = (
   return rules;
 };
 
+/**
+ * Generate early-bird rules: lead time thresholds from the minimum lead time outwards,
+ * with the discount growing the further ahead the booking is made. The curve types keep
+ * their meaning, mirrored: an aggressive curve reaches the maximum discount soonest.
+ * A custom curve's points are used as the thresholds.
+ * @param curveType The type of discount curve (aggressive, moderate, gentle, custom)
+ * @param minLeadDays The minimum days before check-in (activation window)
+ * @param minDiscount Discount at the minimum lead time
+ * @param maxDiscount Discount at the furthest threshold
+ * @param steps Number of thresholds to generate
+ * @param stepDays Days between thresholds
+ * @param customPoints Control points, used when curveType is 'custom'
+ * @returns Array of discount rule data
+ */
+export const generateEarlyBirdRules = (
+  curveType: CurveType,
+  minLeadDays: number,
+  minDiscount: number,
+  maxDiscount: number,
+  steps: number = 4,
+  stepDays: number = 30,
+  customPoints?: CurvePoint[]
+): DiscountRuleData[] => {
+  if (curveType === 'custom') {
+    return (customPoints ?? [])
+      .filter(point => point.days >= minLeadDays)
+      .sort((a, b) => a.days - b.days)
+      .map(point => ({
+        days_before_checkin: point.days,
+        discount_percentage: point.discount,
+        min_nights: null,
+        applicable_days: null
+      }));
+  }
+  
+  if (steps < 2) steps = 2;
+  
+  const curve = DISCOUNT_CURVES[curveType];
+  const rules: DiscountRuleData[] = [];
+  
+  for (let i = 0; i < steps; i++) {
+    // Steps left to the furthest threshold play the part of days left to check-in
+    const discount = curve(steps - 1 - i, steps - 1, minDiscount, maxDiscount);
+    
+    rules.push({
+      days_before_checkin: minLeadDays + i * stepDays,
+      discount_percentage: Math.round(discount * 10000) / 10000,
+      min_nights: null,
+      applicable_days: null
+    });
+  }
+  
+  return rules;
+};
+
 /**
  * Validate that rules don't have duplicate days
  * @param rules Array of discount rules to validate
@@ -0,0 +1,92 @@
+/**
+ * Scenario Comparison Utility
+ *
+ * Compares live calendar prices with the prices a pricing scenario would produce,
+ * in the same shape as the export comparison so both read the same way
+ */
+
+import { formatMoney, DEFAULT_CURRENCY } from './currency'
+
+/**
+ * Price difference on one night
+ */
+export interface ScenarioPriceDifference {
+  date: string
+  livePrice: number
+  scenarioPrice: number
+  difference: number
+  percentChange: number
+}
+
+/**
+ * Comparison result for one property over a date range
+ */
+export interface ScenarioComparison {
+  totalDates: number
+  datesWithDifferences: number
+  averagePriceDifference: number   // Signed average over the dates that differ
+  totalRevenueDifference: number   // Signed sum of nightly differences
+  priceDifferences: ScenarioPriceDifference[]
+}
+
+/**
+ * Compare live and scenario nightly prices
+ *
+ * @param livePrices - Final price per night keyed by YYYY-MM-DD
+ * @param scenarioPrices - Scenario price per night keyed by YYYY-MM-DD
+ */
+export function generateScenarioComparison(
+  livePrices: Map<string, number>,
+  scenarioPrices: Map<string, number>
+): ScenarioComparison {
+  const priceDifferences: ScenarioPriceDifference[] = []
+  let totalDates = 0
+
+  for (const [date, livePrice] of livePrices) {
+    const scenarioPrice = scenarioPrices.get(date)
+    if (scenarioPrice === undefined) continue
+
+    totalDates++
+    if (Math.abs(scenarioPrice - livePrice) > 0.01) {
+      const difference = scenarioPrice - livePrice
+      priceDifferences.push({
+        date,
+        livePrice,
+        scenarioPrice,
+        difference,
+        percentChange: livePrice > 0 ? (difference / livePrice) * 100 : 0
+      })
+    }
+  }
+
+  priceDifferences.sort((a, b) => a.date.localeCompare(b.date))
+  const totalRevenueDifference = priceDifferences.reduce((sum, diff) => sum + diff.difference, 0)
+
+  return {
+    totalDates,
+    datesWithDifferences: priceDifferences.length,
+    averagePriceDifference: priceDifferences.length > 0 ? totalRevenueDifference / priceDifferences.length : 0,
+    totalRevenueDifference,
+    priceDifferences
+  }
+}
+
+/**
+ * Format comparison results for display
+ */
+export function formatScenarioSummary(
+  comparison: ScenarioComparison,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  if (comparison.datesWithDifferences === 0) {
+    return `No price differences on ${comparison.totalDates} nights.`
+  }
+
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${formatMoney(value, currency)}`
+
+  return [
+    `${comparison.datesWithDifferences} of ${comparison.totalDates} nights differ`,
+    `average ${signed(comparison.averagePriceDifference)}/night`,
+    `total ${signed(comparison.totalRevenueDifference)}`
+  ].join(' · ')
+}
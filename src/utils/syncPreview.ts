@@ -0,0 +1,297 @@
+/**
+ * Sync Preview Utility
+ *
+ * Dry run of a Lodgify sync: compares generated payloads with the rates Lodgify
+ * last accepted (lodgify_pushed_rates) night by night, in the same shape as the
+ * export comparison, so a user can see what a push would change before making it.
+ */
+
+import type { LodgifyPayload, LodgifyRate } from '@/types/lodgify'
+import { diffLodgifyRates, buildDeltaPayload, expandNights, type RateSyncMode } from './lodgifyRateDiff'
+import { formatMoney, DEFAULT_CURRENCY } from './currency'
+
+/**
+ * Price swings at or above this share are flagged
+ */
+export const LARGE_SWING_THRESHOLD = 0.25
+
+/**
+ * Kind of change on one night in one stay category
+ * - price: same stay category, different price or guest fee
+ * - stay: min/max stay changed (price may have changed too)
+ * - added: a dated rate where Lodgify only had the default
+ * - removed: a stay category the night no longer has, which takes a full push
+ */
+export type NightChangeType = 'price' | 'stay' | 'added' | 'removed'
+
+/**
+ * Change on one night
+ */
+export interface NightRateChange {
+  date: string
+  type: NightChangeType
+  oldPrice: number | null     // null = default rate applied
+  newPrice: number | null
+  oldStay: string | null      // "min-max" nights
+  newStay: string | null
+  percentChange: number | null
+}
+
+/**
+ * Dry run result for one property
+ */
+export interface PropertySyncPreview {
+  propertyId: number          // Lodgify property ID
+  currency: string
+  hasBaseline: boolean        // false = never pushed, the full payload is sent
+  mode: RateSyncMode
+  summary: string
+  defaultRateChange: { oldPrice: number; newPrice: number } | null
+  totals: {
+    priceChanges: number
+    stayChanges: number
+    addedNights: number
+    removedNights: number
+    changedNights: number     // Distinct nights with any change
+    largeSwings: number
+    ratesToSend: number
+    totalRates: number
+  }
+  changes: NightRateChange[]
+  warnings: string[]
+}
+
+/**
+ * Dry run result for all payloads
+ */
+export interface SyncPreview {
+  totalProperties: number
+  propertiesWithChanges: number
+  totals: {
+    changedNights: number
+    largeSwings: number
+    ratesToSend: number
+    totalRates: number
+  }
+  properties: PropertySyncPreview[]
+  warnings: string[]
+}
+
+const stayLabel = (rate: LodgifyRate) => `${rate.min_stay}-${rate.max_stay}`
+
+const percentChange = (oldPrice: number | null, newPrice: number | null): number | null =>
+  oldPrice && newPrice !== null ? ((newPrice - oldPrice) / oldPrice) * 100 : null
+
+/**
+ * Dry run for one property
+ *
+ * @param payload - Generated payload
+ * @param previousRates - Rates Lodgify last accepted, null if never pushed
+ * @param currency - Currency the property is priced in
+ */
+export function generatePropertySyncPreview(
+  payload: LodgifyPayload,
+  previousRates: LodgifyRate[] | null,
+  currency: string = DEFAULT_CURRENCY,
+  largeSwingThreshold: number = LARGE_SWING_THRESHOLD
+): PropertySyncPreview {
+  const diff = diffLodgifyRates(previousRates, payload)
+  const ratesToSend = diff.mode === 'unchanged' ? 0 : buildDeltaPayload(payload, diff).rates.length
+  const warnings: string[] = []
+  const changes: NightRateChange[] = []
+
+  const nextDefault = payload.rates.find(rate => rate.is_default)
+  const previousDefault = previousRates?.find(rate => rate.is_default)
+  const defaultRateChange = previousDefault && nextDefault &&
+    Math.abs(previousDefault.price_per_day - nextDefault.price_per_day) > 0.005
+    ? { oldPrice: previousDefault.price_per_day, newPrice: nextDefault.price_per_day }
+    : null
+
+  if (previousRates) {
+    // Nights before the payload's first date are in the past
+    const horizonStart = payload.rates
+      .filter(rate => !rate.is_default && rate.start_date)
+      .reduce<string | null>((min, rate) => (min === null || rate.start_date! < min ? rate.start_date! : min), null)
+
+    // date -> rates covering it, one per stay category
+    const byDate = (rates: LodgifyRate[]) => {
+      const dates = new Map<string, LodgifyRate[]>()
+      for (const nights of expandNights(rates).values()) {
+        for (const [date, rate] of nights) {
+          if (horizonStart && date < horizonStart) continue
+          dates.set(date, [...(dates.get(date) ?? []), rate])
+        }
+      }
+      return dates
+    }
+    const before = byDate(previousRates)
+    const after = byDate(payload.rates)
+
+    for (const date of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+      const oldRates = [...(before.get(date) ?? [])].sort((a, b) => a.min_stay - b.min_stay)
+      const newRates = [...(after.get(date) ?? [])].sort((a, b) => a.min_stay - b.min_stay)
+
+      // Same stay category: compare prices
+      for (const newRate of [...newRates]) {
+        const oldIndex = oldRates.findIndex(rate => stayLabel(rate) === stayLabel(newRate))
+        if (oldIndex === -1) continue
+
+        const [oldRate] = oldRates.splice(oldIndex, 1)
+        newRates.splice(newRates.indexOf(newRate), 1)
+        if (
+          Math.abs(oldRate.price_per_day - newRate.price_per_day) > 0.005 ||
+          Math.abs(oldRate.price_per_additional_guest - newRate.price_per_additional_guest) > 0.005
+        ) {
+          changes.push({
+            date,
+            type: 'price',
+            oldPrice: oldRate.price_per_day,
+            newPrice: newRate.price_per_day,
+            oldStay: stayLabel(oldRate),
+            newStay: stayLabel(newRate),
+            percentChange: percentChange(oldRate.price_per_day, newRate.price_per_day)
+          })
+        }
+      }
+
+      // Remaining categories pair up in min-stay order as stay changes
+      while (oldRates.length > 0 && newRates.length > 0) {
+        const oldRate = oldRates.shift()!
+        const newRate = newRates.shift()!
+        changes.push({
+          date,
+          type: 'stay',
+          oldPrice: oldRate.price_per_day,
+          newPrice: newRate.price_per_day,
+          oldStay: stayLabel(oldRate),
+          newStay: stayLabel(newRate),
+          percentChange: percentChange(oldRate.price_per_day, newRate.price_per_day)
+        })
+      }
+
+      for (const newRate of newRates) {
+        changes.push({
+          date,
+          type: 'added',
+          oldPrice: null,
+          newPrice: newRate.price_per_day,
+          oldStay: null,
+          newStay: stayLabel(newRate),
+          percentChange: percentChange(nextDefault?.price_per_day ?? null, newRate.price_per_day)
+        })
+      }
+      for (const oldRate of oldRates) {
+        changes.push({
+          date,
+          type: 'removed',
+          oldPrice: oldRate.price_per_day,
+          newPrice: null,
+          oldStay: stayLabel(oldRate),
+          newStay: null,
+          percentChange: percentChange(oldRate.price_per_day, nextDefault?.price_per_day ?? null)
+        })
+      }
+    }
+  }
+
+  const count = (type: NightChangeType) => changes.filter(change => change.type === type).length
+  const swings = changes.filter(change =>
+    change.percentChange !== null && Math.abs(change.percentChange) >= largeSwingThreshold * 100
+  )
+
+  if (!previousRates) {
+    warnings.push('No record of what Lodgify currently has; the full payload will be sent')
+  }
+  if (defaultRateChange) {
+    const swing = percentChange(defaultRateChange.oldPrice, defaultRateChange.newPrice) ?? 0
+    warnings.push(
+      `Default rate changes from ${formatMoney(defaultRateChange.oldPrice, currency)} to ${formatMoney(defaultRateChange.newPrice, currency)} (${swing >= 0 ? '+' : ''}${swing.toFixed(0)}%); the full payload will be sent`
+    )
+  }
+  if (diff.removedNights > 0) {
+    warnings.push(
+      `${diff.removedNights} night${diff.removedNights === 1 ? ' loses' : 's lose'} a stay category; the full payload will be sent`
+    )
+  }
+  if (swings.length > 0) {
+    const largest = swings.reduce((max, change) =>
+      Math.abs(change.percentChange!) > Math.abs(max.percentChange!) ? change : max
+    )
+    const nights = new Set(swings.map(change => change.date)).size
+    warnings.push(
+      `${nights} night${nights === 1 ? '' : 's'} change by ${Math.round(largeSwingThreshold * 100)}% or more (largest ${largest.percentChange! >= 0 ? '+' : ''}${largest.percentChange!.toFixed(0)}% on ${largest.date})`
+    )
+  }
+
+  return {
+    propertyId: payload.property_id,
+    currency,
+    hasBaseline: previousRates !== null,
+    mode: diff.mode,
+    summary: diff.summary,
+    defaultRateChange,
+    totals: {
+      priceChanges: count('price'),
+      stayChanges: count('stay'),
+      addedNights: count('added'),
+      removedNights: count('removed'),
+      changedNights: new Set(changes.map(change => change.date)).size,
+      largeSwings: swings.length,
+      ratesToSend,
+      totalRates: diff.totalRates
+    },
+    changes,
+    warnings
+  }
+}
+
+/**
+ * Dry run for every generated payload
+ *
+ * @param payloads - Generated payloads
+ * @param pushedRates - Rates Lodgify last accepted, by Lodgify property ID
+ * @param currencies - Currency by Lodgify property ID; missing = EUR
+ */
+export function generateSyncPreview(
+  payloads: LodgifyPayload[],
+  pushedRates: Map<number, LodgifyRate[]>,
+  currencies: Record<number, string> = {}
+): SyncPreview {
+  const properties = payloads.map(payload =>
+    generatePropertySyncPreview(
+      payload,
+      pushedRates.get(payload.property_id) ?? null,
+      currencies[payload.property_id] ?? DEFAULT_CURRENCY
+    )
+  )
+
+  return {
+    totalProperties: properties.length,
+    propertiesWithChanges: properties.filter(property => property.mode !== 'unchanged').length,
+    totals: {
+      changedNights: properties.reduce((sum, property) => sum + property.totals.changedNights, 0),
+      largeSwings: properties.reduce((sum, property) => sum + property.totals.largeSwings, 0),
+      ratesToSend: properties.reduce((sum, property) => sum + property.totals.ratesToSend, 0),
+      totalRates: properties.reduce((sum, property) => sum + property.totals.totalRates, 0)
+    },
+    properties,
+    warnings: properties.flatMap(property =>
+      property.warnings.map(warning => `Property ${property.propertyId}: ${warning}`)
+    )
+  }
+}
+
+/**
+ * Format a dry run for display
+ */
+export function formatSyncPreviewSummary(preview: SyncPreview): string {
+  if (preview.propertiesWithChanges === 0) {
+    return `No changes to push for ${preview.totalProperties} properties.`
+  }
+
+  return [
+    `${preview.propertiesWithChanges} of ${preview.totalProperties} properties change`,
+    `${preview.totals.changedNights} nights affected`,
+    `${preview.totals.ratesToSend.toLocaleString('en-US')} of ${preview.totals.totalRates.toLocaleString('en-US')} rates to send`
+  ].join(' · ')
+}
@@ -6,6 +6,7 @@
  */
 
 import { formatDate } from './dateHelpers'
+import { formatMoney, DEFAULT_CURRENCY } from './currency'
 
 // =============================================================================
 // Price Validation Helpers
@@ -77,14 +78,14 @@ export function normalizePriceString(value: string): string {
 }
 
 /**
- * Format price for display with currency symbol
+ * Format price for display in a currency (ISO 4217 code)
  */
-export function formatPriceForDisplay(value: number, currency: string = '$'): string {
+export function formatPriceForDisplay(value: number, currency: string = DEFAULT_CURRENCY): string {
   if (typeof value !== 'number' || isNaN(value) || value < 0) {
-    return `${currency}0.00`
+    return formatMoney(0, currency)
   }
   
-  return `${currency}${value.toFixed(2)}`
+  return formatMoney(value, currency)
 }
 
 /**
@@ -0,0 +1,56 @@
+/**
+ * Lodgify Booking Status Mapping
+ *
+ * Maps Lodgify reservation statuses to bookings.booking_status. Used by the
+ * app's booking import and by the lodgify-sync-automation edge function, so
+ * imports use explicit .ts paths.
+ */
+
+import type { LodgifyReservation } from './lodgifyTypes.ts'
+
+/**
+ * Statuses bookings are stored with; occupancy and gap detection count
+ * 'confirmed' and 'pending'
+ */
+export type BookingStatus = 'confirmed' | 'pending' | 'cancelled'
+
+/**
+ * Maps a Lodgify reservation to a bookings.booking_status value
+ * Deleted, cancelled and declined reservations become 'cancelled' so they
+ * stop counting towards occupancy and gaps
+ *
+ * @returns null for a status Lodgify has not documented; the import skips
+ * and reports such reservations rather than storing an unknown status
+ */
+export function mapLodgifyBookingStatus(
+  reservation: Pick<LodgifyReservation, 'status' | 'is_deleted' | 'canceled_at'>
+): BookingStatus | null {
+  if (reservation.is_deleted || reservation.canceled_at) {
+    return 'cancelled'
+  }
+
+  switch (reservation.status?.trim().toLowerCase()) {
+    case 'booked':
+      return 'confirmed'
+    case 'tentative':
+    case 'open':
+      return 'pending'
+    case 'declined':
+    case 'cancelled':
+    case 'canceled':
+      return 'cancelled'
+    default:
+      return null
+  }
+}
+
+/**
+ * Failure message for a reservation whose status could not be mapped
+ */
+export function describeUnknownBookingStatus(
+  reservation: Pick<LodgifyReservation, 'status'>
+): string {
+  return reservation.status
+    ? `Unknown Lodgify status "${reservation.status}"; reservation not imported`
+    : 'Reservation has no Lodgify status; not imported'
+}
@@ -0,0 +1,39 @@
+/**
+ * Lodgify Extra Guest Fees
+ *
+ * Nightly extra guest fees as get_extra_guest_fees returns them (the most
+ * specific seasonal period with a fee, otherwise the property fee) and the
+ * guest terms of a Lodgify rate. Used by the app's payload generator and by
+ * the lodgify-sync-automation edge function, so both push the same fees.
+ */
+
+import type { LodgifyRate } from './lodgifyTypes.ts'
+
+/**
+ * Row of get_extra_guest_fees; NUMERIC may arrive as a string
+ */
+export interface ExtraGuestFeeRow {
+  stay_date: string
+  extra_guest_fee: number | string
+}
+
+/**
+ * Extra guest fee of each night, keyed by YYYY-MM-DD
+ */
+export function toExtraGuestFees(rows: ExtraGuestFeeRow[] | null | undefined): Map<string, number> {
+  return new Map((rows ?? []).map(row => [row.stay_date, Number(row.extra_guest_fee)]))
+}
+
+/**
+ * Guest terms of a Lodgify rate: the night's fee, else the property fee,
+ * paid from the first guest above base occupancy
+ */
+export function lodgifyGuestTerms(
+  property: { base_occupancy: number; extra_guest_fee: number | string },
+  nightFee?: number
+): Pick<LodgifyRate, 'price_per_additional_guest' | 'additional_guests_starts_from'> {
+  return {
+    price_per_additional_guest: nightFee ?? Number(property.extra_guest_fee),
+    additional_guests_starts_from: property.base_occupancy + 1
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Lodgify Rate Diff Utility
+ *
+ * Compares a newly generated Lodgify payload with the rate set last pushed for
+ * the property, so a sync only sends the date ranges whose rates changed.
+ * Rates are compared night by night per stay-length category (min/max stay).
+ *
+ * Shared by the app (through src/utils/lodgifyRateDiff.ts) and the
+ * lodgify-sync-automation edge function, so imports use explicit .ts paths.
+ */
+
+import type { LodgifyPayload, LodgifyRate } from './lodgifyTypes.ts'
+
+/**
+ * How a sync pushes a payload
+ * - full: nothing to compare against, the default rate changed, or nights
+ *   left a stay category
+ * - delta: only the changed ranges (plus the default rate) are sent
+ * - unchanged: nothing to send
+ */
+export type RateSyncMode = 'full' | 'delta' | 'unchanged'
+
+/**
+ * Result of comparing a payload with the last pushed rates
+ */
+export interface LodgifyRateDiff {
+  mode: RateSyncMode
+  defaultRateChanged: boolean
+  removedNights: number                   // Distinct nights that left a stay category
+  changedNights: number                   // Distinct nights with a change in any category
+  nightsByMonth: Record<string, number>   // Changed nights keyed by YYYY-MM
+  changedRates: LodgifyRate[]             // Ranges to send in a delta sync
+  totalRates: number                      // Rates in the full payload
+  summary: string
+}
+
+/**
+ * Summary stored on sync_operations.change_summary
+ */
+export interface RateChangeSummary {
+  mode: RateSyncMode
+  changed_nights: number
+  nights_by_month: Record<string, number>
+  rates_sent: number
+  total_rates: number
+  default_rate_changed: boolean
+  removed_nights: number
+  summary: string
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+// Everything about a night's rate except its dates and stay category
+const rateSignature = (rate: LodgifyRate): string =>
+  JSON.stringify([
+    Math.round(rate.price_per_day * 100),
+    Math.round(rate.price_per_additional_guest * 100),
+    rate.additional_guests_starts_from,
+    rate.arrival_days ?? null,
+    rate.departure_days ?? null
+  ])
+
+const categoryKey = (rate: LodgifyRate): string => `${rate.min_stay}-${rate.max_stay}`
+
+const nextDay = (date: string): string => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * Expand dated rates to one entry per night, per stay category
+ * Keyed by "min-max" stay category, then by YYYY-MM-DD
+ */
+export function expandNights(rates: LodgifyRate[]): Map<string, Map<string, LodgifyRate>> {
+  const categories = new Map<string, Map<string, LodgifyRate>>()
+
+  for (const rate of rates) {
+    if (rate.is_default || !rate.start_date || !rate.end_date) continue
+
+    const key = categoryKey(rate)
+    const nights = categories.get(key) ?? new Map<string, LodgifyRate>()
+    categories.set(key, nights)
+
+    for (let date = rate.start_date; date <= rate.end_date; date = nextDay(date)) {
+      nights.set(date, rate)
+    }
+  }
+
+  return categories
+}
+
+/**
+ * Group changed nights of one category into ranges of equal rates
+ */
+function groupNights(nights: Array<{ date: string; rate: LodgifyRate }>): LodgifyRate[] {
+  const ranges: LodgifyRate[] = []
+  let current: LodgifyRate | null = null
+  let currentSignature = ''
+
+  for (const { date, rate } of nights) {
+    const signature = rateSignature(rate)
+    if (current && signature === currentSignature && nextDay(current.end_date!) === date) {
+      current.end_date = date
+      continue
+    }
+
+    current = { ...rate, is_default: false, start_date: date, end_date: date }
+    currentSignature = signature
+    ranges.push(current)
+  }
+
+  return ranges
+}
+
+/**
+ * Human summary, e.g. "3 nights changed in July"
+ */
+export function formatRateDiffSummary(
+  diff: Pick<LodgifyRateDiff, 'mode' | 'changedNights' | 'nightsByMonth' | 'totalRates'>
+): string {
+  if (diff.mode === 'unchanged') {
+    return 'No rate changes'
+  }
+  if (diff.mode === 'full') {
+    return `Full sync: ${diff.totalRates.toLocaleString('en-US')} rates sent`
+  }
+
+  const nights = `${diff.changedNights} night${diff.changedNights === 1 ? '' : 's'} changed`
+  const months = Object.keys(diff.nightsByMonth).sort()
+  const monthName = (key: string) => MONTH_NAMES[Number(key.slice(5, 7)) - 1]
+  const years = new Set(months.map(key => key.slice(0, 4)))
+  const label = (key: string) => years.size > 1 ? `${monthName(key)} ${key.slice(0, 4)}` : monthName(key)
+
+  if (months.length === 1) {
+    return `${nights} in ${label(months[0])}`
+  }
+  if (months.length === 2) {
+    return `${nights} in ${label(months[0])} and ${label(months[1])}`
+  }
+  return `${nights} across ${months.length} months (${label(months[0])} – ${label(months[months.length - 1])})`
+}
+
+/**
+ * Compare a payload with the rates last pushed for the same property
+ *
+ * A night that had a dated rate in a stay category and no longer has one
+ * (a stay restriction narrowed or dropped the category, the night became a
+ * gap, or the payload was built with other stay categories) cannot be taken
+ * back by sending ranges: a priced rate for the old category would sell the
+ * stays it no longer allows. Such a diff is a full sync. Nights before the
+ * payload's first date are in the past and ignored.
+ *
+ * @param previousRates - Rates of the last successful push, null if never pushed
+ * @param payload - Newly generated payload
+ */
+export function diffLodgifyRates(
+  previousRates: LodgifyRate[] | null,
+  payload: LodgifyPayload
+): LodgifyRateDiff {
+  const totalRates = payload.rates.length
+  const nextDefault = payload.rates.find(rate => rate.is_default)
+  const previousDefault = previousRates?.find(rate => rate.is_default)
+
+  const defaultRateChanged = !previousDefault || !nextDefault ||
+    rateSignature(previousDefault) !== rateSignature(nextDefault) ||
+    categoryKey(previousDefault) !== categoryKey(nextDefault)
+
+  const fullDiff = (removedNights: number): LodgifyRateDiff => {
+    const diff = {
+      mode: 'full' as const,
+      defaultRateChanged,
+      removedNights,
+      changedNights: 0,
+      nightsByMonth: {},
+      changedRates: payload.rates.filter(rate => !rate.is_default),
+      totalRates
+    }
+    return { ...diff, summary: formatRateDiffSummary(diff) }
+  }
+
+  if (!previousRates || defaultRateChanged) {
+    return fullDiff(0)
+  }
+
+  const previousNights = expandNights(previousRates)
+  const nextNights = expandNights(payload.rates)
+  const horizonStart = payload.rates
+    .filter(rate => !rate.is_default && rate.start_date)
+    .reduce<string | null>((min, rate) => (min === null || rate.start_date! < min ? rate.start_date! : min), null)
+
+  const changedDates = new Set<string>()
+  const removedDates = new Set<string>()
+  const changedRates: LodgifyRate[] = []
+  const defaultSignature = rateSignature(nextDefault!)
+
+  for (const key of new Set([...previousNights.keys(), ...nextNights.keys()])) {
+    const before = previousNights.get(key) ?? new Map<string, LodgifyRate>()
+    const after = nextNights.get(key) ?? new Map<string, LodgifyRate>()
+    const changed: Array<{ date: string; rate: LodgifyRate }> = []
+
+    for (const date of new Set([...before.keys(), ...after.keys()])) {
+      if (horizonStart && date < horizonStart) continue
+
+      const oldRate = before.get(date)
+      const newRate = after.get(date)
+      if (!newRate) {
+        removedDates.add(date)
+        continue
+      }
+
+      const oldSignature = oldRate ? rateSignature(oldRate) : defaultSignature
+      if (oldSignature === rateSignature(newRate)) continue
+
+      changed.push({ date, rate: newRate })
+      changedDates.add(date)
+    }
+
+    changed.sort((a, b) => a.date.localeCompare(b.date))
+    changedRates.push(...groupNights(changed))
+  }
+
+  if (removedDates.size > 0) {
+    return fullDiff(removedDates.size)
+  }
+
+  const nightsByMonth: Record<string, number> = {}
+  for (const date of changedDates) {
+    const month = date.slice(0, 7)
+    nightsByMonth[month] = (nightsByMonth[month] ?? 0) + 1
+  }
+
+  const diff = {
+    mode: changedRates.length > 0 ? 'delta' as const : 'unchanged' as const,
+    defaultRateChanged: false,
+    removedNights: 0,
+    changedNights: changedDates.size,
+    nightsByMonth,
+    changedRates,
+    totalRates
+  }
+  return { ...diff, summary: formatRateDiffSummary(diff) }
+}
+
+/**
+ * Payload to send for a diff: the full payload, or the default rate plus the
+ * changed ranges
+ */
+export function buildDeltaPayload(payload: LodgifyPayload, diff: LodgifyRateDiff): LodgifyPayload {
+  if (diff.mode === 'full') {
+    return payload
+  }
+
+  return {
+    ...payload,
+    rates: [...payload.rates.filter(rate => rate.is_default), ...diff.changedRates]
+  }
+}
+
+/**
+ * Summary row for sync_operations.change_summary
+ */
+export function toRateChangeSummary(diff: LodgifyRateDiff, ratesSent: number): RateChangeSummary {
+  return {
+    mode: diff.mode,
+    changed_nights: diff.changedNights,
+    nights_by_month: diff.nightsByMonth,
+    rates_sent: ratesSent,
+    total_rates: diff.totalRates,
+    default_rate_changed: diff.defaultRateChanged,
+    removed_nights: diff.removedNights,
+    summary: diff.summary
+  }
+}
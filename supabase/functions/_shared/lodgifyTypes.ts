@@ -0,0 +1,40 @@
+// Lodgify API shapes shared by the app and the lodgify-sync-automation edge function
+// Imported from Deno as well, so this module has no imports of its own
+
+export interface LodgifyRate {
+  is_default: boolean
+  start_date?: string        // ISO date format (YYYY-MM-DD) - omit for default
+  end_date?: string          // ISO date format (YYYY-MM-DD) - omit for default
+  price_per_day: number      // EUR amount with 2 decimal places
+  min_stay: number           // Minimum nights required
+  max_stay: number           // Maximum nights allowed
+  price_per_additional_guest: number    // Additional guest fee
+  additional_guests_starts_from: number // Guest count threshold
+  arrival_days?: number[]    // Allowed arrival weekdays (0 = Sunday) - omit for any day
+  departure_days?: number[]  // Allowed departure weekdays (0 = Sunday) - omit for any day
+}
+
+export interface LodgifyPayload {
+  property_id: number        // lodgify_property_id converted to number
+  room_type_id: number       // lodgify_room_type_id
+  rates: LodgifyRate[]       // Array of rate configurations
+}
+
+/**
+ * Reservation as returned by the Lodgify v2 bookings endpoint
+ * Only the fields the booking import reads
+ */
+export interface LodgifyReservation {
+  id: number
+  property_id: number
+  arrival: string             // YYYY-MM-DD
+  departure: string           // YYYY-MM-DD
+  status: string              // Booked, Tentative, Open, Declined
+  is_deleted?: boolean
+  canceled_at?: string | null
+  total_amount?: number | null
+  updated_at?: string
+  guest?: {
+    name?: string | null
+  } | null
+}
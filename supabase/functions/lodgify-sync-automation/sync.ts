@@ -0,0 +1,1052 @@
+// Lodgify sync for one property: import bookings, generate the payload, diff it
+// with the rates last pushed and send the changes
+// Used by index.ts; kept free of the HTTP server so tests can import it
+/* global Deno */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LodgifyPayload, LodgifyRate, LodgifyReservation } from '../_shared/lodgifyTypes.ts'
+import { mapLodgifyBookingStatus, describeUnknownBookingStatus } from '../_shared/lodgifyBookingStatus.ts'
+import { toExtraGuestFees, lodgifyGuestTerms, type ExtraGuestFeeRow } from '../_shared/lodgifyGuestFees.ts'
+import {
+  diffLodgifyRates,
+  buildDeltaPayload,
+  toRateChangeSummary,
+  type LodgifyRateDiff
+} from '../_shared/lodgifyRateDiff.ts'
+
+export interface SyncRequest {
+  trigger_source: 'scheduled' | 'manual' | 'retry'
+  execution_time: string
+  sync_operation_id?: string
+  properties: PropertyIntegration[]
+}
+
+export interface PropertyIntegration {
+  property_id: string
+  lodgify_property_id: string
+  name: string
+  integration_id: string
+  retry_operation_id?: string   // Set by the retry queue: the failed job to run again
+}
+
+export interface SyncResult {
+  execution_id: string
+  total_properties: number
+  successful_syncs: number
+  failed_syncs: number
+  unchanged_syncs: number     // Properties whose rates had not changed; nothing sent
+  changed_nights: number
+  execution_time_ms: number
+  errors: SyncError[]
+}
+
+export interface SyncError {
+  property_id: string
+  error_code: string
+  error_message: string
+  retry_scheduled: boolean
+}
+
+/**
+ * Why a property sync failed; recorded on its sync operation and in the run's errors
+ */
+export interface SyncFailure {
+  code?: string
+  message: string
+  status?: number
+  retry_after_ms?: number | null
+  retry_scheduled?: boolean
+}
+
+interface SyncOperationRow {
+  id: string
+  started_at: string
+  error_details: { parent_sync_id?: string } | null
+}
+
+interface IntegrationRow {
+  api_key_encrypted: string | null
+  success_count: number | null
+  error_count: number | null
+}
+
+interface PropertyRow {
+  base_price_per_day: number
+  min_price_per_day: number
+  lodgify_room_type_id: number | null
+  base_occupancy: number | null
+  extra_guest_fee: number | null
+}
+
+interface StayCategory {
+  minStay: number
+  maxStay: number
+  stayLength: number            // Stay length the category is priced at
+}
+
+interface StayRestrictions {
+  minStay: number | null
+  maxStay: number | null
+  arrivalDays: number[] | null  // Weekdays, 0 = Sunday; null = any day
+  departureDays: number[] | null
+}
+
+interface BookingGap {
+  startDate: string             // First night (a departure date)
+  endDate: string               // Next arrival date
+  nights: number
+}
+
+// Lodgify API configuration
+// LODGIFY_API_BASE_URL points the function at another host, e.g. the test simulator
+const LODGIFY_API_BASE_URL = Deno.env.get('LODGIFY_API_BASE_URL') ?? 'https://api.lodgify.com'
+const LODGIFY_API_URL = `${LODGIFY_API_BASE_URL}/v1/rates/savewithoutavailability`
+const LODGIFY_RESERVATIONS_URL = `${LODGIFY_API_BASE_URL}/v2/reservations/bookings`
+const RESERVATIONS_PAGE_SIZE = 50
+const RETRY_DELAYS = [5000, 10000, 20000] // 5s, 10s, 20s delays for retry
+const REQUEST_TIMEOUT_MS = 30000 // Same as the app's LODGIFY_API_CONSTANTS.DEFAULT_TIMEOUT
+
+
+/**
+ * Sync a single property to Lodgify
+ */
+export async function syncProperty(
+  property: PropertyIntegration,
+  supabase: SupabaseClient,
+  syncOperationId?: string,
+  triggerSource: SyncRequest['trigger_source'] = 'scheduled'
+): Promise<{ success: boolean; diff?: LodgifyRateDiff; error?: SyncFailure }> {
+  try {
+    // Retry jobs run on their existing sync operation (claimed by the queue);
+    // otherwise create a property-specific sync operation record
+    const { data: syncOp, error: syncOpError } = property.retry_operation_id
+      ? await supabase
+        .from('sync_operations')
+        .select('id, started_at, error_details')
+        .eq('id', property.retry_operation_id)
+        .single<SyncOperationRow>()
+      : await supabase
+        .from('sync_operations')
+        .insert({
+          property_id: property.property_id,
+          operation_type: 'scheduled',
+          status: 'processing',
+          trigger_source: triggerSource,
+          started_at: new Date().toISOString(),
+          error_details: {
+            parent_sync_id: syncOperationId,
+            lodgify_property_id: property.lodgify_property_id
+          }
+        })
+        .select('id, started_at, error_details')
+        .single<SyncOperationRow>()
+    
+    if (syncOpError) {
+      console.error('Failed to create sync operation record:', syncOpError)
+    }
+    
+    const propertyOpId = syncOp?.id
+    const opStartedAt = syncOp ? new Date(syncOp.started_at).getTime() : Date.now()
+    const parentSyncId = syncOperationId ?? syncOp?.error_details?.parent_sync_id
+    let integrationCounts = { success_count: 0, error_count: 0 }
+    let sentPayload: LodgifyPayload | null = null
+    
+    try {
+      // Get API key for this property
+      const { data: integration, error: integrationError } = await supabase
+        .from('lodgify_integrations')
+        .select('api_key_encrypted, success_count, error_count')
+        .eq('integration_id', property.integration_id)
+        .single<IntegrationRow>()
+      
+      if (integrationError || !integration?.api_key_encrypted) {
+        throw new Error(`No API key found for property ${property.lodgify_property_id}`)
+      }
+      integrationCounts = {
+        success_count: integration.success_count ?? 0,
+        error_count: integration.error_count ?? 0
+      }
+      
+      // Bring bookings up to date first; gap and occupancy pricing read them
+      try {
+        await importBookings(property, integration.api_key_encrypted, supabase, parentSyncId)
+      } catch (importError) {
+        console.error(`Booking import failed for property ${property.lodgify_property_id}:`, importError)
+      }
+      
+      // Generate payload for this property
+      const payload = await generatePayloadForProperty(property, supabase)
+      
+      // Compare with the rates Lodgify last accepted; only changed ranges are sent
+      const { data: pushed } = await supabase
+        .from('lodgify_pushed_rates')
+        .select('rates')
+        .eq('property_id', property.property_id)
+        .maybeSingle<{ rates: LodgifyRate[] | null }>()
+      
+      const pushedRates = pushed?.rates
+      const diff = diffLodgifyRates(Array.isArray(pushedRates) ? pushedRates : null, payload)
+      const outgoingPayload = buildDeltaPayload(payload, diff)
+      const ratesSent = diff.mode === 'unchanged' ? 0 : outgoingPayload.rates.length
+      const changeFields = {
+        sync_mode: diff.mode,
+        total_records: ratesSent,
+        change_summary: toRateChangeSummary(diff, ratesSent)
+      }
+      
+      if (diff.mode === 'unchanged') {
+        await supabase
+          .from('lodgify_integrations')
+          .update({ last_sync_at: new Date().toISOString(), sync_status: 'active' })
+          .eq('integration_id', property.integration_id)
+        
+        if (propertyOpId) {
+          await supabase
+            .from('sync_operations')
+            .update({
+              ...changeFields,
+              status: 'completed',
+              completed_at: new Date().toISOString(),
+              duration_ms: Date.now() - opStartedAt
+            })
+            .eq('id', propertyOpId)
+        }
+        
+        await supersedeFailedJobs(supabase, property.property_id, propertyOpId)
+        return { success: true, diff }
+      }
+      
+      const body = JSON.stringify(outgoingPayload)
+      sentPayload = outgoingPayload
+      
+      // Send to Lodgify API with retry logic
+      let lastError: SyncFailure | null = null
+      let success = false
+      
+      for (let attempt = 0; attempt < RETRY_DELAYS.length; attempt++) {
+        try {
+          const response = await fetchWithTimeout(LODGIFY_API_URL, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-ApiKey': integration.api_key_encrypted
+            },
+            body
+          })
+          
+          if (response.ok) {
+            success = true
+            
+            // Lodgify now holds the full rate set; it is the baseline for the next diff
+            await supabase
+              .from('lodgify_pushed_rates')
+              .upsert({
+                property_id: property.property_id,
+                lodgify_property_id: property.lodgify_property_id,
+                rates: payload.rates,
+                sync_operation_id: propertyOpId ?? null,
+                pushed_at: new Date().toISOString()
+              }, { onConflict: 'property_id' })
+            
+            // Update property sync status
+            await supabase
+              .from('lodgify_integrations')
+              .update({
+                last_sync_at: new Date().toISOString(),
+                success_count: integrationCounts.success_count + 1,
+                error_count: 0, // Reset error count on success
+                sync_status: 'active'
+              })
+              .eq('integration_id', property.integration_id)
+            
+            // Update sync operation
+            if (propertyOpId) {
+              await supabase
+                .from('sync_operations')
+                .update({
+                  ...changeFields,
+                  status: 'completed',
+                  request_payload: outgoingPayload,
+                  api_endpoint: LODGIFY_API_URL,
+                  api_method: 'POST',
+                  api_status_code: response.status,
+                  payload_size_kb: Math.ceil(body.length / 1024),
+                  completed_at: new Date().toISOString(),
+                  duration_ms: Date.now() - opStartedAt
+                })
+                .eq('id', propertyOpId)
+            }
+            
+            await supersedeFailedJobs(supabase, property.property_id, propertyOpId)
+            break
+          } else if (response.status === 429) {
+            // Rate limited - schedule retry
+            const retryAfterMs = getRetryAfterDelay(response)
+            lastError = { 
+              code: 'RATE_LIMIT', 
+              message: 'Too many requests',
+              status: 429,
+              retry_after_ms: retryAfterMs
+            }
+            
+            if (attempt < RETRY_DELAYS.length - 1) {
+              // Wait at least as long as Lodgify asks
+              await new Promise(resolve => setTimeout(resolve, Math.max(RETRY_DELAYS[attempt], retryAfterMs ?? 0)))
+              continue
+            }
+          } else {
+            // Other error
+            const errorText = await response.text()
+            lastError = { 
+              code: 'API_ERROR', 
+              message: errorText || response.statusText,
+              status: response.status 
+            }
+            break
+          }
+        } catch (fetchError) {
+          const failure = toSyncFailure(fetchError)
+          lastError = failure.code === 'TIMEOUT'
+            ? failure
+            : { code: 'NETWORK_ERROR', message: failure.message }
+          
+          if (attempt < RETRY_DELAYS.length - 1) {
+            await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt]))
+            continue
+          }
+        }
+      }
+      
+      if (!success) {
+        throw lastError ?? { code: 'API_ERROR', message: 'Lodgify did not accept the rates' }
+      }
+      
+      return { success: true, diff }
+      
+    } catch (caught) {
+      // Record the failure; the job queue retries it with backoff, or
+      // dead-letters it once its retries are used up
+      const error = toSyncFailure(caught)
+      if (propertyOpId) {
+        await supabase
+          .from('sync_operations')
+          .update({
+            request_payload: sentPayload,
+            api_status_code: error.status ?? null,
+            error_details: {
+              parent_sync_id: parentSyncId,
+              lodgify_property_id: property.lodgify_property_id,
+              error_code: error.code,
+              error_status: error.status
+            }
+          })
+          .eq('id', propertyOpId)
+        
+        const { data: queueStatus, error: scheduleError } = await supabase.rpc('schedule_sync_retry', {
+          p_operation_id: propertyOpId,
+          p_error_message: error.message || 'Unknown error',
+          p_retry_after_ms: error.retry_after_ms ?? null
+        })
+        
+        if (scheduleError) {
+          console.error('Failed to schedule sync retry:', scheduleError)
+        }
+        error.retry_scheduled = queueStatus === 'failed'
+      }
+      
+      // Update integration error count
+      await supabase
+        .from('lodgify_integrations')
+        .update({
+          error_count: integrationCounts.error_count + 1,
+          sync_status: error.code === 'RATE_LIMIT' ? 'paused' : 'error'
+        })
+        .eq('integration_id', property.integration_id)
+      
+      throw error
+    }
+    
+  } catch (error) {
+    console.error(`Sync failed for property ${property.lodgify_property_id}:`, error)
+    return { success: false, error: toSyncFailure(error) }
+  }
+}
+
+/**
+ * Read a thrown value as a sync failure; failures thrown by this module pass
+ * through, anything else keeps its message
+ */
+function toSyncFailure(error: unknown): SyncFailure {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error as SyncFailure
+  }
+  return { message: String(error) }
+}
+
+/**
+ * Cancel a property's older failed and dead-lettered jobs once a sync has
+ * succeeded; the rates they would have pushed are superseded
+ */
+async function supersedeFailedJobs(
+  supabase: SupabaseClient,
+  propertyId: string,
+  currentOperationId?: string
+): Promise<void> {
+  let query = supabase
+    .from('sync_operations')
+    .update({
+      status: 'cancelled',
+      next_retry_at: null,
+      error_message: 'Superseded by a later successful sync'
+    })
+    .eq('property_id', propertyId)
+    .in('status', ['failed', 'dead_letter'])
+  
+  if (currentOperationId) {
+    query = query.neq('id', currentOperationId)
+  }
+  
+  const { error } = await query
+  if (error) {
+    console.error('Failed to cancel superseded sync jobs:', error)
+  }
+}
+
+/**
+ * fetch that gives up when Lodgify has not answered within REQUEST_TIMEOUT_MS
+ */
+async function fetchWithTimeout(url: string, init: Parameters<typeof fetch>[1]): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+  
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw { code: 'TIMEOUT', message: `Lodgify did not respond within ${REQUEST_TIMEOUT_MS / 1000}s` }
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Delay Lodgify asks for in a Retry-After header (seconds or HTTP date)
+ * Same parsing as getRetryAfterDelay in src/services/lodgify/lodgifyRetry.ts
+ */
+function getRetryAfterDelay(response: Response): number | null {
+  const retryAfter = response.headers.get('retry-after')
+  if (!retryAfter) {
+    return null
+  }
+  
+  const retryAfterSeconds = parseInt(retryAfter, 10)
+  if (!isNaN(retryAfterSeconds)) {
+    return retryAfterSeconds * 1000
+  }
+  
+  const retryAfterDate = new Date(retryAfter)
+  if (!isNaN(retryAfterDate.getTime())) {
+    const delay = retryAfterDate.getTime() - Date.now()
+    return delay > 0 ? delay : null
+  }
+  
+  return null
+}
+
+/**
+ * Import reservations updated since the last completed import into bookings
+ * Recorded as a 'booking_import' sync operation
+ */
+async function importBookings(
+  property: PropertyIntegration,
+  apiKey: string,
+  supabase: SupabaseClient,
+  syncOperationId?: string
+): Promise<void> {
+  const startedAt = new Date().toISOString()
+  
+  const { data: lastImport } = await supabase
+    .from('sync_operations')
+    .select('started_at')
+    .eq('property_id', property.property_id)
+    .eq('operation_type', 'booking_import')
+    .eq('status', 'completed')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  
+  const { data: importOp } = await supabase
+    .from('sync_operations')
+    .insert({
+      property_id: property.property_id,
+      operation_type: 'booking_import',
+      status: 'processing',
+      trigger_source: 'scheduled',
+      api_endpoint: LODGIFY_RESERVATIONS_URL,
+      api_method: 'GET',
+      started_at: startedAt,
+      error_details: { parent_sync_id: syncOperationId }
+    })
+    .select('id')
+    .single()
+  
+  const counts = { fetched: 0, created: 0, updated: 0, cancelled: 0, unchanged: 0, failed: 0 }
+  const failures: Array<{ bookingId: string; message: string }> = []
+  
+  try {
+    // Fetch every page of reservations for this property
+    const reservations: LodgifyReservation[] = []
+    for (let page = 1; page <= 200; page++) {
+      const params = new URLSearchParams({
+        page: String(page),
+        size: String(RESERVATIONS_PAGE_SIZE),
+        includeCount: 'false',
+        includeExternal: 'true',
+        stayFilter: 'All'
+      })
+      if (lastImport?.started_at) {
+        params.set('updatedSince', lastImport.started_at)
+      }
+      
+      const response = await fetchWithTimeout(`${LODGIFY_RESERVATIONS_URL}?${params.toString()}`, {
+        headers: { 'X-ApiKey': apiKey, 'Accept': 'application/json' }
+      })
+      if (!response.ok) {
+        throw { code: 'API_ERROR', message: (await response.text()) || response.statusText, status: response.status }
+      }
+      
+      const body = await response.json()
+      const items: LodgifyReservation[] = Array.isArray(body?.items) ? body.items : []
+      reservations.push(...items.filter(item => String(item.property_id) === property.lodgify_property_id))
+      
+      if (items.length < RESERVATIONS_PAGE_SIZE) break
+    }
+    counts.fetched = reservations.length
+    
+    const incoming = []
+    for (const reservation of reservations) {
+      if (!reservation.arrival || !reservation.departure) continue
+      
+      // A status we cannot map is reported instead of stored
+      const bookingStatus = mapLodgifyBookingStatus(reservation)
+      if (!bookingStatus) {
+        counts.failed++
+        failures.push({ bookingId: String(reservation.id), message: describeUnknownBookingStatus(reservation) })
+        continue
+      }
+      
+      incoming.push({
+        booking_id: String(reservation.id),
+        property_id: property.lodgify_property_id,
+        property_internal_id: property.property_id,
+        arrival_date: reservation.arrival.slice(0, 10),
+        departure_date: reservation.departure.slice(0, 10),
+        guest_name: reservation.guest?.name?.trim() || 'Lodgify guest',
+        total_price: reservation.total_amount ?? null,
+        booking_status: bookingStatus
+      })
+    }
+    
+    const existing = new Map<string, Record<string, unknown>>()
+    for (let i = 0; i < incoming.length; i += 100) {
+      const { data } = await supabase
+        .from('bookings')
+        .select('booking_id, arrival_date, departure_date, guest_name, total_price, booking_status')
+        .in('booking_id', incoming.slice(i, i + 100).map(booking => booking.booking_id))
+      for (const row of data || []) {
+        existing.set(row.booking_id, row)
+      }
+    }
+    
+    for (const booking of incoming) {
+      const current = existing.get(booking.booking_id)
+      if (
+        current &&
+        current.arrival_date === booking.arrival_date &&
+        current.departure_date === booking.departure_date &&
+        current.guest_name === booking.guest_name &&
+        (current.total_price ?? null) === booking.total_price &&
+        current.booking_status === booking.booking_status
+      ) {
+        counts.unchanged++
+        continue
+      }
+      
+      const { error } = await supabase
+        .from('bookings')
+        .upsert(booking, { onConflict: 'booking_id' })
+      
+      if (error) {
+        counts.failed++
+        failures.push({ bookingId: booking.booking_id, message: error.message })
+      } else if (!current) {
+        counts.created++
+      } else {
+        counts.updated++
+        if (booking.booking_status === 'cancelled' && current.booking_status !== 'cancelled') {
+          counts.cancelled++
+        }
+      }
+    }
+    
+    const parts: string[] = []
+    if (counts.created > 0) parts.push(`${counts.created} new`)
+    if (counts.updated - counts.cancelled > 0) parts.push(`${counts.updated - counts.cancelled} updated`)
+    if (counts.cancelled > 0) parts.push(`${counts.cancelled} cancelled`)
+    if (counts.failed > 0) parts.push(`${counts.failed} failed`)
+    const checked = `${counts.fetched} reservation${counts.fetched === 1 ? '' : 's'} checked`
+    const summary = parts.length > 0 ? `${parts.join(', ')} (${checked})` : `No booking changes (${checked})`
+    
+    if (importOp?.id) {
+      await supabase
+        .from('sync_operations')
+        .update({
+          status: 'completed',
+          total_records: counts.fetched,
+          processed_records: counts.created + counts.updated + counts.unchanged,
+          error_message: counts.failed > 0 ? `${counts.failed} reservations could not be imported` : null,
+          error_details: { parent_sync_id: syncOperationId, failures },
+          change_summary: { updated_since: lastImport?.started_at ?? null, ...counts, summary },
+          completed_at: new Date().toISOString(),
+          duration_ms: Date.now() - new Date(startedAt).getTime()
+        })
+        .eq('id', importOp.id)
+    }
+  } catch (caught) {
+    const error = toSyncFailure(caught)
+    if (importOp?.id) {
+      await supabase
+        .from('sync_operations')
+        .update({
+          status: 'failed',
+          error_message: error.message,
+          error_details: { parent_sync_id: syncOperationId, error_code: error.code, error_status: error.status },
+          completed_at: new Date().toISOString(),
+          duration_ms: Date.now() - new Date(startedAt).getTime()
+        })
+        .eq('id', importOp.id)
+    }
+    throw error
+  }
+}
+
+/**
+ * Stay length categories pushed by the automated sync, each priced at its
+ * stay length; split further at the property's length-of-stay tiers
+ */
+const STAY_CATEGORIES: StayCategory[] = [
+  { minStay: 2, maxStay: 6, stayLength: 3 },
+  { minStay: 7, maxStay: 1000, stayLength: 7 }
+]
+
+/**
+ * Generate Lodgify payload for a property
+ *
+ * Prices come from preview_pricing_calendar, so every pricing rule the app
+ * applies (seasonal rates, discounts, gap and length-of-stay discounts) is
+ * included. Stay restrictions narrow each night's min/max stay and weekdays,
+ * extra guest fees follow seasonal overrides as in the app's payload, and short gaps between bookings are sold with a minimum stay of the gap.
+ * Any failure to load pricing data fails the sync, so the retry queue picks it
+ * up instead of Lodgify receiving incomplete rates.
+ */
+async function generatePayloadForProperty(
+  property: PropertyIntegration,
+  supabase: SupabaseClient
+): Promise<LodgifyPayload> {
+  // Get property details
+  const { data: propertyData, error: propertyError } = await supabase
+    .from('properties')
+    .select('base_price_per_day, min_price_per_day, lodgify_room_type_id, base_occupancy, extra_guest_fee')
+    .eq('id', property.property_id)
+    .single<PropertyRow>()
+  
+  if (propertyError || !propertyData) {
+    throw new Error(`Property not found: ${property.property_id}`)
+  }
+  
+  // Generate 2 years of pricing data
+  const startDate = new Date()
+  const endDate = new Date()
+  endDate.setFullYear(endDate.getFullYear() + 2)
+  const firstNight = startDate.toISOString().split('T')[0]
+  const lastNight = endDate.toISOString().split('T')[0]
+  
+  const rates: LodgifyRate[] = []
+  
+  // Extra guests pay from the first guest above base occupancy; seasonal periods may override the fee
+  const guestSettings = {
+    base_occupancy: propertyData.base_occupancy ?? 2,
+    extra_guest_fee: propertyData.extra_guest_fee ?? 0
+  }
+  const extraGuestFees = await loadExtraGuestFees(property, supabase, firstNight, lastNight)
+  const withGuestFees = <T extends { date: string }>(nights: T[]) =>
+    nights.map(night => ({ ...night, ...lodgifyGuestTerms(guestSettings, extraGuestFees.get(night.date)) }))
+  
+  // Add mandatory default rate
+  rates.push({
+    is_default: true,
+    price_per_day: Math.round(propertyData.base_price_per_day * 100) / 100,
+    min_stay: 2,
+    max_stay: 6,
+    ...lodgifyGuestTerms(guestSettings)
+  })
+  
+  const restrictions = await loadStayRestrictions(property, supabase, firstNight, lastNight)
+  
+  // Gaps whose exact length the period's stay restrictions rule out keep the normal rates
+  const gaps = (await loadFillerGaps(property, supabase, firstNight, lastNight))
+    .filter(gap => isStayAllowed(restrictions.get(gap.startDate), gap))
+  const gapNights = new Set(gaps.flatMap(gap => listNights(gap.startDate, gap.endDate)))
+  
+  for (const stayConfig of await loadStayCategories(property, supabase)) {
+    const pricing = await loadNightlyPrices(property, supabase, firstNight, lastNight, stayConfig.stayLength)
+    
+    // Gap nights get their own rates below; restrictions may drop a night from the category
+    const nights = pricing
+      .filter(night => !gapNights.has(night.date))
+      .flatMap(night => {
+        const rules = restrictions.get(night.date)
+        const minStay = Math.max(stayConfig.minStay, rules?.minStay ?? stayConfig.minStay)
+        const maxStay = Math.min(stayConfig.maxStay, rules?.maxStay ?? stayConfig.maxStay)
+        if (minStay > maxStay) return []
+        
+        return [{
+          ...night,
+          min_stay: minStay,
+          max_stay: maxStay,
+          arrival_days: rules?.arrivalDays ?? undefined,
+          departure_days: rules?.departureDays ?? undefined
+        }]
+      })
+    
+    rates.push(...groupNightlyRates(withGuestFees(nights)))
+  }
+  
+  // Gap nights: priced for a stay of exactly the gap, with min and max stay relaxed to match
+  for (const gap of gaps) {
+    const gapLastNight = addDays(gap.endDate, -1)
+    const pricing = await loadNightlyPrices(
+      property,
+      supabase,
+      gap.startDate,
+      gapLastNight < lastNight ? gapLastNight : lastNight,
+      gap.nights
+    )
+    
+    rates.push(...groupNightlyRates(
+      withGuestFees(pricing.map(night => ({ ...night, min_stay: gap.nights, max_stay: gap.nights })))
+    ))
+  }
+  
+  return {
+    property_id: parseInt(property.lodgify_property_id),
+    room_type_id: propertyData.lodgify_room_type_id || 0,
+    rates
+  }
+}
+
+/**
+ * Nightly price of a stay length for each night of a range
+ */
+async function loadNightlyPrices(
+  property: PropertyIntegration,
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string,
+  nights: number
+): Promise<Array<{ date: string; price: number }>> {
+  const { data: pricing, error: pricingError } = await supabase
+    .rpc('preview_pricing_calendar', {
+      p_property_id: property.lodgify_property_id,
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_nights: nights
+    })
+  
+  if (pricingError) {
+    throw {
+      code: 'PRICING_ERROR',
+      message: `Failed to price ${nights}-night stays for property ${property.lodgify_property_id}: ${pricingError.message}`
+    }
+  }
+  
+  return (pricing || []).map((day: { check_date: string; final_price_per_night: number }) => ({
+    date: day.check_date,
+    price: Math.round(day.final_price_per_night * 100) / 100
+  }))
+}
+
+/**
+ * Group consecutive nights with the same rate into dated Lodgify rates
+ */
+function groupNightlyRates(
+  nights: Array<Pick<
+    LodgifyRate,
+    'min_stay' | 'max_stay' | 'arrival_days' | 'departure_days' | 'price_per_additional_guest' | 'additional_guests_starts_from'
+  > & {
+    date: string
+    price: number
+  }>
+): LodgifyRate[] {
+  const rates: LodgifyRate[] = []
+  let current: LodgifyRate | null = null
+  let currentKey = ''
+  
+  for (const night of nights) {
+    const key = JSON.stringify([
+      night.price,
+      night.min_stay,
+      night.max_stay,
+      night.arrival_days ?? null,
+      night.departure_days ?? null,
+      night.price_per_additional_guest
+    ])
+    
+    if (current && key === currentKey && addDays(current.end_date!, 1) === night.date) {
+      current.end_date = night.date
+      continue
+    }
+    
+    current = {
+      is_default: false,
+      start_date: night.date,
+      end_date: night.date,
+      price_per_day: night.price,
+      min_stay: night.min_stay,
+      max_stay: night.max_stay,
+      price_per_additional_guest: night.price_per_additional_guest,
+      additional_guests_starts_from: night.additional_guests_starts_from,
+      ...(night.arrival_days ? { arrival_days: night.arrival_days } : {}),
+      ...(night.departure_days ? { departure_days: night.departure_days } : {})
+    }
+    currentKey = key
+    rates.push(current)
+  }
+  
+  return rates
+}
+
+/**
+ * Stay categories split where a length-of-stay tier starts, so each category
+ * is priced at a stay length that gets the same tier as every stay in it
+ * Same split as LengthOfStayDiscountService.splitStayCategories
+ */
+async function loadStayCategories(
+  property: PropertyIntegration,
+  supabase: SupabaseClient
+): Promise<StayCategory[]> {
+  const { data: tiers, error } = await supabase
+    .from('property_length_of_stay_discounts')
+    .select('min_nights')
+    .eq('property_internal_id', property.property_id)
+  
+  if (error) {
+    throw { code: 'PRICING_ERROR', message: `Failed to load length-of-stay discounts: ${error.message}` }
+  }
+  
+  const boundaries = (tiers || []).map((tier: { min_nights: number }) => tier.min_nights)
+  
+  return STAY_CATEGORIES.flatMap(category => {
+    const cuts = boundaries
+      .filter(nights => nights > category.minStay && nights <= category.maxStay)
+      .sort((a, b) => a - b)
+    
+    return [category.minStay, ...cuts].map((minStay, index) => {
+      const maxStay = index < cuts.length ? cuts[index] - 1 : category.maxStay
+      return {
+        minStay,
+        maxStay,
+        stayLength: Math.min(Math.max(category.stayLength, minStay), maxStay)
+      }
+    })
+  })
+}
+
+/**
+ * Extra guest fee per night from get_extra_guest_fees, as the app's payload generator loads it
+ */
+async function loadExtraGuestFees(
+  property: PropertyIntegration,
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc('get_extra_guest_fees', {
+    p_property_internal_id: property.property_id,
+    p_start_date: startDate,
+    p_end_date: endDate
+  })
+  
+  if (error) {
+    throw { code: 'PRICING_ERROR', message: `Failed to load extra guest fees: ${error.message}` }
+  }
+  
+  return toExtraGuestFees(data as ExtraGuestFeeRow[] | null)
+}
+
+/**
+ * Stay restrictions per night from get_stay_restrictions; nights without rules are absent
+ */
+async function loadStayRestrictions(
+  property: PropertyIntegration,
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, StayRestrictions>> {
+  const { data, error } = await supabase.rpc('get_stay_restrictions', {
+    p_property_internal_id: property.property_id,
+    p_start_date: startDate,
+    p_end_date: endDate
+  })
+  
+  if (error) {
+    throw { code: 'PRICING_ERROR', message: `Failed to load stay restrictions: ${error.message}` }
+  }
+  
+  // Empty and all-seven weekday lists both mean "any day"
+  const days = (list: number[] | null): number[] | null =>
+    list && list.length > 0 && new Set(list).size < 7 ? [...new Set(list)].sort((a, b) => a - b) : null
+  
+  return new Map((data || []).map((row: {
+    stay_date: string
+    min_stay: number | null
+    max_stay: number | null
+    arrival_days: number[] | null
+    departure_days: number[] | null
+  }) => [row.stay_date, {
+    minStay: row.min_stay,
+    maxStay: row.max_stay,
+    arrivalDays: days(row.arrival_days),
+    departureDays: days(row.departure_days)
+  }]))
+}
+
+/**
+ * Whether a stay meets the restrictions of its arrival night
+ * Same rules as StayRestrictionService.getStayViolations
+ */
+function isStayAllowed(restrictions: StayRestrictions | undefined, stay: BookingGap): boolean {
+  if (!restrictions) return true
+  
+  const arrivalDay = new Date(`${stay.startDate}T00:00:00Z`).getUTCDay()
+  const departureDay = new Date(`${stay.endDate}T00:00:00Z`).getUTCDay()
+  
+  return (restrictions.minStay === null || stay.nights >= restrictions.minStay) &&
+    (restrictions.maxStay === null || stay.nights <= restrictions.maxStay) &&
+    (!restrictions.arrivalDays || restrictions.arrivalDays.includes(arrivalDay)) &&
+    (!restrictions.departureDays || restrictions.departureDays.includes(departureDay))
+}
+
+/**
+ * Upcoming gaps between confirmed or pending bookings that are short enough
+ * to fill (none when gap filling is disabled)
+ * Same gaps as bookingService.getBookingGaps, trimmed to the nights still to sell
+ */
+async function loadFillerGaps(
+  property: PropertyIntegration,
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<BookingGap[]> {
+  // The property's own settings, else the portfolio default
+  const { data: settingsRows, error: settingsError } = await supabase
+    .from('gap_filler_settings')
+    .select('is_enabled, max_gap_nights')
+    .or(`property_internal_id.eq.${property.property_id},property_internal_id.is.null`)
+    .order('property_internal_id', { ascending: true, nullsFirst: false })
+    .limit(1)
+  
+  if (settingsError) {
+    throw { code: 'PRICING_ERROR', message: `Failed to load gap filler settings: ${settingsError.message}` }
+  }
+  
+  const settings = settingsRows?.[0]
+  if (!settings?.is_enabled) {
+    return []
+  }
+  
+  const { data: bookings, error: bookingsError } = await supabase
+    .from('bookings')
+    .select('arrival_date, departure_date')
+    .eq('property_id', property.lodgify_property_id)
+    .in('booking_status', ['confirmed', 'pending'])
+    .lte('arrival_date', addDays(endDate, settings.max_gap_nights))
+    .gte('departure_date', addDays(startDate, -settings.max_gap_nights))
+    .order('arrival_date', { ascending: true })
+  
+  if (bookingsError) {
+    throw { code: 'PRICING_ERROR', message: `Failed to load bookings for gap filling: ${bookingsError.message}` }
+  }
+  
+  const gaps: BookingGap[] = []
+  let latestDeparture: string | null = null
+  
+  for (const booking of bookings || []) {
+    if (latestDeparture && booking.arrival_date > latestDeparture) {
+      // A gap already in progress only has its remaining nights left to sell
+      const gapStart = latestDeparture > startDate ? latestDeparture : startDate
+      const nights = listNights(latestDeparture, booking.arrival_date).length
+      
+      if (nights <= settings.max_gap_nights && booking.arrival_date > startDate && latestDeparture <= endDate) {
+        gaps.push({
+          startDate: gapStart,
+          endDate: booking.arrival_date,
+          nights: listNights(gapStart, booking.arrival_date).length
+        })
+      }
+    }
+    
+    if (!latestDeparture || booking.departure_date > latestDeparture) {
+      latestDeparture = booking.departure_date
+    }
+  }
+  
+  return gaps
+}
+
+/**
+ * Nights (YYYY-MM-DD) from a first night up to, not including, a last date
+ */
+function listNights(startDate: string, endDate: string): string[] {
+  const nights: string[] = []
+  for (let date = startDate; date < endDate; date = addDays(date, 1)) {
+    nights.push(date)
+  }
+  return nights
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * Update sync operation status
+ */
+export async function updateSyncOperation(
+  supabase: SupabaseClient,
+  syncOperationId: string,
+  status: 'completed' | 'partial' | 'failed',
+  results: SyncResult
+): Promise<void> {
+  await supabase
+    .from('sync_operations')
+    .update({
+      status: status === 'partial' ? 'completed' : status,
+      completed_at: new Date().toISOString(),
+      duration_ms: results.execution_time_ms,
+      error_details: {
+        total_properties: results.total_properties,
+        successful_syncs: results.successful_syncs,
+        failed_syncs: results.failed_syncs,
+        unchanged_syncs: results.unchanged_syncs,
+        changed_nights: results.changed_nights,
+        errors: results.errors,
+        partial_success: status === 'partial'
+      }
+    })
+    .eq('id', syncOperationId)
+}
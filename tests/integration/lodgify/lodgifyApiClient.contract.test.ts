@@ -0,0 +1,237 @@
+/**
+ * Contract tests: the app's Lodgify client against the Lodgify simulator
+ * Lodgify HTTP goes through msw to the simulator; Supabase is an in-memory fake
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import server from '@/test/setup'
+import { LodgifySimulator, LODGIFY_BASE_URL, RATES_PATH, RESERVATIONS_PATH } from '@/test/mocks/lodgify'
+import type { SupabaseFake } from '@/test/mocks/supabase'
+import { supabase } from '@/lib/supabase'
+import { makeRequestWithRetry } from '@/services/lodgify/lodgifyRetry'
+import { syncPricingToLodgify } from '@/services/lodgify/lodgifyApiClient'
+import { clearApiKeyCache } from '@/services/lodgify/lodgifyAuth'
+import { LodgifyApiError, type LodgifyPayload } from '@/services/lodgify/lodgifyTypes'
+
+vi.mock('@/lib/supabase', async () => {
+  const { createSupabaseFake } = await import('@/test/mocks/supabase')
+  const fake = createSupabaseFake()
+  return { supabase: fake, supabaseAdmin: fake }
+})
+
+const fake = supabase as unknown as SupabaseFake
+const simulator = new LodgifySimulator({ apiKeys: ['sim-key'] })
+
+const PROPERTY_ID = '00000000-0000-0000-0000-000000000001'
+const LODGIFY_PROPERTY_ID = 327020
+
+const guestFee = { price_per_additional_guest: 20, additional_guests_starts_from: 3 }
+
+const buildPayload = (julyPrice: number = 180): LodgifyPayload => ({
+  property_id: LODGIFY_PROPERTY_ID,
+  room_type_id: 1,
+  rates: [
+    { is_default: true, price_per_day: 150, min_stay: 2, max_stay: 6, ...guestFee },
+    { is_default: false, start_date: '2027-07-01', end_date: '2027-07-10', price_per_day: julyPrice, min_stay: 2, max_stay: 6, ...guestFee },
+    { is_default: false, start_date: '2027-08-01', end_date: '2027-08-05', price_per_day: 210, min_stay: 2, max_stay: 6, ...guestFee }
+  ]
+})
+
+/**
+ * Run a promise while fake time moves on, so retry delays and timeouts pass instantly
+ */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let done = false
+  promise.then(() => { done = true }, () => { done = true })
+  while (!done) {
+    await new Promise(resolve => setImmediate(resolve))
+    await vi.advanceTimersByTimeAsync(500)
+  }
+  return promise
+}
+
+const rateRequests = () => simulator.requests.filter(request => request.path === RATES_PATH)
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  simulator.reset()
+  server.use(...simulator.handlers)
+  clearApiKeyCache()
+  fake.reset({
+    lodgify_integrations: [{ property_internal_id: PROPERTY_ID, is_active: true, sync_status: 'active' }]
+  })
+  fake.rpcHandlers.get_api_key = () => 'sim-key'
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('makeRequestWithRetry against the simulator', () => {
+  const post = (body: unknown, apiKey: string = 'sim-key') => makeRequestWithRetry(
+    `${LODGIFY_BASE_URL}${RATES_PATH}`,
+    { method: 'POST', headers: { 'X-ApiKey': apiKey, 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+    { maxRetries: 2, baseDelay: 100, maxDelay: 2000 }
+  )
+
+  it('returns the response of an accepted push', async () => {
+    const response = await settle(post(buildPayload()))
+
+    expect(response.status).toBe(200)
+    expect(rateRequests()).toHaveLength(1)
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, '2027-07-04', 3)?.price_per_day).toBe(180)
+  })
+
+  it('fails a 400 at once without retrying', async () => {
+    const error = await settle(post({ ...buildPayload(), rates: [] })).catch(e => e)
+
+    expect(error).toBeInstanceOf(LodgifyApiError)
+    expect(error.statusCode).toBe(400)
+    expect(error.recoverable).toBe(false)
+    expect(rateRequests()).toHaveLength(1)
+  })
+
+  it('fails a 401 for an unknown API key without retrying', async () => {
+    const error = await settle(post(buildPayload(), 'wrong-key')).catch(e => e)
+
+    expect(error.statusCode).toBe(401)
+    expect(rateRequests()).toHaveLength(1)
+  })
+
+  it('retries a 429 after the Retry-After delay and then succeeds', async () => {
+    simulator.injectFault({ type: 'rate_limit', retryAfterSeconds: 1 })
+
+    const response = await settle(post(buildPayload()))
+
+    expect(response.status).toBe(200)
+    expect(rateRequests().map(request => request.status)).toEqual([429, 200])
+  })
+
+  it('retries 5xx responses and gives up after the last attempt', async () => {
+    simulator.injectFault({ type: 'server_error', status: 503 }, 3)
+
+    const error = await settle(post(buildPayload())).catch(e => e)
+
+    expect(error).toBeInstanceOf(LodgifyApiError)
+    expect(error.statusCode).toBe(503)
+    expect(error.recoverable).toBe(true)
+    expect(rateRequests().map(request => request.status)).toEqual([503, 503, 503])
+  })
+})
+
+describe('syncPricingToLodgify against the simulator', () => {
+  it('pushes the full payload first and records the sync', async () => {
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload()))
+
+    expect(result.success).toBe(true)
+    expect(result.changes?.mode).toBe('full')
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, '2027-08-03', 4)?.price_per_day).toBe(210)
+    expect(fake.tables.sync_operations[0]).toMatchObject({ status: 'completed', sync_mode: 'full', api_status_code: 200 })
+    expect(fake.tables.lodgify_pushed_rates[0]).toMatchObject({ property_id: PROPERTY_ID })
+  })
+
+  it('sends only the changed nights on the next sync', async () => {
+    await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload()))
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload(195)))
+
+    expect(result.success).toBe(true)
+    expect(result.changes).toMatchObject({ mode: 'delta', changed_nights: 10 })
+    const sent = rateRequests()[1].body as LodgifyPayload
+    expect(sent.rates.filter(rate => !rate.is_default)).toEqual([
+      expect.objectContaining({ start_date: '2027-07-01', end_date: '2027-07-10', price_per_day: 195 })
+    ])
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, '2027-07-05', 3)?.price_per_day).toBe(195)
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, '2027-08-05', 3)?.price_per_day).toBe(210)
+  })
+
+  it('sends nothing when the rates are unchanged', async () => {
+    await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload()))
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload()))
+
+    expect(result.success).toBe(true)
+    expect(result.changes?.mode).toBe('unchanged')
+    expect(rateRequests()).toHaveLength(1)
+  })
+
+  it('reports a rejected payload as a non-recoverable API error', async () => {
+    const payload = buildPayload()
+    payload.rates[1].min_stay = 9
+
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, payload, { validatePayload: false }))
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatchObject({ type: 'api', recoverable: false })
+    expect(fake.tables.sync_operations[0]).toMatchObject({ status: 'failed', api_status_code: 400 })
+    expect(fake.tables.lodgify_pushed_rates ?? []).toHaveLength(0)
+  })
+
+  it('retries a rate limited push and keeps the baseline only once Lodgify accepts it', async () => {
+    simulator.injectFault({ type: 'rate_limit', retryAfterSeconds: 2 })
+
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload()))
+
+    expect(result.success).toBe(true)
+    expect(rateRequests().map(request => request.status)).toEqual([429, 200])
+    expect(fake.tables.lodgify_pushed_rates).toHaveLength(1)
+  })
+
+  it('reports a 5xx that outlasts the retries as a recoverable API error', async () => {
+    simulator.injectFault({ type: 'server_error', status: 502 }, 2)
+
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload(), { maxRetries: 1 }))
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatchObject({ type: 'api', recoverable: true })
+    expect(fake.tables.sync_operations[0]).toMatchObject({ status: 'failed', api_status_code: 502 })
+  })
+
+  it('reports a partial failure without storing a baseline, so the next sync is full', async () => {
+    simulator.injectFault({ type: 'partial', acceptedRates: 1 })
+
+    const failed = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload(), { maxRetries: 0 }))
+    expect(failed.success).toBe(false)
+    expect(simulator.getStoredNightCount(LODGIFY_PROPERTY_ID)).toBe(10)
+
+    const retried = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload()))
+    expect(retried.changes?.mode).toBe('full')
+    expect(simulator.getStoredNightCount(LODGIFY_PROPERTY_ID)).toBe(15)
+  })
+
+  it('reports a request that outlives the timeout as a recoverable timeout', async () => {
+    simulator.injectFault({ type: 'timeout', delayMs: 60000 })
+
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload(), { timeout: 5000, maxRetries: 0 }))
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatchObject({ type: 'timeout', recoverable: true })
+    expect(fake.tables.sync_operations[0]).toMatchObject({ status: 'failed' })
+  })
+
+  it('does not push when sync is disabled for the property', async () => {
+    fake.tables.lodgify_integrations[0].is_active = false
+
+    const result = await settle(syncPricingToLodgify(PROPERTY_ID, buildPayload()))
+
+    expect(result.success).toBe(false)
+    expect(result.error?.type).toBe('validation')
+    expect(simulator.requests).toHaveLength(0)
+  })
+})
+
+describe('reservations endpoint', () => {
+  it('serves only the faults targeted at it', async () => {
+    simulator.injectFault({ type: 'server_error' }, 1, RESERVATIONS_PATH)
+
+    const push = await settle(makeRequestWithRetry(
+      `${LODGIFY_BASE_URL}${RATES_PATH}`,
+      { method: 'POST', headers: { 'X-ApiKey': 'sim-key' }, body: JSON.stringify(buildPayload()) },
+      { maxRetries: 0 }
+    ))
+    const page = await fetch(`${LODGIFY_BASE_URL}${RESERVATIONS_PATH}?page=1&size=50`, { headers: { 'X-ApiKey': 'sim-key' } })
+
+    expect(push.status).toBe(200)
+    expect(page.status).toBe(500)
+  })
+})
@@ -0,0 +1,304 @@
+/**
+ * End-to-end tests: the lodgify-sync-automation edge function's property sync
+ * Imports bookings from and pushes rates to the Lodgify simulator (through msw),
+ * with the database as an in-memory fake answering the pricing RPCs
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import server from '@/test/setup'
+import { LodgifySimulator, RATES_PATH } from '@/test/mocks/lodgify'
+import { createSupabaseFake } from '@/test/mocks/supabase'
+import type { LodgifyPayload } from '@/services/lodgify/lodgifyTypes'
+
+// The edge function reads its configuration from Deno.env when loaded
+vi.hoisted(() => {
+  Object.assign(globalThis, { Deno: { env: { get: () => undefined } } })
+})
+
+import { syncProperty, type PropertyIntegration } from '../../../supabase/functions/lodgify-sync-automation/sync.ts'
+
+const PROPERTY_ID = '00000000-0000-0000-0000-000000000001'
+const LODGIFY_PROPERTY_ID = 327020
+
+const property: PropertyIntegration = {
+  property_id: PROPERTY_ID,
+  lodgify_property_id: String(LODGIFY_PROPERTY_ID),
+  name: 'Villa Marina',
+  integration_id: 'integration-1'
+}
+
+const simulator = new LodgifySimulator({ apiKeys: ['sim-key'] })
+const fake = createSupabaseFake()
+// The edge function types its client as SupabaseClient; the fake covers the calls it makes
+const client = fake as unknown as Parameters<typeof syncProperty>[1]
+
+const day = (offset: number): string => {
+  const date = new Date()
+  date.setUTCDate(date.getUTCDate() + offset)
+  return date.toISOString().slice(0, 10)
+}
+
+const listDates = (start: string, end: string): string[] => {
+  const dates: string[] = []
+  for (let date = new Date(`${start}T00:00:00Z`); date.toISOString().slice(0, 10) <= end; date.setUTCDate(date.getUTCDate() + 1)) {
+    dates.push(date.toISOString().slice(0, 10))
+  }
+  return dates
+}
+
+// Nightly price of 100 plus the stay length, so each stay category is recognisable
+const previewPricing = (args: Record<string, unknown>) =>
+  listDates(String(args.p_start_date), String(args.p_end_date)).map(date => ({
+    check_date: date,
+    final_price_per_night: 100 + Number(args.p_nights)
+  }))
+
+/**
+ * Run a promise while fake time moves on, so retry delays and timeouts pass instantly
+ */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let done = false
+  promise.then(() => { done = true }, () => { done = true })
+  while (!done) {
+    await new Promise(resolve => setImmediate(resolve))
+    await vi.advanceTimersByTimeAsync(1000)
+  }
+  return promise
+}
+
+const rateRequests = () => simulator.requests.filter(request => request.path === RATES_PATH)
+const rpcCalls = (fn: string) => fake.rpcCalls.filter(call => call.fn === fn)
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  simulator.reset()
+  server.use(...simulator.handlers)
+
+  fake.reset({
+    properties: [{
+      id: PROPERTY_ID,
+      base_price_per_day: 150,
+      min_price_per_day: 80,
+      lodgify_room_type_id: 1,
+      base_occupancy: 2,
+      extra_guest_fee: 20
+    }],
+    lodgify_integrations: [{
+      integration_id: 'integration-1',
+      api_key_encrypted: 'sim-key',
+      success_count: 4,
+      error_count: 0,
+      sync_status: 'active'
+    }],
+    property_length_of_stay_discounts: [{ property_internal_id: PROPERTY_ID, min_nights: 14 }],
+    gap_filler_settings: [{ property_internal_id: null, is_enabled: true, max_gap_nights: 2 }]
+  })
+  fake.rpcHandlers.preview_pricing_calendar = previewPricing
+  fake.rpcHandlers.get_stay_restrictions = () => [
+    { stay_date: day(30), min_stay: 7, max_stay: null, arrival_days: [6], departure_days: null }
+  ]
+  fake.rpcHandlers.schedule_sync_retry = () => 'failed'
+  // The property fee of 20, with a seasonal fee of 35 on three nights
+  fake.rpcHandlers.get_extra_guest_fees = args =>
+    listDates(String(args.p_start_date), String(args.p_end_date)).map(date => ({
+      stay_date: date,
+      extra_guest_fee: date >= day(12) && date <= day(14) ? 35 : 20
+    }))
+
+  // Two stays with a 2-night gap between them
+  simulator.addReservations(
+    { id: 1001, property_id: LODGIFY_PROPERTY_ID, arrival: day(40), departure: day(45), status: 'Booked' },
+    { id: 1002, property_id: LODGIFY_PROPERTY_ID, arrival: day(47), departure: day(50), status: 'Booked' }
+  )
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('syncProperty', () => {
+  it('prices every stay category with preview_pricing_calendar and pushes the rates', async () => {
+    const result = await settle(syncProperty(property, client))
+
+    expect(result.success).toBe(true)
+    expect(result.diff?.mode).toBe('full')
+
+    // Categories 2-6 and 7+ split at the 14-night tier, plus the 2-night gap
+    const calls = rpcCalls('preview_pricing_calendar').map(call => call.args)
+    expect(calls.every(args => args.p_property_id === String(LODGIFY_PROPERTY_ID))).toBe(true)
+    expect(calls.map(args => args.p_nights)).toEqual([3, 7, 14, 2])
+
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(10), 3)?.price_per_day).toBe(103)
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(10), 10)?.price_per_day).toBe(107)
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(10), 21)?.price_per_day).toBe(114)
+
+    expect(fake.tables.sync_operations.find(op => op.operation_type === 'scheduled'))
+      .toMatchObject({ status: 'completed', sync_mode: 'full' })
+    expect(fake.tables.lodgify_pushed_rates).toHaveLength(1)
+    expect(fake.tables.lodgify_integrations[0]).toMatchObject({ success_count: 5, sync_status: 'active' })
+  })
+
+  it('applies stay restrictions to the nights they cover', async () => {
+    await settle(syncProperty(property, client))
+
+    // A 7-night minimum removes the night from the 2-6 category
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(30), 3)).toMatchObject({ is_default: true })
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(30), 7)).toMatchObject({
+      price_per_day: 107,
+      start_date: day(30),
+      end_date: day(30),
+      arrival_days: [6]
+    })
+  })
+
+  it('sends the seasonal extra guest fee on the nights a period overrides it', async () => {
+    await settle(syncProperty(property, client))
+
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(11), 3)).toMatchObject({
+      price_per_additional_guest: 20,
+      additional_guests_starts_from: 3
+    })
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(12), 3)).toMatchObject({
+      price_per_additional_guest: 35,
+      start_date: day(12),
+      end_date: day(14)
+    })
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(13), 10)?.price_per_additional_guest).toBe(35)
+    expect(rpcCalls('get_extra_guest_fees')[0].args).toMatchObject({ p_property_internal_id: PROPERTY_ID })
+  })
+
+  it('imports bookings first and sells the gap between them with a minimum stay of the gap', async () => {
+    await settle(syncProperty(property, client))
+
+    expect(fake.tables.bookings.map(booking => booking.booking_status)).toEqual(['confirmed', 'confirmed'])
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(45), 2)).toMatchObject({
+      price_per_day: 102,
+      min_stay: 2,
+      max_stay: 2,
+      start_date: day(45),
+      end_date: day(46)
+    })
+    expect(simulator.getNightlyRate(LODGIFY_PROPERTY_ID, day(45), 3)).toMatchObject({ is_default: true })
+  })
+
+  it('skips and reports reservations with an unknown status', async () => {
+    simulator.addReservations(
+      { id: 1003, property_id: LODGIFY_PROPERTY_ID, arrival: day(60), departure: day(62), status: 'Unavailable' }
+    )
+
+    await settle(syncProperty(property, client))
+
+    const importOp = fake.tables.sync_operations.find(op => op.operation_type === 'booking_import')
+    expect(fake.tables.bookings.map(booking => booking.booking_id)).toEqual(['1001', '1002'])
+    expect(importOp?.error_details).toMatchObject({
+      failures: [{ bookingId: '1003', message: 'Unknown Lodgify status "Unavailable"; reservation not imported' }]
+    })
+  })
+
+  it('sends only changed nights on the next run, and nothing when nothing changed', async () => {
+    await settle(syncProperty(property, client))
+    const unchanged = await settle(syncProperty(property, client))
+    expect(unchanged.diff?.mode).toBe('unchanged')
+    expect(rateRequests()).toHaveLength(1)
+
+    fake.rpcHandlers.preview_pricing_calendar = args => previewPricing(args).map(night =>
+      night.check_date === day(20) && args.p_nights === 3 ? { ...night, final_price_per_night: 140 } : night
+    )
+    const delta = await settle(syncProperty(property, client))
+
+    expect(delta.diff).toMatchObject({ mode: 'delta', changedNights: 1 })
+    const sent = rateRequests()[1].body as LodgifyPayload
+    expect(sent.rates.filter(rate => !rate.is_default)).toEqual([
+      expect.objectContaining({ start_date: day(20), end_date: day(20), price_per_day: 140, min_stay: 2, max_stay: 6 })
+    ])
+  })
+
+  it('sends the full payload instead of re-opening a stay category when a restriction appears', async () => {
+    await settle(syncProperty(property, client))
+
+    fake.rpcHandlers.get_stay_restrictions = () => [
+      { stay_date: day(20), min_stay: 7, max_stay: null, arrival_days: [6], departure_days: null },
+      { stay_date: day(30), min_stay: 7, max_stay: null, arrival_days: [6], departure_days: null }
+    ]
+    const next = await settle(syncProperty(property, client))
+
+    expect(next.diff).toMatchObject({ mode: 'full', removedNights: 1 })
+    const sent = (rateRequests()[1].body as LodgifyPayload).rates.filter(rate =>
+      !rate.is_default && rate.start_date! <= day(20) && rate.end_date! >= day(20)
+    )
+    expect(sent.some(rate => rate.min_stay < 7)).toBe(false)
+    expect(sent).toContainEqual(expect.objectContaining({ min_stay: 7, max_stay: 13, price_per_day: 107, arrival_days: [6] }))
+    expect(fake.tables.sync_operations.filter(op => op.operation_type === 'scheduled').at(-1))
+      .toMatchObject({ sync_mode: 'full', change_summary: expect.objectContaining({ removed_nights: 1 }) })
+  })
+
+  it('fails without pushing when pricing cannot be loaded', async () => {
+    fake.rpcHandlers.preview_pricing_calendar = () => {
+      throw new Error('function preview_pricing_calendar does not exist')
+    }
+
+    const result = await settle(syncProperty(property, client))
+
+    expect(result.success).toBe(false)
+    expect(result.error.code).toBe('PRICING_ERROR')
+    expect(rateRequests()).toHaveLength(0)
+    expect(rpcCalls('schedule_sync_retry')).toHaveLength(1)
+  })
+
+  it('hands a rejected payload to the retry queue without retrying it', async () => {
+    fake.rpcHandlers.preview_pricing_calendar = args => previewPricing(args).map(night =>
+      night.check_date === day(5) ? { ...night, final_price_per_night: 0 } : night
+    )
+
+    const result = await settle(syncProperty(property, client))
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatchObject({ code: 'API_ERROR', status: 400, retry_scheduled: true })
+    expect(rateRequests()).toHaveLength(1)
+    expect(fake.tables.lodgify_integrations[0]).toMatchObject({ error_count: 1, sync_status: 'error' })
+    expect(fake.tables.lodgify_pushed_rates ?? []).toHaveLength(0)
+  })
+
+  it('hands a server error to the retry queue', async () => {
+    simulator.injectFault({ type: 'server_error', status: 502 }, 1, RATES_PATH)
+
+    const result = await settle(syncProperty(property, client))
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatchObject({ code: 'API_ERROR', status: 502 })
+    expect(rpcCalls('schedule_sync_retry')[0].args).toMatchObject({ p_retry_after_ms: null })
+  })
+
+  it('waits out a 429 and pushes again', async () => {
+    simulator.injectFault({ type: 'rate_limit', retryAfterSeconds: 1 }, 1, RATES_PATH)
+
+    const result = await settle(syncProperty(property, client))
+
+    expect(result.success).toBe(true)
+    expect(rateRequests().map(request => request.status)).toEqual([429, 200])
+    expect(rpcCalls('schedule_sync_retry')).toHaveLength(0)
+  })
+
+  it('pauses the integration when Lodgify keeps rate limiting', async () => {
+    simulator.injectFault({ type: 'rate_limit', retryAfterSeconds: 30 }, 3, RATES_PATH)
+
+    const result = await settle(syncProperty(property, client))
+
+    expect(result.success).toBe(false)
+    expect(result.error.code).toBe('RATE_LIMIT')
+    expect(rateRequests()).toHaveLength(3)
+    expect(rpcCalls('schedule_sync_retry')[0].args).toMatchObject({ p_retry_after_ms: 30000 })
+    expect(fake.tables.lodgify_integrations[0].sync_status).toBe('paused')
+  })
+
+  it('gives up on a push Lodgify does not answer and schedules a retry', async () => {
+    simulator.injectFault({ type: 'timeout', delayMs: 120000 }, 3, RATES_PATH)
+
+    const result = await settle(syncProperty(property, client))
+
+    expect(result.success).toBe(false)
+    expect(result.error.code).toBe('TIMEOUT')
+    expect(rateRequests()).toHaveLength(3)
+    expect(rpcCalls('schedule_sync_retry')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,11 @@
+// Shared setup for unit, integration and performance tests (runs before src/test/setup.ts)
+import { vi } from 'vitest'
+
+// Unit tests never reach Supabase, but modules that create the client need
+// credentials to load; real ones from .env.test.local win
+if (!import.meta.env.VITE_SUPABASE_URL) {
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://vehonbnvzcgcticpfsox.supabase.co')
+}
+if (!import.meta.env.VITE_SUPABASE_ANON_KEY) {
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'test-anon-key')
+}
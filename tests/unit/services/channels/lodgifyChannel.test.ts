@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { mergeAdjacentRates } from '@/services/channels/lodgifyChannel'
+import { defaultRate, rate } from '@/test/mocks/lodgifyRates'
+
+describe('mergeAdjacentRates', () => {
+  it('joins ranges with identical terms across a chunk boundary', () => {
+    const merged = mergeAdjacentRates([
+      defaultRate(),
+      rate('2027-01-01', '2027-03-31', 120),
+      rate('2027-01-01', '2027-03-31', 110, 7, 1000),
+      rate('2027-04-01', '2027-04-20', 120),
+      rate('2027-04-01', '2027-06-30', 110, 7, 1000)
+    ])
+
+    expect(merged).toEqual([
+      defaultRate(),
+      rate('2027-01-01', '2027-04-20', 120),
+      rate('2027-01-01', '2027-06-30', 110, 7, 1000)
+    ])
+  })
+
+  it('keeps ranges apart when their terms differ or nights lie between them', () => {
+    const rates = [
+      rate('2027-03-25', '2027-03-31', 120),
+      rate('2027-04-01', '2027-04-10', 125),
+      rate('2027-04-11', '2027-04-20', 125, 2, 6, { arrival_days: [6] }),
+      rate('2027-04-22', '2027-04-30', 125, 2, 6, { arrival_days: [6] })
+    ]
+
+    expect(mergeAdjacentRates(rates)).toEqual(rates)
+  })
+
+  it('leaves the input rates untouched', () => {
+    const first = rate('2027-03-25', '2027-03-31', 120)
+
+    mergeAdjacentRates([first, rate('2027-04-01', '2027-04-10', 120)])
+
+    expect(first.end_date).toBe('2027-03-31')
+  })
+})
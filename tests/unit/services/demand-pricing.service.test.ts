@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DemandPricingService,
+  DEFAULT_DEMAND_PRICING_SETTINGS,
+  DEMAND_PRICING_LIMITS
+} from '@/services/demand-pricing.service'
+
+describe('DemandPricingService.validateSettings', () => {
+  it('accepts the defaults', () => {
+    expect(DemandPricingService.validateSettings(DEFAULT_DEMAND_PRICING_SETTINGS)).toBeNull()
+  })
+
+  it('accepts the database bounds themselves', () => {
+    expect(DemandPricingService.validateSettings({
+      ...DEFAULT_DEMAND_PRICING_SETTINGS,
+      sensitivity: DEMAND_PRICING_LIMITS.MAX_SENSITIVITY,
+      max_increase: DEMAND_PRICING_LIMITS.MAX_INCREASE,
+      max_decrease: DEMAND_PRICING_LIMITS.MAX_DECREASE
+    })).toBeNull()
+
+    expect(DemandPricingService.validateSettings({
+      ...DEFAULT_DEMAND_PRICING_SETTINGS,
+      sensitivity: 0,
+      max_increase: 0,
+      max_decrease: 0
+    })).toBeNull()
+  })
+
+  it('rejects a sensitivity outside 0 to the maximum', () => {
+    expect(DemandPricingService.validateSettings({ ...DEFAULT_DEMAND_PRICING_SETTINGS, sensitivity: -0.1 }))
+      .toBe('Sensitivity must be between 0 and 5')
+    expect(DemandPricingService.validateSettings({ ...DEFAULT_DEMAND_PRICING_SETTINGS, sensitivity: 5.1 }))
+      .toBe('Sensitivity must be between 0 and 5')
+  })
+
+  it('rejects caps outside their ranges', () => {
+    expect(DemandPricingService.validateSettings({ ...DEFAULT_DEMAND_PRICING_SETTINGS, max_increase: 1.5 }))
+      .toBe('Maximum increase must be between 0% and 100%')
+    expect(DemandPricingService.validateSettings({ ...DEFAULT_DEMAND_PRICING_SETTINGS, max_decrease: 0.6 }))
+      .toBe('Maximum decrease must be between 0% and 50%')
+    expect(DemandPricingService.validateSettings({ ...DEFAULT_DEMAND_PRICING_SETTINGS, max_decrease: -0.1 }))
+      .toBe('Maximum decrease must be between 0% and 50%')
+  })
+
+  it('rejects values that are not numbers', () => {
+    expect(DemandPricingService.validateSettings({ ...DEFAULT_DEMAND_PRICING_SETTINGS, sensitivity: Number.NaN }))
+      .not.toBeNull()
+    expect(DemandPricingService.validateSettings({ ...DEFAULT_DEMAND_PRICING_SETTINGS, max_increase: Number.POSITIVE_INFINITY }))
+      .not.toBeNull()
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '@/lib/supabase'
+import type { SupabaseFake } from '@/test/mocks/supabase'
+import { DiscountExperimentService, type DiscountExperimentInput } from '@/services/discount-experiment.service'
+
+vi.mock('@/lib/supabase', async () => {
+  const { createSupabaseFake } = await import('@/test/mocks/supabase')
+  const fake = createSupabaseFake()
+  return { supabase: fake, supabaseAdmin: fake }
+})
+
+const fake = supabase as unknown as SupabaseFake
+const from = fake.from
+
+// The fake does not fill in database defaults
+const withExperimentIds: SupabaseFake['from'] = name => {
+  const query = from(name)
+  if (name !== 'discount_experiments') return query
+  const insert = query.insert.bind(query)
+  return Object.assign(query, {
+    insert: (row: Record<string, unknown>) => insert({ experiment_id: 'experiment-1', ...row })
+  })
+}
+
+const strategy = (strategy_id: string, strategy_name: string) => ({
+  strategy_id,
+  strategy_name,
+  strategy_type: 'last_minute',
+  is_active: true,
+  is_experiment_arm: false
+})
+
+const input: DiscountExperimentInput = {
+  experiment_name: 'Summer test',
+  strategy_a_id: 'strategy-a',
+  strategy_b_id: 'strategy-b',
+  assignment_mode: 'property',
+  start_date: '2027-07-01',
+  end_date: '2027-08-31',
+  properties: [
+    { property_internal_id: 'property-1', arm: 'a' },
+    { property_internal_id: 'property-2', arm: 'b' }
+  ]
+}
+
+// Make every request to the table fail
+const failTable = (table: string) => {
+  fake.from = name => {
+    const query = withExperimentIds(name)
+    if (name !== table) return query
+    return Object.assign(query, {
+      then: (onfulfilled: (value: unknown) => unknown) =>
+        Promise.resolve({ data: null, error: { message: `${table} unavailable` } }).then(onfulfilled)
+    })
+  }
+}
+
+describe('DiscountExperimentService.createExperiment', () => {
+  beforeEach(() => {
+    fake.from = withExperimentIds
+    fake.reset({
+      discount_strategies: [strategy('strategy-a', 'Gentle'), strategy('strategy-b', 'Steep')],
+      discount_experiments: [],
+      discount_experiment_properties: []
+    })
+    fake.rpcHandlers.copy_discount_strategy = ({ p_strategy_id, p_new_name }) => {
+      const strategy_id = `copy-of-${p_strategy_id}`
+      fake.tables.discount_strategies.push({ ...strategy(strategy_id, String(p_new_name)), is_active: false })
+      return strategy_id
+    }
+  })
+
+  it('creates the experiment on copies of both strategies', async () => {
+    const experiment = await DiscountExperimentService.createExperiment(input)
+
+    expect(experiment).toMatchObject({ strategy_a_id: 'copy-of-strategy-a', strategy_b_id: 'copy-of-strategy-b' })
+    expect(fake.tables.discount_strategies.filter(row => row.is_experiment_arm)).toHaveLength(2)
+    expect(fake.tables.discount_experiment_properties).toHaveLength(2)
+  })
+
+  it('removes the copies when the experiment cannot be created', async () => {
+    failTable('discount_experiments')
+
+    await expect(DiscountExperimentService.createExperiment(input)).rejects.toMatchObject({ code: 'CREATE_ERROR' })
+
+    expect(fake.tables.discount_strategies.map(row => row.strategy_id)).toEqual(['strategy-a', 'strategy-b'])
+  })
+
+  it('removes the experiment and the copies when the properties cannot be enrolled', async () => {
+    failTable('discount_experiment_properties')
+
+    await expect(DiscountExperimentService.createExperiment(input)).rejects.toMatchObject({
+      message: 'Failed to enrol experiment properties: discount_experiment_properties unavailable'
+    })
+
+    expect(fake.tables.discount_experiments).toEqual([])
+    expect(fake.tables.discount_strategies.map(row => row.strategy_id)).toEqual(['strategy-a', 'strategy-b'])
+  })
+
+  it('removes the first copy when the second cannot be made', async () => {
+    const copy = fake.rpcHandlers.copy_discount_strategy
+    fake.rpcHandlers.copy_discount_strategy = args => {
+      if (args.p_strategy_id === 'strategy-b') throw new Error('copy failed')
+      return copy(args)
+    }
+
+    await expect(DiscountExperimentService.createExperiment(input)).rejects.toThrow()
+
+    expect(fake.tables.discount_strategies.map(row => row.strategy_id)).toEqual(['strategy-a', 'strategy-b'])
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { mapLodgifyBookingStatus, formatBookingImportSummary } from '@/services/lodgify/lodgifyBookingImport'
+
+describe('mapLodgifyBookingStatus', () => {
+  it('maps booked reservations to confirmed', () => {
+    expect(mapLodgifyBookingStatus({ status: 'Booked' })).toBe('confirmed')
+  })
+
+  it('maps tentative and open reservations to pending', () => {
+    expect(mapLodgifyBookingStatus({ status: 'Tentative' })).toBe('pending')
+    expect(mapLodgifyBookingStatus({ status: 'Open' })).toBe('pending')
+  })
+
+  it('maps declined and cancelled reservations to cancelled', () => {
+    expect(mapLodgifyBookingStatus({ status: 'Declined' })).toBe('cancelled')
+    expect(mapLodgifyBookingStatus({ status: 'Cancelled' })).toBe('cancelled')
+    expect(mapLodgifyBookingStatus({ status: 'canceled' })).toBe('cancelled')
+  })
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(mapLodgifyBookingStatus({ status: ' BOOKED ' })).toBe('confirmed')
+  })
+
+  it('treats deleted or cancelled reservations as cancelled whatever their status', () => {
+    expect(mapLodgifyBookingStatus({ status: 'Booked', is_deleted: true })).toBe('cancelled')
+    expect(mapLodgifyBookingStatus({ status: 'Booked', canceled_at: '2026-05-01T10:00:00Z' })).toBe('cancelled')
+  })
+
+  it('returns null for statuses it does not know, so they are never stored raw', () => {
+    expect(mapLodgifyBookingStatus({ status: 'Unavailable' })).toBeNull()
+    expect(mapLodgifyBookingStatus({ status: '' })).toBeNull()
+  })
+})
+
+describe('formatBookingImportSummary', () => {
+  it('lists cancellations apart from other updates', () => {
+    expect(formatBookingImportSummary({ fetched: 14, created: 2, updated: 3, cancelled: 1, failed: 0 }))
+      .toBe('2 new, 2 updated, 1 cancelled (14 reservations checked)')
+  })
+
+  it('reports reservations that were not imported', () => {
+    expect(formatBookingImportSummary({ fetched: 1, created: 0, updated: 0, cancelled: 0, failed: 1 }))
+      .toBe('1 failed (1 reservation checked)')
+  })
+
+  it('says when nothing changed', () => {
+    expect(formatBookingImportSummary({ fetched: 3, created: 0, updated: 0, cancelled: 0, failed: 0 }))
+      .toBe('No booking changes (3 reservations checked)')
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseApplicableDays,
+  formatApplicableDays,
+  dayOfWeek,
+  checkRuleEligibility,
+  selectDiscountRule,
+  ruleMinNightsBoundaries
+} from '@/utils/discountRuleEligibility'
+
+// 2027-07-03 is a Saturday, 2027-07-05 a Monday
+const rule = (days_before_checkin: number, discount_percentage: number, extra: { min_nights?: number | null; applicable_days?: unknown } = {}) => ({
+  days_before_checkin,
+  discount_percentage,
+  ...extra
+})
+
+describe('parseApplicableDays', () => {
+  it('treats a missing or empty list as every day', () => {
+    expect(parseApplicableDays(null)).toBeNull()
+    expect(parseApplicableDays([])).toBeNull()
+    expect(parseApplicableDays('monday')).toBeNull()
+  })
+
+  it('accepts day numbers, day names and numeric strings', () => {
+    expect(parseApplicableDays(['Saturday', 0, ' friday ', '3', 0])).toEqual([0, 3, 5, 6])
+  })
+
+  it('reads padded or capitalised names and numeric strings as discount_rule_day does', () => {
+    expect(parseApplicableDays([' Monday'])).toEqual([1])
+    expect(parseApplicableDays(['1'])).toEqual([1])
+    expect(parseApplicableDays(['\tSUNDAY\n', ' 6 '])).toEqual([0, 6])
+  })
+
+  it('drops values that are not days', () => {
+    expect(parseApplicableDays([7, -1, 1.5, 'someday', '7', '1.0', 'mon', '\u00a0monday', null, true])).toEqual([])
+  })
+})
+
+describe('formatApplicableDays', () => {
+  it('labels the days a rule is limited to', () => {
+    expect(formatApplicableDays(['tuesday', 'monday'])).toBe('Mon, Tue')
+    expect(formatApplicableDays(undefined)).toBe('Any day')
+    expect(formatApplicableDays(['someday'])).toBe('No valid days')
+  })
+})
+
+describe('dayOfWeek', () => {
+  it('reads the date as UTC', () => {
+    expect(dayOfWeek('2027-07-03')).toBe(6)
+    expect(dayOfWeek('2027-07-04')).toBe(0)
+  })
+})
+
+describe('checkRuleEligibility', () => {
+  it('allows a rule without conditions', () => {
+    expect(checkRuleEligibility(rule(7, 0.1), 1, '2027-07-03')).toEqual({ eligible: true, reasons: [] })
+  })
+
+  it('gives every condition the night fails', () => {
+    const result = checkRuleEligibility(rule(7, 0.1, { min_nights: 3, applicable_days: ['monday', 'tuesday'] }), 2, '2027-07-03')
+
+    expect(result.eligible).toBe(false)
+    expect(result.reasons).toEqual([
+      'needs a stay of 3+ nights, this stay is 2',
+      'only applies on Mon, Tue, not Saturday'
+    ])
+  })
+
+  it('checks the minimum stay against the whole stay and the day against the night', () => {
+    expect(checkRuleEligibility(rule(7, 0.1, { min_nights: 3, applicable_days: [1] }), 3, '2027-07-05').eligible).toBe(true)
+  })
+})
+
+describe('selectDiscountRule', () => {
+  const context = { nights: 3, checkDate: '2027-07-03' }
+
+  it('takes the nearest last-minute rule the lead time reaches', () => {
+    const { rule: selected, evaluations } = selectDiscountRule(
+      [rule(14, 0.1), rule(3, 0.2), rule(7, 0.15)],
+      { ...context, strategyType: 'last_minute', daysBeforeCheckin: 5 }
+    )
+
+    expect(selected).toMatchObject({ days_before_checkin: 7 })
+    expect(evaluations.map(evaluation => evaluation.status)).toEqual(['not_reached', 'applied', 'superseded'])
+    expect(evaluations[0].explanation).toBe('20% at 3 days: starts 3 days out, this is 5')
+    expect(evaluations[2].explanation).toBe('10% at 14 days: a nearer rule applies first')
+  })
+
+  it('takes the furthest early-bird threshold the lead time reaches', () => {
+    const { rule: selected, evaluations } = selectDiscountRule(
+      [rule(30, 0.05), rule(90, 0.15), rule(60, 0.1)],
+      { ...context, strategyType: 'early_bird', daysBeforeCheckin: 70 }
+    )
+
+    expect(selected).toMatchObject({ days_before_checkin: 60 })
+    expect(evaluations.map(evaluation => evaluation.status)).toEqual(['not_reached', 'applied', 'superseded'])
+    expect(evaluations[0].explanation).toBe('15% at 90 days: needs booking 90+ days ahead, this is 70')
+  })
+
+  it('skips a rule whose conditions fail for the next one', () => {
+    const { rule: selected, evaluations } = selectDiscountRule(
+      [rule(3, 0.2, { min_nights: 5 }), rule(7, 0.1)],
+      { ...context, strategyType: 'last_minute', daysBeforeCheckin: 2 }
+    )
+
+    expect(selected).toMatchObject({ days_before_checkin: 7 })
+    expect(evaluations[0]).toMatchObject({
+      status: 'ineligible',
+      explanation: '20% at 3 days: needs a stay of 5+ nights, this stay is 3'
+    })
+  })
+
+  it('applies no rule outside the activation window', () => {
+    const lastMinute = selectDiscountRule(
+      [rule(7, 0.1)],
+      { ...context, strategyType: 'last_minute', daysBeforeCheckin: 20, activationWindow: 14 }
+    )
+    const earlyBird = selectDiscountRule(
+      [rule(30, 0.1)],
+      { ...context, strategyType: 'early_bird', daysBeforeCheckin: 40, activationWindow: 45 }
+    )
+
+    expect(lastMinute.rule).toBeNull()
+    expect(lastMinute.evaluations[0].explanation).toBe('10% at 7 days: 20 days out, outside the 14-day activation window')
+    expect(earlyBird.rule).toBeNull()
+    expect(earlyBird.evaluations[0].explanation).toBe('10% at 30 days: booked 40 days ahead, under the 45-day minimum lead time')
+  })
+
+  it('leaves the rules in their order', () => {
+    const rules = [rule(14, 0.1), rule(3, 0.2)]
+
+    selectDiscountRule(rules, { ...context, strategyType: 'last_minute', daysBeforeCheckin: 2 })
+
+    expect(rules.map(r => r.days_before_checkin)).toEqual([14, 3])
+  })
+})
+
+describe('ruleMinNightsBoundaries', () => {
+  it('returns the distinct minimum stays above one night, in order', () => {
+    expect(ruleMinNightsBoundaries([
+      rule(7, 0.1, { min_nights: 7 }),
+      rule(3, 0.2, { min_nights: 3 }),
+      rule(5, 0.1, { min_nights: 7 }),
+      rule(1, 0.1, { min_nights: 1 }),
+      rule(2, 0.1, { min_nights: null }),
+      rule(4, 0.1)
+    ])).toEqual([3, 7])
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  summarizeArm,
+  cohensD,
+  describeEffectSize,
+  requiredSampleSize,
+  compareArms,
+  type ExperimentBookingOutcome
+} from '@/utils/experimentStats'
+
+const booking = (nights: number, revenue: number | null, leadTimeDays = 7): ExperimentBookingOutcome => ({
+  nights,
+  leadTimeDays,
+  revenue
+})
+
+const arm = (name: 'a' | 'b', outcomes: ExperimentBookingOutcome[], exposureNights: number) => ({
+  summary: summarizeArm(name, outcomes, exposureNights),
+  outcomes
+})
+
+describe('summarizeArm', () => {
+  it('works out ADR and revenue from priced bookings only', () => {
+    const summary = summarizeArm('a', [booking(2, 200, 10), booking(3, null, 20), booking(4, 500, 0)], 100)
+
+    expect(summary).toMatchObject({
+      arm: 'a',
+      bookings: 3,
+      nights: 9,
+      revenue: 700,
+      unpricedBookings: 1,
+      meanLeadTime: 10,
+      exposureNights: 100,
+      bookingsPer100Nights: 3,
+      revenuePerAvailableNight: 7
+    })
+    expect(summary.adr).toBeCloseTo(116.67, 2)
+  })
+
+  it('leaves out rates it has nothing to work them out from', () => {
+    expect(summarizeArm('b', [], 0)).toMatchObject({
+      bookings: 0,
+      adr: null,
+      meanLeadTime: null,
+      bookingsPer100Nights: null,
+      revenuePerAvailableNight: null
+    })
+  })
+})
+
+describe('cohensD', () => {
+  it('divides the difference in means by the pooled standard deviation', () => {
+    expect(cohensD([1, 2, 3], [2, 3, 4])).toBe(1)
+    expect(cohensD([2, 3, 4], [1, 2, 3])).toBe(-1)
+  })
+
+  it('is null without two values in each group or any spread', () => {
+    expect(cohensD([1], [2, 3])).toBeNull()
+    expect(cohensD([2, 2], [2, 2])).toBeNull()
+  })
+})
+
+describe('describeEffectSize', () => {
+  it('reads |d| against the conventional thresholds', () => {
+    expect(describeEffectSize(0.1)).toBe('negligible')
+    expect(describeEffectSize(-0.3)).toBe('small')
+    expect(describeEffectSize(0.5)).toBe('medium')
+    expect(describeEffectSize(-0.8)).toBe('large')
+  })
+})
+
+describe('requiredSampleSize', () => {
+  it('gives the bookings per arm for 5% significance and 80% power', () => {
+    expect(requiredSampleSize(0.5)).toBe(63)
+    expect(requiredSampleSize(-0.5)).toBe(63)
+    expect(requiredSampleSize(2)).toBe(4)
+  })
+
+  it('is null when there is no effect to detect', () => {
+    expect(requiredSampleSize(0)).toBeNull()
+    expect(requiredSampleSize(NaN)).toBeNull()
+  })
+})
+
+describe('compareArms', () => {
+  it('compares B against A and warns about a small, running experiment', () => {
+    const a = arm('a', [booking(1, 100, 1), booking(1, 110, 2), booking(1, 120, 3)], 10)
+    const b = arm('b', [booking(1, 120, 2), booking(1, 130, 3), booking(1, 140, 4)], 10)
+
+    const { effects, warnings } = compareArms(a, b, false)
+
+    expect(effects.map(effect => effect.metric)).toEqual(['adr', 'lead_time', 'booking_rate', 'revenue_per_available_night'])
+    expect(effects[0]).toMatchObject({ a: 110, b: 130, difference: 20, cohensD: 2, effectSize: 'large' })
+    expect(effects[0].relativeDifference).toBeCloseTo(20 / 110)
+    expect(effects[1]).toMatchObject({ cohensD: 1, effectSize: 'large' })
+    expect(effects[2]).toMatchObject({ difference: 0, relativeDifference: 0, cohensD: null, effectSize: null })
+
+    expect(warnings.map(warning => warning.code)).toEqual([
+      'IN_PROGRESS',
+      'SMALL_SAMPLE',
+      'SMALL_SAMPLE',
+      'UNDERPOWERED',
+      'UNDERPOWERED'
+    ])
+    expect(warnings[1].message).toBe('Arm A has 3 bookings; fewer than 30 per arm is too few to draw conclusions')
+    expect(warnings[3].message).toBe('A ADR difference this size (d = 2.00) needs about 4 bookings per arm to tell apart from chance')
+  })
+
+  it('warns about unbalanced exposure and unpriced bookings once enough bookings are in', () => {
+    const a = arm('a', Array.from({ length: 30 }, () => booking(2, 200)), 100)
+    const b = arm('b', [...Array.from({ length: 30 }, () => booking(2, 200)), booking(2, null)], 200)
+
+    const { warnings } = compareArms(a, b, true)
+
+    expect(warnings.map(warning => warning.code)).toEqual(['UNBALANCED_EXPOSURE', 'UNPRICED_BOOKINGS'])
+    expect(warnings[1].message).toBe('1 booking has no total price and is left out of revenue and ADR')
+  })
+
+  it('has no relative difference when A is zero', () => {
+    const a = arm('a', [], 10)
+    const b = arm('b', [booking(1, 100)], 10)
+
+    const bookingRate = compareArms(a, b, true).effects.find(effect => effect.metric === 'booking_rate')
+
+    expect(bookingRate).toMatchObject({ a: 0, b: 10, difference: 10, relativeDifference: null })
+  })
+})
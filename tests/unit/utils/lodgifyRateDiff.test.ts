@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffLodgifyRates,
+  buildDeltaPayload,
+  expandNights,
+  formatRateDiffSummary,
+  toRateChangeSummary
+} from '@/utils/lodgifyRateDiff'
+import { defaultRate, rate, payload } from '@/test/mocks/lodgifyRates'
+
+describe('expandNights', () => {
+  it('expands dated rates to one night each, per stay category', () => {
+    const nights = expandNights([
+      defaultRate(),
+      rate('2027-07-30', '2027-08-01', 180),
+      rate('2027-07-30', '2027-07-30', 160, 7, 1000)
+    ])
+
+    expect([...nights.keys()]).toEqual(['2-6', '7-1000'])
+    expect([...nights.get('2-6')!.keys()]).toEqual(['2027-07-30', '2027-07-31', '2027-08-01'])
+    expect(nights.get('7-1000')!.get('2027-07-30')?.price_per_day).toBe(160)
+  })
+})
+
+describe('diffLodgifyRates', () => {
+  const baseline = [defaultRate(), rate('2027-07-01', '2027-07-10', 180), rate('2027-08-01', '2027-08-05', 210)]
+
+  it('sends everything when nothing was pushed before', () => {
+    const diff = diffLodgifyRates(null, payload(...baseline))
+
+    expect(diff.mode).toBe('full')
+    expect(diff.changedRates).toHaveLength(2)
+    expect(diff.summary).toBe('Full sync: 3 rates sent')
+  })
+
+  it('sends everything when the default rate changed', () => {
+    const diff = diffLodgifyRates(baseline, payload(defaultRate(160), ...baseline.slice(1)))
+
+    expect(diff.mode).toBe('full')
+    expect(diff.defaultRateChanged).toBe(true)
+  })
+
+  it('reports identical rates as unchanged', () => {
+    const diff = diffLodgifyRates(baseline, payload(...baseline))
+
+    expect(diff.mode).toBe('unchanged')
+    expect(diff.changedRates).toEqual([])
+    expect(diff.summary).toBe('No rate changes')
+  })
+
+  it('treats a range split differently but priced the same as unchanged', () => {
+    const diff = diffLodgifyRates(baseline, payload(
+      defaultRate(),
+      rate('2027-07-01', '2027-07-04', 180),
+      rate('2027-07-05', '2027-07-10', 180),
+      rate('2027-08-01', '2027-08-05', 210)
+    ))
+
+    expect(diff.mode).toBe('unchanged')
+  })
+
+  it('groups changed nights into ranges of equal rates', () => {
+    const diff = diffLodgifyRates(baseline, payload(
+      defaultRate(),
+      rate('2027-07-01', '2027-07-02', 180),
+      rate('2027-07-03', '2027-07-05', 195),
+      rate('2027-07-06', '2027-07-06', 200),
+      rate('2027-07-07', '2027-07-10', 180),
+      rate('2027-08-01', '2027-08-05', 210)
+    ))
+
+    expect(diff.mode).toBe('delta')
+    expect(diff.changedNights).toBe(4)
+    expect(diff.nightsByMonth).toEqual({ '2027-07': 4 })
+    expect(diff.changedRates).toEqual([
+      expect.objectContaining({ start_date: '2027-07-03', end_date: '2027-07-05', price_per_day: 195 }),
+      expect.objectContaining({ start_date: '2027-07-06', end_date: '2027-07-06', price_per_day: 200 })
+    ])
+    expect(diff.summary).toBe('4 nights changed in July')
+  })
+
+  it('sends everything when nights leave a stay category', () => {
+    const diff = diffLodgifyRates(baseline, payload(defaultRate(), rate('2027-07-01', '2027-07-10', 180)))
+
+    expect(diff.mode).toBe('full')
+    expect(diff.defaultRateChanged).toBe(false)
+    expect(diff.removedNights).toBe(5)
+    expect(diff.changedRates).not.toContainEqual(expect.objectContaining({ start_date: '2027-08-01', price_per_day: 150 }))
+  })
+
+  it('never re-opens a stay category a restriction narrowed', () => {
+    const diff = diffLodgifyRates(baseline, payload(
+      defaultRate(),
+      rate('2027-07-01', '2027-07-10', 180),
+      rate('2027-08-01', '2027-08-05', 210, 4, 6)
+    ))
+
+    expect(diff.mode).toBe('full')
+    expect(diff.removedNights).toBe(5)
+    expect(diff.changedRates.filter(r => r.start_date === '2027-08-01')).toEqual([
+      expect.objectContaining({ min_stay: 4, max_stay: 6, price_per_day: 210 })
+    ])
+  })
+
+  it('sends everything when the payload has other stay categories', () => {
+    const diff = diffLodgifyRates(baseline, payload(
+      defaultRate(),
+      rate('2027-07-01', '2027-07-10', 180, 1, 7),
+      rate('2027-08-01', '2027-08-05', 210, 1, 7)
+    ))
+
+    expect(diff.mode).toBe('full')
+    expect(diff.removedNights).toBe(15)
+  })
+
+  it('counts a night once when several stay categories change on it', () => {
+    const previous = [...baseline, rate('2027-07-01', '2027-07-10', 170, 7, 1000)]
+    const diff = diffLodgifyRates(previous, payload(
+      defaultRate(),
+      rate('2027-07-01', '2027-07-01', 185),
+      rate('2027-07-02', '2027-07-10', 180),
+      rate('2027-07-01', '2027-07-01', 175, 7, 1000),
+      rate('2027-07-02', '2027-07-10', 170, 7, 1000),
+      rate('2027-08-01', '2027-08-05', 210)
+    ))
+
+    expect(diff.changedNights).toBe(1)
+    expect(diff.changedRates).toHaveLength(2)
+  })
+
+  it('ignores pushed nights before the payload starts', () => {
+    const diff = diffLodgifyRates(baseline, payload(defaultRate(), rate('2027-08-01', '2027-08-05', 210)))
+
+    expect(diff.mode).toBe('unchanged')
+  })
+
+  it('sees a change in restrictions as a change', () => {
+    const restricted = { ...rate('2027-08-01', '2027-08-05', 210), arrival_days: [6] }
+    const diff = diffLodgifyRates(baseline, payload(defaultRate(), rate('2027-07-01', '2027-07-10', 180), restricted))
+
+    expect(diff.changedNights).toBe(5)
+  })
+})
+
+describe('buildDeltaPayload', () => {
+  it('sends the default rate with the changed ranges', () => {
+    const previous = [defaultRate(), rate('2027-07-01', '2027-07-10', 180)]
+    const next = payload(defaultRate(), rate('2027-07-01', '2027-07-09', 180), rate('2027-07-10', '2027-07-10', 220))
+    const diff = diffLodgifyRates(previous, next)
+
+    expect(buildDeltaPayload(next, diff).rates).toEqual([
+      defaultRate(),
+      expect.objectContaining({ start_date: '2027-07-10', end_date: '2027-07-10', price_per_day: 220 })
+    ])
+  })
+
+  it('returns a full payload as it is', () => {
+    const next = payload(defaultRate(), rate('2027-07-01', '2027-07-10', 180))
+
+    expect(buildDeltaPayload(next, diffLodgifyRates(null, next))).toBe(next)
+  })
+})
+
+describe('formatRateDiffSummary', () => {
+  const delta = (nightsByMonth: Record<string, number>) => formatRateDiffSummary({
+    mode: 'delta',
+    changedNights: Object.values(nightsByMonth).reduce((sum, nights) => sum + nights, 0),
+    nightsByMonth,
+    totalRates: 40
+  })
+
+  it('names one or two months', () => {
+    expect(delta({ '2027-07': 1 })).toBe('1 night changed in July')
+    expect(delta({ '2027-07': 2, '2027-08': 1 })).toBe('3 nights changed in July and August')
+  })
+
+  it('gives the span when more months change, with years when they differ', () => {
+    expect(delta({ '2027-11': 1, '2027-12': 1, '2028-01': 1 }))
+      .toBe('3 nights changed across 3 months (November 2027 – January 2028)')
+  })
+})
+
+describe('toRateChangeSummary', () => {
+  it('maps a diff to the stored change summary', () => {
+    const diff = diffLodgifyRates(null, payload(defaultRate(), rate('2027-07-01', '2027-07-10', 180)))
+
+    expect(toRateChangeSummary(diff, 2)).toEqual({
+      mode: 'full',
+      changed_nights: 0,
+      nights_by_month: {},
+      rates_sent: 2,
+      total_rates: 2,
+      default_rate_changed: true,
+      removed_nights: 0,
+      summary: 'Full sync: 2 rates sent'
+    })
+  })
+})
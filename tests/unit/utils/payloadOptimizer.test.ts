@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { optimizeWithTolerance } from '@/utils/payloadOptimizer'
+import type { DatePriceData } from '@/types/lodgify'
+
+const night = (date: string, price: number, overrides: Partial<DatePriceData> = {}): DatePriceData => ({
+  date,
+  price,
+  minStay: 2,
+  maxStay: 6,
+  stayLength: 3,
+  basePrice: price,
+  seasonalAdjustment: 0,
+  lastMinuteDiscount: 0,
+  minPriceEnforced: false,
+  ...overrides
+})
+
+const nights = (start: number, prices: number[], overrides: Partial<DatePriceData> = {}): DatePriceData[] =>
+  prices.map((price, i) => night(`2027-07-${String(start + i).padStart(2, '0')}`, price, overrides))
+
+const spans = (ranges: Array<{ startDate: string; endDate: string; price: number }>) =>
+  ranges.map(range => `${range.startDate.slice(8)}-${range.endDate.slice(8)}@${range.price}`)
+
+describe('optimizeWithTolerance', () => {
+  it('only merges identical prices without a tolerance', () => {
+    const result = optimizeWithTolerance([nights(1, [100, 100, 101, 101])], {})
+
+    expect(spans(result.groups[0])).toEqual(['01-02@100', '03-04@101'])
+    expect(result).toMatchObject({ maxDeviation: 0, maxDeviationPercent: 0, withinBudget: true })
+  })
+
+  it('charges the midpoint of nights within an absolute tolerance', () => {
+    const result = optimizeWithTolerance([nights(1, [100, 104, 102, 110])], { priceTolerance: 2 })
+
+    expect(spans(result.groups[0])).toEqual(['01-03@102', '04-04@110'])
+    expect(result.maxDeviation).toBe(2)
+  })
+
+  it('keeps a range that sits exactly on the tolerance together', () => {
+    const result = optimizeWithTolerance([nights(1, [99.9, 100.1])], { priceTolerance: 0.1 })
+
+    expect(spans(result.groups[0])).toEqual(['01-02@100'])
+  })
+
+  it('measures a percent tolerance against the cheaper night', () => {
+    // Midpoint 105 is 5% above 100 and under 5% below 110
+    const within = optimizeWithTolerance([nights(1, [100, 110])], { priceTolerance: 5, toleranceType: 'percent' })
+    const outside = optimizeWithTolerance([nights(1, [100, 110.5])], { priceTolerance: 5, toleranceType: 'percent' })
+
+    expect(spans(within.groups[0])).toEqual(['01-02@105'])
+    expect(within.maxDeviationPercent).toBe(5)
+    expect(outside.groups[0]).toHaveLength(2)
+  })
+
+  it('never merges nights with different terms or a gap between them', () => {
+    const result = optimizeWithTolerance([[
+      ...nights(1, [100, 100]),
+      ...nights(3, [100], { arrivalDays: [6] }),
+      ...nights(5, [100])
+    ]], { priceTolerance: 50 })
+
+    expect(spans(result.groups[0])).toEqual(['01-02@100', '03-03@100', '05-05@100'])
+  })
+
+  it('merges the closest neighbours across groups until the budget fits', () => {
+    const result = optimizeWithTolerance(
+      [
+        nights(1, [100, 130, 131]),
+        nights(1, [200, 220], { minStay: 7, maxStay: 1000, stayLength: 7 })
+      ],
+      {},
+      3
+    )
+
+    expect(spans(result.groups[0])).toEqual(['01-01@100', '02-03@130.5'])
+    expect(spans(result.groups[1])).toEqual(['01-02@210'])
+    expect(result).toMatchObject({ withinBudget: true, maxDeviation: 10 })
+  })
+
+  it('ranks merges by percent deviation with a percent tolerance', () => {
+    // 100 -> 110 is 5%, 1000 -> 1030 only 1.5% but 15 EUR
+    const result = optimizeWithTolerance(
+      [nights(1, [100, 110]), nights(1, [1000, 1030], { minStay: 7, maxStay: 1000, stayLength: 7 })],
+      { toleranceType: 'percent' },
+      3
+    )
+
+    expect(result.groups.map(group => group.length)).toEqual([2, 1])
+  })
+
+  it('reports when the budget cannot be met', () => {
+    const result = optimizeWithTolerance([[...nights(1, [100]), ...nights(3, [100]), ...nights(5, [100])]], {}, 2)
+
+    expect(result.withinBudget).toBe(false)
+    expect(result.groups[0]).toHaveLength(3)
+  })
+
+  it('leaves the input nights in their order', () => {
+    const input = [night('2027-07-02', 100), night('2027-07-01', 100)]
+
+    const result = optimizeWithTolerance([input], {})
+
+    expect(spans(result.groups[0])).toEqual(['01-02@100'])
+    expect(input.map(price => price.date)).toEqual(['2027-07-02', '2027-07-01'])
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest'
+import { buildPriceBreakdown, describeStackingPolicy } from '@/utils/priceBreakdown'
+import type { CalculateFinalPriceReturn } from '@/types/helpers'
+
+// A night at 100 base, +20 seasonal, with a 10% last-minute and 5% length-of-stay discount
+const night = (overrides: Partial<CalculateFinalPriceReturn> = {}): CalculateFinalPriceReturn => ({
+  property_id: '327020',
+  property_name: 'Villa Marina',
+  check_date: '2027-07-03',
+  nights: 7,
+  base_price_per_night: 100,
+  seasonal_adjustment: 20,
+  seasonal_rate: 0.2,
+  seasonal_rate_name: 'Summer',
+  weekday_adjustment: 0,
+  weekday_rate: 0,
+  demand_adjustment: 0,
+  demand_rate: 0,
+  adjusted_price_per_night: 120,
+  last_minute_discount: 12,
+  gap_discount: 0,
+  gap_rate: 0,
+  gap_nights: null,
+  los_discount: 5.4,
+  los_rate: 0.05,
+  discounted_price_per_night: 102.6,
+  final_price_per_night: 102.6,
+  total_price: 718.2,
+  min_price_per_night: 60,
+  savings_amount: 17.4,
+  savings_percentage: 14.5,
+  has_seasonal_rate: true,
+  has_weekday_adjustment: false,
+  has_demand_adjustment: false,
+  has_last_minute_discount: true,
+  has_gap_discount: false,
+  has_los_discount: true,
+  at_minimum_price: false,
+  is_overridden: false,
+  stacking_mode: 'compound',
+  discount_order: 'after_adjustments',
+  min_price_stage: 'final',
+  max_total_discount: null,
+  excluded_discounts: [],
+  discount_cap_reduction: 0,
+  min_price_adjustment: 0,
+  calculated_price_per_night: 102.6,
+  base_price: 100,
+  min_price_enforced: false,
+  ...overrides
+})
+
+const keys = (steps: ReturnType<typeof buildPriceBreakdown>) => steps.map(step => step.key)
+const finalPrice = (steps: ReturnType<typeof buildPriceBreakdown>) => steps[steps.length - 1].priceAfter
+
+describe('buildPriceBreakdown', () => {
+  it('applies adjustments, then discounts, with a running price', () => {
+    const steps = buildPriceBreakdown(night(), { nights: 7 })
+
+    expect(keys(steps)).toEqual(['base', 'seasonal', 'last_minute', 'los'])
+    expect(steps.map(step => step.priceAfter)).toEqual([100, 120, 108, 102.6])
+    expect(steps[1].label).toBe('Seasonal adjustment – Summer (20%)')
+    expect(steps[2].label).toBe('Last-minute discount (10%)')
+    expect(steps[3].label).toBe('Length-of-stay discount (7 nights, 5%)')
+  })
+
+  it('adds up to the price under an additive policy with a cap', () => {
+    // 10% + 5% + 20% gap = 35% of 120, capped at 25%
+    const steps = buildPriceBreakdown(night({
+      stacking_mode: 'additive',
+      max_total_discount: 0.25,
+      last_minute_discount: 12,
+      los_discount: 6,
+      gap_discount: 24,
+      gap_rate: 0.2,
+      gap_nights: 2,
+      discount_cap_reduction: 12,
+      final_price_per_night: 90
+    }), { nights: 7 })
+
+    expect(keys(steps)).toEqual(['base', 'seasonal', 'last_minute', 'gap', 'los', 'cap'])
+    expect(steps[5]).toMatchObject({ kind: 'cap', label: 'Total discount capped at 25%', amount: 12 })
+    expect(finalPrice(steps)).toBe(90)
+  })
+
+  it('lists exclusive discounts that were dropped without changing the price', () => {
+    const steps = buildPriceBreakdown(night({
+      los_discount: 0,
+      excluded_discounts: ['length_of_stay'],
+      final_price_per_night: 108
+    }), { nights: 7 })
+
+    expect(steps.find(step => step.key === 'excluded_length_of_stay')).toMatchObject({
+      kind: 'excluded',
+      amount: 0,
+      label: 'Length-of-stay discount not applied: exclusive with a larger discount'
+    })
+    expect(finalPrice(steps)).toBe(108)
+  })
+
+  it('works discounts out on the base price when they come before adjustments', () => {
+    const steps = buildPriceBreakdown(night({
+      discount_order: 'before_adjustments',
+      last_minute_discount: 10,
+      los_discount: 4.5,
+      final_price_per_night: 105.5
+    }), { nights: 7 })
+
+    expect(keys(steps)).toEqual(['base', 'last_minute', 'los', 'seasonal'])
+    expect(steps[1].label).toBe('Last-minute discount (10%)')
+    expect(finalPrice(steps)).toBe(105.5)
+  })
+
+  it('floors the price before discounts when the policy says so', () => {
+    const steps = buildPriceBreakdown(night({
+      seasonal_adjustment: -50,
+      adjusted_price_per_night: 50,
+      min_price_stage: 'before_discounts',
+      min_price_adjustment: 10,
+      last_minute_discount: 6,
+      los_discount: 0,
+      final_price_per_night: 54
+    }), { nights: 7 })
+
+    expect(keys(steps)).toEqual(['base', 'seasonal', 'minimum_before_discounts', 'last_minute'])
+    expect(finalPrice(steps)).toBe(54)
+  })
+
+  it('raises the final price to the minimum', () => {
+    const steps = buildPriceBreakdown(night({ min_price_adjustment: 7.4, final_price_per_night: 110 }), { nights: 7 })
+
+    expect(steps[steps.length - 1]).toMatchObject({ key: 'minimum', label: 'Raised to minimum price' })
+    expect(finalPrice(steps)).toBe(110)
+  })
+
+  it('ends on the override price', () => {
+    const steps = buildPriceBreakdown(night({ is_overridden: true, final_price_per_night: 130 }), { nights: 7 })
+
+    expect(steps[steps.length - 1]).toMatchObject({ key: 'override', amount: expect.closeTo(27.4) })
+    expect(finalPrice(steps)).toBeCloseTo(130)
+  })
+
+  it('leaves out switched-off components', () => {
+    const steps = buildPriceBreakdown(night(), {
+      nights: 7,
+      includeSeasonalRates: false,
+      includeDiscountStrategies: false
+    })
+
+    expect(keys(steps)).toEqual(['base'])
+  })
+})
+
+describe('describeStackingPolicy', () => {
+  it('describes the default compound policy', () => {
+    expect(describeStackingPolicy(night())).toEqual([
+      'Each discount comes off the price left by the previous one',
+      'Discounts come off the price after seasonal, weekday and demand adjustments',
+      'The minimum price applies to the final price'
+    ])
+  })
+
+  it('describes an additive, capped, exclusive policy applied to the base price', () => {
+    expect(describeStackingPolicy(night({
+      stacking_mode: 'additive',
+      discount_order: 'before_adjustments',
+      min_price_stage: 'before_discounts',
+      max_total_discount: 0.3,
+      excluded_discounts: ['gap']
+    }))).toEqual([
+      'Discount percentages are added together',
+      'Discounts are worked out on the base price, before seasonal, weekday and demand adjustments',
+      'The minimum price floors the price before discounts; discounts may go below it',
+      'Discounts together take at most 30% off',
+      'Only the largest of the exclusive discounts applies'
+    ])
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseCurvePoints,
+  interpolateCurve,
+  evaluateCurve,
+  sampleCurve,
+  sampleEarlyBirdCurve,
+  generateCustomCurveRules,
+  generateRulesByCurveType,
+  type CurveDefinition
+} from '@/utils/ruleTemplates'
+
+const points = [
+  { days: 14, discount: 0.05 },
+  { days: 1, discount: 0.25 },
+  { days: 7, discount: 0.15 }
+]
+
+const custom = (overrides: Partial<CurveDefinition> = {}): CurveDefinition => ({
+  curveType: 'custom',
+  activationWindow: 14,
+  minDiscount: 0,
+  maxDiscount: 0.3,
+  points,
+  interpolation: 'linear',
+  ...overrides
+})
+
+describe('parseCurvePoints', () => {
+  it('keeps well-formed points sorted by days', () => {
+    expect(parseCurvePoints(points as never)).toEqual([
+      { days: 1, discount: 0.25 },
+      { days: 7, discount: 0.15 },
+      { days: 14, discount: 0.05 }
+    ])
+  })
+
+  it('drops malformed entries and anything that is not a list', () => {
+    expect(parseCurvePoints([{ days: 3, discount: 0.1, label: 'x' }, { days: '5', discount: 0.1 }, null, [1, 2]]))
+      .toEqual([{ days: 3, discount: 0.1 }])
+    expect(parseCurvePoints(null)).toEqual([])
+    expect(parseCurvePoints({ days: 3, discount: 0.1 })).toEqual([])
+  })
+})
+
+describe('interpolateCurve', () => {
+  it('joins points with straight lines', () => {
+    expect(interpolateCurve(points, 'linear', 4)).toBeCloseTo(0.2)
+    expect(interpolateCurve(points, 'linear', 7)).toBeCloseTo(0.15)
+  })
+
+  it('uses the nearest point at or beyond the lead time when stepped', () => {
+    expect(interpolateCurve(points, 'stepped', 4)).toBe(0.15)
+    expect(interpolateCurve(points, 'stepped', 8)).toBe(0.05)
+  })
+
+  it('holds the first point before it and gives nothing past the last', () => {
+    expect(interpolateCurve(points, 'linear', 0)).toBe(0.25)
+    expect(interpolateCurve(points, 'linear', 15)).toBe(0)
+  })
+})
+
+describe('evaluateCurve', () => {
+  it('gives nothing outside the activation window', () => {
+    expect(evaluateCurve(custom({ activationWindow: 10 }), 12)).toBe(0)
+    expect(evaluateCurve(custom(), -1)).toBe(0)
+  })
+
+  it('gives nothing for a custom curve without points', () => {
+    expect(evaluateCurve(custom({ points: [] }), 3)).toBe(0)
+    expect(evaluateCurve(custom({ points: null }), 3)).toBe(0)
+  })
+
+  it('defaults custom curves to linear interpolation', () => {
+    expect(evaluateCurve(custom({ interpolation: null }), 4)).toBeCloseTo(0.2)
+  })
+
+  it('runs preset curves from the maximum at check-in to the minimum at the window', () => {
+    const moderate: CurveDefinition = { curveType: 'moderate', activationWindow: 10, minDiscount: 0.1, maxDiscount: 0.3 }
+
+    expect(evaluateCurve(moderate, 0)).toBeCloseTo(0.3)
+    expect(evaluateCurve(moderate, 5)).toBeCloseTo(0.2)
+    expect(evaluateCurve(moderate, 10)).toBeCloseTo(0.1)
+    expect(evaluateCurve({ ...moderate, curveType: 'aggressive' }, 5)).toBeGreaterThan(0.2)
+    expect(evaluateCurve({ ...moderate, curveType: 'gentle' }, 5)).toBeLessThan(0.2)
+  })
+})
+
+describe('sampleCurve', () => {
+  it('samples every step from check-in to the window, keeping custom corners', () => {
+    const samples = sampleCurve(custom({ activationWindow: 30, points: [{ days: 7, discount: 0.2 }] }), 10)
+
+    expect(samples.map(sample => sample.days)).toEqual([0, 3, 6, 7, 9, 12, 15, 18, 21, 24, 27, 30])
+    expect(samples.find(sample => sample.days === 7)?.discount).toBe(0.2)
+  })
+})
+
+describe('sampleEarlyBirdCurve', () => {
+  it('holds each discount until the next threshold and the last out to maxDays', () => {
+    expect(sampleEarlyBirdCurve([{ days: 90, discount: 0.1 }, { days: 60, discount: 0.05 }], 120)).toEqual([
+      { days: 60, discount: 0 },
+      { days: 60, discount: 0.05 },
+      { days: 90, discount: 0.05 },
+      { days: 90, discount: 0.1 },
+      { days: 120, discount: 0.1 }
+    ])
+  })
+
+  it('draws nothing without thresholds', () => {
+    expect(sampleEarlyBirdCurve([], 120)).toEqual([])
+  })
+})
+
+describe('generateCustomCurveRules', () => {
+  it('gives one rule per point for a stepped curve', () => {
+    expect(generateCustomCurveRules(points, 'stepped', 14).map(rule => [rule.days_before_checkin, rule.discount_percentage]))
+      .toEqual([[1, 0.25], [7, 0.15], [14, 0.05]])
+  })
+
+  it('samples a linear curve between its points', () => {
+    const rules = generateCustomCurveRules(points, 'linear', 14, 7)
+
+    expect(rules.map(rule => rule.days_before_checkin)).toEqual([1, 3, 5, 7, 9, 11, 13, 14])
+    expect(rules.find(rule => rule.days_before_checkin === 3)?.discount_percentage).toBeCloseTo(0.2167, 4)
+  })
+
+  it('leaves out points beyond the activation window', () => {
+    expect(generateCustomCurveRules(points, 'stepped', 10).map(rule => rule.days_before_checkin)).toEqual([1, 7])
+  })
+})
+
+describe('generateRulesByCurveType', () => {
+  it('builds custom rules from the control points', () => {
+    expect(generateRulesByCurveType('custom', 14, undefined, undefined, { points, interpolation: 'stepped' }))
+      .toHaveLength(3)
+    expect(generateRulesByCurveType('custom', 14)).toEqual([])
+  })
+
+  it('clamps preset templates to the discount bounds within the window', () => {
+    const rules = generateRulesByCurveType('aggressive', 7, 0.22, 0.28)
+
+    expect(rules.map(rule => [rule.days_before_checkin, rule.discount_percentage])).toEqual([
+      [1, 0.28], [2, 0.28], [3, 0.25], [5, 0.22], [7, 0.22]
+    ])
+  })
+})
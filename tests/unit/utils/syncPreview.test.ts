@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generatePropertySyncPreview,
+  generateSyncPreview,
+  formatSyncPreviewSummary
+} from '@/utils/syncPreview'
+import { defaultRate, rate, propertyPayload } from '@/test/mocks/lodgifyRates'
+
+const pushed = [defaultRate(), rate('2027-07-01', '2027-07-05', 180)]
+
+describe('generatePropertySyncPreview', () => {
+  it('warns that the full payload is sent when nothing was pushed before', () => {
+    const preview = generatePropertySyncPreview(propertyPayload(1, ...pushed), null)
+
+    expect(preview.hasBaseline).toBe(false)
+    expect(preview.mode).toBe('full')
+    expect(preview.changes).toEqual([])
+    expect(preview.totals.ratesToSend).toBe(2)
+    expect(preview.warnings).toEqual(['No record of what Lodgify currently has; the full payload will be sent'])
+  })
+
+  it('shows nothing to send when the rates are unchanged', () => {
+    const preview = generatePropertySyncPreview(propertyPayload(1, ...pushed), pushed)
+
+    expect(preview.mode).toBe('unchanged')
+    expect(preview.totals).toMatchObject({ changedNights: 0, ratesToSend: 0, totalRates: 2 })
+    expect(preview.warnings).toEqual([])
+  })
+
+  it('lists price changes night by night', () => {
+    const preview = generatePropertySyncPreview(
+      propertyPayload(1, defaultRate(), rate('2027-07-01', '2027-07-03', 180), rate('2027-07-04', '2027-07-05', 198)),
+      pushed
+    )
+
+    expect(preview.mode).toBe('delta')
+    expect(preview.changes).toEqual([
+      { date: '2027-07-04', type: 'price', oldPrice: 180, newPrice: 198, oldStay: '2-6', newStay: '2-6', percentChange: 10 },
+      { date: '2027-07-05', type: 'price', oldPrice: 180, newPrice: 198, oldStay: '2-6', newStay: '2-6', percentChange: 10 }
+    ])
+    expect(preview.totals).toMatchObject({ priceChanges: 2, changedNights: 2, ratesToSend: 2, largeSwings: 0 })
+  })
+
+  it('reports a different stay category on a night as a stay change', () => {
+    const preview = generatePropertySyncPreview(
+      propertyPayload(1, defaultRate(), rate('2027-07-01', '2027-07-04', 180), rate('2027-07-05', '2027-07-05', 180, 3, 6)),
+      pushed
+    )
+
+    expect(preview.changes).toEqual([
+      expect.objectContaining({ date: '2027-07-05', type: 'stay', oldStay: '2-6', newStay: '3-6' })
+    ])
+    expect(preview.totals.stayChanges).toBe(1)
+  })
+
+  it('compares added and removed nights with the default rate', () => {
+    const preview = generatePropertySyncPreview(
+      propertyPayload(1, defaultRate(), rate('2027-07-01', '2027-07-04', 180), rate('2027-07-10', '2027-07-10', 165)),
+      pushed
+    )
+
+    expect(preview.changes).toEqual([
+      expect.objectContaining({ date: '2027-07-05', type: 'removed', oldPrice: 180, newPrice: null, percentChange: expect.closeTo(-16.67, 2) }),
+      expect.objectContaining({ date: '2027-07-10', type: 'added', oldPrice: null, newPrice: 165, percentChange: 10 })
+    ])
+    expect(preview.totals).toMatchObject({ addedNights: 1, removedNights: 1 })
+    expect(preview.mode).toBe('full')
+    expect(preview.warnings).toContain('1 night loses a stay category; the full payload will be sent')
+  })
+
+  it('flags large swings with the largest one', () => {
+    const preview = generatePropertySyncPreview(
+      propertyPayload(1, defaultRate(), rate('2027-07-01', '2027-07-01', 240), rate('2027-07-02', '2027-07-04', 180), rate('2027-07-05', '2027-07-05', 90)),
+      pushed
+    )
+
+    expect(preview.totals.largeSwings).toBe(2)
+    expect(preview.warnings).toEqual(['2 nights change by 25% or more (largest -50% on 2027-07-05)'])
+  })
+
+  it('honours a custom swing threshold', () => {
+    const preview = generatePropertySyncPreview(
+      propertyPayload(1, defaultRate(), rate('2027-07-01', '2027-07-05', 198)),
+      pushed,
+      'EUR',
+      0.05
+    )
+
+    expect(preview.totals.largeSwings).toBe(5)
+  })
+
+  it('warns about a changed default rate in the property currency', () => {
+    const preview = generatePropertySyncPreview(
+      propertyPayload(1, defaultRate(165), rate('2027-07-01', '2027-07-05', 180)),
+      pushed,
+      'GBP'
+    )
+
+    expect(preview.mode).toBe('full')
+    expect(preview.defaultRateChange).toEqual({ oldPrice: 150, newPrice: 165 })
+    expect(preview.warnings).toEqual(['Default rate changes from £150.00 to £165.00 (+10%); the full payload will be sent'])
+  })
+})
+
+describe('generateSyncPreview', () => {
+  it('adds up the properties and prefixes their warnings', () => {
+    const preview = generateSyncPreview(
+      [
+        propertyPayload(1, ...pushed),
+        propertyPayload(2, defaultRate(), rate('2027-07-01', '2027-07-05', 200))
+      ],
+      new Map([[1, pushed]])
+    )
+
+    expect(preview).toMatchObject({
+      totalProperties: 2,
+      propertiesWithChanges: 1,
+      totals: { changedNights: 0, ratesToSend: 2, totalRates: 4 }
+    })
+    expect(preview.warnings).toEqual(['Property 2: No record of what Lodgify currently has; the full payload will be sent'])
+    expect(formatSyncPreviewSummary(preview)).toBe('1 of 2 properties change · 0 nights affected · 2 of 4 rates to send')
+  })
+
+  it('summarises a preview without changes', () => {
+    const preview = generateSyncPreview([propertyPayload(1, ...pushed)], new Map([[1, pushed]]))
+
+    expect(formatSyncPreviewSummary(preview)).toBe('No changes to push for 1 properties.')
+  })
+})